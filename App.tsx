@@ -1,5 +1,5 @@
 import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
-import { Product, View, ToastMessage, Vendor, Request, RequestStatus, User, UserRole, PurchaseOrder, PurchaseOrderStatus, AuditLog, StockAdjustment } from './types';
+import { Product, ProductPrice, LabelTemplate, HardwareScannerSettings, View, ToastMessage, Vendor, Warehouse, BinLocation, CategoryStockLevels, CategoryFieldSchema, ProductStock, StockLot, LotReceipt, SerialNumber, Request, RequestStatus, StockReservation, User, UserRole, PurchaseOrder, PurchaseOrderStatus, AuditLog, StockAdjustment, StockTransfer, StockMovement, Stocktake, StocktakeLine, StockLedgerDiscrepancy, QueuedMutation, SyncConflict, QuantityEntry, CompanySettings, ValuationMethod } from './types';
 import Sidebar from './components/Sidebar';
 import Header from './components/Header';
 import Dashboard from './components/Dashboard';
@@ -10,14 +10,31 @@ import ConfirmDeleteModal from './components/ConfirmDeleteModal';
 import ToastContainer from './components/Toast';
 import VendorFormModal from './components/VendorFormModal';
 import VendorDetailModal from './components/VendorDetailModal';
+import ProductDetailPage from './components/ProductDetailPage';
+import WarehouseFormModal from './components/WarehouseFormModal';
+import BinLocationFormModal from './components/BinLocationFormModal';
+import ReplenishmentList, { ReplenishmentLine } from './components/ReplenishmentList';
+import ExpiryList from './components/ExpiryList';
+import SerialLookup from './components/SerialLookup';
+import KitAssemblyModal, { KitAssemblyMode } from './components/KitAssemblyModal';
+import StockTransferModal from './components/StockTransferModal';
+import ProductLabelsModal, { LabelOutput } from './components/ProductLabelsModal';
+import ProductImportModal from './components/ProductImportModal';
+import ScanSessionPanel, { ScanMode, ScanFeedback } from './components/ScanSessionPanel';
+import ScanTallyModal from './components/ScanTallyModal';
+import CategoryStockLevelsModal from './components/CategoryStockLevelsModal';
+import CategoryFieldsModal from './components/CategoryFieldsModal';
+import LocationList from './components/LocationList';
 import ConfirmDeleteVendorModal from './components/ConfirmDeleteVendorModal';
 import RequestList from './components/RequestList';
 import RequestFormModal from './components/RequestFormModal';
 import ConfirmApproveModal from './components/ConfirmApproveModal';
 import ConfirmRejectModal from './components/ConfirmRejectModal';
 import ConfirmCollectedModal from './components/ConfirmCollectedModal';
+import ConfirmCancelRequestModal from './components/ConfirmCancelRequestModal';
 import RequestDetailModal from './components/RequestDetailModal';
 import AdminPanel from './components/AdminPanel';
+import InventoryValuationReport from './components/InventoryValuationReport';
 import ConfirmAdminActionModal from './components/ConfirmAdminActionModal';
 import AddUserModal from './components/AddUserModal';
 import PurchaseOrderList from './components/PurchaseOrderList';
@@ -29,8 +46,35 @@ import Reports from './components/Reports';
 import AuditLogComponent from './components/AuditLog';
 import StockAdjustmentList from './components/StockAdjustmentList';
 import StockAdjustmentFormModal from './components/StockAdjustmentFormModal';
+import StocktakeList from './components/StocktakeList';
+import StocktakeSession from './components/StocktakeSession';
+import StocktakeFormModal, { StocktakeScopeInput } from './components/StocktakeFormModal';
 import LoginPage from './components/LoginPage';
-import { supabase } from './utils/supabase';
+import SettingsPage from './components/SettingsPage';
+import { db, TableName, ChangeEvent } from './utils/db';
+import { getStockErrorCode, getStockErrorMessage } from './utils/stockOperations';
+import { ExportContext } from './utils/exports';
+import { ALL_WAREHOUSES, scopeProductsToWarehouse, filterByWarehouse, getDefaultWarehouse } from './utils/warehouses';
+import { resolveStockLevels, getStockStatus, needsReorder } from './utils/stockLevels';
+import { allocateLotsFefo, getProductLots, formatLotAllocations } from './utils/lots';
+import { ExpiryItem, getExpiryItems, getUnexpiredQuantity, isExpired } from './utils/expiry';
+import { formatCurrency, formatDate } from './utils/helpers';
+import { getAvailableSerials } from './utils/serials';
+import { RESERVATION_EXPIRY_CHECK_MS, getAvailableStock, getReservationExpiry, getReservedQuantities, getReservedQuantity } from './utils/reservations';
+import { getStockValues } from './utils/valuation';
+import { groupPriceHistory } from './utils/prices';
+import { getProductPageHash, parseProductPageHash } from './utils/productActivity';
+import { RecordReferences, isArchived, combineChecks, checkProductArchive, checkVendorArchive, checkProductRestore, checkProductPurge, checkVendorPurge } from './utils/recycleBin';
+import { getAssemblableKits, planKitIssue } from './utils/kits';
+import { getBaseUnit, toDocumentQuantity, formatDocumentQuantity } from './utils/units';
+import { printBinLabels } from './utils/locations';
+import { describeStocktakeScope, getEnteredCount, getLinesToCount, getStocktakeReference, isOutsideTolerance, printCountSheet } from './utils/stocktakes';
+import { printProductLabels, downloadProductLabelsPdf } from './utils/labels';
+import { ProductImportRow, ProductImportSummary } from './utils/productImport';
+import { ScanTallyLine, resolveScanCode, addToScanTally, getScanTallyTotal, printPurchaseOrderQr } from './utils/scanning';
+import { loadHardwareScannerSettings, saveHardwareScannerSettings } from './utils/hardwareScanner';
+import { useHardwareScanner, HardwareScan } from './hooks/useHardwareScanner';
+import { isNetworkError, newMutationId, enqueueMutation, replayOutbox, getOutbox, getSyncConflicts, dismissSyncConflict } from './utils/offline';
 import { LoadingIcon } from './components/icons/Icons';
 import ConfirmBulkDeleteModal from './components/ConfirmBulkDeleteModal';
 import ConfirmBulkDeleteVendorModal from './components/ConfirmBulkDeleteVendorModal';
@@ -42,19 +86,47 @@ import ProfileSettingsModal from './components/ProfileSettingsModal';
 import OnboardingTour from './components/OnboardingTour';
 import StartTourModal from './components/StartTourModal';
 import BarcodeScannerModal from './components/BarcodeScannerModal';
-import type { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
 import ConfirmDeleteUserModal from './components/ConfirmDeleteUserModal';
 import ConfirmResetPasswordModal from './components/ConfirmResetPasswordModal';
+import SyncStatusModal from './components/SyncStatusModal';
+import RecycleBin from './components/RecycleBin';
+import ConfirmPurgeModal from './components/ConfirmPurgeModal';
 
 
+const SELECTED_WAREHOUSE_KEY = 'stockerz_selected_warehouse_v1';
+
+// A product or vendor picked for permanent deletion from the recycle bin.
+type RecordToPurge = { type: 'product'; record: Product } | { type: 'vendor'; record: Vendor };
+
 const App: React.FC = () => {
-  const [products, setProducts] = useState<Product[]>([]);
-  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [allProducts, setProducts] = useState<Product[]>([]);
+  const [productPrices, setProductPrices] = useState<ProductPrice[]>([]);
+  const [allVendors, setVendors] = useState<Vendor[]>([]);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [binLocations, setBinLocations] = useState<BinLocation[]>([]);
+  const [categoryStockLevels, setCategoryStockLevels] = useState<CategoryStockLevels[]>([]);
+  const [categoryFieldSchemas, setCategoryFieldSchemas] = useState<CategoryFieldSchema[]>([]);
+  const [productStock, setProductStock] = useState<ProductStock[]>([]);
+  const [stockLots, setStockLots] = useState<StockLot[]>([]);
+  const [serialNumbers, setSerialNumbers] = useState<SerialNumber[]>([]);
   const [requests, setRequests] = useState<Request[]>([]);
+  const [stockReservations, setStockReservations] = useState<StockReservation[]>([]);
   const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
   const [users, setUsers] = useState<User[]>([]);
   const [auditLogs, setAuditLogs] = useState<AuditLog[]>([]);
   const [stockAdjustments, setStockAdjustments] = useState<StockAdjustment[]>([]);
+  const [stockMovements, setStockMovements] = useState<StockMovement[]>([]);
+  const [stocktakes, setStocktakes] = useState<Stocktake[]>([]);
+  const [stocktakeLines, setStocktakeLines] = useState<StocktakeLine[]>([]);
+  const [companySettings, setCompanySettings] = useState<CompanySettings | null>(null);
+
+  // Deleted products and vendors wait in the recycle bin until they are restored or purged; everything else works with the active ones.
+  const products = useMemo(() => allProducts.filter(p => !isArchived(p)), [allProducts]);
+  const vendors = useMemo(() => allVendors.filter(v => !isArchived(v)), [allVendors]);
+  const recordReferences = useMemo<RecordReferences>(
+    () => ({ products: allProducts, requests, purchaseOrders, stockMovements, stockAdjustments, stocktakeLines }),
+    [allProducts, requests, purchaseOrders, stockMovements, stockAdjustments, stocktakeLines]
+  );
   
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [currentView, setCurrentView] = useState<View>('dashboard');
@@ -66,6 +138,7 @@ const App: React.FC = () => {
   const [recentlyUpdatedProductId, setRecentlyUpdatedProductId] = useState<string | null>(null);
 
 
+  const [selectedWarehouseId, setSelectedWarehouseId] = useState<string>(() => localStorage.getItem(SELECTED_WAREHOUSE_KEY) || ALL_WAREHOUSES);
   const [isHeaderVisible, setIsHeaderVisible] = useState(true);
   const [sessionChecked, setSessionChecked] = useState(false);
   
@@ -79,21 +152,39 @@ const App: React.FC = () => {
   // Barcode Scanner State
   const [isBarcodeScannerOpen, setIsBarcodeScannerOpen] = useState(false);
   const [initialSearchTerm, setInitialSearchTerm] = useState('');
+  const [scanMode, setScanMode] = useState<ScanMode>('single');
+  const [scanTally, setScanTally] = useState<ScanTallyLine[]>([]);
+  const [scanFeedback, setScanFeedback] = useState<ScanFeedback | null>(null);
+  const [scanTallyToReview, setScanTallyToReview] = useState<ScanTallyLine[] | undefined>(undefined);
+  const [hardwareScannerSettings, setHardwareScannerSettings] = useState<HardwareScannerSettings>(loadHardwareScannerSettings);
+  const [lastHardwareScan, setLastHardwareScan] = useState<HardwareScan | null>(null);
+
+  // Offline Sync State
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [outbox, setOutbox] = useState<QueuedMutation[]>([]);
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>([]);
+  const [isSyncStatusOpen, setIsSyncStatusOpen] = useState(false);
+  const isReplayingRef = useRef(false);
+
+  // Latest products and category levels, read by the real-time reorder alert.
+  const productsRef = useRef<Product[]>([]);
+  const categoryStockLevelsRef = useRef<CategoryStockLevels[]>([]);
+  useEffect(() => { productsRef.current = allProducts; }, [allProducts]);
+  useEffect(() => { categoryStockLevelsRef.current = categoryStockLevels; }, [categoryStockLevels]);
 
   const handleOpenBarcodeScanner = useCallback(() => {
+    setScanMode('single');
+    setScanTally([]);
+    setScanFeedback(null);
     setIsBarcodeScannerOpen(true);
   }, []);
 
   const handleCloseBarcodeScanner = useCallback(() => {
     setIsBarcodeScannerOpen(false);
+    setScanTally([]);
+    setScanFeedback(null);
   }, []);
 
-  const handleBarcodeScanned = useCallback((decodedText: string) => {
-    setCurrentView('inventory');
-    setInitialSearchTerm(decodedText);
-    handleCloseBarcodeScanner();
-  }, [handleCloseBarcodeScanner]);
-
   useEffect(() => {
     const tourCompleted = localStorage.getItem('stockerz_tour_completed_v1');
     if (!tourCompleted && currentUser) {
@@ -117,16 +208,12 @@ const App: React.FC = () => {
     localStorage.setItem('stockerz_tour_completed_v1', 'true');
   };
   
-  // Session management with Supabase Auth
+  // Session management through the data backend's auth service
   useEffect(() => {
     const checkSession = async () => {
-      const { data: { session } } = await supabase.auth.getSession();
-      if (session?.user) {
-        const { data: profileData } = await supabase
-          .from('users')
-          .select('*')
-          .eq('id', session.user.id)
-          .single();
+      const userId = await db.auth.getSessionUserId();
+      if (userId) {
+        const profileData = await db.users.get(userId).catch(() => null);
         if (profileData) {
           setCurrentUser(profileData);
         }
@@ -136,14 +223,9 @@ const App: React.FC = () => {
 
     checkSession();
 
-    const { data: { subscription } } = supabase.auth.onAuthStateChange(
-      async (_event, session) => {
-        if (session?.user) {
-          const { data: profileData } = await supabase
-            .from('users')
-            .select('*')
-            .eq('id', session.user.id)
-            .single();
+    const unsubscribe = db.auth.onAuthStateChange(async (userId) => {
+        if (userId) {
+          const profileData = await db.users.get(userId).catch(() => null);
           // Only set the current user if a profile is found.
           // This prevents the admin from being logged out when a new user is created,
           // as the new user's profile doesn't exist yet when onAuthStateChange first fires.
@@ -154,11 +236,10 @@ const App: React.FC = () => {
           // If there's no session, log the user out.
           setCurrentUser(null);
         }
-      }
-    );
+    });
 
     return () => {
-      subscription.unsubscribe();
+      unsubscribe();
     };
   }, []);
 
@@ -174,7 +255,7 @@ const App: React.FC = () => {
   useEffect(() => {
     if (!currentUser) return;
 
-    const channels: RealtimeChannel[] = [];
+    const unsubscribers: (() => void)[] = [];
     
     const sortByName = <T extends { name: string }>(arr: T[]) => [...arr].sort((a, b) => a.name.localeCompare(b.name));
     const sortByDateDesc = <T extends { requestDate?: string, date?: string, timestamp?: string }>(arr: T[]) => [...arr].sort((a, b) => {
@@ -185,14 +266,13 @@ const App: React.FC = () => {
     const sortByUsername = (arr: User[]) => [...arr].sort((a, b) => a.username.localeCompare(b.username));
 
     const setupSubscription = <T extends { id: string }>(
-        table: string,
+        table: TableName,
         setState: React.Dispatch<React.SetStateAction<T[]>>,
         sortFn: (arr: T[]) => T[],
         callbacks?: { onInsert?: (newItem: T) => void; onUpdate?: (newItem: T) => void; onDelete?: (oldItem: any) => void; }
     ) => {
-        const channel = supabase.channel(`realtime-${table}`);
-        channel.on('postgres_changes', { event: '*', schema: 'public', table }, (payload: RealtimePostgresChangesPayload<T>) => {
-            const { eventType, new: newRecord, old: oldRecord } = payload;
+        unsubscribers.push(db.subscribe<T>(table, (change: ChangeEvent<T>) => {
+            const { eventType, new: newRecord, old: oldRecord } = change;
             
             switch (eventType) {
                 case 'INSERT':
@@ -211,8 +291,7 @@ const App: React.FC = () => {
                     setState(prev => prev.filter(item => item.id !== (oldRecord as any).id));
                     break;
             }
-        }).subscribe();
-        channels.push(channel);
+        }));
     };
 
     // Products
@@ -221,6 +300,13 @@ const App: React.FC = () => {
         onUpdate: (item: any) => {
             setRecentlyUpdatedProductId(item.id);
             setTimeout(() => setRecentlyUpdatedProductId(null), 2000);
+            // Alert once, when a product first drops to its reorder point.
+            const previous = productsRef.current.find(p => p.id === item.id);
+            if (previous) {
+                const wasLow = needsReorder(getStockStatus(previous.quantity, resolveStockLevels(previous, categoryStockLevelsRef.current)));
+                const isLow = needsReorder(getStockStatus(item.quantity, resolveStockLevels(item, categoryStockLevelsRef.current)));
+                if (!wasLow && isLow) addToast(`"${item.name}" is at or below its reorder point (${item.quantity} left).`, 'error');
+            }
         },
         onDelete: (item: any) => addToast(`Product removed: ${item.name}`, 'success')
     });
@@ -231,6 +317,15 @@ const App: React.FC = () => {
         onDelete: (item: any) => addToast(`Vendor removed: ${item.name}`, 'success')
     });
 
+    // Warehouses and per-warehouse stock
+    setupSubscription<Warehouse>('warehouses', setWarehouses, sortByName);
+    setupSubscription<ProductStock>('product_stock', setProductStock, arr => arr);
+    setupSubscription<StockLot>('stock_lots', setStockLots, arr => arr);
+    setupSubscription<SerialNumber>('serial_numbers', setSerialNumbers, arr => arr);
+    setupSubscription<BinLocation>('bin_locations', setBinLocations, arr => [...arr].sort((a, b) => a.code.localeCompare(b.code)));
+    setupSubscription<CategoryStockLevels>('category_stock_levels', setCategoryStockLevels, arr => [...arr].sort((a, b) => a.category.localeCompare(b.category)));
+    setupSubscription<CategoryFieldSchema>('category_field_schemas', setCategoryFieldSchemas, arr => [...arr].sort((a, b) => a.category.localeCompare(b.category)));
+
     // Requests
     setupSubscription('requests', setRequests, sortByDateDesc, {
         onInsert: () => {
@@ -238,6 +333,7 @@ const App: React.FC = () => {
             addToast("A new item request has been submitted.", 'success');
         }
     });
+    setupSubscription<StockReservation>('stock_reservations', setStockReservations, arr => arr);
 
     // Purchase Orders
     setupSubscription('purchase_orders', setPurchaseOrders, sortByDateDesc, {
@@ -259,20 +355,41 @@ const App: React.FC = () => {
     // Stock Adjustments
     setupSubscription('stock_adjustments', setStockAdjustments, sortByDateDesc);
 
-    // Audit Logs (Append-only)
-    const auditLogsChannel = supabase.channel('realtime-audit-logs-all');
-    auditLogsChannel
-      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'audit_logs' }, (payload) => {
-        setAuditLogs(prev => {
-          if (prev.some(l => l.id === payload.new.id)) return prev;
-          return sortByDateDesc([...prev, payload.new as AuditLog]);
-        });
-      })
-      .subscribe();
-    channels.push(auditLogsChannel);
+    // Stocktakes
+    setupSubscription<Stocktake>('stocktakes', setStocktakes, arr => [...arr].sort((a, b) => new Date(b.createdDate).getTime() - new Date(a.createdDate).getTime()));
+    setupSubscription<StocktakeLine>('stocktake_lines', setStocktakeLines, arr => arr);
+
+    // Company Settings (a single row)
+    unsubscribers.push(db.subscribe<CompanySettings>('company_settings', ({ eventType, new: newRecord }) => {
+        if (eventType !== 'DELETE') setCompanySettings(newRecord);
+    }));
+
+    // Append-only tables only ever receive inserts
+    const setupAppendOnlySubscription = <T extends { id: string }>(
+        table: TableName,
+        setState: React.Dispatch<React.SetStateAction<T[]>>,
+        sortFn: (arr: T[]) => T[]
+    ) => {
+        unsubscribers.push(db.subscribe<T>(table, ({ eventType, new: newRecord }) => {
+            if (eventType !== 'INSERT') return;
+            setState(prev => {
+                if (prev.some(item => item.id === newRecord.id)) return prev;
+                return sortFn([...prev, newRecord]);
+            });
+        }));
+    };
+
+    // Audit Logs
+    setupAppendOnlySubscription<AuditLog>('audit_logs', setAuditLogs, sortByDateDesc);
+
+    // Stock Ledger
+    setupAppendOnlySubscription<StockMovement>('stock_movements', setStockMovements, sortByDateDesc);
+
+    // Price History
+    setupAppendOnlySubscription<ProductPrice>('product_prices', setProductPrices, arr => arr);
 
     return () => {
-      channels.forEach(channel => supabase.removeChannel(channel));
+      unsubscribers.forEach(unsubscribe => unsubscribe());
     };
   }, [currentUser, currentView, addToast]);
 
@@ -298,53 +415,100 @@ const App: React.FC = () => {
     };
   }, [currentUser]); // Re-attach listener if layout changes after login
   
-  // Load data from Supabase on app start
+  // Load data from the data backend on app start
   useEffect(() => {
     const loadAppData = async () => {
        if (!currentUser) {
         setProducts([]);
+        setProductPrices([]);
         setVendors([]);
+        setWarehouses([]);
+        setBinLocations([]);
+        setCategoryStockLevels([]);
+        setCategoryFieldSchemas([]);
+        setProductStock([]);
+        setStockLots([]);
+        setSerialNumbers([]);
         setRequests([]);
+        setStockReservations([]);
         setPurchaseOrders([]);
         setUsers([]);
         setAuditLogs([]);
         setStockAdjustments([]);
+        setStockMovements([]);
+        setStocktakes([]);
+        setStocktakeLines([]);
+        setCompanySettings(null);
         return;
       }
       setIsLoading(true);
       try {
         const [
-          { data: productsData, error: productsError },
-          { data: vendorsData, error: vendorsError },
-          { data: requestsData, error: requestsError },
-          { data: usersData, error: usersError },
-          { data: purchaseOrdersData, error: purchaseOrdersError },
-          { data: auditLogsData, error: auditLogsError },
-          { data: stockAdjustmentsData, error: stockAdjustmentsError },
+          productsData,
+          productPricesData,
+          vendorsData,
+          warehousesData,
+          binLocationsData,
+          categoryStockLevelsData,
+          categoryFieldSchemasData,
+          productStockData,
+          stockLotsData,
+          serialNumbersData,
+          requestsData,
+          stockReservationsData,
+          usersData,
+          purchaseOrdersData,
+          auditLogsData,
+          stockAdjustmentsData,
+          stockMovementsData,
+          stocktakesData,
+          stocktakeLinesData,
+          companySettingsData,
         ] = await Promise.all([
-          supabase.from('products').select('*').order('name', { ascending: true }),
-          supabase.from('vendors').select('*').order('name', { ascending: true }),
-          supabase.from('requests').select('*').order('requestDate', { ascending: false }),
-          supabase.from('users').select('*').order('username', { ascending: true }),
-          supabase.from('purchase_orders').select('*').order('requestDate', { ascending: false }),
-          supabase.from('audit_logs').select('*').order('timestamp', { ascending: false }),
-          supabase.from('stock_adjustments').select('*').order('date', { ascending: false }),
+          db.products.list(),
+          db.productPrices.list(),
+          db.vendors.list(),
+          db.warehouses.list(),
+          db.binLocations.list(),
+          db.categoryStockLevels.list(),
+          db.categoryFieldSchemas.list(),
+          db.productStock.list(),
+          db.stockLots.list(),
+          db.serialNumbers.list(),
+          db.requests.list(),
+          db.stockReservations.list(),
+          db.users.list(),
+          db.purchaseOrders.list(),
+          db.auditLogs.list(),
+          db.stockAdjustments.list(),
+          db.stockMovements.list(),
+          db.stocktakes.list(),
+          db.stocktakeLines.list(),
+          db.companySettings.list(),
         ]);
 
-        const errors = [productsError, vendorsError, requestsError, usersError, purchaseOrdersError, auditLogsError, stockAdjustmentsError].filter(Boolean);
-        if (errors.length > 0) {
-            throw new Error(errors.map(e => e.message).join(', '));
-        }
-
         setProducts(productsData || []);
+        setProductPrices(productPricesData || []);
         setVendors(vendorsData || []);
+        setWarehouses(warehousesData || []);
+        setBinLocations(binLocationsData || []);
+        setCategoryStockLevels(categoryStockLevelsData || []);
+        setCategoryFieldSchemas(categoryFieldSchemasData || []);
+        setProductStock(productStockData || []);
+        setStockLots(stockLotsData || []);
+        setSerialNumbers(serialNumbersData || []);
         setRequests(requestsData || []);
+        setStockReservations(stockReservationsData || []);
         setUsers(usersData || []);
         setPurchaseOrders(purchaseOrdersData || []);
         setAuditLogs(auditLogsData || []);
         setStockAdjustments(stockAdjustmentsData || []);
+        setStockMovements(stockMovementsData || []);
+        setStocktakes(stocktakesData || []);
+        setStocktakeLines(stocktakeLinesData || []);
+        setCompanySettings(companySettingsData?.[0] || null);
       } catch (error) {
-        console.error("Failed to load data from Supabase", error);
+        console.error("Failed to load application data", error);
         addToast("Failed to load application data. Please check your connection.", "error");
       } finally {
         setIsLoading(false);
@@ -364,6 +528,7 @@ const App: React.FC = () => {
   const [productToDelete, setProductToDelete] = useState<Product | undefined>(undefined);
   const [isBulkDeleteModalOpen, setIsBulkDeleteModalOpen] = useState(false);
   const [productsToDeleteBulk, setProductsToDeleteBulk] = useState<string[]>([]);
+  const [productPageId, setProductPageId] = useState<string | null>(null);
 
   // Vendor Modals State
   const [isVendorModalOpen, setIsVendorModalOpen] = useState(false);
@@ -374,6 +539,19 @@ const App: React.FC = () => {
   const [vendorToView, setVendorToView] = useState<Vendor | undefined>(undefined);
   const [isBulkDeleteVendorModalOpen, setIsBulkDeleteVendorModalOpen] = useState(false);
   const [vendorsToDeleteBulk, setVendorsToDeleteBulk] = useState<string[]>([]);
+  const [recordToPurge, setRecordToPurge] = useState<RecordToPurge | undefined>(undefined);
+
+  // Warehouse Modal State
+  const [isWarehouseModalOpen, setIsWarehouseModalOpen] = useState(false);
+  const [warehouseToEdit, setWarehouseToEdit] = useState<Warehouse | undefined>(undefined);
+
+  // Bin Location Modal State
+  const [isBinLocationModalOpen, setIsBinLocationModalOpen] = useState(false);
+  const [binLocationToEdit, setBinLocationToEdit] = useState<BinLocation | undefined>(undefined);
+
+  // Category Stock Levels Modal State
+  const [categoryLevelsToEdit, setCategoryLevelsToEdit] = useState<string | undefined>(undefined);
+  const [categoryFieldsToEdit, setCategoryFieldsToEdit] = useState<string | undefined>(undefined);
 
   // Request Modals State
   const [isRequestModalOpen, setIsRequestModalOpen] = useState(false);
@@ -381,6 +559,7 @@ const App: React.FC = () => {
   const [isApproveModalOpen, setIsApproveModalOpen] = useState(false);
   const [isRejectModalOpen, setIsRejectModalOpen] = useState(false);
   const [isCollectedModalOpen, setIsCollectedModalOpen] = useState(false);
+  const [isCancelRequestModalOpen, setIsCancelRequestModalOpen] = useState(false);
   const [isRequestDetailModalOpen, setIsRequestDetailModalOpen] = useState(false);
   const [requestToView, setRequestToView] = useState<Request | undefined>(undefined);
 
@@ -396,6 +575,17 @@ const App: React.FC = () => {
   
     // Stock Adjustment Modal State
   const [isAdjustmentModalOpen, setIsAdjustmentModalOpen] = useState(false);
+  const [adjustmentProductId, setAdjustmentProductId] = useState<string | undefined>(undefined);
+  const [kitToAssemble, setKitToAssemble] = useState<Product | undefined>(undefined);
+  const [productToTransfer, setProductToTransfer] = useState<Product | undefined>(undefined);
+  const [productsToLabel, setProductsToLabel] = useState<Product[] | undefined>(undefined);
+  const [isProductImportModalOpen, setIsProductImportModalOpen] = useState(false);
+
+  // Stocktake State
+  const [isStocktakeFormOpen, setIsStocktakeFormOpen] = useState(false);
+  const [selectedStocktakeId, setSelectedStocktakeId] = useState<string | null>(null);
+  // Scanned counts are saved one at a time so quick scans of one product all add up.
+  const scannedCountQueue = useRef<Promise<void>>(Promise.resolve());
 
   // Admin Modal State
   const [isConfirmAdminModalOpen, setIsConfirmAdminModalOpen] = useState(false);
@@ -428,17 +618,25 @@ const App: React.FC = () => {
       action,
       details,
     };
-    const { error } = await supabase.from('audit_logs').insert(newLog);
-    if (error) {
+    try {
+      await db.auditLogs.insert(newLog);
+    } catch (error) {
       console.error("Failed to save audit log:", error);
     }
   }, [currentUser]);
 
+  // Records a stock-changing action in the offline outbox when the backend cannot be reached.
+  const queueOfflineMutation = useCallback(async (mutation: Omit<QueuedMutation, 'queuedAt'>) => {
+    const queued = await enqueueMutation(mutation);
+    setOutbox(prev => [...prev, queued]);
+    addToast("You are offline. The change was saved on this device and will sync when the connection returns.", 'success');
+  }, [addToast]);
+
   const handleSetCurrentView = useCallback((view: View) => {
     if (!currentUser) return;
     const userRole = currentUser.role;
 
-    if (userRole === 'Viewer' && ['requests', 'purchase-orders', 'admin', 'reports', 'audit-log', 'adjustments'].includes(view)) {
+    if (userRole === 'Viewer' && ['requests', 'purchase-orders', 'replenishment', 'admin', 'reports', 'audit-log', 'adjustments', 'stocktakes'].includes(view)) {
         addToast("You do not have permission to access this page.", "error");
         return;
     }
@@ -448,6 +646,12 @@ const App: React.FC = () => {
     }
     if (view === 'purchase-orders') {
       setHasNewPurchaseOrders(false);
+    }
+    if (view === 'stocktakes') {
+      setSelectedStocktakeId(null);
+    }
+    if (parseProductPageHash(window.location.hash)) {
+      window.history.pushState(null, '', window.location.pathname + window.location.search);
     }
      if (['admin', 'audit-log'].includes(view) && !['Supervisor', 'Manager', 'Super Admin'].includes(userRole)) {
       addToast("You do not have permission to access this page.", "error");
@@ -457,6 +661,27 @@ const App: React.FC = () => {
   }, [addToast, currentUser]);
 
   // Product Handlers
+  // The product page follows the URL hash, so it can be bookmarked or shared and the browser's back button leaves it.
+  const handleOpenProductPage = useCallback((product: Product) => {
+    window.location.hash = getProductPageHash(product.id);
+  }, []);
+
+  useEffect(() => {
+    if (!currentUser) return;
+    const showRoute = () => {
+      const productId = parseProductPageHash(window.location.hash);
+      if (productId) {
+        setProductPageId(productId);
+        setCurrentView('product');
+      } else {
+        setCurrentView(view => view === 'product' ? 'inventory' : view);
+      }
+    };
+    showRoute();
+    window.addEventListener('hashchange', showRoute);
+    return () => window.removeEventListener('hashchange', showRoute);
+  }, [currentUser]);
+
   const handleOpenModal = useCallback((product?: Product) => {
     setProductToEdit(product);
     setIsModalOpen(true);
@@ -472,9 +697,9 @@ const App: React.FC = () => {
     let message = '';
     try {
         if (productData.id) { // Update
-            const { id, ...updateData } = { ...productData, lastModifiedBy: currentUser.username };
-            const { error } = await supabase.from('products').update(updateData).eq('id', id);
-            if (error) throw error;
+            // Quantity is maintained by the stock ledger and is only changed through adjustments.
+            const { id, quantity: _quantity, ...updateData } = { ...productData, lastModifiedBy: currentUser.username };
+            await db.products.update(id, updateData);
             await handleLogAction('Updated Product', `SKU: ${updateData.sku}, Name: ${updateData.name}`);
             message = `Product "${updateData.name}" was successfully updated.`;
         } else { // Create
@@ -482,8 +707,7 @@ const App: React.FC = () => {
                 ...productData,
                 lastModifiedBy: currentUser.username,
             };
-            const { data, error } = await supabase.from('products').insert(newProduct).select().single();
-            if (error) throw error;
+            const data = await db.products.insert(newProduct);
             await handleLogAction('Created Product', `SKU: ${data.sku}, Name: ${data.name}`);
             message = `Product "${data.name}" was successfully added.`;
         }
@@ -496,6 +720,47 @@ const App: React.FC = () => {
     }
   }, [handleCloseModal, addToast, handleLogAction, currentUser]);
 
+  const handleOpenProductImportModal = useCallback(() => setIsProductImportModalOpen(true), []);
+  const handleCloseProductImportModal = useCallback(() => setIsProductImportModalOpen(false), []);
+
+  // Rows are saved one by one so a failing row does not stop the rest; the whole import is logged as one entry.
+  const handleImportProducts = useCallback(async (rows: ProductImportRow[], fileName: string): Promise<ProductImportSummary> => {
+    const summary: ProductImportSummary = {
+        created: 0,
+        updated: 0,
+        skipped: rows.filter(row => row.action === 'skip').length,
+        invalid: rows.filter(row => row.action === 'error').length,
+        failed: [],
+    };
+    if (!currentUser) return summary;
+
+    for (const row of rows) {
+        if (!row.data || (row.action !== 'create' && row.action !== 'update')) continue;
+        try {
+            if (row.action === 'update' && row.existing) {
+                // Quantity is maintained by the stock ledger and is only changed through adjustments.
+                const { quantity: _quantity, ...updateData } = { ...row.data, lastModifiedBy: currentUser.username };
+                await db.products.update(row.existing.id, updateData);
+                summary.updated++;
+            } else {
+                await db.products.insert({ ...row.data, lastModifiedBy: currentUser.username });
+                summary.created++;
+            }
+        } catch (error: any) {
+            console.error(`Failed to import row ${row.rowNumber}:`, error);
+            summary.failed.push({ rowNumber: row.rowNumber, sku: row.sku, message: error?.message || 'Database error.' });
+        }
+    }
+
+    await handleLogAction('Imported Products', `File: ${fileName}, Created: ${summary.created}, Updated: ${summary.updated}, Skipped: ${summary.skipped}, With errors: ${summary.invalid}, Failed: ${summary.failed.length}`);
+    if (summary.failed.length > 0) {
+        addToast(`${summary.failed.length} product${summary.failed.length === 1 ? '' : 's'} could not be imported.`, 'error');
+    } else {
+        addToast(`Import finished: ${summary.created} created, ${summary.updated} updated.`, 'success');
+    }
+    return summary;
+  }, [currentUser, handleLogAction, addToast]);
+
   const handleOpenDeleteModal = useCallback((product: Product) => {
     setProductToDelete(product);
     setIsDeleteModalOpen(true);
@@ -507,29 +772,32 @@ const App: React.FC = () => {
   }, []);
 
   const handleConfirmDelete = useCallback(async () => {
-    if (!productToDelete) return;
+    if (!productToDelete || !currentUser) return;
     const idToDelete = productToDelete.id;
+    // The modal disables the button when blocked; this catches a request or order opened since.
+    const { blockers } = checkProductArchive(productToDelete, recordReferences);
+    if (blockers.length > 0) {
+        addToast(blockers[0], 'error');
+        return;
+    }
     try {
         setItemsBeingDeleted(prev => new Set(prev).add(idToDelete));
-        const { error } = await supabase.from('products').delete().eq('id', idToDelete);
-        if (error) throw error;
-        
-        // UI state removal is handled by realtime subscription
-        
-        await handleLogAction('Deleted Product', `SKU: ${productToDelete.sku}, Name: ${productToDelete.name}`);
-        // Toast is now handled by realtime subscription for a more accurate message
+        await db.products.update(idToDelete, { archivedAt: new Date().toISOString(), archivedBy: currentUser.username });
+        await handleLogAction('Deleted Product', `SKU: ${productToDelete.sku}, Name: ${productToDelete.name}, Moved to Recycle Bin`);
+        addToast(`"${productToDelete.name}" was moved to the Recycle Bin.`, 'success');
         handleCloseDeleteModal();
     } catch (error) {
         console.error("Failed to delete product:", error);
         addToast("Failed to delete product. Please try again.", "error");
+        throw error;
+    } finally {
         setItemsBeingDeleted(prev => {
             const newSet = new Set(prev);
             newSet.delete(idToDelete);
             return newSet;
         });
-        throw error;
     }
-  }, [productToDelete, handleCloseDeleteModal, addToast, handleLogAction]);
+  }, [productToDelete, currentUser, recordReferences, handleCloseDeleteModal, addToast, handleLogAction]);
 
   const handleOpenBulkDeleteModal = useCallback((productIds: string[]) => {
     setProductsToDeleteBulk(productIds);
@@ -542,28 +810,33 @@ const App: React.FC = () => {
   }, []);
 
   const handleConfirmBulkDelete = useCallback(async () => {
-    if (productsToDeleteBulk.length === 0) return;
+    if (productsToDeleteBulk.length === 0 || !currentUser) return;
+    const archivingIds = new Set<string>(productsToDeleteBulk);
+    const { blockers } = combineChecks<Product>(products.filter(p => archivingIds.has(p.id)), p => checkProductArchive(p, recordReferences, archivingIds));
+    if (blockers.length > 0) {
+        addToast(blockers[0], 'error');
+        return;
+    }
     try {
       setItemsBeingDeleted(prev => new Set([...prev, ...productsToDeleteBulk]));
-      const { error } = await supabase.from('products').delete().in('id', productsToDeleteBulk);
-      if (error) throw error;
+      const archive = { archivedAt: new Date().toISOString(), archivedBy: currentUser.username };
+      await Promise.all(productsToDeleteBulk.map(id => db.products.update(id, archive)));
 
-      // UI state removal is handled by realtime subscription
-
-      await handleLogAction('Bulk Deleted Products', `${productsToDeleteBulk.length} items`);
-      addToast(`${productsToDeleteBulk.length} products were successfully deleted.`, 'success');
+      await handleLogAction('Bulk Deleted Products', `${productsToDeleteBulk.length} items, Moved to Recycle Bin`);
+      addToast(`${productsToDeleteBulk.length} products were moved to the Recycle Bin.`, 'success');
       handleCloseBulkDeleteModal();
     } catch (error) {
       console.error("Failed to bulk delete products:", error);
       addToast("An error occurred while deleting products.", "error");
-       setItemsBeingDeleted(prev => {
+      throw error;
+    } finally {
+      setItemsBeingDeleted(prev => {
           const newSet = new Set(prev);
-          productsToDeleteBulk.forEach(id => newSet.delete(id));
+          archivingIds.forEach(id => newSet.delete(id));
           return newSet;
       });
-      throw error;
     }
-  }, [productsToDeleteBulk, handleCloseBulkDeleteModal, addToast, handleLogAction]);
+  }, [productsToDeleteBulk, products, currentUser, recordReferences, handleCloseBulkDeleteModal, addToast, handleLogAction]);
 
 
   // Vendor Handlers
@@ -584,13 +857,11 @@ const App: React.FC = () => {
     try {
         if (payload.id) {
             const { id, ...updateData } = payload;
-            const { error } = await supabase.from('vendors').update(updateData).eq('id', id);
-            if (error) throw error;
+            await db.vendors.update(id, updateData);
             await handleLogAction('Updated Vendor', `ID: ${id}, Name: ${updateData.name}`);
             message = `Vendor "${updateData.name}" was successfully updated.`;
         } else {
-            const { data, error } = await supabase.from('vendors').insert(payload).select().single();
-            if (error) throw error;
+            const data = await db.vendors.insert(payload);
             await handleLogAction('Created Vendor', `ID: ${data.id}, Name: ${data.name}`);
             message = `Vendor "${data.name}" was successfully added.`;
         }
@@ -614,29 +885,31 @@ const App: React.FC = () => {
   }, []);
 
   const handleConfirmDeleteVendor = useCallback(async () => {
-    if (!vendorToDelete) return;
+    if (!vendorToDelete || !currentUser) return;
     const idToDelete = vendorToDelete.id;
+    const { blockers } = checkVendorArchive(vendorToDelete, recordReferences);
+    if (blockers.length > 0) {
+        addToast(blockers[0], 'error');
+        return;
+    }
     try {
         setItemsBeingDeleted(prev => new Set(prev).add(idToDelete));
-        const { error } = await supabase.from('vendors').delete().eq('id', idToDelete);
-        if (error) throw error;
-        
-        // UI state removal is handled by realtime subscription
-        
-        await handleLogAction('Deleted Vendor', `ID: ${vendorToDelete.id}, Name: ${vendorToDelete.name}`);
-        // Toast is handled by realtime subscription
+        await db.vendors.update(idToDelete, { archivedAt: new Date().toISOString(), archivedBy: currentUser.username });
+        await handleLogAction('Deleted Vendor', `ID: ${vendorToDelete.id}, Name: ${vendorToDelete.name}, Moved to Recycle Bin`);
+        addToast(`"${vendorToDelete.name}" was moved to the Recycle Bin.`, 'success');
         handleCloseDeleteVendorModal();
     } catch (error) {
         console.error("Failed to delete vendor:", error);
         addToast("Failed to delete vendor. Please try again.", "error");
+        throw error;
+    } finally {
         setItemsBeingDeleted(prev => {
             const newSet = new Set(prev);
             newSet.delete(idToDelete);
             return newSet;
         });
-        throw error;
     }
-  }, [vendorToDelete, handleCloseDeleteVendorModal, addToast, handleLogAction]);
+  }, [vendorToDelete, currentUser, recordReferences, handleCloseDeleteVendorModal, addToast, handleLogAction]);
   
   const handleOpenBulkDeleteVendorModal = useCallback((vendorIds: string[]) => {
     setVendorsToDeleteBulk(vendorIds);
@@ -649,28 +922,282 @@ const App: React.FC = () => {
   }, []);
 
   const handleConfirmBulkDeleteVendor = useCallback(async () => {
-    if (vendorsToDeleteBulk.length === 0) return;
+    if (vendorsToDeleteBulk.length === 0 || !currentUser) return;
+    const { blockers } = combineChecks<Vendor>(vendors.filter(v => vendorsToDeleteBulk.includes(v.id)), v => checkVendorArchive(v, recordReferences));
+    if (blockers.length > 0) {
+        addToast(blockers[0], 'error');
+        return;
+    }
     try {
       setItemsBeingDeleted(prev => new Set([...prev, ...vendorsToDeleteBulk]));
-      const { error } = await supabase.from('vendors').delete().in('id', vendorsToDeleteBulk);
-      if (error) throw error;
+      const archive = { archivedAt: new Date().toISOString(), archivedBy: currentUser.username };
+      await Promise.all(vendorsToDeleteBulk.map(id => db.vendors.update(id, archive)));
 
-      // UI state removal is handled by realtime subscription
-      
-      await handleLogAction('Bulk Deleted Vendors', `${vendorsToDeleteBulk.length} items`);
-      addToast(`${vendorsToDeleteBulk.length} vendors were successfully deleted.`, 'success');
+      await handleLogAction('Bulk Deleted Vendors', `${vendorsToDeleteBulk.length} items, Moved to Recycle Bin`);
+      addToast(`${vendorsToDeleteBulk.length} vendors were moved to the Recycle Bin.`, 'success');
       handleCloseBulkDeleteVendorModal();
     } catch (error) {
       console.error("Failed to bulk delete vendors:", error);
       addToast("An error occurred while deleting vendors.", "error");
+      throw error;
+    } finally {
       setItemsBeingDeleted(prev => {
           const newSet = new Set(prev);
           vendorsToDeleteBulk.forEach(id => newSet.delete(id));
           return newSet;
       });
-      throw error;
     }
-  }, [vendorsToDeleteBulk, handleCloseBulkDeleteVendorModal, addToast, handleLogAction]);
+  }, [vendorsToDeleteBulk, vendors, currentUser, recordReferences, handleCloseBulkDeleteVendorModal, addToast, handleLogAction]);
+
+  // Recycle Bin Handlers
+  const handleRestoreProduct = useCallback(async (product: Product) => {
+    const { blockers } = checkProductRestore(product, recordReferences, allVendors);
+    if (blockers.length > 0) {
+        addToast(blockers[0], 'error');
+        return;
+    }
+    try {
+        await db.products.update(product.id, { archivedAt: null, archivedBy: null });
+        await handleLogAction('Restored Product', `SKU: ${product.sku}, Name: ${product.name}`);
+        addToast(`"${product.name}" was restored.`, 'success');
+    } catch (error) {
+        console.error("Failed to restore product:", error);
+        addToast("Failed to restore product. Please try again.", "error");
+        throw error;
+    }
+  }, [recordReferences, allVendors, addToast, handleLogAction]);
+
+  const handleRestoreVendor = useCallback(async (vendor: Vendor) => {
+    try {
+        await db.vendors.update(vendor.id, { archivedAt: null, archivedBy: null });
+        await handleLogAction('Restored Vendor', `ID: ${vendor.id}, Name: ${vendor.name}`);
+        addToast(`"${vendor.name}" was restored.`, 'success');
+    } catch (error) {
+        console.error("Failed to restore vendor:", error);
+        addToast("Failed to restore vendor. Please try again.", "error");
+        throw error;
+    }
+  }, [addToast, handleLogAction]);
+
+  const handleOpenPurgeModal = useCallback((record: RecordToPurge) => {
+    setRecordToPurge(record);
+  }, []);
+
+  const handleClosePurgeModal = useCallback(() => {
+    setRecordToPurge(undefined);
+  }, []);
+
+  // Only a Super Admin can purge, and only records nothing refers to any more.
+  const handleConfirmPurge = useCallback(async () => {
+    if (!recordToPurge || currentUser?.role !== 'Super Admin') return;
+    const { type, record } = recordToPurge;
+    const { blockers } = recordToPurge.type === 'product' ? checkProductPurge(recordToPurge.record, recordReferences) : checkVendorPurge(recordToPurge.record, recordReferences);
+    if (blockers.length > 0) {
+        addToast(blockers[0], 'error');
+        return;
+    }
+    try {
+        if (recordToPurge.type === 'product') {
+            await db.recycleBin.purgeProduct(record.id);
+            await handleLogAction('Purged Product', `SKU: ${recordToPurge.record.sku}, Name: ${record.name}`);
+        } else {
+            await db.recycleBin.purgeVendor(record.id);
+            await handleLogAction('Purged Vendor', `ID: ${record.id}, Name: ${record.name}`);
+        }
+        // Toast is handled by realtime subscription
+        handleClosePurgeModal();
+    } catch (error) {
+        console.error(`Failed to purge ${type}:`, error);
+        addToast(getStockErrorMessage(error, `Failed to delete the ${type} permanently. Please try again.`), "error");
+        throw error;
+    }
+  }, [recordToPurge, currentUser, recordReferences, handleClosePurgeModal, addToast, handleLogAction]);
+
+  // Warehouse Handlers
+  const handleSelectWarehouse = useCallback((warehouseId: string) => {
+    setSelectedWarehouseId(warehouseId);
+    localStorage.setItem(SELECTED_WAREHOUSE_KEY, warehouseId);
+  }, []);
+
+  // Fall back to all warehouses if the remembered warehouse no longer exists.
+  useEffect(() => {
+    if (warehouses.length > 0 && selectedWarehouseId !== ALL_WAREHOUSES && !warehouses.some(w => w.id === selectedWarehouseId)) {
+      handleSelectWarehouse(ALL_WAREHOUSES);
+    }
+  }, [warehouses, selectedWarehouseId, handleSelectWarehouse]);
+
+  const handleOpenWarehouseModal = useCallback((warehouse?: Warehouse) => {
+    setWarehouseToEdit(warehouse);
+    setIsWarehouseModalOpen(true);
+  }, []);
+
+  const handleCloseWarehouseModal = useCallback(() => {
+    setIsWarehouseModalOpen(false);
+    setWarehouseToEdit(undefined);
+  }, []);
+
+  const handleSaveWarehouse = useCallback(async (warehouseData: Omit<Warehouse, 'id' | 'lastModifiedBy' | 'lastUpdated'> & { id?: string; }) => {
+    if (!currentUser) return;
+    let message = '';
+    const payload = { ...warehouseData, lastUpdated: new Date().toISOString(), lastModifiedBy: currentUser.username };
+    try {
+        // Only one warehouse can be the default.
+        const previousDefault = warehouses.find(w => w.isDefault && w.id !== payload.id);
+        if (payload.isDefault && previousDefault) {
+            await db.warehouses.update(previousDefault.id, { isDefault: false });
+        }
+        if (payload.id) {
+            const { id, ...updateData } = payload;
+            await db.warehouses.update(id, updateData);
+            await handleLogAction('Updated Warehouse', `Code: ${updateData.code}, Name: ${updateData.name}`);
+            message = `Warehouse "${updateData.name}" was successfully updated.`;
+        } else {
+            const data = await db.warehouses.insert(payload);
+            await handleLogAction('Created Warehouse', `Code: ${data.code}, Name: ${data.name}`);
+            message = `Warehouse "${data.name}" was successfully added.`;
+        }
+        handleCloseWarehouseModal();
+        addToast(message, 'success');
+    } catch (error) {
+        console.error("Failed to save warehouse:", error);
+        addToast("Failed to save warehouse. Please try again.", "error");
+        throw error;
+    }
+  }, [warehouses, handleCloseWarehouseModal, addToast, handleLogAction, currentUser]);
+
+  // Bin Location Handlers
+  const handleOpenBinLocationModal = useCallback((binLocation?: BinLocation) => {
+    setBinLocationToEdit(binLocation);
+    setIsBinLocationModalOpen(true);
+  }, []);
+
+  const handleCloseBinLocationModal = useCallback(() => {
+    setIsBinLocationModalOpen(false);
+    setBinLocationToEdit(undefined);
+  }, []);
+
+  const handleSaveBinLocation = useCallback(async (binData: Omit<BinLocation, 'id' | 'lastModifiedBy' | 'lastUpdated'> & { id?: string; }) => {
+    if (!currentUser) return;
+    let message = '';
+    const payload = { ...binData, lastUpdated: new Date().toISOString(), lastModifiedBy: currentUser.username };
+    try {
+        if (payload.id) {
+            const { id, ...updateData } = payload;
+            await db.binLocations.update(id, updateData);
+            await handleLogAction('Updated Bin Location', `Code: ${updateData.code}`);
+            message = `Location "${updateData.code}" was successfully updated.`;
+        } else {
+            const data = await db.binLocations.insert(payload);
+            await handleLogAction('Created Bin Location', `Code: ${data.code}`);
+            message = `Location "${data.code}" was successfully added.`;
+        }
+        handleCloseBinLocationModal();
+        addToast(message, 'success');
+    } catch (error) {
+        console.error("Failed to save bin location:", error);
+        addToast("Failed to save location. Please try again.", "error");
+        throw error;
+    }
+  }, [handleCloseBinLocationModal, addToast, handleLogAction, currentUser]);
+
+  const handleOpenCategoryStockLevelsModal = useCallback((category: string) => {
+    setCategoryLevelsToEdit(category);
+  }, []);
+
+  const handleCloseCategoryStockLevelsModal = useCallback(() => {
+    setCategoryLevelsToEdit(undefined);
+  }, []);
+
+  const handleSaveCategoryStockLevels = useCallback(async (levelsData: Omit<CategoryStockLevels, 'id' | 'lastModifiedBy' | 'lastUpdated'> & { id?: string; }) => {
+    if (!currentUser) return;
+    const payload = { ...levelsData, lastUpdated: new Date().toISOString(), lastModifiedBy: currentUser.username };
+    try {
+        if (payload.id) {
+            const { id, ...updateData } = payload;
+            await db.categoryStockLevels.update(id, updateData);
+        } else {
+            const { id, ...insertData } = payload;
+            await db.categoryStockLevels.insert(insertData);
+        }
+        await handleLogAction('Updated Category Stock Levels', `Category: ${payload.category}, Reorder Point: ${payload.reorderPoint ?? 'default'}, Reorder Qty: ${payload.reorderQuantity ?? 'default'}, Min: ${payload.minStock ?? 'default'}, Max: ${payload.maxStock ?? 'none'}`);
+        handleCloseCategoryStockLevelsModal();
+        addToast(`Stock levels for "${payload.category}" were successfully saved.`, 'success');
+    } catch (error) {
+        console.error("Failed to save category stock levels:", error);
+        addToast("Failed to save stock levels. Please try again.", "error");
+        throw error;
+    }
+  }, [handleCloseCategoryStockLevelsModal, addToast, handleLogAction, currentUser]);
+
+  const handleOpenCategoryFieldsModal = useCallback((category: string) => {
+    setCategoryFieldsToEdit(category);
+  }, []);
+
+  const handleCloseCategoryFieldsModal = useCallback(() => {
+    setCategoryFieldsToEdit(undefined);
+  }, []);
+
+  const handleSaveCategoryFields = useCallback(async (schemaData: Omit<CategoryFieldSchema, 'id' | 'lastModifiedBy' | 'lastUpdated'> & { id?: string; }) => {
+    if (!currentUser) return;
+    const payload = { ...schemaData, lastUpdated: new Date().toISOString(), lastModifiedBy: currentUser.username };
+    try {
+        if (payload.id) {
+            const { id, ...updateData } = payload;
+            await db.categoryFieldSchemas.update(id, updateData);
+        } else {
+            const { id, ...insertData } = payload;
+            await db.categoryFieldSchemas.insert(insertData);
+        }
+        await handleLogAction('Updated Category Custom Fields', `Category: ${payload.category}, Fields: ${payload.fields.map(f => `${f.label} (${f.type}${f.required ? ', required' : ''})`).join(', ') || 'none'}`);
+        handleCloseCategoryFieldsModal();
+        addToast(`Custom fields for "${payload.category}" were successfully saved.`, 'success');
+    } catch (error) {
+        console.error("Failed to save category custom fields:", error);
+        addToast("Failed to save custom fields. Please try again.", "error");
+        throw error;
+    }
+  }, [handleCloseCategoryFieldsModal, addToast, handleLogAction, currentUser]);
+
+  const valuationMethod: ValuationMethod = companySettings?.valuationMethod || 'FIFO';
+
+  const handleSaveValuationMethod = useCallback(async (method: ValuationMethod) => {
+    if (!currentUser) return;
+    const payload = { valuationMethod: method, lastUpdated: new Date().toISOString(), lastModifiedBy: currentUser.username };
+    try {
+        const saved = companySettings
+            ? await db.companySettings.update(companySettings.id, payload)
+            : await db.companySettings.insert({ id: 'company', ...payload });
+        setCompanySettings(saved);
+        await handleLogAction('Changed Valuation Method', `From: ${valuationMethod}, To: ${method}`);
+        addToast(`Stock issued from now on is costed using ${method}.`, 'success');
+    } catch (error) {
+        console.error("Failed to save valuation method:", error);
+        addToast("Failed to save the valuation method. Please try again.", "error");
+        throw error;
+    }
+  }, [companySettings, valuationMethod, addToast, handleLogAction, currentUser]);
+
+  const handlePrintBinLabels = useCallback((bins: BinLocation[]) => {
+    try {
+        printBinLabels(bins, warehouses);
+    } catch (error: any) {
+        console.error("Failed to print bin labels:", error);
+        addToast(error?.message || "Failed to print labels.", "error");
+    }
+  }, [warehouses, addToast]);
+
+  const handleOpenProductLabelsModal = useCallback((productsToPrint: Product[]) => setProductsToLabel(productsToPrint), []);
+  const handleCloseProductLabelsModal = useCallback(() => setProductsToLabel(undefined), []);
+
+  const handleOutputProductLabels = useCallback((productsToPrint: Product[], template: LabelTemplate, output: LabelOutput) => {
+    try {
+        if (output === 'pdf') downloadProductLabelsPdf(productsToPrint, template);
+        else printProductLabels(productsToPrint, template);
+    } catch (error: any) {
+        console.error("Failed to output product labels:", error);
+        addToast(error?.message || "Failed to print labels.", "error");
+    }
+  }, [addToast]);
 
 
   const handleOpenVendorDetailModal = useCallback((vendor: Vendor) => {
@@ -687,15 +1214,18 @@ const App: React.FC = () => {
   const handleOpenRequestModal = useCallback(() => setIsRequestModalOpen(true), []);
   const handleCloseRequestModal = useCallback(() => setIsRequestModalOpen(false), []);
 
-  const handleSaveRequest = useCallback(async (requestData: Omit<Request, 'id' | 'status'>) => {
-    const newRequest: Omit<Request, 'id'> = {
-        ...requestData,
-        status: 'Pending Approval',
-    };
+  const handleSaveRequest = useCallback(async (requestData: Omit<Request, 'id' | 'status' | 'quantity' | 'baseUnit'> & QuantityEntry) => {
     try {
-        const { data, error } = await supabase.from('requests').insert(newRequest).select().single();
-        if (error) throw error;
-        await handleLogAction('Created Request', `Product: ${data.productName}, Qty: ${data.quantity}, For: ${data.requestingDivision}`);
+        // Requests store the quantity in the product's base unit, alongside the unit it was entered in
+        const product = products.find(p => p.id === requestData.productId);
+        if (!product) throw new Error(`Product ${requestData.productId} not found.`);
+        const newRequest: Omit<Request, 'id'> = {
+            ...requestData,
+            ...toDocumentQuantity(product, requestData),
+            status: 'Pending Approval',
+        };
+        const data = await db.requests.insert(newRequest);
+        await handleLogAction('Created Request', `Product: ${data.productName}, Qty: ${formatDocumentQuantity(data)}, For: ${data.requestingDivision}`);
         handleCloseRequestModal();
         addToast('New item request has been created.', 'success');
     } catch (error) {
@@ -703,15 +1233,10 @@ const App: React.FC = () => {
         addToast("Failed to create request due to a database error.", "error");
         throw error;
     }
-  }, [addToast, handleCloseRequestModal, handleLogAction]);
+  }, [addToast, handleCloseRequestModal, handleLogAction, products]);
 
-  const updateRequestStatus = useCallback(async (requestId: string, status: RequestStatus, user: User, isCollecting = false) => {
-      const updateData = isCollecting
-          ? { status, collectedBy: user.username, collectionDate: new Date().toISOString() }
-          : { status, approvedBy: user.username, actionDate: new Date().toISOString() };
-      
-      const { error } = await supabase.from('requests').update(updateData).eq('id', requestId);
-      if (error) throw error;
+  const updateRequestStatus = useCallback(async (requestId: string, status: RequestStatus, user: User) => {
+      await db.requests.update(requestId, { status, approvedBy: user.username, actionDate: new Date().toISOString() });
   }, []);
 
   const handleOpenApproveModal = useCallback((request: Request) => {
@@ -724,36 +1249,33 @@ const App: React.FC = () => {
     setIsApproveModalOpen(false);
   }, []);
 
-  const handleConfirmApprove = useCallback(async () => {
+  const handleConfirmApprove = useCallback(async (serials?: string[]) => {
     if (!requestToAction || !currentUser) return;
 
     try {
-        const product = products.find(p => p.id === requestToAction.productId);
-        if (!product || product.quantity < requestToAction.quantity) {
-            addToast(`Stock for "${requestToAction.productName}" is insufficient.`, 'error');
-            handleCloseApproveModal();
-            return;
-        }
+        const { request } = await db.stock.approveRequest(requestToAction.id, currentUser.username, getReservationExpiry(), serials);
+        setRequests(prev => prev.map(r => r.id === request.id ? request : r));
 
-        const newQuantity = product.quantity - requestToAction.quantity;
-        const { error: productError } = await supabase
-            .from('products')
-            .update({ quantity: newQuantity, lastUpdated: new Date().toISOString() })
-            .eq('id', product.id);
-        
-        if (productError) throw productError;
-
-        await updateRequestStatus(requestToAction.id, 'Approved', currentUser);
-        
-        await handleLogAction('Approved Request', `ID: ${requestToAction.id}, Product: ${requestToAction.productName}`);
-        addToast(`Request for "${requestToAction.productName}" approved. Stock has been updated.`, 'success');
+        const serialDetails = request.serialNumbers?.length ? `, Serials: ${request.serialNumbers.join(', ')}` : '';
+        await handleLogAction('Approved Request', `ID: ${requestToAction.id}, Product: ${requestToAction.productName}, Reserved until: ${formatDate(request.reservedUntil!)}${serialDetails}`);
+        addToast(`Request for "${requestToAction.productName}" approved. Stock is reserved until ${formatDate(request.reservedUntil!)}.`, 'success');
         handleCloseApproveModal();
     } catch (error) {
+        if (getStockErrorCode(error) === 'INSUFFICIENT_STOCK') {
+            addToast(`Available stock for "${requestToAction.productName}" is insufficient.`, 'error');
+            handleCloseApproveModal();
+            return;
+        }
+        if (getStockErrorCode(error) === 'EXPIRED_STOCK') {
+            addToast(`Only expired stock of "${requestToAction.productName}" is left to issue.`, 'error');
+            handleCloseApproveModal();
+            return;
+        }
         console.error("Failed to approve request:", error);
-        addToast("Failed to approve request. Please try again.", "error");
+        addToast(getStockErrorMessage(error, "Failed to approve request. Please try again."), "error");
         throw error;
     }
-  }, [requestToAction, products, updateRequestStatus, addToast, handleCloseApproveModal, handleLogAction, currentUser]);
+  }, [requestToAction, addToast, handleCloseApproveModal, handleLogAction, currentUser]);
 
   const handleOpenRejectModal = useCallback((request: Request) => {
     setRequestToAction(request);
@@ -791,17 +1313,59 @@ const App: React.FC = () => {
 
   const handleConfirmCollected = useCallback(async () => {
     if (!requestToAction || !currentUser) return;
+    const mutationId = newMutationId();
     try {
-      await updateRequestStatus(requestToAction.id, 'Collected', currentUser, true);
-      await handleLogAction('Collected Request', `ID: ${requestToAction.id}, Product: ${requestToAction.productName}`);
-      addToast(`Request for "${requestToAction.productName}" marked as collected.`, 'success');
+      const { product, request } = await db.stock.collectRequest(requestToAction.id, currentUser.username, undefined, mutationId);
+      setProducts(prev => prev.map(p => p.id === product.id ? product : p));
+      setRequests(prev => prev.map(r => r.id === request.id ? request : r));
+
+      const lotDetails = request.lotAllocations?.length ? `, Lots: ${formatLotAllocations(request.lotAllocations)}` : '';
+      const serialDetails = request.serialNumbers?.length ? `, Serials: ${request.serialNumbers.join(', ')}` : '';
+      await handleLogAction('Collected Request', `ID: ${requestToAction.id}, Product: ${requestToAction.productName}${lotDetails}${serialDetails}`);
+      addToast(`Request for "${requestToAction.productName}" marked as collected. Stock has been issued.`, 'success');
       handleCloseCollectedModal();
     } catch (error) {
+      if (isNetworkError(error)) {
+        await queueOfflineMutation({
+          id: mutationId,
+          kind: 'collect_request',
+          payload: { requestId: requestToAction.id },
+          description: `Collect request for "${requestToAction.productName}" (${formatDocumentQuantity(requestToAction)})`,
+          username: currentUser.username,
+        });
+        handleCloseCollectedModal();
+        return;
+      }
       console.error("Failed to mark as collected:", error);
-      addToast("Failed to update request due to a database error.", "error");
+      addToast(getStockErrorMessage(error, "Failed to update request due to a database error."), "error");
+      throw error;
+    }
+  }, [requestToAction, addToast, handleCloseCollectedModal, handleLogAction, currentUser, queueOfflineMutation]);
+
+  const handleOpenCancelRequestModal = useCallback((request: Request) => {
+    setRequestToAction(request);
+    setIsCancelRequestModalOpen(true);
+  }, []);
+
+  const handleCloseCancelRequestModal = useCallback(() => {
+    setRequestToAction(undefined);
+    setIsCancelRequestModalOpen(false);
+  }, []);
+
+  const handleConfirmCancelRequest = useCallback(async () => {
+    if (!requestToAction || !currentUser) return;
+    try {
+      const { request } = await db.stock.cancelRequest(requestToAction.id, currentUser.username);
+      setRequests(prev => prev.map(r => r.id === request.id ? request : r));
+      await handleLogAction('Cancelled Request', `ID: ${requestToAction.id}, Product: ${requestToAction.productName}, Qty: ${formatDocumentQuantity(requestToAction)}`);
+      addToast(`Request for "${requestToAction.productName}" cancelled. Its reserved stock is available again.`, 'success');
+      handleCloseCancelRequestModal();
+    } catch (error) {
+      console.error("Failed to cancel request:", error);
+      addToast(getStockErrorMessage(error, "Failed to cancel request. Please try again."), "error");
       throw error;
     }
-  }, [requestToAction, updateRequestStatus, addToast, handleCloseCollectedModal, handleLogAction, currentUser]);
+  }, [requestToAction, addToast, handleCloseCancelRequestModal, handleLogAction, currentUser]);
 
 
   const handleOpenRequestDetailModal = useCallback((request: Request) => {
@@ -818,17 +1382,26 @@ const App: React.FC = () => {
   const handleOpenPOModal = useCallback(() => setIsPOModalOpen(true), []);
   const handleClosePOModal = useCallback(() => setIsPOModalOpen(false), []);
 
-  const handleSavePurchaseOrder = useCallback(async (poData: Omit<PurchaseOrder, 'id' | 'status' | 'requestedBy'>) => {
-    if (!currentUser) return;
+  // New purchase orders always start pending approval, whether raised by hand or from replenishment.
+  // Quantities are converted to the product's base unit, as for requests.
+  const createPurchaseOrder = useCallback(async (poData: Omit<PurchaseOrder, 'id' | 'status' | 'requestedBy' | 'quantity' | 'baseUnit'> & QuantityEntry, user: User) => {
+    const product = products.find(p => p.id === poData.productId);
+    if (!product) throw new Error(`Product ${poData.productId} not found.`);
     const newPO: Omit<PurchaseOrder, 'id'> = {
         ...poData,
+        ...toDocumentQuantity(product, poData),
         status: 'Pending Approval',
-        requestedBy: currentUser.username,
+        requestedBy: user.username,
     };
+    const data = await db.purchaseOrders.insert(newPO);
+    await handleLogAction('Created Purchase Order', `Product: ${data.productName}, Qty: ${formatDocumentQuantity(data)}`);
+    return data;
+  }, [handleLogAction, products]);
+
+  const handleSavePurchaseOrder = useCallback(async (poData: Omit<PurchaseOrder, 'id' | 'status' | 'requestedBy' | 'quantity' | 'baseUnit'> & QuantityEntry) => {
+    if (!currentUser) return;
     try {
-        const { data, error } = await supabase.from('purchase_orders').insert(newPO).select().single();
-        if (error) throw error;
-        await handleLogAction('Created Purchase Order', `Product: ${data.productName}, Qty: ${data.quantity}`);
+        await createPurchaseOrder(poData, currentUser);
         handleClosePOModal();
         addToast('New purchase order has been created.', 'success');
     } catch (error) {
@@ -836,12 +1409,30 @@ const App: React.FC = () => {
         addToast("Failed to create purchase order due to a database error.", "error");
         throw error;
     }
-  }, [addToast, handleClosePOModal, handleLogAction, currentUser]);
+  }, [addToast, handleClosePOModal, createPurchaseOrder, currentUser]);
+
+  const handleCreateReplenishmentOrders = useCallback(async (lines: ReplenishmentLine[], warehouseId: string) => {
+    if (!currentUser) return;
+    const requestDate = new Date().toISOString();
+    let created = 0;
+    try {
+        for (const { quantity, ...line } of lines) {
+            // Suggested quantities are in the base unit
+            const unit = getBaseUnit(products.find(p => p.id === line.productId));
+            await createPurchaseOrder({ ...line, unit, unitQuantity: quantity, warehouseId, requestDate, notes: 'Drafted from replenishment suggestions.' }, currentUser);
+            created++;
+        }
+        addToast(`${created} purchase order${created === 1 ? ' was' : 's were'} created and sent for approval.`, 'success');
+    } catch (error) {
+        console.error("Failed to create replenishment purchase orders:", error);
+        addToast(`Created ${created} of ${lines.length} purchase orders before a database error.`, "error");
+        throw error;
+    }
+  }, [addToast, createPurchaseOrder, currentUser, products]);
   
   const updatePOStatus = useCallback(async (poId: string, status: PurchaseOrderStatus, user: User) => {
       const updateData = { status, approvedBy: user.username, actionDate: new Date().toISOString() };
-      const { error } = await supabase.from('purchase_orders').update(updateData).eq('id', poId);
-      if (error) throw error;
+      await db.purchaseOrders.update(poId, updateData);
   }, []);
 
   const handleOpenApprovePOModal = useCallback((po: PurchaseOrder) => {
@@ -912,90 +1503,450 @@ const App: React.FC = () => {
       setIsReceivedPOModalOpen(false);
   }, []);
 
-  const handleConfirmReceivePO = useCallback(async () => {
+  const handleConfirmReceivePO = useCallback(async (lot?: LotReceipt, serials?: string[], unitCost?: number) => {
       if (!poToReceive || !currentUser) return;
 
-      const productToUpdate = products.find(p => p.id === poToReceive.productId);
-      if (!productToUpdate) {
-          addToast(`Product "${poToReceive.productName}" not found in inventory.`, "error");
-          handleCloseReceivedPOModal();
-          return;
-      }
-
+      const mutationId = newMutationId();
       try {
-          const newQuantity = productToUpdate.quantity + poToReceive.quantity;
-          const { error: productError } = await supabase
-            .from('products')
-            .update({ quantity: newQuantity, lastUpdated: new Date().toISOString(), lastModifiedBy: currentUser.username })
-            .eq('id', productToUpdate.id);
-
-          if (productError) throw productError;
-
-          const { data: updatedPO, error: poError } = await supabase
-            .from('purchase_orders')
-            .update({ status: 'Received', receivedBy: currentUser.username, receivedDate: new Date().toISOString() })
-            .eq('id', poToReceive.id)
-            .select()
-            .single();
-
-          if (poError) throw poError;
-          
-          await handleLogAction('Received Purchase Order', `ID: ${updatedPO.id}, Product: ${updatedPO.productName}, Qty: ${updatedPO.quantity}`);
+          const { product, purchaseOrder: updatedPO } = await db.stock.receivePurchaseOrder(poToReceive.id, currentUser.username, lot, serials, unitCost, mutationId);
+          setProducts(prev => prev.map(p => p.id === product.id ? product : p));
+          setPurchaseOrders(prev => prev.map(po => po.id === updatedPO.id ? updatedPO : po));
+
+          await handleLogAction('Received Purchase Order', `ID: ${updatedPO.id}, Product: ${updatedPO.productName}, Qty: ${formatDocumentQuantity(updatedPO)}${updatedPO.unitCost !== undefined ? `, Unit Cost: ${formatCurrency(updatedPO.unitCost, 'IDR')}` : ''}${lot ? `, Lot: ${lot.lotNumber}` : ''}${serials?.length ? `, Serials: ${serials.join(', ')}` : ''}`);
           addToast(`Stock for "${updatedPO.productName}" has been updated.`, 'success');
           handleCloseReceivedPOModal();
       } catch (error) {
+          if (isNetworkError(error)) {
+              await queueOfflineMutation({
+                  id: mutationId,
+                  kind: 'receive_purchase_order',
+                  payload: { poId: poToReceive.id, lot, serialNumbers: serials, unitCost },
+                  description: `Receive purchase order for "${poToReceive.productName}" (${formatDocumentQuantity(poToReceive)}${lot ? `, lot ${lot.lotNumber}` : ''})`,
+                  username: currentUser.username,
+              });
+              handleCloseReceivedPOModal();
+              return;
+          }
+          if (getStockErrorCode(error) === 'PRODUCT_NOT_FOUND') {
+              addToast(`Product "${poToReceive.productName}" not found in inventory.`, "error");
+              handleCloseReceivedPOModal();
+              return;
+          }
           console.error("Failed to mark PO as received:", error);
-          addToast("Failed to update database. Please try again.", "error");
+          addToast(getStockErrorMessage(error, "Failed to update database. Please try again."), "error");
           throw error;
       }
-  }, [poToReceive, currentUser, products, addToast, handleCloseReceivedPOModal, handleLogAction]);
+  }, [poToReceive, currentUser, addToast, handleCloseReceivedPOModal, handleLogAction, queueOfflineMutation]);
 
     // Adjustment Handlers
-  const handleOpenAdjustmentModal = useCallback(() => setIsAdjustmentModalOpen(true), []);
-  const handleCloseAdjustmentModal = useCallback(() => setIsAdjustmentModalOpen(false), []);
+  const handleOpenAdjustmentModal = useCallback((productId?: string) => {
+      setAdjustmentProductId(productId);
+      setIsAdjustmentModalOpen(true);
+  }, []);
+  const handleCloseAdjustmentModal = useCallback(() => {
+      setAdjustmentProductId(undefined);
+      setIsAdjustmentModalOpen(false);
+  }, []);
+
+  // Applies one adjustment, or queues it while offline. Other errors are left to the caller.
+  const recordStockAdjustment = useCallback(async (adjustmentData: Omit<StockAdjustment, 'id' | 'adjustedBy' | 'date'>, username: string): Promise<'applied' | 'queued'> => {
+      const mutationId = newMutationId();
+      try {
+          const { product, adjustment: savedAdjustment } = await db.stock.applyStockAdjustment(adjustmentData, username, mutationId);
+          setProducts(prev => prev.map(p => p.id === product.id ? product : p));
+
+          await handleLogAction('Stock Adjustment', `Product: ${savedAdjustment.productName} (SKU: ${product.sku}), Change: ${savedAdjustment.quantityChange}, Reason: ${savedAdjustment.reason}`);
+          return 'applied';
+      } catch (error) {
+          if (!isNetworkError(error)) throw error;
+          await queueOfflineMutation({
+              id: mutationId,
+              kind: 'stock_adjustment',
+              payload: adjustmentData,
+              description: `Adjust "${adjustmentData.productName}" by ${adjustmentData.quantityChange > 0 ? '+' : ''}${adjustmentData.quantityChange} (${adjustmentData.reason})`,
+              username,
+          });
+          return 'queued';
+      }
+  }, [handleLogAction, queueOfflineMutation]);
 
   const handleSaveStockAdjustment = useCallback(async (adjustmentData: Omit<StockAdjustment, 'id' | 'adjustedBy' | 'date'>) => {
       if (!currentUser) return;
 
-      const productToUpdate = products.find(p => p.id === adjustmentData.productId);
-      if (!productToUpdate) {
-          addToast("The selected product could not be found.", "error");
-          throw new Error("Product not found");
+      try {
+          const result = await recordStockAdjustment(adjustmentData, currentUser.username);
+          handleCloseAdjustmentModal();
+          if (result === 'applied') addToast('Stock adjustment recorded successfully.', 'success');
+      } catch (error) {
+          console.error("Failed to save stock adjustment:", error);
+          addToast(getStockErrorMessage(error, "Failed to save adjustment due to a database error."), "error");
+          throw error;
       }
+  }, [addToast, handleCloseAdjustmentModal, currentUser, recordStockAdjustment]);
 
-      const newQuantity = productToUpdate.quantity + adjustmentData.quantityChange;
-      if (newQuantity < 0) {
-          addToast("Adjustment cannot result in negative stock.", "error");
-          throw new Error("Negative stock");
+  // Kit Assembly Handlers
+  const handleOpenKitAssemblyModal = useCallback((kit: Product) => setKitToAssemble(kit), []);
+  const handleCloseKitAssemblyModal = useCallback(() => setKitToAssemble(undefined), []);
+
+  const handleConfirmKitAssembly = useCallback(async (mode: KitAssemblyMode, warehouseId: string, quantity: number) => {
+      if (!kitToAssemble || !currentUser) return;
+      try {
+          const { product } = mode === 'assemble'
+              ? await db.stock.assembleKit(kitToAssemble.id, warehouseId, quantity, currentUser.username)
+              : await db.stock.disassembleKit(kitToAssemble.id, warehouseId, quantity, currentUser.username);
+          setProducts(prev => prev.map(p => p.id === product.id ? product : p));
+          const warehouseName = warehouses.find(w => w.id === warehouseId)?.name || warehouseId;
+          await handleLogAction(mode === 'assemble' ? 'Assembled Kits' : 'Disassembled Kits', `Kit: ${kitToAssemble.name} (SKU: ${kitToAssemble.sku}), Quantity: ${quantity}, Warehouse: ${warehouseName}`);
+          addToast(`${quantity} "${kitToAssemble.name}" kit${quantity === 1 ? ' was' : 's were'} ${mode === 'assemble' ? 'assembled' : 'taken apart'}.`, 'success');
+          handleCloseKitAssemblyModal();
+      } catch (error) {
+          console.error(`Failed to ${mode} kits:`, error);
+          addToast(getStockErrorMessage(error, `Failed to ${mode} kits due to a database error.`), "error");
+          throw error;
       }
+  }, [kitToAssemble, currentUser, warehouses, addToast, handleCloseKitAssemblyModal, handleLogAction]);
+
+  // Stock Transfer Handlers
+  const handleOpenTransferModal = useCallback((product: Product) => setProductToTransfer(product), []);
+  const handleCloseTransferModal = useCallback(() => setProductToTransfer(undefined), []);
 
-      const newAdjustment: Omit<StockAdjustment, 'id'> = {
-          ...adjustmentData,
-          date: new Date().toISOString(),
-          adjustedBy: currentUser.username,
+  const handleConfirmTransfer = useCallback(async (transfer: StockTransfer) => {
+      if (!productToTransfer || !currentUser) return;
+      try {
+          const { product } = await db.stock.transferStock(transfer, currentUser.username);
+          setProducts(prev => prev.map(p => p.id === product.id ? product : p));
+          const fromName = warehouses.find(w => w.id === transfer.fromWarehouseId)?.name || transfer.fromWarehouseId;
+          const toName = warehouses.find(w => w.id === transfer.toWarehouseId)?.name || transfer.toWarehouseId;
+          const serialDetails = transfer.serialNumbers?.length ? `, Serials: ${transfer.serialNumbers.join(', ')}` : '';
+          await handleLogAction('Transferred Stock', `Product: ${product.name} (SKU: ${product.sku}), Quantity: ${transfer.quantity}, From: ${fromName}, To: ${toName}${serialDetails}`);
+          addToast(`${transfer.quantity} ${getBaseUnit(product)} of "${product.name}" moved to ${toName}.`, 'success');
+          handleCloseTransferModal();
+      } catch (error) {
+          console.error("Failed to transfer stock:", error);
+          addToast(getStockErrorMessage(error, "Failed to transfer the stock due to a database error."), "error");
+          throw error;
+      }
+  }, [productToTransfer, currentUser, warehouses, addToast, handleCloseTransferModal, handleLogAction]);
+
+  // Stocktake Handlers
+  const selectedStocktake = useMemo(() => stocktakes.find(st => st.id === selectedStocktakeId), [stocktakes, selectedStocktakeId]);
+  const selectedStocktakeLines = useMemo(() => stocktakeLines.filter(line => line.stocktakeId === selectedStocktakeId), [stocktakeLines, selectedStocktakeId]);
+
+  const handleOpenStocktakeForm = useCallback(() => setIsStocktakeFormOpen(true), []);
+  const handleCloseStocktakeForm = useCallback(() => setIsStocktakeFormOpen(false), []);
+  const handleOpenStocktake = useCallback((stocktake: Stocktake) => setSelectedStocktakeId(stocktake.id), []);
+  const handleCloseStocktake = useCallback(() => setSelectedStocktakeId(null), []);
+
+  const handleStartStocktake = useCallback(async (stocktakeData: StocktakeScopeInput) => {
+      if (!currentUser) return;
+      try {
+          const { stocktake, lines } = await db.stock.startStocktake(stocktakeData, currentUser.username);
+          const warehouseName = warehouses.find(w => w.id === stocktake.warehouseId)?.name || stocktake.warehouseId;
+          await handleLogAction('Started Stocktake', `Stocktake: ${getStocktakeReference(stocktake)}, Warehouse: ${warehouseName}, Scope: ${describeStocktakeScope(stocktake, binLocations)}, Lines: ${lines.length}`);
+          addToast(`Stocktake ${getStocktakeReference(stocktake)} started with ${lines.length} line${lines.length === 1 ? '' : 's'} to count.`, 'success');
+          handleCloseStocktakeForm();
+          setSelectedStocktakeId(stocktake.id);
+      } catch (error) {
+          console.error("Failed to start stocktake:", error);
+          addToast(getStockErrorMessage(error, "Failed to start the stocktake due to a database error."), "error");
+          throw error;
+      }
+  }, [currentUser, warehouses, binLocations, addToast, handleCloseStocktakeForm, handleLogAction]);
+
+  // Saves the first count while counting and the recount during a recount.
+  const saveStocktakeCount = useCallback(async (stocktake: Stocktake, line: StocktakeLine, quantity: number, username: string) => {
+      const now = new Date().toISOString();
+      await db.stocktakeLines.update(line.id, stocktake.status === 'Recount'
+          ? { recountQuantity: quantity, recountedBy: username, recountedDate: now }
+          : { countedQuantity: quantity, countedBy: username, countedDate: now });
+  }, []);
+
+  const handleSaveStocktakeCount = useCallback(async (line: StocktakeLine, quantity: number) => {
+      if (!currentUser || !selectedStocktake) return;
+      try {
+          await saveStocktakeCount(selectedStocktake, line, quantity, currentUser.username);
+      } catch (error) {
+          console.error("Failed to save count:", error);
+          addToast(`${line.productName}: Failed to save the count. Please try again.`, "error");
+          throw error;
+      }
+  }, [currentUser, selectedStocktake, saveStocktakeCount, addToast]);
+
+  // Adds one to the scanned product's count, reading the saved line so no scan is lost.
+  const handleAddScannedCount = useCallback((product: Product) => {
+      if (!currentUser || !selectedStocktake) return;
+      const stocktake = selectedStocktake;
+      const line = getLinesToCount(stocktake, selectedStocktakeLines).find(l => l.productId === product.id);
+      if (!line || (stocktake.status !== 'Counting' && stocktake.status !== 'Recount')) {
+          const message = !line
+              ? `"${product.name}" is not ${stocktake.status === 'Recount' ? 'being recounted' : 'counted'} on this stocktake.`
+              : 'The counts of this stocktake have been submitted.';
+          if (isBarcodeScannerOpen) setScanFeedback({ type: 'error', message });
+          else addToast(message, 'error');
+          return;
+      }
+      scannedCountQueue.current = scannedCountQueue.current.then(async () => {
+          try {
+              const latest = (await db.stocktakeLines.get(line.id)) || line;
+              const quantity = (getEnteredCount(stocktake, latest) ?? 0) + 1;
+              await saveStocktakeCount(stocktake, latest, quantity, currentUser.username);
+              setScanFeedback({ type: 'success', message: `${product.name}: ${quantity}` });
+          } catch (error) {
+              console.error("Failed to save scanned count:", error);
+              addToast(`${product.name}: Failed to save the count. Please try again.`, "error");
+          }
+      });
+  }, [currentUser, selectedStocktake, selectedStocktakeLines, isBarcodeScannerOpen, saveStocktakeCount, addToast]);
+
+  // Counts outside the tolerance are sent back for a recount; otherwise the stocktake is ready for review.
+  const handleSubmitStocktakeCounts = useCallback(async () => {
+      if (!currentUser || !selectedStocktake) return;
+      const stocktake = selectedStocktake;
+      const linesToCount = getLinesToCount(stocktake, selectedStocktakeLines);
+      if (linesToCount.some(line => getEnteredCount(stocktake, line) === null)) {
+          addToast("Count every line before submitting.", "error");
+          throw new Error('Uncounted lines');
+      }
+      try {
+          const recountLines = stocktake.status === 'Counting'
+              ? linesToCount.filter(line => isOutsideTolerance(line, stocktake.varianceTolerance))
+              : [];
+          await Promise.all(recountLines.map(line => db.stocktakeLines.update(line.id, { needsRecount: true })));
+          const status = recountLines.length > 0 ? 'Recount' : 'Review';
+          await db.stocktakes.update(stocktake.id, { status, submittedBy: currentUser.username, submittedDate: new Date().toISOString() });
+          await handleLogAction(stocktake.status === 'Recount' ? 'Submitted Stocktake Recount' : 'Submitted Stocktake Counts', `Stocktake: ${getStocktakeReference(stocktake)}, Lines: ${linesToCount.length}, Recounts: ${recountLines.length}`);
+          addToast(recountLines.length > 0
+              ? `${recountLines.length} line${recountLines.length === 1 ? ' is' : 's are'} outside the tolerance and must be counted again.`
+              : 'Counts submitted for review.', 'success');
+      } catch (error) {
+          console.error("Failed to submit stocktake counts:", error);
+          addToast("Failed to submit the counts. Please try again.", "error");
+          throw error;
+      }
+  }, [currentUser, selectedStocktake, selectedStocktakeLines, addToast, handleLogAction]);
+
+  const handlePostStocktake = useCallback(async () => {
+      if (!currentUser || !selectedStocktake) return;
+      try {
+          const { stocktake, adjustments } = await db.stock.postStocktake(selectedStocktake.id, currentUser.username);
+          const netChange = adjustments.reduce((sum, adjustment) => sum + adjustment.quantityChange, 0);
+          await handleLogAction('Posted Stocktake', `Stocktake: ${getStocktakeReference(stocktake)}, Adjustments: ${adjustments.length}, Net Change: ${netChange}`);
+          addToast(`Stocktake ${getStocktakeReference(stocktake)} posted with ${adjustments.length} adjustment${adjustments.length === 1 ? '' : 's'}.`, 'success');
+      } catch (error) {
+          console.error("Failed to post stocktake:", error);
+          addToast(getStockErrorMessage(error, "Failed to post the stocktake due to a database error."), "error");
+          throw error;
+      }
+  }, [currentUser, selectedStocktake, addToast, handleLogAction]);
+
+  const handleCancelStocktake = useCallback(async () => {
+      if (!currentUser || !selectedStocktake) return;
+      try {
+          await db.stocktakes.update(selectedStocktake.id, { status: 'Cancelled', closedBy: currentUser.username, closedDate: new Date().toISOString() });
+          await handleLogAction('Cancelled Stocktake', `Stocktake: ${getStocktakeReference(selectedStocktake)}`);
+          addToast(`Stocktake ${getStocktakeReference(selectedStocktake)} was cancelled.`, 'success');
+      } catch (error) {
+          console.error("Failed to cancel stocktake:", error);
+          addToast("Failed to cancel the stocktake. Please try again.", "error");
+          throw error;
+      }
+  }, [currentUser, selectedStocktake, addToast, handleLogAction]);
+
+  const handlePrintCountSheet = useCallback(() => {
+    if (!selectedStocktake) return;
+    try {
+        printCountSheet(selectedStocktake, selectedStocktakeLines, warehouses, binLocations);
+    } catch (error: any) {
+        console.error("Failed to print count sheet:", error);
+        addToast(error?.message || "Failed to print the count sheet.", "error");
+    }
+  }, [selectedStocktake, selectedStocktakeLines, warehouses, binLocations, addToast]);
+
+  // Scanning Handlers
+  const canActOnScans = !!currentUser && currentUser.role !== 'Viewer';
+
+  const handleChangeScanMode = useCallback((mode: ScanMode) => {
+      setScanMode(mode);
+      setScanTally([]);
+      setScanFeedback(null);
+  }, []);
+
+  const handleScanToCollect = useCallback(() => {
+      handleChangeScanMode('collect');
+      setIsBarcodeScannerOpen(true);
+  }, [handleChangeScanMode]);
+
+  const handleChangeScanTallyQuantity = useCallback((productId: string, quantity: number) => {
+      setScanTally(prev => quantity > 0
+          ? prev.map(line => line.productId === productId ? { ...line, quantity } : line)
+          : prev.filter(line => line.productId !== productId));
+  }, []);
+
+  const handleScanToCount = useCallback(() => {
+      handleChangeScanMode('count');
+      setIsBarcodeScannerOpen(true);
+  }, [handleChangeScanMode]);
+
+  const handleReviewScanTally = useCallback(() => {
+      setScanTallyToReview(scanTally);
+      handleCloseBarcodeScanner();
+  }, [scanTally, handleCloseBarcodeScanner]);
+
+  // Scans count towards the request being collected or the open stocktake, tally up in multi-scan, or act on the scanned code right away.
+  const handleBarcodeScanned = useCallback((decodedText: string) => {
+      const match = resolveScanCode(decodedText, products, serialNumbers, purchaseOrders);
+      // Hardware scans made while the camera scanner is closed count on an open stocktake, or otherwise act right away.
+      const isCountingStocktake = currentView === 'stocktakes' && !!selectedStocktake
+          && (selectedStocktake.status === 'Counting' || selectedStocktake.status === 'Recount');
+      const mode = isBarcodeScannerOpen ? scanMode : isCountingStocktake && canActOnScans ? 'count' : 'single';
+
+      if (mode === 'count') {
+          if (match.kind !== 'product') {
+              const message = `No product matches "${decodedText}".`;
+              if (isBarcodeScannerOpen) setScanFeedback({ type: 'error', message });
+              else addToast(message, 'error');
+              return;
+          }
+          handleAddScannedCount(match.product);
+          return;
+      }
+
+      if (mode === 'collect') {
+          if (!requestToAction) return;
+          if (match.kind !== 'product' || match.product.id !== requestToAction.productId) {
+              setScanFeedback({ type: 'error', message: `"${decodedText}" is not an item of this request.` });
+              return;
+          }
+          const issuedSerials = requestToAction.serialNumbers || [];
+          if (issuedSerials.length > 0 && (!match.serialNumber || !issuedSerials.includes(match.serialNumber))) {
+              setScanFeedback({ type: 'error', message: match.serialNumber ? `Unit ${match.serialNumber} was not issued on this request.` : 'Scan the serial number of each unit issued on this request.' });
+              return;
+          }
+          const nextTally = addToScanTally(scanTally, match.product.id, match.serialNumber);
+          if (nextTally === scanTally) {
+              setScanFeedback({ type: 'error', message: `Unit ${match.serialNumber} was already scanned.` });
+              return;
+          }
+          const scanned = getScanTallyTotal(nextTally);
+          setScanTally(nextTally);
+          if (scanned >= requestToAction.quantity) {
+              handleCloseBarcodeScanner();
+              handleConfirmCollected().catch(() => { /* Toast already shown */ });
+          } else {
+              setScanFeedback({ type: 'success', message: `${scanned} of ${requestToAction.quantity} items scanned.` });
+          }
+          return;
+      }
+
+      if (mode === 'multi') {
+          if (match.kind !== 'product') {
+              setScanFeedback({ type: 'error', message: `No product matches "${decodedText}".` });
+              return;
+          }
+          const nextTally = addToScanTally(scanTally, match.product.id, match.serialNumber);
+          if (nextTally === scanTally) {
+              setScanFeedback({ type: 'error', message: `Unit ${match.serialNumber} was already scanned.` });
+              return;
+          }
+          setScanTally(nextTally);
+          setScanFeedback({ type: 'success', message: `+1 ${match.product.name}` });
+          return;
+      }
+
+      handleCloseBarcodeScanner();
+      if (match.kind === 'purchase_order') {
+          if (match.purchaseOrder.status === 'Approved' && canActOnScans) handleOpenReceivedPOModal(match.purchaseOrder);
+          else handleOpenPODetailModal(match.purchaseOrder);
+          return;
+      }
+      if (match.kind === 'product' && currentView === 'adjustments' && canActOnScans) {
+          handleOpenAdjustmentModal(match.product.id);
+          return;
+      }
+      setCurrentView('inventory');
+      setInitialSearchTerm(match.kind === 'product' ? match.product.sku : match.code);
+  }, [products, serialNumbers, purchaseOrders, isBarcodeScannerOpen, scanMode, scanTally, requestToAction, currentView, selectedStocktake, canActOnScans, addToast, handleAddScannedCount, handleCloseBarcodeScanner, handleConfirmCollected, handleOpenReceivedPOModal, handleOpenPODetailModal, handleOpenAdjustmentModal]);
+
+  // The settings page shows hardware scans for testing instead of acting on them.
+  const handleHardwareScan = useCallback((scan: HardwareScan) => {
+      if (currentView === 'settings') setLastHardwareScan(scan);
+      else handleBarcodeScanned(scan.code);
+  }, [currentView, handleBarcodeScanned]);
+
+  useHardwareScanner(hardwareScannerSettings, !!currentUser, handleHardwareScan);
+
+  const handleSaveHardwareScannerSettings = useCallback((settings: HardwareScannerSettings) => {
+      saveHardwareScannerSettings(settings);
+      setHardwareScannerSettings(settings);
+      setLastHardwareScan(null);
+      addToast('Scanner settings saved.', 'success');
+  }, [addToast]);
+
+  const handleCloseScanTallyModal = useCallback(() => setScanTallyToReview(undefined), []);
+
+  const handleSaveScannedAdjustment = useCallback(async (adjustmentData: Omit<StockAdjustment, 'id' | 'adjustedBy' | 'date'>) => {
+      if (!currentUser) return;
+      try {
+          await recordStockAdjustment(adjustmentData, currentUser.username);
+      } catch (error) {
+          console.error("Failed to save scanned adjustment:", error);
+          addToast(`${adjustmentData.productName}: ${getStockErrorMessage(error, "Failed to save adjustment due to a database error.")}`, "error");
+          throw error;
+      }
+  }, [currentUser, recordStockAdjustment, addToast]);
+
+  const handleScannedAdjustmentsDone = useCallback((recorded: number) => {
+      handleCloseScanTallyModal();
+      addToast(`${recorded} stock adjustment${recorded === 1 ? '' : 's'} recorded from scanned items.`, 'success');
+  }, [handleCloseScanTallyModal, addToast]);
+
+  const handlePrintPurchaseOrderQr = useCallback((po: PurchaseOrder) => {
+    try {
+        printPurchaseOrderQr(po);
+    } catch (error: any) {
+        console.error("Failed to print purchase order QR code:", error);
+        addToast(error?.message || "Failed to print the QR code.", "error");
+    }
+  }, [addToast]);
+
+  // Removes expired stock with an "Expired" adjustment against its lot, or against untracked stock.
+  const handleWriteOffExpired = useCallback(async (item: ExpiryItem) => {
+      if (!currentUser) return;
+
+      const adjustmentData: Omit<StockAdjustment, 'id' | 'adjustedBy' | 'date'> = {
+          productId: item.productId,
+          productName: item.productName,
+          warehouseId: item.warehouseId,
+          quantityChange: -item.quantity,
+          reason: 'Expired',
+          notes: `Expired on ${item.expiryDate}`,
+          lotId: item.lotId,
       };
 
+      const mutationId = newMutationId();
       try {
-          const { data: savedAdjustment, error: adjError } = await supabase.from('stock_adjustments').insert(newAdjustment).select().single();
-          if (adjError) throw adjError;
-
-          const { error: prodError } = await supabase
-            .from('products')
-            .update({ quantity: newQuantity, lastUpdated: new Date().toISOString(), lastModifiedBy: currentUser.username })
-            .eq('id', productToUpdate.id);
-
-          if (prodError) throw prodError;
-          
-          await handleLogAction('Stock Adjustment', `Product: ${savedAdjustment.productName} (SKU: ${productToUpdate.sku}), Change: ${savedAdjustment.quantityChange}, Reason: ${savedAdjustment.reason}`);
-          
-          handleCloseAdjustmentModal();
-          addToast('Stock adjustment recorded successfully.', 'success');
+          const { product } = await db.stock.applyStockAdjustment(adjustmentData, currentUser.username, mutationId);
+          setProducts(prev => prev.map(p => p.id === product.id ? product : p));
+
+          const lotDetails = item.lotNumber ? `, Lot: ${item.lotNumber}` : '';
+          await handleLogAction('Wrote Off Expired Stock', `Product: ${item.productName} (SKU: ${item.sku}), Quantity: ${item.quantity}${lotDetails}`);
+          addToast(`Wrote off ${item.quantity} expired units of "${item.productName}".`, 'success');
       } catch (error) {
-          console.error("Failed to save stock adjustment:", error);
-          addToast("Failed to save adjustment due to a database error.", "error");
+          if (isNetworkError(error)) {
+              await queueOfflineMutation({
+                  id: mutationId,
+                  kind: 'stock_adjustment',
+                  payload: adjustmentData,
+                  description: `Write off ${item.quantity} expired units of "${item.productName}"${item.lotNumber ? ` (Lot: ${item.lotNumber})` : ''}`,
+                  username: currentUser.username,
+              });
+              return;
+          }
+          console.error("Failed to write off expired stock:", error);
+          addToast(getStockErrorMessage(error, "Failed to write off expired stock."), "error");
           throw error;
       }
-  }, [addToast, handleCloseAdjustmentModal, handleLogAction, currentUser, products]);
+  }, [addToast, handleLogAction, currentUser, queueOfflineMutation]);
 
 
   // Admin Handlers
@@ -1011,7 +1962,7 @@ const App: React.FC = () => {
       setAdminActionToConfirm({
         action: 'clear',
         title: 'Clear All Data?',
-        message: <>Are you sure you want to permanently delete <strong>all products, vendors, requests, purchase orders and adjustments</strong>? This action cannot be undone.</>,
+        message: <>Are you sure you want to permanently delete <strong>all products, stock, vendors, bin locations, requests, purchase orders, adjustments and stocktakes</strong>? Warehouses, category settings, users and the audit log are kept. The stock movement ledger and price history are kept as history, but the deleted products no longer count towards stock or its value. This action cannot be undone.</>,
         confirmText: 'Yes, Clear Everything'
       });
     }
@@ -1031,11 +1982,9 @@ const App: React.FC = () => {
     handleCloseAdminConfirmModal();
 
     try {
-      const tablesToClear = ['products', 'vendors', 'requests', 'purchase_orders', 'stock_adjustments'];
-      const clearPromises = tablesToClear.map(table => supabase.from(table).delete().neq('id', '0'));
-      const results = await Promise.all(clearPromises);
-      const failed = results.find(res => res.error);
-      if (failed) throw failed.error;
+      // Cleared in one transaction. The stock ledger and price history are append-only and are
+      // kept, as are warehouses, category settings, users and the audit log.
+      await db.recycleBin.clearAllData();
       
       const successMessage = "All application data has been cleared.";
       await handleLogAction(action === 'reset' ? 'Reset All Data' : 'Cleared All Data', successMessage);
@@ -1043,13 +1992,136 @@ const App: React.FC = () => {
       
     } catch (error) {
         console.error(`Admin action (${action}) failed:`, error);
-        addToast("An error occurred while clearing the data.", "error");
+        addToast(getStockErrorMessage(error, "An error occurred while clearing the data."), "error");
         throw error;
     } finally {
         setIsLoading(false);
     }
   }, [adminActionToConfirm, addToast, handleCloseAdminConfirmModal, handleLogAction]);
   
+  const handleVerifyStockLedger = useCallback(async (): Promise<StockLedgerDiscrepancy[]> => {
+    try {
+      const discrepancies = await db.stock.verifyStockLedger();
+      await handleLogAction('Verified Stock Ledger', `${discrepancies.length} discrepancies found`);
+      return discrepancies;
+    } catch (error) {
+      console.error("Failed to verify stock ledger:", error);
+      addToast("Failed to verify the stock ledger.", "error");
+      throw error;
+    }
+  }, [addToast, handleLogAction]);
+
+  const handleRebuildStockFromLedger = useCallback(async () => {
+    try {
+      const fixedCount = await db.stock.rebuildProductQuantities();
+      await handleLogAction('Rebuilt Stock From Ledger', `${fixedCount} product quantities corrected`);
+      addToast(`${fixedCount} product quantities were recalculated from the ledger.`, 'success');
+    } catch (error) {
+      console.error("Failed to rebuild stock from ledger:", error);
+      addToast("Failed to recalculate quantities from the ledger.", "error");
+      throw error;
+    }
+  }, [addToast, handleLogAction]);
+  
+  // Offline Sync Handlers
+  const executeQueuedMutation = useCallback(async (mutation: QueuedMutation) => {
+    switch (mutation.kind) {
+      case 'stock_adjustment': {
+        const { product, adjustment } = await db.stock.applyStockAdjustment(mutation.payload, mutation.username, mutation.id);
+        setProducts(prev => prev.map(p => p.id === product.id ? product : p));
+        await handleLogAction('Stock Adjustment', `Product: ${adjustment.productName} (SKU: ${product.sku}), Change: ${adjustment.quantityChange}, Reason: ${adjustment.reason} (synced from offline queue)`);
+        break;
+      }
+      case 'receive_purchase_order': {
+        const { product, purchaseOrder } = await db.stock.receivePurchaseOrder(
+          mutation.payload.poId, mutation.username, mutation.payload.lot, mutation.payload.serialNumbers, mutation.payload.unitCost, mutation.id
+        );
+        setProducts(prev => prev.map(p => p.id === product.id ? product : p));
+        setPurchaseOrders(prev => prev.map(po => po.id === purchaseOrder.id ? purchaseOrder : po));
+        await handleLogAction('Received Purchase Order', `ID: ${purchaseOrder.id}, Product: ${purchaseOrder.productName}, Qty: ${formatDocumentQuantity(purchaseOrder)}${purchaseOrder.lotNumber ? `, Lot: ${purchaseOrder.lotNumber}` : ''} (synced from offline queue)`);
+        break;
+      }
+      case 'collect_request': {
+        const { product, request } = await db.stock.collectRequest(mutation.payload.requestId, mutation.username, mutation.queuedAt, mutation.id);
+        setProducts(prev => prev.map(p => p.id === product.id ? product : p));
+        setRequests(prev => prev.map(r => r.id === request.id ? request : r));
+        await handleLogAction('Collected Request', `ID: ${request.id}, Product: ${request.productName}${request.lotAllocations?.length ? `, Lots: ${formatLotAllocations(request.lotAllocations)}` : ''} (synced from offline queue)`);
+        break;
+      }
+    }
+  }, [handleLogAction]);
+
+  const handleSyncOutbox = useCallback(async () => {
+    if (isReplayingRef.current) return;
+    isReplayingRef.current = true;
+    try {
+      const { applied, conflicts, remaining } = await replayOutbox(executeQueuedMutation);
+      setOutbox(remaining);
+      if (conflicts.length > 0) {
+        setSyncConflicts(prev => [...prev, ...conflicts]);
+        addToast(`${conflicts.length} queued change${conflicts.length > 1 ? 's' : ''} could not be applied. Review the conflict report.`, 'error');
+      }
+      if (applied > 0) {
+        addToast(`${applied} offline change${applied > 1 ? 's were' : ' was'} synced.`, 'success');
+      }
+    } catch (error) {
+      console.error("Failed to replay offline changes:", error);
+      addToast("Failed to sync offline changes.", "error");
+    } finally {
+      isReplayingRef.current = false;
+    }
+  }, [executeQueuedMutation, addToast]);
+
+  const handleDismissSyncConflict = useCallback(async (conflictId: string) => {
+    setSyncConflicts(await dismissSyncConflict(conflictId));
+  }, []);
+
+  useEffect(() => {
+    if (!currentUser) return;
+    Promise.all([getOutbox(), getSyncConflicts()])
+      .then(([queued, conflicts]) => {
+        setOutbox(queued);
+        setSyncConflicts(conflicts);
+        if (queued.length > 0 && navigator.onLine) handleSyncOutbox();
+      })
+      .catch(error => console.error("Failed to load the offline outbox:", error));
+  }, [currentUser, handleSyncOutbox]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      if (currentUser) handleSyncOutbox();
+    };
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [currentUser, handleSyncOutbox]);
+
+  // Approved requests not collected in time give their reserved stock back.
+  useEffect(() => {
+    if (!currentUser || currentUser.role === 'Viewer') return;
+    const releaseOverdueReservations = async () => {
+      try {
+        const expired = await db.stock.expireReservations(currentUser.username);
+        if (expired.length === 0) return;
+        setRequests(prev => prev.map(r => expired.find(e => e.id === r.id) || r));
+        await Promise.all(expired.map(request =>
+          handleLogAction('Reservation Expired', `ID: ${request.id}, Product: ${request.productName}, Qty: ${formatDocumentQuantity(request)}, Reserved until: ${formatDate(request.reservedUntil!)}`)
+        ));
+        addToast(`${expired.length} uncollected request${expired.length > 1 ? 's have' : ' has'} expired. The reserved stock is available again.`, 'success');
+      } catch (error) {
+        if (!isNetworkError(error)) console.error("Failed to release expired reservations:", error);
+      }
+    };
+    releaseOverdueReservations();
+    const interval = window.setInterval(releaseOverdueReservations, RESERVATION_EXPIRY_CHECK_MS);
+    return () => window.clearInterval(interval);
+  }, [currentUser, handleLogAction, addToast]);
+
   // User Management Handlers
   const handleOpenAddUserModal = useCallback(() => setAddUserModalOpen(true), []);
   const handleCloseAddUserModal = useCallback(() => setAddUserModalOpen(false), []);
@@ -1060,65 +2132,40 @@ const App: React.FC = () => {
         throw new Error("Password missing");
     }
 
-    // 1. Get the current admin session to restore it later
-    const { data: { session: adminSession }, error: sessionError } = await supabase.auth.getSession();
-    if (sessionError || !adminSession) {
-        addToast("Could not verify your session. Please log in again.", "error");
-        throw new Error("Admin session not found.");
+    let userId: string;
+    try {
+        // Creating credentials keeps the admin's own session active.
+        userId = await db.auth.createCredentials(userData.username, userData.password);
+    } catch (error: any) {
+        console.error("Failed to save user:", error);
+        addToast(error.message || "Failed to create user. Please try again.", "error");
+        throw error; // Re-throw to allow the modal to reset its saving state
     }
 
     try {
-        // 2. Sign up the new user. This action will change the active session.
-        const { data: authData, error: signUpError } = await supabase.auth.signUp({
-            email: userData.username, // Using username as email for login
-            password: userData.password,
-        });
-
-        if (signUpError) throw signUpError;
-        if (!authData.user) throw new Error("User not created in Auth.");
-
-        // 3. Immediately restore the admin's session to prevent the admin from being logged out.
-        const { error: restoreError } = await supabase.auth.setSession({
-            access_token: adminSession.access_token,
-            refresh_token: adminSession.refresh_token,
-        });
-
-        if (restoreError) {
-            addToast("Critical session error. Please refresh and log in again.", "error");
-            await supabase.auth.signOut(); // Log out everyone to be safe.
-            throw restoreError;
-        }
-
-        // 4. Now, with the admin session restored, create the user's profile in the database.
+        // Now create the user's profile in the database.
         const newUserProfile: User = {
-            id: authData.user.id,
+            id: userId,
             username: userData.username,
             role: userData.role,
         };
 
-        const { data: profileData, error: profileError } = await supabase
-            .from('users')
-            .insert(newUserProfile)
-            .select()
-            .single();
-
-        if (profileError) {
+        let profileData: User;
+        try {
+            profileData = await db.users.insert(newUserProfile);
+        } catch (profileError: any) {
             // Handle case where auth user was created but profile failed
             addToast(`User auth created, but profile creation failed: ${profileError.message}`, "error");
             throw profileError;
         }
 
-        // 5. Success: UI updates via real-time.
+        // Success: UI updates via real-time.
         await handleLogAction('Created User', `Username: ${profileData.username}, Role: ${profileData.role}`);
         handleCloseAddUserModal();
         addToast(`User "${profileData.username}" was successfully created.`, 'success');
 
-    } catch (error: any) {
+    } catch (error) {
         console.error("Failed to save user:", error);
-        // Display a generic error if a specific one hasn't been shown
-        if (!error.message.includes("session")) {
-            addToast(error.message || "Failed to create user. Please try again.", "error");
-        }
         throw error; // Re-throw to allow the modal to reset its saving state
     }
   }, [addToast, handleCloseAddUserModal, handleLogAction]);
@@ -1154,8 +2201,7 @@ const App: React.FC = () => {
     }
 
     try {
-        const { data: updatedUser, error } = await supabase.from('users').update({ role: newRole }).eq('id', userId).select().single();
-        if (error) throw error;
+        const updatedUser = await db.users.update(userId, { role: newRole });
         await handleLogAction('Updated User Role', `Username: ${updatedUser.username}, New Role: ${newRole}`);
         addToast(`User "${updatedUser.username}" role has been updated to ${newRole}.`, 'success');
     } catch (error) {
@@ -1206,8 +2252,7 @@ const App: React.FC = () => {
       // A secure server-side function (e.g., Supabase Edge Function) is required
       // to call `supabase.auth.admin.deleteUser()` to fully remove the user from the auth system.
       // This implementation is a client-side best-effort.
-      const { error } = await supabase.from('users').delete().eq('id', userToAction.id);
-      if (error) throw error;
+      await db.users.remove([userToAction.id]);
 
       await handleLogAction('Deleted User', `Username: ${userToAction.username}`);
       addToast(`User "${userToAction.username}" has been deleted.`, 'success');
@@ -1232,18 +2277,15 @@ const App: React.FC = () => {
   const handleConfirmResetPassword = useCallback(async () => {
     if (!userToAction) return;
 
-    const { error } = await supabase.auth.resetPasswordForEmail(userToAction.username, {
-        redirectTo: window.location.origin,
-    });
-
-    if (error) {
+    try {
+        await db.auth.sendPasswordReset(userToAction.username);
+    } catch (error: any) {
         addToast(`Failed to send reset email: ${error.message}`, "error");
         throw error;
-    } else {
-        addToast(`Password reset link sent to ${userToAction.username}.`, 'success');
-        await handleLogAction('Reset User Password', `Sent reset link to: ${userToAction.username}`);
-        handleCloseResetPasswordModal();
     }
+    addToast(`Password reset link sent to ${userToAction.username}.`, 'success');
+    await handleLogAction('Reset User Password', `Sent reset link to: ${userToAction.username}`);
+    handleCloseResetPasswordModal();
   }, [userToAction, addToast, handleLogAction, handleCloseResetPasswordModal]);
 
 
@@ -1251,12 +2293,12 @@ const App: React.FC = () => {
   const handleOpenLogoutModal = useCallback(() => setIsLogoutModalOpen(true), []);
   const handleCloseLogoutModal = useCallback(() => setIsLogoutModalOpen(false), []);
   const handleConfirmLogout = useCallback(async () => {
-      const { error } = await supabase.auth.signOut();
-      if (error) {
-        addToast(`Logout failed: ${error.message}`, 'error');
-      } else {
+      try {
+        await db.auth.signOut();
         handleCloseLogoutModal();
         addToast("You have successfully logged out.", "success");
+      } catch (error: any) {
+        addToast(`Logout failed: ${error.message}`, 'error');
       }
   }, [addToast, handleCloseLogoutModal]);
 
@@ -1266,15 +2308,8 @@ const App: React.FC = () => {
 
   const handleUpdateProfile = useCallback(async (userId: string, profilePictureUrl: string) => {
       try {
-          const { data: updatedUser, error } = await supabase
-            .from('users')
-            .update({ profilePictureUrl })
-            .eq('id', userId)
-            .select()
-            .single();
-
-          if (error) throw error;
-          
+          const updatedUser = await db.users.update(userId, { profilePictureUrl });
+
           await handleLogAction('Updated Profile Picture', `User: ${updatedUser.username}`);
           addToast(`Profile picture updated successfully.`, 'success');
       } catch (error) {
@@ -1290,24 +2325,16 @@ const App: React.FC = () => {
         throw new Error("User not authenticated");
     }
 
-    // First, verify the current password by attempting to sign in.
-    // This is a workaround because Supabase client-side SDK doesn't have a direct "verify password" method.
-    const { error: signInError } = await supabase.auth.signInWithPassword({
-        email: currentUser.username, // Assuming username is the email
-        password: currentPassword,
-    });
-
-    if (signInError) {
+    // First, verify the current password before allowing it to be changed.
+    const isCurrentPasswordValid = await db.auth.verifyPassword(currentUser.username, currentPassword);
+    if (!isCurrentPasswordValid) {
         addToast("Your current password is not correct. Please try again.", "error");
         throw new Error("Incorrect current password.");
     }
 
-    // If signIn is successful (no error), proceed to update the password for the current user.
-    const { error: updateError } = await supabase.auth.updateUser({
-        password: newPassword,
-    });
-
-    if (updateError) {
+    try {
+        await db.auth.updatePassword(newPassword);
+    } catch (updateError: any) {
         addToast(`Failed to update password: ${updateError.message}`, "error");
         throw updateError;
     }
@@ -1316,56 +2343,234 @@ const App: React.FC = () => {
     await handleLogAction('Updated Password', `User ${currentUser.username} updated their own password.`);
   }, [currentUser, addToast, handleLogAction]);
 
+  // Stock and documents scoped to the warehouse selected in the header
+  const warehouseProducts = useMemo(() => scopeProductsToWarehouse(products, productStock, selectedWarehouseId), [products, productStock, selectedWarehouseId]);
+  const warehouseRequests = useMemo(() => filterByWarehouse(requests, selectedWarehouseId), [requests, selectedWarehouseId]);
+  const warehousePurchaseOrders = useMemo(() => filterByWarehouse(purchaseOrders, selectedWarehouseId), [purchaseOrders, selectedWarehouseId]);
+  const warehouseStockAdjustments = useMemo(() => filterByWarehouse(stockAdjustments, selectedWarehouseId), [stockAdjustments, selectedWarehouseId]);
+  const warehouseStockMovements = useMemo(() => filterByWarehouse(stockMovements, selectedWarehouseId), [stockMovements, selectedWarehouseId]);
+  const warehouseStocktakes = useMemo(() => filterByWarehouse(stocktakes, selectedWarehouseId), [stocktakes, selectedWarehouseId]);
+  // Categories in use by products plus any that only have stock levels configured.
+  const categories = useMemo(() => [...new Set([...products.map(p => p.category), ...categoryStockLevels.map(c => c.category), ...categoryFieldSchemas.map(s => s.category)])].filter(Boolean).sort((a, b) => a.localeCompare(b)), [products, categoryStockLevels, categoryFieldSchemas]);
+  const warehouseStockLots = useMemo(() => filterByWarehouse(stockLots, selectedWarehouseId), [stockLots, selectedWarehouseId]);
+  // Stock not held for approved requests, and what is held, in the selected warehouse or all of them.
+  const availableStock = useMemo(() => getAvailableStock(productStock, stockReservations), [productStock, stockReservations]);
+  const warehouseReservedQuantities = useMemo(() => getReservedQuantities(stockReservations, selectedWarehouseId), [stockReservations, selectedWarehouseId]);
+  const priceHistory = useMemo(() => groupPriceHistory(productPrices), [productPrices]);
+  const warehouseStockValues = useMemo(() => getStockValues(productStock, selectedWarehouseId), [productStock, selectedWarehouseId]);
+  // Kits the available components could make, in the selected warehouse or summed across all of them.
+  const warehouseAssemblableKits = useMemo(() => new Map(products.filter(p => p.isKit).map(kit => [
+    kit.id,
+    selectedWarehouseId === ALL_WAREHOUSES
+      ? warehouses.reduce((sum, w) => sum + getAssemblableKits(kit, availableStock, w.id), 0)
+      : getAssemblableKits(kit, availableStock, selectedWarehouseId),
+  ])), [products, availableStock, warehouses, selectedWarehouseId]);
+  const warehouseExpiryItems = useMemo(() => filterByWarehouse(getExpiryItems(products, productStock, stockLots), selectedWarehouseId), [products, productStock, stockLots, selectedWarehouseId]);
+  const warehouseBinLocations = useMemo(() => filterByWarehouse(binLocations, selectedWarehouseId), [binLocations, selectedWarehouseId]);
+
+  // The request being approved is covered by available stock only if expired units are counted.
+  const approveExpiredShortfall = useMemo(() => {
+    if (!requestToAction) return false;
+    const product = products.find(p => p.id === requestToAction.productId);
+    const stock = availableStock.find(s => s.productId === requestToAction.productId && s.warehouseId === requestToAction.warehouseId)?.quantity || 0;
+    const unexpired = product ? getUnexpiredQuantity(product, productStock, stockLots, requestToAction.warehouseId)
+      - getReservedQuantity(stockReservations, product.id, requestToAction.warehouseId) : 0;
+    return !!product && !product.isKit && stock >= requestToAction.quantity && unexpired < requestToAction.quantity;
+  }, [requestToAction, products, productStock, availableStock, stockReservations, stockLots]);
+
+  const approveKitPlan = useMemo(() => {
+    const kit = requestToAction && products.find(p => p.id === requestToAction.productId);
+    return kit?.isKit ? planKitIssue(kit, products, availableStock, requestToAction!.warehouseId, requestToAction!.quantity) : undefined;
+  }, [requestToAction, products, availableStock]);
+
+  // New documents default to the selected warehouse, or the default warehouse when viewing all of them
+  const activeWarehouseId = selectedWarehouseId !== ALL_WAREHOUSES ? selectedWarehouseId : getDefaultWarehouse(warehouses)?.id;
+
+  // Exports of warehouse-scoped lists record the selected warehouse alongside the list's own filters
+  const exportContext = useMemo<ExportContext>(() => ({
+    exportedBy: currentUser?.username || '',
+    scope: selectedWarehouseId !== ALL_WAREHOUSES ? [`Warehouse: ${warehouses.find(w => w.id === selectedWarehouseId)?.name || selectedWarehouseId}`] : [],
+  }), [currentUser, selectedWarehouseId, warehouses]);
+
   const mainContent = useMemo(() => {
     if (!currentUser) return null;
     switch (currentView) {
       case 'dashboard':
-        return <Dashboard products={products} purchaseOrders={purchaseOrders} setCurrentView={handleSetCurrentView} />;
+        return <Dashboard products={warehouseProducts} purchaseOrders={warehousePurchaseOrders} categoryStockLevels={categoryStockLevels} expiryItems={warehouseExpiryItems} reservedQuantities={warehouseReservedQuantities} stockValues={warehouseStockValues} setCurrentView={handleSetCurrentView} />;
       case 'inventory':
         return (
           <ProductList
-            products={products}
+            products={warehouseProducts}
             vendors={vendors}
             onEditProduct={handleOpenModal}
+            onViewDetails={handleOpenProductPage}
             onDeleteProduct={handleOpenDeleteModal}
+            onAssembleKit={handleOpenKitAssemblyModal}
+            onTransferStock={warehouses.length > 1 ? handleOpenTransferModal : undefined}
             onAddProduct={() => handleOpenModal()}
             isLoading={isLoading}
             onBulkDelete={handleOpenBulkDeleteModal}
             currentUser={currentUser}
             itemsBeingDeleted={itemsBeingDeleted}
             onOpenBarcodeScanner={handleOpenBarcodeScanner}
+            onPrintLabels={handleOpenProductLabelsModal}
+            onImportProducts={handleOpenProductImportModal}
+            exportContext={exportContext}
             initialSearchTerm={initialSearchTerm}
             recentlyUpdatedProductId={recentlyUpdatedProductId}
+            categoryStockLevels={categoryStockLevels}
+            categoryFieldSchemas={categoryFieldSchemas}
+            stockLots={warehouseStockLots}
+            assemblableKits={warehouseAssemblableKits}
+            reservedQuantities={warehouseReservedQuantities}
+          />
+        );
+      case 'product': {
+        const product = allProducts.find(p => p.id === productPageId);
+        if (!product) {
+          return (
+            <div className="bg-white rounded-xl shadow-lg p-6">
+              <button onClick={() => handleSetCurrentView('inventory')} className="text-sm font-semibold text-primary-600 hover:text-primary-700 mb-2">&larr; All Products</button>
+              <p className="text-gray-600">{isLoading ? 'Loading product...' : 'This product does not exist or has been deleted.'}</p>
+            </div>
+          );
+        }
+        return (
+          <ProductDetailPage
+            product={product}
+            products={products}
+            vendors={allVendors}
+            warehouses={warehouses}
+            categoryStockLevels={categoryStockLevels}
+            categoryFieldSchemas={categoryFieldSchemas}
+            productStock={productStock}
+            stockReservations={stockReservations}
+            requests={requests}
+            purchaseOrders={purchaseOrders}
+            stockAdjustments={stockAdjustments}
+            stockMovements={stockMovements}
+            auditLogs={auditLogs}
+            priceHistory={priceHistory.get(product.id) || []}
+            currentUser={currentUser}
+            onBack={() => handleSetCurrentView('inventory')}
+            onEdit={handleOpenModal}
+            onViewRequest={handleOpenRequestDetailModal}
+            onViewPurchaseOrder={handleOpenPODetailModal}
+          />
+        );
+      }
+      case 'locations':
+        return (
+          <LocationList
+            binLocations={warehouseBinLocations}
+            products={products}
+            productStock={productStock}
+            stockReservations={stockReservations}
+            warehouses={warehouses}
+            currentUser={currentUser}
+            onEditLocation={handleOpenBinLocationModal}
+            onPrintLabels={handlePrintBinLabels}
           />
         );
        case 'requests':
         return (
           <RequestList 
-            requests={requests}
+            requests={warehouseRequests}
             onApprove={handleOpenApproveModal}
             onReject={handleOpenRejectModal}
             onViewDetails={handleOpenRequestDetailModal}
             onMarkAsCollected={handleOpenCollectedModal}
+            onCancel={handleOpenCancelRequestModal}
             userRole={currentUser.role}
+            exportContext={exportContext}
           />
         );
       case 'purchase-orders':
         return (
           <PurchaseOrderList
-            purchaseOrders={purchaseOrders}
-            vendors={vendors}
+            purchaseOrders={warehousePurchaseOrders}
+            vendors={allVendors}
             products={products}
             onApprove={handleOpenApprovePOModal}
             onReject={handleOpenRejectPOModal}
             onViewDetails={handleOpenPODetailModal}
             onMarkAsReceived={handleOpenReceivedPOModal}
             userRole={currentUser.role}
+            exportContext={exportContext}
           />
         );
+        case 'replenishment':
+          if (currentUser.role === 'Viewer') {
+              return <Dashboard products={warehouseProducts} purchaseOrders={warehousePurchaseOrders} categoryStockLevels={categoryStockLevels} expiryItems={warehouseExpiryItems} reservedQuantities={warehouseReservedQuantities} stockValues={warehouseStockValues} setCurrentView={handleSetCurrentView} />;
+          }
+          return (
+              <ReplenishmentList
+                  products={warehouseProducts}
+                  purchaseOrders={warehousePurchaseOrders}
+                  vendors={vendors}
+                  categoryStockLevels={categoryStockLevels}
+                  warehouses={warehouses}
+                  reservedQuantities={warehouseReservedQuantities}
+                  selectedWarehouseId={selectedWarehouseId}
+                  defaultWarehouseId={activeWarehouseId}
+                  currentUser={currentUser}
+                  onCreateOrders={handleCreateReplenishmentOrders}
+              />
+          );
+        case 'expiry':
+          return (
+              <ExpiryList
+                  items={warehouseExpiryItems}
+                  warehouses={warehouses}
+                  currentUser={currentUser}
+                  onWriteOff={handleWriteOffExpired}
+              />
+          );
+        case 'serials':
+          return (
+              <SerialLookup
+                  serialNumbers={serialNumbers}
+                  products={products}
+                  purchaseOrders={purchaseOrders}
+                  requests={requests}
+                  stockMovements={stockMovements}
+                  warehouses={warehouses}
+              />
+          );
         case 'adjustments':
           return (
               <StockAdjustmentList 
-                  adjustments={stockAdjustments}
+                  adjustments={warehouseStockAdjustments}
+                  warehouses={warehouses}
+                  exportContext={exportContext}
+              />
+          );
+        case 'stocktakes':
+          return selectedStocktake ? (
+              <StocktakeSession
+                  stocktake={selectedStocktake}
+                  lines={selectedStocktakeLines}
+                  warehouses={warehouses}
+                  binLocations={binLocations}
+                  productStock={productStock}
+                  currentUser={currentUser}
+                  onBack={handleCloseStocktake}
+                  onSaveCount={handleSaveStocktakeCount}
+                  onSubmitCounts={handleSubmitStocktakeCounts}
+                  onPost={handlePostStocktake}
+                  onCancel={handleCancelStocktake}
+                  onPrintCountSheet={handlePrintCountSheet}
+                  onScanToCount={handleScanToCount}
+              />
+          ) : (
+              <StocktakeList
+                  stocktakes={warehouseStocktakes}
+                  lines={stocktakeLines}
+                  warehouses={warehouses}
+                  binLocations={binLocations}
+                  currentUser={currentUser}
+                  onNewStocktake={handleOpenStocktakeForm}
+                  onOpenStocktake={handleOpenStocktake}
               />
           );
       case 'vendors':
@@ -1383,15 +2588,28 @@ const App: React.FC = () => {
         );
       case 'reports':
         return (
-          <Reports
-            requests={requests}
-            purchaseOrders={purchaseOrders}
-            vendors={vendors}
-          />
+          <div className="space-y-6">
+            <InventoryValuationReport
+              movements={warehouseStockMovements}
+              products={allProducts}
+              warehouses={warehouses}
+              valuationMethod={valuationMethod}
+              exportContext={exportContext}
+            />
+            <Reports
+              movements={warehouseStockMovements}
+              products={products}
+              purchaseOrders={purchaseOrders}
+              vendors={allVendors}
+              warehouses={warehouses}
+              priceHistory={priceHistory}
+              exportContext={exportContext}
+            />
+          </div>
         );
       case 'admin':
         if (!['Supervisor', 'Manager', 'Super Admin'].includes(currentUser.role)) {
-            return <Dashboard products={products} purchaseOrders={purchaseOrders} setCurrentView={handleSetCurrentView} />;
+            return <Dashboard products={warehouseProducts} purchaseOrders={warehousePurchaseOrders} categoryStockLevels={categoryStockLevels} expiryItems={warehouseExpiryItems} reservedQuantities={warehouseReservedQuantities} stockValues={warehouseStockValues} setCurrentView={handleSetCurrentView} />;
         }
         return (
           <AdminPanel 
@@ -1409,17 +2627,46 @@ const App: React.FC = () => {
             onClearData={() => handleOpenAdminConfirmModal('clear')}
             onDeleteUser={handleOpenDeleteUserModal}
             onResetPassword={handleOpenResetPasswordModal}
+            onVerifyStockLedger={handleVerifyStockLedger}
+            onRebuildStockFromLedger={handleRebuildStockFromLedger}
+            warehouses={warehouses}
+            onAddWarehouse={() => handleOpenWarehouseModal()}
+            onEditWarehouse={handleOpenWarehouseModal}
+            categories={categories}
+            categoryStockLevels={categoryStockLevels}
+            onEditCategoryStockLevels={handleOpenCategoryStockLevelsModal}
+            categoryFieldSchemas={categoryFieldSchemas}
+            onEditCategoryFields={handleOpenCategoryFieldsModal}
+            valuationMethod={valuationMethod}
+            onSaveValuationMethod={handleSaveValuationMethod}
           />
         );
       case 'audit-log':
         if (!['Supervisor', 'Manager', 'Super Admin'].includes(currentUser.role)) {
-            return <Dashboard products={products} purchaseOrders={purchaseOrders} setCurrentView={handleSetCurrentView} />;
+            return <Dashboard products={warehouseProducts} purchaseOrders={warehousePurchaseOrders} categoryStockLevels={categoryStockLevels} expiryItems={warehouseExpiryItems} reservedQuantities={warehouseReservedQuantities} stockValues={warehouseStockValues} setCurrentView={handleSetCurrentView} />;
         }
-        return <AuditLogComponent logs={auditLogs} />;
+        return <AuditLogComponent logs={auditLogs} exportContext={{ exportedBy: currentUser.username, scope: [] }} />;
+      case 'recycle-bin':
+        if (!['Supervisor', 'Manager', 'Super Admin'].includes(currentUser.role)) {
+            return <Dashboard products={warehouseProducts} purchaseOrders={warehousePurchaseOrders} categoryStockLevels={categoryStockLevels} expiryItems={warehouseExpiryItems} reservedQuantities={warehouseReservedQuantities} stockValues={warehouseStockValues} setCurrentView={handleSetCurrentView} />;
+        }
+        return (
+          <RecycleBin
+            references={recordReferences}
+            vendors={allVendors}
+            currentUser={currentUser}
+            onRestoreProduct={handleRestoreProduct}
+            onRestoreVendor={handleRestoreVendor}
+            onPurgeProduct={product => handleOpenPurgeModal({ type: 'product', record: product })}
+            onPurgeVendor={vendor => handleOpenPurgeModal({ type: 'vendor', record: vendor })}
+          />
+        );
+      case 'settings':
+        return <SettingsPage hardwareScannerSettings={hardwareScannerSettings} onSaveHardwareScannerSettings={handleSaveHardwareScannerSettings} lastHardwareScan={lastHardwareScan} />;
       default:
-        return <Dashboard products={products} purchaseOrders={purchaseOrders} setCurrentView={handleSetCurrentView} />;
+        return <Dashboard products={warehouseProducts} purchaseOrders={warehousePurchaseOrders} categoryStockLevels={categoryStockLevels} expiryItems={warehouseExpiryItems} reservedQuantities={warehouseReservedQuantities} stockValues={warehouseStockValues} setCurrentView={handleSetCurrentView} />;
     }
-  }, [currentView, products, vendors, requests, purchaseOrders, users, auditLogs, stockAdjustments, handleOpenModal, handleOpenDeleteModal, handleOpenVendorModal, handleOpenDeleteVendorModal, handleOpenVendorDetailModal, handleOpenApproveModal, handleOpenRejectModal, handleSetCurrentView, handleOpenRequestDetailModal, isLoading, handleOpenAdminConfirmModal, handleOpenAddUserModal, handleOpenApprovePOModal, handleOpenRejectPOModal, handleOpenPODetailModal, handleOpenReceivedPOModal, handleOpenBulkDeleteModal, handleOpenBulkDeleteVendorModal, handleOpenRoleChangeModal, handleOpenCollectedModal, currentUser, itemsBeingDeleted, handleOpenBarcodeScanner, initialSearchTerm, recentlyUpdatedProductId, handleOpenDeleteUserModal, handleOpenResetPasswordModal]);
+  }, [currentView, products, productStock, stockReservations, warehouseReservedQuantities, warehouseStockValues, priceHistory, valuationMethod, handleSaveValuationMethod, warehouseStockLots, warehouseAssemblableKits, handleOpenKitAssemblyModal, handleOpenTransferModal, handleOpenProductLabelsModal, handleOpenProductImportModal, categoryStockLevels, selectedWarehouseId, activeWarehouseId, handleCreateReplenishmentOrders, serialNumbers, stockMovements, warehouseExpiryItems, handleWriteOffExpired, categories, handleOpenCategoryStockLevelsModal, categoryFieldSchemas, handleOpenCategoryFieldsModal, vendors, requests, purchaseOrders, users, auditLogs, stockAdjustments, warehouses, warehouseProducts, warehouseBinLocations, handleOpenBinLocationModal, handlePrintBinLabels, warehouseRequests, warehousePurchaseOrders, warehouseStockAdjustments, warehouseStockMovements, handleOpenWarehouseModal, handleOpenModal, handleOpenProductPage, productPageId, handleOpenDeleteModal, handleOpenVendorModal, handleOpenDeleteVendorModal, handleOpenVendorDetailModal, handleOpenApproveModal, handleOpenRejectModal, handleSetCurrentView, handleOpenRequestDetailModal, isLoading, handleOpenAdminConfirmModal, handleOpenAddUserModal, handleOpenApprovePOModal, handleOpenRejectPOModal, handleOpenPODetailModal, handleOpenReceivedPOModal, handleOpenBulkDeleteModal, handleOpenBulkDeleteVendorModal, handleOpenRoleChangeModal, handleOpenCollectedModal, handleOpenCancelRequestModal, currentUser, itemsBeingDeleted, handleOpenBarcodeScanner, initialSearchTerm, recentlyUpdatedProductId, handleOpenDeleteUserModal, handleOpenResetPasswordModal, handleVerifyStockLedger, handleRebuildStockFromLedger, hardwareScannerSettings, handleSaveHardwareScannerSettings, lastHardwareScan, exportContext, binLocations, warehouseStocktakes, stocktakeLines, selectedStocktake, selectedStocktakeLines, handleOpenStocktakeForm, handleOpenStocktake, handleCloseStocktake, handleSaveStocktakeCount, handleSubmitStocktakeCounts, handlePostStocktake, handleCancelStocktake, handlePrintCountSheet, handleScanToCount, allProducts, allVendors, recordReferences, handleRestoreProduct, handleRestoreVendor, handleOpenPurgeModal]);
 
   if (!sessionChecked) {
     return (
@@ -1460,9 +2707,18 @@ const App: React.FC = () => {
           onAddRequest={() => handleOpenRequestModal()}
           onAddPurchaseOrder={() => handleOpenPOModal()}
           onAddAdjustment={() => handleOpenAdjustmentModal()}
+          onOpenScanner={handleOpenBarcodeScanner}
+          onAddLocation={() => handleOpenBinLocationModal()}
           currentUser={currentUser}
           onLogout={handleOpenLogoutModal}
           onOpenProfileModal={handleOpenProfileModal}
+          isOnline={isOnline}
+          pendingSyncCount={outbox.length}
+          syncConflictCount={syncConflicts.length}
+          onOpenSyncStatus={() => setIsSyncStatusOpen(true)}
+          warehouses={warehouses}
+          selectedWarehouseId={selectedWarehouseId}
+          onSelectWarehouse={handleSelectWarehouse}
         />
         <main data-tour-id="main-content-area" className="flex-1 bg-slate-100 p-4 md:p-8">
           {mainContent}
@@ -1483,6 +2739,42 @@ const App: React.FC = () => {
         isOpen={isBarcodeScannerOpen}
         onClose={handleCloseBarcodeScanner}
         onScanSuccess={handleBarcodeScanned}
+        title={scanMode === 'collect' ? 'Scan Items to Collect' : scanMode === 'count' ? 'Scan to Count' : scanMode === 'multi' ? 'Multi-scan' : 'Scan Barcode'}
+        hint={scanMode === 'single' ? 'Scan a product, serial number or purchase order QR code.' : 'Keep scanning; each scan counts one item.'}
+      >
+        <ScanSessionPanel
+          mode={scanMode}
+          onModeChange={scanMode !== 'collect' && scanMode !== 'count' && canActOnScans ? handleChangeScanMode : undefined}
+          tally={scanTally}
+          products={products}
+          feedback={scanFeedback}
+          requestToCollect={scanMode === 'collect' ? requestToAction : undefined}
+          stocktakeToCount={scanMode === 'count' ? selectedStocktake : undefined}
+          onChangeQuantity={handleChangeScanTallyQuantity}
+          onSubmitTally={handleReviewScanTally}
+        />
+      </BarcodeScannerModal>
+      {scanTallyToReview && (
+        <ScanTallyModal
+          isOpen={!!scanTallyToReview}
+          onClose={handleCloseScanTallyModal}
+          onSaveAdjustment={handleSaveScannedAdjustment}
+          onDone={handleScannedAdjustmentsDone}
+          tally={scanTallyToReview}
+          products={products}
+          warehouses={warehouses}
+          productStock={productStock}
+          defaultWarehouseId={activeWarehouseId}
+        />
+      )}
+      <SyncStatusModal
+        isOpen={isSyncStatusOpen}
+        onClose={() => setIsSyncStatusOpen(false)}
+        isOnline={isOnline}
+        outbox={outbox}
+        conflicts={syncConflicts}
+        onSyncNow={handleSyncOutbox}
+        onDismissConflict={handleDismissSyncConflict}
       />
 
       {isModalOpen && (
@@ -1491,8 +2783,14 @@ const App: React.FC = () => {
           onClose={handleCloseModal}
           onSave={handleSaveProduct}
           product={productToEdit}
-          allProducts={products}
+          allProducts={allProducts}
           vendors={vendors}
+          warehouses={warehouses}
+          binLocations={binLocations}
+          productStock={productStock}
+          categoryStockLevels={categoryStockLevels}
+          categoryFieldSchemas={categoryFieldSchemas}
+          defaultWarehouseId={activeWarehouseId}
         />
       )}
       {isDeleteModalOpen && productToDelete && (
@@ -1501,6 +2799,7 @@ const App: React.FC = () => {
             onClose={handleCloseDeleteModal}
             onConfirm={handleConfirmDelete}
             productName={productToDelete.name}
+            check={checkProductArchive(productToDelete, recordReferences)}
         />
       )}
       {isBulkDeleteModalOpen && (
@@ -1509,6 +2808,7 @@ const App: React.FC = () => {
             onClose={handleCloseBulkDeleteModal}
             onConfirm={handleConfirmBulkDelete}
             itemCount={productsToDeleteBulk.length}
+            check={combineChecks<Product>(products.filter(p => productsToDeleteBulk.includes(p.id)), p => checkProductArchive(p, recordReferences, new Set<string>(productsToDeleteBulk)))}
         />
       )}
       {isVendorModalOpen && (
@@ -1520,12 +2820,51 @@ const App: React.FC = () => {
           allVendors={vendors}
         />
       )}
+      {isWarehouseModalOpen && (
+        <WarehouseFormModal
+          isOpen={isWarehouseModalOpen}
+          onClose={handleCloseWarehouseModal}
+          onSave={handleSaveWarehouse}
+          warehouse={warehouseToEdit}
+          allWarehouses={warehouses}
+        />
+      )}
+      {categoryLevelsToEdit !== undefined && (
+        <CategoryStockLevelsModal
+          isOpen={categoryLevelsToEdit !== undefined}
+          onClose={handleCloseCategoryStockLevelsModal}
+          onSave={handleSaveCategoryStockLevels}
+          category={categoryLevelsToEdit}
+          existing={categoryStockLevels.find(c => c.category === categoryLevelsToEdit)}
+        />
+      )}
+      {categoryFieldsToEdit !== undefined && (
+        <CategoryFieldsModal
+          isOpen={categoryFieldsToEdit !== undefined}
+          onClose={handleCloseCategoryFieldsModal}
+          onSave={handleSaveCategoryFields}
+          category={categoryFieldsToEdit}
+          existing={categoryFieldSchemas.find(s => s.category === categoryFieldsToEdit)}
+        />
+      )}
+      {isBinLocationModalOpen && (
+        <BinLocationFormModal
+          isOpen={isBinLocationModalOpen}
+          onClose={handleCloseBinLocationModal}
+          onSave={handleSaveBinLocation}
+          binLocation={binLocationToEdit}
+          allBinLocations={binLocations}
+          warehouses={warehouses}
+          defaultWarehouseId={activeWarehouseId}
+        />
+      )}
       {isDeleteVendorModalOpen && vendorToDelete && (
         <ConfirmDeleteVendorModal
             isOpen={isDeleteVendorModalOpen}
             onClose={handleCloseDeleteVendorModal}
             onConfirm={handleConfirmDeleteVendor}
             vendorName={vendorToDelete.name}
+            check={checkVendorArchive(vendorToDelete, recordReferences)}
         />
       )}
        {isBulkDeleteVendorModalOpen && (
@@ -1534,6 +2873,16 @@ const App: React.FC = () => {
             onClose={handleCloseBulkDeleteVendorModal}
             onConfirm={handleConfirmBulkDeleteVendor}
             itemCount={vendorsToDeleteBulk.length}
+            check={combineChecks<Vendor>(vendors.filter(v => vendorsToDeleteBulk.includes(v.id)), v => checkVendorArchive(v, recordReferences))}
+        />
+      )}
+      {recordToPurge && (
+        <ConfirmPurgeModal
+            isOpen={!!recordToPurge}
+            onClose={handleClosePurgeModal}
+            onConfirm={handleConfirmPurge}
+            itemType={recordToPurge.type}
+            itemName={recordToPurge.record.name}
         />
       )}
       {isVendorDetailModalOpen && (
@@ -1550,6 +2899,9 @@ const App: React.FC = () => {
           onClose={handleCloseRequestModal}
           onSave={handleSaveRequest}
           products={products}
+          warehouses={warehouses}
+          productStock={availableStock}
+          defaultWarehouseId={activeWarehouseId}
         />
       )}
       {isApproveModalOpen && requestToAction && (
@@ -1558,6 +2910,10 @@ const App: React.FC = () => {
             onClose={handleCloseApproveModal}
             onConfirm={handleConfirmApprove}
             request={requestToAction}
+            lotAllocations={allocateLotsFefo(getProductLots(stockLots, requestToAction.productId, requestToAction.warehouseId).filter(l => !isExpired(l.expiryDate)), requestToAction.quantity)}
+            expiredShortfall={approveExpiredShortfall}
+            kitPlan={approveKitPlan}
+            availableSerials={products.find(p => p.id === requestToAction.productId)?.isSerialized ? getAvailableSerials(serialNumbers, requestToAction.productId, requestToAction.warehouseId) : undefined}
           />
       )}
       {isRejectModalOpen && requestToAction && (
@@ -1574,6 +2930,15 @@ const App: React.FC = () => {
             onClose={handleCloseCollectedModal}
             onConfirm={handleConfirmCollected}
             request={requestToAction}
+            onScanItems={handleScanToCollect}
+          />
+      )}
+      {isCancelRequestModalOpen && requestToAction && (
+          <ConfirmCancelRequestModal
+            isOpen={isCancelRequestModalOpen}
+            onClose={handleCloseCancelRequestModal}
+            onConfirm={handleConfirmCancelRequest}
+            request={requestToAction}
           />
       )}
       {isRequestDetailModalOpen && (
@@ -1581,6 +2946,7 @@ const App: React.FC = () => {
             isOpen={isRequestDetailModalOpen}
             onClose={handleCloseRequestDetailModal}
             request={requestToView}
+            warehouses={warehouses}
           />
       )}
       {isPOModalOpen && (
@@ -1590,6 +2956,8 @@ const App: React.FC = () => {
           onSave={handleSavePurchaseOrder}
           products={products}
           vendors={vendors}
+          warehouses={warehouses}
+          defaultWarehouseId={activeWarehouseId}
         />
       )}
       {isApprovePOModalOpen && poToAction && (
@@ -1613,7 +2981,9 @@ const App: React.FC = () => {
             isOpen={isPODetailModalOpen}
             onClose={handleClosePODetailModal}
             purchaseOrder={poToView}
-            vendors={vendors}
+            vendors={allVendors}
+            warehouses={warehouses}
+            onPrintQr={handlePrintPurchaseOrderQr}
           />
       )}
       {isReceivedPOModalOpen && poToReceive && (
@@ -1622,14 +2992,77 @@ const App: React.FC = () => {
               onClose={handleCloseReceivedPOModal}
               onConfirm={handleConfirmReceivePO}
               purchaseOrder={poToReceive}
+              defaultUnitCost={poToReceive.unitCost ?? products.find(p => p.id === poToReceive.productId)?.price}
+              isSerialized={!!products.find(p => p.id === poToReceive.productId)?.isSerialized}
           />
       )}
+      {kitToAssemble && (
+        <KitAssemblyModal
+          isOpen={!!kitToAssemble}
+          onClose={handleCloseKitAssemblyModal}
+          onConfirm={handleConfirmKitAssembly}
+          kit={kitToAssemble}
+          products={products}
+          warehouses={warehouses}
+          productStock={availableStock}
+          defaultWarehouseId={activeWarehouseId}
+        />
+      )}
+      {productToTransfer && (
+        <StockTransferModal
+          isOpen={!!productToTransfer}
+          onClose={handleCloseTransferModal}
+          onConfirm={handleConfirmTransfer}
+          product={productToTransfer}
+          warehouses={warehouses}
+          productStock={availableStock}
+          serialNumbers={serialNumbers}
+          defaultWarehouseId={activeWarehouseId}
+        />
+      )}
+      {productsToLabel && (
+        <ProductLabelsModal
+          isOpen={!!productsToLabel}
+          onClose={handleCloseProductLabelsModal}
+          onOutput={handleOutputProductLabels}
+          products={productsToLabel}
+        />
+      )}
+      {isProductImportModalOpen && (
+        <ProductImportModal
+          isOpen={isProductImportModalOpen}
+          onClose={handleCloseProductImportModal}
+          onImport={handleImportProducts}
+          products={allProducts}
+          vendors={vendors}
+          warehouses={warehouses}
+          binLocations={binLocations}
+          categoryFieldSchemas={categoryFieldSchemas}
+        />
+      )}
+      {isStocktakeFormOpen && (
+        <StocktakeFormModal
+          isOpen={isStocktakeFormOpen}
+          onClose={handleCloseStocktakeForm}
+          onStart={handleStartStocktake}
+          products={products}
+          productStock={productStock}
+          warehouses={warehouses}
+          binLocations={binLocations}
+          categories={categories}
+          defaultWarehouseId={activeWarehouseId}
+        />
+      )}
       {isAdjustmentModalOpen && (
         <StockAdjustmentFormModal
           isOpen={isAdjustmentModalOpen}
           onClose={handleCloseAdjustmentModal}
           onSave={handleSaveStockAdjustment}
           products={products}
+          warehouses={warehouses}
+          productStock={productStock}
+          defaultWarehouseId={activeWarehouseId}
+          initialProductId={adjustmentProductId}
         />
       )}
       {isConfirmAdminModalOpen && adminActionToConfirm && (
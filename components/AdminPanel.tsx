@@ -1,7 +1,11 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { formatNumber } from '../utils/helpers';
-import { CubeIcon, VendorIcon, RequestIcon, WarningIcon, PlusIcon, UserCircleIcon, SortIcon, SortUpIcon, SortDownIcon, ScaleIcon, DeleteIcon, KeyIcon } from './icons/Icons';
-import { User, UserRole } from '../types';
+import { CubeIcon, VendorIcon, RequestIcon, WarningIcon, PlusIcon, UserCircleIcon, SortIcon, SortUpIcon, SortDownIcon, ScaleIcon, DeleteIcon, KeyIcon, CheckCircleIcon, LoadingIcon, EditIcon } from './icons/Icons';
+import { User, UserRole, StockLedgerDiscrepancy, Warehouse, CategoryStockLevels, CategoryFieldSchema, ValuationMethod } from '../types';
+import { getWarehouseName } from '../utils/warehouses';
+import { getCategoryDefaults } from '../utils/stockLevels';
+import { CUSTOM_FIELD_TYPES, getCategoryFields } from '../utils/customFields';
+import { VALUATION_METHODS, VALUATION_METHOD_DESCRIPTIONS, canManageValuation } from '../utils/valuation';
 
 interface AdminPanelProps {
   stats: {
@@ -18,6 +22,18 @@ interface AdminPanelProps {
   onClearData: () => void;
   onDeleteUser: (user: User) => void;
   onResetPassword: (user: User) => void;
+  onVerifyStockLedger: () => Promise<StockLedgerDiscrepancy[]>;
+  onRebuildStockFromLedger: () => Promise<void>;
+  warehouses: Warehouse[];
+  onAddWarehouse: () => void;
+  onEditWarehouse: (warehouse: Warehouse) => void;
+  categories: string[];
+  categoryStockLevels: CategoryStockLevels[];
+  onEditCategoryStockLevels: (category: string) => void;
+  categoryFieldSchemas: CategoryFieldSchema[];
+  onEditCategoryFields: (category: string) => void;
+  valuationMethod: ValuationMethod;
+  onSaveValuationMethod: (method: ValuationMethod) => Promise<void>;
 }
 
 const StatCard: React.FC<{ icon: React.ReactNode; title: string; value: string; }> = ({ icon, title, value }) => (
@@ -33,8 +49,49 @@ const StatCard: React.FC<{ icon: React.ReactNode; title: string; value: string;
 type SortableUserKey = 'username' | 'role';
 type SortDirection = 'asc' | 'desc';
 
-const AdminPanel: React.FC<AdminPanelProps> = ({ stats, users, currentUser, onAddUser, onUpdateUserRole, onResetData, onClearData, onDeleteUser, onResetPassword }) => {
+const AdminPanel: React.FC<AdminPanelProps> = ({ stats, users, currentUser, onAddUser, onUpdateUserRole, onResetData, onClearData, onDeleteUser, onResetPassword, onVerifyStockLedger, onRebuildStockFromLedger, warehouses, onAddWarehouse, onEditWarehouse, categories, categoryStockLevels, onEditCategoryStockLevels, categoryFieldSchemas, onEditCategoryFields, valuationMethod, onSaveValuationMethod }) => {
   const [sortConfig, setSortConfig] = useState<{ key: SortableUserKey; direction: SortDirection }>({ key: 'username', direction: 'asc' });
+  const [ledgerDiscrepancies, setLedgerDiscrepancies] = useState<StockLedgerDiscrepancy[] | null>(null);
+  const [isLedgerBusy, setIsLedgerBusy] = useState(false);
+  const [selectedValuationMethod, setSelectedValuationMethod] = useState<ValuationMethod>(valuationMethod);
+  const [isSavingValuation, setIsSavingValuation] = useState(false);
+
+  // Follows changes saved by another manager.
+  useEffect(() => setSelectedValuationMethod(valuationMethod), [valuationMethod]);
+
+  const handleSaveValuation = async () => {
+    setIsSavingValuation(true);
+    try {
+      await onSaveValuationMethod(selectedValuationMethod);
+    } catch (error) {
+      // Parent handles toast
+    } finally {
+      setIsSavingValuation(false);
+    }
+  };
+
+  const handleVerifyLedger = async () => {
+    setIsLedgerBusy(true);
+    try {
+      setLedgerDiscrepancies(await onVerifyStockLedger());
+    } catch (error) {
+      // Parent handles toast
+    } finally {
+      setIsLedgerBusy(false);
+    }
+  };
+
+  const handleRebuildLedger = async () => {
+    setIsLedgerBusy(true);
+    try {
+      await onRebuildStockFromLedger();
+      setLedgerDiscrepancies(await onVerifyStockLedger());
+    } catch (error) {
+      // Parent handles toast
+    } finally {
+      setIsLedgerBusy(false);
+    }
+  };
 
   const sortedUsers = useMemo(() => {
     let sortableItems = [...users];
@@ -178,7 +235,230 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ stats, users, currentUser, onAd
         </div>
       </div>
       
+      <div className="bg-white p-6 rounded-xl shadow-lg">
+        <div className="mb-4">
+          <h2 className="text-xl font-bold text-gray-800">Category Stock Levels</h2>
+          <p className="text-sm text-gray-500">Defaults for products that do not set their own reorder point, reorder quantity, minimum or maximum.</p>
+        </div>
+        <div className="border rounded-lg overflow-x-auto">
+          <table className="w-full text-sm text-left text-gray-600">
+            <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+              <tr>
+                <th scope="col" className="px-6 py-3">Category</th>
+                <th scope="col" className="px-6 py-3 text-right">Reorder Point</th>
+                <th scope="col" className="px-6 py-3 text-right">Reorder Qty</th>
+                <th scope="col" className="px-6 py-3 text-right">Minimum</th>
+                <th scope="col" className="px-6 py-3 text-right">Maximum</th>
+                <th scope="col" className="px-6 py-3 text-center">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {categories.map(category => {
+                const isConfigured = categoryStockLevels.some(c => c.category === category);
+                const levels = getCategoryDefaults(category, categoryStockLevels);
+                return (
+                  <tr key={category} className="bg-white border-b hover:bg-gray-50">
+                    <td className="px-6 py-4 font-medium text-gray-900">
+                      {category}
+                      {!isConfigured && <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-gray-100 text-gray-600">App default</span>}
+                    </td>
+                    <td className="px-6 py-4 text-right">{formatNumber(levels.reorderPoint)}</td>
+                    <td className="px-6 py-4 text-right">{formatNumber(levels.reorderQuantity)}</td>
+                    <td className="px-6 py-4 text-right">{formatNumber(levels.minStock)}</td>
+                    <td className="px-6 py-4 text-right">{levels.maxStock !== undefined ? formatNumber(levels.maxStock) : '-'}</td>
+                    <td className="px-6 py-4 text-center">
+                      <button onClick={() => onEditCategoryStockLevels(category)} className="p-2 text-gray-500 hover:text-primary-600 hover:bg-gray-100 rounded-full" title="Edit Stock Levels">
+                        <EditIcon className="w-5 h-5" />
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+              {categories.length === 0 && (
+                <tr><td colSpan={6} className="px-6 py-8 text-center text-gray-500">No product categories yet.</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="bg-white p-6 rounded-xl shadow-lg">
+        <div className="mb-4">
+          <h2 className="text-xl font-bold text-gray-800">Category Custom Fields</h2>
+          <p className="text-sm text-gray-500">Extra fields the products of a category carry, such as brand and warranty for equipment or pack size for consumables.</p>
+        </div>
+        <div className="border rounded-lg overflow-x-auto">
+          <table className="w-full text-sm text-left text-gray-600">
+            <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+              <tr>
+                <th scope="col" className="px-6 py-3">Category</th>
+                <th scope="col" className="px-6 py-3">Fields</th>
+                <th scope="col" className="px-6 py-3 text-center">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {categories.map(category => {
+                const fields = getCategoryFields(categoryFieldSchemas, category);
+                return (
+                  <tr key={category} className="bg-white border-b hover:bg-gray-50">
+                    <td className="px-6 py-4 font-medium text-gray-900">{category}</td>
+                    <td className="px-6 py-4">
+                      {fields.length === 0 ? <span className="text-gray-400">None</span> : (
+                        <div className="flex flex-wrap gap-1.5">
+                          {fields.map(field => (
+                            <span key={field.key} className="px-2 py-0.5 text-xs font-medium rounded-full bg-gray-100 text-gray-700">
+                              {field.label}{field.required && ' *'} <span className="text-gray-400">· {CUSTOM_FIELD_TYPES.find(t => t.type === field.type)?.label}</span>
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-center">
+                      <button onClick={() => onEditCategoryFields(category)} className="p-2 text-gray-500 hover:text-primary-600 hover:bg-gray-100 rounded-full" title="Edit Custom Fields">
+                        <EditIcon className="w-5 h-5" />
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+              {categories.length === 0 && (
+                <tr><td colSpan={3} className="px-6 py-8 text-center text-gray-500">No product categories yet.</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {['Manager', 'Super Admin'].includes(currentUser.role) && (
+        <div className="bg-white p-6 rounded-xl shadow-lg">
+          <div className="flex flex-col md:flex-row md:items-center justify-between mb-4">
+            <h2 className="text-xl font-bold text-gray-800">Warehouses</h2>
+            <button
+                onClick={onAddWarehouse}
+                className="mt-3 md:mt-0 flex items-center justify-center bg-primary-500 text-white font-semibold px-4 py-2 rounded-lg shadow-md hover:bg-primary-600 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-opacity-75 transition-all duration-200"
+            >
+                <PlusIcon className="w-5 h-5 mr-2" />
+                <span>Add Warehouse</span>
+            </button>
+          </div>
+          <div className="border rounded-lg overflow-hidden">
+            <table className="w-full text-sm text-left text-gray-600">
+              <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-6 py-3">Code</th>
+                  <th scope="col" className="px-6 py-3">Name</th>
+                  <th scope="col" className="px-6 py-3">Address</th>
+                  <th scope="col" className="px-6 py-3 text-center">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {warehouses.map(w => (
+                  <tr key={w.id} className="bg-white border-b hover:bg-gray-50">
+                    <td className="px-6 py-4 font-mono text-gray-900">{w.code}</td>
+                    <td className="px-6 py-4 font-medium text-gray-900">
+                      {w.name}
+                      {w.isDefault && <span className="ml-2 px-2 py-0.5 text-xs font-semibold rounded-full bg-primary-100 text-primary-800">Default</span>}
+                    </td>
+                    <td className="px-6 py-4">{w.address || '-'}</td>
+                    <td className="px-6 py-4 text-center">
+                      <button onClick={() => onEditWarehouse(w)} className="p-2 text-gray-500 hover:text-primary-600 hover:bg-gray-100 rounded-full" title="Edit Warehouse">
+                        <EditIcon className="w-5 h-5" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {canManageValuation(currentUser) && (
+        <div className="bg-white p-6 rounded-xl shadow-lg">
+          <h2 className="text-xl font-bold text-gray-800">Inventory Valuation</h2>
+          <p className="text-sm text-gray-500 mt-1 mb-4">Stock is valued at the unit cost entered when each purchase order is received. The method decides the cost of the stock issued. Changing it applies to issues from now on; earlier movements keep their value.</p>
+          <div className="flex flex-col md:flex-row md:items-end gap-3">
+            <div className="flex-grow">
+              <label htmlFor="valuationMethod" className="block text-sm font-medium text-gray-700 mb-1">Valuation Method</label>
+              <select
+                id="valuationMethod"
+                value={selectedValuationMethod}
+                onChange={e => setSelectedValuationMethod(e.target.value as ValuationMethod)}
+                className="w-full border rounded-lg p-2 bg-slate-50 border-slate-300 focus:ring-primary-500 focus:border-primary-500"
+              >
+                {VALUATION_METHODS.map(method => <option key={method} value={method}>{method}</option>)}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">{VALUATION_METHOD_DESCRIPTIONS[selectedValuationMethod]}</p>
+            </div>
+            <button
+              onClick={handleSaveValuation}
+              disabled={isSavingValuation || selectedValuationMethod === valuationMethod}
+              className="flex items-center justify-center w-28 px-4 py-2 bg-primary-600 text-white text-sm font-semibold rounded-lg hover:bg-primary-700 disabled:opacity-50 md:mb-5"
+            >
+              {isSavingValuation ? <LoadingIcon className="w-5 h-5 animate-spin" /> : 'Save'}
+            </button>
+          </div>
+        </div>
+      )}
+
       {['Manager', 'Super Admin'].includes(currentUser.role) && (
+        <div className="bg-white p-6 rounded-xl shadow-lg">
+          <div className="flex flex-col md:flex-row md:items-center justify-between mb-4 gap-3">
+            <div>
+              <h2 className="text-xl font-bold text-gray-800">Stock Ledger</h2>
+              <p className="text-sm text-gray-500 mt-1">Product quantities are cached from the stock movement ledger. Verify that every cached quantity matches its ledger balance.</p>
+            </div>
+            <div className="flex gap-3 flex-shrink-0">
+              <button
+                onClick={handleVerifyLedger}
+                disabled={isLedgerBusy}
+                className="flex items-center justify-center w-28 px-4 py-2 border border-gray-300 rounded-lg text-sm font-semibold text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+              >
+                {isLedgerBusy ? <LoadingIcon className="w-5 h-5 animate-spin" /> : 'Verify'}
+              </button>
+              {ledgerDiscrepancies && ledgerDiscrepancies.length > 0 && (
+                <button
+                  onClick={handleRebuildLedger}
+                  disabled={isLedgerBusy}
+                  className="px-4 py-2 bg-amber-500 text-white text-sm font-semibold rounded-lg hover:bg-amber-600 disabled:opacity-50"
+                >
+                  Recalculate from Ledger
+                </button>
+              )}
+            </div>
+          </div>
+          {ledgerDiscrepancies && (
+            ledgerDiscrepancies.length === 0 ? (
+              <p className="flex items-center gap-2 text-sm text-green-700"><CheckCircleIcon className="w-5 h-5" />All product quantities match the ledger.</p>
+            ) : (
+              <div className="border rounded-lg overflow-hidden">
+                <table className="w-full text-sm text-left text-gray-600">
+                  <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+                    <tr>
+                      <th scope="col" className="px-6 py-3">Product</th>
+                      <th scope="col" className="px-6 py-3">Warehouse</th>
+                      <th scope="col" className="px-6 py-3 text-right">Cached Quantity</th>
+                      <th scope="col" className="px-6 py-3 text-right">Ledger Balance</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {ledgerDiscrepancies.map(d => (
+                      <tr key={`${d.productId}-${d.warehouseId || 'total'}`} className="bg-white border-b">
+                        <td className="px-6 py-4 font-medium text-gray-900">{d.productName}</td>
+                        <td className="px-6 py-4">{d.warehouseId ? getWarehouseName(warehouses, d.warehouseId) : 'All (total)'}</td>
+                        <td className="px-6 py-4 text-right text-red-600 font-semibold">{formatNumber(d.cachedQuantity)}</td>
+                        <td className="px-6 py-4 text-right">{formatNumber(d.ledgerQuantity)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )
+          )}
+        </div>
+      )}
+
+      {currentUser.role === 'Super Admin' && (
         <div className="bg-white p-6 rounded-xl shadow-lg border border-amber-300">
           <h2 className="text-xl font-bold text-gray-800 mb-2">Data Management</h2>
           <p className="text-sm text-gray-500 mb-6">Perform administrative actions on the application's data. These actions are irreversible.</p>
@@ -200,7 +480,7 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ stats, users, currentUser, onAd
             <div className="flex flex-col md:flex-row items-start md:items-center justify-between p-4 border border-red-200 bg-red-50 rounded-lg">
               <div>
                 <h3 className="font-semibold text-red-800 flex items-center gap-2"><WarningIcon className="w-5 h-5"/>Clear All Application Data</h3>
-                <p className="text-sm text-red-700 mt-1 max-w-lg">Permanently delete all products, vendors, and requests from the database. This action is irreversible and will result in an empty application state.</p>
+                <p className="text-sm text-red-700 mt-1 max-w-lg">Permanently delete all products and their stock, vendors, bin locations, requests, purchase orders, adjustments and stocktakes. Warehouses, category settings, users and the audit log are kept. The stock movement ledger and price history are kept as history, but the deleted products no longer count towards stock or its value. This action is irreversible.</p>
               </div>
               <button
                 onClick={onClearData}
@@ -1,15 +1,20 @@
 import React, { useState, useMemo, useEffect } from 'react';
 import { AuditLog } from '../types';
 import { formatDate } from '../utils/helpers';
+import { exportRows, describeSort, ExportContext, ExportFormat } from '../utils/exports';
+import ExportMenu from './ExportMenu';
 import { SearchIcon, XMarkIcon, ClipboardDocumentListIcon, SortIcon, SortUpIcon, SortDownIcon } from './icons/Icons';
 
 interface AuditLogProps {
   logs: AuditLog[];
+  exportContext: ExportContext;
 }
 
 type SortKey = 'timestamp' | 'user' | 'action';
 type SortDirection = 'asc' | 'desc';
 
+const SORT_LABELS: Record<SortKey, string> = { timestamp: 'Timestamp', user: 'User', action: 'Action' };
+
 const AUDIT_TABLE_STATE_KEY = 'stockerz_audit_table_state_v1';
 
 interface AuditLogTableState {
@@ -48,7 +53,7 @@ const getInitialState = (): AuditLogTableState => {
   };
 };
 
-const AuditLogComponent: React.FC<AuditLogProps> = ({ logs }) => {
+const AuditLogComponent: React.FC<AuditLogProps> = ({ logs, exportContext }) => {
   const [tableState, setTableState] = useState<AuditLogTableState>(getInitialState);
   const { startDate, endDate, userFilter, actionFilter, sortConfig, currentPage } = tableState;
   const itemsPerPage = 15;
@@ -154,6 +159,30 @@ const AuditLogComponent: React.FC<AuditLogProps> = ({ logs }) => {
     });
   };
 
+  const handleExport = (format: ExportFormat) => {
+    exportRows<AuditLog>(format, {
+      title: 'Audit Log',
+      fileName: 'audit_log',
+      columns: [
+        { header: 'Date', value: log => formatDate(log.timestamp) },
+        { header: 'Time', value: log => new Date(log.timestamp).toLocaleTimeString('id-ID') },
+        { header: 'User', value: log => log.user },
+        { header: 'Action', value: log => log.action },
+        { header: 'Details', value: log => log.details },
+      ],
+      rows: sortedLogs,
+      filters: [
+        ...exportContext.scope,
+        ...(actionFilter ? [`Action: "${actionFilter}"`] : []),
+        ...(userFilter ? [`User: ${userFilter}`] : []),
+        ...(startDate ? [`From: ${startDate}`] : []),
+        ...(endDate ? [`To: ${endDate}`] : []),
+        ...describeSort(SORT_LABELS[sortConfig.key], sortConfig.direction),
+      ],
+      exportedBy: exportContext.exportedBy,
+    });
+  };
+
   const handleFilterChange = (field: keyof AuditLogTableState, value: string) => {
     setTableState(s => ({ ...s, [field]: value, currentPage: 1 }));
   };
@@ -182,13 +211,14 @@ const AuditLogComponent: React.FC<AuditLogProps> = ({ logs }) => {
             <input type="text" id="logEndDate" value={endDate} onChange={e => handleFilterChange('endDate', e.target.value)} className="w-full py-2 px-3 border rounded-lg bg-gray-700 text-white border-gray-600 focus:ring-primary-500 focus:border-primary-500" placeholder="dd/mm/yyyy" />
           </div>
           {isFiltered && (
-            <div className="lg:col-start-4">
+            <div className="lg:col-start-3">
                 <button onClick={handleReset} className="w-full flex items-center justify-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-sm text-gray-600 hover:bg-gray-100 transition-colors">
                 <XMarkIcon className="h-4 w-4" />
                 <span>Reset Filters</span>
                 </button>
             </div>
           )}
+          <ExportMenu onExport={handleExport} rowCount={sortedLogs.length} className="lg:col-start-4" />
         </div>
       </div>
       <div className="overflow-x-auto">
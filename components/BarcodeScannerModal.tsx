@@ -11,10 +11,23 @@ interface BarcodeScannerModalProps {
   isOpen: boolean;
   onClose: () => void;
   onScanSuccess: (decodedText: string, decodedResult: any) => void;
+  title?: string;
+  hint?: string;
+  children?: React.ReactNode; // Shown below the camera, e.g. the items scanned so far
 }
 
-const BarcodeScannerModal: React.FC<BarcodeScannerModalProps> = ({ isOpen, onClose, onScanSuccess }) => {
+// The camera reports a code on every frame it stays in view; repeats within this window count as one scan.
+const REPEAT_SCAN_INTERVAL_MS = 1500;
+
+const BarcodeScannerModal: React.FC<BarcodeScannerModalProps> = ({ isOpen, onClose, onScanSuccess, title = 'Scan Barcode', hint = 'Point your camera at a product barcode or QR code.', children }) => {
   const scannerRef = useRef<any>(null);
+  const onScanSuccessRef = useRef(onScanSuccess);
+  const lastScanRef = useRef<{ code: string; at: number } | null>(null);
+
+  // Read through a ref so a new handler does not restart the camera.
+  useEffect(() => {
+    onScanSuccessRef.current = onScanSuccess;
+  }, [onScanSuccess]);
 
   useEffect(() => {
     if (isOpen) {
@@ -31,7 +44,14 @@ const BarcodeScannerModal: React.FC<BarcodeScannerModalProps> = ({ isOpen, onClo
         scannerRef.current = html5QrcodeScanner;
       }
       
-      scannerRef.current.render(onScanSuccess, (error: string) => {
+      lastScanRef.current = null;
+      scannerRef.current.render((decodedText: string, decodedResult: any) => {
+        const now = Date.now();
+        const last = lastScanRef.current;
+        if (last && last.code === decodedText && now - last.at < REPEAT_SCAN_INTERVAL_MS) return;
+        lastScanRef.current = { code: decodedText, at: now };
+        onScanSuccessRef.current(decodedText, decodedResult);
+      }, (error: string) => {
         // console.warn(`Code scan error = ${error}`);
       });
     }
@@ -43,7 +63,7 @@ const BarcodeScannerModal: React.FC<BarcodeScannerModalProps> = ({ isOpen, onClo
          });
       }
     };
-  }, [isOpen, onScanSuccess]);
+  }, [isOpen]);
 
   if (!isOpen) return null;
 
@@ -54,9 +74,10 @@ const BarcodeScannerModal: React.FC<BarcodeScannerModalProps> = ({ isOpen, onClo
       role="dialog"
       aria-modal="true"
     >
-      <div className="w-full max-w-lg bg-white rounded-xl shadow-2xl p-4 relative">
-        <h2 className="text-lg font-bold text-slate-800 text-center mb-2">Scan Barcode</h2>
+      <div onClick={(e) => e.stopPropagation()} className="w-full max-w-lg max-h-full overflow-y-auto bg-white rounded-xl shadow-2xl p-4 relative">
+        <h2 className="text-lg font-bold text-slate-800 text-center mb-2">{title}</h2>
         <div id="reader" className="w-full"></div>
+        {children}
          <button
             onClick={onClose}
             className="absolute top-3 right-3 p-2 bg-white/50 rounded-full text-slate-700 hover:bg-white transition-colors"
@@ -65,7 +86,7 @@ const BarcodeScannerModal: React.FC<BarcodeScannerModalProps> = ({ isOpen, onClo
             <XMarkIcon className="w-6 h-6" />
         </button>
       </div>
-      <p className="mt-4 text-white/80 text-center">Point your camera at a product barcode or QR code.</p>
+      <p className="mt-4 text-white/80 text-center">{hint}</p>
     </div>
   );
 };
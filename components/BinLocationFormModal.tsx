@@ -0,0 +1,183 @@
+import React, { useState, useEffect } from 'react';
+import { BinLocation, BinLocationFormErrors, Warehouse } from '../types';
+import { formatBinCode } from '../utils/locations';
+import { LoadingIcon } from './icons/Icons';
+
+interface BinLocationFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (binData: Omit<BinLocation, 'id' | 'lastUpdated' | 'lastModifiedBy'> & { id?: string; }) => Promise<void>;
+  binLocation?: BinLocation;
+  allBinLocations: BinLocation[];
+  warehouses: Warehouse[];
+  defaultWarehouseId?: string;
+}
+
+const initialFormState = {
+  warehouseId: '',
+  zone: '',
+  aisle: '',
+  rack: '',
+  shelf: '',
+  capacity: '',
+};
+
+const BinLocationFormModal: React.FC<BinLocationFormModalProps> = ({ isOpen, onClose, onSave, binLocation, allBinLocations, warehouses, defaultWarehouseId }) => {
+  const [formData, setFormData] = useState(initialFormState);
+  const [errors, setErrors] = useState<BinLocationFormErrors>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (binLocation) {
+      setFormData({
+        warehouseId: binLocation.warehouseId,
+        zone: binLocation.zone,
+        aisle: binLocation.aisle || '',
+        rack: binLocation.rack || '',
+        shelf: binLocation.shelf || '',
+        capacity: binLocation.capacity ? String(binLocation.capacity) : '',
+      });
+    } else {
+      setFormData({ ...initialFormState, warehouseId: defaultWarehouseId || '' });
+    }
+    setErrors({});
+  }, [binLocation, isOpen, defaultWarehouseId]);
+
+  const code = formatBinCode(formData);
+
+  const validateField = (name: keyof typeof initialFormState, value: string, currentFormData: typeof initialFormState): string | undefined => {
+    switch(name) {
+        case 'warehouseId':
+            if (!value) return "Warehouse must be selected.";
+            break;
+        case 'zone': {
+            if (!value.trim()) return "Zone cannot be empty.";
+            const currentCode = formatBinCode(currentFormData);
+            if (allBinLocations.some(b => b.warehouseId === currentFormData.warehouseId && b.code === currentCode && b.id !== binLocation?.id)) {
+                return `Location ${currentCode} already exists in this warehouse.`;
+            }
+            break;
+        }
+        case 'aisle':
+        case 'rack':
+        case 'shelf':
+            if (value.includes('-')) return "Use letters and numbers only; '-' separates the levels of the code.";
+            break;
+        case 'capacity':
+            if (value && (!Number.isInteger(Number(value)) || Number(value) <= 0)) return "Capacity must be a positive whole number.";
+            break;
+        default:
+            return undefined;
+    }
+    return undefined;
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    const fieldName = name as keyof typeof initialFormState;
+    const processedValue = fieldName === 'capacity' ? value.replace(/\D/g, '') : (fieldName === 'warehouseId' ? value : value.toUpperCase());
+    const newFormData = { ...formData, [fieldName]: processedValue };
+    setFormData(newFormData);
+    // Any change to the code or warehouse can create or resolve a duplicate, which is reported on the zone.
+    setErrors(prev => ({
+      ...prev,
+      [fieldName]: validateField(fieldName, processedValue, newFormData),
+      zone: validateField('zone', newFormData.zone, newFormData),
+    }));
+  };
+
+  const validateAll = (): boolean => {
+    const newErrors: BinLocationFormErrors = {};
+    let isValid = true;
+    Object.keys(formData).forEach(key => {
+        const fieldName = key as keyof typeof initialFormState;
+        const error = validateField(fieldName, formData[fieldName], formData);
+        if (error) {
+            newErrors[fieldName] = error;
+            isValid = false;
+        }
+    });
+    setErrors(newErrors);
+    return isValid;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validateAll()) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+        await onSave({
+            warehouseId: formData.warehouseId,
+            zone: formData.zone.trim(),
+            aisle: formData.aisle.trim() || undefined,
+            rack: formData.rack.trim() || undefined,
+            shelf: formData.shelf.trim() || undefined,
+            code,
+            capacity: formData.capacity ? Number(formData.capacity) : undefined,
+            id: binLocation?.id,
+        });
+    } catch (error) {
+        // Parent handles error, modal stays open
+    } finally {
+        setIsSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const inputClass = (field: keyof BinLocationFormErrors) =>
+    `w-full border rounded-lg p-2 bg-slate-50 border-slate-300 focus:ring-primary-500 focus:border-primary-500 ${errors[field] ? 'border-red-500' : 'border-slate-300'}`;
+
+  return (
+    <div onClick={onClose} className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4" role="dialog" aria-modal="true">
+      <div onClick={(e) => e.stopPropagation()} className="bg-white rounded-xl shadow-2xl w-full max-w-lg max-h-full overflow-y-auto">
+        <form onSubmit={handleSubmit} noValidate>
+          <div className="p-6 border-b border-slate-200">
+            <h2 className="text-xl font-bold text-slate-800">{binLocation ? 'Edit Bin Location' : 'Add Bin Location'}</h2>
+          </div>
+          <div className="p-6 grid grid-cols-2 md:grid-cols-4 gap-x-4 gap-y-4">
+            <div className="col-span-2 md:col-span-4">
+              <label htmlFor="binWarehouseId" className="block text-sm font-medium text-slate-700 mb-1">Warehouse</label>
+              <select name="warehouseId" id="binWarehouseId" value={formData.warehouseId} onChange={handleChange} disabled={!!binLocation} required className={`${inputClass('warehouseId')} disabled:bg-slate-200 disabled:cursor-not-allowed`}>
+                <option value="" disabled>-- Select Warehouse --</option>
+                {warehouses.map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
+              </select>
+              {errors.warehouseId && <p className="text-sm text-red-600 mt-1">{errors.warehouseId}</p>}
+            </div>
+            {(['zone', 'aisle', 'rack', 'shelf'] as const).map(field => (
+              <div key={field}>
+                <label htmlFor={`bin-${field}`} className="block text-sm font-medium text-slate-700 mb-1 capitalize">{field}{field !== 'zone' && <span className="text-slate-400 font-normal"> (opt.)</span>}</label>
+                <input type="text" name={field} id={`bin-${field}`} value={formData[field]} onChange={handleChange} required={field === 'zone'} className={inputClass(field)}/>
+              </div>
+            ))}
+            {(['zone', 'aisle', 'rack', 'shelf'] as const).some(field => errors[field]) && (
+              <p className="col-span-2 md:col-span-4 text-sm text-red-600 -mt-2">{errors.zone || errors.aisle || errors.rack || errors.shelf}</p>
+            )}
+            <div className="col-span-2">
+              <label htmlFor="binCapacity" className="block text-sm font-medium text-slate-700 mb-1">Capacity (units, optional)</label>
+              <input type="text" inputMode="numeric" name="capacity" id="binCapacity" value={formData.capacity} onChange={handleChange} className={inputClass('capacity')}/>
+              {errors.capacity && <p className="text-sm text-red-600 mt-1">{errors.capacity}</p>}
+            </div>
+            <div className="col-span-2">
+              <span className="block text-sm font-medium text-slate-700 mb-1">Location Code</span>
+              <p className="p-2 rounded-lg bg-slate-100 font-mono font-semibold text-slate-800">{code || '—'}</p>
+            </div>
+          </div>
+          <div className="p-6 bg-slate-50 border-t border-slate-200 flex justify-end gap-3 rounded-b-xl">
+            <button type="button" onClick={onClose} disabled={isSaving} className="px-4 py-2 bg-white border border-slate-300 text-slate-700 font-semibold rounded-lg hover:bg-slate-100 disabled:opacity-50">
+              Cancel
+            </button>
+            <button type="submit" disabled={isSaving} className="w-40 flex justify-center items-center px-4 py-2 bg-primary-600 text-white font-semibold rounded-lg hover:bg-primary-700 disabled:bg-primary-400">
+              {isSaving ? <LoadingIcon className="w-5 h-5 animate-spin" /> : (binLocation ? 'Save Changes' : 'Save Location')}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default BinLocationFormModal;
@@ -0,0 +1,120 @@
+import React, { useState, useEffect } from 'react';
+import { CategoryFieldSchema, CustomFieldDefinition, CustomFieldType } from '../types';
+import { CUSTOM_FIELD_TYPES, toFieldKey, validateFieldDefinitions } from '../utils/customFields';
+import { LoadingIcon, PlusIcon, DeleteIcon } from './icons/Icons';
+
+interface CategoryFieldsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (schemaData: Omit<CategoryFieldSchema, 'id' | 'lastUpdated' | 'lastModifiedBy'> & { id?: string; }) => Promise<void>;
+  category: string;
+  existing?: CategoryFieldSchema;
+}
+
+// Select options are typed as one comma-separated list.
+type FieldFormState = { key?: string; label: string; type: CustomFieldType; required: boolean; options: string };
+
+const toFieldFormState = (field: CustomFieldDefinition): FieldFormState => ({
+  key: field.key, label: field.label, type: field.type, required: field.required, options: (field.options || []).join(', '),
+});
+
+const toFieldDefinitions = (rows: FieldFormState[]): CustomFieldDefinition[] => {
+  const takenKeys = rows.filter(row => row.key).map(row => row.key as string);
+  return rows.map(row => {
+    const key = row.key || toFieldKey(row.label, takenKeys);
+    if (!row.key) takenKeys.push(key);
+    return {
+      key,
+      label: row.label.trim(),
+      type: row.type,
+      required: row.required,
+      ...(row.type === 'select' ? { options: row.options.split(',').map(o => o.trim()).filter(Boolean) } : {}),
+    };
+  });
+};
+
+const CategoryFieldsModal: React.FC<CategoryFieldsModalProps> = ({ isOpen, onClose, onSave, category, existing }) => {
+  const [rows, setRows] = useState<FieldFormState[]>([]);
+  const [error, setError] = useState<string | undefined>(undefined);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setRows((existing?.fields || []).map(toFieldFormState));
+    setError(undefined);
+  }, [existing, isOpen]);
+
+  const updateRows = (newRows: FieldFormState[]) => {
+    setRows(newRows);
+    setError(validateFieldDefinitions(toFieldDefinitions(newRows)));
+  };
+
+  const handleRowChange = <K extends keyof FieldFormState>(index: number, key: K, value: FieldFormState[K]) =>
+    updateRows(rows.map((row, i) => i === index ? { ...row, [key]: value } : row));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const fields = toFieldDefinitions(rows);
+    const newError = validateFieldDefinitions(fields);
+    setError(newError);
+    if (newError) return;
+
+    setIsSaving(true);
+    try {
+        await onSave({ category, fields, id: existing?.id });
+    } catch (error) {
+        // Parent handles error, modal stays open
+    } finally {
+        setIsSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div onClick={onClose} className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4" role="dialog" aria-modal="true">
+      <div onClick={(e) => e.stopPropagation()} className="bg-white rounded-xl shadow-2xl w-full max-w-3xl max-h-full overflow-y-auto">
+        <form onSubmit={handleSubmit} noValidate>
+          <div className="p-6 border-b border-slate-200">
+            <h2 className="text-xl font-bold text-slate-800">Custom Fields: {category}</h2>
+            <p className="text-sm text-slate-500 mt-1">Every product in this category shows these fields on the product form. Removing a field drops its values from a product the next time the product is saved.</p>
+          </div>
+          <div className="p-6 space-y-3">
+            {rows.length === 0 && <p className="text-sm text-slate-500">This category has no custom fields.</p>}
+            {rows.map((row, index) => (
+              <div key={row.key || `new-${index}`} className="flex flex-wrap items-center gap-2 text-sm text-slate-700">
+                <input type="text" value={row.label} onChange={e => handleRowChange(index, 'label', e.target.value)} placeholder="e.g. Brand" aria-label="Field label" className="flex-1 min-w-[10rem] border rounded-lg p-2 bg-slate-50 border-slate-300 focus:ring-primary-500 focus:border-primary-500" />
+                <select value={row.type} onChange={e => handleRowChange(index, 'type', e.target.value as CustomFieldType)} aria-label="Field type" className="w-28 border rounded-lg p-2 bg-slate-50 border-slate-300 focus:ring-primary-500 focus:border-primary-500">
+                  {CUSTOM_FIELD_TYPES.map(t => <option key={t.type} value={t.type}>{t.label}</option>)}
+                </select>
+                <label className="flex items-center gap-1.5">
+                  <input type="checkbox" checked={row.required} onChange={e => handleRowChange(index, 'required', e.target.checked)} className="h-4 w-4 rounded border-slate-300 text-primary-600 focus:ring-primary-500" />
+                  Required
+                </label>
+                <button type="button" onClick={() => updateRows(rows.filter((_, i) => i !== index))} className="p-1.5 text-red-600 rounded-lg hover:bg-red-100" aria-label={`Remove ${row.label || 'field'}`}>
+                  <DeleteIcon className="w-4 h-4" />
+                </button>
+                {row.type === 'select' && (
+                  <input type="text" value={row.options} onChange={e => handleRowChange(index, 'options', e.target.value)} placeholder="Options, separated by commas" aria-label={`Options of ${row.label || 'field'}`} className="w-full border rounded-lg p-2 bg-slate-50 border-slate-300 focus:ring-primary-500 focus:border-primary-500" />
+                )}
+              </div>
+            ))}
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <button type="button" onClick={() => setRows(prev => [...prev, { label: '', type: 'text', required: false, options: '' }])} className="inline-flex items-center gap-1 text-sm font-semibold text-primary-600 hover:text-primary-700">
+              <PlusIcon className="w-4 h-4" /> Add field
+            </button>
+          </div>
+          <div className="p-6 bg-slate-50 border-t border-slate-200 flex justify-end gap-3 rounded-b-xl">
+            <button type="button" onClick={onClose} disabled={isSaving} className="px-4 py-2 bg-white border border-slate-300 text-slate-700 font-semibold rounded-lg hover:bg-slate-100 disabled:opacity-50">
+              Cancel
+            </button>
+            <button type="submit" disabled={isSaving} className="w-40 flex justify-center items-center px-4 py-2 bg-primary-600 text-white font-semibold rounded-lg hover:bg-primary-700 disabled:bg-primary-400">
+              {isSaving ? <LoadingIcon className="w-5 h-5 animate-spin" /> : 'Save Fields'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default CategoryFieldsModal;
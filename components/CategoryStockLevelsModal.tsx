@@ -0,0 +1,82 @@
+import React, { useState, useEffect } from 'react';
+import { CategoryStockLevels, StockLevels, StockLevelsFormErrors } from '../types';
+import { DEFAULT_REORDER_POINT, DEFAULT_REORDER_QUANTITY } from '../constants';
+import { validateStockLevels, toStockLevelsFormState, fromStockLevelsFormState, StockLevelsFormState } from '../utils/stockLevels';
+import StockLevelsFields from './StockLevelsFields';
+import { LoadingIcon } from './icons/Icons';
+
+interface CategoryStockLevelsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (levelsData: Omit<CategoryStockLevels, 'id' | 'lastUpdated' | 'lastModifiedBy'> & { id?: string; }) => Promise<void>;
+  category: string;
+  existing?: CategoryStockLevels;
+}
+
+const CategoryStockLevelsModal: React.FC<CategoryStockLevelsModalProps> = ({ isOpen, onClose, onSave, category, existing }) => {
+  const [values, setValues] = useState<StockLevelsFormState>(toStockLevelsFormState());
+  const [errors, setErrors] = useState<StockLevelsFormErrors>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setValues(toStockLevelsFormState(existing));
+    setErrors({});
+  }, [existing, isOpen]);
+
+  const handleChange = (key: keyof StockLevels, value: string) => {
+    const newValues = { ...values, [key]: value };
+    setValues(newValues);
+    setErrors(validateStockLevels(fromStockLevelsFormState(newValues)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const levels = fromStockLevelsFormState(values);
+    const newErrors = validateStockLevels(levels);
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) return;
+
+    setIsSaving(true);
+    try {
+        await onSave({ ...levels, category, id: existing?.id });
+    } catch (error) {
+        // Parent handles error, modal stays open
+    } finally {
+        setIsSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div onClick={onClose} className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4" role="dialog" aria-modal="true">
+      <div onClick={(e) => e.stopPropagation()} className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-full overflow-y-auto">
+        <form onSubmit={handleSubmit} noValidate>
+          <div className="p-6 border-b border-slate-200">
+            <h2 className="text-xl font-bold text-slate-800">Stock Levels: {category}</h2>
+            <p className="text-sm text-slate-500 mt-1">Applies to every product in this category that does not set its own levels.</p>
+          </div>
+          <div className="p-6">
+            <StockLevelsFields
+              idPrefix="category"
+              values={values}
+              errors={errors}
+              onChange={handleChange}
+              defaults={{ reorderPoint: DEFAULT_REORDER_POINT, reorderQuantity: DEFAULT_REORDER_QUANTITY, minStock: 0 }}
+            />
+          </div>
+          <div className="p-6 bg-slate-50 border-t border-slate-200 flex justify-end gap-3 rounded-b-xl">
+            <button type="button" onClick={onClose} disabled={isSaving} className="px-4 py-2 bg-white border border-slate-300 text-slate-700 font-semibold rounded-lg hover:bg-slate-100 disabled:opacity-50">
+              Cancel
+            </button>
+            <button type="submit" disabled={isSaving} className="w-40 flex justify-center items-center px-4 py-2 bg-primary-600 text-white font-semibold rounded-lg hover:bg-primary-700 disabled:bg-primary-400">
+              {isSaving ? <LoadingIcon className="w-5 h-5 animate-spin" /> : 'Save Levels'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default CategoryStockLevelsModal;
@@ -1,24 +1,45 @@
 import React, { useState } from 'react';
-import { Request } from '../types';
+import { LotAllocation, Request, SerialNumber } from '../types';
 import { CheckCircleIcon, LoadingIcon } from './icons/Icons';
-import { formatNumber } from '../utils/helpers';
+import { formatDate, formatNumber } from '../utils/helpers';
+import { formatDocumentQuantity, formatQuantity } from '../utils/units';
+import { KitIssuePlan, isKitShort } from '../utils/kits';
+import { RESERVATION_HOLD_DAYS } from '../utils/reservations';
 
 interface ConfirmApproveModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onConfirm: () => Promise<void>;
+  onConfirm: (serialNumbers?: string[]) => Promise<void>;
   request: Request;
+  // Lots the request would be issued from, first-expiry-first-out.
+  lotAllocations?: LotAllocation[];
+  // Set when the stock covers the request only by counting expired units.
+  expiredShortfall?: boolean;
+  // Units in stock to issue from, for serialized products.
+  availableSerials?: SerialNumber[];
+  // How a kit would be issued: assembled kits first, the rest built from components.
+  kitPlan?: KitIssuePlan;
 }
 
-const ConfirmApproveModal: React.FC<ConfirmApproveModalProps> = ({ isOpen, onClose, onConfirm, request }) => {
+const ConfirmApproveModal: React.FC<ConfirmApproveModalProps> = ({ isOpen, onClose, onConfirm, request, lotAllocations = [], expiredShortfall = false, availableSerials, kitPlan }) => {
   const [isApproving, setIsApproving] = useState(false);
+  const [selectedSerials, setSelectedSerials] = useState<string[]>([]);
   
   if (!isOpen) return null;
 
+  const serialsIncomplete = !!availableSerials && selectedSerials.length !== request.quantity;
+  const kitShort = !!kitPlan && isKitShort(kitPlan);
+
+  const toggleSerial = (serialNumber: string) => {
+    setSelectedSerials(prev => prev.includes(serialNumber)
+      ? prev.filter(s => s !== serialNumber)
+      : prev.length < request.quantity ? [...prev, serialNumber] : prev);
+  };
+
   const handleConfirm = async () => {
     setIsApproving(true);
     try {
-        await onConfirm();
+        await onConfirm(availableSerials ? selectedSerials : undefined);
     } catch (error) {
         // Parent handles toast, modal stays open on some errors.
         if (document.getElementById('approve-modal-title')) {
@@ -36,11 +57,68 @@ const ConfirmApproveModal: React.FC<ConfirmApproveModalProps> = ({ isOpen, onClo
             </div>
             <h2 id="approve-modal-title" className="text-lg font-semibold text-gray-800 mt-4">Approve Request?</h2>
             <p className="mt-2 text-sm text-gray-600">
-                You are about to approve a request for <span className="font-bold">{formatNumber(request.quantity)} units</span> of <span className="font-bold">"{request.productName}"</span> for the <span className="font-bold">{request.requestingDivision}</span> division.
+                You are about to approve a request for <span className="font-bold">{formatDocumentQuantity(request)}</span> of <span className="font-bold">"{request.productName}"</span> for the <span className="font-bold">{request.requestingDivision}</span> division.
             </p>
             <p className="mt-2 text-sm text-gray-600">
-                The product stock will be automatically reduced. This action cannot be undone.
+                The stock is reserved for this request and issued when it is collected. Uncollected reservations are released after {RESERVATION_HOLD_DAYS} days.
             </p>
+            {expiredShortfall && (
+                <p className="mt-4 p-3 text-sm text-left text-red-700 bg-red-50 border border-red-200 rounded-lg">
+                    Part of this stock has expired and cannot be issued. Write off the expired stock and reorder before approving.
+                </p>
+            )}
+            {availableSerials && (
+                <div className="mt-4 text-left">
+                    <p className="text-sm font-semibold text-gray-700 mb-1">
+                        Units to reserve <span className="font-normal text-gray-500">({selectedSerials.length} of {formatNumber(request.quantity)} selected)</span>
+                    </p>
+                    {availableSerials.length < request.quantity ? (
+                        <p className="text-sm text-red-600">Only {formatNumber(availableSerials.length)} units with serial numbers are in stock in this warehouse.</p>
+                    ) : (
+                        <ul className="max-h-40 overflow-y-auto text-sm border rounded-lg divide-y">
+                            {availableSerials.map(serial => (
+                                <li key={serial.id}>
+                                    <label className="px-3 py-2 flex items-center gap-2 cursor-pointer hover:bg-gray-50">
+                                        <input type="checkbox" checked={selectedSerials.includes(serial.serialNumber)} onChange={() => toggleSerial(serial.serialNumber)} className="h-4 w-4 rounded border-gray-300 text-green-600 focus:ring-green-500" />
+                                        <span className="font-mono">{serial.serialNumber}</span>
+                                    </label>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+            {kitPlan && kitPlan.toAssemble > 0 && (
+                <div className="mt-4 text-left">
+                    <p className="text-sm font-semibold text-gray-700 mb-1">
+                        {kitPlan.fromStock > 0
+                            ? `${formatNumber(kitPlan.fromStock)} assembled kits are reserved from stock. The other ${formatNumber(kitPlan.toAssemble)} are built at collection from:`
+                            : `${formatNumber(kitPlan.toAssemble)} kits are built at collection from:`}
+                    </p>
+                    <ul className="text-sm text-gray-600 border rounded-lg divide-y">
+                        {kitPlan.components.map(c => (
+                            <li key={c.productId} className={`px-3 py-2 flex justify-between gap-4 ${c.available < c.quantity ? 'text-red-700 bg-red-50' : ''}`}>
+                                <span>{c.productName}</span>
+                                <span className="font-semibold whitespace-nowrap">{formatQuantity(c.quantity, c.baseUnit)} <span className="font-normal text-xs">of {formatNumber(c.available)}</span></span>
+                            </li>
+                        ))}
+                    </ul>
+                    {kitShort && <p className="mt-2 text-sm text-red-600">There are not enough components in stock to build these kits.</p>}
+                </div>
+            )}
+            {!expiredShortfall && lotAllocations.length > 0 && (
+                <div className="mt-4 text-left">
+                    <p className="text-sm font-semibold text-gray-700 mb-1">To be issued from lots (first expiry first)</p>
+                    <ul className="text-sm text-gray-600 border rounded-lg divide-y">
+                        {lotAllocations.map(a => (
+                            <li key={a.lotId} className="px-3 py-2 flex justify-between gap-4">
+                                <span className="font-mono">{a.lotNumber}{a.expiryDate && <span className="font-sans text-xs text-gray-500"> · exp. {formatDate(a.expiryDate)}</span>}</span>
+                                <span className="font-semibold">{formatNumber(a.quantity)}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
         </div>
         <div className="p-4 bg-gray-50 border-t border-gray-200 flex justify-center gap-3 rounded-b-xl">
           <button
@@ -54,7 +132,7 @@ const ConfirmApproveModal: React.FC<ConfirmApproveModalProps> = ({ isOpen, onClo
           <button
             type="button"
             onClick={handleConfirm}
-            disabled={isApproving}
+            disabled={isApproving || expiredShortfall || serialsIncomplete || kitShort}
             className="w-full flex justify-center items-center px-4 py-2 bg-green-600 text-white font-semibold rounded-lg hover:bg-green-700 disabled:bg-green-400"
           >
             {isApproving ? <LoadingIcon className="w-5 h-5 animate-spin" /> : 'Yes, Approve'}
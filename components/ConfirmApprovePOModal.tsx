@@ -1,7 +1,7 @@
 import React, { useState } from 'react';
 import { PurchaseOrder } from '../types';
 import { CheckCircleIcon, LoadingIcon } from './icons/Icons';
-import { formatNumber } from '../utils/helpers';
+import { formatDocumentQuantity } from '../utils/units';
 
 interface ConfirmApprovePOModalProps {
   isOpen: boolean;
@@ -36,7 +36,7 @@ const ConfirmApprovePOModal: React.FC<ConfirmApprovePOModalProps> = ({ isOpen, o
             </div>
             <h2 id="approve-po-modal-title" className="text-lg font-semibold text-gray-800 mt-4">Approve Purchase Order?</h2>
             <p className="mt-2 text-sm text-gray-600">
-                You are about to approve a purchase order for <span className="font-bold">{formatNumber(purchaseOrder.quantity)} units</span> of <span className="font-bold">"{purchaseOrder.productName}"</span>.
+                You are about to approve a purchase order for <span className="font-bold">{formatDocumentQuantity(purchaseOrder)}</span> of <span className="font-bold">"{purchaseOrder.productName}"</span>.
             </p>
             <p className="mt-2 text-sm text-gray-600">
                 This action cannot be undone.
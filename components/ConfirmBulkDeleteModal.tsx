@@ -1,4 +1,6 @@
 import React, { useState } from 'react';
+import { ReferenceCheck } from '../utils/recycleBin';
+import ReferenceCheckNotice from './ReferenceCheckNotice';
 import { WarningIcon, LoadingIcon } from './icons/Icons';
 
 interface ConfirmBulkDeleteModalProps {
@@ -6,9 +8,10 @@ interface ConfirmBulkDeleteModalProps {
   onClose: () => void;
   onConfirm: () => Promise<void>;
   itemCount: number;
+  check: ReferenceCheck;
 }
 
-const ConfirmBulkDeleteModal: React.FC<ConfirmBulkDeleteModalProps> = ({ isOpen, onClose, onConfirm, itemCount }) => {
+const ConfirmBulkDeleteModal: React.FC<ConfirmBulkDeleteModalProps> = ({ isOpen, onClose, onConfirm, itemCount, check }) => {
   const [isDeleting, setIsDeleting] = useState(false);
   
   if (!isOpen) return null;
@@ -35,15 +38,16 @@ const ConfirmBulkDeleteModal: React.FC<ConfirmBulkDeleteModalProps> = ({ isOpen,
             <h2 id="bulk-delete-modal-title" className="text-lg font-semibold text-gray-800 mt-4">Delete Multiple Products</h2>
             <div className="mt-2 text-sm text-gray-600 space-y-2">
                 <p>
-                    You are about to permanently delete:
+                    You are about to delete:
                 </p>
                 <p className="text-2xl font-bold text-red-600 bg-red-50 py-2 rounded-lg">
                     {itemCount} {itemCount === 1 ? 'product' : 'products'}
                 </p>
                 <p>
-                    This action cannot be undone.
+                    They will be moved to the Recycle Bin, where they can be restored.
                 </p>
             </div>
+            <ReferenceCheckNotice check={check} />
         </div>
         <div className="p-4 bg-gray-50 border-t border-gray-200 flex justify-center gap-3 rounded-b-xl">
           <button
@@ -57,7 +61,7 @@ const ConfirmBulkDeleteModal: React.FC<ConfirmBulkDeleteModalProps> = ({ isOpen,
           <button
             type="button"
             onClick={handleConfirm}
-            disabled={isDeleting}
+            disabled={isDeleting || check.blockers.length > 0}
             className="w-full flex justify-center items-center px-4 py-2 bg-red-600 text-white font-semibold rounded-lg hover:bg-red-700 disabled:bg-red-400"
           >
             {isDeleting ? <LoadingIcon className="w-5 h-5 animate-spin" /> : 'Yes, Delete'}
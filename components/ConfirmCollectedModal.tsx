@@ -1,16 +1,17 @@
 import React, { useState } from 'react';
 import { Request } from '../types';
-import { CubeIcon, LoadingIcon } from './icons/Icons';
-import { formatNumber } from '../utils/helpers';
+import { CubeIcon, LoadingIcon, BarcodeIcon } from './icons/Icons';
+import { formatDocumentQuantity } from '../utils/units';
 
 interface ConfirmCollectedModalProps {
   isOpen: boolean;
   onClose: () => void;
   onConfirm: () => Promise<void>;
   request: Request;
+  onScanItems?: () => void; // Confirms the collection once every item has been scanned
 }
 
-const ConfirmCollectedModal: React.FC<ConfirmCollectedModalProps> = ({ isOpen, onClose, onConfirm, request }) => {
+const ConfirmCollectedModal: React.FC<ConfirmCollectedModalProps> = ({ isOpen, onClose, onConfirm, request, onScanItems }) => {
   const [isConfirming, setIsConfirming] = useState(false);
 
   if (!isOpen) return null;
@@ -36,11 +37,28 @@ const ConfirmCollectedModal: React.FC<ConfirmCollectedModalProps> = ({ isOpen, o
             </div>
             <h2 id="collected-modal-title" className="text-lg font-semibold text-gray-800 mt-4">Mark as Collected?</h2>
             <p className="mt-2 text-sm text-gray-600">
-                Are you sure you want to mark the request for <span className="font-bold">{formatNumber(request.quantity)} units</span> of <span className="font-bold">"{request.productName}"</span> as collected?
+                Are you sure you want to mark the request for <span className="font-bold">{formatDocumentQuantity(request)}</span> of <span className="font-bold">"{request.productName}"</span> as collected?
             </p>
             <p className="mt-2 text-sm text-gray-600">
                 This will finalize the request.
             </p>
+            {request.serialNumbers && request.serialNumbers.length > 0 && (
+                <div className="mt-4 text-left">
+                    <p className="text-sm font-semibold text-gray-700 mb-1">Hand over these units</p>
+                    <p className="text-sm font-mono text-gray-600 bg-gray-50 border rounded-lg px-3 py-2">{request.serialNumbers.join(', ')}</p>
+                </div>
+            )}
+            {onScanItems && (
+                <button
+                    type="button"
+                    onClick={onScanItems}
+                    disabled={isConfirming}
+                    className="mt-4 w-full flex items-center justify-center gap-2 px-4 py-2 border border-sky-300 text-sky-700 font-semibold rounded-lg hover:bg-sky-50 disabled:opacity-50"
+                >
+                    <BarcodeIcon className="w-5 h-5" />
+                    <span>Scan Items to Confirm</span>
+                </button>
+            )}
         </div>
         <div className="p-4 bg-gray-50 border-t border-gray-200 flex justify-center gap-3 rounded-b-xl">
           <button
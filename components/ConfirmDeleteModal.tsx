@@ -1,4 +1,6 @@
 import React, { useState } from 'react';
+import { ReferenceCheck } from '../utils/recycleBin';
+import ReferenceCheckNotice from './ReferenceCheckNotice';
 import { WarningIcon, LoadingIcon } from './icons/Icons';
 
 interface ConfirmDeleteModalProps {
@@ -6,9 +8,10 @@ interface ConfirmDeleteModalProps {
   onClose: () => void;
   onConfirm: () => Promise<void>;
   productName: string;
+  check: ReferenceCheck;
 }
 
-const ConfirmDeleteModal: React.FC<ConfirmDeleteModalProps> = ({ isOpen, onClose, onConfirm, productName }) => {
+const ConfirmDeleteModal: React.FC<ConfirmDeleteModalProps> = ({ isOpen, onClose, onConfirm, productName, check }) => {
   const [isDeleting, setIsDeleting] = useState(false);
   
   if (!isOpen) return null;
@@ -36,8 +39,9 @@ const ConfirmDeleteModal: React.FC<ConfirmDeleteModalProps> = ({ isOpen, onClose
             </div>
             <h2 id="delete-modal-title" className="text-lg font-semibold text-slate-800 mt-4">Delete Product</h2>
             <p className="mt-2 text-sm text-slate-600">
-                Are you sure you want to delete the product <span className="font-bold">"{productName}"</span>? This action cannot be undone.
+                Are you sure you want to delete the product <span className="font-bold">"{productName}"</span>? It will be moved to the Recycle Bin, where it can be restored.
             </p>
+            <ReferenceCheckNotice check={check} />
         </div>
         <div className="p-4 bg-slate-50 border-t border-slate-200 flex justify-center gap-3 rounded-b-xl">
           <button
@@ -51,7 +55,7 @@ const ConfirmDeleteModal: React.FC<ConfirmDeleteModalProps> = ({ isOpen, onClose
           <button
             type="button"
             onClick={handleConfirm}
-            disabled={isDeleting}
+            disabled={isDeleting || check.blockers.length > 0}
             className="w-full flex justify-center items-center px-4 py-2 bg-red-600 text-white font-semibold rounded-lg hover:bg-red-700 disabled:bg-red-400"
           >
             {isDeleting ? <LoadingIcon className="w-5 h-5 animate-spin" /> : 'Yes, Delete'}
@@ -1,4 +1,6 @@
 import React, { useState } from 'react';
+import { ReferenceCheck } from '../utils/recycleBin';
+import ReferenceCheckNotice from './ReferenceCheckNotice';
 import { WarningIcon, LoadingIcon } from './icons/Icons';
 
 interface ConfirmDeleteVendorModalProps {
@@ -6,9 +8,10 @@ interface ConfirmDeleteVendorModalProps {
   onClose: () => void;
   onConfirm: () => Promise<void>;
   vendorName: string;
+  check: ReferenceCheck;
 }
 
-const ConfirmDeleteVendorModal: React.FC<ConfirmDeleteVendorModalProps> = ({ isOpen, onClose, onConfirm, vendorName }) => {
+const ConfirmDeleteVendorModal: React.FC<ConfirmDeleteVendorModalProps> = ({ isOpen, onClose, onConfirm, vendorName, check }) => {
   const [isDeleting, setIsDeleting] = useState(false);
 
   if (!isOpen) return null;
@@ -34,8 +37,9 @@ const ConfirmDeleteVendorModal: React.FC<ConfirmDeleteVendorModalProps> = ({ isO
             </div>
             <h2 id="delete-vendor-modal-title" className="text-lg font-semibold text-slate-800 mt-4">Delete Vendor</h2>
             <p className="mt-2 text-sm text-slate-600">
-                Are you sure you want to delete the vendor <span className="font-bold">"{vendorName}"</span>? This action cannot be undone.
+                Are you sure you want to delete the vendor <span className="font-bold">"{vendorName}"</span>? It will be moved to the Recycle Bin, where it can be restored.
             </p>
+            <ReferenceCheckNotice check={check} />
         </div>
         <div className="p-4 bg-slate-50 border-t border-slate-200 flex justify-center gap-3 rounded-b-xl">
           <button
@@ -49,7 +53,7 @@ const ConfirmDeleteVendorModal: React.FC<ConfirmDeleteVendorModalProps> = ({ isO
           <button
             type="button"
             onClick={handleConfirm}
-            disabled={isDeleting}
+            disabled={isDeleting || check.blockers.length > 0}
             className="w-full flex justify-center items-center px-4 py-2 bg-red-600 text-white font-semibold rounded-lg hover:bg-red-700 disabled:bg-red-400"
           >
             {isDeleting ? <LoadingIcon className="w-5 h-5 animate-spin"/> : 'Yes, Delete'}
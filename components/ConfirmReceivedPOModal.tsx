@@ -1,24 +1,63 @@
 import React, { useState } from 'react';
-import { PurchaseOrder } from '../types';
+import { LotReceipt, PurchaseOrder } from '../types';
 import { CubeIcon, LoadingIcon } from './icons/Icons';
 import { formatNumber } from '../utils/helpers';
+import { parseSerialNumbers, findDuplicateSerials } from '../utils/serials';
+import { formatDocumentQuantity } from '../utils/units';
 
 interface ConfirmReceivedPOModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onConfirm: () => Promise<void>;
+  onConfirm: (lot?: LotReceipt, serialNumbers?: string[], unitCost?: number) => Promise<void>;
   purchaseOrder: PurchaseOrder;
+  // Prefills the unit cost; the actual cost on the supplier's invoice is entered on receipt.
+  defaultUnitCost?: number;
+  // Serialized products need one serial number per unit received.
+  isSerialized?: boolean;
 }
 
-const ConfirmReceivedPOModal: React.FC<ConfirmReceivedPOModalProps> = ({ isOpen, onClose, onConfirm, purchaseOrder }) => {
+const ConfirmReceivedPOModal: React.FC<ConfirmReceivedPOModalProps> = ({ isOpen, onClose, onConfirm, purchaseOrder, defaultUnitCost, isSerialized = false }) => {
   const [isConfirming, setIsConfirming] = useState(false);
+  const [lotNumber, setLotNumber] = useState('');
+  const [expiryDate, setExpiryDate] = useState('');
+  const [lotError, setLotError] = useState('');
+  const [serialText, setSerialText] = useState('');
+  const [serialError, setSerialError] = useState('');
+  const [unitCost, setUnitCost] = useState(defaultUnitCost !== undefined ? String(defaultUnitCost) : '');
+  const [unitCostError, setUnitCostError] = useState('');
 
   if (!isOpen) return null;
 
+  const serialNumbers = parseSerialNumbers(serialText);
+
   const handleConfirm = async () => {
+    const parsedUnitCost = unitCost.trim() ? Number(unitCost) : undefined;
+    if (parsedUnitCost !== undefined && !(parsedUnitCost >= 0)) {
+      setUnitCostError('Enter a unit cost of zero or more.');
+      return;
+    }
+    if (expiryDate && !lotNumber.trim()) {
+      setLotError('Enter a lot number to record an expiry date.');
+      return;
+    }
+    if (isSerialized) {
+      const duplicates = findDuplicateSerials(serialNumbers);
+      if (duplicates.length > 0) {
+        setSerialError(`Entered more than once: ${duplicates.join(', ')}`);
+        return;
+      }
+      if (serialNumbers.length !== purchaseOrder.quantity) {
+        setSerialError(`Enter ${formatNumber(purchaseOrder.quantity)} serial numbers, one per unit.`);
+        return;
+      }
+    }
     setIsConfirming(true);
     try {
-      await onConfirm();
+      await onConfirm(
+        lotNumber.trim() ? { lotNumber: lotNumber.trim(), expiryDate: expiryDate || undefined } : undefined,
+        isSerialized ? serialNumbers : undefined,
+        parsedUnitCost
+      );
     } catch (error) {
       if (document.getElementById('receive-po-modal-title')) {
         setIsConfirming(false);
@@ -35,11 +74,39 @@ const ConfirmReceivedPOModal: React.FC<ConfirmReceivedPOModalProps> = ({ isOpen,
             </div>
             <h2 id="receive-po-modal-title" className="text-lg font-semibold text-gray-800 mt-4">Confirm Receipt?</h2>
             <p className="mt-2 text-sm text-gray-600">
-                You are about to mark the PO for <span className="font-bold">{formatNumber(purchaseOrder.quantity)} units</span> of <span className="font-bold">"{purchaseOrder.productName}"</span> as received.
+                You are about to mark the PO for <span className="font-bold">{formatDocumentQuantity(purchaseOrder)}</span> of <span className="font-bold">"{purchaseOrder.productName}"</span> as received.
             </p>
             <p className="mt-2 text-sm text-gray-600">
                 The product stock will be increased accordingly. This action cannot be undone.
             </p>
+            <div className="mt-4 grid grid-cols-2 gap-3 text-left">
+                <div className="col-span-2">
+                    <label htmlFor="receive-unit-cost" className="block text-sm font-medium text-gray-700 mb-1">
+                        Unit Cost <span className="font-normal text-gray-500">(per {purchaseOrder.baseUnit || 'unit'})</span>
+                    </label>
+                    <input type="number" id="receive-unit-cost" min="0" step="any" value={unitCost} onChange={e => { setUnitCost(e.target.value); setUnitCostError(''); }} placeholder="Current average cost" className={`w-full border rounded-lg p-2 bg-slate-50 focus:ring-primary-500 focus:border-primary-500 ${unitCostError ? 'border-red-500' : 'border-slate-300'}`} />
+                    {unitCostError && <p className="text-sm text-red-600">{unitCostError}</p>}
+                </div>
+                <div>
+                    <label htmlFor="receive-lot-number" className="block text-sm font-medium text-gray-700 mb-1">Lot Number</label>
+                    <input type="text" id="receive-lot-number" value={lotNumber} onChange={e => { setLotNumber(e.target.value); setLotError(''); }} placeholder="Optional" className={`w-full border rounded-lg p-2 bg-slate-50 focus:ring-primary-500 focus:border-primary-500 ${lotError ? 'border-red-500' : 'border-slate-300'}`} />
+                </div>
+                <div>
+                    <label htmlFor="receive-expiry-date" className="block text-sm font-medium text-gray-700 mb-1">Expiry Date</label>
+                    <input type="date" id="receive-expiry-date" value={expiryDate} onChange={e => { setExpiryDate(e.target.value); setLotError(''); }} className="w-full border rounded-lg p-2 bg-slate-50 border-slate-300 focus:ring-primary-500 focus:border-primary-500" />
+                </div>
+                {lotError && <p className="col-span-2 text-sm text-red-600">{lotError}</p>}
+                <p className="col-span-2 text-xs text-gray-500">Leave the lot number empty for products that are not tracked by lot.</p>
+                {isSerialized && (
+                    <div className="col-span-2">
+                        <label htmlFor="receive-serial-numbers" className="block text-sm font-medium text-gray-700 mb-1">
+                            Serial Numbers <span className="font-normal text-gray-500">({serialNumbers.length} of {formatNumber(purchaseOrder.quantity)})</span>
+                        </label>
+                        <textarea id="receive-serial-numbers" rows={4} value={serialText} onChange={e => { setSerialText(e.target.value); setSerialError(''); }} placeholder="One per line" className={`w-full border rounded-lg p-2 bg-slate-50 font-mono text-sm focus:ring-primary-500 focus:border-primary-500 ${serialError ? 'border-red-500' : 'border-slate-300'}`} />
+                        {serialError && <p className="text-sm text-red-600">{serialError}</p>}
+                    </div>
+                )}
+            </div>
         </div>
         <div className="p-4 bg-gray-50 border-t border-gray-200 flex justify-center gap-3 rounded-b-xl">
           <button type="button" onClick={onClose} disabled={isConfirming} className="w-full px-4 py-2 bg-white border border-gray-300 text-gray-700 font-semibold rounded-lg hover:bg-gray-100 disabled:opacity-50">Cancel</button>
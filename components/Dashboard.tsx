@@ -1,12 +1,18 @@
 import React, { useMemo } from 'react';
-import { Product, View, PurchaseOrder } from '../types';
+import { Product, View, PurchaseOrder, CategoryStockLevels } from '../types';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
 import { formatCurrency, formatNumber } from '../utils/helpers';
+import { resolveStockLevels, getStockStatus, needsReorder, STOCK_STATUS_LABELS, STOCK_STATUS_BADGES } from '../utils/stockLevels';
+import { ExpiryBucket, ExpiryItem, EXPIRY_BUCKETS, EXPIRY_BUCKET_LABELS, EXPIRY_BUCKET_STYLES, getExpiryBucket } from '../utils/expiry';
 import { CubeIcon, MoneyIcon, CategoryIcon, WarningIcon, ShoppingCartIcon } from './icons/Icons';
 
 interface DashboardProps {
   products: Product[];
   purchaseOrders: PurchaseOrder[];
+  categoryStockLevels: CategoryStockLevels[];
+  expiryItems: ExpiryItem[];
+  reservedQuantities: Map<string, number>; // Stock held for approved requests, by product id
+  stockValues: Map<string, number>; // Cost of the stock on hand, by product id
   setCurrentView: (view: View) => void;
 }
 
@@ -14,10 +20,11 @@ interface StatCardProps {
     icon: React.ReactNode;
     title: string;
     value: string;
+    detail?: string;
     gradient: string;
 }
 
-const StatCard: React.FC<StatCardProps> = ({ icon, title, value, gradient }) => (
+const StatCard: React.FC<StatCardProps> = ({ icon, title, value, detail, gradient }) => (
     <div className="bg-white p-6 rounded-xl shadow-md flex items-center space-x-4 transition-all duration-300 hover:shadow-lg hover:-translate-y-1">
         <div className={`rounded-full p-3 text-white ${gradient}`}>
             {icon}
@@ -25,20 +32,44 @@ const StatCard: React.FC<StatCardProps> = ({ icon, title, value, gradient }) =>
         <div>
             <p className="text-sm text-slate-500 font-medium">{title}</p>
             <p className="text-2xl font-bold text-slate-800">{value}</p>
+            {detail && <p className="text-xs text-slate-500">{detail}</p>}
         </div>
     </div>
 );
 
 
-const Dashboard: React.FC<DashboardProps> = ({ products, purchaseOrders, setCurrentView }) => {
+const Dashboard: React.FC<DashboardProps> = ({ products, purchaseOrders, categoryStockLevels, expiryItems, reservedQuantities, stockValues, setCurrentView }) => {
+  // Products whose available (unreserved) stock is at or below their reorder point, most urgent first.
+  const lowStockProductsList = useMemo(() => {
+    return products
+        .map(p => {
+            const levels = resolveStockLevels(p, categoryStockLevels);
+            const available = Math.max(p.quantity - (reservedQuantities.get(p.id) || 0), 0);
+            return { ...p, available, reorderPoint: levels.reorderPoint, status: getStockStatus(available, levels) };
+        })
+        .filter(p => needsReorder(p.status))
+        .sort((a, b) => (a.available - a.reorderPoint) - (b.available - b.reorderPoint));
+  }, [products, categoryStockLevels, reservedQuantities]);
+
   const stats = useMemo(() => {
     const totalProducts = products.length;
     const totalStock = products.reduce((sum, p) => sum + p.quantity, 0);
-    const totalValue = products.reduce((sum, p) => sum + p.price * p.quantity, 0);
-    const lowStockCount = products.filter(p => p.quantity < 5).length;
+    const totalReserved = products.reduce((sum, p) => sum + (reservedQuantities.get(p.id) || 0), 0);
+    const totalValue = products.reduce((sum, p) => sum + (stockValues.get(p.id) || 0), 0);
+    const lowStockCount = lowStockProductsList.length;
     const pendingPOCount = purchaseOrders.filter(po => po.status === 'Pending Approval').length;
-    return { totalProducts, totalStock, totalValue, lowStockCount, pendingPOCount };
-  }, [products, purchaseOrders]);
+    return { totalProducts, totalStock, totalReserved, totalValue, lowStockCount, pendingPOCount };
+  }, [products, purchaseOrders, lowStockProductsList, reservedQuantities, stockValues]);
+
+  // Units of stock per expiry window.
+  const expiryTotals = useMemo(() => {
+    const totals = Object.fromEntries(EXPIRY_BUCKETS.map(b => [b, 0])) as Record<ExpiryBucket, number>;
+    expiryItems.forEach(item => {
+      const bucket = getExpiryBucket(item.daysLeft);
+      if (bucket) totals[bucket] += item.quantity;
+    });
+    return totals;
+  }, [expiryItems]);
 
   const categoryData = useMemo(() => {
     const categories: { [key: string]: number } = {};
@@ -55,21 +86,15 @@ const Dashboard: React.FC<DashboardProps> = ({ products, purchaseOrders, setCurr
     }));
   }, [products]);
 
-  const lowStockProductsList = useMemo(() => {
-    return products
-        .filter(p => p.quantity < 5)
-        .sort((a, b) => a.quantity - b.quantity);
-  }, [products]);
-
   const topValueProducts = useMemo(() => {
     return products
         .map(p => ({
             ...p,
-            totalValue: p.quantity * p.price,
+            totalValue: stockValues.get(p.id) || 0,
         }))
         .sort((a, b) => b.totalValue - a.totalValue)
         .slice(0, 5);
-  }, [products]);
+  }, [products, stockValues]);
 
   const PIE_COLORS = ['#f59e0b', '#10b981', '#3b82f6', '#8b5cf6', '#ec4899', '#f43f5e'];
 
@@ -102,17 +127,19 @@ const Dashboard: React.FC<DashboardProps> = ({ products, purchaseOrders, setCurr
             icon={<MoneyIcon className="w-6 h-6"/>} 
             title="Inventory Value" 
             value={formatCurrency(stats.totalValue, 'IDR')}
+            detail="At cost"
             gradient="bg-gradient-to-br from-emerald-400 to-emerald-600"
         />
         <StatCard 
             icon={<CategoryIcon className="w-6 h-6"/>} 
             title="Total Stock Items" 
             value={formatNumber(stats.totalStock)}
+            detail={`${formatNumber(stats.totalReserved)} reserved · ${formatNumber(Math.max(stats.totalStock - stats.totalReserved, 0))} available`}
             gradient="bg-gradient-to-br from-sky-400 to-sky-600"
         />
         <StatCard 
             icon={<WarningIcon className="w-6 h-6"/>} 
-            title="Critical Stock (<5)" 
+            title="Below Reorder Point" 
             value={formatNumber(stats.lowStockCount)}
             gradient="bg-gradient-to-br from-rose-400 to-rose-600"
         />
@@ -124,6 +151,24 @@ const Dashboard: React.FC<DashboardProps> = ({ products, purchaseOrders, setCurr
         />
       </div>
 
+      {/* Expiry Strip */}
+      <div className="bg-white p-4 rounded-xl shadow-md flex flex-wrap items-center gap-4">
+        <h3 className="text-lg font-semibold text-slate-800 mr-2">Expiring Stock</h3>
+        {EXPIRY_BUCKETS.map(bucket => (
+          <div key={bucket} className="flex items-center gap-2">
+            <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${EXPIRY_BUCKET_STYLES[bucket]}`}>{EXPIRY_BUCKET_LABELS[bucket]}</span>
+            <span className="font-bold text-slate-700">{formatNumber(expiryTotals[bucket])}</span>
+          </div>
+        ))}
+        <button
+          onClick={() => setCurrentView('expiry')}
+          className="ml-auto text-sm text-primary-600 font-semibold hover:underline"
+          aria-label="Open expiry monitoring"
+        >
+          View Expiry &rarr;
+        </button>
+      </div>
+
       {/* Bottom Section: Charts and Lists */}
       <div className="flex-1 grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Bar Chart */}
@@ -204,23 +249,39 @@ const Dashboard: React.FC<DashboardProps> = ({ products, purchaseOrders, setCurr
         
         {/* Low Stock List */}
         <div className="bg-white p-6 rounded-xl shadow-md flex flex-col overflow-hidden">
-          <h3 className="text-lg font-semibold text-slate-800 mb-4 flex-shrink-0">Low Stock Products</h3>
+          <div className="flex justify-between items-center mb-4 flex-shrink-0">
+            <h3 className="text-lg font-semibold text-slate-800">Low Stock Products</h3>
+            {lowStockProductsList.length > 0 && (
+              <button 
+                onClick={() => setCurrentView('replenishment')}
+                className="text-sm text-primary-600 font-semibold hover:underline"
+                aria-label="Open replenishment suggestions"
+              >
+                Reorder &rarr;
+              </button>
+            )}
+          </div>
           <div className="flex-1 overflow-y-auto">
             {lowStockProductsList.length > 0 ? (
                 <table className="w-full text-sm border-collapse border border-slate-300">
                   <thead className="text-left text-slate-500 sticky top-0 bg-white">
                     <tr>
                       <th className="p-2 font-medium border border-slate-300">Product Name</th>
-                      <th className="p-2 font-medium text-right border border-slate-300">Remaining Stock</th>
+                      <th className="p-2 font-medium text-right border border-slate-300">Available Stock</th>
+                      <th className="p-2 font-medium text-right border border-slate-300">Reorder Point</th>
                     </tr>
                   </thead>
                   <tbody>
                     {lowStockProductsList.map(product => (
                       <tr key={product.id}>
-                        <td className="p-2 font-semibold text-slate-700 border border-slate-300">{product.name}</td>
+                        <td className="p-2 font-semibold text-slate-700 border border-slate-300">
+                          {product.name}
+                          <span className={`ml-2 px-2 py-0.5 text-xs font-medium rounded-full ${STOCK_STATUS_BADGES[product.status]}`}>{STOCK_STATUS_LABELS[product.status]}</span>
+                        </td>
                         <td className="p-2 text-right border border-slate-300">
-                          <span className="font-bold text-red-600">{formatNumber(product.quantity)}</span>
+                          <span className="font-bold text-red-600">{formatNumber(product.available)}</span>
                         </td>
+                        <td className="p-2 text-right border border-slate-300">{formatNumber(product.reorderPoint)}</td>
                       </tr>
                     ))}
                   </tbody>
@@ -0,0 +1,133 @@
+import React, { useState, useMemo } from 'react';
+import { User, Warehouse } from '../types';
+import { formatDate, formatNumber } from '../utils/helpers';
+import { ExpiryBucket, ExpiryItem, EXPIRY_BUCKETS, EXPIRY_BUCKET_LABELS, EXPIRY_BUCKET_STYLES, getExpiryBucket } from '../utils/expiry';
+import { getWarehouseName } from '../utils/warehouses';
+import { ClockIcon, DeleteIcon, LoadingIcon } from './icons/Icons';
+
+interface ExpiryListProps {
+  items: ExpiryItem[];
+  warehouses: Warehouse[];
+  currentUser: User;
+  onWriteOff: (item: ExpiryItem) => Promise<void>;
+}
+
+type BucketFilter = ExpiryBucket | 'all';
+
+const ExpiryList: React.FC<ExpiryListProps> = ({ items, warehouses, currentUser, onWriteOff }) => {
+  const [bucketFilter, setBucketFilter] = useState<BucketFilter>('all');
+  const [writingOff, setWritingOff] = useState(new Set<string>());
+  const canWriteOff = currentUser.role !== 'Viewer';
+
+  // Only stock expiring within the longest window is monitored.
+  const monitoredItems = useMemo(() => items.filter(item => getExpiryBucket(item.daysLeft) !== null), [items]);
+
+  const totals = useMemo(() => {
+    const result = Object.fromEntries(EXPIRY_BUCKETS.map(b => [b, { count: 0, quantity: 0 }])) as Record<ExpiryBucket, { count: number; quantity: number }>;
+    monitoredItems.forEach(item => {
+      const bucket = getExpiryBucket(item.daysLeft)!;
+      result[bucket].count++;
+      result[bucket].quantity += item.quantity;
+    });
+    return result;
+  }, [monitoredItems]);
+
+  const visibleItems = useMemo(
+    () => bucketFilter === 'all' ? monitoredItems : monitoredItems.filter(item => getExpiryBucket(item.daysLeft) === bucketFilter),
+    [monitoredItems, bucketFilter]
+  );
+
+  const handleWriteOff = async (item: ExpiryItem) => {
+    setWritingOff(prev => new Set(prev).add(item.key));
+    try {
+      await onWriteOff(item);
+    } catch (error) {
+      // Parent handles error toast
+    } finally {
+      setWritingOff(prev => {
+        const next = new Set(prev);
+        next.delete(item.key);
+        return next;
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        {EXPIRY_BUCKETS.map(bucket => (
+          <button
+            key={bucket}
+            onClick={() => setBucketFilter(current => current === bucket ? 'all' : bucket)}
+            className={`text-left bg-white p-4 rounded-xl shadow-md border-2 transition-colors ${bucketFilter === bucket ? 'border-primary-500' : 'border-transparent hover:border-slate-200'}`}
+            aria-pressed={bucketFilter === bucket}
+          >
+            <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${EXPIRY_BUCKET_STYLES[bucket]}`}>{EXPIRY_BUCKET_LABELS[bucket]}</span>
+            <p className="text-2xl font-bold text-slate-800 mt-2">{formatNumber(totals[bucket].quantity)} <span className="text-sm font-medium text-slate-500">units</span></p>
+            <p className="text-sm text-slate-500">{totals[bucket].count} lot{totals[bucket].count === 1 ? '' : 's'}</p>
+          </button>
+        ))}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-lg overflow-x-auto">
+        {visibleItems.length === 0 ? (
+          <div className="text-center py-16 text-gray-500">
+            <ClockIcon className="w-12 h-12 mx-auto text-gray-300 mb-2" />
+            <p className="font-semibold">No stock {bucketFilter === 'all' ? 'expiring in the next 90 days' : EXPIRY_BUCKET_LABELS[bucketFilter].toLowerCase()}.</p>
+          </div>
+        ) : (
+          <table className="w-full text-sm text-left text-gray-600">
+            <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+              <tr>
+                <th scope="col" className="px-6 py-3">Product</th>
+                <th scope="col" className="px-6 py-3">Lot</th>
+                <th scope="col" className="px-6 py-3">Warehouse</th>
+                <th scope="col" className="px-6 py-3">Expiry Date</th>
+                <th scope="col" className="px-6 py-3 text-right">Quantity</th>
+                {canWriteOff && <th scope="col" className="px-6 py-3 text-center">Actions</th>}
+              </tr>
+            </thead>
+            <tbody>
+              {visibleItems.map(item => {
+                const bucket = getExpiryBucket(item.daysLeft)!;
+                return (
+                  <tr key={item.key} className={`border-b ${bucket === 'expired' ? 'bg-red-50' : 'bg-white hover:bg-gray-50'}`}>
+                    <td className="px-6 py-4">
+                      <div className="font-medium text-gray-900">{item.productName}</div>
+                      <div className="text-xs text-gray-500">{item.sku}</div>
+                    </td>
+                    <td className="px-6 py-4 font-mono">{item.lotNumber || <span className="font-sans italic text-gray-400">Untracked</span>}</td>
+                    <td className="px-6 py-4">{getWarehouseName(warehouses, item.warehouseId)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {formatDate(item.expiryDate)}
+                      <span className={`ml-2 px-2 py-0.5 text-xs font-semibold rounded-full ${EXPIRY_BUCKET_STYLES[bucket]}`}>
+                        {item.daysLeft < 0 ? `${-item.daysLeft}d ago` : item.daysLeft === 0 ? 'Today' : `${item.daysLeft}d left`}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-right font-semibold">{formatNumber(item.quantity)}</td>
+                    {canWriteOff && (
+                      <td className="px-6 py-4 text-center">
+                        {bucket === 'expired' && (
+                          <button
+                            onClick={() => handleWriteOff(item)}
+                            disabled={writingOff.has(item.key)}
+                            className="inline-flex items-center justify-center gap-1 w-28 px-3 py-1.5 text-xs font-semibold text-red-700 bg-red-100 rounded-lg hover:bg-red-200 disabled:opacity-50"
+                            title="Remove this stock with an Expired stock adjustment"
+                          >
+                            {writingOff.has(item.key) ? <LoadingIcon className="w-4 h-4 animate-spin" /> : <><DeleteIcon className="w-4 h-4" /><span>Write Off</span></>}
+                          </button>
+                        )}
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExpiryList;
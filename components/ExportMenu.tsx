@@ -0,0 +1,76 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { EXPORT_FORMATS, ExportFormat } from '../utils/exports';
+import { ChevronDownIcon, DownloadIcon } from './icons/Icons';
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => void;
+  rowCount: number;
+  className?: string;
+}
+
+// Export button with a menu of formats, shared by the list views.
+const ExportMenu: React.FC<ExportMenuProps> = ({ onExport, rowCount, className = '' }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [error, setError] = useState('');
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, []);
+
+  const handleExport = (format: ExportFormat) => {
+    setIsOpen(false);
+    try {
+      onExport(format);
+      setError('');
+    } catch (err: any) {
+      console.error("Failed to export:", err);
+      setError(err?.message || 'The export failed.');
+    }
+  };
+
+  return (
+    <div ref={menuRef} className={`relative ${className}`}>
+      <button
+        type="button"
+        onClick={() => setIsOpen(prev => !prev)}
+        disabled={rowCount === 0}
+        className="w-full flex items-center justify-center gap-2 px-4 py-2 border border-slate-300 rounded-lg text-sm text-slate-600 hover:bg-slate-100 transition-colors disabled:opacity-50"
+        aria-haspopup="true"
+        aria-expanded={isOpen}
+      >
+        <DownloadIcon className="h-5 w-5" />
+        <span>Export ({rowCount})</span>
+        <ChevronDownIcon className={`w-4 h-4 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-44 origin-top-right bg-white rounded-md shadow-lg ring-1 ring-black ring-opacity-5 z-10">
+          <div className="py-1" role="menu" aria-orientation="vertical">
+            {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+              <button
+                key={format}
+                type="button"
+                onClick={() => handleExport(format)}
+                className="w-full text-left px-4 py-2 text-sm text-slate-700 hover:bg-slate-100 hover:text-slate-900"
+                role="menuitem"
+              >
+                {EXPORT_FORMATS[format]}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+      {error && <p className="absolute right-0 mt-1 w-64 text-xs text-red-600 text-right" role="alert">{error}</p>}
+    </div>
+  );
+};
+
+export default ExportMenu;
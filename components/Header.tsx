@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { View, User } from '../types';
-import { PlusIcon, BoxIcon, UserCircleIcon, LogoutIcon, ChevronDownIcon, CogIcon } from './icons/Icons';
+import { View, User, Warehouse } from '../types';
+import { ALL_WAREHOUSES } from '../utils/warehouses';
+import { PlusIcon, BoxIcon, UserCircleIcon, LogoutIcon, ChevronDownIcon, CogIcon, SignalSlashIcon, ArrowPathIcon, WarningIcon, BarcodeIcon } from './icons/Icons';
 
 interface HeaderProps {
   currentView: View;
@@ -9,10 +10,19 @@ interface HeaderProps {
   onAddRequest: () => void;
   onAddPurchaseOrder: () => void;
   onAddAdjustment: () => void;
+  onAddLocation: () => void;
+  onOpenScanner: () => void;
   isVisible: boolean;
   currentUser: User;
   onLogout: () => void;
   onOpenProfileModal: () => void;
+  isOnline: boolean;
+  pendingSyncCount: number;
+  syncConflictCount: number;
+  onOpenSyncStatus: () => void;
+  warehouses: Warehouse[];
+  selectedWarehouseId: string;
+  onSelectWarehouse: (warehouseId: string) => void;
 }
 
 const Header: React.FC<HeaderProps> = ({ 
@@ -22,10 +32,19 @@ const Header: React.FC<HeaderProps> = ({
     onAddRequest, 
     onAddPurchaseOrder, 
     onAddAdjustment, 
+    onAddLocation,
+    onOpenScanner,
     isVisible, 
     currentUser,
     onLogout,
-    onOpenProfileModal
+    onOpenProfileModal,
+    isOnline,
+    pendingSyncCount,
+    syncConflictCount,
+    onOpenSyncStatus,
+    warehouses,
+    selectedWarehouseId,
+    onSelectWarehouse
 }) => {
   const [isUserMenuOpen, setIsUserMenuOpen] = useState(false);
   const userMenuRef = useRef<HTMLDivElement>(null);
@@ -46,13 +65,21 @@ const Header: React.FC<HeaderProps> = ({
     switch (currentView) {
       case 'dashboard': return 'Analytics Dashboard';
       case 'inventory': return 'Inventory Management';
+      case 'product': return 'Product Details';
+      case 'locations': return 'Bin Locations';
       case 'requests': return 'Request Management';
       case 'purchase-orders': return 'Purchase Order Management';
+      case 'replenishment': return 'Replenishment';
+      case 'expiry': return 'Expiry Monitoring';
+      case 'serials': return 'Serial Number Lookup';
       case 'adjustments': return 'Stock Adjustments';
+      case 'stocktakes': return 'Stocktakes';
       case 'vendors': return 'Vendor List';
       case 'reports': return 'Stock Movement Report';
       case 'admin': return 'Admin Panel';
       case 'audit-log': return 'Audit Log';
+      case 'recycle-bin': return 'Recycle Bin';
+      case 'settings': return 'Settings';
       default: return 'StockerZ';
     }
   };
@@ -73,6 +100,7 @@ const Header: React.FC<HeaderProps> = ({
 
     const buttons: { [key in View]?: { label: string; action: () => void; requiredRole: 'manage' | 'request' } } = {
         'inventory': { label: 'Add Product', action: onAddProduct, requiredRole: 'manage' },
+        'locations': { label: 'Add Location', action: onAddLocation, requiredRole: 'manage' },
         'vendors': { label: 'Add Vendor', action: onAddVendor, requiredRole: 'manage' },
         'requests': { label: 'New Request', action: onAddRequest, requiredRole: 'request' },
         'purchase-orders': { label: 'New Purchase Order', action: onAddPurchaseOrder, requiredRole: 'request' },
@@ -94,6 +122,21 @@ const Header: React.FC<HeaderProps> = ({
     );
   }
 
+  const getSyncIndicator = () => {
+    if (syncConflictCount > 0) {
+      return { label: `${syncConflictCount} sync conflict${syncConflictCount > 1 ? 's' : ''}`, icon: WarningIcon, className: 'bg-red-100 text-red-800' };
+    }
+    if (!isOnline) {
+      return { label: pendingSyncCount > 0 ? `Offline · ${pendingSyncCount} queued` : 'Offline', icon: SignalSlashIcon, className: 'bg-amber-100 text-amber-800' };
+    }
+    if (pendingSyncCount > 0) {
+      return { label: `${pendingSyncCount} waiting to sync`, icon: ArrowPathIcon, className: 'bg-sky-100 text-sky-800' };
+    }
+    return null;
+  };
+
+  const syncIndicator = getSyncIndicator();
+
   return (
     <header className={`h-20 bg-white flex-shrink-0 flex items-center justify-between px-8 border-b border-slate-200 sticky top-0 z-40 transition-transform duration-300 ease-in-out ${!isVisible ? '-translate-y-full' : 'translate-y-0'}`}>
       <div className="flex items-center">
@@ -103,6 +146,26 @@ const Header: React.FC<HeaderProps> = ({
         <h2 className="text-2xl font-bold text-slate-800">{title}</h2>
       </div>
       <div className="flex items-center gap-4">
+        {warehouses.length > 0 && (
+            <select
+                value={selectedWarehouseId}
+                onChange={(e) => onSelectWarehouse(e.target.value)}
+                aria-label="Warehouse"
+                className="border border-slate-300 rounded-lg py-2 pl-3 pr-8 text-sm font-semibold text-slate-700 bg-slate-50 focus:ring-primary-500 focus:border-primary-500"
+            >
+                <option value={ALL_WAREHOUSES}>All Warehouses</option>
+                {warehouses.map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
+            </select>
+        )}
+        {syncIndicator && (
+            <button onClick={onOpenSyncStatus} className={`flex items-center gap-2 px-3 py-1.5 rounded-full text-sm font-semibold ${syncIndicator.className}`}>
+                <syncIndicator.icon className="w-4 h-4" />
+                <span>{syncIndicator.label}</span>
+            </button>
+        )}
+        <button onClick={onOpenScanner} className="p-2 rounded-lg border border-slate-300 text-slate-600 hover:bg-slate-100 transition-colors" title="Scan a barcode" aria-label="Scan a barcode">
+            <BarcodeIcon className="w-6 h-6" />
+        </button>
         <div data-tour-id="header-actions">
             {getActionButton()}
         </div>
@@ -0,0 +1,121 @@
+import React, { useState, useMemo } from 'react';
+import { Product, StockMovement, ValuationMethod, Warehouse } from '../types';
+import { formatCurrency, formatNumber } from '../utils/helpers';
+import { getWarehouseName } from '../utils/warehouses';
+import { getBaseUnit } from '../utils/units';
+import { getValuationAsOf, ValuationLine, VALUATION_METHOD_DESCRIPTIONS } from '../utils/valuation';
+import { exportRows, ExportContext, ExportFormat } from '../utils/exports';
+import ExportMenu from './ExportMenu';
+import { MoneyIcon } from './icons/Icons';
+
+interface InventoryValuationReportProps {
+  movements: StockMovement[];
+  // Every product, including those in the recycle bin, which can still hold stock.
+  products: Product[];
+  warehouses: Warehouse[];
+  valuationMethod: ValuationMethod;
+  exportContext: ExportContext;
+}
+
+const today = () => {
+  const date = new Date();
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const InventoryValuationReport: React.FC<InventoryValuationReportProps> = ({ movements, products, warehouses, valuationMethod, exportContext }) => {
+  const [asOf, setAsOf] = useState(today);
+
+  const productsMap = useMemo(() => new Map(products.map(p => [p.id, p])), [products]);
+
+  const lines = useMemo(() => {
+    if (!asOf) return [];
+    return getValuationAsOf(movements, asOf, new Set(productsMap.keys())).sort((a, b) => b.value - a.value || a.productName.localeCompare(b.productName));
+  }, [movements, asOf, productsMap]);
+
+  const totalValue = useMemo(() => lines.reduce((sum, line) => sum + line.value, 0), [lines]);
+
+  const getUnitCost = (line: ValuationLine): number | null => line.quantity > 0 ? line.value / line.quantity : null;
+
+  const handleExport = (format: ExportFormat) => {
+    exportRows<ValuationLine>(format, {
+      title: 'Inventory Valuation',
+      fileName: 'inventory_valuation',
+      columns: [
+        { header: 'Product Name', value: line => line.productName },
+        { header: 'SKU', value: line => productsMap.get(line.productId)?.sku || '' },
+        { header: 'Warehouse', value: line => getWarehouseName(warehouses, line.warehouseId) },
+        { header: 'Quantity', value: line => line.quantity, align: 'right' },
+        { header: 'Unit', value: line => getBaseUnit(productsMap.get(line.productId)) },
+        { header: 'Unit Cost', value: line => { const cost = getUnitCost(line); return cost === null ? '' : Math.round(cost * 100) / 100; }, align: 'right' },
+        { header: 'Value', value: line => Math.round(line.value * 100) / 100, align: 'right' },
+      ],
+      rows: lines,
+      filters: [...exportContext.scope, `As of: ${asOf}`, `Method: ${valuationMethod}`],
+      exportedBy: exportContext.exportedBy,
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg overflow-hidden">
+      <div className="p-4 md:p-6 border-b border-gray-200 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-bold text-gray-800">Inventory Valuation</h2>
+          <p className="text-sm text-gray-500">
+            <span className="font-semibold text-gray-700">{valuationMethod}:</span> {VALUATION_METHOD_DESCRIPTIONS[valuationMethod]}
+          </p>
+        </div>
+        <div className="flex items-end gap-4">
+          <div>
+            <label htmlFor="valuationAsOf" className="block text-sm font-medium text-gray-600 mb-1">As of</label>
+            <input type="date" id="valuationAsOf" value={asOf} max={today()} onChange={e => setAsOf(e.target.value)} className="border rounded-lg py-2 px-3 bg-gray-700 text-white border-gray-600 focus:ring-primary-500 focus:border-primary-500" />
+          </div>
+          <div className="text-right">
+            <p className="text-sm font-medium text-gray-600">Total Value</p>
+            <p className="text-2xl font-bold text-gray-800">{formatCurrency(totalValue, 'IDR')}</p>
+          </div>
+          <ExportMenu onExport={handleExport} rowCount={lines.length} />
+        </div>
+      </div>
+      <div className="overflow-x-auto max-h-96">
+        {lines.length === 0 ? (
+          <div className="text-center py-16 text-gray-500">
+            <MoneyIcon className="w-12 h-12 mx-auto text-gray-300 mb-2" />
+            <p className="font-semibold">{asOf ? 'No stock on hand on this date.' : 'Choose a date to value the inventory.'}</p>
+          </div>
+        ) : (
+          <table className="w-full text-sm text-left text-gray-600">
+            <thead className="text-xs text-gray-700 uppercase bg-gray-50 sticky top-0">
+              <tr>
+                <th scope="col" className="px-6 py-3">Product</th>
+                <th scope="col" className="px-6 py-3">Warehouse</th>
+                <th scope="col" className="px-6 py-3 text-right">Quantity</th>
+                <th scope="col" className="px-6 py-3 text-right">Unit Cost</th>
+                <th scope="col" className="px-6 py-3 text-right">Value</th>
+              </tr>
+            </thead>
+            <tbody>
+              {lines.map(line => {
+                const product = productsMap.get(line.productId);
+                const unitCost = getUnitCost(line);
+                return (
+                  <tr key={`${line.productId}|${line.warehouseId}`} className="border-b bg-white hover:bg-gray-50">
+                    <td className="px-6 py-4">
+                      <div className="font-medium text-gray-900">{line.productName}</div>
+                      {product && <div className="text-xs text-gray-500">{product.sku}</div>}
+                    </td>
+                    <td className="px-6 py-4">{getWarehouseName(warehouses, line.warehouseId)}</td>
+                    <td className="px-6 py-4 text-right">{formatNumber(line.quantity)} <span className="text-xs text-gray-500">{getBaseUnit(product)}</span></td>
+                    <td className="px-6 py-4 text-right">{unitCost === null ? 'N/A' : formatCurrency(unitCost, 'IDR')}</td>
+                    <td className="px-6 py-4 text-right font-semibold text-gray-900">{formatCurrency(line.value, 'IDR')}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default InventoryValuationReport;
@@ -0,0 +1,161 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { KitAssemblyFormErrors, Product, ProductStock, Warehouse } from '../types';
+import { formatNumber } from '../utils/helpers';
+import { getAssemblableKits } from '../utils/kits';
+import { getBaseUnit, formatQuantity } from '../utils/units';
+import { getWarehouseQuantity } from '../utils/warehouses';
+import { LoadingIcon } from './icons/Icons';
+
+export type KitAssemblyMode = 'assemble' | 'disassemble';
+
+interface KitAssemblyModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (mode: KitAssemblyMode, warehouseId: string, quantity: number) => Promise<void>;
+  kit: Product;
+  products: Product[];
+  warehouses: Warehouse[];
+  productStock: ProductStock[];
+  defaultWarehouseId?: string;
+}
+
+const KitAssemblyModal: React.FC<KitAssemblyModalProps> = ({ isOpen, onClose, onConfirm, kit, products, warehouses, productStock, defaultWarehouseId }) => {
+  const [mode, setMode] = useState<KitAssemblyMode>('assemble');
+  const [warehouseId, setWarehouseId] = useState('');
+  const [quantity, setQuantity] = useState('');
+  const [errors, setErrors] = useState<KitAssemblyFormErrors>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setMode('assemble');
+      setWarehouseId(defaultWarehouseId || '');
+      setQuantity('');
+      setErrors({});
+    }
+  }, [isOpen, defaultWarehouseId]);
+
+  const kitsInStock = warehouseId ? getWarehouseQuantity(productStock, kit.id, warehouseId) : 0;
+  const assemblable = warehouseId ? getAssemblableKits(kit, productStock, warehouseId) : 0;
+  const maxQuantity = mode === 'assemble' ? assemblable : kitsInStock;
+
+  const components = useMemo(() => (kit.kitComponents || []).map(c => {
+    const product = products.find(p => p.id === c.productId);
+    return {
+      ...c,
+      name: product?.name || 'Unknown product',
+      unit: getBaseUnit(product),
+      available: warehouseId ? getWarehouseQuantity(productStock, c.productId, warehouseId) : 0,
+    };
+  }), [kit, products, productStock, warehouseId]);
+
+  const validate = (): KitAssemblyFormErrors => {
+    const newErrors: KitAssemblyFormErrors = {};
+    if (!warehouseId) newErrors.warehouseId = "A warehouse must be selected.";
+    const numQuantity = Number(quantity);
+    if (!quantity) newErrors.quantity = "Quantity cannot be empty.";
+    else if (!Number.isInteger(numQuantity) || numQuantity <= 0) newErrors.quantity = "Quantity must be a whole number greater than 0.";
+    else if (warehouseId && numQuantity > maxQuantity) {
+      newErrors.quantity = mode === 'assemble'
+        ? `The components in stock make at most ${formatNumber(assemblable)} kits.`
+        : `Only ${formatNumber(kitsInStock)} assembled kits are in stock.`;
+    }
+    return newErrors;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const newErrors = validate();
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) return;
+
+    setIsSaving(true);
+    try {
+        await onConfirm(mode, warehouseId, Number(quantity));
+    } catch (error) {
+        // Parent handles toast
+    } finally {
+        setIsSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const numQuantity = Number(quantity) > 0 ? Number(quantity) : 0;
+
+  return (
+    <div onClick={onClose} className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4" role="dialog" aria-modal="true">
+      <div onClick={(e) => e.stopPropagation()} className="bg-white rounded-xl shadow-2xl w-full max-w-lg max-h-full overflow-y-auto">
+        <form onSubmit={handleSubmit} noValidate>
+          <div className="p-6 border-b border-gray-200">
+            <h2 className="text-xl font-bold text-gray-800">Assemble Kits</h2>
+            <p className="text-sm text-gray-500 mt-1">{kit.name} · {kit.sku}</p>
+          </div>
+          <div className="p-6 grid grid-cols-1 gap-y-4">
+            <div className="grid grid-cols-2 gap-2" role="radiogroup" aria-label="Action">
+              {(['assemble', 'disassemble'] as KitAssemblyMode[]).map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  role="radio"
+                  aria-checked={mode === option}
+                  onClick={() => { setMode(option); setErrors({}); }}
+                  className={`px-3 py-2 text-sm font-semibold rounded-lg border ${mode === option ? 'bg-primary-50 border-primary-500 text-primary-700' : 'bg-white border-gray-300 text-gray-600 hover:bg-gray-50'}`}
+                >
+                  {option === 'assemble' ? 'Assemble' : 'Disassemble'}
+                </button>
+              ))}
+            </div>
+            <div>
+              <label htmlFor="kitWarehouseId" className="block text-sm font-medium text-gray-700 mb-1">Warehouse</label>
+              <select id="kitWarehouseId" value={warehouseId} onChange={e => { setWarehouseId(e.target.value); setErrors({}); }} required className={`w-full border rounded-lg p-2 bg-gray-50 border-gray-300 focus:ring-primary-500 focus:border-primary-500 ${errors.warehouseId ? 'border-red-500' : 'border-gray-300'}`}>
+                <option value="" disabled>-- Select a Warehouse --</option>
+                {warehouses.map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
+              </select>
+              {errors.warehouseId && <p className="text-sm text-red-600 mt-1">{errors.warehouseId}</p>}
+            </div>
+            <div>
+              <label htmlFor="kitQuantity" className="block text-sm font-medium text-gray-700 mb-1">Kits to {mode === 'assemble' ? 'assemble' : 'take apart'}</label>
+              <input type="number" id="kitQuantity" value={quantity} onChange={e => setQuantity(e.target.value)} min="1" required className={`w-full border rounded-lg p-2 bg-gray-50 border-gray-300 focus:ring-primary-500 focus:border-primary-500 ${errors.quantity ? 'border-red-500' : 'border-gray-300'}`} />
+              {errors.quantity && <p className="text-sm text-red-600 mt-1">{errors.quantity}</p>}
+              {warehouseId && !errors.quantity && (
+                <p className="text-xs text-gray-500 mt-1">{formatNumber(kitsInStock)} assembled in stock, {formatNumber(assemblable)} more can be assembled.</p>
+              )}
+            </div>
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-1">Components</p>
+              <table className="w-full text-sm text-left text-gray-600 border border-gray-200 rounded-lg">
+                <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+                  <tr>
+                    <th scope="col" className="px-3 py-2">Product</th>
+                    <th scope="col" className="px-3 py-2 text-right">Per Kit</th>
+                    <th scope="col" className="px-3 py-2 text-right">{mode === 'assemble' ? 'Used' : 'Returned'}</th>
+                    <th scope="col" className="px-3 py-2 text-right">In Stock</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {components.map(c => (
+                    <tr key={c.productId} className="border-t border-gray-200">
+                      <td className="px-3 py-2 font-medium text-gray-900">{c.name}</td>
+                      <td className="px-3 py-2 text-right">{formatQuantity(c.quantity, c.unit)}</td>
+                      <td className="px-3 py-2 text-right">{formatNumber(c.quantity * numQuantity)}</td>
+                      <td className={`px-3 py-2 text-right ${mode === 'assemble' && c.available < c.quantity * numQuantity ? 'font-semibold text-red-600' : ''}`}>{formatNumber(c.available)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+          <div className="p-6 bg-gray-50 border-t border-gray-200 flex justify-end gap-3 rounded-b-xl">
+            <button type="button" onClick={onClose} disabled={isSaving} className="px-4 py-2 bg-white border border-gray-300 text-gray-700 font-semibold rounded-lg hover:bg-gray-100 disabled:opacity-50">Cancel</button>
+            <button type="submit" disabled={isSaving} className="w-40 flex justify-center items-center px-4 py-2 bg-primary-600 text-white font-semibold rounded-lg hover:bg-primary-700 disabled:bg-primary-400">
+              {isSaving ? <LoadingIcon className="w-5 h-5 animate-spin" /> : (mode === 'assemble' ? 'Assemble' : 'Disassemble')}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default KitAssemblyModal;
@@ -0,0 +1,177 @@
+import React, { useState, useMemo } from 'react';
+import { BinLocation, Product, ProductStock, StockReservation, User, Warehouse } from '../types';
+import { formatNumber } from '../utils/helpers';
+import { getBinUsage } from '../utils/locations';
+import { getWarehouseName, getWarehouseQuantity } from '../utils/warehouses';
+import { getReservedQuantity } from '../utils/reservations';
+import { SearchIcon, MapPinIcon, EditIcon, PrinterIcon } from './icons/Icons';
+
+interface LocationListProps {
+  binLocations: BinLocation[];
+  products: Product[];
+  productStock: ProductStock[];
+  stockReservations: StockReservation[];
+  warehouses: Warehouse[];
+  currentUser: User;
+  onEditLocation: (binLocation: BinLocation) => void;
+  onPrintLabels: (binLocations: BinLocation[]) => void;
+}
+
+const UsageBar: React.FC<{ used: number; capacity?: number }> = ({ used, capacity }) => {
+  if (!capacity) return <span className="text-gray-500">{formatNumber(used)} units</span>;
+  const percent = Math.min(100, Math.round((used / capacity) * 100));
+  const color = used > capacity ? 'bg-red-500' : percent >= 90 ? 'bg-yellow-500' : 'bg-green-500';
+  return (
+    <div className="min-w-[8rem]">
+      <div className="flex justify-between text-xs mb-1">
+        <span className={used > capacity ? 'font-semibold text-red-600' : 'text-gray-600'}>{formatNumber(used)} / {formatNumber(capacity)}</span>
+        <span className="text-gray-500">{Math.round((used / capacity) * 100)}%</span>
+      </div>
+      <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+        <div className={`h-2 ${color}`} style={{ width: `${percent}%` }}></div>
+      </div>
+    </div>
+  );
+};
+
+const LocationList: React.FC<LocationListProps> = ({ binLocations, products, productStock, stockReservations, warehouses, currentUser, onEditLocation, onPrintLabels }) => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const canPerformActions = useMemo(() => ['Supervisor', 'Manager', 'Super Admin'].includes(currentUser.role), [currentUser.role]);
+
+  const productsByBin = useMemo(() => {
+    const map = new Map<string, Product[]>();
+    products.forEach(p => {
+      if (!p.locationId) return;
+      map.set(p.locationId, [...(map.get(p.locationId) || []), p]);
+    });
+    return map;
+  }, [products]);
+
+  const filteredBins = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    if (!term) return binLocations;
+    return binLocations.filter(b =>
+      b.code.toLowerCase().includes(term) ||
+      (productsByBin.get(b.id) || []).some(p => p.name.toLowerCase().includes(term) || p.sku.toLowerCase().includes(term))
+    );
+  }, [binLocations, productsByBin, searchTerm]);
+
+  // Zones in each warehouse, in code order.
+  const zones = useMemo(() => {
+    const groups = new Map<string, { warehouseId: string; zone: string; bins: BinLocation[] }>();
+    [...filteredBins].sort((a, b) => a.code.localeCompare(b.code, undefined, { numeric: true })).forEach(bin => {
+      const key = `${bin.warehouseId}|${bin.zone}`;
+      const group = groups.get(key) || { warehouseId: bin.warehouseId, zone: bin.zone, bins: [] };
+      group.bins.push(bin);
+      groups.set(key, group);
+    });
+    return [...groups.values()].sort((a, b) =>
+      getWarehouseName(warehouses, a.warehouseId).localeCompare(getWarehouseName(warehouses, b.warehouseId)) || a.zone.localeCompare(b.zone, undefined, { numeric: true })
+    );
+  }, [filteredBins, warehouses]);
+
+  const unassignedProducts = useMemo(() => products.filter(p => !p.locationId), [products]);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-4 md:p-6 rounded-xl shadow-lg flex flex-col md:flex-row md:items-center gap-4">
+        <div className="relative flex-1">
+          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+            <SearchIcon className="h-5 w-5 text-gray-400" />
+          </div>
+          <input type="text" value={searchTerm} onChange={e => setSearchTerm(e.target.value)} className="w-full pl-10 pr-4 py-2 border rounded-lg bg-gray-700 text-white border-gray-600 placeholder-gray-400 focus:ring-primary-500 focus:border-primary-500" placeholder="Search location code, product or SKU..." aria-label="Search locations"/>
+        </div>
+        <button onClick={() => onPrintLabels(filteredBins)} disabled={filteredBins.length === 0} className="flex items-center justify-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-sm text-gray-600 hover:bg-gray-100 transition-colors disabled:opacity-50">
+          <PrinterIcon className="w-5 h-5" />
+          <span>Print Labels ({filteredBins.length})</span>
+        </button>
+      </div>
+
+      {zones.length === 0 && (
+        <div className="bg-white rounded-xl shadow-lg text-center py-16 text-gray-500">
+          <MapPinIcon className="w-12 h-12 mx-auto text-gray-300 mb-2" />
+          <p className="font-semibold">No bin locations found.</p>
+          <p className="text-sm">{searchTerm ? 'Try a different search term.' : 'Add a location to start organising stock by shelf.'}</p>
+        </div>
+      )}
+
+      {zones.map(group => (
+        <div key={`${group.warehouseId}|${group.zone}`} className="bg-white rounded-xl shadow-lg overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+            <div>
+              <h2 className="text-lg font-bold text-gray-800">Zone {group.zone}</h2>
+              <p className="text-sm text-gray-500">{getWarehouseName(warehouses, group.warehouseId)} · {group.bins.length} location{group.bins.length === 1 ? '' : 's'}</p>
+            </div>
+            <button onClick={() => onPrintLabels(group.bins)} className="p-2 text-gray-500 hover:text-primary-600 hover:bg-gray-100 rounded-full" title="Print labels for this zone">
+              <PrinterIcon className="w-5 h-5" />
+            </button>
+          </div>
+          <table className="w-full text-sm text-left text-gray-600">
+            <thead className="text-xs text-gray-700 uppercase bg-gray-50 hidden md:table-header-group">
+              <tr>
+                <th scope="col" className="px-6 py-3">Location</th>
+                <th scope="col" className="px-6 py-3">Products</th>
+                <th scope="col" className="px-6 py-3">Usage</th>
+                <th scope="col" className="px-6 py-3 text-center">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {group.bins.map(bin => {
+                const binProducts = productsByBin.get(bin.id) || [];
+                const used = getBinUsage(bin, products, productStock);
+                return (
+                  <tr key={bin.id} className="bg-white border-b hover:bg-gray-50 block md:table-row">
+                    <td className="px-6 py-4 font-mono font-semibold text-gray-900 block md:table-cell align-top">{bin.code}</td>
+                    <td className="px-6 py-4 block md:table-cell align-top">
+                      {binProducts.length === 0 ? <span className="italic text-gray-400">Empty</span> : (
+                        <ul className="space-y-1">
+                          {binProducts.map(p => {
+                            const reserved = getReservedQuantity(stockReservations, p.id, bin.warehouseId);
+                            return (
+                              <li key={p.id} className="flex justify-between gap-4">
+                                <span className="text-gray-900">{p.name} <span className="text-xs text-gray-500">({p.sku})</span></span>
+                                <span className="font-semibold whitespace-nowrap">
+                                  {formatNumber(getWarehouseQuantity(productStock, p.id, bin.warehouseId))}
+                                  {reserved > 0 && <span className="font-normal text-xs text-gray-500"> ({formatNumber(reserved)} reserved)</span>}
+                                </span>
+                              </li>
+                            );
+                          })}
+                        </ul>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 block md:table-cell align-top"><UsageBar used={used} capacity={bin.capacity} /></td>
+                    <td className="px-6 py-4 text-center block md:table-cell align-top whitespace-nowrap">
+                      <button onClick={() => onPrintLabels([bin])} className="p-2 text-gray-500 hover:text-primary-600 hover:bg-gray-100 rounded-full" title="Print Label">
+                        <PrinterIcon className="w-5 h-5" />
+                      </button>
+                      {canPerformActions && (
+                        <button onClick={() => onEditLocation(bin)} className="p-2 text-gray-500 hover:text-primary-600 hover:bg-gray-100 rounded-full" title="Edit Location">
+                          <EditIcon className="w-5 h-5" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      ))}
+
+      {unassignedProducts.length > 0 && !searchTerm && (
+        <div className="bg-white rounded-xl shadow-lg p-6">
+          <h2 className="text-lg font-bold text-gray-800">Without a Location</h2>
+          <p className="text-sm text-gray-500 mb-3">Edit these products to assign them to a bin.</p>
+          <ul className="text-sm text-gray-700 divide-y">
+            {unassignedProducts.map(p => (
+              <li key={p.id} className="py-2 flex justify-between"><span>{p.name} <span className="text-xs text-gray-500">({p.sku})</span></span><span className="font-semibold">{formatNumber(p.quantity)}</span></li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LocationList;
@@ -1,9 +1,8 @@
 import React, { useState } from 'react';
 import { User } from '../types';
-import { supabase } from '../utils/supabase';
+import { db } from '../utils/db';
 import { BoxIcon, LoadingIcon } from './icons/Icons';
 import Footer from './Footer';
-import { AuthError } from '@supabase/supabase-js';
 
 interface LoginPageProps {
   // onLogin prop is no longer needed as App.tsx listens to auth state changes
@@ -27,27 +26,12 @@ const LoginPage: React.FC<LoginPageProps> = () => {
     }
 
     try {
-      // Supabase Auth uses email for login. We instruct users to use their username
-      // as the email when signing up via the app or dashboard.
-      const { data: authData, error: authError } = await supabase.auth.signInWithPassword({
-        email: username,
-        password: password,
-      });
-
-      if (authError) {
-         if (authError instanceof AuthError) {
-          setError(authError.message);
-        } else {
-          throw authError;
-        }
-      } else if (authData.user) {
-        // If login is successful, the onAuthStateChange listener in App.tsx
-        // will handle fetching the profile and setting the user state.
-        // No need to call onLogin here.
-      }
-    } catch (err) {
+      // If login is successful, the onAuthStateChange listener in App.tsx
+      // will handle fetching the profile and setting the user state.
+      await db.auth.signIn(username, password);
+    } catch (err: any) {
       console.error("Login failed:", err);
-      setError('An error occurred during login. Please check the console.');
+      setError(err?.message || 'An error occurred during login. Please check the console.');
     } finally {
       setIsLoading(false);
     }
@@ -0,0 +1,379 @@
+import React, { useState, useMemo } from 'react';
+import {
+  AuditLog, CategoryFieldSchema, CategoryStockLevels, Product, ProductPrice, ProductStock, PurchaseOrder, Request, StockAdjustment, StockMovement,
+  StockReservation, User, Vendor, Warehouse,
+} from '../types';
+import { formatCurrency, formatDate, formatNumber } from '../utils/helpers';
+import { ALL_WAREHOUSES, getWarehouseName } from '../utils/warehouses';
+import { getBaseUnit, formatDocumentQuantity } from '../utils/units';
+import { getReservedQuantity } from '../utils/reservations';
+import { OPEN_PURCHASE_ORDER_STATUSES, STOCK_STATUS_BADGES, STOCK_STATUS_LABELS, getStockStatus, resolveStockLevels } from '../utils/stockLevels';
+import { OPEN_REQUEST_STATUSES, getStockCard, isProductAuditEntry } from '../utils/productActivity';
+import { getCategoryFields, formatCustomFieldValue } from '../utils/customFields';
+import ProductPriceHistory from './ProductPriceHistory';
+import { EditIcon, InventoryIcon } from './icons/Icons';
+
+interface ProductDetailPageProps {
+  product: Product;
+  products: Product[];
+  vendors: Vendor[];
+  warehouses: Warehouse[];
+  categoryStockLevels: CategoryStockLevels[];
+  categoryFieldSchemas: CategoryFieldSchema[];
+  productStock: ProductStock[];
+  stockReservations: StockReservation[];
+  requests: Request[];
+  purchaseOrders: PurchaseOrder[];
+  stockAdjustments: StockAdjustment[];
+  stockMovements: StockMovement[];
+  auditLogs: AuditLog[];
+  priceHistory: ProductPrice[]; // The product's prices, oldest first
+  currentUser: User;
+  onBack: () => void;
+  onEdit: (product: Product) => void;
+  onViewRequest: (request: Request) => void;
+  onViewPurchaseOrder: (po: PurchaseOrder) => void;
+}
+
+const DetailItem: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div>
+    <p className="text-sm font-medium text-gray-500">{label}</p>
+    <div className="text-gray-800 font-semibold mt-1">{children}</div>
+  </div>
+);
+
+const Section: React.FC<{ title: string; count?: number; actions?: React.ReactNode; children: React.ReactNode }> = ({ title, count, actions, children }) => (
+  <div className="bg-white rounded-xl shadow-lg overflow-hidden">
+    <div className="p-4 md:px-6 border-b border-gray-200 flex items-center justify-between gap-4">
+      <h3 className="text-lg font-semibold text-gray-800">
+        {title}
+        {count !== undefined && <span className="ml-2 text-sm font-medium text-gray-500">({formatNumber(count)})</span>}
+      </h3>
+      {actions}
+    </div>
+    {children}
+  </div>
+);
+
+const EmptyRow: React.FC<{ message: string }> = ({ message }) => (
+  <p className="text-center text-sm text-gray-500 py-8">{message}</p>
+);
+
+const STATUS_BADGES: Record<string, string> = {
+  'Pending Approval': 'bg-amber-100 text-amber-800',
+  Approved: 'bg-green-100 text-green-800',
+};
+
+const ProductDetailPage: React.FC<ProductDetailPageProps> = ({
+  product, products, vendors, warehouses, categoryStockLevels, categoryFieldSchemas, productStock, stockReservations, requests, purchaseOrders,
+  stockAdjustments, stockMovements, auditLogs, priceHistory, currentUser, onBack, onEdit, onViewRequest, onViewPurchaseOrder,
+}) => {
+  const [cardWarehouseId, setCardWarehouseId] = useState(ALL_WAREHOUSES);
+
+  const canPerformActions = ['Supervisor', 'Manager', 'Super Admin'].includes(currentUser.role);
+  // Viewers cannot open requests, purchase orders or adjustments elsewhere, so the page leaves them out too.
+  const canSeeDocuments = currentUser.role !== 'Viewer';
+  const unit = getBaseUnit(product);
+
+  const stockLevels = useMemo(() => resolveStockLevels(product, categoryStockLevels), [product, categoryStockLevels]);
+  const status = getStockStatus(product.quantity, stockLevels);
+
+  const stockByWarehouse = useMemo(() => productStock
+    .filter(s => s.productId === product.id)
+    .map(s => ({ ...s, reserved: getReservedQuantity(stockReservations, product.id, s.warehouseId) }))
+    .sort((a, b) => getWarehouseName(warehouses, a.warehouseId).localeCompare(getWarehouseName(warehouses, b.warehouseId))),
+  [productStock, stockReservations, warehouses, product.id]);
+
+  const productRequests = useMemo(() => requests.filter(r => r.productId === product.id), [requests, product.id]);
+  const productPurchaseOrders = useMemo(() => purchaseOrders.filter(po => po.productId === product.id), [purchaseOrders, product.id]);
+
+  const openRequests = useMemo(() => productRequests.filter(r => OPEN_REQUEST_STATUSES.includes(r.status)), [productRequests]);
+  const openPurchaseOrders = useMemo(() => productPurchaseOrders.filter(po => OPEN_PURCHASE_ORDER_STATUSES.includes(po.status)), [productPurchaseOrders]);
+
+  const adjustments = useMemo(() => stockAdjustments
+    .filter(a => a.productId === product.id)
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()),
+  [stockAdjustments, product.id]);
+
+  const auditEntries = useMemo(() => {
+    const documentIds = new Set([...productRequests.map(r => r.id), ...productPurchaseOrders.map(po => po.id)]);
+    return auditLogs.filter(log => isProductAuditEntry(log, product, documentIds));
+  }, [auditLogs, product, productRequests, productPurchaseOrders]);
+
+  // Newest first for reading; the balances are still the running totals in date order.
+  const stockCard = useMemo(() => getStockCard(stockMovements, product.id, cardWarehouseId).reverse(), [stockMovements, product.id, cardWarehouseId]);
+
+  const receipts = useMemo(() => productPurchaseOrders
+    .filter(po => po.status === 'Received' && po.receivedDate && po.unitCost !== undefined && po.unitCost !== null)
+    .sort((a, b) => new Date(a.receivedDate!).getTime() - new Date(b.receivedDate!).getTime()),
+  [productPurchaseOrders]);
+
+  const totalValue = stockByWarehouse.reduce((sum, s) => sum + (s.stockValue || 0), 0);
+  const averageCost = product.quantity > 0 ? totalValue / product.quantity : null;
+
+  const requestsMap = useMemo(() => new Map(productRequests.map(r => [r.id, r])), [productRequests]);
+  const purchaseOrdersMap = useMemo(() => new Map(productPurchaseOrders.map(po => [po.id, po])), [productPurchaseOrders]);
+
+  const getReference = (movement: StockMovement): React.ReactNode => {
+    const request = movement.referenceType === 'request' && movement.referenceId ? requestsMap.get(movement.referenceId) : undefined;
+    if (request && canSeeDocuments) {
+      return <button onClick={() => onViewRequest(request)} className="text-primary-600 hover:underline">Request for {request.requestingDivision}</button>;
+    }
+    const po = movement.referenceType === 'purchase_order' && movement.referenceId ? purchaseOrdersMap.get(movement.referenceId) : undefined;
+    if (po && canSeeDocuments) {
+      return <button onClick={() => onViewPurchaseOrder(po)} className="text-primary-600 hover:underline">PO from {vendors.find(v => v.id === po.vendorId)?.name || 'Unknown Vendor'}</button>;
+    }
+    return movement.notes || '';
+  };
+
+  const supplier = vendors.find(v => v.id === product.supplierId)?.name || 'N/A';
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-lg p-4 md:p-6">
+        <button onClick={onBack} className="text-sm font-semibold text-primary-600 hover:text-primary-700 mb-4">&larr; All Products</button>
+        <div className="flex flex-col md:flex-row gap-6">
+          {product.imageUrl ? (
+            <img src={product.imageUrl} alt={product.name} className="w-32 h-32 object-cover rounded-lg bg-slate-100 flex-shrink-0" />
+          ) : (
+            <div className="w-32 h-32 flex items-center justify-center bg-slate-100 rounded-lg flex-shrink-0">
+              <InventoryIcon className="w-12 h-12 text-slate-400" />
+            </div>
+          )}
+          <div className="flex-grow">
+            <div className="flex flex-wrap items-center gap-3">
+              <h2 className="text-2xl font-bold text-gray-800">{product.name}</h2>
+              <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${STOCK_STATUS_BADGES[status]}`}>{STOCK_STATUS_LABELS[status]}</span>
+              {product.isSerialized && <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-slate-100 text-slate-600">Serialized</span>}
+              {product.isKit && <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-violet-100 text-violet-700">Kit</span>}
+              {product.archivedAt && <span className="px-2 py-0.5 text-xs font-semibold rounded-full bg-red-100 text-red-700">In Recycle Bin</span>}
+            </div>
+            <p className="text-sm text-gray-500 mt-1">
+              Last updated {formatDate(product.lastUpdated)}{product.lastModifiedBy && <> by <span className="capitalize">{product.lastModifiedBy}</span></>}
+              {product.archivedAt && <> · Deleted {formatDate(product.archivedAt)}{product.archivedBy && <> by <span className="capitalize">{product.archivedBy}</span></>}</>}
+            </p>
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-x-6 gap-y-5 mt-4">
+              <DetailItem label="SKU">{product.sku}</DetailItem>
+              <DetailItem label="Category">{product.category}</DetailItem>
+              <DetailItem label="Supplier">{supplier}</DetailItem>
+              <DetailItem label="Bin Location">{product.location || 'N/A'}</DetailItem>
+              <DetailItem label="Quantity">{formatNumber(product.quantity)} {unit}</DetailItem>
+              <DetailItem label={`Price (per ${unit})`}>{formatCurrency(product.price, 'IDR')}</DetailItem>
+              <DetailItem label="Average Cost">{averageCost === null ? 'N/A' : formatCurrency(averageCost, 'IDR')}</DetailItem>
+              <DetailItem label="Stock Value">{formatCurrency(totalValue, 'IDR')}</DetailItem>
+              <DetailItem label="Reorder Point">{formatNumber(stockLevels.reorderPoint)}</DetailItem>
+              <DetailItem label="Reorder Quantity">{formatNumber(stockLevels.reorderQuantity)}</DetailItem>
+              <DetailItem label="Minimum (Safety)">{formatNumber(stockLevels.minStock)}</DetailItem>
+              <DetailItem label="Maximum">{stockLevels.maxStock === undefined ? 'None' : formatNumber(stockLevels.maxStock)}</DetailItem>
+              {product.unitConversions && product.unitConversions.length > 0 && (
+                <DetailItem label="Units">{product.unitConversions.map(c => `${c.unit} = ${formatNumber(c.factor)} ${unit}`).join(', ')}</DetailItem>
+              )}
+              {product.expiryDate && <DetailItem label="Expiry Date">{formatDate(product.expiryDate)}</DetailItem>}
+              {getCategoryFields(categoryFieldSchemas, product.category).map(field => (
+                <DetailItem key={field.key} label={field.label}>{formatCustomFieldValue(field, product.customFields?.[field.key]) || 'N/A'}</DetailItem>
+              ))}
+              {product.isKit && product.kitComponents && product.kitComponents.length > 0 && (
+                <div className="col-span-2">
+                  <DetailItem label="Kit Components">
+                    {product.kitComponents.map(c => {
+                      const component = products.find(p => p.id === c.productId);
+                      return `${formatNumber(c.quantity)} ${getBaseUnit(component)} ${component?.name || 'Unknown product'}`;
+                    }).join(', ')}
+                  </DetailItem>
+                </div>
+              )}
+            </div>
+          </div>
+          {canPerformActions && !product.archivedAt && (
+            <div className="flex-shrink-0">
+              <button onClick={() => onEdit(product)} className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-sm font-semibold text-gray-600 hover:bg-gray-100">
+                <EditIcon className="w-5 h-5" />
+                <span>Edit</span>
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <Section title="Stock by Location" count={stockByWarehouse.length}>
+        {stockByWarehouse.length === 0 ? <EmptyRow message="This product has no stock in any warehouse." /> : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left text-gray-600">
+              <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-6 py-3">Warehouse</th>
+                  <th scope="col" className="px-6 py-3 text-right">On Hand</th>
+                  <th scope="col" className="px-6 py-3 text-right">Reserved</th>
+                  <th scope="col" className="px-6 py-3 text-right">Available</th>
+                  <th scope="col" className="px-6 py-3 text-right">Value</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stockByWarehouse.map(s => (
+                  <tr key={s.id} className="border-t">
+                    <td className="px-6 py-3 font-medium text-gray-900">{getWarehouseName(warehouses, s.warehouseId)}</td>
+                    <td className="px-6 py-3 text-right">{formatNumber(s.quantity)} <span className="text-xs text-gray-500">{unit}</span></td>
+                    <td className="px-6 py-3 text-right">{formatNumber(s.reserved)}</td>
+                    <td className="px-6 py-3 text-right font-semibold text-gray-900">{formatNumber(s.quantity - s.reserved)}</td>
+                    <td className="px-6 py-3 text-right">{formatCurrency(s.stockValue || 0, 'IDR')}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Section>
+
+      {canSeeDocuments && (
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+          <Section title="Open Requests" count={openRequests.length}>
+            {openRequests.length === 0 ? <EmptyRow message="No open requests." /> : (
+              <ul className="divide-y">
+                {openRequests.map(request => (
+                  <li key={request.id}>
+                    <button onClick={() => onViewRequest(request)} className="w-full text-left px-6 py-3 hover:bg-gray-50 flex items-center justify-between gap-4">
+                      <div>
+                        <p className="font-medium text-gray-900">{request.requestingDivision}</p>
+                        <p className="text-xs text-gray-500">{formatDate(request.requestDate)} · {getWarehouseName(warehouses, request.warehouseId)}</p>
+                      </div>
+                      <div className="text-right">
+                        <p className="font-semibold text-gray-800">{formatDocumentQuantity(request)}</p>
+                        <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${STATUS_BADGES[request.status]}`}>{request.status}</span>
+                      </div>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </Section>
+          <Section title="Open Purchase Orders" count={openPurchaseOrders.length}>
+            {openPurchaseOrders.length === 0 ? <EmptyRow message="No open purchase orders." /> : (
+              <ul className="divide-y">
+                {openPurchaseOrders.map(po => (
+                  <li key={po.id}>
+                    <button onClick={() => onViewPurchaseOrder(po)} className="w-full text-left px-6 py-3 hover:bg-gray-50 flex items-center justify-between gap-4">
+                      <div>
+                        <p className="font-medium text-gray-900">{vendors.find(v => v.id === po.vendorId)?.name || 'Unknown Vendor'}</p>
+                        <p className="text-xs text-gray-500">{formatDate(po.requestDate)} · {getWarehouseName(warehouses, po.warehouseId)}</p>
+                      </div>
+                      <div className="text-right">
+                        <p className="font-semibold text-gray-800">{formatDocumentQuantity(po)}</p>
+                        <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${STATUS_BADGES[po.status]}`}>{po.status}</span>
+                      </div>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </Section>
+        </div>
+      )}
+
+      <Section
+        title="Stock Card"
+        count={stockCard.length}
+        actions={
+          <select value={cardWarehouseId} onChange={e => setCardWarehouseId(e.target.value)} aria-label="Stock card warehouse" className="border rounded-lg py-2 px-3 text-sm bg-gray-700 text-white border-gray-600 focus:ring-primary-500 focus:border-primary-500">
+            <option value={ALL_WAREHOUSES}>All Warehouses</option>
+            {warehouses.map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
+          </select>
+        }
+      >
+        {stockCard.length === 0 ? <EmptyRow message="No stock movements recorded." /> : (
+          <div className="overflow-x-auto max-h-[32rem]">
+            <table className="w-full text-sm text-left text-gray-600">
+              <thead className="text-xs text-gray-700 uppercase bg-gray-50 sticky top-0">
+                <tr>
+                  <th scope="col" className="px-6 py-3">Date</th>
+                  <th scope="col" className="px-6 py-3">Type</th>
+                  {cardWarehouseId === ALL_WAREHOUSES && <th scope="col" className="px-6 py-3">Warehouse</th>}
+                  <th scope="col" className="px-6 py-3">Reference</th>
+                  <th scope="col" className="px-6 py-3 text-right">In</th>
+                  <th scope="col" className="px-6 py-3 text-right">Out</th>
+                  <th scope="col" className="px-6 py-3 text-right">Balance</th>
+                  <th scope="col" className="px-6 py-3">User</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stockCard.map(({ movement, balance }) => (
+                  <tr key={movement.id} className="border-t">
+                    <td className="px-6 py-3 whitespace-nowrap">{formatDate(movement.date)}</td>
+                    <td className="px-6 py-3">{movement.type}</td>
+                    {cardWarehouseId === ALL_WAREHOUSES && <td className="px-6 py-3">{getWarehouseName(warehouses, movement.warehouseId)}</td>}
+                    <td className="px-6 py-3">{getReference(movement)}</td>
+                    <td className="px-6 py-3 text-right text-green-600 font-semibold">{movement.quantityChange > 0 ? formatNumber(movement.quantityChange) : ''}</td>
+                    <td className="px-6 py-3 text-right text-red-600 font-semibold">{movement.quantityChange < 0 ? formatNumber(-movement.quantityChange) : ''}</td>
+                    <td className="px-6 py-3 text-right font-bold text-gray-900">{formatNumber(balance)} <span className="text-xs font-normal text-gray-500">{unit}</span></td>
+                    <td className="px-6 py-3 capitalize">{movement.user}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Section>
+
+      {canSeeDocuments && (
+        <Section title="Adjustments" count={adjustments.length}>
+          {adjustments.length === 0 ? <EmptyRow message="No stock adjustments recorded." /> : (
+            <div className="overflow-x-auto max-h-96">
+              <table className="w-full text-sm text-left text-gray-600">
+                <thead className="text-xs text-gray-700 uppercase bg-gray-50 sticky top-0">
+                  <tr>
+                    <th scope="col" className="px-6 py-3">Date</th>
+                    <th scope="col" className="px-6 py-3">Warehouse</th>
+                    <th scope="col" className="px-6 py-3">Reason</th>
+                    <th scope="col" className="px-6 py-3 text-right">Change</th>
+                    <th scope="col" className="px-6 py-3">Notes</th>
+                    <th scope="col" className="px-6 py-3">Adjusted By</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {adjustments.map(adjustment => (
+                    <tr key={adjustment.id} className="border-t">
+                      <td className="px-6 py-3 whitespace-nowrap">{formatDate(adjustment.date)}</td>
+                      <td className="px-6 py-3">{getWarehouseName(warehouses, adjustment.warehouseId)}</td>
+                      <td className="px-6 py-3">{adjustment.reason}{adjustment.lotNumber && <span className="text-xs text-gray-500"> · Lot {adjustment.lotNumber}</span>}</td>
+                      <td className={`px-6 py-3 text-right font-semibold ${adjustment.quantityChange > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {adjustment.quantityChange > 0 ? '+' : ''}{formatNumber(adjustment.quantityChange)}
+                      </td>
+                      <td className="px-6 py-3">{adjustment.notes || ''}</td>
+                      <td className="px-6 py-3 capitalize">{adjustment.adjustedBy}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </Section>
+      )}
+
+      <Section title="Price History" count={priceHistory.length}>
+        <div className="p-4 md:p-6">
+          <ProductPriceHistory priceHistory={priceHistory} receipts={receipts} />
+        </div>
+      </Section>
+
+      {canPerformActions && (
+        <Section title="Audit Entries" count={auditEntries.length}>
+          {auditEntries.length === 0 ? <EmptyRow message="No audit entries mention this product." /> : (
+            <ul className="divide-y max-h-96 overflow-y-auto">
+              {auditEntries.map(log => (
+                <li key={log.id} className="px-6 py-3">
+                  <div className="flex justify-between gap-4">
+                    <p className="font-medium text-gray-900">{log.action}</p>
+                    <p className="text-xs text-gray-500 whitespace-nowrap">{formatDate(log.timestamp)}</p>
+                  </div>
+                  <p className="text-sm text-gray-600">{log.details}</p>
+                  <p className="text-xs text-gray-500 capitalize">{log.user}</p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </Section>
+      )}
+    </div>
+  );
+};
+
+export default ProductDetailPage;
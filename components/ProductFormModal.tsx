@@ -1,7 +1,14 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { Product, FormErrors, Vendor } from '../types';
+import { Product, FormErrors, Vendor, Warehouse, BinLocation, ProductStock, CategoryStockLevels, CategoryFieldSchema, CustomFieldDefinition, StockLevels, UnitConversion, KitComponent } from '../types';
 import { formatNumber } from '../utils/helpers';
-import { CubeIcon, LoadingIcon } from './icons/Icons';
+import { getBinUsage } from '../utils/locations';
+import { getCategoryDefaults, validateStockLevels, toStockLevelsFormState, fromStockLevelsFormState, StockLevelsFormState } from '../utils/stockLevels';
+import { getBaseUnit, validateUnitConversions } from '../utils/units';
+import { ProductFormField, initialProductFormState, validateProductField, validateProductForm } from '../utils/productValidation';
+import { validateKitComponents } from '../utils/kits';
+import { CustomFieldsFormState, getCategoryFields, toCustomFieldsFormState, fromCustomFieldsFormState, validateCustomFieldValue, validateCustomFields } from '../utils/customFields';
+import StockLevelsFields from './StockLevelsFields';
+import { CubeIcon, LoadingIcon, PlusIcon, DeleteIcon } from './icons/Icons';
 
 interface ProductFormModalProps {
   isOpen: boolean;
@@ -10,28 +17,52 @@ interface ProductFormModalProps {
   product?: Product;
   allProducts: Product[];
   vendors: Vendor[];
+  warehouses: Warehouse[];
+  binLocations: BinLocation[];
+  productStock: ProductStock[];
+  categoryStockLevels: CategoryStockLevels[];
+  categoryFieldSchemas: CategoryFieldSchema[];
+  defaultWarehouseId?: string;
 }
 
-const initialFormState = {
-  name: '',
-  sku: '',
-  category: '',
-  quantity: '',
-  price: '',
-  location: '',
-  supplierId: '',
-  imageUrl: '',
-  expiryDate: '',
-};
+type UnitConversionFormState = { unit: string; factor: string };
+
+const toUnitConversions = (rows: UnitConversionFormState[]): UnitConversion[] =>
+  rows.map(row => ({ unit: row.unit.trim(), factor: Number(row.factor) }));
+
+type KitComponentFormState = { productId: string; quantity: string };
 
-const ProductFormModal: React.FC<ProductFormModalProps> = ({ isOpen, onClose, onSave, product, allProducts, vendors }) => {
-  const [formData, setFormData] = useState(initialFormState);
+const toKitComponents = (rows: KitComponentFormState[]): KitComponent[] =>
+  rows.map(row => ({ productId: row.productId, quantity: Number(row.quantity) }));
+
+const ProductFormModal: React.FC<ProductFormModalProps> = ({ isOpen, onClose, onSave, product, allProducts, vendors, warehouses, binLocations, productStock, categoryStockLevels, categoryFieldSchemas, defaultWarehouseId }) => {
+  const [formData, setFormData] = useState(initialProductFormState);
+  const [stockLevels, setStockLevels] = useState<StockLevelsFormState>(toStockLevelsFormState());
+  const [isSerialized, setIsSerialized] = useState(false);
+  const [unitConversions, setUnitConversions] = useState<UnitConversionFormState[]>([]);
+  const [isKit, setIsKit] = useState(false);
+  const [kitComponents, setKitComponents] = useState<KitComponentFormState[]>([]);
+  const [customFieldValues, setCustomFieldValues] = useState<CustomFieldsFormState>({});
   const [errors, setErrors] = useState<FormErrors>({});
+  const [customFieldErrors, setCustomFieldErrors] = useState<Record<string, string | undefined>>({});
   const [isSaving, setIsSaving] = useState(false);
 
+  // Kits are built from ordinary products, never from other kits or serialized products.
+  const componentOptions = useMemo(() => allProducts.filter(p => !p.isKit && !p.isSerialized && !p.archivedAt && p.id !== product?.id), [allProducts, product]);
+
   const existingCategories = useMemo(() => {
-    return [...new Set(allProducts.map(p => p.category))];
-  }, [allProducts]);
+    return [...new Set([...allProducts.map(p => p.category), ...categoryFieldSchemas.map(s => s.category)])];
+  }, [allProducts, categoryFieldSchemas]);
+
+  // The fields follow the category as it is typed; values entered for another category's fields are kept until saving.
+  const customFields = useMemo(() => getCategoryFields(categoryFieldSchemas, formData.category), [categoryFieldSchemas, formData.category]);
+
+  // A new product is shelved in the warehouse that receives its opening stock.
+  const binOptions = useMemo(() => warehouses
+    .filter(w => product || w.id === formData.homeWarehouseId)
+    .map(warehouse => ({ warehouse, bins: binLocations.filter(b => b.warehouseId === warehouse.id) }))
+    .filter(group => group.bins.length > 0),
+  [warehouses, binLocations, product, formData.homeWarehouseId]);
 
   useEffect(() => {
     if (product) {
@@ -41,58 +72,27 @@ const ProductFormModal: React.FC<ProductFormModalProps> = ({ isOpen, onClose, on
         category: product.category,
         quantity: String(product.quantity),
         price: String(product.price),
-        location: product.location,
+        locationId: product.locationId || '',
         supplierId: product.supplierId,
         imageUrl: product.imageUrl || '',
         expiryDate: product.expiryDate ? product.expiryDate.split('T')[0] : '',
+        homeWarehouseId: product.homeWarehouseId || '',
+        baseUnit: getBaseUnit(product),
       });
     } else {
-      setFormData(initialFormState);
+      setFormData({ ...initialProductFormState, homeWarehouseId: defaultWarehouseId || '' });
     }
+    setStockLevels(toStockLevelsFormState(product));
+    setIsSerialized(!!product?.isSerialized);
+    setUnitConversions((product?.unitConversions || []).map(c => ({ unit: c.unit, factor: String(c.factor) })));
+    setIsKit(!!product?.isKit);
+    setKitComponents((product?.kitComponents || []).map(c => ({ productId: c.productId, quantity: String(c.quantity) })));
+    setCustomFieldValues(product ? toCustomFieldsFormState(getCategoryFields(categoryFieldSchemas, product.category), product.customFields) : {});
     setErrors({}); // Clear errors when modal opens or product changes
-  }, [product, isOpen]);
+    setCustomFieldErrors({});
+  }, [product, isOpen, defaultWarehouseId]);
   
-  const validateField = (name: keyof typeof initialFormState, value: string): string | undefined => {
-    switch (name) {
-        case 'name':
-            if (!value.trim()) return "Product name cannot be empty.";
-            break;
-        case 'sku':
-            if (!value.trim()) return "SKU cannot be empty.";
-            if (allProducts.some(p => p.sku.toLowerCase() === value.toLowerCase() && p.id !== product?.id)) {
-                return "SKU is already used by another product.";
-            }
-            break;
-        case 'category':
-            if (!value.trim()) return "Category cannot be empty.";
-            break;
-        case 'quantity': {
-            const rawValue = value.replace(/\D/g, '');
-            if (rawValue.trim() === '') return "Quantity cannot be empty.";
-            const numQuantity = Number(rawValue);
-            if (isNaN(numQuantity) || !Number.isInteger(numQuantity)) return "Quantity must be a whole number.";
-            if (numQuantity < 0) return "Stock quantity cannot be negative.";
-            break;
-        }
-        case 'price': {
-            const rawValue = value.replace(/\D/g, '');
-            if (rawValue.trim() === '') return "Price cannot be empty.";
-            const numPrice = Number(rawValue);
-            if (isNaN(numPrice)) return "Price must be a number.";
-            if (numPrice < 0) return "Price cannot be negative.";
-            break;
-        }
-        case 'location':
-            if (!value.trim()) return "Shelf location cannot be empty.";
-            break;
-        case 'supplierId':
-            if (!value) return "Supplier must be selected.";
-            break;
-        default:
-            return undefined;
-    }
-    return undefined;
-  };
+  const validateField = (name: ProductFormField, value: string): string | undefined => validateProductField(name, value, allProducts, product);
 
   const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
@@ -105,7 +105,7 @@ const ProductFormModal: React.FC<ProductFormModalProps> = ({ isOpen, onClose, on
     }
   };
 
-  const validateAndSetField = (name: keyof typeof initialFormState, value: string) => {
+  const validateAndSetField = (name: ProductFormField, value: string) => {
     setFormData(prev => ({ ...prev, [name]: value }));
     const error = validateField(name, value);
     setErrors(prev => ({ ...prev, [name]: error }));
@@ -113,37 +113,79 @@ const ProductFormModal: React.FC<ProductFormModalProps> = ({ isOpen, onClose, on
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
-    const fieldName = name as keyof typeof initialFormState;
+    const fieldName = name as ProductFormField;
     let processedValue = value;
 
     if (fieldName === 'quantity' || fieldName === 'price') {
       processedValue = value.replace(/\D/g, '');
     }
+
+    if (fieldName === 'homeWarehouseId' && formData.locationId && !binLocations.some(b => b.id === formData.locationId && b.warehouseId === value)) {
+      setFormData(prev => ({ ...prev, locationId: '' }));
+    }
+    
+    if (fieldName === 'baseUnit') {
+      setErrors(prev => ({ ...prev, unitConversions: validateUnitConversions(value, toUnitConversions(unitConversions)) }));
+    }
     
     validateAndSetField(fieldName, processedValue);
   };
   
   const handleBlur = (e: React.FocusEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
-    const fieldName = name as keyof typeof initialFormState;
+    const fieldName = name as ProductFormField;
     const error = validateField(fieldName, value);
     setErrors(prev => ({ ...prev, [name]: error }));
   };
 
+  const handleCustomFieldChange = (field: CustomFieldDefinition, value: string) => {
+    setCustomFieldValues(prev => ({ ...prev, [field.key]: value }));
+    setCustomFieldErrors(prev => ({ ...prev, [field.key]: validateCustomFieldValue(field, value) }));
+  };
+
+  const handleStockLevelChange = (key: keyof StockLevels, value: string) => {
+    const newStockLevels = { ...stockLevels, [key]: value };
+    setStockLevels(newStockLevels);
+    setErrors(prev => ({ ...prev, reorderPoint: undefined, reorderQuantity: undefined, minStock: undefined, maxStock: undefined, ...validateStockLevels(fromStockLevelsFormState(newStockLevels)) }));
+  };
+
+  const handleUnitConversionChange = (index: number, field: keyof UnitConversionFormState, value: string) => {
+    const newRows = unitConversions.map((row, i) => i === index ? { ...row, [field]: field === 'factor' ? value.replace(/\D/g, '') : value } : row);
+    setUnitConversions(newRows);
+    setErrors(prev => ({ ...prev, unitConversions: validateUnitConversions(formData.baseUnit, toUnitConversions(newRows)) }));
+  };
+
+  const handleRemoveUnitConversion = (index: number) => {
+    const newRows = unitConversions.filter((_, i) => i !== index);
+    setUnitConversions(newRows);
+    setErrors(prev => ({ ...prev, unitConversions: validateUnitConversions(formData.baseUnit, toUnitConversions(newRows)) }));
+  };
+
+  const updateKitComponents = (newRows: KitComponentFormState[]) => {
+    setKitComponents(newRows);
+    setErrors(prev => ({ ...prev, kitComponents: validateKitComponents(product?.id, toKitComponents(newRows), allProducts) }));
+  };
+
+  const handleKitComponentChange = (index: number, field: keyof KitComponentFormState, value: string) =>
+    updateKitComponents(kitComponents.map((row, i) => i === index ? { ...row, [field]: field === 'quantity' ? value.replace(/\D/g, '') : value } : row));
+
+  const handleToggleKit = (checked: boolean) => {
+    setIsKit(checked);
+    if (checked) setIsSerialized(false);
+    setErrors(prev => ({ ...prev, kitComponents: undefined }));
+  };
+
   const validateAll = (): boolean => {
-    const newErrors: FormErrors = {};
-    let isValid = true;
-    Object.keys(formData).forEach(key => {
-        const fieldName = key as keyof typeof initialFormState;
-        const value = formData[fieldName];
-        const error = validateField(fieldName, String(value));
-        if (error) {
-            newErrors[fieldName] = error;
-            isValid = false;
-        }
-    });
+    const newErrors: FormErrors = validateStockLevels(fromStockLevelsFormState(stockLevels));
+    const unitsError = validateUnitConversions(formData.baseUnit, toUnitConversions(unitConversions));
+    if (unitsError) newErrors.unitConversions = unitsError;
+    const kitError = isKit ? validateKitComponents(product?.id, toKitComponents(kitComponents), allProducts) : undefined;
+    if (kitError) newErrors.kitComponents = kitError;
+    Object.assign(newErrors, validateProductForm(formData, allProducts, product));
     setErrors(newErrors);
-    return isValid;
+    const newCustomFieldErrors = validateCustomFields(customFields, customFieldValues);
+    setCustomFieldErrors(newCustomFieldErrors);
+    return Object.keys(newErrors).length === 0 && Object.keys(newCustomFieldErrors).length === 0;
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -155,9 +197,18 @@ const ProductFormModal: React.FC<ProductFormModalProps> = ({ isOpen, onClose, on
     try {
         await onSave({ 
             ...formData, 
+            ...fromStockLevelsFormState(stockLevels),
             quantity: Number(formData.quantity),
             price: Number(formData.price),
             expiryDate: formData.expiryDate ? new Date(formData.expiryDate).toISOString() : undefined,
+            homeWarehouseId: formData.homeWarehouseId || undefined,
+            isSerialized,
+            isKit,
+            kitComponents: isKit ? toKitComponents(kitComponents) : [],
+            baseUnit: formData.baseUnit.trim(),
+            unitConversions: toUnitConversions(unitConversions),
+            customFields: fromCustomFieldsFormState(customFields, customFieldValues),
+            location: binLocations.find(b => b.id === formData.locationId)?.code || '',
             id: product?.id, 
             lastUpdated: new Date().toISOString() 
         });
@@ -240,11 +291,13 @@ const ProductFormModal: React.FC<ProductFormModalProps> = ({ isOpen, onClose, on
                     onChange={handleChange}
                     onBlur={handleBlur}
                     required
-                    className={`w-full border rounded-lg p-2 bg-slate-50 border-slate-300 focus:ring-primary-500 focus:border-primary-500 ${errors.quantity ? 'border-red-500' : 'border-slate-300'}`}
+                    disabled={!!product}
+                    className={`w-full border rounded-lg p-2 bg-slate-50 border-slate-300 focus:ring-primary-500 focus:border-primary-500 disabled:bg-slate-200 disabled:cursor-not-allowed ${errors.quantity ? 'border-red-500' : 'border-slate-300'}`}
                     aria-invalid={!!errors.quantity}
                     aria-describedby={errors.quantity ? 'quantity-error' : undefined}
                 />
                 {errors.quantity && <p id="quantity-error" className="text-sm text-red-600 mt-1">{errors.quantity}</p>}
+                {product && !errors.quantity && <p className="text-xs text-slate-500 mt-1">Use a stock adjustment to change the quantity.</p>}
                 </div>
                 <div>
                 <label htmlFor="price" className="block text-sm font-medium text-slate-700 mb-1">Price (IDR)</label>
@@ -263,13 +316,37 @@ const ProductFormModal: React.FC<ProductFormModalProps> = ({ isOpen, onClose, on
                 />
                 {errors.price && <p id="price-error" className="text-sm text-red-600 mt-1">{errors.price}</p>}
                 </div>
+                {!product && (
                 <div className="sm:col-span-2">
-                <label htmlFor="location" className="block text-sm font-medium text-slate-700 mb-1">Shelf Location</label>
-                <input type="text" name="location" id="location" value={formData.location} onChange={handleChange} onBlur={handleBlur} required className={`w-full border rounded-lg p-2 bg-slate-50 border-slate-300 focus:ring-primary-500 focus:border-primary-500 ${errors.location ? 'border-red-500' : 'border-slate-300'}`}
-                    aria-invalid={!!errors.location}
-                    aria-describedby={errors.location ? 'location-error' : undefined}
-                />
-                {errors.location && <p id="location-error" className="text-sm text-red-600 mt-1">{errors.location}</p>}
+                <label htmlFor="homeWarehouseId" className="block text-sm font-medium text-slate-700 mb-1">Opening Stock Warehouse</label>
+                <select name="homeWarehouseId" id="homeWarehouseId" value={formData.homeWarehouseId} onChange={handleChange} onBlur={handleBlur} required className={`w-full border rounded-lg p-2 bg-slate-50 border-slate-300 focus:ring-primary-500 focus:border-primary-500 ${errors.homeWarehouseId ? 'border-red-500' : 'border-slate-300'}`}
+                    aria-invalid={!!errors.homeWarehouseId}
+                    aria-describedby={errors.homeWarehouseId ? 'homeWarehouseId-error' : undefined}
+                >
+                    <option value="" disabled>-- Select Warehouse --</option>
+                    {warehouses.map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
+                </select>
+                {errors.homeWarehouseId && <p id="homeWarehouseId-error" className="text-sm text-red-600 mt-1">{errors.homeWarehouseId}</p>}
+                </div>
+                )}
+                <div className="sm:col-span-2">
+                <label htmlFor="locationId" className="block text-sm font-medium text-slate-700 mb-1">Bin Location</label>
+                <select name="locationId" id="locationId" value={formData.locationId} onChange={handleChange} onBlur={handleBlur} required className={`w-full border rounded-lg p-2 bg-slate-50 border-slate-300 focus:ring-primary-500 focus:border-primary-500 ${errors.locationId ? 'border-red-500' : 'border-slate-300'}`}
+                    aria-invalid={!!errors.locationId}
+                    aria-describedby={errors.locationId ? 'locationId-error' : undefined}
+                >
+                    <option value="" disabled>-- Select Location --</option>
+                    {binOptions.map(group => (
+                      <optgroup key={group.warehouse.id} label={group.warehouse.name}>
+                        {group.bins.map(bin => {
+                          const used = getBinUsage(bin, allProducts, productStock);
+                          return <option key={bin.id} value={bin.id}>{bin.code}{bin.capacity ? ` (${formatNumber(used)} / ${formatNumber(bin.capacity)} used)` : ''}</option>;
+                        })}
+                      </optgroup>
+                    ))}
+                </select>
+                {errors.locationId && <p id="locationId-error" className="text-sm text-red-600 mt-1">{errors.locationId}</p>}
+                {!errors.locationId && binOptions.length === 0 && <p className="text-xs text-slate-500 mt-1">No bin locations exist for this warehouse yet. Add them on the Locations page.</p>}
                 </div>
                 <div>
                 <label htmlFor="supplierId" className="block text-sm font-medium text-slate-700 mb-1">Supplier</label>
@@ -288,6 +365,122 @@ const ProductFormModal: React.FC<ProductFormModalProps> = ({ isOpen, onClose, on
                         className="w-full border rounded-lg p-2 bg-slate-50 border-slate-300 focus:ring-primary-500 focus:border-primary-500"
                     />
                 </div>
+                <div className="sm:col-span-2">
+                    <label className="flex items-center gap-2 text-sm font-medium text-slate-700">
+                        <input type="checkbox" checked={isSerialized} onChange={e => setIsSerialized(e.target.checked)} disabled={isKit} className="h-4 w-4 rounded border-slate-300 text-primary-600 focus:ring-primary-500 disabled:opacity-50" />
+                        Track by serial number
+                    </label>
+                    <p className="text-xs text-slate-500 mt-1 ml-6">Serial numbers are entered when purchase orders are received and chosen when requests are approved. Units already in stock have none.</p>
+                </div>
+                <div className="sm:col-span-2">
+                    <label className="flex items-center gap-2 text-sm font-medium text-slate-700">
+                        <input type="checkbox" checked={isKit} onChange={e => handleToggleKit(e.target.checked)} className="h-4 w-4 rounded border-slate-300 text-primary-600 focus:ring-primary-500" />
+                        This product is a kit
+                    </label>
+                    <p className="text-xs text-slate-500 mt-1 ml-6">A kit is assembled from other products. Approving a request for a kit deducts its components when no assembled kits are in stock.</p>
+                    {isKit && (
+                    <div className="mt-3 ml-6 space-y-2">
+                        {kitComponents.map((row, index) => (
+                            <div key={index} className="flex items-center gap-2 text-sm text-slate-700">
+                                <select value={row.productId} onChange={e => handleKitComponentChange(index, 'productId', e.target.value)} aria-label="Component" className="flex-1 min-w-0 border rounded-lg p-2 bg-slate-50 border-slate-300 focus:ring-primary-500 focus:border-primary-500">
+                                    <option value="" disabled>-- Select Component --</option>
+                                    {componentOptions.map(p => <option key={p.id} value={p.id}>{p.name} ({p.sku})</option>)}
+                                </select>
+                                <span>×</span>
+                                <input type="text" inputMode="numeric" value={row.quantity} onChange={e => handleKitComponentChange(index, 'quantity', e.target.value)} placeholder="1" aria-label="Quantity per kit" className="w-20 border rounded-lg p-2 bg-slate-50 border-slate-300 focus:ring-primary-500 focus:border-primary-500" />
+                                <span className="w-12 text-slate-500">{getBaseUnit(componentOptions.find(p => p.id === row.productId))}</span>
+                                <button type="button" onClick={() => updateKitComponents(kitComponents.filter((_, i) => i !== index))} className="p-1.5 text-red-600 rounded-lg hover:bg-red-100" aria-label="Remove component">
+                                    <DeleteIcon className="w-4 h-4" />
+                                </button>
+                            </div>
+                        ))}
+                        {errors.kitComponents && <p className="text-sm text-red-600">{errors.kitComponents}</p>}
+                        <button type="button" onClick={() => setKitComponents(prev => [...prev, { productId: '', quantity: '1' }])} className="inline-flex items-center gap-1 text-sm font-semibold text-primary-600 hover:text-primary-700">
+                            <PlusIcon className="w-4 h-4" /> Add component
+                        </button>
+                    </div>
+                    )}
+                </div>
+                {customFields.length > 0 && (
+                <fieldset className="sm:col-span-2 border-t border-slate-200 pt-4">
+                    <legend className="text-sm font-semibold text-slate-800 pr-2">{formData.category.trim()} Fields</legend>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-3">
+                        {customFields.map(field => {
+                            const id = `custom-${field.key}`;
+                            const value = customFieldValues[field.key] || '';
+                            const error = customFieldErrors[field.key];
+                            const className = `w-full border rounded-lg p-2 bg-slate-50 border-slate-300 focus:ring-primary-500 focus:border-primary-500 ${error ? 'border-red-500' : 'border-slate-300'}`;
+                            const inputProps = {
+                                id,
+                                value,
+                                onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => handleCustomFieldChange(field, e.target.value),
+                                onBlur: () => setCustomFieldErrors(prev => ({ ...prev, [field.key]: validateCustomFieldValue(field, value) })),
+                                required: field.required,
+                                className,
+                                'aria-invalid': !!error,
+                                'aria-describedby': error ? `${id}-error` : undefined,
+                            };
+                            return (
+                                <div key={field.key}>
+                                <label htmlFor={id} className="block text-sm font-medium text-slate-700 mb-1">{field.label}{!field.required && ' (Optional)'}</label>
+                                {field.type === 'select' ? (
+                                    <select {...inputProps}>
+                                        <option value="">-- Select {field.label} --</option>
+                                        {(field.options || []).map(option => <option key={option} value={option}>{option}</option>)}
+                                    </select>
+                                ) : (
+                                    <input type={field.type === 'date' ? 'date' : 'text'} inputMode={field.type === 'number' ? 'decimal' : undefined} {...inputProps} />
+                                )}
+                                {error && <p id={`${id}-error`} className="text-sm text-red-600 mt-1">{error}</p>}
+                                </div>
+                            );
+                        })}
+                    </div>
+                </fieldset>
+                )}
+                <fieldset className="sm:col-span-2 border-t border-slate-200 pt-4">
+                    <legend className="text-sm font-semibold text-slate-800 pr-2">Units of Measure</legend>
+                    <p className="text-xs text-slate-500 mb-3">Stock is counted in the base unit. Requests and purchase orders can also be entered in the alternate units.</p>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-3">
+                        <div>
+                        <label htmlFor="baseUnit" className="block text-sm font-medium text-slate-700 mb-1">Base Unit</label>
+                        <input type="text" name="baseUnit" id="baseUnit" value={formData.baseUnit} onChange={handleChange} onBlur={handleBlur} required placeholder="e.g. Ream" className={`w-full border rounded-lg p-2 bg-slate-50 border-slate-300 focus:ring-primary-500 focus:border-primary-500 ${errors.baseUnit ? 'border-red-500' : 'border-slate-300'}`}
+                            aria-invalid={!!errors.baseUnit}
+                            aria-describedby={errors.baseUnit ? 'baseUnit-error' : undefined}
+                        />
+                        {errors.baseUnit && <p id="baseUnit-error" className="text-sm text-red-600 mt-1">{errors.baseUnit}</p>}
+                        </div>
+                        <div className="sm:col-span-2 space-y-2">
+                        {unitConversions.map((row, index) => (
+                            <div key={index} className="flex items-center gap-2 text-sm text-slate-700">
+                                <span>1</span>
+                                <input type="text" value={row.unit} onChange={e => handleUnitConversionChange(index, 'unit', e.target.value)} placeholder="e.g. Box" aria-label="Alternate unit" className="w-32 border rounded-lg p-2 bg-slate-50 border-slate-300 focus:ring-primary-500 focus:border-primary-500" />
+                                <span>=</span>
+                                <input type="text" inputMode="numeric" value={row.factor} onChange={e => handleUnitConversionChange(index, 'factor', e.target.value)} placeholder="5" aria-label={`${formData.baseUnit || 'Base units'} per ${row.unit || 'alternate unit'}`} className="w-20 border rounded-lg p-2 bg-slate-50 border-slate-300 focus:ring-primary-500 focus:border-primary-500" />
+                                <span>{formData.baseUnit || 'base units'}</span>
+                                <button type="button" onClick={() => handleRemoveUnitConversion(index)} className="p-1.5 text-red-600 rounded-lg hover:bg-red-100" aria-label={`Remove ${row.unit || 'alternate unit'}`}>
+                                    <DeleteIcon className="w-4 h-4" />
+                                </button>
+                            </div>
+                        ))}
+                        {errors.unitConversions && <p className="text-sm text-red-600">{errors.unitConversions}</p>}
+                        <button type="button" onClick={() => setUnitConversions(prev => [...prev, { unit: '', factor: '' }])} className="inline-flex items-center gap-1 text-sm font-semibold text-primary-600 hover:text-primary-700">
+                            <PlusIcon className="w-4 h-4" /> Add alternate unit
+                        </button>
+                        </div>
+                    </div>
+                </fieldset>
+                <fieldset className="sm:col-span-2 border-t border-slate-200 pt-4">
+                    <legend className="text-sm font-semibold text-slate-800 pr-2">Stock Levels</legend>
+                    <p className="text-xs text-slate-500 mb-3">Leave a level empty to use the default for the {formData.category.trim() || 'product'} category.</p>
+                    <StockLevelsFields
+                        idPrefix="product"
+                        values={stockLevels}
+                        errors={errors}
+                        onChange={handleStockLevelChange}
+                        defaults={getCategoryDefaults(formData.category.trim(), categoryStockLevels)}
+                    />
+                </fieldset>
             </div>
           </div>
           <div className="p-6 bg-slate-50 border-t border-slate-200 flex justify-end gap-3 rounded-b-xl flex-shrink-0">
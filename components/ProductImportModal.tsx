@@ -0,0 +1,303 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { BinLocation, CategoryFieldSchema, Product, Vendor, Warehouse } from '../types';
+import { formatNumber } from '../utils/helpers';
+import { getCustomFieldLabels } from '../utils/customFields';
+import {
+  IMPORT_FIELDS, ImportField, ImportSheet, ColumnMapping, ExistingSkuHandling, ImportAction, ProductImportRow, ProductImportSummary,
+  readImportFile, guessColumnMapping, buildImportPreview,
+} from '../utils/productImport';
+import { UploadIcon, DownloadIcon, LoadingIcon } from './icons/Icons';
+
+type ImportStep = 'upload' | 'map' | 'preview' | 'done';
+
+interface ProductImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImport: (rows: ProductImportRow[], fileName: string) => Promise<ProductImportSummary>;
+  products: Product[];
+  vendors: Vendor[];
+  warehouses: Warehouse[];
+  binLocations: BinLocation[];
+  categoryFieldSchemas: CategoryFieldSchema[];
+}
+
+const ACTION_LABELS: Record<ImportAction, string> = {
+  create: 'Create',
+  update: 'Update',
+  skip: 'Skip',
+  error: 'Error',
+};
+
+const ACTION_BADGES: Record<ImportAction, string> = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-sky-100 text-sky-800',
+  skip: 'bg-gray-100 text-gray-700',
+  error: 'bg-red-100 text-red-800',
+};
+
+const MAX_PREVIEW_ROWS = 500;
+
+const downloadTemplate = (customLabels: string[]) => {
+  const headers = [...(Object.keys(IMPORT_FIELDS) as ImportField[]).map(field => IMPORT_FIELDS[field].label), ...customLabels];
+  const blob = new Blob([headers.join(',') + '\n'], { type: 'text/csv;charset=utf-8;' });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.setAttribute('download', 'product_import_template.csv');
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+// Imports products from a CSV or XLSX file: upload, map columns, preview the checked rows, then create or update them.
+const ProductImportModal: React.FC<ProductImportModalProps> = ({ isOpen, onClose, onImport, products, vendors, warehouses, binLocations, categoryFieldSchemas }) => {
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<ImportSheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [existingSkus, setExistingSkus] = useState<ExistingSkuHandling>('update');
+  const [showErrorsOnly, setShowErrorsOnly] = useState(false);
+  const [fileError, setFileError] = useState('');
+  const [isReading, setIsReading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [summary, setSummary] = useState<ProductImportSummary | null>(null);
+
+  const customLabels = useMemo(() => getCustomFieldLabels(categoryFieldSchemas), [categoryFieldSchemas]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setStep('upload');
+      setFileName('');
+      setSheet(null);
+      setMapping({});
+      setExistingSkus('update');
+      setShowErrorsOnly(false);
+      setFileError('');
+      setSummary(null);
+    }
+  }, [isOpen]);
+
+  // The preview is only worked out on the preview step; it is checked against the catalogue as it is now.
+  const previewRows = useMemo(
+    () => step === 'preview' && sheet ? buildImportPreview(sheet, mapping, { products, vendors, warehouses, binLocations, categoryFieldSchemas, existingSkus }) : [],
+    [step, sheet, mapping, products, vendors, warehouses, binLocations, categoryFieldSchemas, existingSkus]
+  );
+
+  const counts = useMemo(() => previewRows.reduce<Record<ImportAction, number>>(
+    (acc, row) => ({ ...acc, [row.action]: acc[row.action] + 1 }),
+    { create: 0, update: 0, skip: 0, error: 0 }
+  ), [previewRows]);
+
+  const visibleRows = (showErrorsOnly ? previewRows.filter(r => r.action === 'error') : previewRows).slice(0, MAX_PREVIEW_ROWS);
+  const importCount = counts.create + counts.update;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsReading(true);
+    setFileError('');
+    try {
+      const read = await readImportFile(file);
+      if (read.rows.length === 0) throw new Error('The file has a header row but no products.');
+      setSheet(read);
+      setFileName(file.name);
+      setMapping(guessColumnMapping(read.headers, customLabels));
+      setStep('map');
+    } catch (error: any) {
+      setFileError(error?.message || 'The file could not be read.');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleMappingChange = (field: ImportField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === '') delete next[field];
+      else next[field] = Number(value);
+      return next;
+    });
+  };
+
+  const handleCustomMappingChange = (label: string, value: string) => {
+    setMapping(prev => {
+      const custom = { ...prev.custom };
+      if (value === '') delete custom[label];
+      else custom[label] = Number(value);
+      return { ...prev, custom };
+    });
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      setSummary(await onImport(previewRows, fileName));
+      setStep('done');
+    } catch (error) {
+      // Parent handles toast
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const secondaryButton = "px-4 py-2 bg-white border border-gray-300 text-gray-700 font-semibold rounded-lg hover:bg-gray-100 disabled:opacity-50";
+  const primaryButton = "px-4 py-2 bg-primary-600 text-white font-semibold rounded-lg hover:bg-primary-700 disabled:bg-primary-400";
+
+  return (
+    <div onClick={isImporting ? undefined : onClose} className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4" role="dialog" aria-modal="true">
+      <div onClick={(e) => e.stopPropagation()} className="bg-white rounded-xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-gray-200 flex-shrink-0">
+          <h2 className="text-xl font-bold text-gray-800">Import Products</h2>
+          <p className="text-sm text-gray-500 mt-1">{fileName || 'Add or update products from a CSV or Excel (.xlsx) file.'}</p>
+        </div>
+
+        <div className="p-6 flex-1 overflow-y-auto">
+          {step === 'upload' && (
+            <div className="space-y-4">
+              <label className="flex flex-col items-center justify-center gap-2 p-10 border-2 border-dashed border-gray-300 rounded-lg text-gray-500 hover:border-primary-500 hover:text-primary-600 cursor-pointer">
+                {isReading ? <LoadingIcon className="w-8 h-8 animate-spin" /> : <UploadIcon className="w-8 h-8" />}
+                <span className="font-semibold">{isReading ? 'Reading file…' : 'Choose a .csv or .xlsx file'}</span>
+                <input type="file" accept=".csv,.xlsx,.xls" onChange={handleFileChange} disabled={isReading} className="sr-only" />
+              </label>
+              {fileError && <p className="text-sm text-red-600">{fileError}</p>}
+              <p className="text-sm text-gray-600">
+                The first row must hold the column headers. Vendors are matched by name, warehouses by code or name and bins by code. Products whose SKU already exists can be updated, and new products receive their opening quantity in their warehouse (the default warehouse when none is given).
+              </p>
+              <button type="button" onClick={() => downloadTemplate(customLabels)} className="flex items-center gap-2 text-sm font-semibold text-primary-600 hover:text-primary-700">
+                <DownloadIcon className="w-4 h-4" />
+                <span>Download a template</span>
+              </button>
+            </div>
+          )}
+
+          {step === 'map' && sheet && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">{formatNumber(sheet.rows.length)} rows found. Choose the column that holds each field; unmapped fields keep their current value on updated products.</p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-3">
+                {(Object.keys(IMPORT_FIELDS) as ImportField[]).map(field => (
+                  <div key={field} className="flex items-center gap-3">
+                    <label htmlFor={`import-${field}`} className="w-40 flex-shrink-0 text-sm font-medium text-gray-700">{IMPORT_FIELDS[field].label}{field === 'sku' && <span className="text-red-600"> *</span>}</label>
+                    <select id={`import-${field}`} value={mapping[field] ?? ''} onChange={e => handleMappingChange(field, e.target.value)} className="w-full border rounded-lg p-2 bg-gray-50 border-gray-300 focus:ring-primary-500 focus:border-primary-500 text-sm">
+                      <option value="">— Not imported —</option>
+                      {sheet.headers.map((header, i) => <option key={i} value={i}>{header || `Column ${i + 1}`}</option>)}
+                    </select>
+                  </div>
+                ))}
+              </div>
+              {customLabels.length > 0 && (
+                <div>
+                  <p className="text-sm font-semibold text-gray-800 mb-2">Category Fields</p>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-3">
+                    {customLabels.map(label => (
+                      <div key={label} className="flex items-center gap-3">
+                        <label htmlFor={`import-custom-${label}`} className="w-40 flex-shrink-0 text-sm font-medium text-gray-700">{label}</label>
+                        <select id={`import-custom-${label}`} value={mapping.custom?.[label] ?? ''} onChange={e => handleCustomMappingChange(label, e.target.value)} className="w-full border rounded-lg p-2 bg-gray-50 border-gray-300 focus:ring-primary-500 focus:border-primary-500 text-sm">
+                          <option value="">— Not imported —</option>
+                          {sheet.headers.map((header, i) => <option key={i} value={i}>{header || `Column ${i + 1}`}</option>)}
+                        </select>
+                      </div>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-2">Each value is checked against the fields of the row's category.</p>
+                </div>
+              )}
+              {mapping.sku === undefined && <p className="text-sm text-red-600">Map the SKU column; products are matched by SKU.</p>}
+              <div>
+                <p className="block text-sm font-medium text-gray-700 mb-1">Products whose SKU already exists</p>
+                <div className="grid grid-cols-2 gap-2 max-w-md" role="radiogroup" aria-label="Existing SKUs">
+                  {(['update', 'skip'] as ExistingSkuHandling[]).map(option => (
+                    <button
+                      key={option}
+                      type="button"
+                      role="radio"
+                      aria-checked={existingSkus === option}
+                      onClick={() => setExistingSkus(option)}
+                      className={`px-3 py-2 text-sm font-semibold rounded-lg border ${existingSkus === option ? 'bg-primary-50 border-primary-500 text-primary-700' : 'bg-white border-gray-300 text-gray-600 hover:bg-gray-50'}`}
+                    >
+                      {option === 'update' ? 'Update them' : 'Skip them'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {step === 'preview' && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap items-center gap-2">
+                {(Object.keys(ACTION_LABELS) as ImportAction[]).map(action => (
+                  <span key={action} className={`px-2.5 py-1 text-xs font-semibold rounded-full ${ACTION_BADGES[action]}`}>{ACTION_LABELS[action]}: {formatNumber(counts[action])}</span>
+                ))}
+                <label className="ml-auto flex items-center gap-2 text-sm text-gray-700">
+                  <input type="checkbox" checked={showErrorsOnly} onChange={e => setShowErrorsOnly(e.target.checked)} className="rounded border-gray-400 text-primary-600 focus:ring-primary-500" />
+                  Only rows with errors
+                </label>
+              </div>
+              <div className="overflow-x-auto border border-gray-200 rounded-lg">
+                <table className="w-full text-sm text-left text-gray-600">
+                  <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+                    <tr>
+                      <th scope="col" className="px-3 py-2">Row</th>
+                      <th scope="col" className="px-3 py-2">SKU</th>
+                      <th scope="col" className="px-3 py-2">Name</th>
+                      <th scope="col" className="px-3 py-2">Action</th>
+                      <th scope="col" className="px-3 py-2">Details</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {visibleRows.map(row => (
+                      <tr key={row.rowNumber} className="border-t border-gray-200 align-top">
+                        <td className="px-3 py-2 text-gray-500">{row.rowNumber}</td>
+                        <td className="px-3 py-2 font-mono">{row.sku || '—'}</td>
+                        <td className="px-3 py-2 text-gray-900">{row.name || '—'}</td>
+                        <td className="px-3 py-2"><span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${ACTION_BADGES[row.action]}`}>{ACTION_LABELS[row.action]}</span></td>
+                        <td className="px-3 py-2">
+                          {row.errors.map((error, i) => <p key={`e${i}`} className="text-red-600">{error}</p>)}
+                          {row.notes.map((note, i) => <p key={`n${i}`} className="text-gray-500">{note}</p>)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {(showErrorsOnly ? counts.error : previewRows.length) > MAX_PREVIEW_ROWS && (
+                <p className="text-xs text-gray-500">Showing the first {MAX_PREVIEW_ROWS} rows.</p>
+              )}
+              {counts.error > 0 && <p className="text-sm text-amber-700">Rows with errors are not imported. Fix them in the file and import it again to add them.</p>}
+            </div>
+          )}
+
+          {step === 'done' && summary && (
+            <div className="space-y-3">
+              <p className="text-gray-800">
+                <span className="font-semibold">{formatNumber(summary.created)}</span> created, <span className="font-semibold">{formatNumber(summary.updated)}</span> updated, <span className="font-semibold">{formatNumber(summary.skipped)}</span> skipped, <span className="font-semibold">{formatNumber(summary.invalid)}</span> left out with errors{summary.failed.length > 0 && <>, <span className="font-semibold text-red-600">{formatNumber(summary.failed.length)}</span> failed</>}.
+              </p>
+              {summary.failed.length > 0 && (
+                <ul className="text-sm text-red-600 list-disc pl-5">
+                  {summary.failed.map(f => <li key={f.rowNumber}>Row {f.rowNumber} ({f.sku}): {f.message}</li>)}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 bg-gray-50 border-t border-gray-200 flex justify-end gap-3 rounded-b-xl flex-shrink-0">
+          {step === 'map' && <button type="button" onClick={() => setStep('upload')} className={`mr-auto ${secondaryButton}`}>Back</button>}
+          {step === 'preview' && <button type="button" onClick={() => setStep('map')} disabled={isImporting} className={`mr-auto ${secondaryButton}`}>Back</button>}
+          {step !== 'done' && <button type="button" onClick={onClose} disabled={isImporting} className={secondaryButton}>Cancel</button>}
+          {step === 'map' && <button type="button" onClick={() => setStep('preview')} disabled={mapping.sku === undefined} className={primaryButton}>Preview</button>}
+          {step === 'preview' && (
+            <button type="button" onClick={handleImport} disabled={isImporting || importCount === 0} className={`w-48 flex justify-center items-center ${primaryButton}`}>
+              {isImporting ? <LoadingIcon className="w-5 h-5 animate-spin" /> : `Import ${formatNumber(importCount)} Product${importCount === 1 ? '' : 's'}`}
+            </button>
+          )}
+          {step === 'done' && <button type="button" onClick={onClose} className={primaryButton}>Done</button>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProductImportModal;
@@ -0,0 +1,223 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { LabelField, LabelSymbology, LabelTemplate, LabelTemplateFormErrors, Product } from '../types';
+import { LABEL_FIELDS, LABEL_SIZE_LIMITS, LABEL_SYMBOLOGIES, getLabelStyles, getPrintableLabels, loadLabelTemplates, renderProductLabelHtml, saveLabelTemplates, validateLabelTemplate } from '../utils/labels';
+import { PrinterIcon, DownloadIcon, DeleteIcon } from './icons/Icons';
+
+export type LabelOutput = 'print' | 'pdf';
+
+interface ProductLabelsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onOutput: (products: Product[], template: LabelTemplate, output: LabelOutput) => void;
+  products: Product[];
+}
+
+interface LabelTemplateFormState {
+  name: string;
+  widthMm: string;
+  heightMm: string;
+  symbology: LabelSymbology;
+  fields: LabelField[];
+}
+
+const toFormState = (template: LabelTemplate): LabelTemplateFormState => ({
+  name: template.name,
+  widthMm: String(template.widthMm),
+  heightMm: String(template.heightMm),
+  symbology: template.symbology,
+  fields: template.fields,
+});
+
+const ProductLabelsModal: React.FC<ProductLabelsModalProps> = ({ isOpen, onClose, onOutput, products }) => {
+  const [templates, setTemplates] = useState<LabelTemplate[]>([]);
+  const [selectedId, setSelectedId] = useState('');
+  const [formState, setFormState] = useState<LabelTemplateFormState | null>(null);
+  const [errors, setErrors] = useState<LabelTemplateFormErrors>({});
+
+  useEffect(() => {
+    if (isOpen) {
+      const loaded = loadLabelTemplates();
+      setTemplates(loaded);
+      setSelectedId(loaded[0].id);
+      setFormState(toFormState(loaded[0]));
+      setErrors({});
+    }
+  }, [isOpen]);
+
+  const selectedTemplate = templates.find(t => t.id === selectedId);
+
+  // The template as currently edited; printing uses it without saving it first.
+  const template = useMemo<LabelTemplate | null>(() => formState && {
+    id: selectedId,
+    name: formState.name.trim(),
+    widthMm: Number(formState.widthMm),
+    heightMm: Number(formState.heightMm),
+    symbology: formState.symbology,
+    fields: formState.fields,
+  }, [formState, selectedId]);
+
+  const { labels, skipped } = useMemo(
+    () => template ? getPrintableLabels(products, template.symbology) : { labels: [], skipped: [] },
+    [products, template]
+  );
+
+  const preview = useMemo(() => {
+    if (!template || labels.length === 0 || Object.keys(validateLabelTemplate(template)).length > 0) return null;
+    try {
+      return { html: renderProductLabelHtml(labels[0], template), styles: getLabelStyles(template) };
+    } catch (error: any) {
+      return { error: error?.message || 'The label preview could not be rendered.' };
+    }
+  }, [template, labels]);
+
+  const handleSelectTemplate = (id: string) => {
+    const next = templates.find(t => t.id === id);
+    if (!next) return;
+    setSelectedId(id);
+    setFormState(toFormState(next));
+    setErrors({});
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFormState(prev => prev && { ...prev, [name]: value });
+  };
+
+  // Fields keep the order they are listed in, which is the order they are printed in.
+  const handleToggleField = (field: LabelField) => {
+    setFormState(prev => prev && {
+      ...prev,
+      fields: (Object.keys(LABEL_FIELDS) as LabelField[]).filter(f => f === field ? !prev.fields.includes(f) : prev.fields.includes(f)),
+    });
+  };
+
+  const handleSaveTemplate = () => {
+    if (!template) return;
+    const newErrors = validateLabelTemplate(template);
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) return;
+
+    // Built-in templates are never overwritten; saving one creates a copy on this device.
+    const saved: LabelTemplate = selectedTemplate?.isBuiltIn ? { ...template, id: crypto.randomUUID() } : template;
+    const nextTemplates = selectedTemplate?.isBuiltIn ? [...templates, saved] : templates.map(t => t.id === saved.id ? saved : t);
+    saveLabelTemplates(nextTemplates);
+    setTemplates(nextTemplates);
+    setSelectedId(saved.id);
+  };
+
+  const handleDeleteTemplate = () => {
+    if (!selectedTemplate || selectedTemplate.isBuiltIn) return;
+    const nextTemplates = templates.filter(t => t.id !== selectedTemplate.id);
+    saveLabelTemplates(nextTemplates);
+    setTemplates(nextTemplates);
+    setSelectedId(nextTemplates[0].id);
+    setFormState(toFormState(nextTemplates[0]));
+  };
+
+  const handleOutput = (output: LabelOutput) => {
+    if (!template) return;
+    const newErrors = validateLabelTemplate(template);
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) return;
+    onOutput(products, template, output);
+  };
+
+  if (!isOpen || !formState) return null;
+
+  const inputClassName = (error?: string) => `w-full border rounded-lg p-2 bg-gray-50 focus:ring-primary-500 focus:border-primary-500 ${error ? 'border-red-500' : 'border-gray-300'}`;
+
+  return (
+    <div onClick={onClose} className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4" role="dialog" aria-modal="true">
+      <div onClick={(e) => e.stopPropagation()} className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-full overflow-y-auto">
+        <div className="p-6 border-b border-gray-200">
+          <h2 className="text-xl font-bold text-gray-800">Print Product Labels</h2>
+          <p className="text-sm text-gray-500 mt-1">{products.length} product{products.length === 1 ? '' : 's'} selected</p>
+        </div>
+        <div className="p-6 grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-4">
+          <div className="md:col-span-2">
+            <label htmlFor="labelTemplateId" className="block text-sm font-medium text-gray-700 mb-1">Template</label>
+            <div className="flex gap-2">
+              <select id="labelTemplateId" value={selectedId} onChange={e => handleSelectTemplate(e.target.value)} className={inputClassName()}>
+                {templates.map(t => <option key={t.id} value={t.id}>{t.name}{t.isBuiltIn ? '' : ' (saved)'}</option>)}
+              </select>
+              {selectedTemplate && !selectedTemplate.isBuiltIn && (
+                <button type="button" onClick={handleDeleteTemplate} className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg" title="Delete this template">
+                  <DeleteIcon className="w-5 h-5" />
+                </button>
+              )}
+            </div>
+          </div>
+          <div className="md:col-span-2">
+            <label htmlFor="labelName" className="block text-sm font-medium text-gray-700 mb-1">Template Name</label>
+            <input type="text" id="labelName" name="name" value={formState.name} onChange={handleChange} className={inputClassName(errors.name)} />
+            {errors.name && <p className="text-sm text-red-600 mt-1">{errors.name}</p>}
+          </div>
+          <div>
+            <label htmlFor="labelWidthMm" className="block text-sm font-medium text-gray-700 mb-1">Width (mm)</label>
+            <input type="number" id="labelWidthMm" name="widthMm" value={formState.widthMm} onChange={handleChange} min={LABEL_SIZE_LIMITS.min} max={LABEL_SIZE_LIMITS.max} className={inputClassName(errors.widthMm)} />
+            {errors.widthMm && <p className="text-sm text-red-600 mt-1">{errors.widthMm}</p>}
+          </div>
+          <div>
+            <label htmlFor="labelHeightMm" className="block text-sm font-medium text-gray-700 mb-1">Height (mm)</label>
+            <input type="number" id="labelHeightMm" name="heightMm" value={formState.heightMm} onChange={handleChange} min={LABEL_SIZE_LIMITS.min} max={LABEL_SIZE_LIMITS.max} className={inputClassName(errors.heightMm)} />
+            {errors.heightMm && <p className="text-sm text-red-600 mt-1">{errors.heightMm}</p>}
+          </div>
+          <div>
+            <label htmlFor="labelSymbology" className="block text-sm font-medium text-gray-700 mb-1">Code</label>
+            <select id="labelSymbology" name="symbology" value={formState.symbology} onChange={handleChange} className={inputClassName()}>
+              {(Object.keys(LABEL_SYMBOLOGIES) as LabelSymbology[]).map(s => <option key={s} value={s}>{LABEL_SYMBOLOGIES[s]}</option>)}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">The code encodes the product's SKU.</p>
+          </div>
+          <div>
+            <p className="block text-sm font-medium text-gray-700 mb-1">Fields</p>
+            <div className="grid grid-cols-2 gap-1">
+              {(Object.keys(LABEL_FIELDS) as LabelField[]).map(field => (
+                <label key={field} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input type="checkbox" checked={formState.fields.includes(field)} onChange={() => handleToggleField(field)} className="rounded border-gray-400 text-primary-600 focus:ring-primary-500" />
+                  {LABEL_FIELDS[field]}
+                </label>
+              ))}
+            </div>
+            {errors.fields && <p className="text-sm text-red-600 mt-1">{errors.fields}</p>}
+          </div>
+          <div className="md:col-span-2">
+            <p className="block text-sm font-medium text-gray-700 mb-1">Preview</p>
+            <div className="p-4 bg-gray-100 rounded-lg overflow-auto flex justify-center">
+              {preview?.html ? (
+                <div>
+                  <style>{preview.styles}</style>
+                  <div dangerouslySetInnerHTML={{ __html: preview.html }} />
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500 italic">{preview?.error || (labels.length === 0 ? 'No label to preview.' : 'Fix the template to see a preview.')}</p>
+              )}
+            </div>
+            {skipped.length > 0 && (
+              <p className="text-sm text-amber-700 mt-2">
+                {skipped.length} product{skipped.length === 1 ? ' has a SKU' : 's have SKUs'} that cannot be encoded as {LABEL_SYMBOLOGIES[formState.symbology]} and will be skipped
+                {formState.symbology === 'EAN13' && ' (EAN-13 needs 12 digits, or 13 with a valid check digit)'}: {skipped.slice(0, 3).map(p => p.sku).join(', ')}{skipped.length > 3 ? ', …' : ''}.
+              </p>
+            )}
+          </div>
+        </div>
+        <div className="p-6 bg-gray-50 border-t border-gray-200 flex flex-wrap justify-end gap-3 rounded-b-xl">
+          <button type="button" onClick={handleSaveTemplate} className="mr-auto px-4 py-2 bg-white border border-gray-300 text-gray-700 font-semibold rounded-lg hover:bg-gray-100">
+            {selectedTemplate?.isBuiltIn ? 'Save as New Template' : 'Save Template'}
+          </button>
+          <button type="button" onClick={onClose} className="px-4 py-2 bg-white border border-gray-300 text-gray-700 font-semibold rounded-lg hover:bg-gray-100">Cancel</button>
+          <button type="button" onClick={() => handleOutput('pdf')} disabled={labels.length === 0} className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-300 text-gray-700 font-semibold rounded-lg hover:bg-gray-100 disabled:opacity-50">
+            <DownloadIcon className="w-5 h-5" />
+            <span>Download PDF</span>
+          </button>
+          <button type="button" onClick={() => handleOutput('print')} disabled={labels.length === 0} className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white font-semibold rounded-lg hover:bg-primary-700 disabled:bg-primary-400">
+            <PrinterIcon className="w-5 h-5" />
+            <span>Print {labels.length} Label{labels.length === 1 ? '' : 's'}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProductLabelsModal;
@@ -1,43 +1,54 @@
 
 
 import React, { useMemo, useState, useCallback, useEffect, useRef } from 'react';
-import { Product, ProductKey, Vendor, User } from '../types';
+import { Product, ProductKey, Vendor, User, CategoryStockLevels, CategoryFieldSchema, StockLot } from '../types';
 import { formatCurrency, formatDate, formatNumber } from '../utils/helpers';
+import { resolveStockLevels, getStockStatus, needsReorder, STOCK_STATUS_LABELS, STOCK_STATUS_BADGES } from '../utils/stockLevels';
+import { sortLotsFefo } from '../utils/lots';
+import { getBaseUnit } from '../utils/units';
+import { getCategoryFields, getCustomFieldLabels, getCustomFieldExportValue, formatCustomFieldValue, isCustomFieldFilterActive, describeCustomFieldFilter } from '../utils/customFields';
 import { useTableControls } from '../hooks/useTableControls';
-import { EditIcon, DeleteIcon, SearchIcon, SortIcon, SortUpIcon, SortDownIcon, XMarkIcon, PlusIcon, InventoryIcon, ChevronDownIcon, DownloadIcon } from './icons/Icons';
-
-interface BarcodeIconProps extends React.SVGProps<SVGSVGElement> {}
-
-const BarcodeIcon: React.FC<BarcodeIconProps> = (props) => (
-  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" {...props}>
-    <path strokeLinecap="round" strokeLinejoin="round" d="M3.75 4.5A.75.75 0 014.5 3.75h15a.75.75 0 01.75.75v15a.75.75 0 01-.75.75h-15a.75.75 0 01-.75-.75v-15z" />
-    <path strokeLinecap="round" strokeLinejoin="round" d="M7.5 7.5h.01M8.25 12h7.5m-7.5 4.5h7.5m-7.5-9v9m3-9v9m1.5-9v9m1.5-9v9m1.5-9v9m1.5-9v9" />
-  </svg>
-);
-
+import { exportRows, describeSort, ExportContext, ExportFormat } from '../utils/exports';
+import ExportMenu from './ExportMenu';
+import { EditIcon, DeleteIcon, BoxIcon, SearchIcon, SortIcon, SortUpIcon, SortDownIcon, XMarkIcon, PlusIcon, InventoryIcon, ChevronDownIcon, DownloadIcon, PrinterIcon, BarcodeIcon, UploadIcon, ArrowsRightLeftIcon } from './icons/Icons';
 
 interface ProductListProps {
   products: Product[];
   vendors: Vendor[];
+  categoryStockLevels: CategoryStockLevels[];
+  categoryFieldSchemas: CategoryFieldSchema[];
+  stockLots: StockLot[];
+  assemblableKits: Map<string, number>; // Kits the components in stock could make, by kit id
+  reservedQuantities: Map<string, number>; // Stock held for approved requests, by product id
   onEditProduct: (product: Product) => void;
+  onViewDetails: (product: Product) => void;
   onDeleteProduct: (product: Product) => void;
+  onAssembleKit: (kit: Product) => void;
+  onTransferStock?: (product: Product) => void; // Only offered when there is more than one warehouse
   onAddProduct: () => void;
   isLoading: boolean;
   onBulkDelete: (productIds: string[]) => void;
   currentUser: User;
   itemsBeingDeleted: Set<string>;
   onOpenBarcodeScanner: () => void;
+  onPrintLabels: (products: Product[]) => void;
+  onImportProducts: () => void;
+  exportContext: ExportContext;
   initialSearchTerm: string;
   recentlyUpdatedProductId: string | null;
 }
 
-const ProductList: React.FC<ProductListProps> = ({ products, vendors, onEditProduct, onDeleteProduct, onAddProduct, isLoading, onBulkDelete, currentUser, itemsBeingDeleted, onOpenBarcodeScanner, initialSearchTerm, recentlyUpdatedProductId }) => {
+const ProductList: React.FC<ProductListProps> = ({ products, vendors, categoryStockLevels, categoryFieldSchemas, stockLots, assemblableKits, reservedQuantities, onEditProduct, onViewDetails, onDeleteProduct, onAssembleKit, onTransferStock, onAddProduct, isLoading, onBulkDelete, currentUser, itemsBeingDeleted, onOpenBarcodeScanner, onPrintLabels, onImportProducts, exportContext, initialSearchTerm, recentlyUpdatedProductId }) => {
   const {
     paginatedData,
+    filteredData,
     searchTerm,
     setSearchTerm,
     categoryFilter,
     setCategoryFilter,
+    categoryFields,
+    customFieldFilters,
+    setCustomFieldFilter,
     categories,
     requestSort,
     sortConfig,
@@ -45,7 +56,7 @@ const ProductList: React.FC<ProductListProps> = ({ products, vendors, onEditProd
     setCurrentPage,
     pageCount,
     resetFilters,
-  } = useTableControls(products, 10, vendors, initialSearchTerm);
+  } = useTableControls(products, 10, vendors, categoryFieldSchemas, initialSearchTerm);
 
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [isActionsMenuOpen, setIsActionsMenuOpen] = useState(false);
@@ -55,7 +66,7 @@ const ProductList: React.FC<ProductListProps> = ({ products, vendors, onEditProd
   // Effect to clear selection when filters/page change
   useEffect(() => {
     setSelectedIds(new Set());
-  }, [searchTerm, categoryFilter, currentPage, products]);
+  }, [searchTerm, categoryFilter, customFieldFilters, currentPage, products]);
 
   // Effect for closing dropdown on outside click
   useEffect(() => {
@@ -94,6 +105,28 @@ const ProductList: React.FC<ProductListProps> = ({ products, vendors, onEditProd
   const isAllSelected = paginatedData.length > 0 && selectedIds.size === paginatedData.length;
 
   const vendorsMap = useMemo(() => new Map(vendors.map(v => [v.id, v.name])), [vendors]);
+
+  const stockStatuses = useMemo(
+    () => new Map(products.map(p => [p.id, getStockStatus(p.quantity, resolveStockLevels(p, categoryStockLevels))])),
+    [products, categoryStockLevels]
+  );
+
+  // Open lots per product, in the order they will be issued.
+  const lotsByProduct = useMemo(() => {
+    const map = new Map<string, StockLot[]>();
+    sortLotsFefo(stockLots.filter(l => l.quantity > 0)).forEach(l => map.set(l.productId, [...(map.get(l.productId) || []), l]));
+    return map;
+  }, [stockLots]);
+
+  // Custom field values shown under each product's name.
+  const customFieldSummaries = useMemo(() => new Map(products.map(p => [
+    p.id,
+    getCategoryFields(categoryFieldSchemas, p.category)
+      .map(field => ({ label: field.label, text: formatCustomFieldValue(field, p.customFields?.[field.key]) }))
+      .filter(v => v.text)
+      .map(v => `${v.label}: ${v.text}`)
+      .join(' · '),
+  ])), [products, categoryFieldSchemas]);
   
   const getSortIcon = (key: ProductKey) => {
     if (sortConfig?.key !== key) {
@@ -105,35 +138,41 @@ const ProductList: React.FC<ProductListProps> = ({ products, vendors, onEditProd
     return <SortDownIcon className="h-4 w-4 text-primary-500" />;
   };
 
-  const handleExportCSV = (selectedOnly = false) => {
-    const dataToExport = selectedOnly ? products.filter(p => selectedIds.has(p.id)) : products;
-    if (dataToExport.length === 0) return;
-
-    const headers = "ID,Product Name,SKU,Category,Quantity,Price,Location,Supplier,Last Updated,Modified By\n";
-    const csvContent = dataToExport.map(p => 
-        [
-            p.id,
-            `"${p.name.replace(/"/g, '""')}"`,
-            p.sku,
-            p.category,
-            p.quantity,
-            p.price,
-            p.location,
-            `"${(vendorsMap.get(p.supplierId) || 'N/A').replace(/"/g, '""')}"`,
-            p.lastUpdated,
-            p.lastModifiedBy || ''
-        ].join(',')
-    ).join('\n');
-    
-    const blob = new Blob([headers + csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    const url = URL.createObjectURL(blob);
-    link.href = url;
-    link.setAttribute('download', `product_inventory_${new Date().toISOString().split('T')[0]}.csv`);
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+  // Exports the filtered and sorted list across all pages, or only the selected products.
+  const handleExport = (format: ExportFormat, selectedOnly = false) => {
+    const rows = selectedOnly ? filteredData.filter(p => selectedIds.has(p.id)) : filteredData;
+    const filters = [
+      ...exportContext.scope,
+      ...(selectedOnly ? ['Selected products only'] : []),
+      ...(searchTerm ? [`Search: "${searchTerm}"`] : []),
+      ...(categoryFilter !== 'all' ? [`Category: ${categoryFilter}`] : []),
+      ...categoryFields.filter(field => isCustomFieldFilterActive(customFieldFilters[field.key])).map(field => describeCustomFieldFilter(field, customFieldFilters[field.key])),
+      ...describeSort(tableHeaders.find(h => h.key === sortConfig?.key)?.label, sortConfig?.direction),
+    ];
+    exportRows<Product>(format, {
+      title: 'Product Inventory',
+      fileName: 'product_inventory',
+      columns: [
+        { header: 'ID', value: p => p.id },
+        { header: 'Product Name', value: p => p.name },
+        { header: 'SKU', value: p => p.sku },
+        { header: 'Category', value: p => p.category },
+        { header: 'Quantity', value: p => p.quantity, align: 'right' },
+        { header: 'Reserved', value: p => reservedQuantities.get(p.id) || 0, align: 'right' },
+        { header: 'Available', value: p => Math.max(p.quantity - (reservedQuantities.get(p.id) || 0), 0), align: 'right' },
+        { header: 'Unit', value: p => getBaseUnit(p) },
+        { header: 'Price', value: p => p.price, align: 'right' },
+        { header: 'Location', value: p => p.location },
+        { header: 'Supplier', value: p => vendorsMap.get(p.supplierId) || 'N/A' },
+        { header: 'Status', value: p => STOCK_STATUS_LABELS[stockStatuses.get(p.id) || 'ok'] },
+        { header: 'Last Updated', value: p => p.lastUpdated },
+        { header: 'Modified By', value: p => p.lastModifiedBy || '' },
+        ...getCustomFieldLabels(categoryFieldSchemas).map(label => ({ header: label, value: (p: Product) => getCustomFieldExportValue(p, categoryFieldSchemas, label) })),
+      ],
+      rows,
+      filters,
+      exportedBy: exportContext.exportedBy,
+    });
   };
 
   const tableHeaders: { key: string; label: string; isSortable: boolean; className?: string }[] = useMemo(() => {
@@ -155,7 +194,7 @@ const ProductList: React.FC<ProductListProps> = ({ products, vendors, onEditProd
     return baseHeaders;
   }, [canPerformActions]);
   
-  const isFiltered = searchTerm !== '' || categoryFilter !== 'all';
+  const isFiltered = searchTerm !== '' || categoryFilter !== 'all' || categoryFields.some(field => isCustomFieldFilterActive(customFieldFilters[field.key]));
 
   const SkeletonRow = () => (
     <tr className="block md:table-row">
@@ -215,11 +254,18 @@ const ProductList: React.FC<ProductListProps> = ({ products, vendors, onEditProd
         <div className="text-center bg-white p-12 rounded-xl shadow-lg">
             <InventoryIcon className="mx-auto h-16 w-16 text-slate-300" />
             <h3 className="mt-4 text-xl font-semibold text-slate-800">No products found</h3>
-            <p className="mt-2 text-slate-500">There are currently no products in the inventory. Add one to get started.</p>
-            {canPerformActions && <div className="mt-6">
+            <p className="mt-2 text-slate-500">There are currently no products in the inventory. Add one or import your catalogue to get started.</p>
+            {canPerformActions && <div className="mt-6 flex justify-center gap-3">
+                <button
+                    onClick={onImportProducts}
+                    className="flex items-center justify-center px-5 py-2.5 border border-slate-300 rounded-lg font-semibold text-slate-600 hover:bg-slate-100 transition-colors"
+                >
+                    <UploadIcon className="w-5 h-5 mr-2" />
+                    <span>Import Products</span>
+                </button>
                 <button
                     onClick={onAddProduct}
-                    className="flex items-center justify-center mx-auto bg-primary-500 text-white font-semibold px-5 py-2.5 rounded-lg shadow-md hover:bg-primary-600 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-opacity-75 transition-all duration-200"
+                    className="flex items-center justify-center bg-primary-500 text-white font-semibold px-5 py-2.5 rounded-lg shadow-md hover:bg-primary-600 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-opacity-75 transition-all duration-200"
                 >
                     <PlusIcon className="w-5 h-5 mr-2" />
                     <span>Add New Product</span>
@@ -239,7 +285,7 @@ const ProductList: React.FC<ProductListProps> = ({ products, vendors, onEditProd
             </div>
             <input
               type="text"
-              placeholder="Search by name or SKU..."
+              placeholder="Search by name, SKU or field value..."
               value={searchTerm}
               onChange={e => setSearchTerm(e.target.value)}
               className="w-full pl-10 pr-4 py-2 border rounded-lg bg-slate-50 border-slate-300 placeholder-slate-400 focus:ring-primary-500 focus:border-primary-500"
@@ -272,13 +318,54 @@ const ProductList: React.FC<ProductListProps> = ({ products, vendors, onEditProd
               </button>
             )}
             <button
-              onClick={() => handleExportCSV(false)}
-              className="px-4 py-2 border border-slate-300 rounded-lg text-sm text-slate-600 hover:bg-slate-100 transition-colors"
+              onClick={() => onPrintLabels(filteredData)}
+              disabled={filteredData.length === 0}
+              className="flex items-center gap-2 px-4 py-2 border border-slate-300 rounded-lg text-sm text-slate-600 hover:bg-slate-100 transition-colors disabled:opacity-50"
             >
-              Export All
+              <PrinterIcon className="h-5 w-5" />
+              <span>Print Labels ({filteredData.length})</span>
             </button>
+            {canPerformActions && (
+              <button
+                onClick={onImportProducts}
+                className="flex items-center gap-2 px-4 py-2 border border-slate-300 rounded-lg text-sm text-slate-600 hover:bg-slate-100 transition-colors"
+              >
+                <UploadIcon className="h-5 w-5" />
+                <span>Import</span>
+              </button>
+            )}
+            <ExportMenu onExport={format => handleExport(format)} rowCount={filteredData.length} />
           </div>
         </div>
+        {categoryFields.length > 0 && (
+          <div className="mt-4 flex flex-wrap items-end gap-4">
+            {categoryFields.map(field => {
+              const filter = customFieldFilters[field.key] || {};
+              const inputClass = "border rounded-lg py-2 px-3 bg-slate-50 border-slate-300 text-sm text-slate-700 focus:ring-primary-500 focus:border-primary-500";
+              return (
+                <div key={field.key}>
+                  <label htmlFor={`filter-${field.key}`} className="block text-xs font-medium text-slate-500 mb-1">{field.label}</label>
+                  {field.type === 'text' && (
+                    <input id={`filter-${field.key}`} type="text" value={filter.value || ''} onChange={e => setCustomFieldFilter(field.key, { value: e.target.value })} placeholder="Contains..." className={`w-40 ${inputClass}`} />
+                  )}
+                  {field.type === 'select' && (
+                    <select id={`filter-${field.key}`} value={filter.value || ''} onChange={e => setCustomFieldFilter(field.key, { value: e.target.value })} className={inputClass}>
+                      <option value="">Any</option>
+                      {(field.options || []).map(option => <option key={option} value={option}>{option}</option>)}
+                    </select>
+                  )}
+                  {(field.type === 'number' || field.type === 'date') && (
+                    <div className="flex items-center gap-1">
+                      <input id={`filter-${field.key}`} type={field.type} value={filter.min || ''} onChange={e => setCustomFieldFilter(field.key, { ...filter, min: e.target.value })} placeholder="Min" aria-label={`${field.label} from`} className={`w-36 ${inputClass}`} />
+                      <span className="text-slate-400">–</span>
+                      <input type={field.type} value={filter.max || ''} onChange={e => setCustomFieldFilter(field.key, { ...filter, max: e.target.value })} placeholder="Max" aria-label={`${field.label} to`} className={`w-36 ${inputClass}`} />
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
       </div>
       {canPerformActions && selectedIds.size > 0 && (
           <div className="px-4 md:px-6 py-3 bg-sky-50 border-b border-sky-200 flex flex-col md:flex-row items-center justify-between gap-3">
@@ -300,7 +387,7 @@ const ProductList: React.FC<ProductListProps> = ({ products, vendors, onEditProd
                         <div className="py-1" role="menu" aria-orientation="vertical" aria-labelledby="options-menu">
                             <button
                                 onClick={() => {
-                                    handleExportCSV(true);
+                                    handleExport('csv', true);
                                     setIsActionsMenuOpen(false);
                                 }}
                                 className="w-full text-left flex items-center gap-3 px-4 py-2 text-sm text-slate-700 hover:bg-slate-100 hover:text-slate-900"
@@ -309,6 +396,17 @@ const ProductList: React.FC<ProductListProps> = ({ products, vendors, onEditProd
                                 <DownloadIcon className="w-4 h-4" />
                                 <span>Export Selected</span>
                             </button>
+                            <button
+                                onClick={() => {
+                                    onPrintLabels(products.filter(p => selectedIds.has(p.id)));
+                                    setIsActionsMenuOpen(false);
+                                }}
+                                className="w-full text-left flex items-center gap-3 px-4 py-2 text-sm text-slate-700 hover:bg-slate-100 hover:text-slate-900"
+                                role="menuitem"
+                            >
+                                <PrinterIcon className="w-4 h-4" />
+                                <span>Print Labels</span>
+                            </button>
                             <button
                                 onClick={() => {
                                     onBulkDelete(Array.from(selectedIds));
@@ -354,11 +452,14 @@ const ProductList: React.FC<ProductListProps> = ({ products, vendors, onEditProd
             </tr>
           </thead>
           <tbody>
-            {paginatedData.map(product => (
+            {paginatedData.map(product => {
+              const stockStatus = stockStatuses.get(product.id) || 'ok';
+              const lots = lotsByProduct.get(product.id) || [];
+              return (
               <tr 
                 key={product.id} 
                 className={`block md:table-row transition-all duration-300 ${canPerformActions && selectedIds.has(product.id) ? 'bg-sky-100' : ''} ${
-                  product.quantity < 5 
+                  needsReorder(stockStatus) 
                     ? `bg-amber-50 ${canPerformActions && selectedIds.has(product.id) ? 'hover:bg-sky-200' : 'hover:bg-amber-100'}` 
                     : `bg-white ${canPerformActions && selectedIds.has(product.id) ? 'hover:bg-sky-200' : 'hover:bg-slate-50'}`
                 } ${itemsBeingDeleted.has(product.id) ? 'animate-fade-out-shrink' : ''} ${recentlyUpdatedProductId === product.id ? 'animate-row-highlight' : ''}`}
@@ -382,17 +483,38 @@ const ProductList: React.FC<ProductListProps> = ({ products, vendors, onEditProd
                       </div>
                   )}
                 </td>
-                <td className="px-6 py-4 font-semibold text-slate-900 block md:table-cell border border-slate-300" data-label="Product">{product.name}</td>
+                <td className="px-6 py-4 font-semibold text-slate-900 block md:table-cell border border-slate-300" data-label="Product">
+                  <button type="button" onClick={() => onViewDetails(product)} className="font-semibold text-left hover:text-primary-600 hover:underline">{product.name}</button>
+                  {product.isSerialized && <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-slate-100 text-slate-600">Serialized</span>}
+                  {product.isKit && <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-violet-100 text-violet-700">Kit</span>}
+                  {customFieldSummaries.get(product.id) && <span className="block text-xs font-normal text-slate-500 mt-1">{customFieldSummaries.get(product.id)}</span>}
+                  {lots.length > 0 && (
+                    <span className="block text-xs font-normal text-slate-500 mt-1">
+                      {lots.length} lot{lots.length === 1 ? '' : 's'} · next: {lots[0].lotNumber}
+                      {lots[0].expiryDate && ` (exp. ${formatDate(lots[0].expiryDate)})`}
+                    </span>
+                  )}
+                </td>
                 <td className="px-6 py-4 block md:table-cell border border-slate-300" data-label="SKU">{product.sku}</td>
                 <td className="px-6 py-4 block md:table-cell border border-slate-300" data-label="Category">
                   <span className="px-2 py-1 text-xs font-medium text-primary-800 bg-primary-100 rounded-full">{product.category}</span>
                 </td>
                 <td className="px-6 py-4 text-left md:text-right block md:table-cell border border-slate-300" data-label="Quantity">
-                  {product.quantity < 5 ? (
+                  {needsReorder(stockStatus) ? (
                     <span className="font-bold text-red-600">{formatNumber(product.quantity)}</span>
                   ) : (
                     formatNumber(product.quantity)
                   )}
+                  <span className="ml-1 text-xs text-slate-500">{getBaseUnit(product)}</span>
+                  {reservedQuantities.has(product.id) && (
+                    <span className="block text-xs text-slate-500 mt-1 whitespace-nowrap">
+                      {formatNumber(reservedQuantities.get(product.id)!)} reserved · <span className="font-semibold text-slate-700">{formatNumber(Math.max(product.quantity - reservedQuantities.get(product.id)!, 0))} available</span>
+                    </span>
+                  )}
+                  {product.isKit && <span className="block text-xs text-slate-500 mt-1">+{formatNumber(assemblableKits.get(product.id) || 0)} from components</span>}
+                  {stockStatus !== 'ok' && (
+                    <span className={`block md:ml-auto mt-1 w-fit px-2 py-0.5 text-xs font-medium rounded-full whitespace-nowrap ${STOCK_STATUS_BADGES[stockStatus]}`}>{STOCK_STATUS_LABELS[stockStatus]}</span>
+                  )}
                 </td>
                 <td className="px-6 py-4 text-left md:text-right block md:table-cell border border-slate-300" data-label="Price">{formatCurrency(product.price, 'IDR')}</td>
                 <td className="px-6 py-4 block md:table-cell border border-slate-300" data-label="Location">{product.location}</td>
@@ -403,12 +525,23 @@ const ProductList: React.FC<ProductListProps> = ({ products, vendors, onEditProd
                   <button onClick={() => onEditProduct(product)} className="text-primary-600 hover:text-primary-800 p-1" aria-label={`Edit ${product.name}`}>
                     <EditIcon className="w-5 h-5" />
                   </button>
+                  {product.isKit && (
+                    <button onClick={() => onAssembleKit(product)} className="text-violet-600 hover:text-violet-800 p-1" aria-label={`Assemble or disassemble ${product.name}`} title="Assemble or disassemble">
+                      <BoxIcon className="w-5 h-5" />
+                    </button>
+                  )}
+                  {onTransferStock && (
+                    <button onClick={() => onTransferStock(product)} className="text-teal-600 hover:text-teal-800 p-1" aria-label={`Transfer ${product.name} to another warehouse`} title="Transfer to another warehouse">
+                      <ArrowsRightLeftIcon className="w-5 h-5" />
+                    </button>
+                  )}
                   <button onClick={() => onDeleteProduct(product)} className="text-red-500 hover:text-red-700 p-1" aria-label={`Delete ${product.name}`}>
                     <DeleteIcon className="w-5 h-5" />
                   </button>
                 </td>}
               </tr>
-            ))}
+              );
+            })}
              {paginatedData.length === 0 && (
               <tr className="md:table-row">
                 <td colSpan={tableHeaders.length + (canPerformActions ? 1 : 0)} className="text-center py-10 text-slate-500 block md:table-cell border border-slate-300">
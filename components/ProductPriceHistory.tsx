@@ -0,0 +1,94 @@
+import React, { useMemo } from 'react';
+import { ComposedChart, Line, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { ProductPrice, PurchaseOrder } from '../types';
+import { formatCurrency, formatDate, formatNumber } from '../utils/helpers';
+
+interface ProductPriceHistoryProps {
+  priceHistory: ProductPrice[]; // The product's prices, oldest first
+  receipts: PurchaseOrder[]; // Received purchase orders with a unit cost, oldest first
+}
+
+type ChartPoint = { time: number; price?: number; cost?: number };
+
+const ProductPriceHistory: React.FC<ProductPriceHistoryProps> = ({ priceHistory, receipts }) => {
+  // The price is drawn as steps that run up to today; receipt costs as points.
+  const chartData = useMemo(() => {
+    const points: ChartPoint[] = [
+      ...priceHistory.map(p => ({ time: new Date(p.effectiveDate).getTime(), price: p.price })),
+      ...receipts.map(po => ({ time: new Date(po.receivedDate!).getTime(), cost: po.unitCost })),
+    ];
+    if (priceHistory.length > 0) points.push({ time: Date.now(), price: priceHistory[priceHistory.length - 1].price });
+    return points.sort((a, b) => a.time - b.time);
+  }, [priceHistory, receipts]);
+
+  const changes = priceHistory.map((entry, index) => ({ entry, previous: index > 0 ? priceHistory[index - 1].price : undefined })).reverse();
+
+  return (
+    <>
+      {chartData.length > 0 && (
+        <div className="w-full h-64 mb-4">
+          <ResponsiveContainer>
+            <ComposedChart data={chartData} margin={{ top: 5, right: 20, left: 10, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis
+                dataKey="time"
+                type="number"
+                scale="time"
+                domain={['dataMin', 'dataMax']}
+                tickFormatter={(time) => formatDate(new Date(time).toISOString())}
+                tick={{ fill: '#475569', fontSize: 12 }}
+              />
+              <YAxis tickFormatter={(value) => formatNumber(value as number)} tick={{ fill: '#475569', fontSize: 12 }} width={80} />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: 'white',
+                  border: '1px solid #e2e8f0',
+                  borderRadius: '0.5rem'
+                }}
+                labelFormatter={(time) => formatDate(new Date(time as number).toISOString())}
+                formatter={(value, name) => [formatCurrency(value as number, 'IDR'), name]}
+              />
+              <Legend wrapperStyle={{fontSize: "14px"}}/>
+              <Line type="stepAfter" dataKey="price" name="Price" stroke="#3b82f6" strokeWidth={2} dot={false} connectNulls isAnimationActive={false} />
+              <Scatter dataKey="cost" name="Receipt Cost" fill="#10b981" isAnimationActive={false} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+      {changes.length > 0 ? (
+        <div className="border border-gray-200 rounded-lg overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-left text-gray-600">
+              <tr>
+                <th className="p-3 font-medium">Effective Date</th>
+                <th className="p-3 font-medium text-right">Price</th>
+                <th className="p-3 font-medium text-right">Change</th>
+                <th className="p-3 font-medium">Changed By</th>
+              </tr>
+            </thead>
+            <tbody>
+              {changes.map(({ entry, previous }) => (
+                <tr key={entry.id} className="border-t">
+                  <td className="p-3 text-gray-600">{formatDate(entry.effectiveDate)}</td>
+                  <td className="p-3 text-right font-semibold text-gray-800">{formatCurrency(entry.price, 'IDR')}</td>
+                  <td className={`p-3 text-right ${previous === undefined ? 'text-gray-400' : entry.price >= previous ? 'text-green-600' : 'text-red-600'}`}>
+                    {previous === undefined
+                      ? 'Initial'
+                      : `${entry.price >= previous ? '+' : ''}${formatCurrency(entry.price - previous, 'IDR')}${previous > 0 ? ` (${((entry.price - previous) / previous * 100).toFixed(1)}%)` : ''}`}
+                  </td>
+                  <td className="p-3 text-gray-600 capitalize">{entry.changedBy}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="text-center py-6 px-4 bg-gray-50 rounded-lg border border-gray-200">
+          <p className="text-sm text-gray-500">No price changes have been recorded for this product.</p>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default ProductPriceHistory;
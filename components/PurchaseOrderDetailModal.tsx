@@ -1,13 +1,19 @@
-import React from 'react';
-import { PurchaseOrder, Vendor } from '../types';
-import { formatDate, formatNumber } from '../utils/helpers';
-import { XMarkIcon } from './icons/Icons';
+import React, { useMemo } from 'react';
+import { PurchaseOrder, Vendor, Warehouse } from '../types';
+import { formatCurrency, formatDate } from '../utils/helpers';
+import { getWarehouseName } from '../utils/warehouses';
+import { formatDocumentQuantity } from '../utils/units';
+import { renderQrCodeSvg } from '../utils/labels';
+import { getPurchaseOrderScanCode } from '../utils/scanning';
+import { XMarkIcon, PrinterIcon } from './icons/Icons';
 
 interface PurchaseOrderDetailModalProps {
   isOpen: boolean;
   onClose: () => void;
   purchaseOrder?: PurchaseOrder;
   vendors: Vendor[];
+  warehouses: Warehouse[];
+  onPrintQr: (purchaseOrder: PurchaseOrder) => void;
 }
 
 const getStatusBadge = (status: PurchaseOrder['status']) => {
@@ -27,7 +33,18 @@ const DetailItem: React.FC<{ label: string; children: React.ReactNode }> = ({ la
   </div>
 );
 
-const PurchaseOrderDetailModal: React.FC<PurchaseOrderDetailModalProps> = ({ isOpen, onClose, purchaseOrder, vendors }) => {
+const PurchaseOrderDetailModal: React.FC<PurchaseOrderDetailModalProps> = ({ isOpen, onClose, purchaseOrder, vendors, warehouses, onPrintQr }) => {
+  // Approved orders carry a QR code that opens receiving when scanned.
+  const qrSvg = useMemo(() => {
+    if (!purchaseOrder || purchaseOrder.status !== 'Approved') return null;
+    try {
+      return renderQrCodeSvg(getPurchaseOrderScanCode(purchaseOrder));
+    } catch (error) {
+      console.warn("Could not render the purchase order QR code", error);
+      return null;
+    }
+  }, [purchaseOrder]);
+
   if (!isOpen || !purchaseOrder) return null;
 
   const vendor = vendors.find(v => v.id === purchaseOrder.vendorId);
@@ -55,8 +72,9 @@ const PurchaseOrderDetailModal: React.FC<PurchaseOrderDetailModalProps> = ({ isO
         <div className="p-6 grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-5">
           <DetailItem label="PO ID">{purchaseOrder.id}</DetailItem>
           <DetailItem label="Vendor">{vendor?.name || 'Unknown'}</DetailItem>
+          <DetailItem label="Warehouse">{getWarehouseName(warehouses, purchaseOrder.warehouseId)}</DetailItem>
           <DetailItem label="Product Name">{purchaseOrder.productName}</DetailItem>
-          <DetailItem label="Quantity Ordered">{formatNumber(purchaseOrder.quantity)} units</DetailItem>
+          <DetailItem label="Quantity Ordered">{formatDocumentQuantity(purchaseOrder)}</DetailItem>
           <DetailItem label="Request Date">{formatDate(purchaseOrder.requestDate)}</DetailItem>
           <DetailItem label="Requested By">
             <span className="capitalize">{purchaseOrder.requestedBy}</span>
@@ -82,6 +100,36 @@ const PurchaseOrderDetailModal: React.FC<PurchaseOrderDetailModalProps> = ({ isO
               </DetailItem>
             </div>
           )}
+          {purchaseOrder.unitCost !== undefined && purchaseOrder.unitCost !== null && (
+            <>
+              <DetailItem label={`Unit Cost (per ${purchaseOrder.baseUnit || 'unit'})`}>{formatCurrency(purchaseOrder.unitCost, 'IDR')}</DetailItem>
+              <DetailItem label="Total Cost">{formatCurrency(purchaseOrder.unitCost * purchaseOrder.quantity, 'IDR')}</DetailItem>
+            </>
+          )}
+          {purchaseOrder.lotNumber && (
+            <>
+              <DetailItem label="Lot Number"><span className="font-mono">{purchaseOrder.lotNumber}</span></DetailItem>
+              <DetailItem label="Lot Expiry">{purchaseOrder.expiryDate ? formatDate(purchaseOrder.expiryDate) : 'None'}</DetailItem>
+            </>
+          )}
+          {purchaseOrder.serialNumbers && purchaseOrder.serialNumbers.length > 0 && (
+            <div className="sm:col-span-2">
+              <DetailItem label="Serial Numbers"><span className="font-mono">{purchaseOrder.serialNumbers.join(', ')}</span></DetailItem>
+            </div>
+          )}
+          {qrSvg && (
+            <div className="sm:col-span-2 flex items-center gap-4 p-3 bg-slate-50 rounded-lg border border-slate-200">
+              <div className="w-24 h-24 flex-shrink-0 bg-white p-1 [&>svg]:w-full [&>svg]:h-full" dangerouslySetInnerHTML={{ __html: qrSvg }} />
+              <div>
+                <p className="text-sm font-semibold text-slate-800">Scan to receive</p>
+                <p className="text-sm text-slate-500">Scanning this code opens receiving for this purchase order.</p>
+                <button type="button" onClick={() => onPrintQr(purchaseOrder)} className="mt-2 flex items-center gap-2 text-sm font-semibold text-primary-600 hover:text-primary-700">
+                  <PrinterIcon className="w-4 h-4" />
+                  <span>Print QR Code</span>
+                </button>
+              </div>
+            </div>
+          )}
           <div className="sm:col-span-2">
             <p className="text-sm font-medium text-slate-500">Notes</p>
             <p className="text-slate-800 font-semibold mt-1 whitespace-pre-wrap bg-slate-50 p-3 rounded-lg border border-slate-200 min-h-[50px]">
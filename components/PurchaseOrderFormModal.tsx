@@ -1,36 +1,57 @@
-import React, { useState, useMemo } from 'react';
-import { Product, Vendor, PurchaseOrder, PurchaseOrderFormErrors } from '../types';
+import React, { useState, useMemo, useEffect } from 'react';
+import { Product, Vendor, PurchaseOrder, PurchaseOrderFormErrors, QuantityEntry, Warehouse } from '../types';
 import { formatNumber } from '../utils/helpers';
+import { getBaseUnit, getProductUnits, getUnitFactor, formatQuantity } from '../utils/units';
 import { LoadingIcon } from './icons/Icons';
 
 interface PurchaseOrderFormModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (poData: Omit<PurchaseOrder, 'id' | 'status' | 'requestedBy'>) => Promise<void>;
+  onSave: (poData: Omit<PurchaseOrder, 'id' | 'status' | 'requestedBy' | 'quantity' | 'baseUnit'> & QuantityEntry) => Promise<void>;
   products: Product[];
   vendors: Vendor[];
+  warehouses: Warehouse[];
+  defaultWarehouseId?: string;
 }
 
 const initialFormState = {
+  warehouseId: '',
   vendorId: '',
   productId: '',
   quantity: '',
+  unit: '',
   notes: '',
 };
 
-const PurchaseOrderFormModal: React.FC<PurchaseOrderFormModalProps> = ({ isOpen, onClose, onSave, products, vendors }) => {
+const PurchaseOrderFormModal: React.FC<PurchaseOrderFormModalProps> = ({ isOpen, onClose, onSave, products, vendors, warehouses, defaultWarehouseId }) => {
   const [formData, setFormData] = useState(initialFormState);
   const [errors, setErrors] = useState<PurchaseOrderFormErrors>({});
   const [isSaving, setIsSaving] = useState(false);
 
+  const selectedProduct = useMemo(() => products.find(p => p.id === formData.productId), [products, formData.productId]);
+  const unitFactor = selectedProduct && formData.unit ? getUnitFactor(selectedProduct, formData.unit) : undefined;
+
+  useEffect(() => {
+    if (isOpen) {
+      setFormData({ ...initialFormState, warehouseId: defaultWarehouseId || '' });
+      setErrors({});
+    }
+  }, [isOpen, defaultWarehouseId]);
+
   const validateField = (name: keyof typeof initialFormState, value: string): string | undefined => {
     switch (name) {
+      case 'warehouseId':
+        if (!value) return "A warehouse must be selected.";
+        break;
       case 'vendorId':
         if (!value) return "A vendor must be selected.";
         break;
       case 'productId':
         if (!value) return "A product must be selected.";
         break;
+      case 'unit':
+        if (!value) return "A unit must be selected.";
+        break;
       case 'quantity': {
         const rawValue = value.replace(/\D/g, '');
         if (!rawValue) return "Quantity cannot be empty.";
@@ -54,6 +75,14 @@ const PurchaseOrderFormModal: React.FC<PurchaseOrderFormModalProps> = ({ isOpen,
     if (fieldName === 'quantity') {
       processedValue = value.replace(/\D/g, '');
     }
+
+    // Orders default to the product's base unit
+    if (fieldName === 'productId') {
+      const unit = getBaseUnit(products.find(p => p.id === value));
+      setFormData(prev => ({ ...prev, productId: value, unit }));
+      setErrors(prev => ({ ...prev, productId: validateField('productId', value), unit: undefined }));
+      return;
+    }
     
     setFormData(prev => ({ ...prev, [fieldName]: processedValue }));
     const error = validateField(fieldName, processedValue);
@@ -88,7 +117,6 @@ const PurchaseOrderFormModal: React.FC<PurchaseOrderFormModalProps> = ({ isOpen,
     if (!validateAll()) {
       return;
     }
-    const selectedProduct = products.find(p => p.id === formData.productId);
     if (!selectedProduct) {
         setErrors({ productId: "Invalid product selected." });
         return;
@@ -97,14 +125,16 @@ const PurchaseOrderFormModal: React.FC<PurchaseOrderFormModalProps> = ({ isOpen,
     setIsSaving(true);
     try {
         await onSave({ 
+            warehouseId: formData.warehouseId,
             vendorId: formData.vendorId,
             productId: formData.productId,
             productName: selectedProduct.name,
-            quantity: Number(formData.quantity),
+            unit: formData.unit,
+            unitQuantity: Number(formData.quantity),
             requestDate: new Date().toISOString(),
             notes: formData.notes,
         });
-        setFormData(initialFormState);
+        setFormData({ ...initialFormState, warehouseId: defaultWarehouseId || '' });
     } catch (error) {
         // Parent handles error toast
     } finally {
@@ -122,6 +152,14 @@ const PurchaseOrderFormModal: React.FC<PurchaseOrderFormModalProps> = ({ isOpen,
             <h2 className="text-xl font-bold text-slate-800">New Purchase Order</h2>
           </div>
           <div className="p-6 grid grid-cols-1 gap-y-4">
+            <div>
+              <label htmlFor="poWarehouseId" className="block text-sm font-medium text-slate-700 mb-1">Receive Into Warehouse</label>
+              <select name="warehouseId" id="poWarehouseId" value={formData.warehouseId} onChange={handleChange} onBlur={handleBlur} required className={`w-full border rounded-lg p-2 bg-slate-50 border-slate-300 focus:ring-primary-500 focus:border-primary-500 ${errors.warehouseId ? 'border-red-500' : 'border-slate-300'}`}>
+                <option value="" disabled>-- Select a Warehouse --</option>
+                {warehouses.map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
+              </select>
+              {errors.warehouseId && <p className="text-sm text-red-600 mt-1">{errors.warehouseId}</p>}
+            </div>
             <div>
               <label htmlFor="vendorId" className="block text-sm font-medium text-slate-700 mb-1">Vendor</label>
               <select name="vendorId" id="vendorId" value={formData.vendorId} onChange={handleChange} onBlur={handleBlur} required className={`w-full border rounded-lg p-2 bg-slate-50 border-slate-300 focus:ring-primary-500 focus:border-primary-500 ${errors.vendorId ? 'border-red-500' : 'border-slate-300'}`}>
@@ -134,14 +172,26 @@ const PurchaseOrderFormModal: React.FC<PurchaseOrderFormModalProps> = ({ isOpen,
               <label htmlFor="productId" className="block text-sm font-medium text-slate-700 mb-1">Product</label>
               <select name="productId" id="productId" value={formData.productId} onChange={handleChange} onBlur={handleBlur} required className={`w-full border rounded-lg p-2 bg-slate-50 border-slate-300 focus:ring-primary-500 focus:border-primary-500 ${errors.productId ? 'border-red-500' : 'border-slate-300'}`}>
                 <option value="" disabled>-- Select a Product --</option>
-                {products.map(p => <option key={p.id} value={p.id}>{p.name} (Current Stock: {formatNumber(p.quantity)})</option>)}
+                {products.map(p => <option key={p.id} value={p.id}>{p.name} (Current Stock: {formatQuantity(p.quantity, getBaseUnit(p))})</option>)}
               </select>
               {errors.productId && <p className="text-sm text-red-600 mt-1">{errors.productId}</p>}
             </div>
-            <div>
-              <label htmlFor="quantity" className="block text-sm font-medium text-slate-700 mb-1">Quantity to Order</label>
-              <input type="text" inputMode="numeric" name="quantity" id="quantity" value={formData.quantity ? formatNumber(Number(formData.quantity)) : ''} onChange={handleChange} onBlur={handleBlur} required className={`w-full border rounded-lg p-2 bg-slate-50 border-slate-300 focus:ring-primary-500 focus:border-primary-500 ${errors.quantity ? 'border-red-500' : 'border-slate-300'}`} />
-              {errors.quantity && <p className="text-sm text-red-600 mt-1">{errors.quantity}</p>}
+            <div className="grid grid-cols-3 gap-4">
+              <div className="col-span-2">
+                <label htmlFor="quantity" className="block text-sm font-medium text-slate-700 mb-1">Quantity to Order</label>
+                <input type="text" inputMode="numeric" name="quantity" id="quantity" value={formData.quantity ? formatNumber(Number(formData.quantity)) : ''} onChange={handleChange} onBlur={handleBlur} required className={`w-full border rounded-lg p-2 bg-slate-50 border-slate-300 focus:ring-primary-500 focus:border-primary-500 ${errors.quantity ? 'border-red-500' : 'border-slate-300'}`} />
+                {errors.quantity && <p className="text-sm text-red-600 mt-1">{errors.quantity}</p>}
+                {selectedProduct && unitFactor && unitFactor > 1 && Number(formData.quantity) > 0 && (
+                  <p className="text-xs text-slate-500 mt-1">= {formatQuantity(Number(formData.quantity) * unitFactor, getBaseUnit(selectedProduct))}</p>
+                )}
+              </div>
+              <div>
+                <label htmlFor="poUnit" className="block text-sm font-medium text-slate-700 mb-1">Unit</label>
+                <select name="unit" id="poUnit" value={formData.unit} onChange={handleChange} onBlur={handleBlur} disabled={!selectedProduct} required className={`w-full border rounded-lg p-2 bg-slate-50 border-slate-300 focus:ring-primary-500 focus:border-primary-500 disabled:opacity-50 ${errors.unit ? 'border-red-500' : 'border-slate-300'}`}>
+                  {selectedProduct ? getProductUnits(selectedProduct).map(u => <option key={u.unit} value={u.unit}>{u.unit}</option>) : <option value="">—</option>}
+                </select>
+                {errors.unit && <p className="text-sm text-red-600 mt-1">{errors.unit}</p>}
+              </div>
             </div>
             <div>
               <label htmlFor="notes" className="block text-sm font-medium text-slate-700 mb-1">Notes (Optional)</label>
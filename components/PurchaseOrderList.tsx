@@ -6,7 +6,10 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
 import { PurchaseOrder, UserRole, Vendor, Product } from '../types';
-import { formatDate, formatNumber } from '../utils/helpers';
+import { formatDate } from '../utils/helpers';
+import { formatDocumentQuantity } from '../utils/units';
+import { exportRows, describeSort, ExportContext, ExportFormat } from '../utils/exports';
+import ExportMenu from './ExportMenu';
 import { CheckIcon, XMarkIcon, ShoppingCartIcon as NoDataIcon, SearchIcon, SortIcon, SortUpIcon, SortDownIcon, CubeIcon } from './icons/Icons';
 
 interface PurchaseOrderListProps {
@@ -18,6 +21,7 @@ interface PurchaseOrderListProps {
   onViewDetails: (po: PurchaseOrder) => void;
   onMarkAsReceived: (po: PurchaseOrder) => void;
   userRole?: UserRole;
+  exportContext: ExportContext;
 }
 
 const getStatusBadge = (status: PurchaseOrder['status']) => {
@@ -38,6 +42,8 @@ const getStatusBadge = (status: PurchaseOrder['status']) => {
 type SortKey = 'vendorName' | 'productName' | 'status' | 'requestDate';
 type SortDirection = 'asc' | 'desc';
 
+const SORT_LABELS: Record<SortKey, string> = { vendorName: 'Vendor', productName: 'Product', status: 'Status', requestDate: 'Date' };
+
 const PO_TABLE_STATE_KEY = 'stockerz_po_table_state_v1';
 
 interface POTableState {
@@ -73,7 +79,7 @@ const getInitialState = (): POTableState => {
   };
 };
 
-const PurchaseOrderList: React.FC<PurchaseOrderListProps> = ({ purchaseOrders, vendors, onApprove, onReject, onViewDetails, onMarkAsReceived, userRole }) => {
+const PurchaseOrderList: React.FC<PurchaseOrderListProps> = ({ purchaseOrders, vendors, onApprove, onReject, onViewDetails, onMarkAsReceived, userRole, exportContext }) => {
   const [tableState, setTableState] = useState<POTableState>(getInitialState());
   const { startDate, endDate, vendorFilter, productSearch, sortConfig } = tableState;
 
@@ -185,6 +191,34 @@ const PurchaseOrderList: React.FC<PurchaseOrderListProps> = ({ purchaseOrders, v
   
   const isFiltered = startDate !== '' || endDate !== '' || vendorFilter !== 'all' || productSearch !== '';
 
+  const handleExport = (format: ExportFormat) => {
+    exportRows<PurchaseOrder>(format, {
+      title: 'Purchase Orders',
+      fileName: 'purchase_orders',
+      columns: [
+        { header: 'Vendor', value: po => vendorsMap.get(po.vendorId) || 'Unknown Vendor' },
+        { header: 'Product', value: po => po.productName },
+        { header: 'Quantity', value: po => formatDocumentQuantity(po), align: 'right' },
+        { header: 'Date', value: po => formatDate(po.requestDate) },
+        { header: 'Requested By', value: po => po.requestedBy },
+        { header: 'Status', value: po => po.status },
+        { header: 'Approved By', value: po => po.approvedBy || '' },
+        { header: 'Received By', value: po => po.receivedBy || '' },
+        { header: 'Lot', value: po => po.lotNumber || '' },
+      ],
+      rows: sortedPOs,
+      filters: [
+        ...exportContext.scope,
+        ...(productSearch ? [`Product: "${productSearch}"`] : []),
+        ...(vendorFilter !== 'all' ? [`Vendor: ${vendorsMap.get(vendorFilter) || vendorFilter}`] : []),
+        ...(startDate ? [`From: ${startDate}`] : []),
+        ...(endDate ? [`To: ${endDate}`] : []),
+        ...describeSort(SORT_LABELS[sortConfig.key], sortConfig.direction),
+      ],
+      exportedBy: exportContext.exportedBy,
+    });
+  };
+
   return (
     <div className="bg-white rounded-xl shadow-lg overflow-hidden">
       <div className="p-4 md:p-6 border-b border-slate-200">
@@ -219,6 +253,7 @@ const PurchaseOrderList: React.FC<PurchaseOrderListProps> = ({ purchaseOrders, v
               <span>Reset Filters</span>
             </button>
           )}
+          <ExportMenu onExport={handleExport} rowCount={sortedPOs.length} className="md:ml-auto" />
         </div>
       </div>
       <div className="overflow-x-auto">
@@ -247,7 +282,7 @@ const PurchaseOrderList: React.FC<PurchaseOrderListProps> = ({ purchaseOrders, v
               <tr key={po.id} className="block md:table-row bg-white hover:bg-slate-50 transition-colors cursor-pointer" onClick={() => onViewDetails(po)}>
                 <td className="px-6 py-4 font-semibold text-slate-900 block md:table-cell border border-slate-300" data-label="Vendor">{vendorsMap.get(po.vendorId) || 'Unknown Vendor'}</td>
                 <td className="px-6 py-4 block md:table-cell border border-slate-300" data-label="Product">{po.productName}</td>
-                <td className="px-6 py-4 text-left md:text-right font-medium block md:table-cell border border-slate-300" data-label="Quantity">{formatNumber(po.quantity)}</td>
+                <td className="px-6 py-4 text-left md:text-right font-medium block md:table-cell border border-slate-300" data-label="Quantity">{formatDocumentQuantity(po)}</td>
                 <td className="px-6 py-4 block md:table-cell border border-slate-300" data-label="Date">{formatDate(po.requestDate)}</td>
                 <td className="px-6 py-4 block md:table-cell border border-slate-300 capitalize" data-label="Requested By">{po.requestedBy}</td>
                 <td className="px-6 py-4 block md:table-cell border border-slate-300" data-label="Status">
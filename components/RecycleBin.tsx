@@ -0,0 +1,185 @@
+import React, { useState, useMemo } from 'react';
+import { Product, User, Vendor } from '../types';
+import { formatDate, formatNumber } from '../utils/helpers';
+import { RecordReferences, ReferenceCheck, checkProductRestore, checkProductPurge, checkVendorPurge, isArchived } from '../utils/recycleBin';
+import { SearchIcon, ArchiveBoxIcon, ArrowUturnLeftIcon, DeleteIcon, LoadingIcon } from './icons/Icons';
+
+type RecycleBinTab = 'products' | 'vendors';
+
+interface RecycleBinProps {
+  references: RecordReferences; // All products, archived ones included
+  vendors: Vendor[]; // All vendors, archived ones included
+  currentUser: User;
+  onRestoreProduct: (product: Product) => Promise<void>;
+  onRestoreVendor: (vendor: Vendor) => Promise<void>;
+  onPurgeProduct: (product: Product) => void;
+  onPurgeVendor: (vendor: Vendor) => void;
+}
+
+// One row of the bin: what it is, when and by whom it was deleted, and whether it can be restored or purged.
+interface BinRow {
+  id: string;
+  name: string;
+  detail: string;
+  archivedAt: string;
+  archivedBy: string;
+  restore: ReferenceCheck;
+  purge: ReferenceCheck;
+  onRestore: () => Promise<void>;
+  onPurge: () => void;
+}
+
+const byArchivedAtDesc = (a: BinRow, b: BinRow) => b.archivedAt.localeCompare(a.archivedAt);
+
+// Deleted products and vendors. Supervisors and above can restore them; only a Super Admin can purge them.
+const RecycleBin: React.FC<RecycleBinProps> = ({ references, vendors, currentUser, onRestoreProduct, onRestoreVendor, onPurgeProduct, onPurgeVendor }) => {
+  const [tab, setTab] = useState<RecycleBinTab>('products');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [restoringIds, setRestoringIds] = useState<Set<string>>(new Set());
+  const canPurge = currentUser.role === 'Super Admin';
+
+  const productRows = useMemo((): BinRow[] => references.products.filter(isArchived).map(p => ({
+    id: p.id,
+    name: p.name,
+    detail: `${p.sku} · ${p.category}`,
+    archivedAt: p.archivedAt || '',
+    archivedBy: p.archivedBy || '',
+    restore: checkProductRestore(p, references, vendors),
+    purge: checkProductPurge(p, references),
+    onRestore: () => onRestoreProduct(p),
+    onPurge: () => onPurgeProduct(p),
+  })).sort(byArchivedAtDesc), [references, vendors, onRestoreProduct, onPurgeProduct]);
+
+  const vendorRows = useMemo((): BinRow[] => vendors.filter(isArchived).map(v => ({
+    id: v.id,
+    name: v.name,
+    detail: [v.category, v.contactPerson].filter(Boolean).join(' · '),
+    archivedAt: v.archivedAt || '',
+    archivedBy: v.archivedBy || '',
+    restore: { blockers: [], warnings: [] },
+    purge: checkVendorPurge(v, references),
+    onRestore: () => onRestoreVendor(v),
+    onPurge: () => onPurgeVendor(v),
+  })).sort(byArchivedAtDesc), [references, vendors, onRestoreVendor, onPurgeVendor]);
+
+  const rows = tab === 'products' ? productRows : vendorRows;
+  const visibleRows = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    if (!term) return rows;
+    return rows.filter(r => r.name.toLowerCase().includes(term) || r.detail.toLowerCase().includes(term));
+  }, [rows, searchTerm]);
+
+  const handleRestore = async (row: BinRow) => {
+    setRestoringIds(prev => new Set(prev).add(row.id));
+    try {
+      await row.onRestore();
+    } catch (error) {
+      // Parent handles toast
+    } finally {
+      setRestoringIds(prev => {
+        const next = new Set(prev);
+        next.delete(row.id);
+        return next;
+      });
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg overflow-hidden">
+      <div className="p-4 md:p-6 border-b border-gray-200 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div className="grid grid-cols-2 gap-2 w-full md:w-auto" role="tablist" aria-label="Deleted records">
+          {(['products', 'vendors'] as RecycleBinTab[]).map(option => (
+            <button
+              key={option}
+              type="button"
+              role="tab"
+              aria-selected={tab === option}
+              onClick={() => setTab(option)}
+              className={`px-4 py-2 text-sm font-semibold rounded-lg border ${tab === option ? 'bg-primary-50 border-primary-500 text-primary-700' : 'bg-white border-gray-300 text-gray-600 hover:bg-gray-50'}`}
+            >
+              {option === 'products' ? 'Products' : 'Vendors'} ({formatNumber(option === 'products' ? productRows.length : vendorRows.length)})
+            </button>
+          ))}
+        </div>
+        <div className="relative md:w-80">
+          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+            <SearchIcon className="h-5 w-5 text-gray-400" />
+          </div>
+          <input
+            type="text"
+            placeholder={tab === 'products' ? 'Search by name, SKU or category...' : 'Search by name or contact...'}
+            value={searchTerm}
+            onChange={e => setSearchTerm(e.target.value)}
+            className="w-full pl-10 pr-4 py-2 border rounded-lg bg-gray-50 border-gray-300 placeholder-gray-400 focus:ring-primary-500 focus:border-primary-500"
+          />
+        </div>
+      </div>
+
+      {visibleRows.length === 0 ? (
+        <div className="text-center py-16 px-6">
+          <ArchiveBoxIcon className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-lg font-medium text-gray-900">{searchTerm ? 'No matches' : 'The recycle bin is empty'}</h3>
+          <p className="mt-1 text-sm text-gray-500">{searchTerm ? 'Try a different search.' : `Deleted ${tab} appear here until they are restored${canPurge ? ' or deleted permanently' : ''}.`}</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left text-gray-600 border-collapse border border-gray-300">
+            <thead className="text-xs text-gray-700 uppercase bg-gray-50 hidden md:table-header-group">
+              <tr>
+                <th scope="col" className="px-6 py-3 border border-gray-300">{tab === 'products' ? 'Product' : 'Vendor'}</th>
+                <th scope="col" className="px-6 py-3 border border-gray-300">Deleted</th>
+                <th scope="col" className="px-6 py-3 border border-gray-300">Deleted By</th>
+                <th scope="col" className="px-6 py-3 border border-gray-300 text-center">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="block md:table-row-group">
+              {visibleRows.map(row => {
+                const isRestoring = restoringIds.has(row.id);
+                const notes = [...row.restore.blockers, ...(canPurge ? row.purge.blockers.map(b => `Kept for history: ${b}`) : [])];
+                return (
+                  <tr key={row.id} className="block md:table-row bg-white hover:bg-gray-50 align-top">
+                    <td className="px-6 py-4 block md:table-cell border border-gray-300" data-label={tab === 'products' ? 'Product' : 'Vendor'}>
+                      <p className="font-semibold text-gray-900">{row.name}</p>
+                      {row.detail && <p className="text-xs text-gray-500 mt-0.5">{row.detail}</p>}
+                      {notes.map((note, i) => <p key={i} className="text-xs text-amber-700 mt-1">{note}</p>)}
+                    </td>
+                    <td className="px-6 py-4 block md:table-cell border border-gray-300" data-label="Deleted">{row.archivedAt ? formatDate(row.archivedAt) : 'N/A'}</td>
+                    <td className="px-6 py-4 block md:table-cell border border-gray-300 capitalize" data-label="Deleted By">{row.archivedBy || 'N/A'}</td>
+                    <td className="px-6 py-4 block md:table-cell border border-gray-300" data-label="Actions">
+                      <div className="flex items-center justify-start md:justify-center gap-2">
+                        <button
+                          type="button"
+                          onClick={() => handleRestore(row)}
+                          disabled={isRestoring || row.restore.blockers.length > 0}
+                          title={row.restore.blockers.join(' ') || 'Restore'}
+                          className="flex items-center gap-1.5 px-3 py-1.5 border border-gray-300 rounded-lg text-sm font-semibold text-gray-700 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          {isRestoring ? <LoadingIcon className="w-4 h-4 animate-spin" /> : <ArrowUturnLeftIcon className="w-4 h-4" />}
+                          <span>Restore</span>
+                        </button>
+                        {canPurge && (
+                          <button
+                            type="button"
+                            onClick={row.onPurge}
+                            disabled={isRestoring || row.purge.blockers.length > 0}
+                            title={row.purge.blockers.join(' ') || 'Delete permanently'}
+                            className="p-2 text-red-600 rounded-lg hover:bg-red-100 disabled:opacity-40 disabled:cursor-not-allowed"
+                            aria-label={`Delete ${row.name} permanently`}
+                          >
+                            <DeleteIcon className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecycleBin;
@@ -0,0 +1,25 @@
+import React from 'react';
+import { ReferenceCheck } from '../utils/recycleBin';
+
+// Lists what stops a delete, restore or purge, and what the user should know before going ahead.
+const ReferenceCheckNotice: React.FC<{ check: ReferenceCheck }> = ({ check }) => (
+  <>
+    {check.blockers.length > 0 && (
+      <div className="mt-4 text-left text-sm bg-red-50 border border-red-200 rounded-lg p-3">
+        <p className="font-semibold text-red-800">This can't be done yet:</p>
+        <ul className="mt-1 list-disc pl-5 text-red-700 space-y-0.5 max-h-40 overflow-y-auto">
+          {check.blockers.map((blocker, i) => <li key={i}>{blocker}</li>)}
+        </ul>
+      </div>
+    )}
+    {check.warnings.length > 0 && (
+      <div className="mt-4 text-left text-sm bg-amber-50 border border-amber-200 rounded-lg p-3">
+        <ul className="list-disc pl-5 text-amber-800 space-y-0.5 max-h-40 overflow-y-auto">
+          {check.warnings.map((warning, i) => <li key={i}>{warning}</li>)}
+        </ul>
+      </div>
+    )}
+  </>
+);
+
+export default ReferenceCheckNotice;
@@ -0,0 +1,233 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { CategoryStockLevels, Product, PurchaseOrder, StockStatus, User, Vendor, Warehouse } from '../types';
+import { formatNumber } from '../utils/helpers';
+import { ResolvedStockLevels, resolveStockLevels, getStockStatus, needsReorder, getOpenOrderQuantity, suggestOrderQuantity, STOCK_STATUS_LABELS, STOCK_STATUS_BADGES } from '../utils/stockLevels';
+import { ALL_WAREHOUSES, getWarehouseName } from '../utils/warehouses';
+import { TruckIcon, LoadingIcon } from './icons/Icons';
+
+export interface ReplenishmentLine {
+  productId: string;
+  productName: string;
+  vendorId: string;
+  quantity: number;
+}
+
+interface ReplenishmentListProps {
+  products: Product[];
+  purchaseOrders: PurchaseOrder[];
+  vendors: Vendor[];
+  categoryStockLevels: CategoryStockLevels[];
+  warehouses: Warehouse[];
+  reservedQuantities: Map<string, number>; // Stock held for approved requests, by product id
+  selectedWarehouseId: string;
+  defaultWarehouseId?: string;
+  currentUser: User;
+  onCreateOrders: (lines: ReplenishmentLine[], warehouseId: string) => Promise<void>;
+}
+
+interface Suggestion {
+  product: Product;
+  levels: ResolvedStockLevels;
+  available: number; // On hand less reserved
+  status: StockStatus;
+  openQuantity: number;
+  suggestedQuantity: number;
+}
+
+interface LineState {
+  selected: boolean;
+  vendorId: string;
+  quantity: string;
+}
+
+const ReplenishmentList: React.FC<ReplenishmentListProps> = ({ products, purchaseOrders, vendors, categoryStockLevels, warehouses, reservedQuantities, selectedWarehouseId, defaultWarehouseId, currentUser, onCreateOrders }) => {
+  const [lines, setLines] = useState<Record<string, LineState>>({});
+  const [targetWarehouseId, setTargetWarehouseId] = useState(defaultWarehouseId || '');
+  const [isCreating, setIsCreating] = useState(false);
+  const canCreateOrders = currentUser.role !== 'Viewer';
+  const isAllWarehouses = selectedWarehouseId === ALL_WAREHOUSES;
+
+  useEffect(() => {
+    setTargetWarehouseId(isAllWarehouses ? (defaultWarehouseId || '') : selectedWarehouseId);
+  }, [isAllWarehouses, selectedWarehouseId, defaultWarehouseId]);
+
+  // Products whose available stock is at or below their reorder point, most urgent first. Reserved
+  // stock is already promised to approved requests, so it does not count towards the levels.
+  const suggestions = useMemo((): Suggestion[] => {
+    return products
+      .map(product => {
+        const levels = resolveStockLevels(product, categoryStockLevels);
+        const available = Math.max(product.quantity - (reservedQuantities.get(product.id) || 0), 0);
+        const openQuantity = getOpenOrderQuantity(purchaseOrders, product.id);
+        return {
+          product,
+          levels,
+          available,
+          status: getStockStatus(available, levels),
+          openQuantity,
+          suggestedQuantity: suggestOrderQuantity(available, levels, openQuantity),
+        };
+      })
+      .filter(s => needsReorder(s.status))
+      .sort((a, b) => (a.available - a.levels.reorderPoint) - (b.available - b.levels.reorderPoint));
+  }, [products, purchaseOrders, categoryStockLevels, reservedQuantities]);
+
+  // Only edited rows are kept in state; untouched rows follow the live suggestion and preferred vendor.
+  const getLine = (suggestion: Suggestion): LineState => {
+    const edited = lines[suggestion.product.id];
+    if (edited) return edited;
+    const hasPreferredVendor = vendors.some(v => v.id === suggestion.product.supplierId);
+    return {
+      selected: hasPreferredVendor && suggestion.suggestedQuantity > 0,
+      vendorId: hasPreferredVendor ? suggestion.product.supplierId : '',
+      quantity: String(suggestion.suggestedQuantity),
+    };
+  };
+
+  const updateLine = (suggestion: Suggestion, changes: Partial<LineState>) => {
+    setLines(prev => ({ ...prev, [suggestion.product.id]: { ...getLine(suggestion), ...changes } }));
+  };
+
+  const isLineValid = (line: LineState) => !!line.vendorId && Number(line.quantity) > 0;
+
+  const selectedLines = suggestions.filter(s => getLine(s).selected);
+  const invalidSelectedCount = selectedLines.filter(s => !isLineValid(getLine(s))).length;
+  const allSelected = suggestions.length > 0 && selectedLines.length === suggestions.length;
+
+  const handleSelectAll = (checked: boolean) => {
+    const next: Record<string, LineState> = {};
+    suggestions.forEach(s => { next[s.product.id] = { ...getLine(s), selected: checked }; });
+    setLines(next);
+  };
+
+  const handleCreate = async () => {
+    if (!targetWarehouseId || selectedLines.length === 0 || invalidSelectedCount > 0) return;
+    setIsCreating(true);
+    try {
+      await onCreateOrders(
+        selectedLines.map(s => ({
+          productId: s.product.id,
+          productName: s.product.name,
+          vendorId: getLine(s).vendorId,
+          quantity: Number(getLine(s).quantity),
+        })),
+        targetWarehouseId,
+      );
+      // Ordered rows are now on open orders, so drop the edits and show the fresh suggestions.
+      setLines({});
+    } catch (error) {
+      // Parent handles error toast
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-4 md:p-6 rounded-xl shadow-lg flex flex-col md:flex-row md:items-center gap-4">
+        <div className="flex-1">
+          <h2 className="text-lg font-bold text-gray-800">Suggested Purchase Orders</h2>
+          <p className="text-sm text-gray-500">
+            Products at or below their reorder point{isAllWarehouses ? ' across all warehouses' : ` in ${getWarehouseName(warehouses, selectedWarehouseId)}`}. Quantities already on open purchase orders are subtracted from each suggestion.
+          </p>
+        </div>
+        {canCreateOrders && (
+          <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+            {isAllWarehouses && (
+              <select value={targetWarehouseId} onChange={e => setTargetWarehouseId(e.target.value)} className="border rounded-lg p-2 bg-slate-50 border-slate-300 text-sm focus:ring-primary-500 focus:border-primary-500" aria-label="Receive into warehouse">
+                <option value="" disabled>Receive into...</option>
+                {warehouses.map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
+              </select>
+            )}
+            <button onClick={handleCreate} disabled={isCreating || !targetWarehouseId || selectedLines.length === 0 || invalidSelectedCount > 0} className="flex items-center justify-center gap-2 px-4 py-2 bg-primary-600 text-white font-semibold rounded-lg hover:bg-primary-700 disabled:bg-primary-400 min-w-[14rem]">
+              {isCreating ? <LoadingIcon className="w-5 h-5 animate-spin" /> : <><TruckIcon className="w-5 h-5" /><span>Create {selectedLines.length} Purchase Order{selectedLines.length === 1 ? '' : 's'}</span></>}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {invalidSelectedCount > 0 && (
+        <p className="text-sm text-red-600">{invalidSelectedCount} selected row{invalidSelectedCount === 1 ? ' needs' : 's need'} a vendor and a quantity above zero.</p>
+      )}
+
+      <div className="bg-white rounded-xl shadow-lg overflow-x-auto">
+        {suggestions.length === 0 ? (
+          <div className="text-center py-16 text-gray-500">
+            <TruckIcon className="w-12 h-12 mx-auto text-gray-300 mb-2" />
+            <p className="font-semibold">Nothing to reorder.</p>
+            <p className="text-sm">Every product is above its reorder point.</p>
+          </div>
+        ) : (
+          <table className="w-full text-sm text-left text-gray-600">
+            <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+              <tr>
+                {canCreateOrders && (
+                  <th scope="col" className="px-4 py-3">
+                    <input type="checkbox" checked={allSelected} onChange={e => handleSelectAll(e.target.checked)} className="rounded border-gray-300 text-primary-600 focus:ring-primary-500" aria-label="Select all" />
+                  </th>
+                )}
+                <th scope="col" className="px-4 py-3">Product</th>
+                <th scope="col" className="px-4 py-3 text-right">Available</th>
+                <th scope="col" className="px-4 py-3 text-right">Reorder Point</th>
+                <th scope="col" className="px-4 py-3 text-right">Max</th>
+                <th scope="col" className="px-4 py-3 text-right">On Order</th>
+                <th scope="col" className="px-4 py-3">Vendor</th>
+                <th scope="col" className="px-4 py-3 text-right">Order Qty</th>
+              </tr>
+            </thead>
+            <tbody>
+              {suggestions.map(suggestion => {
+                const { product, levels, available, status, openQuantity, suggestedQuantity } = suggestion;
+                const line = getLine(suggestion);
+                const hasError = line.selected && !isLineValid(line);
+                return (
+                  <tr key={product.id} className={`border-b ${hasError ? 'bg-red-50' : 'bg-white hover:bg-gray-50'}`}>
+                    {canCreateOrders && (
+                      <td className="px-4 py-3">
+                        <input type="checkbox" checked={line.selected} onChange={e => updateLine(suggestion, { selected: e.target.checked })} className="rounded border-gray-300 text-primary-600 focus:ring-primary-500" aria-label={`Select ${product.name}`} />
+                      </td>
+                    )}
+                    <td className="px-4 py-3">
+                      <div className="font-medium text-gray-900">{product.name}</div>
+                      <div className="flex items-center gap-2 mt-1">
+                        <span className="text-xs text-gray-500">{product.sku}</span>
+                        <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${STOCK_STATUS_BADGES[status]}`}>{STOCK_STATUS_LABELS[status]}</span>
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      <div className="font-semibold text-red-600">{formatNumber(available)}</div>
+                      {available !== product.quantity && <div className="text-xs text-gray-500">{formatNumber(product.quantity)} on hand</div>}
+                    </td>
+                    <td className="px-4 py-3 text-right">{formatNumber(levels.reorderPoint)}</td>
+                    <td className="px-4 py-3 text-right">{levels.maxStock !== undefined ? formatNumber(levels.maxStock) : '—'}</td>
+                    <td className="px-4 py-3 text-right">{openQuantity > 0 ? formatNumber(openQuantity) : '—'}</td>
+                    <td className="px-4 py-3">
+                      <select value={line.vendorId} onChange={e => updateLine(suggestion, { vendorId: e.target.value })} disabled={!canCreateOrders} className="w-full min-w-[10rem] border rounded-lg p-2 bg-slate-50 border-slate-300 focus:ring-primary-500 focus:border-primary-500" aria-label={`Vendor for ${product.name}`}>
+                        <option value="">Select a vendor</option>
+                        {vendors.map(v => <option key={v.id} value={v.id}>{v.name}{v.id === product.supplierId ? ' (preferred)' : ''}</option>)}
+                      </select>
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      <input
+                        type="text"
+                        inputMode="numeric"
+                        value={line.quantity}
+                        onChange={e => updateLine(suggestion, { quantity: e.target.value.replace(/\D/g, '') })}
+                        disabled={!canCreateOrders}
+                        title={`Suggested: ${formatNumber(suggestedQuantity)}`}
+                        className="w-24 border rounded-lg p-2 text-right bg-slate-50 border-slate-300 focus:ring-primary-500 focus:border-primary-500"
+                        aria-label={`Order quantity for ${product.name}`}
+                      />
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReplenishmentList;
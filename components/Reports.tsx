@@ -1,55 +1,61 @@
-
 import React, { useState, useMemo } from 'react';
-import { Request, PurchaseOrder, Vendor, StockMovement } from '../types';
-import { formatDate, formatNumber } from '../utils/helpers';
+import { Product, ProductPrice, PurchaseOrder, Vendor, StockMovement, StockMovementType, Warehouse } from '../types';
+import { formatCurrency, formatDate, formatNumber } from '../utils/helpers';
+import { getWarehouseName } from '../utils/warehouses';
+import { getBaseUnit } from '../utils/units';
+import { getPriceAt } from '../utils/prices';
+import { exportRows, describeSort, ExportContext, ExportFormat } from '../utils/exports';
+import ExportMenu from './ExportMenu';
 import { SearchIcon, XMarkIcon, ChartBarIcon, SortIcon, SortUpIcon, SortDownIcon } from './icons/Icons';
 
 interface ReportsProps {
-  requests: Request[];
+  movements: StockMovement[];
+  products: Product[];
   purchaseOrders: PurchaseOrder[];
   vendors: Vendor[];
+  warehouses: Warehouse[];
+  priceHistory: Map<string, ProductPrice[]>; // Price history by product id, oldest first
+  exportContext: ExportContext;
 }
 
 type SortKey = 'date' | 'productName' | 'type';
 type SortDirection = 'asc' | 'desc';
+// Movements are valued at the cost the ledger recorded, or at the selling price in force when they were posted.
+type ValueBasis = 'cost' | 'price';
+
+const SORT_LABELS: Record<SortKey, string> = { date: 'Date', productName: 'Product', type: 'Type' };
 
-const Reports: React.FC<ReportsProps> = ({ requests, purchaseOrders, vendors }) => {
+const MOVEMENT_TYPES: StockMovementType[] = ['Opening', 'Receipt', 'Issue', 'Adjustment', 'Return', 'Transfer', 'Assembly', 'Disassembly', 'Revaluation'];
+
+const Reports: React.FC<ReportsProps> = ({ movements, products, purchaseOrders, vendors, warehouses, priceHistory, exportContext }) => {
   const [startDate, setStartDate] = useState('');
   const [endDate, setEndDate] = useState('');
-  const [typeFilter, setTypeFilter] = useState<'all' | 'Incoming' | 'Outgoing'>('all');
+  const [typeFilter, setTypeFilter] = useState<'all' | StockMovementType>('all');
   const [productSearch, setProductSearch] = useState('');
+  const [valueBasis, setValueBasis] = useState<ValueBasis>('cost');
   const [sortConfig, setSortConfig] = useState<{ key: SortKey; direction: SortDirection }>({ key: 'date', direction: 'desc' });
 
   const vendorsMap = useMemo(() => new Map(vendors.map(v => [v.id, v.name])), [vendors]);
+  const purchaseOrdersMap = useMemo(() => new Map(purchaseOrders.map(po => [po.id, po])), [purchaseOrders]);
+  const productsMap = useMemo(() => new Map(products.map(p => [p.id, p])), [products]);
+
+  // Movements are always posted in the product's base unit.
+  const getUnit = (item: StockMovement): string => getBaseUnit(productsMap.get(item.productId));
+
+  const getValue = (item: StockMovement): number | undefined => {
+    if (valueBasis === 'cost') return item.valueChange ?? undefined;
+    const price = getPriceAt(priceHistory.get(item.productId), item.date);
+    return price === undefined ? undefined : price * item.quantityChange;
+  };
+
+  const getDetails = (item: StockMovement): string => {
+    if (item.referenceType === 'purchase_order' && item.referenceId) {
+      const po = purchaseOrdersMap.get(item.referenceId);
+      return `From: ${(po && vendorsMap.get(po.vendorId)) || 'Unknown Vendor'}`;
+    }
+    return item.notes || '';
+  };
 
-  const stockMovements = useMemo((): StockMovement[] => {
-    const incoming: StockMovement[] = purchaseOrders
-      .filter(po => po.status === 'Approved' && po.actionDate)
-      .map(po => ({
-        id: po.id,
-        date: po.actionDate!,
-        productName: po.productName,
-        type: 'Incoming',
-        quantity: po.quantity,
-        details: `From: ${vendorsMap.get(po.vendorId) || 'Unknown Vendor'}`,
-        user: po.approvedBy || 'N/A',
-      }));
-
-    const outgoing: StockMovement[] = requests
-      .filter(req => (req.status === 'Approved' || req.status === 'Collected') && req.actionDate)
-      .map(req => ({
-        id: req.id,
-        date: req.actionDate!,
-        productName: req.productName,
-        type: 'Outgoing',
-        quantity: -req.quantity,
-        details: `To: ${req.requestingDivision}`,
-        user: req.approvedBy || 'N/A',
-      }));
-
-    return [...incoming, ...outgoing];
-  }, [requests, purchaseOrders, vendorsMap]);
-  
   const parseDDMMYYYY = (dateString: string): Date | null => {
     if (!dateString || !/^\d{2}\/\d{2}\/\d{4}$/.test(dateString)) return null;
     const parts = dateString.split('/');
@@ -64,7 +70,7 @@ const Reports: React.FC<ReportsProps> = ({ requests, purchaseOrders, vendors })
     const filterStartDate = parseDDMMYYYY(startDate);
     const filterEndDate = parseDDMMYYYY(endDate);
 
-    const filtered = stockMovements.filter(item => {
+    const filtered = movements.filter(item => {
       if (filterStartDate || filterEndDate) {
         const itemDate = new Date(item.date);
         if (filterStartDate) {
@@ -101,7 +107,7 @@ const Reports: React.FC<ReportsProps> = ({ requests, purchaseOrders, vendors })
       if (aValue > bValue) return 1 * dir;
       return 0;
     });
-  }, [stockMovements, startDate, endDate, typeFilter, productSearch, sortConfig]);
+  }, [movements, startDate, endDate, typeFilter, productSearch, sortConfig]);
 
   const handleReset = () => {
     setStartDate('');
@@ -124,31 +130,35 @@ const Reports: React.FC<ReportsProps> = ({ requests, purchaseOrders, vendors })
     return <SortDownIcon className="h-4 w-4 text-primary-500" />;
   };
 
-  const handleExportCSV = () => {
-    if (sortedMovements.length === 0) return;
-
-    const headers = "Date,Product Name,Type,Quantity,Details,Reference ID,User\n";
-    const csvContent = sortedMovements.map(item => 
-        [
-            formatDate(item.date),
-            `"${item.productName.replace(/"/g, '""')}"`,
-            item.type,
-            item.quantity,
-            `"${item.details.replace(/"/g, '""')}"`,
-            item.id,
-            item.user
-        ].join(',')
-    ).join('\n');
-    
-    const blob = new Blob([headers + csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    const url = URL.createObjectURL(blob);
-    link.href = url;
-    link.setAttribute('download', `stock_movement_report_${new Date().toISOString().split('T')[0]}.csv`);
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+  const handleExport = (format: ExportFormat) => {
+    exportRows<StockMovement>(format, {
+      title: 'Stock Movement Report',
+      fileName: 'stock_movement_report',
+      columns: [
+        { header: 'Date', value: item => formatDate(item.date) },
+        { header: 'Product Name', value: item => item.productName },
+        { header: 'Warehouse', value: item => getWarehouseName(warehouses, item.warehouseId) },
+        { header: 'Type', value: item => item.type },
+        { header: 'Quantity', value: item => item.quantityChange, align: 'right' },
+        { header: 'Balance', value: item => item.balanceAfter, align: 'right' },
+        { header: 'Unit', value: item => getUnit(item) },
+        { header: valueBasis === 'cost' ? 'Value' : 'Value at Price', value: item => { const value = getValue(item); return value === undefined ? '' : Math.round(value * 100) / 100; }, align: 'right' },
+        { header: 'Details', value: item => getDetails(item) },
+        { header: 'Reference ID', value: item => item.referenceId || '' },
+        { header: 'User', value: item => item.user },
+      ],
+      rows: sortedMovements,
+      filters: [
+        ...exportContext.scope,
+        ...(productSearch ? [`Product: "${productSearch}"`] : []),
+        ...(typeFilter !== 'all' ? [`Type: ${typeFilter}`] : []),
+        ...(startDate ? [`From: ${startDate}`] : []),
+        ...(endDate ? [`To: ${endDate}`] : []),
+        `Value at: ${valueBasis === 'cost' ? 'Cost' : 'Price in force'}`,
+        ...describeSort(SORT_LABELS[sortConfig.key], sortConfig.direction),
+      ],
+      exportedBy: exportContext.exportedBy,
+    });
   };
   
   const isFiltered = startDate || endDate || typeFilter !== 'all' || productSearch;
@@ -170,12 +180,11 @@ const Reports: React.FC<ReportsProps> = ({ requests, purchaseOrders, vendors })
             <label htmlFor="reportTypeFilter" className="block text-sm font-medium text-gray-600 mb-1">Movement Type</label>
             <select id="reportTypeFilter" value={typeFilter} onChange={e => setTypeFilter(e.target.value as any)} className="w-full border rounded-lg py-2 px-3 bg-gray-700 text-white border-gray-600 focus:ring-primary-500 focus:border-primary-500">
               <option value="all">All</option>
-              <option value="Incoming">Incoming</option>
-              <option value="Outgoing">Outgoing</option>
+              {MOVEMENT_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
             </select>
           </div>
           <div>
-            <button onClick={handleExportCSV} className="w-full px-4 py-2 border border-gray-300 rounded-lg text-sm text-gray-600 hover:bg-gray-100 transition-colors">Export CSV</button>
+            <ExportMenu onExport={handleExport} rowCount={sortedMovements.length} />
           </div>
           <div>
             <label htmlFor="reportStartDate" className="block text-sm font-medium text-gray-600 mb-1">Start Date</label>
@@ -185,6 +194,13 @@ const Reports: React.FC<ReportsProps> = ({ requests, purchaseOrders, vendors })
             <label htmlFor="reportEndDate" className="block text-sm font-medium text-gray-600 mb-1">End Date</label>
             <input type="text" id="reportEndDate" value={endDate} onChange={e => setEndDate(e.target.value)} className="w-full border rounded-lg py-2 px-3 bg-gray-700 text-white border-gray-600 focus:ring-primary-500 focus:border-primary-500" placeholder="dd/mm/yyyy" />
           </div>
+          <div>
+            <label htmlFor="reportValueBasis" className="block text-sm font-medium text-gray-600 mb-1">Value Movements At</label>
+            <select id="reportValueBasis" value={valueBasis} onChange={e => setValueBasis(e.target.value as ValueBasis)} className="w-full border rounded-lg py-2 px-3 bg-gray-700 text-white border-gray-600 focus:ring-primary-500 focus:border-primary-500">
+              <option value="cost">Cost</option>
+              <option value="price">Price in force</option>
+            </select>
+          </div>
           {isFiltered && (
             <button onClick={handleReset} className="flex items-center justify-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-sm text-gray-600 hover:bg-gray-100 transition-colors h-10">
               <XMarkIcon className="h-4 w-4" />
@@ -199,8 +215,11 @@ const Reports: React.FC<ReportsProps> = ({ requests, purchaseOrders, vendors })
             <tr>
               <th scope="col" className="px-6 py-3 border border-gray-300"><button onClick={() => requestSort('date')} className="flex items-center gap-1.5">Date {getSortIcon('date')}</button></th>
               <th scope="col" className="px-6 py-3 border border-gray-300"><button onClick={() => requestSort('productName')} className="flex items-center gap-1.5">Product {getSortIcon('productName')}</button></th>
+              <th scope="col" className="px-6 py-3 border border-gray-300">Warehouse</th>
               <th scope="col" className="px-6 py-3 border border-gray-300"><button onClick={() => requestSort('type')} className="flex items-center gap-1.5">Type {getSortIcon('type')}</button></th>
               <th scope="col" className="px-6 py-3 text-right border border-gray-300">Quantity</th>
+              <th scope="col" className="px-6 py-3 text-right border border-gray-300">Balance</th>
+              <th scope="col" className="px-6 py-3 text-right border border-gray-300">{valueBasis === 'cost' ? 'Value' : 'Value at Price'}</th>
               <th scope="col" className="px-6 py-3 border border-gray-300">Details</th>
               <th scope="col" className="px-6 py-3 border border-gray-300">Reference ID</th>
               <th scope="col" className="px-6 py-3 border border-gray-300">User</th>
@@ -208,29 +227,33 @@ const Reports: React.FC<ReportsProps> = ({ requests, purchaseOrders, vendors })
           </thead>
           <tbody>
             {sortedMovements.map(item => (
-              <tr key={item.id + item.type} className="block md:table-row bg-white hover:bg-gray-50">
+              <tr key={item.id} className="block md:table-row bg-white hover:bg-gray-50">
                 <td className="px-6 py-4 block md:table-cell border border-gray-300" data-label="Date">{formatDate(item.date)}</td>
                 <td className="px-6 py-4 font-semibold text-gray-900 block md:table-cell border border-gray-300" data-label="Product">{item.productName}</td>
+                <td className="px-6 py-4 block md:table-cell border border-gray-300" data-label="Warehouse">{getWarehouseName(warehouses, item.warehouseId)}</td>
                 <td className="px-6 py-4 block md:table-cell border border-gray-300" data-label="Type">
-                  <span className={`px-2 py-1 text-xs font-semibold rounded-full ${item.type === 'Incoming' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+                  <span className={`px-2 py-1 text-xs font-semibold rounded-full ${item.quantityChange >= 0 ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
                     {item.type}
                   </span>
                 </td>
-                <td className={`px-6 py-4 text-left md:text-right font-bold block md:table-cell border border-gray-300 ${item.quantity > 0 ? 'text-green-600' : 'text-red-600'}`} data-label="Quantity">
-                  {item.quantity > 0 ? `+${formatNumber(item.quantity)}` : formatNumber(item.quantity)}
+                <td className={`px-6 py-4 text-left md:text-right font-bold block md:table-cell border border-gray-300 ${item.quantityChange > 0 ? 'text-green-600' : 'text-red-600'}`} data-label="Quantity">
+                  {item.quantityChange > 0 ? `+${formatNumber(item.quantityChange)}` : formatNumber(item.quantityChange)}
+                  <span className="ml-1 text-xs font-normal text-gray-500">{getUnit(item)}</span>
                 </td>
-                <td className="px-6 py-4 block md:table-cell border border-gray-300" data-label="Details">{item.details}</td>
-                <td className="px-6 py-4 text-xs text-gray-500 block md:table-cell border border-gray-300" data-label="Reference ID">{item.id}</td>
+                <td className="px-6 py-4 text-left md:text-right block md:table-cell border border-gray-300" data-label="Balance">{formatNumber(item.balanceAfter)} <span className="text-xs text-gray-500">{getUnit(item)}</span></td>
+                <td className="px-6 py-4 text-left md:text-right block md:table-cell border border-gray-300" data-label="Value">{(() => { const value = getValue(item); return value === undefined ? 'N/A' : formatCurrency(value, 'IDR'); })()}</td>
+                <td className="px-6 py-4 block md:table-cell border border-gray-300" data-label="Details">{getDetails(item)}</td>
+                <td className="px-6 py-4 text-xs text-gray-500 block md:table-cell border border-gray-300" data-label="Reference ID">{item.referenceId || 'N/A'}</td>
                 <td className="px-6 py-4 block md:table-cell border border-gray-300 capitalize" data-label="User">{item.user}</td>
               </tr>
             ))}
             {sortedMovements.length === 0 && (
               <tr className="md:table-row">
-                <td colSpan={7} className="text-center py-16 text-gray-500 block md:table-cell border border-gray-300">
+                <td colSpan={10} className="text-center py-16 text-gray-500 block md:table-cell border border-gray-300">
                   <div className="flex flex-col items-center justify-center">
                     <ChartBarIcon className="h-16 w-16 text-gray-300 mb-3" />
                     <p className="font-semibold text-lg">No stock movements found.</p>
-                    <p>{isFiltered ? 'Try adjusting your filters.' : 'Data will appear here once transactions are approved.'}</p>
+                    <p>{isFiltered ? 'Try adjusting your filters.' : 'Data will appear here once stock is received, issued or adjusted.'}</p>
                   </div>
                 </td>
               </tr>
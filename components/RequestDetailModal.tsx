@@ -1,12 +1,16 @@
 import React from 'react';
-import { Request } from '../types';
-import { formatDate, formatNumber } from '../utils/helpers';
+import { Request, Warehouse } from '../types';
+import { formatCurrency, formatDate, formatNumber } from '../utils/helpers';
+import { getWarehouseName } from '../utils/warehouses';
+import { formatDocumentQuantity } from '../utils/units';
+import { holdsReservation } from '../utils/reservations';
 import { XMarkIcon } from './icons/Icons';
 
 interface RequestDetailModalProps {
   isOpen: boolean;
   onClose: () => void;
   request?: Request;
+  warehouses: Warehouse[];
 }
 
 const getStatusBadge = (status: Request['status']) => {
@@ -19,6 +23,10 @@ const getStatusBadge = (status: Request['status']) => {
       return 'bg-red-100 text-red-800';
     case 'Collected':
       return 'bg-sky-100 text-sky-800';
+    case 'Cancelled':
+      return 'bg-slate-200 text-slate-700';
+    case 'Expired':
+      return 'bg-orange-100 text-orange-800';
     default:
       return 'bg-slate-100 text-slate-800';
   }
@@ -45,7 +53,7 @@ const DetailItem: React.FC<{ label: string; children: React.ReactNode }> = ({ la
 );
 
 
-const RequestDetailModal: React.FC<RequestDetailModalProps> = ({ isOpen, onClose, request }) => {
+const RequestDetailModal: React.FC<RequestDetailModalProps> = ({ isOpen, onClose, request, warehouses }) => {
   if (!isOpen || !request) return null;
 
   return (
@@ -71,8 +79,9 @@ const RequestDetailModal: React.FC<RequestDetailModalProps> = ({ isOpen, onClose
         <div className="p-6 grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-5">
           <DetailItem label="Request ID">{request.id}</DetailItem>
           <DetailItem label="Requesting Division">{request.requestingDivision}</DetailItem>
+          <DetailItem label="Warehouse">{getWarehouseName(warehouses, request.warehouseId)}</DetailItem>
           <DetailItem label="Product Name">{request.productName}</DetailItem>
-          <DetailItem label="Quantity Requested">{formatNumber(request.quantity)} units</DetailItem>
+          <DetailItem label="Quantity Requested">{formatDocumentQuantity(request)}</DetailItem>
           <DetailItem label="Request Date">{formatDate(request.requestDate)}</DetailItem>
           <DetailItem label="Priority">
              <span className={`px-2 py-1 text-xs font-semibold rounded-full ${getPriorityBadge(request.priority)}`}>
@@ -88,11 +97,24 @@ const RequestDetailModal: React.FC<RequestDetailModalProps> = ({ isOpen, onClose
           </div>
            {request.approvedBy && request.actionDate && (
              <div className="sm:col-span-2">
-                <DetailItem label={`Action Taken By (${request.status === 'Collected' ? 'Approved' : request.status})`}>
+                <DetailItem label={`Action Taken By (${request.status === 'Rejected' ? 'Rejected' : 'Approved'})`}>
                   <span className="capitalize">{request.approvedBy}</span> on {formatDate(request.actionDate)}
                 </DetailItem>
              </div>
            )}
+           {holdsReservation(request) && (
+             <div className="sm:col-span-2">
+                <DetailItem label="Stock Reserved Until">{formatDate(request.reservedUntil!)}</DetailItem>
+             </div>
+           )}
+           {request.releasedBy && (
+             <div className="sm:col-span-2">
+                <DetailItem label={request.status === 'Expired' ? 'Reservation Expired' : 'Cancelled By'}>
+                  {request.status === 'Expired' ? 'Released' : <span className="capitalize">{request.releasedBy}</span>}
+                  {request.releasedDate && ` on ${formatDate(request.releasedDate)}`}
+                </DetailItem>
+             </div>
+           )}
            {request.collectedBy && (
              <div className="sm:col-span-2">
                 <DetailItem label="Collected By">
@@ -101,6 +123,32 @@ const RequestDetailModal: React.FC<RequestDetailModalProps> = ({ isOpen, onClose
                 </DetailItem>
              </div>
            )}
+           {request.costOfGoods !== undefined && request.costOfGoods !== null && (
+             <div className="sm:col-span-2">
+                <DetailItem label="Cost of Goods Issued">{formatCurrency(request.costOfGoods, 'IDR')}</DetailItem>
+             </div>
+           )}
+           {request.lotAllocations && request.lotAllocations.length > 0 && (
+             <div className="sm:col-span-2">
+                <DetailItem label="Issued From Lots">
+                  <ul className="space-y-1">
+                    {request.lotAllocations.map(a => (
+                      <li key={a.lotId} className="flex justify-between gap-4">
+                        <span className="font-mono">{a.lotNumber}{a.expiryDate && <span className="font-sans font-normal text-sm text-slate-500"> · exp. {formatDate(a.expiryDate)}</span>}</span>
+                        <span>{formatNumber(a.quantity)} {request.baseUnit || 'units'}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </DetailItem>
+             </div>
+           )}
+           {request.serialNumbers && request.serialNumbers.length > 0 && (
+             <div className="sm:col-span-2">
+                <DetailItem label="Serial Numbers">
+                  <span className="font-mono">{request.serialNumbers.join(', ')}</span>
+                </DetailItem>
+             </div>
+           )}
           <div className="sm:col-span-2">
             <p className="text-sm font-medium text-slate-500">Notes</p>
              <p className="text-slate-800 font-semibold mt-1 whitespace-pre-wrap bg-slate-50 p-3 rounded-lg border border-slate-200 min-h-[50px]">
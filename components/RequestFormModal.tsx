@@ -1,41 +1,64 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import { Product, Request, RequestFormErrors, RequestPriority } from '../types';
+import { Product, ProductStock, QuantityEntry, Request, RequestFormErrors, RequestPriority, Warehouse } from '../types';
 import { DIVISIONS, PRIORITIES } from '../constants';
-import { formatNumber } from '../utils/helpers';
+import { scopeProductsToWarehouse } from '../utils/warehouses';
+import { getBaseUnit, getProductUnits, getUnitFactor, formatQuantity } from '../utils/units';
+import { getKitAvailability } from '../utils/kits';
 import { LoadingIcon } from './icons/Icons';
 
 interface RequestFormModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (requestData: Omit<Request, 'id' | 'status'>) => Promise<void>;
+  onSave: (requestData: Omit<Request, 'id' | 'status' | 'quantity' | 'baseUnit'> & QuantityEntry) => Promise<void>;
   products: Product[];
+  warehouses: Warehouse[];
+  productStock: ProductStock[];
+  defaultWarehouseId?: string;
 }
 
 const initialFormState = {
+  warehouseId: '',
   requestingDivision: '',
   productId: '',
   quantity: '',
+  unit: '',
   priority: 'Medium' as RequestPriority,
   notes: '',
 };
 
-const RequestFormModal: React.FC<RequestFormModalProps> = ({ isOpen, onClose, onSave, products }) => {
+// Stock that can be issued from the warehouse. Kits also count the kits their components would make.
+const scopeAvailableStock = (products: Product[], productStock: ProductStock[], warehouseId: string): Product[] =>
+  scopeProductsToWarehouse(products, productStock, warehouseId)
+    .map(p => p.isKit ? { ...p, quantity: getKitAvailability(p, productStock, warehouseId) } : p);
+
+const RequestFormModal: React.FC<RequestFormModalProps> = ({ isOpen, onClose, onSave, products, warehouses, productStock, defaultWarehouseId }) => {
   const [formData, setFormData] = useState(initialFormState);
   const [errors, setErrors] = useState<RequestFormErrors>({});
   const [isSaving, setIsSaving] = useState(false);
 
-  const availableProducts = useMemo(() => products.filter(p => p.quantity > 0), [products]);
+  // Stock available in the warehouse the items are issued from
+  const warehouseProducts = useMemo(
+    () => scopeAvailableStock(products, productStock, formData.warehouseId),
+    [products, productStock, formData.warehouseId]
+  );
+  const availableProducts = useMemo(() => warehouseProducts.filter(p => p.quantity > 0), [warehouseProducts]);
+  const selectedProduct = useMemo(() => warehouseProducts.find(p => p.id === formData.productId), [warehouseProducts, formData.productId]);
+  const unitFactor = selectedProduct && formData.unit ? getUnitFactor(selectedProduct, formData.unit) : undefined;
 
   useEffect(() => {
     if (isOpen) {
-      setFormData(initialFormState);
+      setFormData({ ...initialFormState, warehouseId: defaultWarehouseId || '' });
       setErrors({});
     }
-  }, [isOpen]);
+  }, [isOpen, defaultWarehouseId]);
   
   const validateField = (name: keyof typeof initialFormState, value: string, currentFormData: typeof initialFormState): string | undefined => {
-    const currentSelectedProduct = products.find(p => p.id === currentFormData.productId);
+    const scopedProducts = scopeAvailableStock(products, productStock, currentFormData.warehouseId);
+    const currentSelectedProduct = scopedProducts.find(p => p.id === currentFormData.productId);
     switch(name) {
+        case 'warehouseId':
+            if (!value) return "Warehouse must be selected.";
+            break;
         case 'requestingDivision':
             if (!value) return "Requesting division must be selected.";
             break;
@@ -44,14 +67,19 @@ const RequestFormModal: React.FC<RequestFormModalProps> = ({ isOpen, onClose, on
             break;
         case 'productId':
             if (!value) return "Product must be selected.";
-            if (products.find(p => p.id === value)?.quantity === 0) return "The selected product is out of stock.";
+            if (scopedProducts.find(p => p.id === value)?.quantity === 0) return "The selected product is out of stock in this warehouse.";
+            break;
+        case 'unit':
+            if (!value) return "Unit must be selected.";
             break;
         case 'quantity': {
             if (!value) return "Quantity cannot be empty.";
             const numQuantity = Number(value);
             if (isNaN(numQuantity) || !Number.isInteger(numQuantity) || numQuantity <= 0) return "Quantity must be a positive whole number.";
-            if (currentSelectedProduct && numQuantity > currentSelectedProduct.quantity) {
-                return `Quantity exceeds available stock (${formatNumber(currentSelectedProduct.quantity)}).`;
+            // Stock is compared in the product's base unit
+            const factor = currentSelectedProduct && getUnitFactor(currentSelectedProduct, currentFormData.unit);
+            if (currentSelectedProduct && factor && numQuantity * factor > currentSelectedProduct.quantity) {
+                return `Quantity exceeds available stock (${formatQuantity(currentSelectedProduct.quantity, getBaseUnit(currentSelectedProduct))}).`;
             }
             break;
         }
@@ -66,6 +94,10 @@ const RequestFormModal: React.FC<RequestFormModalProps> = ({ isOpen, onClose, on
     const fieldName = name as keyof typeof initialFormState;
 
     const newFormData = { ...formData, [fieldName]: value };
+    // Requests default to the product's base unit
+    if (fieldName === 'productId') {
+        newFormData.unit = getBaseUnit(products.find(p => p.id === value));
+    }
     setFormData(newFormData);
     
     const newErrors = { ...errors };
@@ -73,8 +105,11 @@ const RequestFormModal: React.FC<RequestFormModalProps> = ({ isOpen, onClose, on
     const error = validateField(fieldName, value, newFormData);
     newErrors[fieldName] = error;
     
-    // If the product was changed, re-validate the quantity
-    if (fieldName === 'productId' && newFormData.quantity) {
+    // If the product or warehouse was changed, re-validate the product and quantity
+    if (fieldName === 'warehouseId' && newFormData.productId) {
+        newErrors.productId = validateField('productId', newFormData.productId, newFormData);
+    }
+    if ((fieldName === 'productId' || fieldName === 'warehouseId' || fieldName === 'unit') && newFormData.quantity) {
         const quantityError = validateField('quantity', newFormData.quantity, newFormData);
         newErrors.quantity = quantityError;
     }
@@ -112,13 +147,15 @@ const RequestFormModal: React.FC<RequestFormModalProps> = ({ isOpen, onClose, on
     }
     
     setIsSaving(true);
-    const selectedProduct = products.find(p => p.id === formData.productId)!;
+    const product = products.find(p => p.id === formData.productId)!;
     try {
         await onSave({ 
+            warehouseId: formData.warehouseId,
             requestingDivision: formData.requestingDivision,
             productId: formData.productId,
-            productName: selectedProduct.name,
-            quantity: Number(formData.quantity),
+            productName: product.name,
+            unit: formData.unit,
+            unitQuantity: Number(formData.quantity),
             priority: formData.priority,
             requestDate: new Date().toISOString(),
             notes: formData.notes,
@@ -140,6 +177,14 @@ const RequestFormModal: React.FC<RequestFormModalProps> = ({ isOpen, onClose, on
             <h2 className="text-xl font-bold text-slate-800">Create Item Request</h2>
           </div>
           <div className="p-6 grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-4">
+            <div className="md:col-span-2">
+              <label htmlFor="requestWarehouseId" className="block text-sm font-medium text-slate-700 mb-1">Issue From Warehouse</label>
+              <select name="warehouseId" id="requestWarehouseId" value={formData.warehouseId} onChange={handleChange} onBlur={handleBlur} required className={`w-full border rounded-lg p-2 bg-slate-50 border-slate-300 focus:ring-primary-500 focus:border-primary-500 ${errors.warehouseId ? 'border-red-500' : 'border-slate-300'}`}>
+                <option value="" disabled>-- Select Warehouse --</option>
+                {warehouses.map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
+              </select>
+              {errors.warehouseId && <p className="text-sm text-red-600 mt-1">{errors.warehouseId}</p>}
+            </div>
             <div>
               <label htmlFor="requestingDivision" className="block text-sm font-medium text-slate-700 mb-1">Requesting Division</label>
               <select name="requestingDivision" id="requestingDivision" value={formData.requestingDivision} onChange={handleChange} onBlur={handleBlur} required className={`w-full border rounded-lg p-2 bg-slate-50 border-slate-300 focus:ring-primary-500 focus:border-primary-500 ${errors.requestingDivision ? 'border-red-500' : 'border-slate-300'}`}>
@@ -160,7 +205,7 @@ const RequestFormModal: React.FC<RequestFormModalProps> = ({ isOpen, onClose, on
               <select name="productId" id="productId" value={formData.productId} onChange={handleChange} onBlur={handleBlur} required className={`w-full border rounded-lg p-2 bg-slate-50 border-slate-300 focus:ring-primary-500 focus:border-primary-500 ${errors.productId ? 'border-red-500' : 'border-slate-300'}`}>
                 <option value="" disabled>-- Select Product --</option>
                 {availableProducts.map(p => (
-                    <option key={p.id} value={p.id}>{p.name} (Stock: {formatNumber(p.quantity)})</option>
+                    <option key={p.id} value={p.id}>{p.name} (Stock: {formatQuantity(p.quantity, getBaseUnit(p))})</option>
                 ))}
               </select>
               {errors.productId && <p className="text-sm text-red-600 mt-1">{errors.productId}</p>}
@@ -169,6 +214,16 @@ const RequestFormModal: React.FC<RequestFormModalProps> = ({ isOpen, onClose, on
               <label htmlFor="quantity" className="block text-sm font-medium text-slate-700 mb-1">Quantity Requested</label>
               <input type="number" name="quantity" id="quantity" value={formData.quantity} onChange={handleChange} onBlur={handleBlur} min="1" required className={`w-full border rounded-lg p-2 bg-slate-50 border-slate-300 focus:ring-primary-500 focus:border-primary-500 ${errors.quantity ? 'border-red-500' : 'border-slate-300'}`}/>
               {errors.quantity && <p className="text-sm text-red-600 mt-1">{errors.quantity}</p>}
+              {selectedProduct && unitFactor && unitFactor > 1 && Number(formData.quantity) > 0 && (
+                <p className="text-xs text-slate-500 mt-1">= {formatQuantity(Number(formData.quantity) * unitFactor, getBaseUnit(selectedProduct))}</p>
+              )}
+            </div>
+            <div>
+              <label htmlFor="requestUnit" className="block text-sm font-medium text-slate-700 mb-1">Unit</label>
+              <select name="unit" id="requestUnit" value={formData.unit} onChange={handleChange} onBlur={handleBlur} disabled={!selectedProduct} required className={`w-full border rounded-lg p-2 bg-slate-50 border-slate-300 focus:ring-primary-500 focus:border-primary-500 disabled:opacity-50 ${errors.unit ? 'border-red-500' : 'border-slate-300'}`}>
+                {selectedProduct ? getProductUnits(selectedProduct).map(u => <option key={u.unit} value={u.unit}>{u.unit}</option>) : <option value="">—</option>}
+              </select>
+              {errors.unit && <p className="text-sm text-red-600 mt-1">{errors.unit}</p>}
             </div>
             <div className="md:col-span-2">
               <label htmlFor="notes" className="block text-sm font-medium text-slate-700 mb-1">Notes (Optional)</label>
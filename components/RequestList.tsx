@@ -3,7 +3,11 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
 import { Request, UserRole } from '../types';
-import { formatDate, formatNumber } from '../utils/helpers';
+import { formatDate } from '../utils/helpers';
+import { formatDocumentQuantity } from '../utils/units';
+import { holdsReservation, isReservationOverdue } from '../utils/reservations';
+import { exportRows, describeSort, ExportContext, ExportFormat } from '../utils/exports';
+import ExportMenu from './ExportMenu';
 import { CheckIcon, XMarkIcon, RequestIcon as NoDataIcon, SortIcon, SortUpIcon, SortDownIcon, CubeIcon } from './icons/Icons';
 
 interface RequestListProps {
@@ -12,7 +16,9 @@ interface RequestListProps {
   onReject: (request: Request) => void;
   onViewDetails: (request: Request) => void;
   onMarkAsCollected: (request: Request) => void;
+  onCancel: (request: Request) => void;
   userRole?: UserRole;
+  exportContext: ExportContext;
 }
 
 const getStatusBadge = (status: Request['status']) => {
@@ -25,6 +31,10 @@ const getStatusBadge = (status: Request['status']) => {
       return 'bg-red-100 text-red-800';
     case 'Collected':
       return 'bg-sky-100 text-sky-800';
+    case 'Cancelled':
+      return 'bg-slate-200 text-slate-700';
+    case 'Expired':
+      return 'bg-orange-100 text-orange-800';
     default:
       return 'bg-slate-100 text-slate-800';
   }
@@ -85,7 +95,7 @@ const getInitialState = (): RequestTableState => {
 const APPROVER_ROLES: UserRole[] = ['Supervisor', 'Manager', 'Super Admin'];
 const COLLECTOR_ROLES: UserRole[] = ['Staff', 'Supervisor', 'Manager', 'Super Admin'];
 
-const RequestList: React.FC<RequestListProps> = ({ requests, onApprove, onReject, onViewDetails, onMarkAsCollected, userRole }) => {
+const RequestList: React.FC<RequestListProps> = ({ requests, onApprove, onReject, onViewDetails, onMarkAsCollected, onCancel, userRole, exportContext }) => {
   const [tableState, setTableState] = useState<RequestTableState>(getInitialState);
   const { startDate, endDate, statusFilter, sortConfig, activeTab } = tableState;
 
@@ -182,6 +192,36 @@ const RequestList: React.FC<RequestListProps> = ({ requests, onApprove, onReject
 
   const isFiltered = startDate !== '' || endDate !== '' || statusFilter !== 'all';
 
+  // Exports the rows of the open tab.
+  const handleExport = (format: ExportFormat) => {
+    const isPickup = activeTab === 'pickup';
+    exportRows<Request>(format, {
+      title: isPickup ? 'Requests Approved for Pickup' : 'Requests',
+      fileName: isPickup ? 'requests_for_pickup' : 'requests',
+      columns: [
+        { header: 'Requesting Division', value: r => r.requestingDivision },
+        { header: 'Product', value: r => r.productName },
+        { header: 'Quantity', value: r => formatDocumentQuantity(r), align: 'right' },
+        { header: 'Date', value: r => formatDate(r.requestDate) },
+        { header: 'Priority', value: r => r.priority },
+        { header: 'Status', value: r => r.status },
+        { header: 'Approved By', value: r => r.approvedBy || '' },
+        { header: 'Reserved Until', value: r => holdsReservation(r) ? formatDate(r.reservedUntil!) : '' },
+        { header: 'Collected By', value: r => r.collectedBy || '' },
+        { header: 'Notes', value: r => r.notes || '' },
+      ],
+      rows: isPickup ? approvedForPickupList : sortedRequests,
+      filters: [
+        ...exportContext.scope,
+        ...(startDate ? [`From: ${startDate}`] : []),
+        ...(endDate ? [`To: ${endDate}`] : []),
+        ...(isPickup ? ['Status: Approved'] : statusFilter !== 'all' ? [`Status: ${statusFilter}`] : []),
+        ...describeSort(sortConfig.key === 'priority' ? 'Priority' : 'Date', sortConfig.direction),
+      ],
+      exportedBy: exportContext.exportedBy,
+    });
+  };
+
   const TabButton: React.FC<{ tabId: ActiveTab; label: string; count: number; }> = ({ tabId, label, count }) => (
       <button
         onClick={() => setTableState(s => ({...s, activeTab: tabId}))}
@@ -218,6 +258,7 @@ const RequestList: React.FC<RequestListProps> = ({ requests, onApprove, onReject
             <div className="flex items-center">
                 <TabButton tabId="history" label="All Requests" count={sortedRequests.length} />
                 <TabButton tabId="pickup" label="Approved for Pickup" count={approvedForPickupList.length} />
+                <ExportMenu onExport={handleExport} rowCount={activeTab === 'pickup' ? approvedForPickupList.length : sortedRequests.length} className="ml-auto py-2" />
             </div>
         </div>
       {activeTab === 'history' && (
@@ -271,6 +312,8 @@ const RequestList: React.FC<RequestListProps> = ({ requests, onApprove, onReject
                     <StatusButton status="Approved" label="Approved" current={statusFilter} onClick={(status) => setTableState(s => ({...s, statusFilter: status}))} />
                     <StatusButton status="Rejected" label="Rejected" current={statusFilter} onClick={(status) => setTableState(s => ({...s, statusFilter: status}))} />
                     <StatusButton status="Collected" label="Collected" current={statusFilter} onClick={(status) => setTableState(s => ({...s, statusFilter: status}))} />
+                    <StatusButton status="Cancelled" label="Cancelled" current={statusFilter} onClick={(status) => setTableState(s => ({...s, statusFilter: status}))} />
+                    <StatusButton status="Expired" label="Expired" current={statusFilter} onClick={(status) => setTableState(s => ({...s, statusFilter: status}))} />
                 </div>
               </div>
             </div>
@@ -307,7 +350,7 @@ const RequestList: React.FC<RequestListProps> = ({ requests, onApprove, onReject
                 >
                     <td className="px-6 py-4 font-semibold text-slate-900 block md:table-cell border-b border-slate-300" data-label="Division">{request.requestingDivision}</td>
                     <td className="px-6 py-4 block md:table-cell border-b border-slate-300" data-label="Product">{request.productName}</td>
-                    <td className="px-6 py-4 text-left md:text-right font-medium block md:table-cell border-b border-slate-300" data-label="Quantity">{formatNumber(request.quantity)}</td>
+                    <td className="px-6 py-4 text-left md:text-right font-medium block md:table-cell border-b border-slate-300" data-label="Quantity">{formatDocumentQuantity(request)}</td>
                     <td className="px-6 py-4 block md:table-cell border-b border-slate-300" data-label="Date">{formatDate(request.requestDate)}</td>
                     <td className="px-6 py-4 block md:table-cell border-b border-slate-300" data-label="Priority">
                     <span className={`px-2 py-1 text-xs font-semibold rounded-full ${getPriorityBadge(request.priority)}`}>
@@ -345,6 +388,18 @@ const RequestList: React.FC<RequestListProps> = ({ requests, onApprove, onReject
                         ) : (
                         <span className="text-slate-400 text-xs italic">Awaiting Approval</span>
                         )
+                    ) : request.status === 'Approved' ? (
+                        canTakeAction && holdsReservation(request) ? (
+                        <button
+                            onClick={() => onCancel(request)}
+                            className="p-1.5 rounded-full text-slate-600 bg-slate-100 hover:bg-slate-200"
+                            aria-label={`Cancel request for ${request.productName}`}
+                        >
+                            <XMarkIcon className="w-5 h-5" />
+                        </button>
+                        ) : (
+                        <span className="text-slate-400 text-xs italic">Awaiting Pickup</span>
+                        )
                     ) : (
                         <span className="text-slate-400 text-xs italic">Completed</span>
                     )}
@@ -376,6 +431,7 @@ const RequestList: React.FC<RequestListProps> = ({ requests, onApprove, onReject
                     <th scope="col" className="px-6 py-3 text-right border-b border-slate-300">Quantity</th>
                     <th scope="col" className="px-6 py-3 border-b border-slate-300">Requesting Division</th>
                     <th scope="col" className="px-6 py-3 border-b border-slate-300">Approved By</th>
+                    <th scope="col" className="px-6 py-3 border-b border-slate-300">Reserved Until</th>
                     <th scope="col" className="px-6 py-3 text-center border-b border-slate-300">Actions</th>
                 </tr>
             </thead>
@@ -386,10 +442,13 @@ const RequestList: React.FC<RequestListProps> = ({ requests, onApprove, onReject
                     className="block md:table-row bg-white hover:bg-slate-50 transition-colors"
                 >
                     <td className="px-6 py-4 font-semibold text-slate-900 block md:table-cell border-b border-slate-300" data-label="Product">{request.productName}</td>
-                    <td className="px-6 py-4 text-left md:text-right font-medium block md:table-cell border-b border-slate-300" data-label="Quantity">{formatNumber(request.quantity)}</td>
+                    <td className="px-6 py-4 text-left md:text-right font-medium block md:table-cell border-b border-slate-300" data-label="Quantity">{formatDocumentQuantity(request)}</td>
                     <td className="px-6 py-4 block md:table-cell border-b border-slate-300" data-label="Division">{request.requestingDivision}</td>
                     <td className="px-6 py-4 block md:table-cell border-b border-slate-300 capitalize" data-label="Approved By">{request.approvedBy || 'N/A'}</td>
-                    <td className="px-6 py-4 flex items-center justify-start md:justify-center md:table-cell border-b border-slate-300" data-label="Actions">
+                    <td className={`px-6 py-4 block md:table-cell border-b border-slate-300 ${isReservationOverdue(request) ? 'text-orange-600 font-semibold' : ''}`} data-label="Reserved Until">
+                    {holdsReservation(request) ? formatDate(request.reservedUntil!) : <span className="text-slate-400 text-xs italic">Already issued</span>}
+                    </td>
+                    <td className="px-6 py-4 flex items-center justify-start md:justify-center gap-2 md:table-cell border-b border-slate-300" data-label="Actions">
                     {canCollect ? (
                         <button
                             onClick={() => onMarkAsCollected(request)}
@@ -399,12 +458,21 @@ const RequestList: React.FC<RequestListProps> = ({ requests, onApprove, onReject
                             Mark as Collected
                         </button>
                     ) : <span className="text-slate-400 text-xs italic">Action by Staff</span>}
+                    {canTakeAction && holdsReservation(request) && (
+                        <button
+                            onClick={() => onCancel(request)}
+                            className="flex items-center justify-center bg-white border border-slate-300 text-slate-700 font-semibold px-3 py-1.5 rounded-lg hover:bg-slate-100 transition-all text-xs md:mt-2"
+                        >
+                            <XMarkIcon className="w-4 h-4 mr-1.5" />
+                            Cancel
+                        </button>
+                    )}
                     </td>
                 </tr>
                 ))}
                 {approvedForPickupList.length === 0 && (
                 <tr className="md:table-row">
-                    <td colSpan={5} className="text-center py-16 text-slate-500 block md:table-cell border-b border-slate-300">
+                    <td colSpan={6} className="text-center py-16 text-slate-500 block md:table-cell border-b border-slate-300">
                         <div className="flex flex-col items-center justify-center">
                             <CheckIcon className="h-16 w-16 text-slate-300 mb-3" />
                             <p className="font-semibold text-lg">No items are currently waiting for pickup.</p>
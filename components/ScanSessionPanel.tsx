@@ -0,0 +1,130 @@
+import React, { useMemo } from 'react';
+import { Product, Request, Stocktake } from '../types';
+import { formatNumber } from '../utils/helpers';
+import { ScanTallyLine, getScanTallyTotal } from '../utils/scanning';
+import { getBaseUnit } from '../utils/units';
+import { getStocktakeReference } from '../utils/stocktakes';
+import { DeleteIcon } from './icons/Icons';
+
+export type ScanMode = 'single' | 'multi' | 'collect' | 'count';
+
+export interface ScanFeedback {
+  type: 'success' | 'error';
+  message: string;
+}
+
+interface ScanSessionPanelProps {
+  mode: ScanMode;
+  onModeChange?: (mode: 'single' | 'multi') => void; // Omitted when the mode cannot be switched
+  tally: ScanTallyLine[];
+  products: Product[];
+  feedback: ScanFeedback | null;
+  requestToCollect?: Request;
+  stocktakeToCount?: Stocktake;
+  onChangeQuantity: (productId: string, quantity: number) => void;
+  onSubmitTally: () => void;
+}
+
+const ScanSessionPanel: React.FC<ScanSessionPanelProps> = ({ mode, onModeChange, tally, products, feedback, requestToCollect, stocktakeToCount, onChangeQuantity, onSubmitTally }) => {
+  const productsById = useMemo(() => new Map(products.map(p => [p.id, p])), [products]);
+  const total = getScanTallyTotal(tally);
+
+  return (
+    <div className="mt-3 space-y-3">
+      {onModeChange && (
+        <div className="grid grid-cols-2 gap-2" role="radiogroup" aria-label="Scan mode">
+          {(['single', 'multi'] as const).map(option => (
+            <button
+              key={option}
+              type="button"
+              role="radio"
+              aria-checked={mode === option}
+              onClick={() => onModeChange(option)}
+              className={`px-3 py-2 text-sm font-semibold rounded-lg border ${mode === option ? 'bg-primary-50 border-primary-500 text-primary-700' : 'bg-white border-slate-300 text-slate-600 hover:bg-slate-50'}`}
+            >
+              {option === 'single' ? 'Scan & Go' : 'Multi-scan'}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {feedback && (
+        <p className={`text-sm font-semibold text-center ${feedback.type === 'error' ? 'text-red-600' : 'text-green-700'}`} role="status">{feedback.message}</p>
+      )}
+
+      {mode === 'collect' && requestToCollect && (
+        <div className="text-center">
+          <p className="text-sm text-slate-600">Scan each item handed over for <span className="font-semibold">{requestToCollect.productName}</span>.</p>
+          <p className="text-2xl font-bold text-slate-800 mt-1">{formatNumber(total)} / {formatNumber(requestToCollect.quantity)}</p>
+          {tally.length > 0 && tally[0].serialNumbers.length > 0 && <p className="text-xs font-mono text-slate-500 mt-1">{tally[0].serialNumbers.join(', ')}</p>}
+        </div>
+      )}
+
+      {mode === 'count' && stocktakeToCount && (
+        <p className="text-sm text-slate-600 text-center">
+          Each scan adds one to the product's {stocktakeToCount.status === 'Recount' ? 'recount' : 'count'} on <span className="font-semibold font-mono">{getStocktakeReference(stocktakeToCount)}</span>.
+        </p>
+      )}
+
+      {mode === 'multi' && (
+        <>
+          {tally.length === 0 ? (
+            <p className="text-sm text-slate-500 text-center italic">Scanned items are counted here until you submit them.</p>
+          ) : (
+            <table className="w-full text-sm text-left text-slate-600 border border-slate-200">
+              <thead className="text-xs text-slate-700 uppercase bg-slate-50">
+                <tr>
+                  <th scope="col" className="px-3 py-2">Product</th>
+                  <th scope="col" className="px-3 py-2 text-right">Count</th>
+                  <th scope="col" className="px-3 py-2"><span className="sr-only">Remove</span></th>
+                </tr>
+              </thead>
+              <tbody>
+                {tally.map(line => {
+                  const product = productsById.get(line.productId);
+                  return (
+                    <tr key={line.productId} className="border-t border-slate-200">
+                      <td className="px-3 py-2">
+                        <span className="font-medium text-slate-900">{product?.name || 'Unknown product'}</span>
+                        <span className="block text-xs text-slate-500">{product?.sku}</span>
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        {line.serialNumbers.length > 0 ? (
+                          <span className="font-semibold">{formatNumber(line.quantity)} {getBaseUnit(product)}</span>
+                        ) : (
+                          <input
+                            type="number"
+                            min="1"
+                            value={line.quantity}
+                            onChange={e => onChangeQuantity(line.productId, Math.max(1, Math.floor(Number(e.target.value)) || 1))}
+                            className="w-20 border rounded-lg p-1 text-right bg-slate-50 border-slate-300 focus:ring-primary-500 focus:border-primary-500"
+                            aria-label={`Count of ${product?.name || 'product'}`}
+                          />
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        <button type="button" onClick={() => onChangeQuantity(line.productId, 0)} className="p-1 text-slate-400 hover:text-red-600" title="Remove from tally">
+                          <DeleteIcon className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+          <button
+            type="button"
+            onClick={onSubmitTally}
+            disabled={tally.length === 0}
+            className="w-full px-4 py-2 bg-primary-600 text-white font-semibold rounded-lg hover:bg-primary-700 disabled:bg-primary-400"
+          >
+            Review {formatNumber(total)} Scanned Item{total === 1 ? '' : 's'}
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ScanSessionPanel;
@@ -0,0 +1,174 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Product, ProductStock, ScanTallyFormErrors, StockAdjustment, Warehouse } from '../types';
+import { formatNumber } from '../utils/helpers';
+import { ScanTallyLine } from '../utils/scanning';
+import { getBaseUnit, formatQuantity } from '../utils/units';
+import { getWarehouseQuantity } from '../utils/warehouses';
+import { adjustmentReasons } from './StockAdjustmentFormModal';
+import { LoadingIcon } from './icons/Icons';
+
+type TallyDirection = 'add' | 'remove';
+
+interface ScanTallyModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSaveAdjustment: (adjustmentData: Omit<StockAdjustment, 'id' | 'date' | 'adjustedBy'>) => Promise<void>;
+  onDone: (recorded: number) => void;
+  tally: ScanTallyLine[];
+  products: Product[];
+  warehouses: Warehouse[];
+  productStock: ProductStock[];
+  defaultWarehouseId?: string;
+}
+
+// Records the items counted in a multi-scan as one stock adjustment per product.
+const ScanTallyModal: React.FC<ScanTallyModalProps> = ({ isOpen, onClose, onSaveAdjustment, onDone, tally, products, warehouses, productStock, defaultWarehouseId }) => {
+  const [lines, setLines] = useState<ScanTallyLine[]>([]);
+  const [warehouseId, setWarehouseId] = useState('');
+  const [direction, setDirection] = useState<TallyDirection>('add');
+  const [reason, setReason] = useState<StockAdjustment['reason'] | ''>('');
+  const [notes, setNotes] = useState('');
+  const [errors, setErrors] = useState<ScanTallyFormErrors>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setLines(tally);
+      setWarehouseId(defaultWarehouseId || '');
+      setDirection('add');
+      setReason('');
+      setNotes('');
+      setErrors({});
+    }
+  }, [isOpen, tally, defaultWarehouseId]);
+
+  const rows = useMemo(() => lines.map(line => {
+    const product = products.find(p => p.id === line.productId);
+    const inStock = warehouseId ? getWarehouseQuantity(productStock, line.productId, warehouseId) : 0;
+    return { ...line, product, inStock, isShort: direction === 'remove' && !!warehouseId && line.quantity > inStock };
+  }), [lines, products, productStock, warehouseId, direction]);
+
+  const validate = (): ScanTallyFormErrors => {
+    const newErrors: ScanTallyFormErrors = {};
+    if (!warehouseId) newErrors.warehouseId = "A warehouse must be selected.";
+    if (!reason) newErrors.reason = "A reason must be selected.";
+    if (rows.some(r => r.isShort)) newErrors.lines = "Some products have fewer units in stock than were scanned for removal.";
+    return newErrors;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const newErrors = validate();
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) return;
+
+    // Lines are recorded one by one and dropped from the list once saved, so a failure leaves only what is still to do.
+    setIsSaving(true);
+    let recorded = 0;
+    try {
+        for (const row of rows) {
+            const serialNote = row.serialNumbers.length > 0 ? `Serial numbers: ${row.serialNumbers.join(', ')}` : '';
+            await onSaveAdjustment({
+                warehouseId,
+                productId: row.productId,
+                productName: row.product?.name || '',
+                quantityChange: direction === 'add' ? row.quantity : -row.quantity,
+                reason: reason as StockAdjustment['reason'],
+                notes: ['Multi-scan', serialNote, notes.trim()].filter(Boolean).join(' · '),
+            });
+            recorded++;
+            setLines(prev => prev.filter(l => l.productId !== row.productId));
+        }
+        onDone(recorded);
+    } catch (error) {
+        // Parent handles toast
+    } finally {
+        setIsSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div onClick={onClose} className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4" role="dialog" aria-modal="true">
+      <div onClick={(e) => e.stopPropagation()} className="bg-white rounded-xl shadow-2xl w-full max-w-lg max-h-full overflow-y-auto">
+        <form onSubmit={handleSubmit} noValidate>
+          <div className="p-6 border-b border-gray-200">
+            <h2 className="text-xl font-bold text-gray-800">Record Scanned Items</h2>
+            <p className="text-sm text-gray-500 mt-1">One stock adjustment is recorded for each product.</p>
+          </div>
+          <div className="p-6 grid grid-cols-1 gap-y-4">
+            <div className="grid grid-cols-2 gap-2" role="radiogroup" aria-label="Direction">
+              {(['add', 'remove'] as TallyDirection[]).map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  role="radio"
+                  aria-checked={direction === option}
+                  onClick={() => { setDirection(option); setErrors({}); }}
+                  className={`px-3 py-2 text-sm font-semibold rounded-lg border ${direction === option ? 'bg-primary-50 border-primary-500 text-primary-700' : 'bg-white border-gray-300 text-gray-600 hover:bg-gray-50'}`}
+                >
+                  {option === 'add' ? 'Add to Stock' : 'Remove from Stock'}
+                </button>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-x-6">
+              <div>
+                <label htmlFor="tallyWarehouseId" className="block text-sm font-medium text-gray-700 mb-1">Warehouse</label>
+                <select id="tallyWarehouseId" value={warehouseId} onChange={e => { setWarehouseId(e.target.value); setErrors({}); }} required className={`w-full border rounded-lg p-2 bg-gray-50 border-gray-300 focus:ring-primary-500 focus:border-primary-500 ${errors.warehouseId ? 'border-red-500' : 'border-gray-300'}`}>
+                  <option value="" disabled>-- Select a Warehouse --</option>
+                  {warehouses.map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
+                </select>
+                {errors.warehouseId && <p className="text-sm text-red-600 mt-1">{errors.warehouseId}</p>}
+              </div>
+              <div>
+                <label htmlFor="tallyReason" className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+                <select id="tallyReason" value={reason} onChange={e => setReason(e.target.value as StockAdjustment['reason'])} required className={`w-full border rounded-lg p-2 bg-gray-50 border-gray-300 focus:ring-primary-500 focus:border-primary-500 ${errors.reason ? 'border-red-500' : 'border-gray-300'}`}>
+                  <option value="" disabled>-- Select a Reason --</option>
+                  {adjustmentReasons.map(r => <option key={r} value={r}>{r}</option>)}
+                </select>
+                {errors.reason && <p className="text-sm text-red-600 mt-1">{errors.reason}</p>}
+              </div>
+            </div>
+            <div>
+              <table className="w-full text-sm text-left text-gray-600 border border-gray-200 rounded-lg">
+                <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+                  <tr>
+                    <th scope="col" className="px-3 py-2">Product</th>
+                    <th scope="col" className="px-3 py-2 text-right">Scanned</th>
+                    <th scope="col" className="px-3 py-2 text-right">In Stock</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => (
+                    <tr key={row.productId} className="border-t border-gray-200">
+                      <td className="px-3 py-2">
+                        <span className="font-medium text-gray-900">{row.product?.name || 'Unknown product'}</span>
+                        <span className="block text-xs text-gray-500">{row.product?.sku}</span>
+                      </td>
+                      <td className="px-3 py-2 text-right">{direction === 'add' ? '+' : '-'}{formatQuantity(row.quantity, getBaseUnit(row.product))}</td>
+                      <td className={`px-3 py-2 text-right ${row.isShort ? 'font-semibold text-red-600' : ''}`}>{warehouseId ? formatNumber(row.inStock) : '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {errors.lines && <p className="text-sm text-red-600 mt-1">{errors.lines}</p>}
+            </div>
+            <div>
+              <label htmlFor="tallyNotes" className="block text-sm font-medium text-gray-700 mb-1">Notes (Optional)</label>
+              <textarea id="tallyNotes" value={notes} onChange={e => setNotes(e.target.value)} rows={2} className="w-full border rounded-lg p-2 bg-gray-50 border-gray-300 focus:ring-primary-500 focus:border-primary-500" placeholder="Added to every adjustment..."></textarea>
+            </div>
+          </div>
+          <div className="p-6 bg-gray-50 border-t border-gray-200 flex justify-end gap-3 rounded-b-xl">
+            <button type="button" onClick={onClose} disabled={isSaving} className="px-4 py-2 bg-white border border-gray-300 text-gray-700 font-semibold rounded-lg hover:bg-gray-100 disabled:opacity-50">Cancel</button>
+            <button type="submit" disabled={isSaving || rows.length === 0} className="w-48 flex justify-center items-center px-4 py-2 bg-primary-600 text-white font-semibold rounded-lg hover:bg-primary-700 disabled:bg-primary-400">
+              {isSaving ? <LoadingIcon className="w-5 h-5 animate-spin" /> : `Record ${rows.length} Adjustment${rows.length === 1 ? '' : 's'}`}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ScanTallyModal;
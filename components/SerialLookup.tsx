@@ -0,0 +1,144 @@
+import React, { useState, useMemo } from 'react';
+import { Product, PurchaseOrder, Request, SerialNumber, SerialStatus, StockMovement, Warehouse } from '../types';
+import { formatDate } from '../utils/helpers';
+import { getSerialHistory } from '../utils/serials';
+import { getWarehouseName } from '../utils/warehouses';
+import { SearchIcon, HashtagIcon } from './icons/Icons';
+
+interface SerialLookupProps {
+  serialNumbers: SerialNumber[];
+  products: Product[];
+  purchaseOrders: PurchaseOrder[];
+  requests: Request[];
+  stockMovements: StockMovement[];
+  warehouses: Warehouse[];
+}
+
+const STATUS_STYLES: Record<SerialStatus, string> = {
+  'In Stock': 'bg-green-100 text-green-800',
+  'Reserved': 'bg-amber-100 text-amber-800',
+  'Issued': 'bg-sky-100 text-sky-800',
+};
+
+const MAX_RESULTS = 50;
+
+const SerialLookup: React.FC<SerialLookupProps> = ({ serialNumbers, products, purchaseOrders, requests, stockMovements, warehouses }) => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const productsById = useMemo(() => new Map(products.map(p => [p.id, p])), [products]);
+
+  const matches = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    if (!term) return [];
+    return serialNumbers
+      .filter(s => s.serialNumber.toLowerCase().includes(term) || productsById.get(s.productId)?.sku.toLowerCase().includes(term))
+      .slice(0, MAX_RESULTS);
+  }, [serialNumbers, productsById, searchTerm]);
+
+  const selected = useMemo(() => serialNumbers.find(s => s.id === selectedId) || (matches.length === 1 ? matches[0] : undefined), [serialNumbers, selectedId, matches]);
+
+  const history = useMemo(
+    () => selected ? getSerialHistory(selected, purchaseOrders, requests, stockMovements) : [],
+    [selected, purchaseOrders, requests, stockMovements]
+  );
+
+  const describeLocation = (serial: SerialNumber) => serial.status === 'Issued'
+    ? `Issued to ${serial.issuedTo || 'a division'}`
+    : getWarehouseName(warehouses, serial.warehouseId);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-4 md:p-6 rounded-xl shadow-lg">
+        <div className="relative">
+          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+            <SearchIcon className="h-5 w-5 text-gray-400" />
+          </div>
+          <input type="text" value={searchTerm} onChange={e => { setSearchTerm(e.target.value); setSelectedId(null); }} autoFocus className="w-full pl-10 pr-4 py-2 border rounded-lg bg-gray-700 text-white border-gray-600 placeholder-gray-400 focus:ring-primary-500 focus:border-primary-500" placeholder="Search serial number or SKU..." aria-label="Search serial numbers"/>
+        </div>
+        <p className="text-xs text-gray-500 mt-2">{serialNumbers.length} serialized units on record.</p>
+      </div>
+
+      {searchTerm.trim() && matches.length === 0 && (
+        <div className="bg-white rounded-xl shadow-lg text-center py-16 text-gray-500">
+          <HashtagIcon className="w-12 h-12 mx-auto text-gray-300 mb-2" />
+          <p className="font-semibold">No serial numbers found.</p>
+          <p className="text-sm">Serial numbers are recorded when purchase orders for serialized products are received.</p>
+        </div>
+      )}
+
+      {matches.length > 1 && (
+        <div className="bg-white rounded-xl shadow-lg overflow-x-auto">
+          <table className="w-full text-sm text-left text-gray-600">
+            <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+              <tr>
+                <th scope="col" className="px-6 py-3">Serial Number</th>
+                <th scope="col" className="px-6 py-3">Product</th>
+                <th scope="col" className="px-6 py-3">Status</th>
+                <th scope="col" className="px-6 py-3">Location</th>
+              </tr>
+            </thead>
+            <tbody>
+              {matches.map(serial => (
+                <tr key={serial.id} onClick={() => setSelectedId(serial.id)} className={`border-b cursor-pointer ${selected?.id === serial.id ? 'bg-primary-50' : 'bg-white hover:bg-gray-50'}`}>
+                  <td className="px-6 py-3 font-mono font-semibold text-gray-900">{serial.serialNumber}</td>
+                  <td className="px-6 py-3">{productsById.get(serial.productId)?.name || 'Unknown product'}</td>
+                  <td className="px-6 py-3"><span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${STATUS_STYLES[serial.status]}`}>{serial.status}</span></td>
+                  <td className="px-6 py-3">{describeLocation(serial)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {matches.length === MAX_RESULTS && <p className="px-6 py-3 text-xs text-gray-500">Showing the first {MAX_RESULTS} matches. Refine the search to see more.</p>}
+        </div>
+      )}
+
+      {selected && (
+        <div className="bg-white rounded-xl shadow-lg overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200 flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <h2 className="text-lg font-bold text-gray-800 font-mono">{selected.serialNumber}</h2>
+              <p className="text-sm text-gray-500">{productsById.get(selected.productId)?.name || 'Unknown product'} · {productsById.get(selected.productId)?.sku}</p>
+            </div>
+            <div className="text-right">
+              <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${STATUS_STYLES[selected.status]}`}>{selected.status}</span>
+              <p className="text-sm font-semibold text-gray-800 mt-1">{describeLocation(selected)}</p>
+              <p className="text-xs text-gray-500">
+                Received {formatDate(selected.receivedDate)}{selected.issuedDate && `, issued ${formatDate(selected.issuedDate)}`}
+              </p>
+            </div>
+          </div>
+          <table className="w-full text-sm text-left text-gray-600">
+            <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+              <tr>
+                <th scope="col" className="px-6 py-3">Date</th>
+                <th scope="col" className="px-6 py-3">Movement</th>
+                <th scope="col" className="px-6 py-3">Warehouse</th>
+                <th scope="col" className="px-6 py-3">Details</th>
+                <th scope="col" className="px-6 py-3">User</th>
+              </tr>
+            </thead>
+            <tbody>
+              {history.length === 0 ? (
+                <tr><td colSpan={5} className="px-6 py-6 text-center italic text-gray-400">No movements recorded for this unit.</td></tr>
+              ) : history.map(movement => (
+                <tr key={movement.id} className="bg-white border-b">
+                  <td className="px-6 py-3 whitespace-nowrap">{formatDate(movement.date)}</td>
+                  <td className="px-6 py-3 font-semibold text-gray-900">{movement.type}</td>
+                  <td className="px-6 py-3">{getWarehouseName(warehouses, movement.warehouseId)}</td>
+                  <td className="px-6 py-3">
+                    {movement.referenceType === 'purchase_order' ? 'Purchase order' : 'Request'} <span className="font-mono text-xs">{movement.referenceId?.slice(0, 8)}</span>
+                    {movement.notes && <span className="block text-xs italic text-gray-500">{movement.notes}</span>}
+                  </td>
+                  <td className="px-6 py-3 capitalize">{movement.user}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SerialLookup;
@@ -0,0 +1,130 @@
+import React, { useState, useEffect } from 'react';
+import { HardwareScannerSettings, HardwareScannerSettingsFormErrors, ScannerSuffix } from '../types';
+import { DEFAULT_HARDWARE_SCANNER_SETTINGS, KEY_INTERVAL_LIMITS, MIN_LENGTH_LIMITS, validateHardwareScannerSettings } from '../utils/hardwareScanner';
+import { HardwareScan } from '../hooks/useHardwareScanner';
+import { BarcodeIcon } from './icons/Icons';
+
+interface SettingsPageProps {
+  hardwareScannerSettings: HardwareScannerSettings;
+  onSaveHardwareScannerSettings: (settings: HardwareScannerSettings) => void;
+  lastHardwareScan: HardwareScan | null;
+}
+
+interface ScannerFormState {
+  enabled: boolean;
+  prefix: string;
+  suffix: ScannerSuffix;
+  maxKeyIntervalMs: string;
+  minLength: string;
+}
+
+const SUFFIX_OPTIONS: Record<ScannerSuffix, string> = {
+  Enter: 'Enter',
+  Tab: 'Tab',
+  none: 'None (end on a pause)',
+};
+
+const toFormState = (settings: HardwareScannerSettings): ScannerFormState => ({
+  enabled: settings.enabled,
+  prefix: settings.prefix,
+  suffix: settings.suffix,
+  maxKeyIntervalMs: String(settings.maxKeyIntervalMs),
+  minLength: String(settings.minLength),
+});
+
+const SettingsPage: React.FC<SettingsPageProps> = ({ hardwareScannerSettings, onSaveHardwareScannerSettings, lastHardwareScan }) => {
+  const [formState, setFormState] = useState<ScannerFormState>(toFormState(hardwareScannerSettings));
+  const [errors, setErrors] = useState<HardwareScannerSettingsFormErrors>({});
+
+  useEffect(() => {
+    setFormState(toFormState(hardwareScannerSettings));
+    setErrors({});
+  }, [hardwareScannerSettings]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFormState(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const settings: HardwareScannerSettings = {
+      enabled: formState.enabled,
+      prefix: formState.prefix,
+      suffix: formState.suffix,
+      maxKeyIntervalMs: Number(formState.maxKeyIntervalMs),
+      minLength: Number(formState.minLength),
+    };
+    const newErrors = validateHardwareScannerSettings(settings);
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) return;
+    onSaveHardwareScannerSettings(settings);
+  };
+
+  const inputClassName = (error?: string) => `w-full border rounded-lg p-2 bg-gray-50 focus:ring-primary-500 focus:border-primary-500 ${error ? 'border-red-500' : 'border-gray-300'}`;
+
+  return (
+    <div className="space-y-6 max-w-3xl">
+      <form onSubmit={handleSubmit} noValidate className="bg-white rounded-xl shadow-lg">
+        <div className="p-6 border-b border-gray-200">
+          <h2 className="text-lg font-bold text-gray-800">Hardware Barcode Scanner</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            USB and Bluetooth scanners that type like a keyboard work on any page. Scans act like the camera scanner's Scan &amp; Go: a product opens in the inventory search, or a prefilled adjustment on the Adjustments page, and a purchase order QR code opens receiving. These settings are kept on this device.
+          </p>
+        </div>
+        <div className="p-6 grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-4">
+          <label className="md:col-span-2 flex items-center gap-2 text-sm font-medium text-gray-700">
+            <input type="checkbox" checked={formState.enabled} onChange={e => setFormState(prev => ({ ...prev, enabled: e.target.checked }))} className="rounded border-gray-400 text-primary-600 focus:ring-primary-500" />
+            Listen for a hardware scanner
+          </label>
+          <div>
+            <label htmlFor="scannerPrefix" className="block text-sm font-medium text-gray-700 mb-1">Prefix (Optional)</label>
+            <input type="text" id="scannerPrefix" name="prefix" value={formState.prefix} onChange={handleChange} className={inputClassName()} />
+            <p className="text-xs text-gray-500 mt-1">Characters the scanner sends before each code. Input without them is not treated as a scan.</p>
+          </div>
+          <div>
+            <label htmlFor="scannerSuffix" className="block text-sm font-medium text-gray-700 mb-1">Suffix</label>
+            <select id="scannerSuffix" name="suffix" value={formState.suffix} onChange={handleChange} className={inputClassName()}>
+              {(Object.keys(SUFFIX_OPTIONS) as ScannerSuffix[]).map(s => <option key={s} value={s}>{SUFFIX_OPTIONS[s]}</option>)}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">The key the scanner sends after each code.</p>
+          </div>
+          <div>
+            <label htmlFor="scannerMaxKeyInterval" className="block text-sm font-medium text-gray-700 mb-1">Max Time Between Keys (ms)</label>
+            <input type="number" id="scannerMaxKeyInterval" name="maxKeyIntervalMs" value={formState.maxKeyIntervalMs} onChange={handleChange} min={KEY_INTERVAL_LIMITS.min} max={KEY_INTERVAL_LIMITS.max} className={inputClassName(errors.maxKeyIntervalMs)} />
+            {errors.maxKeyIntervalMs ? <p className="text-sm text-red-600 mt-1">{errors.maxKeyIntervalMs}</p> : <p className="text-xs text-gray-500 mt-1">Slower input is treated as typing. Raise it if scans are missed.</p>}
+          </div>
+          <div>
+            <label htmlFor="scannerMinLength" className="block text-sm font-medium text-gray-700 mb-1">Minimum Code Length</label>
+            <input type="number" id="scannerMinLength" name="minLength" value={formState.minLength} onChange={handleChange} min={MIN_LENGTH_LIMITS.min} max={MIN_LENGTH_LIMITS.max} className={inputClassName(errors.minLength)} />
+            {errors.minLength && <p className="text-sm text-red-600 mt-1">{errors.minLength}</p>}
+          </div>
+        </div>
+        <div className="p-6 bg-gray-50 border-t border-gray-200 flex justify-end gap-3 rounded-b-xl">
+          <button type="button" onClick={() => { setFormState(toFormState(DEFAULT_HARDWARE_SCANNER_SETTINGS)); setErrors({}); }} className="mr-auto px-4 py-2 bg-white border border-gray-300 text-gray-700 font-semibold rounded-lg hover:bg-gray-100">Reset to Defaults</button>
+          <button type="submit" className="px-4 py-2 bg-primary-600 text-white font-semibold rounded-lg hover:bg-primary-700">Save Settings</button>
+        </div>
+      </form>
+
+      <div className="bg-white p-6 rounded-xl shadow-lg">
+        <h2 className="text-lg font-bold text-gray-800">Test Your Scanner</h2>
+        <p className="text-sm text-gray-500 mt-1">Scan any barcode while this page is open. Scans are shown here instead of being acted on.</p>
+        {!hardwareScannerSettings.enabled ? (
+          <p className="text-sm text-gray-500 italic mt-4">The scanner listener is turned off.</p>
+        ) : lastHardwareScan ? (
+          <div className="mt-4 flex items-center gap-4 p-4 bg-gray-50 rounded-lg">
+            <BarcodeIcon className="w-8 h-8 text-primary-600 flex-shrink-0" />
+            <div>
+              <p className="font-mono font-semibold text-gray-900 break-all">{lastHardwareScan.code}</p>
+              <p className="text-xs text-gray-500">Average {lastHardwareScan.averageKeyIntervalMs} ms between keys (limit {hardwareScannerSettings.maxKeyIntervalMs} ms)</p>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 italic mt-4">Waiting for a scan…</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPage;
@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import { View, UserRole } from '../types';
-import { DashboardIcon, InventoryIcon, VendorIcon, RequestIcon, CogIcon, ShoppingCartIcon, ChartBarIcon, ClipboardDocumentListIcon, ScaleIcon } from './icons/Icons';
+import { DashboardIcon, InventoryIcon, VendorIcon, RequestIcon, CogIcon, ShoppingCartIcon, ChartBarIcon, ClipboardDocumentListIcon, ScaleIcon, MapPinIcon, TruckIcon, ClockIcon, HashtagIcon, AdjustmentsIcon, ClipboardCheckIcon, ArchiveBoxIcon } from './icons/Icons';
 
 interface SidebarProps {
   currentView: View;
@@ -53,16 +53,23 @@ const Sidebar: React.FC<SidebarProps> = ({ currentView, setCurrentView, hasNewRe
   const navItems = [
     { id: 'dashboard', label: 'Dashboard', icon: <DashboardIcon /> },
     { id: 'inventory', label: 'Inventory', icon: <InventoryIcon /> },
+    { id: 'locations', label: 'Locations', icon: <MapPinIcon /> },
     { id: 'requests', label: 'Requests', icon: <RequestIcon /> },
     { id: 'purchase-orders', label: 'Purchase Orders', icon: <ShoppingCartIcon /> },
+    { id: 'replenishment', label: 'Replenishment', icon: <TruckIcon /> },
+    { id: 'expiry', label: 'Expiry', icon: <ClockIcon /> },
+    { id: 'serials', label: 'Serial Numbers', icon: <HashtagIcon /> },
     { id: 'adjustments', label: 'Adjustments', icon: <ScaleIcon /> },
+    { id: 'stocktakes', label: 'Stocktakes', icon: <ClipboardCheckIcon /> },
     { id: 'vendors', label: 'Vendors', icon: <VendorIcon /> },
     { id: 'reports', label: 'Reports', icon: <ChartBarIcon /> },
+    { id: 'settings', label: 'Settings', icon: <AdjustmentsIcon /> },
   ];
   
   const adminNavItems = [
     { id: 'admin', label: 'Admin Panel', icon: <CogIcon /> },
     { id: 'audit-log', label: 'Audit Log', icon: <ClipboardDocumentListIcon /> },
+    { id: 'recycle-bin', label: 'Recycle Bin', icon: <ArchiveBoxIcon /> },
   ];
 
   const getNotificationStatus = (id: string) => {
@@ -81,14 +88,14 @@ const Sidebar: React.FC<SidebarProps> = ({ currentView, setCurrentView, hasNewRe
       <nav className="flex-1 px-2 py-4 space-y-2">
         <ul>
           {navItems.map((item) => {
-            if (userRole === 'Viewer' && ['requests', 'purchase-orders', 'reports', 'adjustments'].includes(item.id)) {
+            if (userRole === 'Viewer' && ['requests', 'purchase-orders', 'replenishment', 'reports', 'adjustments', 'stocktakes'].includes(item.id)) {
                 return null;
             }
             return (
               <li key={item.id}>
                 <NavButton 
                   item={item} 
-                  isCurrent={currentView === item.id}
+                  isCurrent={currentView === item.id || (item.id === 'inventory' && currentView === 'product')}
                   hasNotification={getNotificationStatus(item.id)}
                   onClick={() => setCurrentView(item.id as View)}
                   isExpanded={isExpanded}
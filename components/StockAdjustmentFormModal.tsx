@@ -1,6 +1,7 @@
-import React, { useState, useEffect } from 'react';
-import { Product, StockAdjustment, StockAdjustmentFormErrors } from '../types';
+import React, { useState, useEffect, useMemo } from 'react';
+import { Product, ProductStock, StockAdjustment, StockAdjustmentFormErrors, Warehouse } from '../types';
 import { formatNumber } from '../utils/helpers';
+import { getWarehouseQuantity } from '../utils/warehouses';
 import { LoadingIcon } from './icons/Icons';
 
 interface StockAdjustmentFormModalProps {
@@ -8,31 +9,44 @@ interface StockAdjustmentFormModalProps {
   onClose: () => void;
   onSave: (adjustmentData: Omit<StockAdjustment, 'id' | 'date' | 'adjustedBy'>) => Promise<void>;
   products: Product[];
+  warehouses: Warehouse[];
+  productStock: ProductStock[];
+  defaultWarehouseId?: string;
+  initialProductId?: string; // Prefilled when the adjustment starts from a scanned product
 }
 
 const initialFormState = {
+  warehouseId: '',
   productId: '',
   quantityChange: '',
   reason: '' as StockAdjustment['reason'] | '',
   notes: '',
 };
 
-const adjustmentReasons: StockAdjustment['reason'][] = ['Stocktake', 'Damaged Goods', 'Return', 'Found', 'Other'];
+export const adjustmentReasons: StockAdjustment['reason'][] = ['Stocktake', 'Damaged Goods', 'Return', 'Found', 'Expired', 'Other'];
 
-const StockAdjustmentFormModal: React.FC<StockAdjustmentFormModalProps> = ({ isOpen, onClose, onSave, products }) => {
+const StockAdjustmentFormModal: React.FC<StockAdjustmentFormModalProps> = ({ isOpen, onClose, onSave, products, warehouses, productStock, defaultWarehouseId, initialProductId }) => {
   const [formData, setFormData] = useState(initialFormState);
   const [errors, setErrors] = useState<StockAdjustmentFormErrors>({});
   const [isSaving, setIsSaving] = useState(false);
 
+  const stockInWarehouse = useMemo(
+    () => new Map(products.map(p => [p.id, getWarehouseQuantity(productStock, p.id, formData.warehouseId)])),
+    [products, productStock, formData.warehouseId]
+  );
+
   useEffect(() => {
     if (isOpen) {
-      setFormData(initialFormState);
+      setFormData({ ...initialFormState, warehouseId: defaultWarehouseId || '', productId: initialProductId || '' });
       setErrors({});
     }
-  }, [isOpen]);
+  }, [isOpen, defaultWarehouseId, initialProductId]);
 
   const validateField = (name: keyof typeof initialFormState, value: string, currentFormData: typeof initialFormState): string | undefined => {
     switch (name) {
+      case 'warehouseId':
+        if (!value) return "A warehouse must be selected.";
+        break;
       case 'productId':
         if (!value) return "A product must be selected.";
         break;
@@ -45,9 +59,11 @@ const StockAdjustmentFormModal: React.FC<StockAdjustmentFormModalProps> = ({ isO
         if (isNaN(numQuantity) || !Number.isInteger(numQuantity)) return "Must be a whole number.";
         if (numQuantity === 0) return "Change cannot be zero.";
         
-        const product = products.find(p => p.id === currentFormData.productId);
-        if (product && (product.quantity + numQuantity < 0)) {
-            return `This adjustment would result in negative stock (Current: ${product.quantity}).`;
+        if (currentFormData.productId && currentFormData.warehouseId) {
+            const currentQuantity = getWarehouseQuantity(productStock, currentFormData.productId, currentFormData.warehouseId);
+            if (currentQuantity + numQuantity < 0) {
+                return `This adjustment would result in negative stock (Current: ${currentQuantity}).`;
+            }
         }
         break;
       }
@@ -67,8 +83,8 @@ const StockAdjustmentFormModal: React.FC<StockAdjustmentFormModalProps> = ({ isO
     const error = validateField(fieldName, value, newFormData);
     setErrors(prev => ({ ...prev, [fieldName]: error }));
 
-    // Re-validate quantity if product is changed
-    if (fieldName === 'productId' && newFormData.quantityChange) {
+    // Re-validate quantity if product or warehouse is changed
+    if ((fieldName === 'productId' || fieldName === 'warehouseId') && newFormData.quantityChange) {
         const quantityError = validateField('quantityChange', newFormData.quantityChange, newFormData);
         setErrors(prev => ({ ...prev, quantityChange: quantityError }));
     }
@@ -100,6 +116,7 @@ const StockAdjustmentFormModal: React.FC<StockAdjustmentFormModalProps> = ({ isO
     setIsSaving(true);
     try {
         await onSave({
+            warehouseId: formData.warehouseId,
             productId: formData.productId,
             productName: selectedProduct.name,
             quantityChange: Number(formData.quantityChange),
@@ -123,11 +140,19 @@ const StockAdjustmentFormModal: React.FC<StockAdjustmentFormModalProps> = ({ isO
             <h2 className="text-xl font-bold text-gray-800">New Stock Adjustment</h2>
           </div>
           <div className="p-6 grid grid-cols-1 gap-y-4">
+            <div>
+              <label htmlFor="adjWarehouseId" className="block text-sm font-medium text-gray-700 mb-1">Warehouse</label>
+              <select name="warehouseId" id="adjWarehouseId" value={formData.warehouseId} onChange={handleChange} required className={`w-full border rounded-lg p-2 bg-gray-50 border-gray-300 focus:ring-primary-500 focus:border-primary-500 ${errors.warehouseId ? 'border-red-500' : 'border-gray-300'}`}>
+                <option value="" disabled>-- Select a Warehouse --</option>
+                {warehouses.map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
+              </select>
+              {errors.warehouseId && <p className="text-sm text-red-600 mt-1">{errors.warehouseId}</p>}
+            </div>
             <div>
               <label htmlFor="adjProductId" className="block text-sm font-medium text-gray-700 mb-1">Product</label>
               <select name="productId" id="adjProductId" value={formData.productId} onChange={handleChange} required className={`w-full border rounded-lg p-2 bg-gray-50 border-gray-300 focus:ring-primary-500 focus:border-primary-500 ${errors.productId ? 'border-red-500' : 'border-gray-300'}`}>
                 <option value="" disabled>-- Select a Product --</option>
-                {products.map(p => <option key={p.id} value={p.id}>{p.name} (Current Stock: {formatNumber(p.quantity)})</option>)}
+                {products.map(p => <option key={p.id} value={p.id}>{p.name} (Current Stock: {formatNumber(stockInWarehouse.get(p.id) || 0)})</option>)}
               </select>
               {errors.productId && <p className="text-sm text-red-600 mt-1">{errors.productId}</p>}
             </div>
@@ -1,15 +1,22 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import { StockAdjustment } from '../types';
+import { StockAdjustment, Warehouse } from '../types';
 import { formatDate, formatNumber } from '../utils/helpers';
+import { getWarehouseName } from '../utils/warehouses';
+import { exportRows, describeSort, ExportContext, ExportFormat } from '../utils/exports';
+import ExportMenu from './ExportMenu';
 import { XMarkIcon, ScaleIcon, SortIcon, SortUpIcon, SortDownIcon } from './icons/Icons';
 
 interface StockAdjustmentListProps {
   adjustments: StockAdjustment[];
+  warehouses: Warehouse[];
+  exportContext: ExportContext;
 }
 
 type SortKey = 'date' | 'productName' | 'reason' | 'adjustedBy';
 type SortDirection = 'asc' | 'desc';
 
+const SORT_LABELS: Record<SortKey, string> = { date: 'Date', productName: 'Product', reason: 'Reason', adjustedBy: 'Adjusted By' };
+
 const ADJUSTMENT_TABLE_STATE_KEY = 'stockerz_adjustment_table_state_v1';
 
 interface AdjustmentTableState {
@@ -42,7 +49,7 @@ const getInitialState = (): AdjustmentTableState => {
   };
 };
 
-const StockAdjustmentList: React.FC<StockAdjustmentListProps> = ({ adjustments }) => {
+const StockAdjustmentList: React.FC<StockAdjustmentListProps> = ({ adjustments, warehouses, exportContext }) => {
   const [tableState, setTableState] = useState<AdjustmentTableState>(getInitialState);
   const { startDate, endDate, reasonFilter, sortConfig } = tableState;
   
@@ -131,6 +138,32 @@ const StockAdjustmentList: React.FC<StockAdjustmentListProps> = ({ adjustments }
 
   const isFiltered = startDate || endDate || reasonFilter !== 'all';
 
+  const handleExport = (format: ExportFormat) => {
+    exportRows<StockAdjustment>(format, {
+      title: 'Stock Adjustments',
+      fileName: 'stock_adjustments',
+      columns: [
+        { header: 'Date', value: a => formatDate(a.date) },
+        { header: 'Product', value: a => a.productName },
+        { header: 'Warehouse', value: a => getWarehouseName(warehouses, a.warehouseId) },
+        { header: 'Quantity Change', value: a => a.quantityChange, align: 'right' },
+        { header: 'Reason', value: a => a.reason },
+        { header: 'Lot', value: a => a.lotNumber || '' },
+        { header: 'Notes', value: a => a.notes || '' },
+        { header: 'Adjusted By', value: a => a.adjustedBy },
+      ],
+      rows: sortedAdjustments,
+      filters: [
+        ...exportContext.scope,
+        ...(reasonFilter !== 'all' ? [`Reason: ${reasonFilter}`] : []),
+        ...(startDate ? [`From: ${startDate}`] : []),
+        ...(endDate ? [`To: ${endDate}`] : []),
+        ...describeSort(SORT_LABELS[sortConfig.key], sortConfig.direction),
+      ],
+      exportedBy: exportContext.exportedBy,
+    });
+  };
+
   return (
     <div className="bg-white rounded-xl shadow-lg overflow-hidden">
       <div className="p-4 md:p-6 border-b border-gray-200">
@@ -156,6 +189,7 @@ const StockAdjustmentList: React.FC<StockAdjustmentListProps> = ({ adjustments }
                 <span>Reset</span>
                 </button>
             )}
+            <ExportMenu onExport={handleExport} rowCount={sortedAdjustments.length} className="md:ml-auto" />
         </div>
       </div>
       <div className="overflow-x-auto">
@@ -164,6 +198,7 @@ const StockAdjustmentList: React.FC<StockAdjustmentListProps> = ({ adjustments }
             <tr>
               <th scope="col" className="px-6 py-3 border border-gray-300"><button onClick={() => requestSort('date')} className="flex items-center gap-1.5">Date {getSortIcon('date')}</button></th>
               <th scope="col" className="px-6 py-3 border border-gray-300"><button onClick={() => requestSort('productName')} className="flex items-center gap-1.5">Product {getSortIcon('productName')}</button></th>
+              <th scope="col" className="px-6 py-3 border border-gray-300">Warehouse</th>
               <th scope="col" className="px-6 py-3 text-right border border-gray-300">Quantity Change</th>
               <th scope="col" className="px-6 py-3 border border-gray-300"><button onClick={() => requestSort('reason')} className="flex items-center gap-1.5">Reason {getSortIcon('reason')}</button></th>
               <th scope="col" className="px-6 py-3 border border-gray-300">Notes</th>
@@ -175,17 +210,18 @@ const StockAdjustmentList: React.FC<StockAdjustmentListProps> = ({ adjustments }
               <tr key={item.id} className="block md:table-row bg-white hover:bg-gray-50">
                 <td className="px-6 py-4 block md:table-cell border border-gray-300" data-label="Date">{formatDate(item.date)}</td>
                 <td className="px-6 py-4 font-semibold text-gray-900 block md:table-cell border border-gray-300" data-label="Product">{item.productName}</td>
+                <td className="px-6 py-4 block md:table-cell border border-gray-300" data-label="Warehouse">{getWarehouseName(warehouses, item.warehouseId)}</td>
                 <td className={`px-6 py-4 text-left md:text-right font-bold block md:table-cell border border-gray-300 ${item.quantityChange > 0 ? 'text-green-600' : 'text-red-600'}`} data-label="Quantity Change">
                   {item.quantityChange > 0 ? `+${formatNumber(item.quantityChange)}` : formatNumber(item.quantityChange)}
                 </td>
-                <td className="px-6 py-4 block md:table-cell border border-gray-300" data-label="Reason">{item.reason}</td>
+                <td className="px-6 py-4 block md:table-cell border border-gray-300" data-label="Reason">{item.reason}{item.lotNumber && <span className="block text-xs font-mono text-gray-500">Lot: {item.lotNumber}</span>}</td>
                 <td className="px-6 py-4 text-xs italic text-gray-500 block md:table-cell border border-gray-300" data-label="Notes">{item.notes || 'N/A'}</td>
                 <td className="px-6 py-4 block md:table-cell border border-gray-300 capitalize" data-label="Adjusted By">{item.adjustedBy}</td>
               </tr>
             ))}
             {sortedAdjustments.length === 0 && (
               <tr className="md:table-row">
-                <td colSpan={6} className="text-center py-16 text-gray-500 block md:table-cell border border-gray-300">
+                <td colSpan={7} className="text-center py-16 text-gray-500 block md:table-cell border border-gray-300">
                   <div className="flex flex-col items-center justify-center">
                     <ScaleIcon className="h-16 w-16 text-gray-300 mb-3" />
                     <p className="font-semibold text-lg">No stock adjustments found.</p>
@@ -0,0 +1,37 @@
+import React from 'react';
+import { StockLevels } from '../types';
+import { formatNumber } from '../utils/helpers';
+import { STOCK_LEVEL_FIELDS, StockLevelsFormState } from '../utils/stockLevels';
+
+interface StockLevelsFieldsProps {
+  values: StockLevelsFormState;
+  errors: Partial<Record<keyof StockLevels, string>>;
+  onChange: (key: keyof StockLevels, value: string) => void;
+  // Levels used when a field is left empty, shown as the placeholder.
+  defaults?: Partial<Record<keyof StockLevels, number>>;
+  idPrefix: string;
+}
+
+const StockLevelsFields: React.FC<StockLevelsFieldsProps> = ({ values, errors, onChange, defaults = {}, idPrefix }) => (
+  <div className="grid grid-cols-2 md:grid-cols-4 gap-x-4 gap-y-4">
+    {STOCK_LEVEL_FIELDS.map(({ key, label }) => (
+      <div key={key}>
+        <label htmlFor={`${idPrefix}-${key}`} className="block text-sm font-medium text-slate-700 mb-1">{label}</label>
+        <input
+          type="text"
+          inputMode="numeric"
+          id={`${idPrefix}-${key}`}
+          name={key}
+          value={values[key]}
+          onChange={(e) => onChange(key, e.target.value.replace(/\D/g, ''))}
+          placeholder={defaults[key] !== undefined ? `Default: ${formatNumber(defaults[key]!)}` : 'Not set'}
+          className={`w-full border rounded-lg p-2 bg-slate-50 border-slate-300 focus:ring-primary-500 focus:border-primary-500 ${errors[key] ? 'border-red-500' : 'border-slate-300'}`}
+          aria-invalid={!!errors[key]}
+        />
+        {errors[key] && <p className="text-sm text-red-600 mt-1">{errors[key]}</p>}
+      </div>
+    ))}
+  </div>
+);
+
+export default StockLevelsFields;
@@ -0,0 +1,172 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Product, ProductStock, SerialNumber, StockTransfer, StockTransferFormErrors, Warehouse } from '../types';
+import { formatNumber } from '../utils/helpers';
+import { getAvailableSerials } from '../utils/serials';
+import { getBaseUnit, formatQuantity } from '../utils/units';
+import { getWarehouseQuantity } from '../utils/warehouses';
+import { LoadingIcon } from './icons/Icons';
+
+interface StockTransferModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (transfer: StockTransfer) => Promise<void>;
+  product: Product;
+  warehouses: Warehouse[];
+  // Available (unreserved) stock per warehouse.
+  productStock: ProductStock[];
+  serialNumbers: SerialNumber[];
+  defaultWarehouseId?: string;
+}
+
+const StockTransferModal: React.FC<StockTransferModalProps> = ({ isOpen, onClose, onConfirm, product, warehouses, productStock, serialNumbers, defaultWarehouseId }) => {
+  const [fromWarehouseId, setFromWarehouseId] = useState('');
+  const [toWarehouseId, setToWarehouseId] = useState('');
+  const [quantity, setQuantity] = useState('');
+  const [notes, setNotes] = useState('');
+  const [selectedSerials, setSelectedSerials] = useState<string[]>([]);
+  const [errors, setErrors] = useState<StockTransferFormErrors>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setFromWarehouseId(defaultWarehouseId || '');
+      setToWarehouseId('');
+      setQuantity('');
+      setNotes('');
+      setSelectedSerials([]);
+      setErrors({});
+    }
+  }, [isOpen, defaultWarehouseId]);
+
+  const unit = getBaseUnit(product);
+  const available = fromWarehouseId ? getWarehouseQuantity(productStock, product.id, fromWarehouseId) : 0;
+  const availableSerials = useMemo(
+    () => product.isSerialized && fromWarehouseId ? getAvailableSerials(serialNumbers, product.id, fromWarehouseId) : [],
+    [product, serialNumbers, fromWarehouseId]
+  );
+
+  const handleFromWarehouseChange = (warehouseId: string) => {
+    setFromWarehouseId(warehouseId);
+    setSelectedSerials([]);
+    setErrors({});
+  };
+
+  const toggleSerial = (serialNumber: string) => {
+    setSelectedSerials(prev => prev.includes(serialNumber) ? prev.filter(s => s !== serialNumber) : [...prev, serialNumber]);
+  };
+
+  const validate = (): StockTransferFormErrors => {
+    const newErrors: StockTransferFormErrors = {};
+    if (!fromWarehouseId) newErrors.fromWarehouseId = "A warehouse must be selected.";
+    if (!toWarehouseId) newErrors.toWarehouseId = "A warehouse must be selected.";
+    else if (toWarehouseId === fromWarehouseId) newErrors.toWarehouseId = "Choose a different warehouse from the one the stock leaves.";
+    const numQuantity = product.isSerialized ? selectedSerials.length : Number(quantity);
+    if (product.isSerialized) {
+      if (numQuantity === 0) newErrors.serialNumbers = "Select the units to transfer.";
+      else if (fromWarehouseId && numQuantity > available) newErrors.serialNumbers = `Only ${formatQuantity(available, unit)} are available to transfer.`;
+    } else if (!quantity) newErrors.quantity = "Quantity cannot be empty.";
+    else if (!Number.isInteger(numQuantity) || numQuantity <= 0) newErrors.quantity = "Quantity must be a whole number greater than 0.";
+    else if (fromWarehouseId && numQuantity > available) newErrors.quantity = `Only ${formatQuantity(available, unit)} are available to transfer.`;
+    return newErrors;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const newErrors = validate();
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) return;
+
+    setIsSaving(true);
+    try {
+        await onConfirm({
+          productId: product.id,
+          fromWarehouseId,
+          toWarehouseId,
+          quantity: product.isSerialized ? selectedSerials.length : Number(quantity),
+          notes: notes.trim() || undefined,
+          serialNumbers: product.isSerialized ? selectedSerials : undefined,
+        });
+    } catch (error) {
+        // Parent handles toast
+    } finally {
+        setIsSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div onClick={onClose} className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4" role="dialog" aria-modal="true">
+      <div onClick={(e) => e.stopPropagation()} className="bg-white rounded-xl shadow-2xl w-full max-w-lg max-h-full overflow-y-auto">
+        <form onSubmit={handleSubmit} noValidate>
+          <div className="p-6 border-b border-gray-200">
+            <h2 className="text-xl font-bold text-gray-800">Transfer Stock</h2>
+            <p className="text-sm text-gray-500 mt-1">{product.name} · {product.sku}</p>
+          </div>
+          <div className="p-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="transferFromWarehouseId" className="block text-sm font-medium text-gray-700 mb-1">From</label>
+              <select id="transferFromWarehouseId" value={fromWarehouseId} onChange={e => handleFromWarehouseChange(e.target.value)} required className={`w-full border rounded-lg p-2 bg-gray-50 border-gray-300 focus:ring-primary-500 focus:border-primary-500 ${errors.fromWarehouseId ? 'border-red-500' : 'border-gray-300'}`}>
+                <option value="" disabled>-- Select a Warehouse --</option>
+                {warehouses.map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
+              </select>
+              {errors.fromWarehouseId && <p className="text-sm text-red-600 mt-1">{errors.fromWarehouseId}</p>}
+              {fromWarehouseId && !errors.fromWarehouseId && <p className="text-xs text-gray-500 mt-1">{formatQuantity(available, unit)} available</p>}
+            </div>
+            <div>
+              <label htmlFor="transferToWarehouseId" className="block text-sm font-medium text-gray-700 mb-1">To</label>
+              <select id="transferToWarehouseId" value={toWarehouseId} onChange={e => setToWarehouseId(e.target.value)} required className={`w-full border rounded-lg p-2 bg-gray-50 border-gray-300 focus:ring-primary-500 focus:border-primary-500 ${errors.toWarehouseId ? 'border-red-500' : 'border-gray-300'}`}>
+                <option value="" disabled>-- Select a Warehouse --</option>
+                {warehouses.filter(w => w.id !== fromWarehouseId).map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
+              </select>
+              {errors.toWarehouseId && <p className="text-sm text-red-600 mt-1">{errors.toWarehouseId}</p>}
+            </div>
+            {product.isSerialized ? (
+              <div className="md:col-span-2">
+                <p className="text-sm font-medium text-gray-700 mb-1">
+                  Units to transfer <span className="font-normal text-gray-500">({formatNumber(selectedSerials.length)} selected)</span>
+                </p>
+                {!fromWarehouseId ? (
+                  <p className="text-sm text-gray-500">Select the warehouse the stock leaves.</p>
+                ) : availableSerials.length === 0 ? (
+                  <p className="text-sm text-gray-500">No units with serial numbers are in stock in this warehouse.</p>
+                ) : (
+                  <ul className="max-h-40 overflow-y-auto text-sm border rounded-lg divide-y">
+                    {availableSerials.map(serial => (
+                      <li key={serial.id}>
+                        <label className="px-3 py-2 flex items-center gap-2 cursor-pointer hover:bg-gray-50">
+                          <input type="checkbox" checked={selectedSerials.includes(serial.serialNumber)} onChange={() => toggleSerial(serial.serialNumber)} className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500" />
+                          <span className="font-mono">{serial.serialNumber}</span>
+                        </label>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {errors.serialNumbers && <p className="text-sm text-red-600 mt-1">{errors.serialNumbers}</p>}
+              </div>
+            ) : (
+              <div className="md:col-span-2">
+                <label htmlFor="transferQuantity" className="block text-sm font-medium text-gray-700 mb-1">Quantity ({unit})</label>
+                <input type="number" id="transferQuantity" value={quantity} onChange={e => setQuantity(e.target.value)} min="1" required className={`w-full border rounded-lg p-2 bg-gray-50 border-gray-300 focus:ring-primary-500 focus:border-primary-500 ${errors.quantity ? 'border-red-500' : 'border-gray-300'}`} />
+                {errors.quantity && <p className="text-sm text-red-600 mt-1">{errors.quantity}</p>}
+              </div>
+            )}
+            <div className="md:col-span-2">
+              <label htmlFor="transferNotes" className="block text-sm font-medium text-gray-700 mb-1">Notes (Optional)</label>
+              <textarea id="transferNotes" value={notes} onChange={e => setNotes(e.target.value)} rows={2} className="w-full border rounded-lg p-2 bg-gray-50 border-gray-300 focus:ring-primary-500 focus:border-primary-500" />
+            </div>
+            <p className="md:col-span-2 text-xs text-gray-500">The stock moves at its cost, with its lots and expiry dates. Stock reserved for approved requests stays where it is.</p>
+          </div>
+          <div className="p-6 bg-gray-50 border-t border-gray-200 flex justify-end gap-3 rounded-b-xl">
+            <button type="button" onClick={onClose} disabled={isSaving} className="px-4 py-2 bg-white border border-gray-300 text-gray-700 font-semibold rounded-lg hover:bg-gray-100 disabled:opacity-50">Cancel</button>
+            <button type="submit" disabled={isSaving} className="w-40 flex justify-center items-center px-4 py-2 bg-primary-600 text-white font-semibold rounded-lg hover:bg-primary-700 disabled:bg-primary-400">
+              {isSaving ? <LoadingIcon className="w-5 h-5 animate-spin" /> : 'Transfer'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default StockTransferModal;
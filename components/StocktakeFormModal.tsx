@@ -0,0 +1,160 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { BinLocation, Product, ProductStock, Stocktake, StocktakeFormErrors, Warehouse } from '../types';
+import { formatNumber } from '../utils/helpers';
+import { DEFAULT_VARIANCE_TOLERANCE, VARIANCE_TOLERANCE_LIMITS, getStocktakeProducts, validateStocktake } from '../utils/stocktakes';
+import { LoadingIcon } from './icons/Icons';
+
+export type StocktakeScopeInput = Pick<Stocktake, 'warehouseId' | 'category' | 'zone' | 'binLocationId' | 'varianceTolerance' | 'notes'>;
+
+interface StocktakeFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onStart: (stocktake: StocktakeScopeInput) => Promise<void>;
+  products: Product[];
+  productStock: ProductStock[];
+  warehouses: Warehouse[];
+  binLocations: BinLocation[];
+  categories: string[];
+  defaultWarehouseId?: string;
+}
+
+// The location select holds "zone:<zone>" or "bin:<id>", or '' for the whole warehouse.
+const initialFormState = {
+  warehouseId: '',
+  category: '',
+  location: '',
+  varianceTolerance: String(DEFAULT_VARIANCE_TOLERANCE),
+  notes: '',
+};
+
+const StocktakeFormModal: React.FC<StocktakeFormModalProps> = ({ isOpen, onClose, onStart, products, productStock, warehouses, binLocations, categories, defaultWarehouseId }) => {
+  const [formData, setFormData] = useState(initialFormState);
+  const [errors, setErrors] = useState<StocktakeFormErrors>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setFormData({ ...initialFormState, warehouseId: defaultWarehouseId || '' });
+      setErrors({});
+    }
+  }, [isOpen, defaultWarehouseId]);
+
+  const warehouseBins = useMemo(() => binLocations.filter(b => b.warehouseId === formData.warehouseId), [binLocations, formData.warehouseId]);
+  const zones = useMemo(() => Array.from(new Set(warehouseBins.map(b => b.zone))).sort(), [warehouseBins]);
+
+  const stocktake = useMemo((): StocktakeScopeInput => {
+    const [kind, value] = formData.location.split(':');
+    return {
+      warehouseId: formData.warehouseId,
+      category: formData.category || undefined,
+      zone: kind === 'zone' ? value : undefined,
+      binLocationId: kind === 'bin' ? value : undefined,
+      varianceTolerance: formData.varianceTolerance.trim() === '' ? NaN : Number(formData.varianceTolerance),
+      notes: formData.notes.trim() || undefined,
+    };
+  }, [formData]);
+
+  const productCount = useMemo(
+    () => stocktake.warehouseId ? getStocktakeProducts(products, productStock, binLocations, stocktake).length : 0,
+    [products, productStock, binLocations, stocktake]
+  );
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    // Bins and zones belong to one warehouse.
+    setFormData(prev => ({ ...prev, [name]: value, ...(name === 'warehouseId' ? { location: '' } : {}) }));
+    if (errors[name as keyof StocktakeFormErrors]) setErrors(prev => ({ ...prev, [name]: undefined }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const newErrors = validateStocktake(stocktake);
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) return;
+
+    setIsSaving(true);
+    try {
+      await onStart(stocktake);
+    } catch (error) {
+      // Parent handles toast
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const inputClassName = (error?: string) => `w-full border rounded-lg p-2 bg-gray-50 focus:ring-primary-500 focus:border-primary-500 ${error ? 'border-red-500' : 'border-gray-300'}`;
+
+  return (
+    <div onClick={onClose} className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4" role="dialog" aria-modal="true">
+      <div onClick={(e) => e.stopPropagation()} className="bg-white rounded-xl shadow-2xl w-full max-w-lg max-h-full overflow-y-auto">
+        <form onSubmit={handleSubmit} noValidate>
+          <div className="p-6 border-b border-gray-200">
+            <h2 className="text-xl font-bold text-gray-800">New Stocktake</h2>
+            <p className="text-sm text-gray-500 mt-1">The quantity of every product in scope is recorded now. Counters do not see it.</p>
+          </div>
+          <div className="p-6 grid grid-cols-1 gap-y-4">
+            <div>
+              <label htmlFor="stocktakeWarehouseId" className="block text-sm font-medium text-gray-700 mb-1">Warehouse</label>
+              <select name="warehouseId" id="stocktakeWarehouseId" value={formData.warehouseId} onChange={handleChange} className={inputClassName(errors.warehouseId)}>
+                <option value="" disabled>-- Select a Warehouse --</option>
+                {warehouses.map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
+              </select>
+              {errors.warehouseId && <p className="text-sm text-red-600 mt-1">{errors.warehouseId}</p>}
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="stocktakeCategory" className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+                <select name="category" id="stocktakeCategory" value={formData.category} onChange={handleChange} className={inputClassName()}>
+                  <option value="">All Categories</option>
+                  {categories.map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="stocktakeLocation" className="block text-sm font-medium text-gray-700 mb-1">Location</label>
+                <select name="location" id="stocktakeLocation" value={formData.location} onChange={handleChange} disabled={!formData.warehouseId} className={inputClassName()}>
+                  <option value="">Whole Warehouse</option>
+                  {zones.length > 0 && (
+                    <optgroup label="Zones">
+                      {zones.map(z => <option key={z} value={`zone:${z}`}>Zone {z}</option>)}
+                    </optgroup>
+                  )}
+                  {warehouseBins.length > 0 && (
+                    <optgroup label="Bins">
+                      {warehouseBins.map(b => <option key={b.id} value={`bin:${b.id}`}>{b.code}</option>)}
+                    </optgroup>
+                  )}
+                </select>
+              </div>
+            </div>
+            <div>
+              <label htmlFor="stocktakeTolerance" className="block text-sm font-medium text-gray-700 mb-1">Variance Tolerance (%)</label>
+              <input type="number" name="varianceTolerance" id="stocktakeTolerance" value={formData.varianceTolerance} onChange={handleChange} min={VARIANCE_TOLERANCE_LIMITS.min} max={VARIANCE_TOLERANCE_LIMITS.max} step="any" className={inputClassName(errors.varianceTolerance)} />
+              {errors.varianceTolerance
+                ? <p className="text-sm text-red-600 mt-1">{errors.varianceTolerance}</p>
+                : <p className="text-xs text-gray-500 mt-1">Lines whose count differs from the system quantity by more than this are counted again.</p>}
+            </div>
+            <div>
+              <label htmlFor="stocktakeNotes" className="block text-sm font-medium text-gray-700 mb-1">Notes (Optional)</label>
+              <textarea name="notes" id="stocktakeNotes" value={formData.notes} onChange={handleChange} rows={2} className={inputClassName()} />
+            </div>
+            {formData.warehouseId && (
+              <p className={`text-sm ${productCount > 0 ? 'text-gray-600' : 'text-red-600'}`}>
+                {productCount > 0 ? `${formatNumber(productCount)} product${productCount === 1 ? '' : 's'} will be counted.` : 'No products match this warehouse, category and location.'}
+              </p>
+            )}
+          </div>
+          <div className="p-6 bg-gray-50 border-t border-gray-200 flex justify-end gap-3 rounded-b-xl">
+            <button type="button" onClick={onClose} disabled={isSaving} className="px-4 py-2 bg-white border border-gray-300 text-gray-700 font-semibold rounded-lg hover:bg-gray-100 disabled:opacity-50">Cancel</button>
+            <button type="submit" disabled={isSaving || productCount === 0} className="w-40 flex justify-center items-center px-4 py-2 bg-primary-600 text-white font-semibold rounded-lg hover:bg-primary-700 disabled:bg-primary-400">
+              {isSaving ? <LoadingIcon className="w-5 h-5 animate-spin" /> : 'Start Counting'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default StocktakeFormModal;
@@ -0,0 +1,116 @@
+import React, { useState, useMemo } from 'react';
+import { BinLocation, Stocktake, StocktakeLine, User, Warehouse } from '../types';
+import { formatDate, formatNumber } from '../utils/helpers';
+import { getWarehouseName } from '../utils/warehouses';
+import { STOCKTAKE_STATUS_STYLES, canManageStocktakes, describeStocktakeScope, getStocktakeReference, isStocktakeOpen, summarizeStocktake } from '../utils/stocktakes';
+import { ClipboardCheckIcon, PlusIcon } from './icons/Icons';
+
+interface StocktakeListProps {
+  stocktakes: Stocktake[];
+  lines: StocktakeLine[];
+  warehouses: Warehouse[];
+  binLocations: BinLocation[];
+  currentUser: User;
+  onNewStocktake: () => void;
+  onOpenStocktake: (stocktake: Stocktake) => void;
+}
+
+type ActiveTab = 'open' | 'closed';
+
+const StocktakeList: React.FC<StocktakeListProps> = ({ stocktakes, lines, warehouses, binLocations, currentUser, onNewStocktake, onOpenStocktake }) => {
+  const [activeTab, setActiveTab] = useState<ActiveTab>('open');
+  const canManage = canManageStocktakes(currentUser);
+
+  const openStocktakes = useMemo(() => stocktakes.filter(isStocktakeOpen), [stocktakes]);
+  const closedStocktakes = useMemo(() => stocktakes.filter(st => !isStocktakeOpen(st)), [stocktakes]);
+  const visibleStocktakes = activeTab === 'open' ? openStocktakes : closedStocktakes;
+
+  const summaries = useMemo(() => {
+    const linesByStocktake = new Map<string, StocktakeLine[]>();
+    lines.forEach(line => linesByStocktake.set(line.stocktakeId, [...(linesByStocktake.get(line.stocktakeId) || []), line]));
+    return new Map(stocktakes.map(st => [st.id, summarizeStocktake(st, linesByStocktake.get(st.id) || [])]));
+  }, [stocktakes, lines]);
+
+  const TabButton: React.FC<{ tabId: ActiveTab; label: string; count: number; }> = ({ tabId, label, count }) => (
+    <button
+      onClick={() => setActiveTab(tabId)}
+      className={`px-4 py-2 text-sm font-semibold rounded-t-lg border-b-2 transition-colors ${
+        activeTab === tabId
+          ? 'border-primary-500 text-primary-600'
+          : 'border-transparent text-slate-500 hover:text-slate-700 hover:border-slate-300'
+      }`}
+    >
+      {label}
+      {count > 0 && (
+        <span className={`ml-2 px-2 py-0.5 rounded-full text-xs ${activeTab === tabId ? 'bg-primary-100 text-primary-700' : 'bg-slate-200 text-slate-600'}`}>
+          {count}
+        </span>
+      )}
+    </button>
+  );
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg overflow-hidden">
+      <div className="px-4 md:px-6 border-b border-slate-200">
+        <div className="flex items-center">
+          <TabButton tabId="open" label="Open" count={openStocktakes.length} />
+          <TabButton tabId="closed" label="Posted & Cancelled" count={closedStocktakes.length} />
+          {canManage && (
+            <button onClick={onNewStocktake} className="ml-auto my-2 flex items-center gap-2 bg-primary-500 text-white font-semibold px-4 py-2 rounded-lg shadow-md hover:bg-primary-600 transition-colors">
+              <PlusIcon className="w-5 h-5" />
+              <span className="hidden sm:inline">New Stocktake</span>
+            </button>
+          )}
+        </div>
+      </div>
+      <div className="overflow-x-auto">
+        {visibleStocktakes.length === 0 ? (
+          <div className="text-center py-16 text-gray-500">
+            <ClipboardCheckIcon className="w-16 h-16 mx-auto text-gray-300 mb-3" />
+            <p className="font-semibold text-lg">{activeTab === 'open' ? 'No stocktakes in progress.' : 'No posted or cancelled stocktakes yet.'}</p>
+            {activeTab === 'open' && <p>{canManage ? 'Start a stocktake to count a warehouse, a category or a zone.' : 'A supervisor starts stocktakes; they appear here for counting.'}</p>}
+          </div>
+        ) : (
+          <table className="w-full text-sm text-left text-gray-600">
+            <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+              <tr>
+                <th scope="col" className="px-6 py-3">Stocktake</th>
+                <th scope="col" className="px-6 py-3">Warehouse</th>
+                <th scope="col" className="px-6 py-3">Scope</th>
+                <th scope="col" className="px-6 py-3">Status</th>
+                <th scope="col" className="px-6 py-3 text-right">{activeTab === 'open' ? 'Counted' : 'Variances'}</th>
+                <th scope="col" className="px-6 py-3">Started</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleStocktakes.map(stocktake => {
+                const summary = summaries.get(stocktake.id)!;
+                return (
+                  <tr key={stocktake.id} onClick={() => onOpenStocktake(stocktake)} className="border-b bg-white hover:bg-gray-50 cursor-pointer">
+                    <td className="px-6 py-4 font-mono font-semibold text-primary-700">{getStocktakeReference(stocktake)}</td>
+                    <td className="px-6 py-4">{getWarehouseName(warehouses, stocktake.warehouseId)}</td>
+                    <td className="px-6 py-4">{describeStocktakeScope(stocktake, binLocations)}</td>
+                    <td className="px-6 py-4">
+                      <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${STOCKTAKE_STATUS_STYLES[stocktake.status]}`}>{stocktake.status}</span>
+                    </td>
+                    <td className="px-6 py-4 text-right font-semibold">
+                      {activeTab === 'open'
+                        ? `${formatNumber(summary.countedCount)} / ${formatNumber(summary.lineCount)}`
+                        : stocktake.status === 'Posted' ? formatNumber(summary.varianceCount) : '-'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {formatDate(stocktake.createdDate)}
+                      <span className="block text-xs text-gray-500 capitalize">{stocktake.createdBy}</span>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StocktakeList;
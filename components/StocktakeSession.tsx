@@ -0,0 +1,354 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { BinLocation, ProductStock, Stocktake, StocktakeLine, User, Warehouse } from '../types';
+import { formatCurrency, formatDate, formatNumber } from '../utils/helpers';
+import { getWarehouseName, getWarehouseQuantity } from '../utils/warehouses';
+import {
+  STOCKTAKE_STATUS_STYLES, canManageStocktakes, describeStocktakeScope, getEnteredCount, getFinalCount, getLineAdjustment, getLineVariance,
+  getLinesToCount, getStocktakeReference, sortStocktakeLines, summarizeStocktake,
+} from '../utils/stocktakes';
+import { BarcodeIcon, CheckIcon, LoadingIcon, PrinterIcon, SearchIcon, XMarkIcon } from './icons/Icons';
+
+interface StocktakeSessionProps {
+  stocktake: Stocktake;
+  lines: StocktakeLine[];
+  warehouses: Warehouse[];
+  binLocations: BinLocation[];
+  productStock: ProductStock[]; // Current warehouse quantities, which posting adjusts to the counts
+  currentUser: User;
+  onBack: () => void;
+  onSaveCount: (line: StocktakeLine, quantity: number) => Promise<void>;
+  onSubmitCounts: () => Promise<void>;
+  onPost: () => Promise<void>;
+  onCancel: () => Promise<void>;
+  onPrintCountSheet: () => void;
+  onScanToCount: () => void;
+}
+
+// Keeps what is typed until the field loses focus or Enter is pressed, then saves it. A count cannot be cleared once saved.
+const CountInput: React.FC<{ value: number | null; label: string; onSave: (quantity: number) => Promise<void> }> = ({ value, label, onSave }) => {
+  const [text, setText] = useState(value === null ? '' : String(value));
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    setText(value === null ? '' : String(value));
+    setError(false);
+  }, [value]);
+
+  const commit = async () => {
+    const trimmed = text.trim();
+    if (trimmed === '') {
+      setText(value === null ? '' : String(value));
+      setError(false);
+      return;
+    }
+    const quantity = Number(trimmed);
+    if (!Number.isInteger(quantity) || quantity < 0) {
+      setError(true);
+      return;
+    }
+    setError(false);
+    if (quantity === value) return;
+    setIsSaving(true);
+    try {
+      await onSave(quantity);
+    } catch (e) {
+      setText(value === null ? '' : String(value));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-end gap-2">
+      {isSaving && <LoadingIcon className="w-4 h-4 animate-spin text-gray-400" />}
+      <input
+        type="number"
+        inputMode="numeric"
+        min="0"
+        value={text}
+        onChange={e => setText(e.target.value)}
+        onBlur={commit}
+        onKeyDown={e => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+        disabled={isSaving}
+        className={`w-24 border rounded-lg p-2 text-right bg-gray-50 focus:ring-primary-500 focus:border-primary-500 ${error ? 'border-red-500' : 'border-gray-300'}`}
+        aria-label={label}
+        aria-invalid={error}
+      />
+    </div>
+  );
+};
+
+const StocktakeSession: React.FC<StocktakeSessionProps> = ({
+  stocktake, lines, warehouses, binLocations, productStock, currentUser, onBack, onSaveCount, onSubmitCounts, onPost, onCancel, onPrintCountSheet, onScanToCount,
+}) => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [showUncountedOnly, setShowUncountedOnly] = useState(false);
+  const [showVariancesOnly, setShowVariancesOnly] = useState(true);
+  const [pendingAction, setPendingAction] = useState<'submit' | 'post' | 'cancel' | null>(null);
+  const [confirming, setConfirming] = useState<'post' | 'cancel' | null>(null);
+
+  const canManage = canManageStocktakes(currentUser);
+  const canCount = currentUser.role !== 'Viewer';
+  const isCounting = stocktake.status === 'Counting' || stocktake.status === 'Recount';
+  // System quantities stay hidden until the counts are in, and from counters until the stocktake is closed.
+  const showsVariances = stocktake.status === 'Posted' || (stocktake.status === 'Review' && canManage);
+
+  // Under review, each line shows how far its stock moved since the count started and the adjustment posting will
+  // make from the current quantity. Posted stocktakes show the variance from the quantity at the start.
+  const isReview = stocktake.status === 'Review';
+  const getCurrentQuantity = useMemo(
+    () => isReview ? (line: StocktakeLine) => getWarehouseQuantity(productStock, line.productId, stocktake.warehouseId) : undefined,
+    [isReview, productStock, stocktake.warehouseId]
+  );
+  const getLineChange = (line: StocktakeLine) => getCurrentQuantity ? getLineAdjustment(line, getCurrentQuantity(line)) : getLineVariance(line);
+
+  const summary = useMemo(() => summarizeStocktake(stocktake, lines, getCurrentQuantity), [stocktake, lines, getCurrentQuantity]);
+  const sortedLines = useMemo(() => sortStocktakeLines(lines), [lines]);
+
+  const visibleLines = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    const stageLines = isCounting ? getLinesToCount(stocktake, sortedLines) : sortedLines;
+    return stageLines.filter(line => {
+      if (term && ![line.productName, line.sku, line.location].some(value => value.toLowerCase().includes(term))) return false;
+      if (isCounting && showUncountedOnly && getEnteredCount(stocktake, line) !== null) return false;
+      if (showsVariances && showVariancesOnly && getLineChange(line) === 0) return false;
+      return true;
+    });
+  }, [sortedLines, stocktake, isCounting, showsVariances, searchTerm, showUncountedOnly, showVariancesOnly, getCurrentQuantity]);
+
+  const runAction = async (action: 'submit' | 'post' | 'cancel', task: () => Promise<void>) => {
+    setPendingAction(action);
+    try {
+      await task();
+      setConfirming(null);
+    } catch (error) {
+      // Parent handles toast
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const allCounted = summary.countedCount === summary.lineCount;
+  const progress = summary.lineCount > 0 ? Math.round(summary.countedCount / summary.lineCount * 100) : 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-lg p-4 md:p-6">
+        <div className="flex flex-col md:flex-row md:items-start gap-4">
+          <div className="flex-1">
+            <button onClick={onBack} className="text-sm font-semibold text-primary-600 hover:text-primary-700 mb-2">&larr; All Stocktakes</button>
+            <div className="flex items-center gap-3">
+              <h2 className="text-xl font-bold text-gray-800 font-mono">{getStocktakeReference(stocktake)}</h2>
+              <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${STOCKTAKE_STATUS_STYLES[stocktake.status]}`}>{stocktake.status}</span>
+            </div>
+            <p className="text-sm text-gray-600 mt-1">{getWarehouseName(warehouses, stocktake.warehouseId)} · {describeStocktakeScope(stocktake, binLocations)} · Tolerance {formatNumber(stocktake.varianceTolerance)}%</p>
+            <p className="text-xs text-gray-500 mt-1">
+              Started {formatDate(stocktake.createdDate)} by <span className="capitalize">{stocktake.createdBy}</span>
+              {stocktake.submittedBy && stocktake.submittedDate && <> · Submitted {formatDate(stocktake.submittedDate)} by <span className="capitalize">{stocktake.submittedBy}</span></>}
+              {stocktake.closedBy && stocktake.closedDate && <> · {stocktake.status} {formatDate(stocktake.closedDate)} by <span className="capitalize">{stocktake.closedBy}</span></>}
+            </p>
+            {stocktake.notes && <p className="text-sm italic text-gray-500 mt-2">{stocktake.notes}</p>}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {isCounting && (
+              <button onClick={onPrintCountSheet} className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-sm font-semibold text-gray-600 hover:bg-gray-100">
+                <PrinterIcon className="w-5 h-5" />
+                <span>Count Sheet</span>
+              </button>
+            )}
+            {isCounting && canCount && (
+              <button onClick={onScanToCount} className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-sm font-semibold text-gray-600 hover:bg-gray-100">
+                <BarcodeIcon className="w-5 h-5" />
+                <span>Scan to Count</span>
+              </button>
+            )}
+            {canManage && stocktake.status !== 'Posted' && stocktake.status !== 'Cancelled' && (
+              <button onClick={() => setConfirming('cancel')} className="flex items-center gap-2 px-4 py-2 border border-red-200 rounded-lg text-sm font-semibold text-red-600 hover:bg-red-50">
+                <XMarkIcon className="w-5 h-5" />
+                <span>Cancel Stocktake</span>
+              </button>
+            )}
+          </div>
+        </div>
+
+        {isCounting && (
+          <div className="mt-4">
+            <div className="flex justify-between text-sm text-gray-600 mb-1">
+              <span>{stocktake.status === 'Recount' ? `Recount the ${formatNumber(summary.lineCount)} line${summary.lineCount === 1 ? '' : 's'} whose count was outside the tolerance.` : 'Count every line, then submit the counts.'}</span>
+              <span className="font-semibold">{formatNumber(summary.countedCount)} / {formatNumber(summary.lineCount)}</span>
+            </div>
+            <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+              <div className="h-full bg-primary-500 transition-all" style={{ width: `${progress}%` }}></div>
+            </div>
+          </div>
+        )}
+
+        {showsVariances && (
+          <div className="mt-4 grid grid-cols-2 lg:grid-cols-4 gap-4">
+            <div className="bg-gray-50 rounded-lg p-3">
+              <p className="text-xs text-gray-500">Lines Counted</p>
+              <p className="text-lg font-bold text-gray-800">{formatNumber(lines.length)}</p>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-3">
+              <p className="text-xs text-gray-500">Lines with a Variance</p>
+              <p className="text-lg font-bold text-gray-800">{formatNumber(summary.varianceCount)}</p>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-3">
+              <p className="text-xs text-gray-500">Net Variance Value</p>
+              <p className={`text-lg font-bold ${summary.netVarianceValue < 0 ? 'text-red-600' : 'text-gray-800'}`}>{formatCurrency(summary.netVarianceValue, 'IDR')}</p>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-3">
+              <p className="text-xs text-gray-500">Absolute Variance Value</p>
+              <p className="text-lg font-bold text-gray-800">{formatCurrency(summary.absoluteVarianceValue, 'IDR')}</p>
+            </div>
+          </div>
+        )}
+
+        {confirming && (
+          <div className={`mt-4 p-4 rounded-lg flex flex-col sm:flex-row sm:items-center gap-3 ${confirming === 'post' ? 'bg-primary-50' : 'bg-red-50'}`}>
+            <p className="flex-1 text-sm text-gray-700">
+              {confirming === 'post'
+                ? `Post ${formatNumber(summary.varianceCount)} stocktake adjustment${summary.varianceCount === 1 ? '' : 's'} with a net value of ${formatCurrency(summary.netVarianceValue, 'IDR')}? Each product is set to its count, from its quantity at the time of posting.`
+                : 'Cancel this stocktake? The counts are kept for reference, but no stock is adjusted.'}
+            </p>
+            <div className="flex gap-2">
+              <button onClick={() => setConfirming(null)} disabled={!!pendingAction} className="px-4 py-2 bg-white border border-gray-300 text-gray-700 font-semibold rounded-lg hover:bg-gray-100 disabled:opacity-50">Back</button>
+              <button
+                onClick={() => runAction(confirming, confirming === 'post' ? onPost : onCancel)}
+                disabled={!!pendingAction}
+                className={`w-36 flex justify-center items-center px-4 py-2 text-white font-semibold rounded-lg ${confirming === 'post' ? 'bg-primary-600 hover:bg-primary-700 disabled:bg-primary-400' : 'bg-red-600 hover:bg-red-700 disabled:bg-red-400'}`}
+              >
+                {pendingAction ? <LoadingIcon className="w-5 h-5 animate-spin" /> : confirming === 'post' ? 'Post' : 'Cancel Stocktake'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {stocktake.status === 'Review' && !canManage ? (
+        <div className="bg-white rounded-xl shadow-lg text-center py-16 text-gray-500">
+          <CheckIcon className="w-12 h-12 mx-auto text-green-500 mb-2" />
+          <p className="font-semibold">The counts have been submitted.</p>
+          <p>A supervisor will review the variances and post them.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-lg overflow-hidden">
+          <div className="p-4 md:p-6 border-b border-gray-200 flex flex-col md:flex-row md:items-center gap-4">
+            <div className="relative flex-1">
+              <SearchIcon className="w-5 h-5 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+              <input
+                type="text"
+                value={searchTerm}
+                onChange={e => setSearchTerm(e.target.value)}
+                placeholder="Search product, SKU or location..."
+                className="w-full border rounded-lg py-2 pl-10 pr-3 bg-gray-50 border-gray-300 focus:ring-primary-500 focus:border-primary-500"
+              />
+            </div>
+            {isCounting && (
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                <input type="checkbox" checked={showUncountedOnly} onChange={e => setShowUncountedOnly(e.target.checked)} className="rounded border-gray-400 text-primary-600 focus:ring-primary-500" />
+                Not counted yet
+              </label>
+            )}
+            {showsVariances && (
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                <input type="checkbox" checked={showVariancesOnly} onChange={e => setShowVariancesOnly(e.target.checked)} className="rounded border-gray-400 text-primary-600 focus:ring-primary-500" />
+                Variances only
+              </label>
+            )}
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left text-gray-600">
+              <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-4 md:px-6 py-3">Location</th>
+                  <th scope="col" className="px-4 md:px-6 py-3">Product</th>
+                  {showsVariances ? (
+                    <>
+                      <th scope="col" className="px-4 md:px-6 py-3 text-right">System</th>
+                      {isReview && <th scope="col" className="px-4 md:px-6 py-3 text-right">Moved Since Start</th>}
+                      <th scope="col" className="px-4 md:px-6 py-3 text-right">Counted</th>
+                      <th scope="col" className="px-4 md:px-6 py-3 text-right">{isReview ? 'Adjustment' : 'Variance'}</th>
+                      <th scope="col" className="px-4 md:px-6 py-3 text-right">Value</th>
+                    </>
+                  ) : (
+                    <th scope="col" className="px-4 md:px-6 py-3 text-right">{stocktake.status === 'Recount' ? 'Recount' : 'Counted'}</th>
+                  )}
+                </tr>
+              </thead>
+              <tbody>
+                {visibleLines.map(line => {
+                  const variance = getLineChange(line);
+                  const moved = getCurrentQuantity ? getCurrentQuantity(line) - line.systemQuantity : 0;
+                  const counted = getEnteredCount(stocktake, line);
+                  return (
+                    <tr key={line.id} className="border-b bg-white hover:bg-gray-50">
+                      <td className="px-4 md:px-6 py-3 font-mono whitespace-nowrap">{line.location || '-'}</td>
+                      <td className="px-4 md:px-6 py-3">
+                        <div className="font-medium text-gray-900">{line.productName}</div>
+                        <div className="text-xs text-gray-500">{line.sku}{line.baseUnit && ` · ${line.baseUnit}`}</div>
+                      </td>
+                      {showsVariances ? (
+                        <>
+                          <td className="px-4 md:px-6 py-3 text-right">{formatNumber(line.systemQuantity)}</td>
+                          {isReview && (
+                            <td className={`px-4 md:px-6 py-3 text-right ${moved !== 0 ? 'text-amber-700 font-semibold' : 'text-gray-400'}`}>
+                              {moved > 0 ? `+${formatNumber(moved)}` : formatNumber(moved)}
+                            </td>
+                          )}
+                          <td className="px-4 md:px-6 py-3 text-right font-semibold">
+                            {getFinalCount(line) === null ? '-' : formatNumber(getFinalCount(line)!)}
+                            {line.needsRecount && <span className="block text-xs font-normal text-amber-700">First count {formatNumber(line.countedQuantity ?? 0)}</span>}
+                          </td>
+                          <td className={`px-4 md:px-6 py-3 text-right font-bold ${variance > 0 ? 'text-green-600' : variance < 0 ? 'text-red-600' : 'text-gray-400'}`}>
+                            {variance > 0 ? `+${formatNumber(variance)}` : formatNumber(variance)}
+                          </td>
+                          <td className="px-4 md:px-6 py-3 text-right whitespace-nowrap">{formatCurrency(variance * line.unitPrice, 'IDR')}</td>
+                        </>
+                      ) : (
+                        <td className="px-4 md:px-6 py-3 text-right">
+                          {isCounting && canCount
+                            ? <CountInput value={counted} label={`Count of ${line.productName}`} onSave={quantity => onSaveCount(line, quantity)} />
+                            : <span className="font-semibold">{counted === null ? '-' : formatNumber(counted)}</span>}
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })}
+                {visibleLines.length === 0 && (
+                  <tr>
+                    <td colSpan={showsVariances ? (isReview ? 7 : 6) : 3} className="text-center py-12 text-gray-500">
+                      {showsVariances && showVariancesOnly && !searchTerm ? 'Every count matches the system quantity.' : 'No lines match.'}
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+          {isCounting && canCount && (
+            <div className="p-4 md:p-6 bg-gray-50 border-t border-gray-200 flex flex-col sm:flex-row sm:items-center justify-end gap-3">
+              {!allCounted && <p className="text-sm text-gray-500 sm:mr-auto">{formatNumber(summary.lineCount - summary.countedCount)} line{summary.lineCount - summary.countedCount === 1 ? '' : 's'} still to count. Enter 0 for products that are not there.</p>}
+              <button
+                onClick={() => runAction('submit', onSubmitCounts)}
+                disabled={!allCounted || !!pendingAction}
+                className="w-44 flex justify-center items-center px-4 py-2 bg-primary-600 text-white font-semibold rounded-lg hover:bg-primary-700 disabled:bg-primary-400"
+              >
+                {pendingAction === 'submit' ? <LoadingIcon className="w-5 h-5 animate-spin" /> : stocktake.status === 'Recount' ? 'Submit Recount' : 'Submit Counts'}
+              </button>
+            </div>
+          )}
+          {stocktake.status === 'Review' && canManage && !confirming && (
+            <div className="p-4 md:p-6 bg-gray-50 border-t border-gray-200 flex justify-end">
+              <button onClick={() => setConfirming('post')} className="px-4 py-2 bg-primary-600 text-white font-semibold rounded-lg hover:bg-primary-700">
+                {summary.varianceCount > 0 ? `Post ${formatNumber(summary.varianceCount)} Adjustment${summary.varianceCount === 1 ? '' : 's'}` : 'Close Without Adjustments'}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StocktakeSession;
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { QueuedMutation, SyncConflict } from '../types';
+import { formatDate } from '../utils/helpers';
+import { XMarkIcon, LoadingIcon, ArrowPathIcon, CheckCircleIcon, SignalSlashIcon } from './icons/Icons';
+
+interface SyncStatusModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  isOnline: boolean;
+  outbox: QueuedMutation[];
+  conflicts: SyncConflict[];
+  onSyncNow: () => Promise<void>;
+  onDismissConflict: (conflictId: string) => Promise<void>;
+}
+
+const formatDateTime = (isoString: string) =>
+  `${formatDate(isoString)} ${new Date(isoString).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })}`;
+
+const SyncStatusModal: React.FC<SyncStatusModalProps> = ({ isOpen, onClose, isOnline, outbox, conflicts, onSyncNow, onDismissConflict }) => {
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  if (!isOpen) return null;
+
+  const handleSyncNow = async () => {
+    setIsSyncing(true);
+    try {
+      await onSyncNow();
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  return (
+    <div
+      onClick={onClose}
+      className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="sync-status-title"
+    >
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-full overflow-y-auto"
+      >
+        <div className="p-6 border-b border-slate-200 flex justify-between items-center">
+          <h2 id="sync-status-title" className="text-xl font-bold text-slate-800">
+            Offline Sync
+          </h2>
+          <button onClick={onClose} className="p-1 rounded-full text-slate-400 hover:bg-slate-100 hover:text-slate-600">
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div className="flex items-center justify-between">
+            {isOnline ? (
+              <p className="flex items-center gap-2 text-sm text-green-700"><CheckCircleIcon className="w-5 h-5" />You are online.</p>
+            ) : (
+              <p className="flex items-center gap-2 text-sm text-amber-700"><SignalSlashIcon className="w-5 h-5" />You are offline. Changes are queued on this device.</p>
+            )}
+            <button
+              onClick={handleSyncNow}
+              disabled={!isOnline || isSyncing || outbox.length === 0}
+              className="flex items-center justify-center gap-2 px-4 py-2 bg-primary-500 text-white text-sm font-semibold rounded-lg hover:bg-primary-600 disabled:opacity-50"
+            >
+              {isSyncing ? <LoadingIcon className="w-5 h-5 animate-spin" /> : <ArrowPathIcon className="w-5 h-5" />}
+              <span>Sync Now</span>
+            </button>
+          </div>
+
+          <section>
+            <h3 className="font-semibold text-slate-800 mb-2">Queued Changes ({outbox.length})</h3>
+            {outbox.length === 0 ? (
+              <p className="text-sm text-slate-500">There are no changes waiting to be synced.</p>
+            ) : (
+              <ul className="border rounded-lg divide-y">
+                {outbox.map(mutation => (
+                  <li key={mutation.id} className="px-4 py-3 text-sm">
+                    <p className="font-medium text-slate-800">{mutation.description}</p>
+                    <p className="text-slate-500">Queued by {mutation.username} on {formatDateTime(mutation.queuedAt)}</p>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          <section>
+            <h3 className="font-semibold text-slate-800 mb-2">Conflicts ({conflicts.length})</h3>
+            {conflicts.length === 0 ? (
+              <p className="text-sm text-slate-500">Every synced change was applied successfully.</p>
+            ) : (
+              <ul className="border border-red-200 rounded-lg divide-y divide-red-100">
+                {conflicts.map(conflict => (
+                  <li key={conflict.id} className="px-4 py-3 text-sm flex items-start justify-between gap-4">
+                    <div>
+                      <p className="font-medium text-slate-800">{conflict.mutation.description}</p>
+                      <p className="text-red-600">{conflict.reason}</p>
+                      <p className="text-slate-500">Queued by {conflict.mutation.username} on {formatDateTime(conflict.mutation.queuedAt)}, rejected on {formatDateTime(conflict.date)}</p>
+                    </div>
+                    <button
+                      onClick={() => onDismissConflict(conflict.id)}
+                      className="flex-shrink-0 px-3 py-1 border border-slate-300 rounded-lg text-xs font-semibold text-slate-700 hover:bg-slate-100"
+                    >
+                      Dismiss
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SyncStatusModal;
@@ -4,6 +4,8 @@ import React, { useState, useMemo, useCallback, useEffect, useRef } from 'react'
 import { Vendor, User } from '../types';
 import { SearchIcon, VendorIcon as BuildingIcon, EditIcon, DeleteIcon, XMarkIcon, PlusIcon, SortIcon, SortUpIcon, SortDownIcon, ChevronDownIcon } from './icons/Icons';
 import { formatDate } from '../utils/helpers';
+import { exportRows, describeSort, ExportFormat } from '../utils/exports';
+import ExportMenu from './ExportMenu';
 
 interface VendorListProps {
   vendors: Vendor[];
@@ -149,6 +151,28 @@ const VendorList: React.FC<VendorListProps> = ({ vendors, onEditVendor, onDelete
     return <SortDownIcon className="h-4 w-4 text-primary-500" />;
   };
 
+  const handleExport = (format: ExportFormat) => {
+    exportRows<Vendor>(format, {
+      title: 'Vendor List',
+      fileName: 'vendor_list',
+      columns: [
+        { header: 'Vendor Name', value: v => v.name },
+        { header: 'Category', value: v => v.category },
+        { header: 'Contact Person', value: v => v.contactPerson },
+        { header: 'Email', value: v => v.email },
+        { header: 'Phone', value: v => v.phone },
+        { header: 'Last Modified Date', value: v => formatDate(v.lastUpdated) },
+        { header: 'Modified By', value: v => v.lastModifiedBy || '' },
+      ],
+      rows: sortedVendors,
+      filters: [
+        ...(searchTerm ? [`Search: "${searchTerm}"`] : []),
+        ...describeSort(headers.find(h => h.key === sortConfig?.key)?.label, sortConfig?.direction),
+      ],
+      exportedBy: currentUser.username,
+    });
+  };
+
   if (vendors.length === 0 && !searchTerm) {
     return (
         <div className="text-center bg-white p-12 rounded-xl shadow-lg">
@@ -210,6 +234,7 @@ const VendorList: React.FC<VendorListProps> = ({ vendors, onEditVendor, onDelete
                 <span>Reset</span>
               </button>
             )}
+          <ExportMenu onExport={handleExport} rowCount={sortedVendors.length} />
         </div>
       </div>
        {canPerformActions && selectedIds.size > 0 && (
@@ -0,0 +1,145 @@
+import React, { useState, useEffect } from 'react';
+import { Warehouse, WarehouseFormErrors } from '../types';
+import { LoadingIcon } from './icons/Icons';
+
+interface WarehouseFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (warehouseData: Omit<Warehouse, 'id' | 'lastUpdated' | 'lastModifiedBy'> & { id?: string; }) => Promise<void>;
+  warehouse?: Warehouse;
+  allWarehouses: Warehouse[];
+}
+
+const initialFormState = {
+  code: '',
+  name: '',
+  address: '',
+};
+
+const WarehouseFormModal: React.FC<WarehouseFormModalProps> = ({ isOpen, onClose, onSave, warehouse, allWarehouses }) => {
+  const [formData, setFormData] = useState(initialFormState);
+  const [isDefault, setIsDefault] = useState(false);
+  const [errors, setErrors] = useState<WarehouseFormErrors>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (warehouse) {
+      setFormData({
+        code: warehouse.code,
+        name: warehouse.name,
+        address: warehouse.address || '',
+      });
+      setIsDefault(warehouse.isDefault);
+    } else {
+      setFormData(initialFormState);
+      setIsDefault(allWarehouses.length === 0);
+    }
+    setErrors({});
+  }, [warehouse, isOpen, allWarehouses.length]);
+
+  const validateField = (name: keyof typeof initialFormState, value: string): string | undefined => {
+    switch(name) {
+        case 'code':
+            if (!value.trim()) return "Warehouse code cannot be empty.";
+            if (allWarehouses.some(w => w.code.toLowerCase() === value.trim().toLowerCase() && w.id !== warehouse?.id)) {
+                return "Warehouse code is already in use.";
+            }
+            break;
+        case 'name':
+            if (!value.trim()) return "Warehouse name cannot be empty.";
+            break;
+        default:
+            return undefined;
+    }
+    return undefined;
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    const fieldName = name as keyof typeof initialFormState;
+    const processedValue = fieldName === 'code' ? value.toUpperCase() : value;
+    setFormData(prev => ({ ...prev, [fieldName]: processedValue }));
+    setErrors(prev => ({ ...prev, [fieldName]: validateField(fieldName, processedValue) }));
+  };
+
+  const validateAll = (): boolean => {
+    const newErrors: WarehouseFormErrors = {};
+    let isValid = true;
+    Object.keys(formData).forEach(key => {
+        const fieldName = key as keyof typeof initialFormState;
+        const error = validateField(fieldName, formData[fieldName]);
+        if (error) {
+            newErrors[fieldName] = error;
+            isValid = false;
+        }
+    });
+    setErrors(newErrors);
+    return isValid;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validateAll()) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+        await onSave({
+            code: formData.code.trim(),
+            name: formData.name.trim(),
+            address: formData.address.trim() || undefined,
+            isDefault,
+            id: warehouse?.id,
+        });
+    } catch (error) {
+        // Parent handles error, modal stays open
+    } finally {
+        setIsSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div onClick={onClose} className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4" role="dialog" aria-modal="true">
+      <div onClick={(e) => e.stopPropagation()} className="bg-white rounded-xl shadow-2xl w-full max-w-lg max-h-full overflow-y-auto">
+        <form onSubmit={handleSubmit} noValidate>
+          <div className="p-6 border-b border-slate-200">
+            <h2 className="text-xl font-bold text-slate-800">{warehouse ? 'Edit Warehouse' : 'Add New Warehouse'}</h2>
+          </div>
+          <div className="p-6 grid grid-cols-1 md:grid-cols-3 gap-x-6 gap-y-4">
+            <div>
+              <label htmlFor="warehouseCode" className="block text-sm font-medium text-slate-700 mb-1">Code</label>
+              <input type="text" name="code" id="warehouseCode" value={formData.code} onChange={handleChange} required className={`w-full border rounded-lg p-2 bg-slate-50 border-slate-300 focus:ring-primary-500 focus:border-primary-500 ${errors.code ? 'border-red-500' : 'border-slate-300'}`}/>
+              {errors.code && <p className="text-sm text-red-600 mt-1">{errors.code}</p>}
+            </div>
+            <div className="md:col-span-2">
+              <label htmlFor="warehouseName" className="block text-sm font-medium text-slate-700 mb-1">Warehouse Name</label>
+              <input type="text" name="name" id="warehouseName" value={formData.name} onChange={handleChange} required className={`w-full border rounded-lg p-2 bg-slate-50 border-slate-300 focus:ring-primary-500 focus:border-primary-500 ${errors.name ? 'border-red-500' : 'border-slate-300'}`}/>
+              {errors.name && <p className="text-sm text-red-600 mt-1">{errors.name}</p>}
+            </div>
+            <div className="md:col-span-3">
+              <label htmlFor="warehouseAddress" className="block text-sm font-medium text-slate-700 mb-1">Address (Optional)</label>
+              <input type="text" name="address" id="warehouseAddress" value={formData.address} onChange={handleChange} className="w-full border rounded-lg p-2 bg-slate-50 border-slate-300 focus:ring-primary-500 focus:border-primary-500"/>
+            </div>
+            <label className="md:col-span-3 flex items-center gap-2 text-sm text-slate-700">
+              <input type="checkbox" checked={isDefault} onChange={(e) => setIsDefault(e.target.checked)} disabled={warehouse?.isDefault} className="rounded border-slate-300 text-primary-600 focus:ring-primary-500" />
+              Default warehouse for new products and documents
+            </label>
+          </div>
+          <div className="p-6 bg-slate-50 border-t border-slate-200 flex justify-end gap-3 rounded-b-xl">
+            <button type="button" onClick={onClose} disabled={isSaving} className="px-4 py-2 bg-white border border-slate-300 text-slate-700 font-semibold rounded-lg hover:bg-slate-100 disabled:opacity-50">
+              Cancel
+            </button>
+            <button type="submit" disabled={isSaving} className="w-40 flex justify-center items-center px-4 py-2 bg-primary-600 text-white font-semibold rounded-lg hover:bg-primary-700 disabled:bg-primary-400">
+              {isSaving ? <LoadingIcon className="w-5 h-5 animate-spin" /> : (warehouse ? 'Save Changes' : 'Save Warehouse')}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default WarehouseFormModal;
@@ -2,3 +2,7 @@ import { Request } from './types';
 
 export const DIVISIONS = ['Marketing', 'IT', 'Operations', 'Human Resources', 'Finance'];
 export const PRIORITIES: Request['priority'][] = ['Low', 'Medium', 'High'];
+
+// Used when neither the product nor its category defines a reorder point or reorder quantity.
+export const DEFAULT_REORDER_POINT = 5;
+export const DEFAULT_REORDER_QUANTITY = 10;
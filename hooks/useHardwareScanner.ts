@@ -0,0 +1,117 @@
+import { useEffect, useRef } from 'react';
+import { HardwareScannerSettings } from '../types';
+
+export interface HardwareScan {
+  code: string;
+  averageKeyIntervalMs: number;
+}
+
+type EditableElement = HTMLInputElement | HTMLTextAreaElement;
+
+const isEditable = (element: Element | null): element is EditableElement =>
+  element instanceof HTMLTextAreaElement ||
+  (element instanceof HTMLInputElement && !['checkbox', 'radio', 'button', 'submit', 'file', 'range', 'color'].includes(element.type));
+
+// Puts back what a field held before the scanner typed into it, so a scan never leaves its code behind in a form.
+const restoreValue = (element: EditableElement, value: string) => {
+  if (element.value === value) return;
+  // React tracks input values itself, so the native setter is used for its onChange to see the change.
+  const prototype = element instanceof HTMLTextAreaElement ? HTMLTextAreaElement.prototype : HTMLInputElement.prototype;
+  Object.getOwnPropertyDescriptor(prototype, 'value')?.set?.call(element, value);
+  element.dispatchEvent(new Event('input', { bubbles: true }));
+};
+
+const SUFFIX_KEYS: Record<HardwareScannerSettings['suffix'], string | null> = {
+  Enter: 'Enter',
+  Tab: 'Tab',
+  none: null,
+};
+
+/**
+ * Listens for a keyboard-wedge barcode scanner anywhere in the app.
+ * Scanners type a code much faster than a person can, so keys arriving within `maxKeyIntervalMs`
+ * of each other are collected and, once the suffix key (or a pause, without one) ends the burst,
+ * reported as a scan instead of being left as typing in whatever field had focus.
+ */
+export const useHardwareScanner = (settings: HardwareScannerSettings, active: boolean, onScan: (scan: HardwareScan) => void) => {
+  const onScanRef = useRef(onScan);
+  useEffect(() => {
+    onScanRef.current = onScan;
+  }, [onScan]);
+
+  useEffect(() => {
+    if (!active || !settings.enabled) return;
+
+    const suffixKey = SUFFIX_KEYS[settings.suffix];
+    let buffer = '';
+    let keyTimes: number[] = [];
+    let target: EditableElement | null = null;
+    let targetValue = '';
+    let idleTimer: number | undefined;
+
+    const reset = () => {
+      buffer = '';
+      keyTimes = [];
+      target = null;
+      window.clearTimeout(idleTimer);
+    };
+
+    // Returns the scanned code when the collected keys look like a scan, otherwise null.
+    const getScannedCode = (): string | null => {
+      if (keyTimes.length < 2 || !buffer.startsWith(settings.prefix)) return null;
+      const code = buffer.slice(settings.prefix.length).trim();
+      return code.length >= settings.minLength ? code : null;
+    };
+
+    const finishScan = (event?: KeyboardEvent): boolean => {
+      const code = getScannedCode();
+      if (!code) return false;
+      if (event) {
+        event.preventDefault();
+        event.stopPropagation();
+      }
+      if (target) restoreValue(target, targetValue);
+      const averageKeyIntervalMs = (keyTimes[keyTimes.length - 1] - keyTimes[0]) / (keyTimes.length - 1);
+      reset();
+      onScanRef.current({ code, averageKeyIntervalMs: Math.round(averageKeyIntervalMs * 10) / 10 });
+      return true;
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.altKey || event.metaKey) {
+        reset();
+        return;
+      }
+      const now = event.timeStamp || performance.now();
+      const lastKeyTime = keyTimes[keyTimes.length - 1];
+      if (lastKeyTime !== undefined && now - lastKeyTime > settings.maxKeyIntervalMs) reset();
+
+      if (suffixKey && event.key === suffixKey) {
+        if (!finishScan(event)) reset();
+        return;
+      }
+      // Modifier keys such as Shift arrive between characters and are not part of the code.
+      if (event.key.length !== 1) return;
+
+      if (keyTimes.length === 0) {
+        const focused = document.activeElement;
+        target = isEditable(focused) ? focused : null;
+        targetValue = target ? target.value : '';
+      }
+      buffer += event.key;
+      keyTimes.push(now);
+
+      if (!suffixKey) {
+        window.clearTimeout(idleTimer);
+        idleTimer = window.setTimeout(() => { if (!finishScan()) reset(); }, settings.maxKeyIntervalMs * 2);
+      }
+    };
+
+    // Capture phase, so the scan is seen before the focused field or a modal handles the keys.
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown, true);
+      window.clearTimeout(idleTimer);
+    };
+  }, [active, settings]);
+};
@@ -1,11 +1,13 @@
 import { useState, useMemo, useEffect, useCallback } from 'react';
-import { Product, SortDirection, ProductKey, Vendor } from '../types';
+import { Product, SortDirection, ProductKey, Vendor, CategoryFieldSchema } from '../types';
+import { CustomFieldFilter, CustomFieldFilters, getCategoryFields, getCustomFieldSearchText, matchesCustomFieldFilter } from '../utils/customFields';
 
 const TABLE_STATE_KEY = 'stockerz_product_table_state_v1';
 
 interface TableState {
   searchTerm: string;
   categoryFilter: string;
+  customFieldFilters: CustomFieldFilters; // Keyed by field key of the filtered category
   sortConfig: { key: ProductKey; direction: SortDirection } | null;
   currentPage: number;
 }
@@ -19,6 +21,7 @@ const getInitialState = (initialSearch: string): TableState => {
       return {
         searchTerm: initialSearch || parsed.searchTerm || '',
         categoryFilter: parsed.categoryFilter || 'all',
+        customFieldFilters: parsed.customFieldFilters || {},
         sortConfig: parsed.sortConfig || { key: 'lastUpdated', direction: 'desc' },
         currentPage: parsed.currentPage || 1,
       };
@@ -30,12 +33,13 @@ const getInitialState = (initialSearch: string): TableState => {
   return {
     searchTerm: initialSearch || '',
     categoryFilter: 'all',
+    customFieldFilters: {},
     sortConfig: { key: 'lastUpdated', direction: 'desc' }, // A sensible default
     currentPage: 1,
   };
 };
 
-export const useTableControls = (initialData: Product[], itemsPerPage: number, vendors: Vendor[], initialSearchTerm: string = '') => {
+export const useTableControls = (initialData: Product[], itemsPerPage: number, vendors: Vendor[], categoryFieldSchemas: CategoryFieldSchema[], initialSearchTerm: string = '') => {
   const [tableState, setTableState] = useState<TableState>(getInitialState(initialSearchTerm));
 
   useEffect(() => {
@@ -57,16 +61,27 @@ export const useTableControls = (initialData: Product[], itemsPerPage: number, v
 
   const vendorsMap = useMemo(() => new Map(vendors.map(v => [v.id, v.name])), [vendors]);
 
+  // Custom fields can only be filtered once a category is chosen, since each category has its own fields.
+  const categoryFields = useMemo(
+    () => tableState.categoryFilter === 'all' ? [] : getCategoryFields(categoryFieldSchemas, tableState.categoryFilter),
+    [categoryFieldSchemas, tableState.categoryFilter]
+  );
+
   const filteredData = useMemo(() => {
     return initialData.filter(product => {
       const matchesSearch = tableState.searchTerm ? (
         product.name.toLowerCase().includes(tableState.searchTerm.toLowerCase()) ||
-        product.sku.toLowerCase().includes(tableState.searchTerm.toLowerCase())
+        product.sku.toLowerCase().includes(tableState.searchTerm.toLowerCase()) ||
+        getCustomFieldSearchText(product, categoryFieldSchemas).toLowerCase().includes(tableState.searchTerm.toLowerCase())
       ) : true;
       const matchesCategory = tableState.categoryFilter === 'all' || product.category === tableState.categoryFilter;
-      return matchesSearch && matchesCategory;
+      const matchesCustomFields = categoryFields.every(field => {
+        const filter = tableState.customFieldFilters[field.key];
+        return !filter || matchesCustomFieldFilter(field, product.customFields?.[field.key], filter);
+      });
+      return matchesSearch && matchesCategory && matchesCustomFields;
     });
-  }, [initialData, tableState.searchTerm, tableState.categoryFilter]);
+  }, [initialData, tableState.searchTerm, tableState.categoryFilter, tableState.customFieldFilters, categoryFields, categoryFieldSchemas]);
 
   const sortedData = useMemo(() => {
     let sortableItems = [...filteredData];
@@ -138,7 +153,11 @@ export const useTableControls = (initialData: Product[], itemsPerPage: number, v
   }, []);
 
   const setCategoryFilter = useCallback((category: string) => {
-    setTableState(current => ({ ...current, categoryFilter: category, currentPage: 1 }));
+    setTableState(current => ({ ...current, categoryFilter: category, customFieldFilters: {}, currentPage: 1 }));
+  }, []);
+
+  const setCustomFieldFilter = useCallback((key: string, filter: CustomFieldFilter) => {
+    setTableState(current => ({ ...current, customFieldFilters: { ...current.customFieldFilters, [key]: filter }, currentPage: 1 }));
   }, []);
   
   const setCurrentPage = useCallback((page: number | ((prev: number) => number)) => {
@@ -152,6 +171,7 @@ export const useTableControls = (initialData: Product[], itemsPerPage: number, v
     setTableState({
       searchTerm: '',
       categoryFilter: 'all',
+      customFieldFilters: {},
       sortConfig: { key: 'lastUpdated', direction: 'desc' },
       currentPage: 1,
     });
@@ -159,10 +179,14 @@ export const useTableControls = (initialData: Product[], itemsPerPage: number, v
 
   return {
     paginatedData,
+    filteredData: sortedData,
     searchTerm: tableState.searchTerm,
     setSearchTerm,
     categoryFilter: tableState.categoryFilter,
     setCategoryFilter,
+    categoryFields,
+    customFieldFilters: tableState.customFieldFilters,
+    setCustomFieldFilter,
     categories,
     requestSort,
     sortConfig: tableState.sortConfig,
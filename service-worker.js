@@ -1,13 +1,23 @@
-
-const CACHE_NAME = 'stockerz-cache-v1';
+const CACHE_NAME = 'stockerz-cache-v5';
 const URLS_TO_CACHE = [
   '/',
   '/index.html',
   '/index.tsx',
   '/vite.svg',
-  'https://cdn.tailwindcss.com'
+  '/manifest.json',
+  'https://cdn.tailwindcss.com',
+  'https://cdnjs.cloudflare.com/ajax/libs/jspdf/2.5.1/jspdf.umd.min.js',
+  'https://cdnjs.cloudflare.com/ajax/libs/jspdf-autotable/3.8.2/jspdf-autotable.min.js',
+  'https://unpkg.com/html5-qrcode@2.3.8/html5-qrcode.min.js',
+  'https://cdn.jsdelivr.net/npm/jsbarcode@3.11.6/dist/JsBarcode.all.min.js',
+  'https://cdn.jsdelivr.net/npm/qrcode-generator@1.4.4/qrcode.min.js',
+  'https://cdnjs.cloudflare.com/ajax/libs/xlsx/0.18.5/xlsx.full.min.js'
 ];
 
+// Permintaan API data tidak di-cache di sini; aplikasi menyimpan data terakhir di IndexedDB
+// dan mengantrekan perubahan saat offline (lihat utils/offline.ts).
+const isDataRequest = (url) => url.hostname.endsWith('.supabase.co') || url.hostname.endsWith('.supabase.in');
+
 // Menginstal service worker dan melakukan pre-cache aset aplikasi inti
 self.addEventListener('install', event => {
   event.waitUntil(
@@ -17,6 +27,7 @@ self.addEventListener('install', event => {
         return cache.addAll(URLS_TO_CACHE);
       })
   );
+  self.skipWaiting();
 });
 
 // Mengaktifkan service worker dan membersihkan cache lama
@@ -31,37 +42,66 @@ self.addEventListener('activate', event => {
           }
         })
       );
-    })
+    }).then(() => self.clients.claim())
   );
 });
 
-// Menyajikan aset dari cache terlebih dahulu, dengan fallback ke jaringan (cache-falling-back-to-network)
-self.addEventListener('fetch', event => {
-    // Kami hanya ingin men-cache permintaan GET
-    if (event.request.method !== 'GET') {
-        return;
+// Navigasi halaman: jaringan terlebih dahulu agar versi terbaru dimuat, dengan fallback ke cache saat offline
+const handleNavigation = async (request) => {
+  const cache = await caches.open(CACHE_NAME);
+  try {
+    const networkResponse = await fetch(request);
+    await cache.put('/index.html', networkResponse.clone());
+    return networkResponse;
+  } catch (error) {
+    const cachedResponse = await cache.match('/index.html');
+    if (cachedResponse) {
+      return cachedResponse;
     }
+    throw error;
+  }
+};
 
-  event.respondWith(
-    caches.open(CACHE_NAME).then(async (cache) => {
-      // Coba cari respon dari cache
-      const cachedResponse = await cache.match(event.request);
-      if (cachedResponse) {
-        // Jika ditemukan di cache, kembalikan
-        return cachedResponse;
-      }
+// Aset lainnya: cache terlebih dahulu, dengan fallback ke jaringan (cache-falling-back-to-network)
+const handleAsset = async (request) => {
+  const cache = await caches.open(CACHE_NAME);
+  // Coba cari respon dari cache
+  const cachedResponse = await cache.match(request);
+  if (cachedResponse) {
+    // Jika ditemukan di cache, kembalikan
+    return cachedResponse;
+  }
 
-      // Jika tidak ditemukan, coba ambil dari jaringan
-      try {
-        const networkResponse = await fetch(event.request);
-        // Tambahkan respon baru ke cache untuk penggunaan di masa mendatang
-        await cache.put(event.request, networkResponse.clone());
-        return networkResponse;
-      } catch (error) {
-        // Ini akan terpicu jika jaringan tidak tersedia
-        console.error('Fetch failed; app is offline.', error);
-        throw error;
-      }
-    })
-  );
-});
\ No newline at end of file
+  // Jika tidak ditemukan, coba ambil dari jaringan
+  try {
+    const networkResponse = await fetch(request);
+    // Hanya simpan respon yang berhasil (atau respon opaque dari CDN) untuk penggunaan di masa mendatang
+    if (networkResponse.ok || networkResponse.type === 'opaque') {
+      await cache.put(request, networkResponse.clone());
+    }
+    return networkResponse;
+  } catch (error) {
+    // Ini akan terpicu jika jaringan tidak tersedia
+    console.error('Fetch failed; app is offline.', error);
+    throw error;
+  }
+};
+
+self.addEventListener('fetch', event => {
+  // Kami hanya ingin men-cache permintaan GET
+  if (event.request.method !== 'GET') {
+    return;
+  }
+
+  const url = new URL(event.request.url);
+  if (isDataRequest(url)) {
+    return;
+  }
+
+  if (event.request.mode === 'navigate') {
+    event.respondWith(handleNavigation(event.request));
+    return;
+  }
+
+  event.respondWith(handleAsset(event.request));
+});
@@ -0,0 +1,131 @@
+-- Transactional stock mutations.
+--
+-- Every workflow that changes product stock runs as a single database function so
+-- the availability check, the product update and the document status change are
+-- committed together. Rows are locked with FOR UPDATE so two supervisors acting on
+-- the same product are serialized instead of overwriting each other's quantity.
+--
+-- Errors are raised with a stable, upper-case code as the message (e.g.
+-- INSUFFICIENT_STOCK) so the client can map them to a friendly toast.
+
+create or replace function public.approve_request(p_request_id text, p_username text)
+returns json
+language plpgsql
+as $$
+declare
+  v_request public.requests%rowtype;
+  v_product public.products%rowtype;
+begin
+  select * into v_request from public.requests where id::text = p_request_id for update;
+  if not found then
+    raise exception 'REQUEST_NOT_FOUND';
+  end if;
+  if v_request.status <> 'Pending Approval' then
+    raise exception 'INVALID_STATUS';
+  end if;
+
+  select * into v_product from public.products where id::text = v_request."productId"::text for update;
+  if not found then
+    raise exception 'PRODUCT_NOT_FOUND';
+  end if;
+  if v_product.quantity < v_request.quantity then
+    raise exception 'INSUFFICIENT_STOCK';
+  end if;
+
+  update public.products
+     set quantity = quantity - v_request.quantity,
+         "lastUpdated" = now(),
+         "lastModifiedBy" = p_username
+   where id = v_product.id
+  returning * into v_product;
+
+  update public.requests
+     set status = 'Approved',
+         "approvedBy" = p_username,
+         "actionDate" = now()
+   where id = v_request.id
+  returning * into v_request;
+
+  return json_build_object('product', row_to_json(v_product), 'request', row_to_json(v_request));
+end;
+$$;
+
+create or replace function public.receive_purchase_order(p_po_id text, p_username text)
+returns json
+language plpgsql
+as $$
+declare
+  v_po public.purchase_orders%rowtype;
+  v_product public.products%rowtype;
+begin
+  select * into v_po from public.purchase_orders where id::text = p_po_id for update;
+  if not found then
+    raise exception 'PURCHASE_ORDER_NOT_FOUND';
+  end if;
+  if v_po.status <> 'Approved' then
+    raise exception 'INVALID_STATUS';
+  end if;
+
+  select * into v_product from public.products where id::text = v_po."productId"::text for update;
+  if not found then
+    raise exception 'PRODUCT_NOT_FOUND';
+  end if;
+
+  update public.products
+     set quantity = quantity + v_po.quantity,
+         "lastUpdated" = now(),
+         "lastModifiedBy" = p_username
+   where id = v_product.id
+  returning * into v_product;
+
+  update public.purchase_orders
+     set status = 'Received',
+         "receivedBy" = p_username,
+         "receivedDate" = now()
+   where id = v_po.id
+  returning * into v_po;
+
+  return json_build_object('product', row_to_json(v_product), 'purchaseOrder', row_to_json(v_po));
+end;
+$$;
+
+create or replace function public.apply_stock_adjustment(
+  p_product_id text,
+  p_quantity_change integer,
+  p_reason text,
+  p_notes text,
+  p_username text
+)
+returns json
+language plpgsql
+as $$
+declare
+  v_product public.products%rowtype;
+  v_adjustment public.stock_adjustments%rowtype;
+begin
+  if p_quantity_change = 0 then
+    raise exception 'INVALID_QUANTITY';
+  end if;
+
+  select * into v_product from public.products where id::text = p_product_id for update;
+  if not found then
+    raise exception 'PRODUCT_NOT_FOUND';
+  end if;
+  if v_product.quantity + p_quantity_change < 0 then
+    raise exception 'NEGATIVE_STOCK';
+  end if;
+
+  update public.products
+     set quantity = quantity + p_quantity_change,
+         "lastUpdated" = now(),
+         "lastModifiedBy" = p_username
+   where id = v_product.id
+  returning * into v_product;
+
+  insert into public.stock_adjustments ("productId", "productName", "quantityChange", reason, notes, date, "adjustedBy")
+  values (v_product.id, v_product.name, p_quantity_change, p_reason, p_notes, now(), p_username)
+  returning * into v_adjustment;
+
+  return json_build_object('product', row_to_json(v_product), 'adjustment', row_to_json(v_adjustment));
+end;
+$$;
@@ -0,0 +1,273 @@
+-- Append-only stock ledger.
+--
+-- stock_movements is the source of truth for quantities. products.quantity is a cached
+-- balance that may only be changed by post_stock_movement(), which writes the signed
+-- ledger entry and the new balance in the same transaction. The cached value can be
+-- checked with verify_stock_ledger() and rebuilt with rebuild_product_quantities().
+
+create table if not exists public.stock_movements (
+  id uuid primary key default gen_random_uuid(),
+  "productId" text not null,
+  "productName" text not null,
+  type text not null check (type in ('Opening', 'Receipt', 'Issue', 'Adjustment', 'Return', 'Transfer')),
+  "quantityChange" integer not null,
+  "balanceBefore" integer not null,
+  "balanceAfter" integer not null,
+  "referenceType" text check ("referenceType" in ('product', 'request', 'purchase_order', 'stock_adjustment', 'transfer')),
+  "referenceId" text,
+  "user" text not null,
+  date timestamptz not null default now(),
+  notes text
+);
+
+create index if not exists stock_movements_product_idx on public.stock_movements ("productId", date);
+
+-- The ledger is append-only: corrections are made with a new compensating entry.
+create or replace function public.stock_movements_append_only()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'STOCK_LEDGER_APPEND_ONLY';
+end;
+$$;
+
+drop trigger if exists stock_movements_no_update on public.stock_movements;
+create trigger stock_movements_no_update
+  before update or delete on public.stock_movements
+  for each row execute function public.stock_movements_append_only();
+
+-- Cached quantities may only change through post_stock_movement().
+create or replace function public.products_guard_quantity()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.quantity is distinct from old.quantity
+     and coalesce(current_setting('stockerz.ledger_write', true), '') <> 'on' then
+    raise exception 'QUANTITY_MANAGED_BY_LEDGER';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists products_guard_quantity on public.products;
+create trigger products_guard_quantity
+  before update of quantity on public.products
+  for each row execute function public.products_guard_quantity();
+
+create or replace function public.post_stock_movement(
+  p_product_id text,
+  p_quantity_change integer,
+  p_type text,
+  p_reference_type text,
+  p_reference_id text,
+  p_username text,
+  p_notes text default null,
+  p_allow_negative boolean default false
+)
+returns public.products
+language plpgsql
+as $$
+declare
+  v_product public.products%rowtype;
+  v_before integer;
+begin
+  select * into v_product from public.products where id::text = p_product_id for update;
+  if not found then
+    raise exception 'PRODUCT_NOT_FOUND';
+  end if;
+
+  v_before := v_product.quantity;
+  if v_before + p_quantity_change < 0 and not p_allow_negative then
+    raise exception 'INSUFFICIENT_STOCK';
+  end if;
+
+  perform set_config('stockerz.ledger_write', 'on', true);
+  update public.products
+     set quantity = quantity + p_quantity_change,
+         "lastUpdated" = now(),
+         "lastModifiedBy" = p_username
+   where id = v_product.id
+  returning * into v_product;
+  perform set_config('stockerz.ledger_write', 'off', true);
+
+  insert into public.stock_movements
+    ("productId", "productName", type, "quantityChange", "balanceBefore", "balanceAfter", "referenceType", "referenceId", "user", notes)
+  values
+    (v_product.id::text, v_product.name, p_type, p_quantity_change, v_before, v_product.quantity, p_reference_type, p_reference_id, p_username, p_notes);
+
+  return v_product;
+end;
+$$;
+
+-- New products start with an opening balance entry for their initial quantity.
+create or replace function public.products_opening_balance()
+returns trigger
+language plpgsql
+as $$
+begin
+  insert into public.stock_movements
+    ("productId", "productName", type, "quantityChange", "balanceBefore", "balanceAfter", "referenceType", "referenceId", "user")
+  values
+    (new.id::text, new.name, 'Opening', new.quantity, 0, new.quantity, 'product', new.id::text, coalesce(new."lastModifiedBy", 'system'));
+  return new;
+end;
+$$;
+
+drop trigger if exists products_opening_balance on public.products;
+create trigger products_opening_balance
+  after insert on public.products
+  for each row execute function public.products_opening_balance();
+
+-- Seed the ledger with the quantities that existed before it was introduced.
+insert into public.stock_movements
+  ("productId", "productName", type, "quantityChange", "balanceBefore", "balanceAfter", "referenceType", "referenceId", "user", notes)
+select p.id::text, p.name, 'Opening', p.quantity, 0, p.quantity, 'product', p.id::text, 'system', 'Opening balance at ledger introduction'
+  from public.products p
+ where not exists (select 1 from public.stock_movements m where m."productId" = p.id::text);
+
+create or replace function public.approve_request(p_request_id text, p_username text)
+returns json
+language plpgsql
+as $$
+declare
+  v_request public.requests%rowtype;
+  v_product public.products%rowtype;
+begin
+  select * into v_request from public.requests where id::text = p_request_id for update;
+  if not found then
+    raise exception 'REQUEST_NOT_FOUND';
+  end if;
+  if v_request.status <> 'Pending Approval' then
+    raise exception 'INVALID_STATUS';
+  end if;
+
+  v_product := public.post_stock_movement(
+    v_request."productId"::text, -v_request.quantity, 'Issue', 'request', v_request.id::text, p_username,
+    'To: ' || v_request."requestingDivision"
+  );
+
+  update public.requests
+     set status = 'Approved',
+         "approvedBy" = p_username,
+         "actionDate" = now()
+   where id = v_request.id
+  returning * into v_request;
+
+  return json_build_object('product', row_to_json(v_product), 'request', row_to_json(v_request));
+end;
+$$;
+
+create or replace function public.receive_purchase_order(p_po_id text, p_username text)
+returns json
+language plpgsql
+as $$
+declare
+  v_po public.purchase_orders%rowtype;
+  v_product public.products%rowtype;
+begin
+  select * into v_po from public.purchase_orders where id::text = p_po_id for update;
+  if not found then
+    raise exception 'PURCHASE_ORDER_NOT_FOUND';
+  end if;
+  if v_po.status <> 'Approved' then
+    raise exception 'INVALID_STATUS';
+  end if;
+
+  v_product := public.post_stock_movement(
+    v_po."productId"::text, v_po.quantity, 'Receipt', 'purchase_order', v_po.id::text, p_username
+  );
+
+  update public.purchase_orders
+     set status = 'Received',
+         "receivedBy" = p_username,
+         "receivedDate" = now()
+   where id = v_po.id
+  returning * into v_po;
+
+  return json_build_object('product', row_to_json(v_product), 'purchaseOrder', row_to_json(v_po));
+end;
+$$;
+
+create or replace function public.apply_stock_adjustment(
+  p_product_id text,
+  p_quantity_change integer,
+  p_reason text,
+  p_notes text,
+  p_username text
+)
+returns json
+language plpgsql
+as $$
+declare
+  v_product public.products%rowtype;
+  v_adjustment public.stock_adjustments%rowtype;
+begin
+  if p_quantity_change = 0 then
+    raise exception 'INVALID_QUANTITY';
+  end if;
+
+  select * into v_product from public.products where id::text = p_product_id;
+  if not found then
+    raise exception 'PRODUCT_NOT_FOUND';
+  end if;
+
+  insert into public.stock_adjustments ("productId", "productName", "quantityChange", reason, notes, date, "adjustedBy")
+  values (v_product.id, v_product.name, p_quantity_change, p_reason, p_notes, now(), p_username)
+  returning * into v_adjustment;
+
+  begin
+    v_product := public.post_stock_movement(
+      p_product_id, p_quantity_change,
+      case when p_reason = 'Return' then 'Return' else 'Adjustment' end,
+      'stock_adjustment', v_adjustment.id::text, p_username, p_reason
+    );
+  exception when others then
+    if sqlerrm = 'INSUFFICIENT_STOCK' then
+      raise exception 'NEGATIVE_STOCK';
+    end if;
+    raise;
+  end;
+
+  return json_build_object('product', row_to_json(v_product), 'adjustment', row_to_json(v_adjustment));
+end;
+$$;
+
+-- Products whose cached quantity differs from the ledger balance.
+create or replace function public.verify_stock_ledger()
+returns table ("productId" text, "productName" text, "cachedQuantity" integer, "ledgerQuantity" integer)
+language sql
+stable
+as $$
+  select p.id::text, p.name, p.quantity, coalesce(sum(m."quantityChange"), 0)::integer
+    from public.products p
+    left join public.stock_movements m on m."productId" = p.id::text
+   group by p.id, p.name, p.quantity
+  having p.quantity <> coalesce(sum(m."quantityChange"), 0);
+$$;
+
+-- Resets every cached quantity to its ledger balance and returns the number of products fixed.
+create or replace function public.rebuild_product_quantities()
+returns integer
+language plpgsql
+as $$
+declare
+  v_count integer;
+begin
+  perform set_config('stockerz.ledger_write', 'on', true);
+  update public.products p
+     set quantity = l.balance,
+         "lastUpdated" = now()
+    from (
+      select pr.id, coalesce(sum(m."quantityChange"), 0)::integer as balance
+        from public.products pr
+        left join public.stock_movements m on m."productId" = pr.id::text
+       group by pr.id
+    ) l
+   where p.id = l.id and p.quantity <> l.balance;
+  get diagnostics v_count = row_count;
+  perform set_config('stockerz.ledger_write', 'off', true);
+  return v_count;
+end;
+$$;
@@ -0,0 +1,358 @@
+-- Multi-warehouse stock.
+--
+-- Stock is held per product per warehouse in product_stock; products.quantity remains the
+-- cached total across all warehouses. Every ledger entry, request, purchase order and stock
+-- adjustment names the warehouse it acts on. Rows created before warehouses existed are
+-- assigned to the default warehouse.
+
+create table if not exists public.warehouses (
+  id uuid primary key default gen_random_uuid(),
+  code text not null unique,
+  name text not null,
+  address text,
+  "isDefault" boolean not null default false,
+  "lastUpdated" timestamptz not null default now(),
+  "lastModifiedBy" text
+);
+
+create unique index if not exists warehouses_single_default on public.warehouses ("isDefault") where "isDefault";
+
+insert into public.warehouses (code, name, "isDefault", "lastModifiedBy")
+select 'MAIN', 'Main Warehouse', true, 'system'
+ where not exists (select 1 from public.warehouses);
+
+create or replace function public.default_warehouse_id()
+returns text
+language sql
+stable
+as $$
+  select id::text from public.warehouses where "isDefault" limit 1;
+$$;
+
+create table if not exists public.product_stock (
+  id uuid primary key default gen_random_uuid(),
+  "productId" text not null,
+  "warehouseId" text not null,
+  quantity integer not null default 0,
+  unique ("productId", "warehouseId")
+);
+
+-- Per-warehouse quantities follow the same rule as products.quantity.
+create or replace function public.product_stock_guard_quantity()
+returns trigger
+language plpgsql
+as $$
+begin
+  if coalesce(current_setting('stockerz.ledger_write', true), '') <> 'on' then
+    raise exception 'QUANTITY_MANAGED_BY_LEDGER';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists product_stock_guard_quantity on public.product_stock;
+create trigger product_stock_guard_quantity
+  before insert or update of quantity on public.product_stock
+  for each row execute function public.product_stock_guard_quantity();
+
+alter table public.products add column if not exists "homeWarehouseId" text;
+alter table public.stock_movements add column if not exists "warehouseId" text;
+alter table public.requests add column if not exists "warehouseId" text;
+alter table public.purchase_orders add column if not exists "warehouseId" text;
+alter table public.stock_adjustments add column if not exists "warehouseId" text;
+
+-- stock_movements is append-only, so the backfill runs with its trigger disabled.
+alter table public.stock_movements disable trigger stock_movements_no_update;
+update public.stock_movements set "warehouseId" = public.default_warehouse_id() where "warehouseId" is null;
+alter table public.stock_movements enable trigger stock_movements_no_update;
+
+update public.requests set "warehouseId" = public.default_warehouse_id() where "warehouseId" is null;
+update public.purchase_orders set "warehouseId" = public.default_warehouse_id() where "warehouseId" is null;
+update public.stock_adjustments set "warehouseId" = public.default_warehouse_id() where "warehouseId" is null;
+
+alter table public.stock_movements alter column "warehouseId" set not null;
+
+create index if not exists stock_movements_warehouse_idx on public.stock_movements ("warehouseId", "productId");
+
+-- Existing stock is placed in the default warehouse.
+select set_config('stockerz.ledger_write', 'on', true);
+insert into public.product_stock ("productId", "warehouseId", quantity)
+select p.id::text, public.default_warehouse_id(), p.quantity
+  from public.products p
+on conflict ("productId", "warehouseId") do nothing;
+select set_config('stockerz.ledger_write', 'off', true);
+
+drop function if exists public.post_stock_movement(text, integer, text, text, text, text, text, boolean);
+
+create or replace function public.post_stock_movement(
+  p_product_id text,
+  p_warehouse_id text,
+  p_quantity_change integer,
+  p_type text,
+  p_reference_type text,
+  p_reference_id text,
+  p_username text,
+  p_notes text default null,
+  p_allow_negative boolean default false
+)
+returns public.products
+language plpgsql
+as $$
+declare
+  v_product public.products%rowtype;
+  v_stock public.product_stock%rowtype;
+  v_warehouse_id text := coalesce(p_warehouse_id, public.default_warehouse_id());
+begin
+  if not exists (select 1 from public.warehouses where id::text = v_warehouse_id) then
+    raise exception 'WAREHOUSE_NOT_FOUND';
+  end if;
+
+  -- Locking the product serialises all movements of the product across warehouses.
+  select * into v_product from public.products where id::text = p_product_id for update;
+  if not found then
+    raise exception 'PRODUCT_NOT_FOUND';
+  end if;
+
+  perform set_config('stockerz.ledger_write', 'on', true);
+
+  insert into public.product_stock ("productId", "warehouseId", quantity)
+  values (v_product.id::text, v_warehouse_id, 0)
+  on conflict ("productId", "warehouseId") do nothing;
+
+  select * into v_stock
+    from public.product_stock
+   where "productId" = v_product.id::text and "warehouseId" = v_warehouse_id
+     for update;
+
+  if v_stock.quantity + p_quantity_change < 0 and not p_allow_negative then
+    raise exception 'INSUFFICIENT_STOCK';
+  end if;
+
+  update public.product_stock
+     set quantity = quantity + p_quantity_change
+   where id = v_stock.id;
+
+  update public.products
+     set quantity = quantity + p_quantity_change,
+         "lastUpdated" = now(),
+         "lastModifiedBy" = p_username
+   where id = v_product.id
+  returning * into v_product;
+  perform set_config('stockerz.ledger_write', 'off', true);
+
+  insert into public.stock_movements
+    ("productId", "productName", "warehouseId", type, "quantityChange", "balanceBefore", "balanceAfter", "referenceType", "referenceId", "user", notes)
+  values
+    (v_product.id::text, v_product.name, v_warehouse_id, p_type, p_quantity_change, v_stock.quantity, v_stock.quantity + p_quantity_change,
+     p_reference_type, p_reference_id, p_username, p_notes);
+
+  return v_product;
+end;
+$$;
+
+-- The opening balance of a new product is placed in its home warehouse.
+create or replace function public.products_opening_balance()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_warehouse_id text := coalesce(new."homeWarehouseId", public.default_warehouse_id());
+begin
+  perform set_config('stockerz.ledger_write', 'on', true);
+  insert into public.product_stock ("productId", "warehouseId", quantity)
+  values (new.id::text, v_warehouse_id, new.quantity);
+  perform set_config('stockerz.ledger_write', 'off', true);
+
+  insert into public.stock_movements
+    ("productId", "productName", "warehouseId", type, "quantityChange", "balanceBefore", "balanceAfter", "referenceType", "referenceId", "user")
+  values
+    (new.id::text, new.name, v_warehouse_id, 'Opening', new.quantity, 0, new.quantity, 'product', new.id::text, coalesce(new."lastModifiedBy", 'system'));
+  return new;
+end;
+$$;
+
+create or replace function public.approve_request(p_request_id text, p_username text)
+returns json
+language plpgsql
+as $$
+declare
+  v_request public.requests%rowtype;
+  v_product public.products%rowtype;
+begin
+  select * into v_request from public.requests where id::text = p_request_id for update;
+  if not found then
+    raise exception 'REQUEST_NOT_FOUND';
+  end if;
+  if v_request.status <> 'Pending Approval' then
+    raise exception 'INVALID_STATUS';
+  end if;
+
+  v_product := public.post_stock_movement(
+    v_request."productId"::text, v_request."warehouseId", -v_request.quantity, 'Issue', 'request', v_request.id::text, p_username,
+    'To: ' || v_request."requestingDivision"
+  );
+
+  update public.requests
+     set status = 'Approved',
+         "approvedBy" = p_username,
+         "actionDate" = now()
+   where id = v_request.id
+  returning * into v_request;
+
+  return json_build_object('product', row_to_json(v_product), 'request', row_to_json(v_request));
+end;
+$$;
+
+create or replace function public.receive_purchase_order(p_po_id text, p_username text)
+returns json
+language plpgsql
+as $$
+declare
+  v_po public.purchase_orders%rowtype;
+  v_product public.products%rowtype;
+begin
+  select * into v_po from public.purchase_orders where id::text = p_po_id for update;
+  if not found then
+    raise exception 'PURCHASE_ORDER_NOT_FOUND';
+  end if;
+  if v_po.status <> 'Approved' then
+    raise exception 'INVALID_STATUS';
+  end if;
+
+  v_product := public.post_stock_movement(
+    v_po."productId"::text, v_po."warehouseId", v_po.quantity, 'Receipt', 'purchase_order', v_po.id::text, p_username
+  );
+
+  update public.purchase_orders
+     set status = 'Received',
+         "receivedBy" = p_username,
+         "receivedDate" = now()
+   where id = v_po.id
+  returning * into v_po;
+
+  return json_build_object('product', row_to_json(v_product), 'purchaseOrder', row_to_json(v_po));
+end;
+$$;
+
+drop function if exists public.apply_stock_adjustment(text, integer, text, text, text);
+
+create or replace function public.apply_stock_adjustment(
+  p_product_id text,
+  p_warehouse_id text,
+  p_quantity_change integer,
+  p_reason text,
+  p_notes text,
+  p_username text
+)
+returns json
+language plpgsql
+as $$
+declare
+  v_product public.products%rowtype;
+  v_adjustment public.stock_adjustments%rowtype;
+  v_warehouse_id text := coalesce(p_warehouse_id, public.default_warehouse_id());
+begin
+  if p_quantity_change = 0 then
+    raise exception 'INVALID_QUANTITY';
+  end if;
+
+  select * into v_product from public.products where id::text = p_product_id;
+  if not found then
+    raise exception 'PRODUCT_NOT_FOUND';
+  end if;
+
+  insert into public.stock_adjustments ("productId", "productName", "warehouseId", "quantityChange", reason, notes, date, "adjustedBy")
+  values (v_product.id, v_product.name, v_warehouse_id, p_quantity_change, p_reason, p_notes, now(), p_username)
+  returning * into v_adjustment;
+
+  begin
+    v_product := public.post_stock_movement(
+      p_product_id, v_warehouse_id, p_quantity_change,
+      case when p_reason = 'Return' then 'Return' else 'Adjustment' end,
+      'stock_adjustment', v_adjustment.id::text, p_username, p_reason
+    );
+  exception when others then
+    if sqlerrm = 'INSUFFICIENT_STOCK' then
+      raise exception 'NEGATIVE_STOCK';
+    end if;
+    raise;
+  end;
+
+  return json_build_object('product', row_to_json(v_product), 'adjustment', row_to_json(v_adjustment));
+end;
+$$;
+
+-- Per-warehouse quantities that differ from the warehouse's ledger balance, followed by
+-- products whose cached total differs from the ledger total.
+drop function if exists public.verify_stock_ledger();
+
+create or replace function public.verify_stock_ledger()
+returns table ("productId" text, "productName" text, "warehouseId" text, "cachedQuantity" integer, "ledgerQuantity" integer)
+language sql
+stable
+as $$
+  with ledger as (
+    select m."productId", m."warehouseId", sum(m."quantityChange")::integer as balance
+      from public.stock_movements m
+     group by m."productId", m."warehouseId"
+  ),
+  stock as (
+    select coalesce(s."productId", l."productId") as "productId",
+           coalesce(s."warehouseId", l."warehouseId") as "warehouseId",
+           coalesce(s.quantity, 0) as cached,
+           coalesce(l.balance, 0) as balance
+      from public.product_stock s
+      full outer join ledger l on l."productId" = s."productId" and l."warehouseId" = s."warehouseId"
+  )
+  select st."productId", p.name, st."warehouseId", st.cached, st.balance
+    from stock st
+    join public.products p on p.id::text = st."productId"
+   where st.cached <> st.balance
+  union all
+  select p.id::text, p.name, null, p.quantity, coalesce(sum(m."quantityChange"), 0)::integer
+    from public.products p
+    left join public.stock_movements m on m."productId" = p.id::text
+   group by p.id, p.name, p.quantity
+  having p.quantity <> coalesce(sum(m."quantityChange"), 0);
+$$;
+
+-- Resets every per-warehouse and total quantity to its ledger balance and returns the number
+-- of products whose total was corrected.
+create or replace function public.rebuild_product_quantities()
+returns integer
+language plpgsql
+as $$
+declare
+  v_count integer;
+begin
+  perform set_config('stockerz.ledger_write', 'on', true);
+
+  insert into public.product_stock ("productId", "warehouseId", quantity)
+  select m."productId", m."warehouseId", sum(m."quantityChange")::integer
+    from public.stock_movements m
+   group by m."productId", m."warehouseId"
+  on conflict ("productId", "warehouseId") do update set quantity = excluded.quantity;
+
+  update public.product_stock s
+     set quantity = 0
+   where not exists (
+     select 1 from public.stock_movements m
+      where m."productId" = s."productId" and m."warehouseId" = s."warehouseId"
+   );
+
+  update public.products p
+     set quantity = l.balance,
+         "lastUpdated" = now()
+    from (
+      select pr.id, coalesce(sum(m."quantityChange"), 0)::integer as balance
+        from public.products pr
+        left join public.stock_movements m on m."productId" = pr.id::text
+       group by pr.id
+    ) l
+   where p.id = l.id and p.quantity <> l.balance;
+  get diagnostics v_count = row_count;
+
+  perform set_config('stockerz.ledger_write', 'off', true);
+  return v_count;
+end;
+$$;
@@ -0,0 +1,57 @@
+-- Structured bin locations.
+--
+-- Each warehouse is divided into zones, aisles, racks and shelves. A bin location is one
+-- addressable spot in that hierarchy, identified by a code that is unique within its warehouse
+-- and printed as a barcode on the shelf label. Products point at a bin through "locationId";
+-- products.location keeps the bin code so existing lists, searches and exports keep working.
+
+create table if not exists public.bin_locations (
+  id uuid primary key default gen_random_uuid(),
+  "warehouseId" text not null,
+  zone text not null,
+  aisle text,
+  rack text,
+  shelf text,
+  code text not null,
+  capacity integer check (capacity is null or capacity > 0),
+  "lastUpdated" timestamptz not null default now(),
+  "lastModifiedBy" text,
+  unique ("warehouseId", code)
+);
+
+alter table public.products add column if not exists "locationId" text;
+
+create index if not exists products_location_idx on public.products ("locationId");
+
+-- Existing free-text locations become zone-only bins in the product's home warehouse, so
+-- that they can be renamed or split into aisles, racks and shelves afterwards.
+insert into public.bin_locations ("warehouseId", zone, code, "lastModifiedBy")
+select distinct coalesce(p."homeWarehouseId", public.default_warehouse_id()), upper(btrim(p.location)), upper(btrim(p.location)), 'system'
+  from public.products p
+ where coalesce(btrim(p.location), '') <> ''
+on conflict ("warehouseId", code) do nothing;
+
+update public.products p
+   set "locationId" = b.id::text
+  from public.bin_locations b
+ where p."locationId" is null
+   and b."warehouseId" = coalesce(p."homeWarehouseId", public.default_warehouse_id())
+   and b.code = upper(btrim(p.location));
+
+-- Renaming a bin renames it on every product stored there.
+create or replace function public.bin_locations_sync_product_location()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.code is distinct from old.code then
+    update public.products set location = new.code where "locationId" = new.id::text;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists bin_locations_sync_product_location on public.bin_locations;
+create trigger bin_locations_sync_product_location
+  after update of code on public.bin_locations
+  for each row execute function public.bin_locations_sync_product_location();
@@ -0,0 +1,21 @@
+-- Reorder point, reorder quantity, minimum (safety stock) and maximum per product.
+--
+-- Each level left empty on a product falls back to the default for the product's category,
+-- and then to the application default. A product is low on stock once its quantity is at or
+-- below the reorder point.
+
+alter table public.products add column if not exists "reorderPoint" integer check ("reorderPoint" is null or "reorderPoint" >= 0);
+alter table public.products add column if not exists "reorderQuantity" integer check ("reorderQuantity" is null or "reorderQuantity" > 0);
+alter table public.products add column if not exists "minStock" integer check ("minStock" is null or "minStock" >= 0);
+alter table public.products add column if not exists "maxStock" integer check ("maxStock" is null or "maxStock" > 0);
+
+create table if not exists public.category_stock_levels (
+  id uuid primary key default gen_random_uuid(),
+  category text not null unique,
+  "reorderPoint" integer check ("reorderPoint" is null or "reorderPoint" >= 0),
+  "reorderQuantity" integer check ("reorderQuantity" is null or "reorderQuantity" > 0),
+  "minStock" integer check ("minStock" is null or "minStock" >= 0),
+  "maxStock" integer check ("maxStock" is null or "maxStock" > 0),
+  "lastUpdated" timestamptz not null default now(),
+  "lastModifiedBy" text
+);
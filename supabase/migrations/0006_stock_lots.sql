@@ -0,0 +1,230 @@
+-- Lot / batch tracking.
+--
+-- A lot is one receipt of a product into a warehouse, with its own lot number, expiry date and
+-- remaining quantity. Lots never hold more than the warehouse quantity in product_stock; the
+-- difference is untracked stock (opening balances and stock found in adjustments). Issues consume
+-- lots first-expiry-first-out: lots with the earliest expiry first, then lots without an expiry in
+-- the order they were received, then untracked stock. The lots consumed by an approved request
+-- are recorded on the request.
+
+create table if not exists public.stock_lots (
+  id uuid primary key default gen_random_uuid(),
+  "productId" text not null,
+  "warehouseId" text not null,
+  "lotNumber" text not null,
+  "expiryDate" date,
+  quantity integer not null default 0 check (quantity >= 0),
+  "receivedDate" timestamptz not null default now(),
+  "purchaseOrderId" text,
+  unique ("productId", "warehouseId", "lotNumber")
+);
+
+create index if not exists stock_lots_fefo_idx on public.stock_lots ("productId", "warehouseId", "expiryDate");
+
+-- Lot quantities follow the same rule as products.quantity and product_stock.quantity.
+drop trigger if exists stock_lots_guard_quantity on public.stock_lots;
+create trigger stock_lots_guard_quantity
+  before insert or update of quantity on public.stock_lots
+  for each row execute function public.product_stock_guard_quantity();
+
+alter table public.purchase_orders add column if not exists "lotNumber" text;
+alter table public.purchase_orders add column if not exists "expiryDate" date;
+alter table public.requests add column if not exists "lotAllocations" jsonb;
+
+-- Takes up to p_quantity units out of the product's lots in the warehouse, first-expiry-first-out,
+-- and returns the allocations as [{ lotId, lotNumber, expiryDate, quantity }].
+create or replace function public.consume_stock_lots(p_product_id text, p_warehouse_id text, p_quantity integer)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_lot public.stock_lots%rowtype;
+  v_remaining integer := p_quantity;
+  v_take integer;
+  v_allocations jsonb := '[]'::jsonb;
+begin
+  perform set_config('stockerz.ledger_write', 'on', true);
+  for v_lot in
+    select * from public.stock_lots
+     where "productId" = p_product_id and "warehouseId" = p_warehouse_id and quantity > 0
+     order by "expiryDate" asc nulls last, "receivedDate" asc
+       for update
+  loop
+    exit when v_remaining <= 0;
+    v_take := least(v_lot.quantity, v_remaining);
+    update public.stock_lots set quantity = quantity - v_take where id = v_lot.id;
+    v_allocations := v_allocations || jsonb_build_array(jsonb_build_object(
+      'lotId', v_lot.id::text, 'lotNumber', v_lot."lotNumber", 'expiryDate', v_lot."expiryDate", 'quantity', v_take
+    ));
+    v_remaining := v_remaining - v_take;
+  end loop;
+  perform set_config('stockerz.ledger_write', 'off', true);
+  return v_allocations;
+end;
+$$;
+
+-- Brings the lots back within the warehouse quantity after stock was removed without naming a lot.
+create or replace function public.trim_stock_lots(p_product_id text, p_warehouse_id text)
+returns void
+language plpgsql
+as $$
+declare
+  v_excess integer;
+begin
+  select coalesce(sum(l.quantity), 0) - coalesce(max(s.quantity), 0) into v_excess
+    from public.stock_lots l
+    left join public.product_stock s on s."productId" = l."productId" and s."warehouseId" = l."warehouseId"
+   where l."productId" = p_product_id and l."warehouseId" = p_warehouse_id;
+  if v_excess > 0 then
+    perform public.consume_stock_lots(p_product_id, p_warehouse_id, v_excess);
+  end if;
+end;
+$$;
+
+create or replace function public.approve_request(p_request_id text, p_username text)
+returns json
+language plpgsql
+as $$
+declare
+  v_request public.requests%rowtype;
+  v_product public.products%rowtype;
+  v_allocations jsonb;
+begin
+  select * into v_request from public.requests where id::text = p_request_id for update;
+  if not found then
+    raise exception 'REQUEST_NOT_FOUND';
+  end if;
+  if v_request.status <> 'Pending Approval' then
+    raise exception 'INVALID_STATUS';
+  end if;
+
+  v_product := public.post_stock_movement(
+    v_request."productId"::text, v_request."warehouseId", -v_request.quantity, 'Issue', 'request', v_request.id::text, p_username,
+    'To: ' || v_request."requestingDivision"
+  );
+  v_allocations := public.consume_stock_lots(v_request."productId"::text, v_request."warehouseId", v_request.quantity);
+
+  update public.requests
+     set status = 'Approved',
+         "approvedBy" = p_username,
+         "actionDate" = now(),
+         "lotAllocations" = v_allocations
+   where id = v_request.id
+  returning * into v_request;
+
+  return json_build_object('product', row_to_json(v_product), 'request', row_to_json(v_request));
+end;
+$$;
+
+drop function if exists public.receive_purchase_order(text, text);
+
+create or replace function public.receive_purchase_order(
+  p_po_id text,
+  p_username text,
+  p_lot_number text default null,
+  p_expiry_date date default null
+)
+returns json
+language plpgsql
+as $$
+declare
+  v_po public.purchase_orders%rowtype;
+  v_product public.products%rowtype;
+  v_lot_number text := nullif(btrim(p_lot_number), '');
+  v_existing_expiry date;
+begin
+  select * into v_po from public.purchase_orders where id::text = p_po_id for update;
+  if not found then
+    raise exception 'PURCHASE_ORDER_NOT_FOUND';
+  end if;
+  if v_po.status <> 'Approved' then
+    raise exception 'INVALID_STATUS';
+  end if;
+  if p_expiry_date is not null and v_lot_number is null then
+    raise exception 'LOT_NUMBER_REQUIRED';
+  end if;
+
+  v_product := public.post_stock_movement(
+    v_po."productId"::text, v_po."warehouseId", v_po.quantity, 'Receipt', 'purchase_order', v_po.id::text, p_username,
+    case when v_lot_number is not null then 'Lot: ' || v_lot_number end
+  );
+
+  if v_lot_number is not null then
+    select "expiryDate" into v_existing_expiry
+      from public.stock_lots
+     where "productId" = v_po."productId"::text and "warehouseId" = v_po."warehouseId" and "lotNumber" = v_lot_number;
+    if v_existing_expiry is not null and p_expiry_date is not null and v_existing_expiry <> p_expiry_date then
+      raise exception 'LOT_EXPIRY_MISMATCH';
+    end if;
+
+    perform set_config('stockerz.ledger_write', 'on', true);
+    insert into public.stock_lots ("productId", "warehouseId", "lotNumber", "expiryDate", quantity, "purchaseOrderId")
+    values (v_po."productId"::text, v_po."warehouseId", v_lot_number, p_expiry_date, v_po.quantity, v_po.id::text)
+    on conflict ("productId", "warehouseId", "lotNumber") do update
+      set quantity = public.stock_lots.quantity + excluded.quantity,
+          "expiryDate" = coalesce(public.stock_lots."expiryDate", excluded."expiryDate");
+    perform set_config('stockerz.ledger_write', 'off', true);
+  end if;
+
+  update public.purchase_orders
+     set status = 'Received',
+         "receivedBy" = p_username,
+         "receivedDate" = now(),
+         "lotNumber" = v_lot_number,
+         "expiryDate" = p_expiry_date
+   where id = v_po.id
+  returning * into v_po;
+
+  return json_build_object('product', row_to_json(v_product), 'purchaseOrder', row_to_json(v_po));
+end;
+$$;
+
+create or replace function public.apply_stock_adjustment(
+  p_product_id text,
+  p_warehouse_id text,
+  p_quantity_change integer,
+  p_reason text,
+  p_notes text,
+  p_username text
+)
+returns json
+language plpgsql
+as $$
+declare
+  v_product public.products%rowtype;
+  v_adjustment public.stock_adjustments%rowtype;
+  v_warehouse_id text := coalesce(p_warehouse_id, public.default_warehouse_id());
+begin
+  if p_quantity_change = 0 then
+    raise exception 'INVALID_QUANTITY';
+  end if;
+
+  select * into v_product from public.products where id::text = p_product_id;
+  if not found then
+    raise exception 'PRODUCT_NOT_FOUND';
+  end if;
+
+  insert into public.stock_adjustments ("productId", "productName", "warehouseId", "quantityChange", reason, notes, date, "adjustedBy")
+  values (v_product.id, v_product.name, v_warehouse_id, p_quantity_change, p_reason, p_notes, now(), p_username)
+  returning * into v_adjustment;
+
+  begin
+    v_product := public.post_stock_movement(
+      p_product_id, v_warehouse_id, p_quantity_change,
+      case when p_reason = 'Return' then 'Return' else 'Adjustment' end,
+      'stock_adjustment', v_adjustment.id::text, p_username, p_reason
+    );
+  exception when others then
+    if sqlerrm = 'INSUFFICIENT_STOCK' then
+      raise exception 'NEGATIVE_STOCK';
+    end if;
+    raise;
+  end;
+
+  if p_quantity_change < 0 then
+    perform public.trim_stock_lots(p_product_id, v_warehouse_id);
+  end if;
+
+  return json_build_object('product', row_to_json(v_product), 'adjustment', row_to_json(v_adjustment));
+end;
+$$;
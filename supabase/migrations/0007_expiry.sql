@@ -0,0 +1,185 @@
+-- Expired stock is quarantined and written off.
+--
+-- A lot is expired once its expiry date has passed; untracked stock is expired once the
+-- product's own expiry date has passed. Requests are never issued from expired stock: approval
+-- skips expired lots and fails with EXPIRED_STOCK when the unexpired stock does not cover the
+-- request. Expired stock leaves the warehouse through a stock adjustment with the "Expired"
+-- reason, which may name the lot it writes off.
+
+alter table public.stock_adjustments add column if not exists "lotId" text;
+alter table public.stock_adjustments add column if not exists "lotNumber" text;
+
+drop function if exists public.consume_stock_lots(text, text, integer);
+
+create or replace function public.consume_stock_lots(
+  p_product_id text,
+  p_warehouse_id text,
+  p_quantity integer,
+  p_include_expired boolean default true
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_lot public.stock_lots%rowtype;
+  v_remaining integer := p_quantity;
+  v_take integer;
+  v_allocations jsonb := '[]'::jsonb;
+begin
+  perform set_config('stockerz.ledger_write', 'on', true);
+  for v_lot in
+    select * from public.stock_lots
+     where "productId" = p_product_id and "warehouseId" = p_warehouse_id and quantity > 0
+       and (p_include_expired or "expiryDate" is null or "expiryDate" >= current_date)
+     order by "expiryDate" asc nulls last, "receivedDate" asc
+       for update
+  loop
+    exit when v_remaining <= 0;
+    v_take := least(v_lot.quantity, v_remaining);
+    update public.stock_lots set quantity = quantity - v_take where id = v_lot.id;
+    v_allocations := v_allocations || jsonb_build_array(jsonb_build_object(
+      'lotId', v_lot.id::text, 'lotNumber', v_lot."lotNumber", 'expiryDate', v_lot."expiryDate", 'quantity', v_take
+    ));
+    v_remaining := v_remaining - v_take;
+  end loop;
+  perform set_config('stockerz.ledger_write', 'off', true);
+  return v_allocations;
+end;
+$$;
+
+-- Quantity of the product in the warehouse that has not expired.
+create or replace function public.unexpired_stock(p_product_id text, p_warehouse_id text)
+returns integer
+language sql
+stable
+as $$
+  with stock as (
+    select coalesce((select quantity from public.product_stock where "productId" = p_product_id and "warehouseId" = p_warehouse_id), 0) as quantity
+  ),
+  lots as (
+    select coalesce(sum(quantity), 0)::integer as total,
+           coalesce(sum(quantity) filter (where "expiryDate" is null or "expiryDate" >= current_date), 0)::integer as unexpired
+      from public.stock_lots
+     where "productId" = p_product_id and "warehouseId" = p_warehouse_id
+  )
+  select lots.unexpired + case
+           when p."expiryDate" is not null and p."expiryDate"::date < current_date then 0
+           else greatest(stock.quantity - lots.total, 0)
+         end
+    from stock, lots, public.products p
+   where p.id::text = p_product_id;
+$$;
+
+create or replace function public.approve_request(p_request_id text, p_username text)
+returns json
+language plpgsql
+as $$
+declare
+  v_request public.requests%rowtype;
+  v_product public.products%rowtype;
+  v_allocations jsonb;
+  v_stock integer;
+begin
+  select * into v_request from public.requests where id::text = p_request_id for update;
+  if not found then
+    raise exception 'REQUEST_NOT_FOUND';
+  end if;
+  if v_request.status <> 'Pending Approval' then
+    raise exception 'INVALID_STATUS';
+  end if;
+
+  select quantity into v_stock from public.product_stock
+   where "productId" = v_request."productId"::text and "warehouseId" = v_request."warehouseId";
+  if coalesce(v_stock, 0) >= v_request.quantity
+     and public.unexpired_stock(v_request."productId"::text, v_request."warehouseId") < v_request.quantity then
+    raise exception 'EXPIRED_STOCK';
+  end if;
+
+  v_product := public.post_stock_movement(
+    v_request."productId"::text, v_request."warehouseId", -v_request.quantity, 'Issue', 'request', v_request.id::text, p_username,
+    'To: ' || v_request."requestingDivision"
+  );
+  v_allocations := public.consume_stock_lots(v_request."productId"::text, v_request."warehouseId", v_request.quantity, false);
+
+  update public.requests
+     set status = 'Approved',
+         "approvedBy" = p_username,
+         "actionDate" = now(),
+         "lotAllocations" = v_allocations
+   where id = v_request.id
+  returning * into v_request;
+
+  return json_build_object('product', row_to_json(v_product), 'request', row_to_json(v_request));
+end;
+$$;
+
+drop function if exists public.apply_stock_adjustment(text, text, integer, text, text, text);
+
+create or replace function public.apply_stock_adjustment(
+  p_product_id text,
+  p_warehouse_id text,
+  p_quantity_change integer,
+  p_reason text,
+  p_notes text,
+  p_username text,
+  p_lot_id text default null
+)
+returns json
+language plpgsql
+as $$
+declare
+  v_product public.products%rowtype;
+  v_adjustment public.stock_adjustments%rowtype;
+  v_lot public.stock_lots%rowtype;
+  v_warehouse_id text := coalesce(p_warehouse_id, public.default_warehouse_id());
+begin
+  if p_quantity_change = 0 then
+    raise exception 'INVALID_QUANTITY';
+  end if;
+
+  select * into v_product from public.products where id::text = p_product_id;
+  if not found then
+    raise exception 'PRODUCT_NOT_FOUND';
+  end if;
+
+  if p_lot_id is not null then
+    select * into v_lot from public.stock_lots
+     where id::text = p_lot_id and "productId" = p_product_id and "warehouseId" = v_warehouse_id
+       for update;
+    if not found then
+      raise exception 'LOT_NOT_FOUND';
+    end if;
+    if v_lot.quantity + p_quantity_change < 0 then
+      raise exception 'NEGATIVE_STOCK';
+    end if;
+  end if;
+
+  insert into public.stock_adjustments ("productId", "productName", "warehouseId", "quantityChange", reason, notes, date, "adjustedBy", "lotId", "lotNumber")
+  values (v_product.id, v_product.name, v_warehouse_id, p_quantity_change, p_reason, p_notes, now(), p_username, v_lot.id::text, v_lot."lotNumber")
+  returning * into v_adjustment;
+
+  begin
+    v_product := public.post_stock_movement(
+      p_product_id, v_warehouse_id, p_quantity_change,
+      case when p_reason = 'Return' then 'Return' else 'Adjustment' end,
+      'stock_adjustment', v_adjustment.id::text, p_username,
+      p_reason || case when v_lot.id is not null then ' (Lot: ' || v_lot."lotNumber" || ')' else '' end
+    );
+  exception when others then
+    if sqlerrm = 'INSUFFICIENT_STOCK' then
+      raise exception 'NEGATIVE_STOCK';
+    end if;
+    raise;
+  end;
+
+  if v_lot.id is not null then
+    perform set_config('stockerz.ledger_write', 'on', true);
+    update public.stock_lots set quantity = quantity + p_quantity_change where id = v_lot.id;
+    perform set_config('stockerz.ledger_write', 'off', true);
+  elsif p_quantity_change < 0 then
+    perform public.trim_stock_lots(p_product_id, v_warehouse_id);
+  end if;
+
+  return json_build_object('product', row_to_json(v_product), 'adjustment', row_to_json(v_adjustment));
+end;
+$$;
@@ -0,0 +1,206 @@
+-- Serial number tracking.
+--
+-- Serialized products are received and issued unit by unit. Receiving a purchase order for a
+-- serialized product records one serial number per unit, and approving a request issues the
+-- units chosen by their serial numbers. serial_numbers holds where each unit is now; the serial
+-- numbers are also kept on the purchase order and the request, so the movements posted for those
+-- documents make up the history of each unit.
+
+alter table public.products add column if not exists "isSerialized" boolean not null default false;
+alter table public.purchase_orders add column if not exists "serialNumbers" jsonb;
+alter table public.requests add column if not exists "serialNumbers" jsonb;
+
+create table if not exists public.serial_numbers (
+  id uuid primary key default gen_random_uuid(),
+  "productId" text not null,
+  "serialNumber" text not null,
+  status text not null default 'In Stock' check (status in ('In Stock', 'Issued')),
+  "warehouseId" text not null,
+  "purchaseOrderId" text,
+  "requestId" text,
+  "issuedTo" text,
+  "receivedDate" timestamptz not null default now(),
+  "issuedDate" timestamptz,
+  unique ("productId", "serialNumber")
+);
+
+create index if not exists serial_numbers_serial_idx on public.serial_numbers ("serialNumber");
+
+-- Units move only through receipts and issues, like quantities.
+drop trigger if exists serial_numbers_guard on public.serial_numbers;
+create trigger serial_numbers_guard
+  before insert or update of status, "warehouseId" on public.serial_numbers
+  for each row execute function public.product_stock_guard_quantity();
+
+-- Trims and de-duplicates the serial numbers entered for a document.
+create or replace function public.normalize_serial_numbers(p_serial_numbers text[])
+returns text[]
+language sql
+immutable
+as $$
+  select coalesce(array_agg(distinct s order by s), '{}')
+    from (select btrim(unnest(p_serial_numbers)) as s) t
+   where s <> '';
+$$;
+
+drop function if exists public.receive_purchase_order(text, text, text, date);
+
+create or replace function public.receive_purchase_order(
+  p_po_id text,
+  p_username text,
+  p_lot_number text default null,
+  p_expiry_date date default null,
+  p_serial_numbers text[] default null
+)
+returns json
+language plpgsql
+as $$
+declare
+  v_po public.purchase_orders%rowtype;
+  v_product public.products%rowtype;
+  v_lot_number text := nullif(btrim(p_lot_number), '');
+  v_existing_expiry date;
+  v_serials text[] := public.normalize_serial_numbers(p_serial_numbers);
+begin
+  select * into v_po from public.purchase_orders where id::text = p_po_id for update;
+  if not found then
+    raise exception 'PURCHASE_ORDER_NOT_FOUND';
+  end if;
+  if v_po.status <> 'Approved' then
+    raise exception 'INVALID_STATUS';
+  end if;
+  if p_expiry_date is not null and v_lot_number is null then
+    raise exception 'LOT_NUMBER_REQUIRED';
+  end if;
+
+  select * into v_product from public.products where id::text = v_po."productId"::text;
+  if v_product."isSerialized" then
+    if coalesce(array_length(v_serials, 1), 0) <> v_po.quantity
+       or coalesce(array_length(p_serial_numbers, 1), 0) <> v_po.quantity then
+      raise exception 'SERIAL_COUNT_MISMATCH';
+    end if;
+    if exists (select 1 from public.serial_numbers where "productId" = v_po."productId"::text and "serialNumber" = any(v_serials)) then
+      raise exception 'SERIAL_DUPLICATE';
+    end if;
+  else
+    v_serials := null;
+  end if;
+
+  v_product := public.post_stock_movement(
+    v_po."productId"::text, v_po."warehouseId", v_po.quantity, 'Receipt', 'purchase_order', v_po.id::text, p_username,
+    case when v_lot_number is not null then 'Lot: ' || v_lot_number end
+  );
+
+  if v_lot_number is not null then
+    select "expiryDate" into v_existing_expiry
+      from public.stock_lots
+     where "productId" = v_po."productId"::text and "warehouseId" = v_po."warehouseId" and "lotNumber" = v_lot_number;
+    if v_existing_expiry is not null and p_expiry_date is not null and v_existing_expiry <> p_expiry_date then
+      raise exception 'LOT_EXPIRY_MISMATCH';
+    end if;
+
+    perform set_config('stockerz.ledger_write', 'on', true);
+    insert into public.stock_lots ("productId", "warehouseId", "lotNumber", "expiryDate", quantity, "purchaseOrderId")
+    values (v_po."productId"::text, v_po."warehouseId", v_lot_number, p_expiry_date, v_po.quantity, v_po.id::text)
+    on conflict ("productId", "warehouseId", "lotNumber") do update
+      set quantity = public.stock_lots.quantity + excluded.quantity,
+          "expiryDate" = coalesce(public.stock_lots."expiryDate", excluded."expiryDate");
+    perform set_config('stockerz.ledger_write', 'off', true);
+  end if;
+
+  if v_serials is not null then
+    perform set_config('stockerz.ledger_write', 'on', true);
+    insert into public.serial_numbers ("productId", "serialNumber", "warehouseId", "purchaseOrderId")
+    select v_po."productId"::text, s, v_po."warehouseId", v_po.id::text from unnest(v_serials) s;
+    perform set_config('stockerz.ledger_write', 'off', true);
+  end if;
+
+  update public.purchase_orders
+     set status = 'Received',
+         "receivedBy" = p_username,
+         "receivedDate" = now(),
+         "lotNumber" = v_lot_number,
+         "expiryDate" = p_expiry_date,
+         "serialNumbers" = to_jsonb(v_serials)
+   where id = v_po.id
+  returning * into v_po;
+
+  return json_build_object('product', row_to_json(v_product), 'purchaseOrder', row_to_json(v_po));
+end;
+$$;
+
+drop function if exists public.approve_request(text, text);
+
+create or replace function public.approve_request(p_request_id text, p_username text, p_serial_numbers text[] default null)
+returns json
+language plpgsql
+as $$
+declare
+  v_request public.requests%rowtype;
+  v_product public.products%rowtype;
+  v_allocations jsonb;
+  v_stock integer;
+  v_serials text[] := public.normalize_serial_numbers(p_serial_numbers);
+begin
+  select * into v_request from public.requests where id::text = p_request_id for update;
+  if not found then
+    raise exception 'REQUEST_NOT_FOUND';
+  end if;
+  if v_request.status <> 'Pending Approval' then
+    raise exception 'INVALID_STATUS';
+  end if;
+
+  select quantity into v_stock from public.product_stock
+   where "productId" = v_request."productId"::text and "warehouseId" = v_request."warehouseId";
+  if coalesce(v_stock, 0) >= v_request.quantity
+     and public.unexpired_stock(v_request."productId"::text, v_request."warehouseId") < v_request.quantity then
+    raise exception 'EXPIRED_STOCK';
+  end if;
+
+  select * into v_product from public.products where id::text = v_request."productId"::text;
+  if v_product."isSerialized" then
+    if coalesce(array_length(v_serials, 1), 0) <> v_request.quantity
+       or coalesce(array_length(p_serial_numbers, 1), 0) <> v_request.quantity then
+      raise exception 'SERIAL_COUNT_MISMATCH';
+    end if;
+    perform 1 from public.serial_numbers
+      where "productId" = v_request."productId"::text and "serialNumber" = any(v_serials)
+        for update;
+    if (select count(*) from public.serial_numbers
+         where "productId" = v_request."productId"::text and "serialNumber" = any(v_serials)
+           and status = 'In Stock' and "warehouseId" = v_request."warehouseId") <> v_request.quantity then
+      raise exception 'SERIAL_NOT_AVAILABLE';
+    end if;
+  else
+    v_serials := null;
+  end if;
+
+  v_product := public.post_stock_movement(
+    v_request."productId"::text, v_request."warehouseId", -v_request.quantity, 'Issue', 'request', v_request.id::text, p_username,
+    'To: ' || v_request."requestingDivision"
+  );
+  v_allocations := public.consume_stock_lots(v_request."productId"::text, v_request."warehouseId", v_request.quantity, false);
+
+  if v_serials is not null then
+    perform set_config('stockerz.ledger_write', 'on', true);
+    update public.serial_numbers
+       set status = 'Issued',
+           "requestId" = v_request.id::text,
+           "issuedTo" = v_request."requestingDivision",
+           "issuedDate" = now()
+     where "productId" = v_request."productId"::text and "serialNumber" = any(v_serials);
+    perform set_config('stockerz.ledger_write', 'off', true);
+  end if;
+
+  update public.requests
+     set status = 'Approved',
+         "approvedBy" = p_username,
+         "actionDate" = now(),
+         "lotAllocations" = v_allocations,
+         "serialNumbers" = to_jsonb(v_serials)
+   where id = v_request.id
+  returning * into v_request;
+
+  return json_build_object('product', row_to_json(v_product), 'request', row_to_json(v_request));
+end;
+$$;
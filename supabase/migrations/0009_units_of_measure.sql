@@ -0,0 +1,17 @@
+-- Units of measure.
+--
+-- Every product keeps its stock in a base unit and may have alternate units, each a whole number
+-- of base units (a box of 5 reams). Document quantities stay in the base unit, so the stock
+-- functions are unchanged; requests and purchase orders also record the unit and quantity they
+-- were entered in, and the base unit at that time, for display.
+
+alter table public.products add column if not exists "baseUnit" text not null default 'pcs';
+alter table public.products add column if not exists "unitConversions" jsonb not null default '[]'::jsonb;
+
+alter table public.requests add column if not exists unit text;
+alter table public.requests add column if not exists "unitQuantity" integer;
+alter table public.requests add column if not exists "baseUnit" text;
+
+alter table public.purchase_orders add column if not exists unit text;
+alter table public.purchase_orders add column if not exists "unitQuantity" integer;
+alter table public.purchase_orders add column if not exists "baseUnit" text;
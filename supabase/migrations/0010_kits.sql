@@ -0,0 +1,232 @@
+-- Kits and bundles.
+--
+-- A kit is a product with a bill of materials: "kitComponents" lists how many base units of
+-- each component go into one kit. Kits can be assembled ahead of time, which moves the
+-- components into kit stock, and disassembled again. Approving a request for a kit issues
+-- assembled kits first and builds the rest from components in the same transaction, so the
+-- components are deducted together or not at all. Assembly and disassembly are posted as stock
+-- movements of the kit and of each component, grouped by a shared reference id.
+
+alter table public.products add column if not exists "isKit" boolean not null default false;
+alter table public.products add column if not exists "kitComponents" jsonb not null default '[]'::jsonb;
+
+alter table public.stock_movements drop constraint if exists stock_movements_type_check;
+alter table public.stock_movements add constraint stock_movements_type_check
+  check (type in ('Opening', 'Receipt', 'Issue', 'Adjustment', 'Return', 'Transfer', 'Assembly', 'Disassembly'));
+
+alter table public.stock_movements drop constraint if exists "stock_movements_referenceType_check";
+alter table public.stock_movements add constraint "stock_movements_referenceType_check"
+  check ("referenceType" in ('product', 'request', 'purchase_order', 'stock_adjustment', 'transfer', 'kit_assembly'));
+
+-- Takes the components of p_kits kits out of the warehouse, unexpired lots first.
+create or replace function public.consume_kit_components(
+  p_kit public.products,
+  p_warehouse_id text,
+  p_kits integer,
+  p_type text,
+  p_reference_type text,
+  p_reference_id text,
+  p_username text,
+  p_notes text
+)
+returns void
+language plpgsql
+as $$
+declare
+  v_component record;
+  v_needed integer;
+  v_stock integer;
+begin
+  if not p_kit."isKit" or jsonb_array_length(p_kit."kitComponents") = 0 then
+    raise exception 'NOT_A_KIT';
+  end if;
+
+  for v_component in
+    select * from jsonb_to_recordset(p_kit."kitComponents") as c("productId" text, quantity integer)
+  loop
+    v_needed := v_component.quantity * p_kits;
+    select quantity into v_stock from public.product_stock
+     where "productId" = v_component."productId" and "warehouseId" = p_warehouse_id;
+    if coalesce(v_stock, 0) < v_needed then
+      raise exception 'KIT_COMPONENTS_SHORT';
+    end if;
+    if public.unexpired_stock(v_component."productId", p_warehouse_id) < v_needed then
+      raise exception 'EXPIRED_STOCK';
+    end if;
+
+    perform public.post_stock_movement(
+      v_component."productId", p_warehouse_id, -v_needed, p_type, p_reference_type, p_reference_id, p_username, p_notes
+    );
+    perform public.consume_stock_lots(v_component."productId", p_warehouse_id, v_needed, false);
+  end loop;
+end;
+$$;
+
+create or replace function public.assemble_kit(p_kit_id text, p_warehouse_id text, p_quantity integer, p_username text)
+returns json
+language plpgsql
+as $$
+declare
+  v_kit public.products%rowtype;
+  v_reference_id text := gen_random_uuid()::text;
+begin
+  if p_quantity is null or p_quantity <= 0 then
+    raise exception 'INVALID_QUANTITY';
+  end if;
+  select * into v_kit from public.products where id::text = p_kit_id for update;
+  if not found then
+    raise exception 'PRODUCT_NOT_FOUND';
+  end if;
+
+  perform public.consume_kit_components(
+    v_kit, p_warehouse_id, p_quantity, 'Assembly', 'kit_assembly', v_reference_id, p_username, 'Into: ' || v_kit.name
+  );
+  v_kit := public.post_stock_movement(
+    p_kit_id, p_warehouse_id, p_quantity, 'Assembly', 'kit_assembly', v_reference_id, p_username, 'Assembled from components'
+  );
+
+  return json_build_object('product', row_to_json(v_kit));
+end;
+$$;
+
+create or replace function public.disassemble_kit(p_kit_id text, p_warehouse_id text, p_quantity integer, p_username text)
+returns json
+language plpgsql
+as $$
+declare
+  v_kit public.products%rowtype;
+  v_component record;
+  v_reference_id text := gen_random_uuid()::text;
+begin
+  if p_quantity is null or p_quantity <= 0 then
+    raise exception 'INVALID_QUANTITY';
+  end if;
+  select * into v_kit from public.products where id::text = p_kit_id for update;
+  if not found then
+    raise exception 'PRODUCT_NOT_FOUND';
+  end if;
+  if not v_kit."isKit" or jsonb_array_length(v_kit."kitComponents") = 0 then
+    raise exception 'NOT_A_KIT';
+  end if;
+
+  v_kit := public.post_stock_movement(
+    p_kit_id, p_warehouse_id, -p_quantity, 'Disassembly', 'kit_assembly', v_reference_id, p_username, 'Taken apart into components'
+  );
+  perform public.trim_stock_lots(p_kit_id, p_warehouse_id);
+
+  for v_component in
+    select * from jsonb_to_recordset(v_kit."kitComponents") as c("productId" text, quantity integer)
+  loop
+    perform public.post_stock_movement(
+      v_component."productId", p_warehouse_id, v_component.quantity * p_quantity, 'Disassembly', 'kit_assembly', v_reference_id, p_username,
+      'From: ' || v_kit.name
+    );
+  end loop;
+
+  return json_build_object('product', row_to_json(v_kit));
+end;
+$$;
+
+create or replace function public.approve_request(p_request_id text, p_username text, p_serial_numbers text[] default null)
+returns json
+language plpgsql
+as $$
+declare
+  v_request public.requests%rowtype;
+  v_product public.products%rowtype;
+  v_allocations jsonb := '[]'::jsonb;
+  v_stock integer;
+  v_from_stock integer;
+  v_serials text[] := public.normalize_serial_numbers(p_serial_numbers);
+begin
+  select * into v_request from public.requests where id::text = p_request_id for update;
+  if not found then
+    raise exception 'REQUEST_NOT_FOUND';
+  end if;
+  if v_request.status <> 'Pending Approval' then
+    raise exception 'INVALID_STATUS';
+  end if;
+
+  select * into v_product from public.products where id::text = v_request."productId"::text for update;
+  select quantity into v_stock from public.product_stock
+   where "productId" = v_request."productId"::text and "warehouseId" = v_request."warehouseId";
+
+  -- Kits: issue the assembled kits in stock, then build the rest from components.
+  if v_product."isKit" then
+    v_from_stock := least(coalesce(v_stock, 0), v_request.quantity);
+    if v_from_stock < v_request.quantity then
+      perform public.consume_kit_components(
+        v_product, v_request."warehouseId", v_request.quantity - v_from_stock, 'Issue', 'request', v_request.id::text, p_username,
+        'To: ' || v_request."requestingDivision" || ' (kit: ' || v_product.name || ')'
+      );
+    end if;
+    if v_from_stock > 0 then
+      v_product := public.post_stock_movement(
+        v_request."productId"::text, v_request."warehouseId", -v_from_stock, 'Issue', 'request', v_request.id::text, p_username,
+        'To: ' || v_request."requestingDivision"
+      );
+      v_allocations := public.consume_stock_lots(v_request."productId"::text, v_request."warehouseId", v_from_stock, false);
+    end if;
+
+    update public.requests
+       set status = 'Approved',
+           "approvedBy" = p_username,
+           "actionDate" = now(),
+           "lotAllocations" = v_allocations
+     where id = v_request.id
+    returning * into v_request;
+
+    return json_build_object('product', row_to_json(v_product), 'request', row_to_json(v_request));
+  end if;
+
+  if coalesce(v_stock, 0) >= v_request.quantity
+     and public.unexpired_stock(v_request."productId"::text, v_request."warehouseId") < v_request.quantity then
+    raise exception 'EXPIRED_STOCK';
+  end if;
+
+  if v_product."isSerialized" then
+    if coalesce(array_length(v_serials, 1), 0) <> v_request.quantity
+       or coalesce(array_length(p_serial_numbers, 1), 0) <> v_request.quantity then
+      raise exception 'SERIAL_COUNT_MISMATCH';
+    end if;
+    perform 1 from public.serial_numbers
+      where "productId" = v_request."productId"::text and "serialNumber" = any(v_serials)
+        for update;
+    if (select count(*) from public.serial_numbers
+         where "productId" = v_request."productId"::text and "serialNumber" = any(v_serials)
+           and status = 'In Stock' and "warehouseId" = v_request."warehouseId") <> v_request.quantity then
+      raise exception 'SERIAL_NOT_AVAILABLE';
+    end if;
+  else
+    v_serials := null;
+  end if;
+
+  v_product := public.post_stock_movement(
+    v_request."productId"::text, v_request."warehouseId", -v_request.quantity, 'Issue', 'request', v_request.id::text, p_username,
+    'To: ' || v_request."requestingDivision"
+  );
+  v_allocations := public.consume_stock_lots(v_request."productId"::text, v_request."warehouseId", v_request.quantity, false);
+
+  if v_serials is not null then
+    perform set_config('stockerz.ledger_write', 'on', true);
+    update public.serial_numbers
+       set status = 'Issued',
+           "requestId" = v_request.id::text,
+           "issuedTo" = v_request."requestingDivision",
+           "issuedDate" = now()
+     where "productId" = v_request."productId"::text and "serialNumber" = any(v_serials);
+    perform set_config('stockerz.ledger_write', 'off', true);
+  end if;
+
+  update public.requests
+     set status = 'Approved',
+         "approvedBy" = p_username,
+         "actionDate" = now(),
+         "lotAllocations" = v_allocations,
+         "serialNumbers" = to_jsonb(v_serials)
+   where id = v_request.id
+  returning * into v_request;
+
+  return json_build_object('product', row_to_json(v_product), 'request', row_to_json(v_request));
+end;
+$$;
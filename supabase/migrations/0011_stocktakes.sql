@@ -0,0 +1,174 @@
+-- Stocktakes (cycle counts).
+--
+-- A stocktake counts the products of one warehouse, optionally narrowed to a category and to a
+-- zone or a single bin. Starting it records each product's warehouse quantity on its line; the
+-- counters never see that quantity. Lines whose count differs from it by more than the variance
+-- tolerance are counted again before a supervisor reviews the variances. Posting the stocktake
+-- adjusts every counted product by its variance in one transaction, with "Stocktake" adjustments,
+-- so stock moved while counting is kept. A product can only be on one open stocktake of a
+-- warehouse at a time.
+
+create table if not exists public.stocktakes (
+  id uuid primary key default gen_random_uuid(),
+  "warehouseId" text not null,
+  category text,
+  zone text,
+  "binLocationId" text,
+  "varianceTolerance" numeric not null default 5 check ("varianceTolerance" between 0 and 100),
+  status text not null default 'Counting' check (status in ('Counting', 'Recount', 'Review', 'Posted', 'Cancelled')),
+  notes text,
+  "createdBy" text not null,
+  "createdDate" timestamptz not null default now(),
+  "submittedBy" text,
+  "submittedDate" timestamptz,
+  "closedBy" text,
+  "closedDate" timestamptz
+);
+
+create table if not exists public.stocktake_lines (
+  id uuid primary key default gen_random_uuid(),
+  "stocktakeId" text not null,
+  "productId" text not null,
+  "productName" text not null,
+  sku text not null,
+  location text not null default '',
+  "baseUnit" text,
+  "systemQuantity" integer not null,
+  "unitPrice" numeric not null default 0,
+  "countedQuantity" integer check ("countedQuantity" is null or "countedQuantity" >= 0),
+  "countedBy" text,
+  "countedDate" timestamptz,
+  "needsRecount" boolean not null default false,
+  "recountQuantity" integer check ("recountQuantity" is null or "recountQuantity" >= 0),
+  "recountedBy" text,
+  "recountedDate" timestamptz,
+  "adjustmentId" text,
+  unique ("stocktakeId", "productId")
+);
+
+create index if not exists stocktake_lines_stocktake_idx on public.stocktake_lines ("stocktakeId");
+
+-- Products counted by a stocktake: those of the category in the zone or bin, or, without a
+-- location, those held in the warehouse or assigned to one of its bins.
+create or replace function public.stocktake_products(p_warehouse_id text, p_category text, p_zone text, p_bin_location_id text)
+returns setof public.products
+language sql
+stable
+as $$
+  select p.*
+    from public.products p
+   where (p_category is null or p.category = p_category)
+     and (
+       p."locationId" in (
+         select b.id::text from public.bin_locations b
+          where b."warehouseId" = p_warehouse_id
+            and case when p_bin_location_id is not null then b.id::text = p_bin_location_id
+                     else p_zone is null or b.zone = p_zone end
+       )
+       or (
+         p_zone is null and p_bin_location_id is null
+         and exists (select 1 from public.product_stock s where s."productId" = p.id::text and s."warehouseId" = p_warehouse_id)
+       )
+     );
+$$;
+
+create or replace function public.start_stocktake(
+  p_warehouse_id text,
+  p_category text,
+  p_zone text,
+  p_bin_location_id text,
+  p_variance_tolerance numeric,
+  p_notes text,
+  p_username text
+)
+returns json
+language plpgsql
+as $$
+declare
+  v_stocktake public.stocktakes%rowtype;
+  v_lines json;
+begin
+  perform 1 from public.warehouses where id::text = p_warehouse_id;
+  if not found then
+    raise exception 'WAREHOUSE_NOT_FOUND';
+  end if;
+
+  -- Stocktakes of one warehouse start one at a time, so two cannot claim the same products.
+  perform pg_advisory_xact_lock(hashtext('stocktake:' || p_warehouse_id));
+
+  if not exists (select 1 from public.stocktake_products(p_warehouse_id, p_category, p_zone, p_bin_location_id)) then
+    raise exception 'STOCKTAKE_EMPTY';
+  end if;
+  if exists (
+    select 1
+      from public.stocktake_lines l
+      join public.stocktakes st on st.id::text = l."stocktakeId"
+     where st."warehouseId" = p_warehouse_id
+       and st.status in ('Counting', 'Recount', 'Review')
+       and l."productId" in (select id::text from public.stocktake_products(p_warehouse_id, p_category, p_zone, p_bin_location_id))
+  ) then
+    raise exception 'STOCKTAKE_OVERLAP';
+  end if;
+
+  insert into public.stocktakes ("warehouseId", category, zone, "binLocationId", "varianceTolerance", notes, "createdBy")
+  values (p_warehouse_id, p_category, p_zone, p_bin_location_id, p_variance_tolerance, p_notes, p_username)
+  returning * into v_stocktake;
+
+  insert into public.stocktake_lines ("stocktakeId", "productId", "productName", sku, location, "baseUnit", "systemQuantity", "unitPrice")
+  select v_stocktake.id::text, p.id::text, p.name, p.sku, coalesce(p.location, ''), p."baseUnit", coalesce(s.quantity, 0), p.price
+    from public.stocktake_products(p_warehouse_id, p_category, p_zone, p_bin_location_id) p
+    left join public.product_stock s on s."productId" = p.id::text and s."warehouseId" = p_warehouse_id;
+
+  select coalesce(json_agg(l), '[]'::json) into v_lines
+    from public.stocktake_lines l
+   where l."stocktakeId" = v_stocktake.id::text;
+
+  return json_build_object('stocktake', row_to_json(v_stocktake), 'lines', v_lines);
+end;
+$$;
+
+-- Adjusts every counted product by the difference between its final count (the recount, when the
+-- line was recounted) and the quantity recorded when the stocktake started.
+create or replace function public.post_stocktake(p_stocktake_id text, p_username text)
+returns json
+language plpgsql
+as $$
+declare
+  v_stocktake public.stocktakes%rowtype;
+  v_line record;
+  v_result json;
+  v_adjustments jsonb := '[]'::jsonb;
+begin
+  select * into v_stocktake from public.stocktakes where id::text = p_stocktake_id for update;
+  if not found then
+    raise exception 'STOCKTAKE_NOT_FOUND';
+  end if;
+  if v_stocktake.status <> 'Review' then
+    raise exception 'INVALID_STATUS';
+  end if;
+
+  for v_line in
+    select l.id, l."productId",
+           (case when l."needsRecount" then l."recountQuantity" else l."countedQuantity" end) - l."systemQuantity" as change
+      from public.stocktake_lines l
+     where l."stocktakeId" = p_stocktake_id
+  loop
+    continue when v_line.change is null or v_line.change = 0;
+    v_result := public.apply_stock_adjustment(
+      v_line."productId", v_stocktake."warehouseId", v_line.change, 'Stocktake',
+      'ST-' || upper(left(v_stocktake.id::text, 8)), p_username
+    );
+    update public.stocktake_lines set "adjustmentId" = v_result->'adjustment'->>'id' where id = v_line.id;
+    v_adjustments := v_adjustments || jsonb_build_array(v_result->'adjustment');
+  end loop;
+
+  update public.stocktakes
+     set status = 'Posted',
+         "closedBy" = p_username,
+         "closedDate" = now()
+   where id = v_stocktake.id
+  returning * into v_stocktake;
+
+  return json_build_object('stocktake', row_to_json(v_stocktake), 'adjustments', v_adjustments);
+end;
+$$;
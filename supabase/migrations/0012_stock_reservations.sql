@@ -0,0 +1,346 @@
+-- Stock reservations.
+--
+-- Approving a request reserves its stock instead of issuing it, so the items stay on hand until
+-- they are handed over. A warehouse's available quantity is its on-hand quantity less what is
+-- reserved there for approved requests. Collecting the request releases its reservation and
+-- issues the stock in one transaction. Cancelling an approved request, or leaving it uncollected
+-- past its "reservedUntil" date, releases the reservation without moving stock. Serialized units
+-- chosen at approval are held as "Reserved" until then.
+--
+-- Requests approved before this migration have no "reservedUntil": their stock was issued at
+-- approval, so collecting them only records the collection.
+
+create table if not exists public.stock_reservations (
+  id uuid primary key default gen_random_uuid(),
+  "requestId" text not null,
+  "productId" text not null,
+  "warehouseId" text not null,
+  quantity integer not null check (quantity > 0),
+  "createdDate" timestamptz not null default now()
+);
+
+create index if not exists stock_reservations_product_idx on public.stock_reservations ("productId", "warehouseId");
+create index if not exists stock_reservations_request_idx on public.stock_reservations ("requestId");
+
+alter table public.requests add column if not exists "reservedUntil" timestamptz;
+alter table public.requests add column if not exists "releasedBy" text;
+alter table public.requests add column if not exists "releasedDate" timestamptz;
+
+alter table public.serial_numbers drop constraint if exists serial_numbers_status_check;
+alter table public.serial_numbers add constraint serial_numbers_status_check check (status in ('In Stock', 'Reserved', 'Issued'));
+
+create or replace function public.reserved_stock(p_product_id text, p_warehouse_id text)
+returns integer
+language sql
+stable
+as $$
+  select coalesce(sum(quantity), 0)::integer
+    from public.stock_reservations
+   where "productId" = p_product_id and "warehouseId" = p_warehouse_id;
+$$;
+
+create or replace function public.available_stock(p_product_id text, p_warehouse_id text)
+returns integer
+language sql
+stable
+as $$
+  select coalesce((select quantity from public.product_stock where "productId" = p_product_id and "warehouseId" = p_warehouse_id), 0)
+         - public.reserved_stock(p_product_id, p_warehouse_id);
+$$;
+
+-- Components reserved for approved requests cannot be built into kits.
+create or replace function public.consume_kit_components(
+  p_kit public.products,
+  p_warehouse_id text,
+  p_kits integer,
+  p_type text,
+  p_reference_type text,
+  p_reference_id text,
+  p_username text,
+  p_notes text
+)
+returns void
+language plpgsql
+as $$
+declare
+  v_component record;
+  v_needed integer;
+begin
+  if not p_kit."isKit" or jsonb_array_length(p_kit."kitComponents") = 0 then
+    raise exception 'NOT_A_KIT';
+  end if;
+
+  for v_component in
+    select * from jsonb_to_recordset(p_kit."kitComponents") as c("productId" text, quantity integer)
+  loop
+    v_needed := v_component.quantity * p_kits;
+    if public.available_stock(v_component."productId", p_warehouse_id) < v_needed then
+      raise exception 'KIT_COMPONENTS_SHORT';
+    end if;
+    if public.unexpired_stock(v_component."productId", p_warehouse_id) - public.reserved_stock(v_component."productId", p_warehouse_id) < v_needed then
+      raise exception 'EXPIRED_STOCK';
+    end if;
+
+    perform public.post_stock_movement(
+      v_component."productId", p_warehouse_id, -v_needed, p_type, p_reference_type, p_reference_id, p_username, p_notes
+    );
+    perform public.consume_stock_lots(v_component."productId", p_warehouse_id, v_needed, false);
+  end loop;
+end;
+$$;
+
+drop function if exists public.approve_request(text, text, text[]);
+
+-- Reserves the request's stock until p_reserved_until. Kits reserve the assembled kits available
+-- and the components to build the rest.
+create or replace function public.approve_request(
+  p_request_id text,
+  p_username text,
+  p_reserved_until timestamptz,
+  p_serial_numbers text[] default null
+)
+returns json
+language plpgsql
+as $$
+declare
+  v_request public.requests%rowtype;
+  v_product public.products%rowtype;
+  v_component record;
+  v_needed integer;
+  v_from_stock integer;
+  v_serials text[] := public.normalize_serial_numbers(p_serial_numbers);
+begin
+  select * into v_request from public.requests where id::text = p_request_id for update;
+  if not found then
+    raise exception 'REQUEST_NOT_FOUND';
+  end if;
+  if v_request.status <> 'Pending Approval' then
+    raise exception 'INVALID_STATUS';
+  end if;
+
+  select * into v_product from public.products where id::text = v_request."productId"::text for update;
+  if not found then
+    raise exception 'PRODUCT_NOT_FOUND';
+  end if;
+
+  if v_product."isKit" then
+    v_from_stock := least(greatest(public.available_stock(v_request."productId"::text, v_request."warehouseId"), 0), v_request.quantity);
+    if v_from_stock < v_request.quantity then
+      if jsonb_array_length(v_product."kitComponents") = 0 then
+        raise exception 'NOT_A_KIT';
+      end if;
+      for v_component in
+        select * from jsonb_to_recordset(v_product."kitComponents") as c("productId" text, quantity integer)
+      loop
+        perform 1 from public.products where id::text = v_component."productId" for update;
+        v_needed := v_component.quantity * (v_request.quantity - v_from_stock);
+        if public.available_stock(v_component."productId", v_request."warehouseId") < v_needed then
+          raise exception 'KIT_COMPONENTS_SHORT';
+        end if;
+        if public.unexpired_stock(v_component."productId", v_request."warehouseId") - public.reserved_stock(v_component."productId", v_request."warehouseId") < v_needed then
+          raise exception 'EXPIRED_STOCK';
+        end if;
+        insert into public.stock_reservations ("requestId", "productId", "warehouseId", quantity)
+        values (v_request.id::text, v_component."productId", v_request."warehouseId", v_needed);
+      end loop;
+    end if;
+    if v_from_stock > 0 then
+      insert into public.stock_reservations ("requestId", "productId", "warehouseId", quantity)
+      values (v_request.id::text, v_request."productId"::text, v_request."warehouseId", v_from_stock);
+    end if;
+    v_serials := null;
+  else
+    if public.available_stock(v_request."productId"::text, v_request."warehouseId") < v_request.quantity then
+      raise exception 'INSUFFICIENT_STOCK';
+    end if;
+    if public.unexpired_stock(v_request."productId"::text, v_request."warehouseId") - public.reserved_stock(v_request."productId"::text, v_request."warehouseId") < v_request.quantity then
+      raise exception 'EXPIRED_STOCK';
+    end if;
+
+    if v_product."isSerialized" then
+      if coalesce(array_length(v_serials, 1), 0) <> v_request.quantity
+         or coalesce(array_length(p_serial_numbers, 1), 0) <> v_request.quantity then
+        raise exception 'SERIAL_COUNT_MISMATCH';
+      end if;
+      perform 1 from public.serial_numbers
+        where "productId" = v_request."productId"::text and "serialNumber" = any(v_serials)
+          for update;
+      if (select count(*) from public.serial_numbers
+           where "productId" = v_request."productId"::text and "serialNumber" = any(v_serials)
+             and status = 'In Stock' and "warehouseId" = v_request."warehouseId") <> v_request.quantity then
+        raise exception 'SERIAL_NOT_AVAILABLE';
+      end if;
+      perform set_config('stockerz.ledger_write', 'on', true);
+      update public.serial_numbers
+         set status = 'Reserved',
+             "requestId" = v_request.id::text
+       where "productId" = v_request."productId"::text and "serialNumber" = any(v_serials);
+      perform set_config('stockerz.ledger_write', 'off', true);
+    else
+      v_serials := null;
+    end if;
+
+    insert into public.stock_reservations ("requestId", "productId", "warehouseId", quantity)
+    values (v_request.id::text, v_request."productId"::text, v_request."warehouseId", v_request.quantity);
+  end if;
+
+  update public.requests
+     set status = 'Approved',
+         "approvedBy" = p_username,
+         "actionDate" = now(),
+         "reservedUntil" = p_reserved_until,
+         "serialNumbers" = to_jsonb(v_serials)
+   where id = v_request.id
+  returning * into v_request;
+
+  return json_build_object('product', row_to_json(v_product), 'request', row_to_json(v_request));
+end;
+$$;
+
+-- Releases the reservation and issues the stock: assembled kits first with the rest built from
+-- components, unexpired lots first-expiry-first-out, and the reserved serialized units.
+create or replace function public.collect_request(p_request_id text, p_username text, p_collection_date timestamptz default now())
+returns json
+language plpgsql
+as $$
+declare
+  v_request public.requests%rowtype;
+  v_product public.products%rowtype;
+  v_allocations jsonb := '[]'::jsonb;
+  v_from_stock integer;
+begin
+  select * into v_request from public.requests where id::text = p_request_id for update;
+  if not found then
+    raise exception 'REQUEST_NOT_FOUND';
+  end if;
+  if v_request.status <> 'Approved' then
+    raise exception 'INVALID_STATUS';
+  end if;
+
+  select * into v_product from public.products where id::text = v_request."productId"::text for update;
+
+  if v_request."reservedUntil" is not null then
+    delete from public.stock_reservations where "requestId" = v_request.id::text;
+
+    if v_product."isKit" then
+      v_from_stock := least(greatest(public.available_stock(v_request."productId"::text, v_request."warehouseId"), 0), v_request.quantity);
+      if v_from_stock < v_request.quantity then
+        perform public.consume_kit_components(
+          v_product, v_request."warehouseId", v_request.quantity - v_from_stock, 'Issue', 'request', v_request.id::text, p_username,
+          'To: ' || v_request."requestingDivision" || ' (kit: ' || v_product.name || ')'
+        );
+      end if;
+    else
+      v_from_stock := v_request.quantity;
+      if public.available_stock(v_request."productId"::text, v_request."warehouseId") >= v_request.quantity
+         and public.unexpired_stock(v_request."productId"::text, v_request."warehouseId") - public.reserved_stock(v_request."productId"::text, v_request."warehouseId") < v_request.quantity then
+        raise exception 'EXPIRED_STOCK';
+      end if;
+    end if;
+
+    if v_from_stock > 0 then
+      if public.available_stock(v_request."productId"::text, v_request."warehouseId") < v_from_stock then
+        raise exception 'INSUFFICIENT_STOCK';
+      end if;
+      v_product := public.post_stock_movement(
+        v_request."productId"::text, v_request."warehouseId", -v_from_stock, 'Issue', 'request', v_request.id::text, p_username,
+        'To: ' || v_request."requestingDivision"
+      );
+      v_allocations := public.consume_stock_lots(v_request."productId"::text, v_request."warehouseId", v_from_stock, false);
+    end if;
+
+    if v_request."serialNumbers" is not null then
+      perform set_config('stockerz.ledger_write', 'on', true);
+      update public.serial_numbers
+         set status = 'Issued',
+             "issuedTo" = v_request."requestingDivision",
+             "issuedDate" = p_collection_date
+       where "productId" = v_request."productId"::text and "requestId" = v_request.id::text and status = 'Reserved';
+      perform set_config('stockerz.ledger_write', 'off', true);
+    end if;
+  end if;
+
+  update public.requests
+     set status = 'Collected',
+         "collectedBy" = p_username,
+         "collectionDate" = p_collection_date,
+         "lotAllocations" = case when v_request."reservedUntil" is null then "lotAllocations" else v_allocations end
+   where id = v_request.id
+  returning * into v_request;
+
+  return json_build_object('product', row_to_json(v_product), 'request', row_to_json(v_request));
+end;
+$$;
+
+-- Ends an approved request without issuing it: the reserved stock and units become available again.
+create or replace function public.release_request(p_request public.requests, p_status text, p_username text)
+returns public.requests
+language plpgsql
+as $$
+declare
+  v_request public.requests%rowtype;
+begin
+  if p_request."reservedUntil" is null then
+    raise exception 'STOCK_ALREADY_ISSUED';
+  end if;
+
+  delete from public.stock_reservations where "requestId" = p_request.id::text;
+  perform set_config('stockerz.ledger_write', 'on', true);
+  update public.serial_numbers
+     set status = 'In Stock',
+         "requestId" = null
+   where "requestId" = p_request.id::text and status = 'Reserved';
+  perform set_config('stockerz.ledger_write', 'off', true);
+
+  update public.requests
+     set status = p_status,
+         "releasedBy" = p_username,
+         "releasedDate" = now()
+   where id = p_request.id
+  returning * into v_request;
+  return v_request;
+end;
+$$;
+
+create or replace function public.cancel_request(p_request_id text, p_username text)
+returns json
+language plpgsql
+as $$
+declare
+  v_request public.requests%rowtype;
+begin
+  select * into v_request from public.requests where id::text = p_request_id for update;
+  if not found then
+    raise exception 'REQUEST_NOT_FOUND';
+  end if;
+  if v_request.status <> 'Approved' then
+    raise exception 'INVALID_STATUS';
+  end if;
+
+  v_request := public.release_request(v_request, 'Cancelled', p_username);
+  return json_build_object('request', row_to_json(v_request));
+end;
+$$;
+
+-- Releases every approved request left uncollected past its "reservedUntil" date. Safe to run
+-- from several clients at once, and from a scheduled job (e.g. pg_cron) with p_username 'system'.
+create or replace function public.expire_reservations(p_username text)
+returns json
+language plpgsql
+as $$
+declare
+  v_request public.requests%rowtype;
+  v_expired jsonb := '[]'::jsonb;
+begin
+  for v_request in
+    select * from public.requests
+     where status = 'Approved' and "reservedUntil" < now()
+       for update skip locked
+  loop
+    v_request := public.release_request(v_request, 'Expired', p_username);
+    v_expired := v_expired || jsonb_build_array(row_to_json(v_request)::jsonb);
+  end loop;
+
+  return v_expired::json;
+end;
+$$;
@@ -0,0 +1,442 @@
+-- Inventory valuation.
+--
+-- Every unit added to a warehouse opens a cost layer at its unit cost: purchase order receipts at
+-- the actual cost entered on receipt, kit assemblies at the cost of their components, and other
+-- additions at the warehouse's current average cost. product_stock."stockValue" holds the value
+-- of the stock on hand, and each stock movement records its unit cost and signed value change, so
+-- the value of the inventory on any date is the sum of the value changes up to it.
+--
+-- Issues take units out of the oldest layers first. The company's valuation method decides what
+-- they cost: "FIFO" costs them at those layers, "Moving Average" at the warehouse's average cost.
+-- Taking the last units out of a warehouse always takes its whole remaining value. Collecting a
+-- request records the cost of the goods it issued.
+--
+-- Stock on hand before this migration is valued at each product's price, recorded as a
+-- "Revaluation" movement that leaves the quantity unchanged.
+
+create table if not exists public.company_settings (
+  id text primary key default 'company' check (id = 'company'),
+  "valuationMethod" text not null default 'FIFO' check ("valuationMethod" in ('FIFO', 'Moving Average')),
+  "lastUpdated" timestamptz not null default now(),
+  "lastModifiedBy" text
+);
+
+insert into public.company_settings (id) values ('company') on conflict (id) do nothing;
+
+create table if not exists public.cost_layers (
+  id uuid primary key default gen_random_uuid(),
+  "productId" text not null,
+  "warehouseId" text not null,
+  quantity integer not null check (quantity > 0),
+  "remainingQuantity" integer not null check ("remainingQuantity" >= 0),
+  "unitCost" numeric(14, 4) not null check ("unitCost" >= 0),
+  "receivedDate" timestamptz not null default clock_timestamp(),
+  "referenceType" text,
+  "referenceId" text
+);
+
+create index if not exists cost_layers_fifo_idx on public.cost_layers ("productId", "warehouseId", "receivedDate");
+
+alter table public.product_stock add column if not exists "stockValue" numeric(16, 4) not null default 0;
+alter table public.stock_movements add column if not exists "unitCost" numeric(14, 4);
+alter table public.stock_movements add column if not exists "valueChange" numeric(16, 4);
+alter table public.purchase_orders add column if not exists "unitCost" numeric(14, 4) check ("unitCost" is null or "unitCost" >= 0);
+alter table public.requests add column if not exists "costOfGoods" numeric(16, 4);
+
+alter table public.stock_movements drop constraint if exists stock_movements_type_check;
+alter table public.stock_movements add constraint stock_movements_type_check
+  check (type in ('Opening', 'Receipt', 'Issue', 'Adjustment', 'Return', 'Transfer', 'Assembly', 'Disassembly', 'Revaluation'));
+
+-- Opening valuation of the stock on hand.
+update public.product_stock ps
+   set "stockValue" = ps.quantity * p.price
+  from public.products p
+ where p.id::text = ps."productId" and ps.quantity > 0;
+
+insert into public.cost_layers ("productId", "warehouseId", quantity, "remainingQuantity", "unitCost", "referenceType", "referenceId")
+select ps."productId", ps."warehouseId", ps.quantity, ps.quantity, p.price, 'product', ps."productId"
+  from public.product_stock ps
+  join public.products p on p.id::text = ps."productId"
+ where ps.quantity > 0;
+
+insert into public.stock_movements
+  ("productId", "productName", "warehouseId", type, "quantityChange", "balanceBefore", "balanceAfter", "referenceType", "referenceId", "user", notes, "unitCost", "valueChange")
+select ps."productId", p.name, ps."warehouseId", 'Revaluation', 0, ps.quantity, ps.quantity, 'product', ps."productId", 'system',
+       'Opening valuation at the product price', p.price, ps.quantity * p.price
+  from public.product_stock ps
+  join public.products p on p.id::text = ps."productId"
+ where ps.quantity > 0;
+
+-- Stock values and cost layers follow the same rule as the quantities.
+drop trigger if exists product_stock_guard_quantity on public.product_stock;
+create trigger product_stock_guard_quantity
+  before insert or update of quantity, "stockValue" on public.product_stock
+  for each row execute function public.product_stock_guard_quantity();
+
+drop trigger if exists cost_layers_guard_quantity on public.cost_layers;
+create trigger cost_layers_guard_quantity
+  before insert or update of "remainingQuantity" on public.cost_layers
+  for each row execute function public.product_stock_guard_quantity();
+
+create or replace function public.valuation_method()
+returns text
+language sql
+stable
+as $$
+  select coalesce((select "valuationMethod" from public.company_settings where id = 'company'), 'FIFO');
+$$;
+
+-- What one more unit of the product in the warehouse is worth: the average cost of the stock on
+-- hand, else the cost of the latest layer, else the product's price.
+create or replace function public.current_unit_cost(p_product_id text, p_warehouse_id text)
+returns numeric
+language sql
+stable
+as $$
+  select coalesce(
+    (select round("stockValue" / quantity, 4) from public.product_stock
+      where "productId" = p_product_id and "warehouseId" = p_warehouse_id and quantity > 0),
+    (select "unitCost" from public.cost_layers
+      where "productId" = p_product_id and "warehouseId" = p_warehouse_id
+      order by "receivedDate" desc, id desc limit 1),
+    (select price from public.products where id::text = p_product_id),
+    0
+  );
+$$;
+
+drop function if exists public.post_stock_movement(text, text, integer, text, text, text, text, text, boolean);
+create or replace function public.post_stock_movement(
+  p_product_id text,
+  p_warehouse_id text,
+  p_quantity_change integer,
+  p_type text,
+  p_reference_type text,
+  p_reference_id text,
+  p_username text,
+  p_notes text default null,
+  p_allow_negative boolean default false,
+  p_unit_cost numeric default null
+)
+returns public.products
+language plpgsql
+as $$
+declare
+  v_product public.products%rowtype;
+  v_stock public.product_stock%rowtype;
+  v_warehouse_id text := coalesce(p_warehouse_id, public.default_warehouse_id());
+  v_layer record;
+  v_to_consume integer;
+  v_take integer;
+  v_layer_value numeric := 0;
+  v_unit_cost numeric;
+  v_value_change numeric := 0;
+begin
+  if not exists (select 1 from public.warehouses where id::text = v_warehouse_id) then
+    raise exception 'WAREHOUSE_NOT_FOUND';
+  end if;
+
+  -- Locking the product serialises all movements of the product across warehouses.
+  select * into v_product from public.products where id::text = p_product_id for update;
+  if not found then
+    raise exception 'PRODUCT_NOT_FOUND';
+  end if;
+
+  perform set_config('stockerz.ledger_write', 'on', true);
+
+  insert into public.product_stock ("productId", "warehouseId", quantity)
+  values (v_product.id::text, v_warehouse_id, 0)
+  on conflict ("productId", "warehouseId") do nothing;
+
+  select * into v_stock
+    from public.product_stock
+   where "productId" = v_product.id::text and "warehouseId" = v_warehouse_id
+     for update;
+
+  if v_stock.quantity + p_quantity_change < 0 and not p_allow_negative then
+    raise exception 'INSUFFICIENT_STOCK';
+  end if;
+
+  if p_quantity_change > 0 then
+    v_unit_cost := round(coalesce(p_unit_cost, public.current_unit_cost(v_product.id::text, v_warehouse_id)), 4);
+    v_value_change := p_quantity_change * v_unit_cost;
+    insert into public.cost_layers ("productId", "warehouseId", quantity, "remainingQuantity", "unitCost", "referenceType", "referenceId")
+    values (v_product.id::text, v_warehouse_id, p_quantity_change, p_quantity_change, v_unit_cost, p_reference_type, p_reference_id);
+  elsif p_quantity_change < 0 then
+    v_to_consume := -p_quantity_change;
+    for v_layer in
+      select * from public.cost_layers
+       where "productId" = v_product.id::text and "warehouseId" = v_warehouse_id and "remainingQuantity" > 0
+       order by "receivedDate", id
+         for update
+    loop
+      exit when v_to_consume = 0;
+      v_take := least(v_layer."remainingQuantity", v_to_consume);
+      update public.cost_layers set "remainingQuantity" = "remainingQuantity" - v_take where id = v_layer.id;
+      v_layer_value := v_layer_value + v_take * v_layer."unitCost";
+      v_to_consume := v_to_consume - v_take;
+    end loop;
+
+    if v_stock.quantity + p_quantity_change <= 0 then
+      v_value_change := -v_stock."stockValue";
+    elsif public.valuation_method() = 'FIFO' then
+      v_value_change := -round(v_layer_value + v_to_consume * public.current_unit_cost(v_product.id::text, v_warehouse_id), 4);
+    else
+      v_value_change := -round(-p_quantity_change * v_stock."stockValue" / v_stock.quantity, 4);
+    end if;
+    v_unit_cost := round(v_value_change / p_quantity_change, 4);
+  end if;
+
+  update public.product_stock
+     set quantity = quantity + p_quantity_change,
+         "stockValue" = "stockValue" + v_value_change
+   where id = v_stock.id;
+
+  update public.products
+     set quantity = quantity + p_quantity_change,
+         "lastUpdated" = now(),
+         "lastModifiedBy" = p_username
+   where id = v_product.id
+  returning * into v_product;
+  perform set_config('stockerz.ledger_write', 'off', true);
+
+  insert into public.stock_movements
+    ("productId", "productName", "warehouseId", type, "quantityChange", "balanceBefore", "balanceAfter", "referenceType", "referenceId", "user", notes,
+     "unitCost", "valueChange")
+  values
+    (v_product.id::text, v_product.name, v_warehouse_id, p_type, p_quantity_change, v_stock.quantity, v_stock.quantity + p_quantity_change,
+     p_reference_type, p_reference_id, p_username, p_notes, v_unit_cost, v_value_change);
+
+  return v_product;
+end;
+$$;
+
+create or replace function public.products_opening_balance()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_warehouse_id text := coalesce(new."homeWarehouseId", public.default_warehouse_id());
+begin
+  perform set_config('stockerz.ledger_write', 'on', true);
+  insert into public.product_stock ("productId", "warehouseId", quantity, "stockValue")
+  values (new.id::text, v_warehouse_id, new.quantity, new.quantity * new.price);
+  if new.quantity > 0 then
+    insert into public.cost_layers ("productId", "warehouseId", quantity, "remainingQuantity", "unitCost", "referenceType", "referenceId")
+    values (new.id::text, v_warehouse_id, new.quantity, new.quantity, new.price, 'product', new.id::text);
+  end if;
+  perform set_config('stockerz.ledger_write', 'off', true);
+
+  insert into public.stock_movements
+    ("productId", "productName", "warehouseId", type, "quantityChange", "balanceBefore", "balanceAfter", "referenceType", "referenceId", "user",
+     "unitCost", "valueChange")
+  values
+    (new.id::text, new.name, v_warehouse_id, 'Opening', new.quantity, 0, new.quantity, 'product', new.id::text, coalesce(new."lastModifiedBy", 'system'),
+     new.price, new.quantity * new.price);
+  return new;
+end;
+$$;
+
+drop function if exists public.receive_purchase_order(text, text, text, date, text[]);
+create or replace function public.receive_purchase_order(
+  p_po_id text,
+  p_username text,
+  p_lot_number text default null,
+  p_expiry_date date default null,
+  p_serial_numbers text[] default null,
+  p_unit_cost numeric default null
+)
+returns json
+language plpgsql
+as $$
+declare
+  v_po public.purchase_orders%rowtype;
+  v_product public.products%rowtype;
+  v_lot_number text := nullif(btrim(p_lot_number), '');
+  v_existing_expiry date;
+  v_serials text[] := public.normalize_serial_numbers(p_serial_numbers);
+  v_unit_cost numeric;
+begin
+  select * into v_po from public.purchase_orders where id::text = p_po_id for update;
+  if not found then
+    raise exception 'PURCHASE_ORDER_NOT_FOUND';
+  end if;
+  if v_po.status <> 'Approved' then
+    raise exception 'INVALID_STATUS';
+  end if;
+  if p_expiry_date is not null and v_lot_number is null then
+    raise exception 'LOT_NUMBER_REQUIRED';
+  end if;
+  if p_unit_cost is not null and p_unit_cost < 0 then
+    raise exception 'INVALID_UNIT_COST';
+  end if;
+
+  select * into v_product from public.products where id::text = v_po."productId"::text;
+  if v_product."isSerialized" then
+    if coalesce(array_length(v_serials, 1), 0) <> v_po.quantity
+       or coalesce(array_length(p_serial_numbers, 1), 0) <> v_po.quantity then
+      raise exception 'SERIAL_COUNT_MISMATCH';
+    end if;
+    if exists (select 1 from public.serial_numbers where "productId" = v_po."productId"::text and "serialNumber" = any(v_serials)) then
+      raise exception 'SERIAL_DUPLICATE';
+    end if;
+  else
+    v_serials := null;
+  end if;
+
+  v_unit_cost := round(coalesce(p_unit_cost, v_po."unitCost", public.current_unit_cost(v_po."productId"::text, v_po."warehouseId")), 4);
+  v_product := public.post_stock_movement(
+    v_po."productId"::text, v_po."warehouseId", v_po.quantity, 'Receipt', 'purchase_order', v_po.id::text, p_username,
+    case when v_lot_number is not null then 'Lot: ' || v_lot_number end, false, v_unit_cost
+  );
+
+  if v_lot_number is not null then
+    select "expiryDate" into v_existing_expiry
+      from public.stock_lots
+     where "productId" = v_po."productId"::text and "warehouseId" = v_po."warehouseId" and "lotNumber" = v_lot_number;
+    if v_existing_expiry is not null and p_expiry_date is not null and v_existing_expiry <> p_expiry_date then
+      raise exception 'LOT_EXPIRY_MISMATCH';
+    end if;
+
+    perform set_config('stockerz.ledger_write', 'on', true);
+    insert into public.stock_lots ("productId", "warehouseId", "lotNumber", "expiryDate", quantity, "purchaseOrderId")
+    values (v_po."productId"::text, v_po."warehouseId", v_lot_number, p_expiry_date, v_po.quantity, v_po.id::text)
+    on conflict ("productId", "warehouseId", "lotNumber") do update
+      set quantity = public.stock_lots.quantity + excluded.quantity,
+          "expiryDate" = coalesce(public.stock_lots."expiryDate", excluded."expiryDate");
+    perform set_config('stockerz.ledger_write', 'off', true);
+  end if;
+
+  if v_serials is not null then
+    perform set_config('stockerz.ledger_write', 'on', true);
+    insert into public.serial_numbers ("productId", "serialNumber", "warehouseId", "purchaseOrderId")
+    select v_po."productId"::text, s, v_po."warehouseId", v_po.id::text from unnest(v_serials) s;
+    perform set_config('stockerz.ledger_write', 'off', true);
+  end if;
+
+  update public.purchase_orders
+     set status = 'Received',
+         "receivedBy" = p_username,
+         "receivedDate" = now(),
+         "lotNumber" = v_lot_number,
+         "expiryDate" = p_expiry_date,
+         "serialNumbers" = to_jsonb(v_serials),
+         "unitCost" = v_unit_cost
+   where id = v_po.id
+  returning * into v_po;
+
+  return json_build_object('product', row_to_json(v_product), 'purchaseOrder', row_to_json(v_po));
+end;
+$$;
+
+-- Assembled kits are valued at the cost of the components that went into them.
+create or replace function public.assemble_kit(p_kit_id text, p_warehouse_id text, p_quantity integer, p_username text)
+returns json
+language plpgsql
+as $$
+declare
+  v_kit public.products%rowtype;
+  v_reference_id text := gen_random_uuid()::text;
+  v_components_value numeric;
+begin
+  if p_quantity is null or p_quantity <= 0 then
+    raise exception 'INVALID_QUANTITY';
+  end if;
+  select * into v_kit from public.products where id::text = p_kit_id for update;
+  if not found then
+    raise exception 'PRODUCT_NOT_FOUND';
+  end if;
+
+  perform public.consume_kit_components(
+    v_kit, p_warehouse_id, p_quantity, 'Assembly', 'kit_assembly', v_reference_id, p_username, 'Into: ' || v_kit.name
+  );
+  select -coalesce(sum("valueChange"), 0) into v_components_value
+    from public.stock_movements
+   where "referenceType" = 'kit_assembly' and "referenceId" = v_reference_id;
+  v_kit := public.post_stock_movement(
+    p_kit_id, p_warehouse_id, p_quantity, 'Assembly', 'kit_assembly', v_reference_id, p_username, 'Assembled from components',
+    false, v_components_value / p_quantity
+  );
+
+  return json_build_object('product', row_to_json(v_kit));
+end;
+$$;
+
+create or replace function public.collect_request(p_request_id text, p_username text, p_collection_date timestamptz default now())
+returns json
+language plpgsql
+as $$
+declare
+  v_request public.requests%rowtype;
+  v_product public.products%rowtype;
+  v_allocations jsonb := '[]'::jsonb;
+  v_from_stock integer;
+  v_cost_of_goods numeric;
+begin
+  select * into v_request from public.requests where id::text = p_request_id for update;
+  if not found then
+    raise exception 'REQUEST_NOT_FOUND';
+  end if;
+  if v_request.status <> 'Approved' then
+    raise exception 'INVALID_STATUS';
+  end if;
+
+  select * into v_product from public.products where id::text = v_request."productId"::text for update;
+
+  if v_request."reservedUntil" is not null then
+    delete from public.stock_reservations where "requestId" = v_request.id::text;
+
+    if v_product."isKit" then
+      v_from_stock := least(greatest(public.available_stock(v_request."productId"::text, v_request."warehouseId"), 0), v_request.quantity);
+      if v_from_stock < v_request.quantity then
+        perform public.consume_kit_components(
+          v_product, v_request."warehouseId", v_request.quantity - v_from_stock, 'Issue', 'request', v_request.id::text, p_username,
+          'To: ' || v_request."requestingDivision" || ' (kit: ' || v_product.name || ')'
+        );
+      end if;
+    else
+      v_from_stock := v_request.quantity;
+      if public.available_stock(v_request."productId"::text, v_request."warehouseId") >= v_request.quantity
+         and public.unexpired_stock(v_request."productId"::text, v_request."warehouseId") - public.reserved_stock(v_request."productId"::text, v_request."warehouseId") < v_request.quantity then
+        raise exception 'EXPIRED_STOCK';
+      end if;
+    end if;
+
+    if v_from_stock > 0 then
+      if public.available_stock(v_request."productId"::text, v_request."warehouseId") < v_from_stock then
+        raise exception 'INSUFFICIENT_STOCK';
+      end if;
+      v_product := public.post_stock_movement(
+        v_request."productId"::text, v_request."warehouseId", -v_from_stock, 'Issue', 'request', v_request.id::text, p_username,
+        'To: ' || v_request."requestingDivision"
+      );
+      v_allocations := public.consume_stock_lots(v_request."productId"::text, v_request."warehouseId", v_from_stock, false);
+    end if;
+
+    if v_request."serialNumbers" is not null then
+      perform set_config('stockerz.ledger_write', 'on', true);
+      update public.serial_numbers
+         set status = 'Issued',
+             "issuedTo" = v_request."requestingDivision",
+             "issuedDate" = p_collection_date
+       where "productId" = v_request."productId"::text and "requestId" = v_request.id::text and status = 'Reserved';
+      perform set_config('stockerz.ledger_write', 'off', true);
+    end if;
+  end if;
+
+  -- Requests approved before reservations existed were issued on approval, under the same reference.
+  select -sum("valueChange") into v_cost_of_goods
+    from public.stock_movements
+   where "referenceType" = 'request' and "referenceId" = v_request.id::text;
+
+  update public.requests
+     set status = 'Collected',
+         "collectedBy" = p_username,
+         "collectionDate" = p_collection_date,
+         "lotAllocations" = case when v_request."reservedUntil" is null then "lotAllocations" else v_allocations end,
+         "costOfGoods" = v_cost_of_goods
+   where id = v_request.id
+  returning * into v_request;
+
+  return json_build_object('product', row_to_json(v_product), 'request', row_to_json(v_request));
+end;
+$$;
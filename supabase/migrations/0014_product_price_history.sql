@@ -0,0 +1,58 @@
+-- Product price history.
+--
+-- Every price a product has had is kept in product_prices with the date it took effect and the
+-- user who set it. A row is added when a product is created and whenever its price changes, so
+-- the price in force on any date is the latest row effective on or before it. The history is
+-- append-only.
+--
+-- Existing products start their history with their current price, effective from their first
+-- stock movement, as earlier prices were not recorded.
+
+create table if not exists public.product_prices (
+  id uuid primary key default gen_random_uuid(),
+  "productId" text not null,
+  price numeric(14, 4) not null check (price >= 0),
+  "effectiveDate" timestamptz not null default now(),
+  "changedBy" text not null
+);
+
+create index if not exists product_prices_product_idx on public.product_prices ("productId", "effectiveDate");
+
+insert into public.product_prices ("productId", price, "effectiveDate", "changedBy")
+select p.id::text, p.price,
+       coalesce((select min(m.date) from public.stock_movements m where m."productId" = p.id::text), p."lastUpdated", now()),
+       coalesce(p."lastModifiedBy", 'system')
+  from public.products p
+ where not exists (select 1 from public.product_prices pp where pp."productId" = p.id::text);
+
+create or replace function public.product_prices_append_only()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'PRICE_HISTORY_APPEND_ONLY';
+end;
+$$;
+
+drop trigger if exists product_prices_no_update on public.product_prices;
+create trigger product_prices_no_update
+  before update or delete on public.product_prices
+  for each row execute function public.product_prices_append_only();
+
+create or replace function public.products_record_price()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' or new.price is distinct from old.price then
+    insert into public.product_prices ("productId", price, "changedBy")
+    values (new.id::text, new.price, coalesce(new."lastModifiedBy", 'system'));
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists products_record_price on public.products;
+create trigger products_record_price
+  after insert or update of price on public.products
+  for each row execute function public.products_record_price();
@@ -0,0 +1,23 @@
+-- Custom product fields per category.
+--
+-- Each category can define extra typed fields for its products, e.g. brand, model and warranty
+-- end for IT equipment or pack size for consumables. category_field_schemas holds the field
+-- definitions of a category as an array of { key, label, type, required, options }, where type is
+-- 'text', 'number', 'date' or 'select' and options lists the choices of a select field.
+--
+-- A product keeps its values in products."customFields", an object keyed by field key: numbers as
+-- numbers, dates as YYYY-MM-DD and other values as text. Values are checked against the schema
+-- of the product's category by the product form and the import.
+
+create table if not exists public.category_field_schemas (
+  id uuid primary key default gen_random_uuid(),
+  category text not null unique,
+  fields jsonb not null default '[]'::jsonb check (jsonb_typeof(fields) = 'array'),
+  "lastUpdated" timestamptz not null default now(),
+  "lastModifiedBy" text
+);
+
+alter table public.products add column if not exists "customFields" jsonb not null default '{}'::jsonb;
+
+alter table public.products drop constraint if exists products_custom_fields_object;
+alter table public.products add constraint products_custom_fields_object check (jsonb_typeof("customFields") = 'object');
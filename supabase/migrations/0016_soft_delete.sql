@@ -0,0 +1,15 @@
+-- Recycle bin for products and vendors.
+--
+-- Deleting a product or vendor in the app now archives it: "archivedAt" and "archivedBy" are set
+-- and the record is hidden from lists, while requests, purchase orders and stock movements that
+-- refer to it keep working. Archived records can be restored from the recycle bin. Only a Super
+-- Admin can purge one for good, and only once nothing refers to it any more.
+
+alter table public.products add column if not exists "archivedAt" timestamptz;
+alter table public.products add column if not exists "archivedBy" text;
+
+alter table public.vendors add column if not exists "archivedAt" timestamptz;
+alter table public.vendors add column if not exists "archivedBy" text;
+
+create index if not exists products_archived_at_idx on public.products ("archivedAt") where "archivedAt" is not null;
+create index if not exists vendors_archived_at_idx on public.vendors ("archivedAt") where "archivedAt" is not null;
@@ -0,0 +1,190 @@
+-- Stock transfers between warehouses, and internal ledger functions.
+--
+-- transfer_stock() moves stock from one warehouse to another as a pair of "Transfer" movements
+-- that share one reference: the source gives up the quantity at its cost, and the destination
+-- takes it in at that same cost. Lots keep their lot number and expiry in the destination, and
+-- serialized products move the units chosen by their serial numbers. Only unreserved stock can be
+-- transferred.
+--
+-- The workflow functions the app calls now run as their owner (security definer), so the helpers
+-- that write stock directly no longer need to be executable by client roles. post_stock_movement()
+-- and the lot, kit and reservation helpers can only be reached through a workflow, which keeps
+-- every ledger entry behind the workflow's checks. rebuild_product_quantities() stays callable,
+-- but only by a Manager or Super Admin.
+--
+-- Roles are read from public.users for the signed-in user. Calls made outside the API (the SQL
+-- editor, the service role) are not restricted.
+
+create or replace function public.current_user_role()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from public.users where id::text = auth.uid()::text;
+$$;
+
+create or replace function public.require_role(variadic p_roles text[])
+returns void
+language plpgsql
+stable
+as $$
+begin
+  if coalesce(auth.role(), '') in ('anon', 'authenticated')
+     and coalesce(public.current_user_role(), '') <> all (p_roles) then
+    raise exception 'NOT_AUTHORIZED';
+  end if;
+end;
+$$;
+
+create or replace function public.rebuild_product_quantities()
+returns integer
+language plpgsql
+as $$
+declare
+  v_count integer;
+begin
+  perform public.require_role('Manager', 'Super Admin');
+  perform set_config('stockerz.ledger_write', 'on', true);
+
+  insert into public.product_stock ("productId", "warehouseId", quantity)
+  select m."productId", m."warehouseId", sum(m."quantityChange")::integer
+    from public.stock_movements m
+   group by m."productId", m."warehouseId"
+  on conflict ("productId", "warehouseId") do update set quantity = excluded.quantity;
+
+  update public.product_stock s
+     set quantity = 0
+   where not exists (
+     select 1 from public.stock_movements m
+      where m."productId" = s."productId" and m."warehouseId" = s."warehouseId"
+   );
+
+  update public.products p
+     set quantity = l.balance,
+         "lastUpdated" = now()
+    from (
+      select pr.id, coalesce(sum(m."quantityChange"), 0)::integer as balance
+        from public.products pr
+        left join public.stock_movements m on m."productId" = pr.id::text
+       group by pr.id
+    ) l
+   where p.id = l.id and p.quantity <> l.balance;
+  get diagnostics v_count = row_count;
+
+  perform set_config('stockerz.ledger_write', 'off', true);
+  return v_count;
+end;
+$$;
+
+create or replace function public.transfer_stock(
+  p_product_id text,
+  p_from_warehouse_id text,
+  p_to_warehouse_id text,
+  p_quantity integer,
+  p_username text,
+  p_notes text default null,
+  p_serial_numbers text[] default null
+)
+returns json
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_product public.products%rowtype;
+  v_from public.warehouses%rowtype;
+  v_to public.warehouses%rowtype;
+  v_transfer_id text := gen_random_uuid()::text;
+  v_notes text := nullif(btrim(coalesce(p_notes, '')), '');
+  v_serials text[];
+  v_allocations jsonb;
+  v_allocation jsonb;
+  v_value numeric;
+begin
+  if p_quantity is null or p_quantity <= 0 then
+    raise exception 'INVALID_QUANTITY';
+  end if;
+  if p_from_warehouse_id = p_to_warehouse_id then
+    raise exception 'SAME_WAREHOUSE';
+  end if;
+  select * into v_from from public.warehouses where id::text = p_from_warehouse_id;
+  if not found then
+    raise exception 'WAREHOUSE_NOT_FOUND';
+  end if;
+  select * into v_to from public.warehouses where id::text = p_to_warehouse_id;
+  if not found then
+    raise exception 'WAREHOUSE_NOT_FOUND';
+  end if;
+
+  select * into v_product from public.products where id::text = p_product_id for update;
+  if not found then
+    raise exception 'PRODUCT_NOT_FOUND';
+  end if;
+  if public.available_stock(p_product_id, p_from_warehouse_id) < p_quantity then
+    raise exception 'INSUFFICIENT_STOCK';
+  end if;
+
+  if v_product."isSerialized" then
+    v_serials := public.normalize_serial_numbers(p_serial_numbers);
+    if coalesce(array_length(v_serials, 1), 0) <> p_quantity or coalesce(array_length(p_serial_numbers, 1), 0) <> p_quantity then
+      raise exception 'SERIAL_COUNT_MISMATCH';
+    end if;
+    if (select count(*) from public.serial_numbers
+         where "productId" = p_product_id and "serialNumber" = any (v_serials)
+           and status = 'In Stock' and "warehouseId" = p_from_warehouse_id) <> p_quantity then
+      raise exception 'SERIAL_NOT_AVAILABLE';
+    end if;
+  end if;
+
+  perform public.post_stock_movement(
+    p_product_id, p_from_warehouse_id, -p_quantity, 'Transfer', 'transfer', v_transfer_id, p_username,
+    'To: ' || v_to.name || coalesce(' - ' || v_notes, '')
+  );
+  select -"valueChange" into v_value
+    from public.stock_movements
+   where "referenceType" = 'transfer' and "referenceId" = v_transfer_id and "warehouseId" = p_from_warehouse_id;
+  v_product := public.post_stock_movement(
+    p_product_id, p_to_warehouse_id, p_quantity, 'Transfer', 'transfer', v_transfer_id, p_username,
+    'From: ' || v_from.name || coalesce(' - ' || v_notes, ''), round(v_value / p_quantity, 4)
+  );
+
+  v_allocations := public.consume_stock_lots(p_product_id, p_from_warehouse_id, p_quantity);
+  perform set_config('stockerz.ledger_write', 'on', true);
+  for v_allocation in select * from jsonb_array_elements(v_allocations)
+  loop
+    insert into public.stock_lots ("productId", "warehouseId", "lotNumber", "expiryDate", quantity)
+    values (p_product_id, p_to_warehouse_id, v_allocation->>'lotNumber', (v_allocation->>'expiryDate')::date, (v_allocation->>'quantity')::integer)
+    on conflict ("productId", "warehouseId", "lotNumber") do update
+      set quantity = public.stock_lots.quantity + excluded.quantity,
+          "expiryDate" = coalesce(public.stock_lots."expiryDate", excluded."expiryDate");
+  end loop;
+
+  if v_serials is not null then
+    update public.serial_numbers
+       set "warehouseId" = p_to_warehouse_id
+     where "productId" = p_product_id and "serialNumber" = any (v_serials);
+  end if;
+  perform set_config('stockerz.ledger_write', 'off', true);
+
+  return json_build_object('product', row_to_json(v_product), 'transferId', v_transfer_id);
+end;
+$$;
+
+alter function public.approve_request(text, text, timestamptz, text[]) security definer set search_path = public;
+alter function public.collect_request(text, text, timestamptz) security definer set search_path = public;
+alter function public.cancel_request(text, text) security definer set search_path = public;
+alter function public.expire_reservations(text) security definer set search_path = public;
+alter function public.receive_purchase_order(text, text, text, date, text[], numeric) security definer set search_path = public;
+alter function public.assemble_kit(text, text, integer, text) security definer set search_path = public;
+alter function public.disassemble_kit(text, text, integer, text) security definer set search_path = public;
+alter function public.apply_stock_adjustment(text, text, integer, text, text, text, text) security definer set search_path = public;
+alter function public.start_stocktake(text, text, text, text, numeric, text, text) security definer set search_path = public;
+alter function public.post_stocktake(text, text) security definer set search_path = public;
+
+revoke execute on function public.post_stock_movement(text, text, integer, text, text, text, text, text, boolean, numeric) from public, anon, authenticated;
+revoke execute on function public.consume_stock_lots(text, text, integer, boolean) from public, anon, authenticated;
+revoke execute on function public.trim_stock_lots(text, text) from public, anon, authenticated;
+revoke execute on function public.consume_kit_components(public.products, text, integer, text, text, text, text, text) from public, anon, authenticated;
+revoke execute on function public.release_request(public.requests, text, text) from public, anon, authenticated;
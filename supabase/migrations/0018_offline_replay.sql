@@ -0,0 +1,128 @@
+-- Replaying changes queued offline at most once.
+--
+-- Stock adjustments, purchase order receipts and request collections are sent with a client id.
+-- If the connection fails, the change is queued on the device under the same id and replayed when
+-- the connection returns, even when the first attempt had already committed before its response
+-- was lost; likewise a replay whose response is lost is replayed again. Each of the three workflows now
+-- has an overload that takes that id: the first call applies the change and records its result in
+-- applied_mutations in the same transaction, and any later call with the same id returns the
+-- recorded result without posting anything. Calls without an id go to the existing functions.
+
+create table if not exists public.applied_mutations (
+  id text primary key,
+  kind text not null,
+  result json not null,
+  "appliedAt" timestamptz not null default now()
+);
+
+-- Returns the recorded result of a client mutation, waiting for a concurrent replay of the same
+-- id to finish first.
+create or replace function public.applied_mutation_result(p_client_mutation_id text)
+returns json
+language plpgsql
+as $$
+declare
+  v_result json;
+begin
+  perform pg_advisory_xact_lock(hashtext('applied_mutations:' || p_client_mutation_id));
+  select result into v_result from public.applied_mutations where id = p_client_mutation_id;
+  return v_result;
+end;
+$$;
+
+create or replace function public.apply_stock_adjustment(
+  p_client_mutation_id text,
+  p_product_id text,
+  p_warehouse_id text,
+  p_quantity_change integer,
+  p_reason text,
+  p_notes text,
+  p_username text,
+  p_lot_id text default null
+)
+returns json
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_result json := public.applied_mutation_result(p_client_mutation_id);
+begin
+  if v_result is not null then
+    return v_result;
+  end if;
+  v_result := public.apply_stock_adjustment(
+    p_product_id => p_product_id,
+    p_warehouse_id => p_warehouse_id,
+    p_quantity_change => p_quantity_change,
+    p_reason => p_reason,
+    p_notes => p_notes,
+    p_username => p_username,
+    p_lot_id => p_lot_id
+  );
+  insert into public.applied_mutations (id, kind, result) values (p_client_mutation_id, 'stock_adjustment', v_result);
+  return v_result;
+end;
+$$;
+
+create or replace function public.receive_purchase_order(
+  p_client_mutation_id text,
+  p_po_id text,
+  p_username text,
+  p_lot_number text default null,
+  p_expiry_date date default null,
+  p_serial_numbers text[] default null,
+  p_unit_cost numeric default null
+)
+returns json
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_result json := public.applied_mutation_result(p_client_mutation_id);
+begin
+  if v_result is not null then
+    return v_result;
+  end if;
+  v_result := public.receive_purchase_order(
+    p_po_id => p_po_id,
+    p_username => p_username,
+    p_lot_number => p_lot_number,
+    p_expiry_date => p_expiry_date,
+    p_serial_numbers => p_serial_numbers,
+    p_unit_cost => p_unit_cost
+  );
+  insert into public.applied_mutations (id, kind, result) values (p_client_mutation_id, 'receive_purchase_order', v_result);
+  return v_result;
+end;
+$$;
+
+create or replace function public.collect_request(
+  p_client_mutation_id text,
+  p_request_id text,
+  p_username text,
+  p_collection_date timestamptz default now()
+)
+returns json
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_result json := public.applied_mutation_result(p_client_mutation_id);
+begin
+  if v_result is not null then
+    return v_result;
+  end if;
+  v_result := public.collect_request(
+    p_request_id => p_request_id,
+    p_username => p_username,
+    p_collection_date => p_collection_date
+  );
+  insert into public.applied_mutations (id, kind, result) values (p_client_mutation_id, 'collect_request', v_result);
+  return v_result;
+end;
+$$;
+
+revoke execute on function public.applied_mutation_result(text) from public, anon, authenticated;
@@ -0,0 +1,109 @@
+-- Purging products and vendors from the recycle bin.
+--
+-- purge_product() and purge_vendor() delete an archived record for good. They check in the
+-- database what the app checks before it offers the action: the caller is a Super Admin, the
+-- record is in the recycle bin, and nothing refers to it any more. A product's own opening entries
+-- (the "Opening" movement and the opening valuation, which reference the product itself) do not
+-- count as references, but a product with stock left cannot be purged. Those opening entries and
+-- the product's price history are append-only and stay in the ledger under the product's id and
+-- name; the product's warehouse stock rows, cost layers and lots are deleted with it.
+--
+-- Archived products and vendors can no longer be deleted through the API except by these
+-- functions or by a Super Admin clearing all data.
+
+create or replace function public.purge_product(p_product_id text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_product public.products%rowtype;
+begin
+  perform public.require_role('Super Admin');
+  select * into v_product from public.products where id::text = p_product_id for update;
+  if not found then
+    raise exception 'PRODUCT_NOT_FOUND';
+  end if;
+  if v_product."archivedAt" is null then
+    raise exception 'NOT_ARCHIVED';
+  end if;
+  if v_product.quantity <> 0 then
+    raise exception 'PRODUCT_HAS_STOCK';
+  end if;
+  if exists (select 1 from public.requests where "productId" = p_product_id)
+     or exists (select 1 from public.purchase_orders where "productId" = p_product_id)
+     or exists (select 1 from public.stock_adjustments where "productId" = p_product_id)
+     or exists (select 1 from public.stocktake_lines where "productId" = p_product_id)
+     or exists (
+       select 1 from public.stock_movements
+        where "productId" = p_product_id
+          and not ("referenceType" = 'product' and "referenceId" = p_product_id)
+     )
+     or exists (
+       select 1 from public.products
+        where id::text <> p_product_id
+          and "kitComponents" @> jsonb_build_array(jsonb_build_object('productId', p_product_id))
+     ) then
+    raise exception 'RECORD_IN_USE';
+  end if;
+
+  delete from public.stock_lots where "productId" = p_product_id;
+  delete from public.cost_layers where "productId" = p_product_id;
+  delete from public.product_stock where "productId" = p_product_id;
+
+  perform set_config('stockerz.purge', 'on', true);
+  delete from public.products where id = v_product.id;
+  perform set_config('stockerz.purge', 'off', true);
+end;
+$$;
+
+create or replace function public.purge_vendor(p_vendor_id text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_vendor public.vendors%rowtype;
+begin
+  perform public.require_role('Super Admin');
+  select * into v_vendor from public.vendors where id::text = p_vendor_id for update;
+  if not found then
+    raise exception 'VENDOR_NOT_FOUND';
+  end if;
+  if v_vendor."archivedAt" is null then
+    raise exception 'NOT_ARCHIVED';
+  end if;
+  if exists (select 1 from public.products where "supplierId" = p_vendor_id)
+     or exists (select 1 from public.purchase_orders where "vendorId" = p_vendor_id) then
+    raise exception 'RECORD_IN_USE';
+  end if;
+
+  perform set_config('stockerz.purge', 'on', true);
+  delete from public.vendors where id = v_vendor.id;
+  perform set_config('stockerz.purge', 'off', true);
+end;
+$$;
+
+create or replace function public.guard_archived_delete()
+returns trigger
+language plpgsql
+as $$
+begin
+  if old."archivedAt" is not null and coalesce(current_setting('stockerz.purge', true), 'off') <> 'on' then
+    perform public.require_role('Super Admin');
+  end if;
+  return old;
+end;
+$$;
+
+drop trigger if exists products_guard_archived_delete on public.products;
+create trigger products_guard_archived_delete
+  before delete on public.products
+  for each row execute function public.guard_archived_delete();
+
+drop trigger if exists vendors_guard_archived_delete on public.vendors;
+create trigger vendors_guard_archived_delete
+  before delete on public.vendors
+  for each row execute function public.guard_archived_delete();
@@ -0,0 +1,63 @@
+-- Posting a stocktake against the current warehouse quantity.
+--
+-- Stock keeps moving while a stocktake is being counted: requests are collected, orders received
+-- and stock transferred or adjusted. Adjusting by the variance from the quantity recorded when the
+-- stocktake started counts those movements twice (start at 10, issue 3, count 7: a -3 adjustment
+-- would leave 4). post_stocktake() now sets each counted product to its count, adjusting by the
+-- difference between the final count and the warehouse quantity at the moment of posting. The
+-- quantity recorded at the start stays on the line, so the review screen can show how far the
+-- stock moved while it was being counted.
+
+create or replace function public.post_stocktake(p_stocktake_id text, p_username text)
+returns json
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_stocktake public.stocktakes%rowtype;
+  v_line record;
+  v_current integer;
+  v_change integer;
+  v_result json;
+  v_adjustments jsonb := '[]'::jsonb;
+begin
+  select * into v_stocktake from public.stocktakes where id::text = p_stocktake_id for update;
+  if not found then
+    raise exception 'STOCKTAKE_NOT_FOUND';
+  end if;
+  if v_stocktake.status <> 'Review' then
+    raise exception 'INVALID_STATUS';
+  end if;
+
+  for v_line in
+    select l.id, l."productId",
+           case when l."needsRecount" then l."recountQuantity" else l."countedQuantity" end as counted
+      from public.stocktake_lines l
+     where l."stocktakeId" = p_stocktake_id
+  loop
+    continue when v_line.counted is null;
+    select coalesce((
+      select s.quantity from public.product_stock s
+       where s."productId" = v_line."productId" and s."warehouseId" = v_stocktake."warehouseId"
+    ), 0) into v_current;
+    v_change := v_line.counted - v_current;
+    continue when v_change = 0;
+    v_result := public.apply_stock_adjustment(
+      v_line."productId", v_stocktake."warehouseId", v_change, 'Stocktake',
+      'ST-' || upper(left(v_stocktake.id::text, 8)), p_username
+    );
+    update public.stocktake_lines set "adjustmentId" = v_result->'adjustment'->>'id' where id = v_line.id;
+    v_adjustments := v_adjustments || jsonb_build_array(v_result->'adjustment');
+  end loop;
+
+  update public.stocktakes
+     set status = 'Posted',
+         "closedBy" = p_username,
+         "closedDate" = now()
+   where id = v_stocktake.id
+  returning * into v_stocktake;
+
+  return json_build_object('stocktake', row_to_json(v_stocktake), 'adjustments', v_adjustments);
+end;
+$$;
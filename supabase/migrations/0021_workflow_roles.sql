@@ -0,0 +1,328 @@
+-- Role checks on the workflow functions.
+--
+-- The workflow functions run as their owner, so until now any signed-in user could call them
+-- through the API and record any name as the user who acted. Each workflow now checks the caller's
+-- role, with the same roles the app offers the action to, and records the signed-in user's name
+-- whatever name is passed in:
+--
+--   approve_request, cancel_request, transfer_stock, assemble_kit, disassemble_kit,
+--   start_stocktake, post_stocktake                       Supervisor, Manager, Super Admin
+--   collect_request, receive_purchase_order, apply_stock_adjustment,
+--   expire_reservations                                   Staff, Supervisor, Manager, Super Admin
+--
+-- The existing functions move to the stockerz_internal schema, which the API does not expose, and
+-- the functions of the same name in public check the role and call them. Later changes to a
+-- workflow go to its function in stockerz_internal. Calls made outside the API (the SQL editor,
+-- the service role, pg_cron) are not restricted and keep the name they pass.
+
+create schema if not exists stockerz_internal;
+revoke all on schema stockerz_internal from public, anon, authenticated;
+
+-- The name to record for the user performing a workflow: the signed-in user for calls through the
+-- API, otherwise the name given.
+create or replace function public.acting_username(p_username text)
+returns text
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if coalesce(auth.role(), '') in ('anon', 'authenticated') then
+    return (select username from public.users where id::text = auth.uid()::text);
+  end if;
+  return p_username;
+end;
+$$;
+
+alter function public.approve_request(text, text, timestamptz, text[]) set schema stockerz_internal;
+alter function public.collect_request(text, text, timestamptz) set schema stockerz_internal;
+alter function public.cancel_request(text, text) set schema stockerz_internal;
+alter function public.expire_reservations(text) set schema stockerz_internal;
+alter function public.receive_purchase_order(text, text, text, date, text[], numeric) set schema stockerz_internal;
+alter function public.assemble_kit(text, text, integer, text) set schema stockerz_internal;
+alter function public.disassemble_kit(text, text, integer, text) set schema stockerz_internal;
+alter function public.apply_stock_adjustment(text, text, integer, text, text, text, text) set schema stockerz_internal;
+alter function public.transfer_stock(text, text, text, integer, text, text, text[]) set schema stockerz_internal;
+alter function public.start_stocktake(text, text, text, text, numeric, text, text) set schema stockerz_internal;
+alter function public.post_stocktake(text, text) set schema stockerz_internal;
+
+revoke execute on all functions in schema stockerz_internal from public, anon, authenticated;
+
+create or replace function public.approve_request(
+  p_request_id text,
+  p_username text,
+  p_reserved_until timestamptz,
+  p_serial_numbers text[] default null
+)
+returns json
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.require_role('Supervisor', 'Manager', 'Super Admin');
+  return stockerz_internal.approve_request(p_request_id, public.acting_username(p_username), p_reserved_until, p_serial_numbers);
+end;
+$$;
+
+create or replace function public.collect_request(p_request_id text, p_username text, p_collection_date timestamptz default now())
+returns json
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.require_role('Staff', 'Supervisor', 'Manager', 'Super Admin');
+  return stockerz_internal.collect_request(p_request_id, public.acting_username(p_username), p_collection_date);
+end;
+$$;
+
+create or replace function public.cancel_request(p_request_id text, p_username text)
+returns json
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.require_role('Supervisor', 'Manager', 'Super Admin');
+  return stockerz_internal.cancel_request(p_request_id, public.acting_username(p_username));
+end;
+$$;
+
+create or replace function public.expire_reservations(p_username text)
+returns json
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.require_role('Staff', 'Supervisor', 'Manager', 'Super Admin');
+  return stockerz_internal.expire_reservations(public.acting_username(p_username));
+end;
+$$;
+
+create or replace function public.receive_purchase_order(
+  p_po_id text,
+  p_username text,
+  p_lot_number text default null,
+  p_expiry_date date default null,
+  p_serial_numbers text[] default null,
+  p_unit_cost numeric default null
+)
+returns json
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.require_role('Staff', 'Supervisor', 'Manager', 'Super Admin');
+  return stockerz_internal.receive_purchase_order(
+    p_po_id, public.acting_username(p_username), p_lot_number, p_expiry_date, p_serial_numbers, p_unit_cost
+  );
+end;
+$$;
+
+create or replace function public.assemble_kit(p_kit_id text, p_warehouse_id text, p_quantity integer, p_username text)
+returns json
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.require_role('Supervisor', 'Manager', 'Super Admin');
+  return stockerz_internal.assemble_kit(p_kit_id, p_warehouse_id, p_quantity, public.acting_username(p_username));
+end;
+$$;
+
+create or replace function public.disassemble_kit(p_kit_id text, p_warehouse_id text, p_quantity integer, p_username text)
+returns json
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.require_role('Supervisor', 'Manager', 'Super Admin');
+  return stockerz_internal.disassemble_kit(p_kit_id, p_warehouse_id, p_quantity, public.acting_username(p_username));
+end;
+$$;
+
+create or replace function public.apply_stock_adjustment(
+  p_product_id text,
+  p_warehouse_id text,
+  p_quantity_change integer,
+  p_reason text,
+  p_notes text,
+  p_username text,
+  p_lot_id text default null
+)
+returns json
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.require_role('Staff', 'Supervisor', 'Manager', 'Super Admin');
+  return stockerz_internal.apply_stock_adjustment(
+    p_product_id, p_warehouse_id, p_quantity_change, p_reason, p_notes, public.acting_username(p_username), p_lot_id
+  );
+end;
+$$;
+
+create or replace function public.transfer_stock(
+  p_product_id text,
+  p_from_warehouse_id text,
+  p_to_warehouse_id text,
+  p_quantity integer,
+  p_username text,
+  p_notes text default null,
+  p_serial_numbers text[] default null
+)
+returns json
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.require_role('Supervisor', 'Manager', 'Super Admin');
+  return stockerz_internal.transfer_stock(
+    p_product_id, p_from_warehouse_id, p_to_warehouse_id, p_quantity, public.acting_username(p_username), p_notes, p_serial_numbers
+  );
+end;
+$$;
+
+create or replace function public.start_stocktake(
+  p_warehouse_id text,
+  p_category text,
+  p_zone text,
+  p_bin_location_id text,
+  p_variance_tolerance numeric,
+  p_notes text,
+  p_username text
+)
+returns json
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.require_role('Supervisor', 'Manager', 'Super Admin');
+  return stockerz_internal.start_stocktake(
+    p_warehouse_id, p_category, p_zone, p_bin_location_id, p_variance_tolerance, p_notes, public.acting_username(p_username)
+  );
+end;
+$$;
+
+create or replace function public.post_stocktake(p_stocktake_id text, p_username text)
+returns json
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.require_role('Supervisor', 'Manager', 'Super Admin');
+  return stockerz_internal.post_stocktake(p_stocktake_id, public.acting_username(p_username));
+end;
+$$;
+
+-- The replay overloads from 0018 check the role before returning a recorded result, too.
+create or replace function public.apply_stock_adjustment(
+  p_client_mutation_id text,
+  p_product_id text,
+  p_warehouse_id text,
+  p_quantity_change integer,
+  p_reason text,
+  p_notes text,
+  p_username text,
+  p_lot_id text default null
+)
+returns json
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_result json;
+begin
+  perform public.require_role('Staff', 'Supervisor', 'Manager', 'Super Admin');
+  v_result := public.applied_mutation_result(p_client_mutation_id);
+  if v_result is not null then
+    return v_result;
+  end if;
+  v_result := public.apply_stock_adjustment(
+    p_product_id => p_product_id,
+    p_warehouse_id => p_warehouse_id,
+    p_quantity_change => p_quantity_change,
+    p_reason => p_reason,
+    p_notes => p_notes,
+    p_username => p_username,
+    p_lot_id => p_lot_id
+  );
+  insert into public.applied_mutations (id, kind, result) values (p_client_mutation_id, 'stock_adjustment', v_result);
+  return v_result;
+end;
+$$;
+
+create or replace function public.receive_purchase_order(
+  p_client_mutation_id text,
+  p_po_id text,
+  p_username text,
+  p_lot_number text default null,
+  p_expiry_date date default null,
+  p_serial_numbers text[] default null,
+  p_unit_cost numeric default null
+)
+returns json
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_result json;
+begin
+  perform public.require_role('Staff', 'Supervisor', 'Manager', 'Super Admin');
+  v_result := public.applied_mutation_result(p_client_mutation_id);
+  if v_result is not null then
+    return v_result;
+  end if;
+  v_result := public.receive_purchase_order(
+    p_po_id => p_po_id,
+    p_username => p_username,
+    p_lot_number => p_lot_number,
+    p_expiry_date => p_expiry_date,
+    p_serial_numbers => p_serial_numbers,
+    p_unit_cost => p_unit_cost
+  );
+  insert into public.applied_mutations (id, kind, result) values (p_client_mutation_id, 'receive_purchase_order', v_result);
+  return v_result;
+end;
+$$;
+
+create or replace function public.collect_request(
+  p_client_mutation_id text,
+  p_request_id text,
+  p_username text,
+  p_collection_date timestamptz default now()
+)
+returns json
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_result json;
+begin
+  perform public.require_role('Staff', 'Supervisor', 'Manager', 'Super Admin');
+  v_result := public.applied_mutation_result(p_client_mutation_id);
+  if v_result is not null then
+    return v_result;
+  end if;
+  v_result := public.collect_request(
+    p_request_id => p_request_id,
+    p_username => p_username,
+    p_collection_date => p_collection_date
+  );
+  insert into public.applied_mutations (id, kind, result) values (p_client_mutation_id, 'collect_request', v_result);
+  return v_result;
+end;
+$$;
@@ -0,0 +1,68 @@
+-- Deleting products and vendors only through purge or clearing all data.
+--
+-- 0019 stopped archived products and vendors from being deleted through the API, but active ones
+-- could still be deleted directly, taking them out from under their requests, purchase orders and
+-- ledger entries without going through the recycle bin. Products and vendors can now only be
+-- deleted through the API by purge_product(), purge_vendor() or clear_all_data(), which set the
+-- stockerz.purge flag for their own deletes. Calls made outside the API are not restricted.
+--
+-- clear_all_data() is the Super Admin action behind "Clear All Data" in the Admin panel. It deletes
+-- all products, vendors and bin locations together with their stock, requests, purchase orders,
+-- adjustments and stocktakes, in one transaction. The stock ledger and price history are
+-- append-only and are kept, as are warehouses, category settings, users and the audit log.
+
+create or replace function public.guard_record_delete()
+returns trigger
+language plpgsql
+as $$
+begin
+  if coalesce(current_setting('stockerz.purge', true), 'off') <> 'on'
+     and coalesce(auth.role(), '') in ('anon', 'authenticated') then
+    raise exception 'NOT_AUTHORIZED';
+  end if;
+  return old;
+end;
+$$;
+
+drop trigger if exists products_guard_archived_delete on public.products;
+drop trigger if exists products_guard_record_delete on public.products;
+create trigger products_guard_record_delete
+  before delete on public.products
+  for each row execute function public.guard_record_delete();
+
+drop trigger if exists vendors_guard_archived_delete on public.vendors;
+drop trigger if exists vendors_guard_record_delete on public.vendors;
+create trigger vendors_guard_record_delete
+  before delete on public.vendors
+  for each row execute function public.guard_record_delete();
+
+drop function if exists public.guard_archived_delete();
+
+create or replace function public.clear_all_data()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.require_role('Super Admin');
+
+  -- Dependent records first.
+  delete from public.stock_reservations where id is not null;
+  delete from public.stocktake_lines where id is not null;
+  delete from public.stocktakes where id is not null;
+  delete from public.serial_numbers where id is not null;
+  delete from public.stock_lots where id is not null;
+  delete from public.cost_layers where id is not null;
+  delete from public.product_stock where id is not null;
+  delete from public.requests where id is not null;
+  delete from public.purchase_orders where id is not null;
+  delete from public.stock_adjustments where id is not null;
+
+  perform set_config('stockerz.purge', 'on', true);
+  delete from public.products where id is not null;
+  delete from public.bin_locations where id is not null;
+  delete from public.vendors where id is not null;
+  perform set_config('stockerz.purge', 'off', true);
+end;
+$$;
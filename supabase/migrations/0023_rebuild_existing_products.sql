@@ -0,0 +1,48 @@
+-- Rebuilding warehouse stock only for products that still exist.
+--
+-- Clearing all data deletes every product but keeps the stock ledger, which is append-only. The
+-- movements of those products stayed in the ledger, so rebuild_product_quantities() put warehouse
+-- stock rows for them back. It now only rebuilds stock for products that exist, in the recycle bin
+-- or not; verify_stock_ledger() already only reports those, and the valuation report leaves the
+-- other movements out as well.
+
+create or replace function public.rebuild_product_quantities()
+returns integer
+language plpgsql
+as $$
+declare
+  v_count integer;
+begin
+  perform public.require_role('Manager', 'Super Admin');
+  perform set_config('stockerz.ledger_write', 'on', true);
+
+  insert into public.product_stock ("productId", "warehouseId", quantity)
+  select m."productId", m."warehouseId", sum(m."quantityChange")::integer
+    from public.stock_movements m
+   where exists (select 1 from public.products p where p.id::text = m."productId")
+   group by m."productId", m."warehouseId"
+  on conflict ("productId", "warehouseId") do update set quantity = excluded.quantity;
+
+  update public.product_stock s
+     set quantity = 0
+   where not exists (
+     select 1 from public.stock_movements m
+      where m."productId" = s."productId" and m."warehouseId" = s."warehouseId"
+   );
+
+  update public.products p
+     set quantity = l.balance,
+         "lastUpdated" = now()
+    from (
+      select pr.id, coalesce(sum(m."quantityChange"), 0)::integer as balance
+        from public.products pr
+        left join public.stock_movements m on m."productId" = pr.id::text
+       group by pr.id
+    ) l
+   where p.id = l.id and p.quantity <> l.balance;
+  get diagnostics v_count = row_count;
+
+  perform set_config('stockerz.ledger_write', 'off', true);
+  return v_count;
+end;
+$$;
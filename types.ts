@@ -1,18 +1,157 @@
 
 
-export interface Product {
+// Levels left empty (null) on a product fall back to its category's defaults (see utils/stockLevels.ts).
+export interface StockLevels {
+  reorderPoint?: number | null;
+  reorderQuantity?: number | null;
+  minStock?: number | null; // Safety stock
+  maxStock?: number | null;
+}
+
+// An alternate unit of a product, e.g. a box of 5 reams is { unit: 'Box', factor: 5 }.
+export interface UnitConversion {
+  unit: string;
+  factor: number; // Base units in one of this unit
+}
+
+// One line of a kit's bill of materials: how many base units of the component go into one kit.
+export interface KitComponent {
+  productId: string;
+  quantity: number;
+}
+
+export interface Product extends StockLevels {
   id: string;
   name: string;
   sku: string;
   category: string;
   quantity: number;
   price: number;
-  location: string;
+  location: string; // Code of the bin at locationId
+  locationId?: string;
   supplierId: string; // Diubah dari 'supplier'
   lastUpdated: string; // string tanggal ISO 8601
   lastModifiedBy?: string;
   imageUrl?: string; // Data URL (base64)
   expiryDate?: string; // ISO date string
+  homeWarehouseId?: string; // Warehouse that receives the opening balance of a new product
+  isSerialized?: boolean; // Received and issued unit by unit, by serial number
+  baseUnit?: string; // Unit all stock quantities of the product are kept in (see utils/units.ts)
+  unitConversions?: UnitConversion[];
+  isKit?: boolean; // Assembled from other products, see kitComponents and utils/kits.ts
+  kitComponents?: KitComponent[];
+  customFields?: CustomFieldValues; // Values of the category's custom fields (see utils/customFields.ts)
+  archivedAt?: string | null; // ISO; set while the product is in the recycle bin (see utils/recycleBin.ts)
+  archivedBy?: string | null;
+}
+
+export type CustomFieldType = 'text' | 'number' | 'date' | 'select';
+
+// An extra field the products of a category carry.
+export interface CustomFieldDefinition {
+  key: string; // Values are stored under this key; it does not change when the field is renamed
+  label: string;
+  type: CustomFieldType;
+  required: boolean;
+  options?: string[]; // Choices of a select field
+}
+
+// Numbers are stored as numbers, dates as YYYY-MM-DD and other values as text.
+export type CustomFieldValues = Record<string, string | number>;
+
+export interface CategoryFieldSchema {
+  id: string;
+  category: string;
+  fields: CustomFieldDefinition[];
+  lastUpdated: string; // ISO date string
+  lastModifiedBy?: string;
+}
+
+// A price a product has had. The price in force on a date is the latest one effective on or before it.
+export interface ProductPrice {
+  id: string;
+  productId: string;
+  price: number;
+  effectiveDate: string; // ISO
+  changedBy: string;
+}
+
+// Document quantities are always in the product's base unit. These record the unit the quantity was entered in.
+export interface DocumentUnits {
+  unit?: string;
+  unitQuantity?: number; // Quantity in that unit
+  baseUnit?: string; // Base unit of the product when the document was created
+}
+
+// A quantity as entered on a form, in one of the product's units.
+export interface QuantityEntry {
+  unit: string;
+  unitQuantity: number;
+}
+
+export interface CategoryStockLevels extends StockLevels {
+  id: string;
+  category: string;
+  lastUpdated: string; // ISO date string
+  lastModifiedBy?: string;
+}
+
+export type StockStatus = 'out' | 'belowMin' | 'reorder' | 'ok' | 'overMax';
+
+export interface Warehouse {
+  id: string;
+  code: string;
+  name: string;
+  address?: string;
+  isDefault: boolean;
+  lastUpdated: string; // ISO date string
+  lastModifiedBy?: string;
+}
+
+// One addressable spot in a warehouse: zone > aisle > rack > shelf.
+export interface BinLocation {
+  id: string;
+  warehouseId: string;
+  zone: string;
+  aisle?: string;
+  rack?: string;
+  shelf?: string;
+  code: string; // Unique within the warehouse, printed on the shelf label
+  capacity?: number; // Maximum units the bin can hold
+  lastUpdated: string; // ISO date string
+  lastModifiedBy?: string;
+}
+
+// Quantity of a product held in one warehouse. Product.quantity is the total across warehouses.
+export interface ProductStock {
+  id: string;
+  productId: string;
+  warehouseId: string;
+  quantity: number;
+  stockValue: number; // Cost of the quantity on hand under the company's valuation method
+}
+
+// Units added to a warehouse at one unit cost. Issues consume the oldest layers first.
+export interface CostLayer {
+  id: string;
+  productId: string;
+  warehouseId: string;
+  quantity: number;
+  remainingQuantity: number;
+  unitCost: number;
+  receivedDate: string; // ISO
+  referenceType?: StockMovementReferenceType;
+  referenceId?: string;
+}
+
+export type ValuationMethod = 'FIFO' | 'Moving Average';
+
+// Company-wide settings. There is a single row with id 'company'.
+export interface CompanySettings {
+  id: string;
+  valuationMethod: ValuationMethod;
+  lastUpdated: string; // ISO
+  lastModifiedBy?: string;
 }
 
 export interface Vendor {
@@ -24,12 +163,14 @@ export interface Vendor {
   phone: string;
   lastUpdated: string; // ISO date string
   lastModifiedBy?: string;
+  archivedAt?: string | null; // ISO; set while the vendor is in the recycle bin
+  archivedBy?: string | null;
 }
 
-export type RequestStatus = 'Pending Approval' | 'Approved' | 'Rejected' | 'Collected';
+export type RequestStatus = 'Pending Approval' | 'Approved' | 'Rejected' | 'Collected' | 'Cancelled' | 'Expired';
 export type RequestPriority = 'Low' | 'Medium' | 'High';
 
-export interface Request {
+export interface Request extends DocumentUnits {
   id: string;
   requestingDivision: string;
   productId: string;
@@ -43,11 +184,29 @@ export interface Request {
   actionDate?: string; // ISO string of the approval/rejection date
   collectedBy?: string; // Username of the staff who marked as collected
   collectionDate?: string; // ISO string of the collection date
+  warehouseId: string; // Warehouse the items are issued from
+  lotAllocations?: LotAllocation[]; // Lots consumed first-expiry-first-out when the request was collected
+  serialNumbers?: string[]; // Units reserved on approval and issued on collection, for serialized products
+  reservedUntil?: string; // ISO; the reservation is released if the request is not collected by then
+  releasedBy?: string; // Username of the user who cancelled the approved request, or 'system' when it expired
+  releasedDate?: string; // ISO
+  costOfGoods?: number; // Cost of the stock issued on collection
+}
+
+// Stock held in a warehouse for an approved request until it is collected, cancelled or expires.
+// Available quantity = on-hand quantity - reserved quantity.
+export interface StockReservation {
+  id: string;
+  requestId: string;
+  productId: string;
+  warehouseId: string;
+  quantity: number;
+  createdDate: string; // ISO
 }
 
 export type PurchaseOrderStatus = 'Pending Approval' | 'Approved' | 'Rejected' | 'Received';
 
-export interface PurchaseOrder {
+export interface PurchaseOrder extends DocumentUnits {
   id: string;
   vendorId: string;
   productId: string;
@@ -61,6 +220,52 @@ export interface PurchaseOrder {
   actionDate?: string; // ISO
   receivedBy?: string; // username of receiver
   receivedDate?: string; // ISO
+  warehouseId: string; // Warehouse the goods are received into
+  lotNumber?: string; // Lot the goods were received into
+  expiryDate?: string; // Expiry of that lot (YYYY-MM-DD)
+  serialNumbers?: string[]; // Units received, for serialized products
+  unitCost?: number; // Actual cost per base unit, entered on receipt
+}
+
+// One received batch of a product in a warehouse. Warehouse stock not held in any lot is untracked.
+export interface StockLot {
+  id: string;
+  productId: string;
+  warehouseId: string;
+  lotNumber: string;
+  expiryDate?: string; // YYYY-MM-DD
+  quantity: number;
+  receivedDate: string; // ISO
+  purchaseOrderId?: string;
+}
+
+export type SerialStatus = 'In Stock' | 'Reserved' | 'Issued';
+
+// One unit of a serialized product and where it is now.
+export interface SerialNumber {
+  id: string;
+  productId: string;
+  serialNumber: string;
+  status: SerialStatus;
+  warehouseId: string; // Warehouse the unit was received into, or issued from
+  purchaseOrderId?: string;
+  requestId?: string; // Request the unit was issued on
+  issuedTo?: string; // Division the unit was issued to
+  receivedDate: string; // ISO
+  issuedDate?: string; // ISO
+}
+
+export interface LotAllocation {
+  lotId: string;
+  lotNumber: string;
+  expiryDate?: string; // YYYY-MM-DD
+  quantity: number;
+}
+
+// Lot details captured when a purchase order is received.
+export interface LotReceipt {
+  lotNumber: string;
+  expiryDate?: string; // YYYY-MM-DD
 }
 
 export interface StockAdjustment {
@@ -68,10 +273,64 @@ export interface StockAdjustment {
   productId: string;
   productName: string;
   quantityChange: number; // Can be positive or negative
-  reason: 'Stocktake' | 'Damaged Goods' | 'Return' | 'Found' | 'Other';
+  reason: 'Stocktake' | 'Damaged Goods' | 'Return' | 'Found' | 'Expired' | 'Other';
   date: string; // ISO date string
   adjustedBy: string; // username
   notes?: string;
+  warehouseId: string;
+  lotId?: string; // Lot the adjustment applies to, e.g. when writing off an expired lot
+  lotNumber?: string;
+}
+
+// Moves stock of one product between two warehouses. Serialized products name the units moved.
+export interface StockTransfer {
+  productId: string;
+  fromWarehouseId: string;
+  toWarehouseId: string;
+  quantity: number;
+  notes?: string;
+  serialNumbers?: string[];
+}
+
+export type StocktakeStatus = 'Counting' | 'Recount' | 'Review' | 'Posted' | 'Cancelled';
+
+// A count of the products of one warehouse, optionally narrowed to a category and a zone or bin.
+export interface Stocktake {
+  id: string;
+  warehouseId: string;
+  category?: string;
+  zone?: string; // Counts the products in bins of this zone
+  binLocationId?: string; // Counts the products in this bin
+  varianceTolerance: number; // Percent of the system quantity a count may differ by before the line is recounted
+  status: StocktakeStatus;
+  notes?: string;
+  createdBy: string; // username
+  createdDate: string; // ISO
+  submittedBy?: string; // Username of the user who sent the counts for review
+  submittedDate?: string; // ISO
+  closedBy?: string; // Username of the user who posted or cancelled the stocktake
+  closedDate?: string; // ISO
+}
+
+// One product on a stocktake. Counters never see the system quantity.
+export interface StocktakeLine {
+  id: string;
+  stocktakeId: string;
+  productId: string;
+  productName: string;
+  sku: string;
+  location: string; // Bin code of the product when the count started
+  baseUnit?: string;
+  systemQuantity: number; // Warehouse quantity when the count started
+  unitPrice: number; // Product price when the count started, to value the variance
+  countedQuantity?: number | null;
+  countedBy?: string;
+  countedDate?: string; // ISO
+  needsRecount?: boolean; // The first count was outside the stocktake's variance tolerance
+  recountQuantity?: number | null;
+  recountedBy?: string;
+  recountedDate?: string; // ISO
+  adjustmentId?: string; // Stocktake adjustment posted for the variance
 }
 
 export interface Notification {
@@ -96,7 +355,7 @@ export interface AuditLog {
 }
 
 
-export type View = 'dashboard' | 'inventory' | 'vendors' | 'requests' | 'purchase-orders' | 'reports' | 'admin' | 'audit-log' | 'adjustments';
+export type View = 'dashboard' | 'inventory' | 'locations' | 'vendors' | 'requests' | 'purchase-orders' | 'replenishment' | 'expiry' | 'serials' | 'reports' | 'admin' | 'audit-log' | 'adjustments' | 'stocktakes' | 'settings' | 'product' | 'recycle-bin';
 
 export type SortDirection = 'asc' | 'desc';
 
@@ -108,34 +367,149 @@ export interface ToastMessage {
   type: 'success' | 'error';
 }
 
+export type StockMovementType = 'Opening' | 'Receipt' | 'Issue' | 'Adjustment' | 'Return' | 'Transfer' | 'Assembly' | 'Disassembly' | 'Revaluation';
+
+export type StockMovementReferenceType = 'product' | 'request' | 'purchase_order' | 'stock_adjustment' | 'transfer' | 'kit_assembly';
+
+// Append-only ledger entry. Product.quantity is a cached sum of these entries.
 export interface StockMovement {
   id: string;
-  date: string;
+  productId: string;
   productName: string;
-  type: 'Incoming' | 'Outgoing';
-  quantity: number;
-  details: string;
+  warehouseId: string;
+  type: StockMovementType;
+  quantityChange: number; // Signed: positive adds stock, negative removes it
+  balanceBefore: number;
+  balanceAfter: number;
+  referenceType?: StockMovementReferenceType;
+  referenceId?: string;
   user: string;
+  date: string; // ISO date string
+  notes?: string;
+  unitCost?: number;
+  valueChange?: number; // Signed change in stock value; the sum up to a date is the inventory value on that date
+}
+
+export interface StockLedgerDiscrepancy {
+  productId: string;
+  productName: string;
+  warehouseId?: string; // Omitted when the product total differs from the ledger total
+  cachedQuantity: number;
+  ledgerQuantity: number;
+}
+
+export type QueuedMutationKind = 'stock_adjustment' | 'receive_purchase_order' | 'collect_request';
+
+interface QueuedMutationBase {
+  id: string;
+  description: string; // Human readable summary shown in the sync panel
+  username: string;
+  queuedAt: string; // ISO date string
+}
+
+// A stock-changing action recorded while offline and replayed when connectivity returns.
+export type QueuedMutation = QueuedMutationBase & (
+  | { kind: 'stock_adjustment'; payload: Omit<StockAdjustment, 'id' | 'adjustedBy' | 'date'> }
+  | { kind: 'receive_purchase_order'; payload: { poId: string; lot?: LotReceipt; serialNumbers?: string[]; unitCost?: number } }
+  | { kind: 'collect_request'; payload: { requestId: string } }
+);
+
+export interface SyncConflict {
+  id: string;
+  mutation: QueuedMutation;
+  reason: string;
+  date: string; // ISO date string
 }
 
 export type FormErrors = Partial<Record<keyof Omit<Product, 'id' | 'lastUpdated' | 'lastModifiedBy'>, string>>;
 
 export type VendorFormErrors = Partial<Record<keyof Omit<Vendor, 'id' | 'lastModifiedBy' | 'lastUpdated'>, string>>;
 
+export type WarehouseFormErrors = Partial<Record<'code' | 'name' | 'address', string>>;
+
+export type StockLevelsFormErrors = Partial<Record<keyof StockLevels | 'category', string>>;
+
+export type BinLocationFormErrors = Partial<Record<'warehouseId' | 'zone' | 'aisle' | 'rack' | 'shelf' | 'capacity', string>>;
+
 export type RequestFormErrors = {
+  warehouseId?: string;
   requestingDivision?: string;
   productId?: string;
   quantity?: string;
+  unit?: string;
   priority?: string;
 };
 
 export type PurchaseOrderFormErrors = {
+  warehouseId?: string;
   vendorId?: string;
   productId?: string;
   quantity?: string;
+  unit?: string;
+};
+
+export type KitAssemblyFormErrors = {
+  warehouseId?: string;
+  quantity?: string;
+};
+
+export type StockTransferFormErrors = {
+  fromWarehouseId?: string;
+  toWarehouseId?: string;
+  quantity?: string;
+  serialNumbers?: string;
+};
+
+export type LabelSymbology = 'CODE128' | 'EAN13' | 'QR';
+export type LabelField = 'name' | 'sku' | 'location' | 'price';
+
+// Layout of one product label. The code always encodes the product's SKU.
+export interface LabelTemplate {
+  id: string;
+  name: string;
+  widthMm: number;
+  heightMm: number;
+  symbology: LabelSymbology;
+  fields: LabelField[];
+  isBuiltIn?: boolean;
+}
+
+export type LabelTemplateFormErrors = {
+  name?: string;
+  widthMm?: string;
+  heightMm?: string;
+  fields?: string;
+};
+
+export type ScanTallyFormErrors = {
+  warehouseId?: string;
+  reason?: string;
+  lines?: string;
+};
+
+export type ScannerSuffix = 'Enter' | 'Tab' | 'none';
+
+// How a keyboard-wedge barcode scanner on this device types what it reads.
+export interface HardwareScannerSettings {
+  enabled: boolean;
+  prefix: string; // Characters the scanner sends before the code
+  suffix: ScannerSuffix; // Key the scanner sends after the code
+  maxKeyIntervalMs: number; // Keys further apart than this are treated as typing
+  minLength: number;
+}
+
+export type HardwareScannerSettingsFormErrors = {
+  maxKeyIntervalMs?: string;
+  minLength?: string;
+};
+
+export type StocktakeFormErrors = {
+  warehouseId?: string;
+  varianceTolerance?: string;
 };
 
 export type StockAdjustmentFormErrors = {
+  warehouseId?: string;
   productId?: string;
   quantityChange?: string;
   reason?: string;
@@ -0,0 +1,145 @@
+import { CategoryFieldSchema, CustomFieldDefinition, CustomFieldType, CustomFieldValues, Product } from '../types';
+import { formatDate, formatNumber } from './helpers';
+
+export const CUSTOM_FIELD_TYPES: { type: CustomFieldType; label: string }[] = [
+  { type: 'text', label: 'Text' },
+  { type: 'number', label: 'Number' },
+  { type: 'date', label: 'Date' },
+  { type: 'select', label: 'Select' },
+];
+
+export const getCategoryFields = (schemas: CategoryFieldSchema[], category: string): CustomFieldDefinition[] =>
+  schemas.find(s => s.category === category.trim())?.fields || [];
+
+// A key is made from the label when a field is added and is kept when the field is renamed, so its values stay attached.
+export const toFieldKey = (label: string, takenKeys: string[]): string => {
+  const base = label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'field';
+  let key = base;
+  for (let n = 2; takenKeys.includes(key); n++) key = `${base}_${n}`;
+  return key;
+};
+
+export const validateFieldDefinitions = (fields: CustomFieldDefinition[]): string | undefined => {
+  const labels = new Set<string>();
+  for (const field of fields) {
+    const label = field.label.trim();
+    if (!label) return 'Every field needs a label.';
+    if (labels.has(label.toLowerCase())) return `More than one field is labelled "${label}".`;
+    labels.add(label.toLowerCase());
+    if (field.type === 'select') {
+      const options = field.options || [];
+      if (options.length === 0) return `Add at least one option to "${label}".`;
+      if (options.some(o => !o.trim())) return `"${label}" has an empty option.`;
+      const duplicate = options.find((o, i) => options.indexOf(o) !== i);
+      if (duplicate) return `"${label}" lists the option "${duplicate}" more than once.`;
+    }
+  }
+  return undefined;
+};
+
+// Form inputs hold values as strings; an empty string means no value.
+export type CustomFieldsFormState = Record<string, string>;
+
+export const toCustomFieldsFormState = (fields: CustomFieldDefinition[], values?: CustomFieldValues): CustomFieldsFormState =>
+  Object.fromEntries(fields.map(field => [field.key, values?.[field.key] !== undefined && values[field.key] !== null ? String(values[field.key]) : '']));
+
+export const validateCustomFieldValue = (field: CustomFieldDefinition, value: string): string | undefined => {
+  const trimmed = value.trim();
+  if (!trimmed) return field.required ? `${field.label} is required.` : undefined;
+  switch (field.type) {
+    case 'number':
+      if (isNaN(Number(trimmed))) return `${field.label} must be a number.`;
+      break;
+    case 'date':
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(trimmed) || isNaN(new Date(trimmed).getTime())) return `${field.label} must be a date written as YYYY-MM-DD.`;
+      break;
+    case 'select':
+      if (!(field.options || []).includes(trimmed)) return `${field.label} must be one of: ${(field.options || []).join(', ')}.`;
+      break;
+  }
+  return undefined;
+};
+
+export const validateCustomFields = (fields: CustomFieldDefinition[], values: CustomFieldsFormState): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  fields.forEach(field => {
+    const error = validateCustomFieldValue(field, values[field.key] || '');
+    if (error) errors[field.key] = error;
+  });
+  return errors;
+};
+
+// Only the category's fields are kept, so values of removed fields, or of the product's previous category, are dropped on save.
+export const fromCustomFieldsFormState = (fields: CustomFieldDefinition[], values: CustomFieldsFormState): CustomFieldValues => {
+  const result: CustomFieldValues = {};
+  fields.forEach(field => {
+    const value = (values[field.key] || '').trim();
+    if (value) result[field.key] = field.type === 'number' ? Number(value) : value;
+  });
+  return result;
+};
+
+export const formatCustomFieldValue = (field: CustomFieldDefinition, value?: string | number): string => {
+  if (value === undefined || value === null || value === '') return '';
+  if (field.type === 'number') return formatNumber(Number(value));
+  if (field.type === 'date') return formatDate(String(value));
+  return String(value);
+};
+
+// The product's custom field values as shown, for the list search.
+export const getCustomFieldSearchText = (product: Product, schemas: CategoryFieldSchema[]): string =>
+  getCategoryFields(schemas, product.category)
+    .map(field => formatCustomFieldValue(field, product.customFields?.[field.key]))
+    .join(' ');
+
+// Text fields match values containing `value`, select fields the chosen option; number and date fields are between min and max.
+export interface CustomFieldFilter {
+  value?: string;
+  min?: string;
+  max?: string;
+}
+
+export type CustomFieldFilters = Record<string, CustomFieldFilter>;
+
+export const isCustomFieldFilterActive = (filter?: CustomFieldFilter): boolean => !!(filter && (filter.value || filter.min || filter.max));
+
+export const matchesCustomFieldFilter = (field: CustomFieldDefinition, value: string | number | undefined, filter: CustomFieldFilter): boolean => {
+  if (!isCustomFieldFilterActive(filter)) return true;
+  if (value === undefined || value === null || value === '') return false;
+  switch (field.type) {
+    case 'text':
+      return String(value).toLowerCase().includes((filter.value || '').toLowerCase());
+    case 'select':
+      return String(value) === filter.value;
+    case 'number':
+      return (!filter.min || Number(value) >= Number(filter.min)) && (!filter.max || Number(value) <= Number(filter.max));
+    case 'date':
+      return (!filter.min || String(value) >= filter.min) && (!filter.max || String(value) <= filter.max);
+  }
+};
+
+export const describeCustomFieldFilter = (field: CustomFieldDefinition, filter: CustomFieldFilter): string => {
+  if (field.type === 'text') return `${field.label} contains "${filter.value}"`;
+  if (field.type === 'select') return `${field.label}: ${filter.value}`;
+  const format = (value: string) => field.type === 'date' ? formatDate(value) : formatNumber(Number(value));
+  if (filter.min && filter.max) return `${field.label}: ${format(filter.min)} to ${format(filter.max)}`;
+  return filter.min ? `${field.label}: from ${format(filter.min)}` : `${field.label}: up to ${format(filter.max!)}`;
+};
+
+// Exports and imports have one column per field label; categories with a field of the same label share the column.
+export const getCustomFieldLabels = (schemas: CategoryFieldSchema[]): string[] => {
+  const labels: string[] = [];
+  schemas.forEach(schema => schema.fields.forEach(field => {
+    if (!labels.some(label => label.toLowerCase() === field.label.toLowerCase())) labels.push(field.label);
+  }));
+  return labels;
+};
+
+export const findFieldByLabel = (fields: CustomFieldDefinition[], label: string): CustomFieldDefinition | undefined =>
+  fields.find(field => field.label.toLowerCase() === label.toLowerCase());
+
+// The product's value for an export column: numbers as numbers and dates as YYYY-MM-DD, so the file imports back unchanged.
+export const getCustomFieldExportValue = (product: Product, schemas: CategoryFieldSchema[], label: string): string | number => {
+  const field = findFieldByLabel(getCategoryFields(schemas, product.category), label);
+  return field ? product.customFields?.[field.key] ?? '' : '';
+};
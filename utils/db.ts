@@ -0,0 +1,137 @@
+import { Product, ProductPrice, CategoryStockLevels, CategoryFieldSchema, Vendor, Warehouse, BinLocation, ProductStock, CostLayer, StockLot, LotReceipt, SerialNumber, Request, StockReservation, PurchaseOrder, StockAdjustment, StockTransfer, StockMovement, StockLedgerDiscrepancy, Stocktake, StocktakeLine, User, AuditLog, CompanySettings } from '../types';
+import { createSupabaseBackend } from './supabaseBackend';
+import { createLocalBackend } from './localBackend';
+import { withOfflineCache } from './offline';
+
+export type TableName =
+  | 'products'
+  | 'product_prices'
+  | 'category_stock_levels'
+  | 'category_field_schemas'
+  | 'vendors'
+  | 'warehouses'
+  | 'bin_locations'
+  | 'product_stock'
+  | 'stock_lots'
+  | 'serial_numbers'
+  | 'requests'
+  | 'stock_reservations'
+  | 'purchase_orders'
+  | 'stock_adjustments'
+  | 'stock_movements'
+  | 'stocktakes'
+  | 'stocktake_lines'
+  | 'users'
+  | 'audit_logs'
+  | 'cost_layers'
+  | 'applied_mutations'
+  | 'company_settings';
+
+export interface Repository<T extends { id: string }> {
+  list: () => Promise<T[]>;
+  get: (id: string) => Promise<T | null>;
+  insert: (item: Omit<T, 'id'> & { id?: string }) => Promise<T>;
+  update: (id: string, changes: Partial<Omit<T, 'id'>>) => Promise<T>;
+  remove: (ids: string[]) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+export interface ChangeEvent<T> {
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  new: T;
+  old: Partial<T>;
+}
+
+// Collection, receipt and adjustment take an optional client mutation id, sent on the first attempt
+// and again when the change is queued offline and replayed: a change whose id was already applied
+// returns its recorded result instead of being posted again.
+// Each workflow is open to the roles the app offers it to, and records the signed-in user as the
+// user who acted; the username passed in is only used for calls made outside the app.
+export interface StockService {
+  // Approval reserves the stock until reservedUntil; collection issues it. Serialized products need
+  // one serial number per unit, on approval and on receipt.
+  approveRequest: (requestId: string, username: string, reservedUntil: string, serialNumbers?: string[]) => Promise<{ product: Product; request: Request }>;
+  collectRequest: (requestId: string, username: string, collectionDate?: string, clientMutationId?: string) => Promise<{ product: Product; request: Request }>;
+  // Cancelling an approved request, or its reservation expiring, releases the stock without issuing it.
+  cancelRequest: (requestId: string, username: string) => Promise<{ request: Request }>;
+  expireReservations: (username: string) => Promise<Request[]>;
+  // Receiving into a lot adds the quantity to that lot, creating it on first receipt. The goods are
+  // valued at the unit cost given, or at the warehouse's current average cost without one.
+  receivePurchaseOrder: (poId: string, username: string, lot?: LotReceipt, serialNumbers?: string[], unitCost?: number, clientMutationId?: string) => Promise<{ product: Product; purchaseOrder: PurchaseOrder }>;
+  // Assembly moves components into kits in one warehouse; disassembly moves them back.
+  assembleKit: (kitId: string, warehouseId: string, quantity: number, username: string) => Promise<{ product: Product }>;
+  disassembleKit: (kitId: string, warehouseId: string, quantity: number, username: string) => Promise<{ product: Product }>;
+  applyStockAdjustment: (
+    adjustment: Omit<StockAdjustment, 'id' | 'date' | 'adjustedBy' | 'productName'>,
+    username: string,
+    clientMutationId?: string
+  ) => Promise<{ product: Product; adjustment: StockAdjustment }>;
+  // Transfers move unreserved stock at its cost, with its lots and serial numbers, as a pair of
+  // Transfer movements sharing one reference.
+  transferStock: (transfer: StockTransfer, username: string) => Promise<{ product: Product; transferId: string }>;
+  // Starting a stocktake records the warehouse quantity of every product in scope; posting it sets
+  // each counted product to its count from its quantity at that moment, all together or not at all.
+  startStocktake: (
+    stocktake: Pick<Stocktake, 'warehouseId' | 'category' | 'zone' | 'binLocationId' | 'varianceTolerance' | 'notes'>,
+    username: string
+  ) => Promise<{ stocktake: Stocktake; lines: StocktakeLine[] }>;
+  postStocktake: (stocktakeId: string, username: string) => Promise<{ stocktake: Stocktake; adjustments: StockAdjustment[] }>;
+  verifyStockLedger: () => Promise<StockLedgerDiscrepancy[]>;
+  // Managers and Super Admins only.
+  rebuildProductQuantities: () => Promise<number>;
+}
+
+// Purging deletes an archived product or vendor for good. Super Admins only, and only once nothing
+// refers to the record; a product's own opening entries stay in the ledger. Products and vendors
+// cannot be deleted through their repositories.
+export interface RecycleBinService {
+  purgeProduct: (productId: string) => Promise<void>;
+  purgeVendor: (vendorId: string) => Promise<void>;
+  // Deletes every product, vendor and bin location with their stock and documents. Super Admins only.
+  clearAllData: () => Promise<void>;
+}
+
+export interface AuthService {
+  getSessionUserId: () => Promise<string | null>;
+  onAuthStateChange: (callback: (userId: string | null) => void) => () => void;
+  signIn: (username: string, password: string) => Promise<void>;
+  signOut: () => Promise<void>;
+  // Creates login credentials without replacing the session of the user performing the action.
+  createCredentials: (username: string, password: string) => Promise<string>;
+  verifyPassword: (username: string, password: string) => Promise<boolean>;
+  updatePassword: (newPassword: string) => Promise<void>;
+  sendPasswordReset: (username: string) => Promise<void>;
+}
+
+export interface DataBackend {
+  kind: 'supabase' | 'local';
+  products: Repository<Product>;
+  productPrices: Repository<ProductPrice>;
+  categoryStockLevels: Repository<CategoryStockLevels>;
+  categoryFieldSchemas: Repository<CategoryFieldSchema>;
+  vendors: Repository<Vendor>;
+  warehouses: Repository<Warehouse>;
+  binLocations: Repository<BinLocation>;
+  productStock: Repository<ProductStock>;
+  costLayers: Repository<CostLayer>;
+  stockLots: Repository<StockLot>;
+  serialNumbers: Repository<SerialNumber>;
+  requests: Repository<Request>;
+  stockReservations: Repository<StockReservation>;
+  purchaseOrders: Repository<PurchaseOrder>;
+  stockAdjustments: Repository<StockAdjustment>;
+  stockMovements: Repository<StockMovement>;
+  stocktakes: Repository<Stocktake>;
+  stocktakeLines: Repository<StocktakeLine>;
+  users: Repository<User>;
+  auditLogs: Repository<AuditLog>;
+  companySettings: Repository<CompanySettings>;
+  stock: StockService;
+  recycleBin: RecycleBinService;
+  auth: AuthService;
+  subscribe: <T extends { id: string }>(table: TableName, onChange: (change: ChangeEvent<T>) => void) => () => void;
+}
+
+// Set DATA_BACKEND=local in .env.local to run without a Supabase project (demos, training, tests).
+// The Supabase backend serves cached reads when the network is unreachable (see utils/offline.ts).
+export const db: DataBackend = process.env.DATA_BACKEND === 'local' ? createLocalBackend() : withOfflineCache(createSupabaseBackend());
@@ -0,0 +1,94 @@
+import { Product, ProductStock, StockLot } from '../types';
+
+// Expiry windows, in days, shown on the expiry page and the dashboard.
+export const EXPIRY_WINDOWS = [30, 60, 90] as const;
+
+export type ExpiryBucket = 'expired' | typeof EXPIRY_WINDOWS[number];
+
+export const EXPIRY_BUCKETS: ExpiryBucket[] = ['expired', ...EXPIRY_WINDOWS];
+
+export const EXPIRY_BUCKET_LABELS: Record<ExpiryBucket, string> = {
+  expired: 'Expired',
+  30: 'Within 30 days',
+  60: 'In 31–60 days',
+  90: 'In 61–90 days',
+};
+
+export const EXPIRY_BUCKET_STYLES: Record<ExpiryBucket, string> = {
+  expired: 'bg-red-100 text-red-800',
+  30: 'bg-amber-100 text-amber-800',
+  60: 'bg-yellow-100 text-yellow-800',
+  90: 'bg-sky-100 text-sky-800',
+};
+
+// Stock with a known expiry in one warehouse: either a lot, or the product's untracked stock.
+export interface ExpiryItem {
+  key: string;
+  productId: string;
+  productName: string;
+  sku: string;
+  warehouseId: string;
+  lotId?: string;
+  lotNumber?: string;
+  expiryDate: string; // YYYY-MM-DD
+  quantity: number;
+  daysLeft: number; // Negative once expired
+}
+
+// Today's date as YYYY-MM-DD in local time, comparable with expiry dates.
+export const toDateKey = (date: Date = new Date()): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Product expiry dates are stored as ISO timestamps, lot expiry dates as plain dates.
+const toExpiryKey = (expiryDate: string): string => expiryDate.slice(0, 10);
+
+export const isExpired = (expiryDate?: string, today: string = toDateKey()): boolean =>
+  !!expiryDate && toExpiryKey(expiryDate) < today;
+
+const daysBetween = (from: string, to: string): number =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+
+export const getExpiryBucket = (daysLeft: number): ExpiryBucket | null => {
+  if (daysLeft < 0) return 'expired';
+  return EXPIRY_WINDOWS.find(days => daysLeft <= days) ?? null;
+};
+
+// Warehouse stock not held in any lot.
+export const getUntrackedQuantity = (productStock: ProductStock[], stockLots: StockLot[], productId: string, warehouseId: string): number => {
+  const stock = productStock.find(s => s.productId === productId && s.warehouseId === warehouseId)?.quantity || 0;
+  const inLots = stockLots.filter(l => l.productId === productId && l.warehouseId === warehouseId).reduce((sum, l) => sum + l.quantity, 0);
+  return Math.max(stock - inLots, 0);
+};
+
+// Mirrors public.unexpired_stock(): stock that may still be issued.
+export const getUnexpiredQuantity = (product: Product, productStock: ProductStock[], stockLots: StockLot[], warehouseId: string, today: string = toDateKey()): number => {
+  const unexpiredLots = stockLots
+    .filter(l => l.productId === product.id && l.warehouseId === warehouseId && !isExpired(l.expiryDate, today))
+    .reduce((sum, l) => sum + l.quantity, 0);
+  return unexpiredLots + (isExpired(product.expiryDate, today) ? 0 : getUntrackedQuantity(productStock, stockLots, product.id, warehouseId));
+};
+
+// Every lot with an expiry date, plus untracked stock of products that have one, soonest first.
+export const getExpiryItems = (products: Product[], productStock: ProductStock[], stockLots: StockLot[], today: string = toDateKey()): ExpiryItem[] => {
+  const productsById = new Map(products.map(p => [p.id, p]));
+  const lotItems = stockLots
+    .filter(l => l.expiryDate && l.quantity > 0 && productsById.has(l.productId))
+    .map(l => {
+      const product = productsById.get(l.productId)!;
+      return {
+        key: `lot:${l.id}`, productId: product.id, productName: product.name, sku: product.sku, warehouseId: l.warehouseId,
+        lotId: l.id, lotNumber: l.lotNumber, expiryDate: l.expiryDate!, quantity: l.quantity, daysLeft: daysBetween(today, l.expiryDate!),
+      };
+    });
+  const untrackedItems = products
+    .filter(p => p.expiryDate)
+    .flatMap(p => productStock
+      .filter(s => s.productId === p.id)
+      .map(s => ({ warehouseId: s.warehouseId, quantity: getUntrackedQuantity(productStock, stockLots, p.id, s.warehouseId) }))
+      .filter(s => s.quantity > 0)
+      .map(s => ({
+        key: `product:${p.id}:${s.warehouseId}`, productId: p.id, productName: p.name, sku: p.sku, warehouseId: s.warehouseId,
+        expiryDate: toExpiryKey(p.expiryDate!), quantity: s.quantity, daysLeft: daysBetween(today, toExpiryKey(p.expiryDate!)),
+      })));
+  return [...lotItems, ...untrackedItems].sort((a, b) => a.daysLeft - b.daysLeft);
+};
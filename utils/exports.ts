@@ -0,0 +1,122 @@
+export type ExportFormat = 'csv' | 'xlsx' | 'pdf';
+
+export const EXPORT_FORMATS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel (.xlsx)',
+  pdf: 'PDF',
+};
+
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => string | number | undefined | null;
+  align?: 'right';
+}
+
+// Who exports a list, and the filters applied to it outside the list itself, such as the selected warehouse.
+export interface ExportContext {
+  exportedBy: string;
+  scope: string[];
+}
+
+export interface ExportOptions<T> {
+  title: string; // Printed at the top of the PDF and used as the sheet name
+  fileName: string; // Without date or extension
+  columns: ExportColumn<T>[];
+  rows: T[]; // Already filtered and sorted as shown on screen, across all pages
+  filters: string[]; // Human-readable filters and sort order, e.g. "Category: Tools"
+  exportedBy: string;
+}
+
+const getFileName = (base: string, extension: string) => `${base}_${new Date().toISOString().split('T')[0]}.${extension}`;
+
+const formatTimestamp = (date: Date) => new Intl.DateTimeFormat('id-ID', { dateStyle: 'medium', timeStyle: 'short' }).format(date);
+
+const toCells = <T>(columns: ExportColumn<T>[], rows: T[]) =>
+  rows.map(row => columns.map(column => column.value(row) ?? ''));
+
+const escapeCsvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+  link.href = url;
+  link.setAttribute('download', fileName);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// CSV holds only the data, so an exported product list can be imported again.
+const exportCsv = <T>({ fileName, columns, rows }: ExportOptions<T>) => {
+  const lines = [columns.map(c => c.header), ...toCells(columns, rows)].map(cells => cells.map(escapeCsvCell).join(','));
+  // The byte order mark makes Excel read the file as UTF-8.
+  downloadBlob(new Blob(['\uFEFF' + lines.join('\n')], { type: 'text/csv;charset=utf-8;' }), getFileName(fileName, 'csv'));
+};
+
+// The workbook has the data on its first sheet and the filters, user and time of the export on a second one.
+const exportXlsx = <T>({ title, fileName, columns, rows, filters, exportedBy }: ExportOptions<T>, exportedAt: Date) => {
+  if (!window.XLSX) throw new Error('The spreadsheet library could not be loaded. Check your connection and try again.');
+  const XLSX = window.XLSX;
+  const workbook = XLSX.utils.book_new();
+  const dataSheet = XLSX.utils.aoa_to_sheet([columns.map(c => c.header), ...toCells(columns, rows)]);
+  dataSheet['!cols'] = columns.map(c => ({ wch: Math.min(50, Math.max(c.header.length, ...rows.slice(0, 200).map(r => String(c.value(r) ?? '').length)) + 2) }));
+  XLSX.utils.book_append_sheet(workbook, dataSheet, title.slice(0, 31).replace(/[\\/?*[\]:]/g, ' '));
+  const infoSheet = XLSX.utils.aoa_to_sheet([
+    ['Report', title],
+    ['Exported by', exportedBy],
+    ['Exported at', formatTimestamp(exportedAt)],
+    ['Rows', rows.length],
+    ['Filters', filters.length > 0 ? filters.join('; ') : 'None'],
+  ]);
+  XLSX.utils.book_append_sheet(workbook, infoSheet, 'Export Info');
+  XLSX.writeFile(workbook, getFileName(fileName, 'xlsx'));
+};
+
+const exportPdf = <T>({ title, fileName, columns, rows, filters, exportedBy }: ExportOptions<T>, exportedAt: Date) => {
+  if (!window.jspdf) throw new Error('The PDF library could not be loaded. Check your connection and try again.');
+  const doc = new window.jspdf.jsPDF({ orientation: columns.length > 6 ? 'landscape' : 'portrait', unit: 'mm', format: 'a4' });
+  if (typeof doc.autoTable !== 'function') throw new Error('The PDF table library could not be loaded. Check your connection and try again.');
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const margin = 12;
+  doc.setFontSize(14);
+  doc.text(title, margin, 16);
+  doc.setFontSize(9);
+  doc.setTextColor(71, 85, 105);
+  doc.text(`Exported by ${exportedBy} on ${formatTimestamp(exportedAt)} · ${rows.length} row${rows.length === 1 ? '' : 's'}`, margin, 22);
+  const filterLines: string[] = doc.splitTextToSize(`Filters: ${filters.length > 0 ? filters.join('; ') : 'None'}`, pageWidth - margin * 2);
+  doc.text(filterLines, margin, 27);
+  doc.setTextColor(0, 0, 0);
+
+  doc.autoTable({
+    startY: 27 + filterLines.length * 4 + 2,
+    margin: { left: margin, right: margin },
+    head: [columns.map(c => c.header)],
+    body: toCells(columns, rows),
+    styles: { fontSize: 8, cellPadding: 1.5 },
+    headStyles: { fillColor: [30, 41, 59] },
+    columnStyles: Object.fromEntries(columns.map((c, i) => [i, c.align === 'right' ? { halign: 'right' } : {}])),
+    didDrawPage: () => {
+      const pageHeight = doc.internal.pageSize.getHeight();
+      doc.setFontSize(8);
+      doc.text(`Page ${doc.internal.getNumberOfPages()}`, pageWidth - margin, pageHeight - 6, { align: 'right' });
+    },
+  });
+  doc.save(getFileName(fileName, 'pdf'));
+};
+
+/** Downloads the rows of a list view in the chosen format. */
+export const exportRows = <T>(format: ExportFormat, options: ExportOptions<T>): void => {
+  const exportedAt = new Date();
+  if (format === 'csv') exportCsv(options);
+  else if (format === 'xlsx') exportXlsx(options, exportedAt);
+  else exportPdf(options, exportedAt);
+};
+
+// Describes a sort order for the export header, e.g. "Sorted by: Name (ascending)".
+export const describeSort = (label: string | undefined, direction: 'asc' | 'desc' | undefined): string[] =>
+  label && direction ? [`Sorted by: ${label} (${direction === 'asc' ? 'ascending' : 'descending'})`] : [];
@@ -0,0 +1,46 @@
+import { HardwareScannerSettings, HardwareScannerSettingsFormErrors } from '../types';
+
+const HARDWARE_SCANNER_SETTINGS_KEY = 'stockerz_hardware_scanner_v1';
+
+export const DEFAULT_HARDWARE_SCANNER_SETTINGS: HardwareScannerSettings = {
+  enabled: true,
+  prefix: '',
+  suffix: 'Enter',
+  maxKeyIntervalMs: 35,
+  minLength: 4,
+};
+
+export const KEY_INTERVAL_LIMITS = { min: 5, max: 200 }; // ms
+export const MIN_LENGTH_LIMITS = { min: 2, max: 50 }; // Timing needs at least two keys to go by
+
+// Settings belong to the device the scanner is plugged into, so they are kept in the browser.
+export const loadHardwareScannerSettings = (): HardwareScannerSettings => {
+  try {
+    const item = window.localStorage.getItem(HARDWARE_SCANNER_SETTINGS_KEY);
+    if (item) return { ...DEFAULT_HARDWARE_SCANNER_SETTINGS, ...JSON.parse(item) };
+  } catch (error) {
+    console.warn("Could not parse hardware scanner settings from localStorage", error);
+  }
+  return DEFAULT_HARDWARE_SCANNER_SETTINGS;
+};
+
+export const saveHardwareScannerSettings = (settings: HardwareScannerSettings): void => {
+  try {
+    window.localStorage.setItem(HARDWARE_SCANNER_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Could not save hardware scanner settings to localStorage", error);
+  }
+};
+
+export const validateHardwareScannerSettings = (settings: HardwareScannerSettings): HardwareScannerSettingsFormErrors => {
+  const errors: HardwareScannerSettingsFormErrors = {};
+  const interval = settings.maxKeyIntervalMs;
+  if (!Number.isInteger(interval) || interval < KEY_INTERVAL_LIMITS.min || interval > KEY_INTERVAL_LIMITS.max) {
+    errors.maxKeyIntervalMs = `Enter a whole number of milliseconds between ${KEY_INTERVAL_LIMITS.min} and ${KEY_INTERVAL_LIMITS.max}.`;
+  }
+  const length = settings.minLength;
+  if (!Number.isInteger(length) || length < MIN_LENGTH_LIMITS.min || length > MIN_LENGTH_LIMITS.max) {
+    errors.minLength = `Enter a whole number between ${MIN_LENGTH_LIMITS.min} and ${MIN_LENGTH_LIMITS.max}.`;
+  }
+  return errors;
+};
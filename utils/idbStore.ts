@@ -0,0 +1,34 @@
+// Minimal key-value wrapper around a single IndexedDB object store.
+
+export interface KeyValueStore {
+  get: <T>(key: string) => Promise<T | undefined>;
+  put: (key: string, value: unknown) => Promise<void>;
+}
+
+export const openKeyValueStore = (dbName: string, storeName: string): Promise<KeyValueStore | null> => new Promise(resolve => {
+  if (typeof indexedDB === 'undefined') {
+    resolve(null);
+    return;
+  }
+  const request = indexedDB.open(dbName, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(storeName);
+  request.onsuccess = () => {
+    const idb = request.result;
+    resolve({
+      get: <T>(key: string) => new Promise<T | undefined>((resolveGet, rejectGet) => {
+        const getRequest = idb.transaction(storeName, 'readonly').objectStore(storeName).get(key);
+        getRequest.onsuccess = () => resolveGet(getRequest.result);
+        getRequest.onerror = () => rejectGet(getRequest.error);
+      }),
+      put: (key: string, value: unknown) => new Promise<void>((resolvePut, rejectPut) => {
+        const putRequest = idb.transaction(storeName, 'readwrite').objectStore(storeName).put(value, key);
+        putRequest.onsuccess = () => resolvePut();
+        putRequest.onerror = () => rejectPut(putRequest.error);
+      }),
+    });
+  };
+  request.onerror = () => {
+    console.warn(`IndexedDB database ${dbName} is unavailable`, request.error);
+    resolve(null);
+  };
+});
@@ -0,0 +1,63 @@
+import { KitComponent, Product, ProductStock } from '../types';
+import { getBaseUnit } from './units';
+import { getWarehouseQuantity } from './warehouses';
+
+export interface KitIssueComponent {
+  productId: string;
+  productName: string;
+  baseUnit: string;
+  quantity: number; // Needed for the kits to assemble
+  available: number; // In stock in the warehouse
+}
+
+// How approving a request for a kit would be issued.
+export interface KitIssuePlan {
+  fromStock: number; // Assembled kits issued as they are
+  toAssemble: number; // Kits built from components on approval
+  components: KitIssueComponent[];
+}
+
+// Kits the components in stock in the warehouse could be assembled into.
+export const getAssemblableKits = (kit: Product, productStock: ProductStock[], warehouseId: string): number => {
+  const components = kit.kitComponents || [];
+  if (!kit.isKit || components.length === 0) return 0;
+  return Math.min(...components.map(c => Math.floor(getWarehouseQuantity(productStock, c.productId, warehouseId) / c.quantity)));
+};
+
+// Assembled kits in the warehouse plus the kits its components could make.
+export const getKitAvailability = (kit: Product, productStock: ProductStock[], warehouseId: string): number =>
+  getWarehouseQuantity(productStock, kit.id, warehouseId) + getAssemblableKits(kit, productStock, warehouseId);
+
+// Mirrors public.approve_request(): assembled kits are issued first and the rest are built from components.
+export const planKitIssue = (kit: Product, products: Product[], productStock: ProductStock[], warehouseId: string, quantity: number): KitIssuePlan => {
+  const fromStock = Math.min(getWarehouseQuantity(productStock, kit.id, warehouseId), quantity);
+  const toAssemble = quantity - fromStock;
+  const components = toAssemble === 0 ? [] : (kit.kitComponents || []).map(c => {
+    const product = products.find(p => p.id === c.productId);
+    return {
+      productId: c.productId,
+      productName: product?.name || 'Unknown product',
+      baseUnit: getBaseUnit(product),
+      quantity: c.quantity * toAssemble,
+      available: getWarehouseQuantity(productStock, c.productId, warehouseId),
+    };
+  });
+  return { fromStock, toAssemble, components };
+};
+
+export const isKitShort = (plan: KitIssuePlan): boolean => plan.components.some(c => c.available < c.quantity);
+
+// Kits are built from ordinary products only, each listed once. Serialized units are issued by serial number, so they cannot be components.
+export const validateKitComponents = (kitId: string | undefined, components: KitComponent[], products: Product[]): string | undefined => {
+  if (components.length === 0) return "Add at least one component.";
+  const seen = new Set<string>();
+  for (const component of components) {
+    const product = products.find(p => p.id === component.productId);
+    if (!product) return "Select a product for every component.";
+    if (product.id === kitId || product.isKit || product.isSerialized) return `"${product.name}" cannot be a component of this kit.`;
+    if (seen.has(product.id)) return `"${product.name}" is listed more than once.`;
+    seen.add(product.id);
+    if (!Number.isInteger(component.quantity) || component.quantity < 1) return `Enter a whole quantity of at least 1 for "${product.name}".`;
+  }
+  return undefined;
+};
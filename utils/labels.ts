@@ -0,0 +1,309 @@
+import { LabelField, LabelSymbology, LabelTemplate, LabelTemplateFormErrors, Product } from '../types';
+import { formatCurrency } from './helpers';
+
+declare global {
+  interface Window {
+    JsBarcode: any;
+    qrcode: any;
+    jspdf: any;
+  }
+}
+
+const LABEL_TEMPLATES_KEY = 'stockerz_label_templates_v1';
+
+export const LABEL_SYMBOLOGIES: Record<LabelSymbology, string> = {
+  CODE128: 'Code 128',
+  EAN13: 'EAN-13',
+  QR: 'QR code',
+};
+
+export const LABEL_FIELDS: Record<LabelField, string> = {
+  name: 'Product name',
+  sku: 'SKU',
+  location: 'Location',
+  price: 'Price',
+};
+
+export const LABEL_SIZE_LIMITS = { min: 15, max: 150 }; // mm
+
+export const BUILT_IN_LABEL_TEMPLATES: LabelTemplate[] = [
+  { id: 'shelf-50x25', name: 'Shelf label 50 × 25 mm', widthMm: 50, heightMm: 25, symbology: 'CODE128', fields: ['name', 'sku', 'location'], isBuiltIn: true },
+  { id: 'price-38x21', name: 'Price tag 38 × 21 mm', widthMm: 38, heightMm: 21, symbology: 'EAN13', fields: ['name', 'price'], isBuiltIn: true },
+  { id: 'qr-50x30', name: 'QR label 50 × 30 mm', widthMm: 50, heightMm: 30, symbology: 'QR', fields: ['name', 'sku', 'location', 'price'], isBuiltIn: true },
+];
+
+// Built-in templates first, then the ones saved on this device.
+export const loadLabelTemplates = (): LabelTemplate[] => {
+  try {
+    const item = window.localStorage.getItem(LABEL_TEMPLATES_KEY);
+    if (item) {
+      const parsed = JSON.parse(item);
+      if (Array.isArray(parsed)) return [...BUILT_IN_LABEL_TEMPLATES, ...parsed];
+    }
+  } catch (error) {
+    console.warn("Could not parse label templates from localStorage", error);
+  }
+  return BUILT_IN_LABEL_TEMPLATES;
+};
+
+export const saveLabelTemplates = (templates: LabelTemplate[]): void => {
+  try {
+    window.localStorage.setItem(LABEL_TEMPLATES_KEY, JSON.stringify(templates.filter(t => !t.isBuiltIn)));
+  } catch (error) {
+    console.error("Could not save label templates to localStorage", error);
+  }
+};
+
+export const validateLabelTemplate = (template: Omit<LabelTemplate, 'id'>): LabelTemplateFormErrors => {
+  const errors: LabelTemplateFormErrors = {};
+  const { min, max } = LABEL_SIZE_LIMITS;
+  if (!template.name.trim()) errors.name = "Template name cannot be empty.";
+  if (!(template.widthMm >= min && template.widthMm <= max)) errors.widthMm = `Width must be between ${min} and ${max} mm.`;
+  if (!(template.heightMm >= min && template.heightMm <= max)) errors.heightMm = `Height must be between ${min} and ${max} mm.`;
+  if (template.fields.length === 0) errors.fields = "Select at least one field to print.";
+  return errors;
+};
+
+// GS1 check digit: the first twelve digits weighted 1 and 3 alternately.
+const ean13CheckDigit = (digits: string): number => {
+  const sum = digits.split('').reduce((total, digit, i) => total + Number(digit) * (i % 2 === 0 ? 1 : 3), 0);
+  return (10 - (sum % 10)) % 10;
+};
+
+// A 12-digit SKU gets its check digit appended; a 13-digit SKU must already end in the right one.
+export const toEan13 = (sku: string): string | null => {
+  if (/^\d{12}$/.test(sku)) return sku + ean13CheckDigit(sku);
+  if (/^\d{13}$/.test(sku) && ean13CheckDigit(sku.slice(0, 12)) === Number(sku[12])) return sku;
+  return null;
+};
+
+// The value a label's code encodes, or null when the SKU cannot be encoded in the symbology.
+export const getLabelCodeValue = (sku: string, symbology: LabelSymbology): string | null => {
+  const value = sku.trim();
+  if (!value) return null;
+  if (symbology === 'EAN13') return toEan13(value);
+  if (symbology === 'CODE128') return /^[\x20-\x7E]+$/.test(value) ? value : null;
+  return value;
+};
+
+export interface PrintableLabel {
+  product: Product;
+  value: string;
+}
+
+// Splits the products into labels that can be printed and products whose SKU the symbology cannot encode.
+export const getPrintableLabels = (products: Product[], symbology: LabelSymbology): { labels: PrintableLabel[]; skipped: Product[] } => {
+  const labels: PrintableLabel[] = [];
+  const skipped: Product[] = [];
+  products.forEach(product => {
+    const value = getLabelCodeValue(product.sku, symbology);
+    if (value) labels.push({ product, value });
+    else skipped.push(product);
+  });
+  return { labels, skipped };
+};
+
+export const getLabelFieldText = (product: Product, field: LabelField): string => {
+  switch (field) {
+    case 'name': return product.name;
+    case 'sku': return product.sku;
+    case 'location': return product.location ? `Loc. ${product.location}` : '';
+    case 'price': return formatCurrency(product.price, 'IDR');
+  }
+};
+
+export const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char] as string));
+
+const assertCodeLibrary = (symbology: LabelSymbology): void => {
+  if (symbology === 'QR' ? !window.qrcode : !window.JsBarcode) {
+    throw new Error('The barcode library could not be loaded. Check your connection and try again.');
+  }
+};
+
+export const renderBarcodeSvg = (value: string, format: 'CODE128' | 'EAN13' = 'CODE128'): string => {
+  const svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+  window.JsBarcode(svg, value, { format, height: 50, displayValue: false, margin: 0 });
+  return svg.outerHTML;
+};
+
+const createQrCode = (value: string) => {
+  const qr = window.qrcode(0, 'M');
+  qr.addData(value);
+  qr.make();
+  return qr;
+};
+
+export const renderQrCodeSvg = (value: string): string => {
+  assertCodeLibrary('QR');
+  return createQrCode(value).createSvgTag({ cellSize: 4, margin: 0, scalable: true });
+};
+
+const renderCodeSvg = (value: string, symbology: LabelSymbology): string =>
+  symbology === 'QR' ? renderQrCodeSvg(value) : renderBarcodeSvg(value, symbology);
+
+// Font size in points that fits three lines of text beside a QR code or around a barcode.
+const getLabelFontSize = (template: LabelTemplate): number => Math.max(5, Math.min(11, Math.round(template.heightMm / 3.5)));
+
+// Linear codes sit between the product name and a line with the other fields; QR codes sit to the left of all fields.
+const splitLabelText = (product: Product, template: LabelTemplate): { title: string; lines: string[] } => {
+  const texts = template.fields
+    .filter(field => template.symbology === 'QR' || field !== 'name')
+    .map(field => getLabelFieldText(product, field))
+    .filter(Boolean);
+  const title = template.symbology !== 'QR' && template.fields.includes('name') ? product.name : '';
+  return { title, lines: template.symbology === 'QR' ? texts : texts.length > 0 ? [texts.join(' · ')] : [] };
+};
+
+export const getLabelStyles = (template: LabelTemplate): string => `
+  .product-label { box-sizing: border-box; width: ${template.widthMm}mm; height: ${template.heightMm}mm; padding: 1.5mm; overflow: hidden;
+    display: flex; flex-direction: column; align-items: center; gap: 0.5mm; border: 1px dashed #94a3b8; background: #fff; color: #000;
+    font-family: sans-serif; font-size: ${getLabelFontSize(template)}pt; line-height: 1.2; text-align: center; break-inside: avoid; }
+  .product-label .code { flex: 1; min-height: 0; width: 100%; }
+  .product-label .code svg { display: block; width: 100%; height: 100%; }
+  .product-label .title { font-weight: bold; }
+  .product-label .title, .product-label .line { width: 100%; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+  .product-label.qr { flex-direction: row; gap: 1.5mm; text-align: left; }
+  .product-label.qr .code { flex: none; width: auto; height: 100%; aspect-ratio: 1; }
+  .product-label.qr .text { flex: 1; min-width: 0; }
+`;
+
+export const renderProductLabelHtml = (label: PrintableLabel, template: LabelTemplate): string => {
+  assertCodeLibrary(template.symbology);
+  const { title, lines } = splitLabelText(label.product, template);
+  const text = lines.map(line => `<div class="line">${escapeHtml(line)}</div>`).join('');
+  const code = `<div class="code">${renderCodeSvg(label.value, template.symbology)}</div>`;
+  return template.symbology === 'QR'
+    ? `<div class="product-label qr">${code}<div class="text">${text}</div></div>`
+    : `<div class="product-label">${title ? `<div class="title">${escapeHtml(title)}</div>` : ''}${code}${text}</div>`;
+};
+
+// Opens a print-ready page in a new window and starts printing it.
+export const openPrintWindow = (title: string, styles: string, body: string): void => {
+  const printWindow = window.open('', '_blank', 'width=800,height=600');
+  if (!printWindow) throw new Error('The label window was blocked. Allow pop-ups for this site and try again.');
+  printWindow.document.write(`<!DOCTYPE html>
+    <html>
+      <head>
+        <title>${escapeHtml(title)}</title>
+        <style>${styles}</style>
+      </head>
+      <body>${body}</body>
+    </html>`);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+};
+
+const getLabelsToOutput = (products: Product[], template: LabelTemplate): PrintableLabel[] => {
+  const { labels } = getPrintableLabels(products, template.symbology);
+  if (labels.length === 0) throw new Error(`None of the selected SKUs can be encoded as ${LABEL_SYMBOLOGIES[template.symbology]}.`);
+  assertCodeLibrary(template.symbology);
+  return labels;
+};
+
+// Products whose SKU the template's symbology cannot encode are left out.
+export const printProductLabels = (products: Product[], template: LabelTemplate): void => {
+  const labels = getLabelsToOutput(products, template);
+  openPrintWindow(
+    'Product Labels',
+    `body { margin: 0; padding: 8mm; }
+     .sheet { display: flex; flex-wrap: wrap; gap: 2mm; }
+     @media print { .product-label { border-color: #e2e8f0; } }
+     ${getLabelStyles(template)}`,
+    `<div class="sheet">${labels.map(label => renderProductLabelHtml(label, template)).join('')}</div>`
+  );
+};
+
+const PT_TO_MM = 0.3528;
+const PDF_PAGE_MARGIN = 8; // mm
+const PDF_LABEL_GAP = 2; // mm
+const PDF_LABEL_PADDING = 1.5; // mm
+
+// QR modules are drawn as filled runs per row, so the code stays sharp at any size.
+const drawPdfQrCode = (doc: any, value: string, x: number, y: number, size: number): void => {
+  const qr = createQrCode(value);
+  const count: number = qr.getModuleCount();
+  const cell = size / count;
+  doc.setFillColor(0, 0, 0);
+  for (let row = 0; row < count; row++) {
+    let runStart = -1;
+    for (let col = 0; col <= count; col++) {
+      const isDark = col < count && qr.isDark(row, col);
+      if (isDark && runStart < 0) runStart = col;
+      if (!isDark && runStart >= 0) {
+        doc.rect(x + runStart * cell, y + row * cell, (col - runStart) * cell, cell, 'F');
+        runStart = -1;
+      }
+    }
+  }
+};
+
+const drawPdfBarcode = (doc: any, value: string, format: 'CODE128' | 'EAN13', x: number, y: number, width: number, height: number): void => {
+  const canvas = document.createElement('canvas');
+  window.JsBarcode(canvas, value, { format, height: 100, displayValue: false, margin: 0 });
+  doc.addImage(canvas.toDataURL('image/png'), 'PNG', x, y, width, height);
+};
+
+const fitPdfText = (doc: any, text: string, width: number): string => doc.splitTextToSize(text, width)[0] || '';
+
+const drawPdfLabel = (doc: any, label: PrintableLabel, template: LabelTemplate, x: number, y: number): void => {
+  const { widthMm: width, heightMm: height, symbology } = template;
+  const padding = PDF_LABEL_PADDING;
+  const fontSize = getLabelFontSize(template);
+  const lineHeight = fontSize * PT_TO_MM * 1.2;
+  const { title, lines } = splitLabelText(label.product, template);
+
+  doc.setDrawColor(226, 232, 240);
+  doc.rect(x, y, width, height);
+  doc.setFontSize(fontSize);
+  doc.setTextColor(0, 0, 0);
+
+  if (symbology === 'QR') {
+    const size = height - 2 * padding;
+    drawPdfQrCode(doc, label.value, x + padding, y + padding, size);
+    const textX = x + 2 * padding + size;
+    const textWidth = width - 3 * padding - size;
+    if (textWidth <= 0) return;
+    lines.forEach((line, i) => {
+      doc.setFont('helvetica', i === 0 && template.fields[0] === 'name' ? 'bold' : 'normal');
+      doc.text(fitPdfText(doc, line, textWidth), textX, y + padding + lineHeight * (i + 0.8));
+    });
+    return;
+  }
+
+  const innerWidth = width - 2 * padding;
+  const centerX = x + width / 2;
+  const codeTop = y + padding + (title ? lineHeight : 0);
+  const codeBottom = y + height - padding - lines.length * lineHeight;
+  if (title) {
+    doc.setFont('helvetica', 'bold');
+    doc.text(fitPdfText(doc, title, innerWidth), centerX, y + padding + lineHeight * 0.8, { align: 'center' });
+  }
+  if (codeBottom > codeTop) drawPdfBarcode(doc, label.value, symbology, x + padding, codeTop, innerWidth, codeBottom - codeTop);
+  doc.setFont('helvetica', 'normal');
+  lines.forEach((line, i) => doc.text(fitPdfText(doc, line, innerWidth), centerX, codeBottom + lineHeight * (i + 0.8), { align: 'center' }));
+};
+
+// Lays the labels out on A4 pages, as many to a page as the template size allows, and downloads the PDF.
+export const downloadProductLabelsPdf = (products: Product[], template: LabelTemplate): void => {
+  const labels = getLabelsToOutput(products, template);
+  if (!window.jspdf) throw new Error('The PDF library could not be loaded. Check your connection and try again.');
+
+  const doc = new window.jspdf.jsPDF({ unit: 'mm', format: 'a4' });
+  const pageWidth: number = doc.internal.pageSize.getWidth();
+  const pageHeight: number = doc.internal.pageSize.getHeight();
+  const columns = Math.max(1, Math.floor((pageWidth - 2 * PDF_PAGE_MARGIN + PDF_LABEL_GAP) / (template.widthMm + PDF_LABEL_GAP)));
+  const rows = Math.max(1, Math.floor((pageHeight - 2 * PDF_PAGE_MARGIN + PDF_LABEL_GAP) / (template.heightMm + PDF_LABEL_GAP)));
+  const perPage = columns * rows;
+
+  labels.forEach((label, index) => {
+    const slot = index % perPage;
+    if (index > 0 && slot === 0) doc.addPage();
+    const x = PDF_PAGE_MARGIN + (slot % columns) * (template.widthMm + PDF_LABEL_GAP);
+    const y = PDF_PAGE_MARGIN + Math.floor(slot / columns) * (template.heightMm + PDF_LABEL_GAP);
+    drawPdfLabel(doc, label, template, x, y);
+  });
+
+  doc.save(`product_labels_${new Date().toISOString().split('T')[0]}.pdf`);
+};
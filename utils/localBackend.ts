@@ -0,0 +1,1040 @@
+import { Product, ProductPrice, CategoryStockLevels, CategoryFieldSchema, Vendor, Warehouse, BinLocation, ProductStock, CostLayer, CompanySettings, StockLot, LotAllocation, SerialNumber, User, UserRole, StockMovement, StockMovementType, StockMovementReferenceType, StockAdjustment, Stocktake, StocktakeLine, Request, StockReservation, PurchaseOrder, QueuedMutationKind } from '../types';
+import type { DataBackend, Repository, TableName, ChangeEvent } from './db';
+import { openKeyValueStore, KeyValueStore } from './idbStore';
+import { allocateLotsFefo } from './lots';
+import { isExpired, getUnexpiredQuantity } from './expiry';
+import { normalizeSerialNumbers } from './serials';
+import { DEFAULT_BASE_UNIT } from './units';
+import { getStocktakeProducts, getStocktakeReference, getFinalCount, isStocktakeOpen } from './stocktakes';
+
+// A self-contained backend that keeps every table in memory and mirrors it to IndexedDB,
+// so the app can run without a Supabase project. Stock workflows reproduce the database
+// functions in supabase/migrations, including their error codes.
+
+const IDB_NAME = 'stockerz_local_v1';
+const IDB_STORE = 'tables';
+const SESSION_KEY = 'stockerz_local_session_v1';
+const DEMO_PASSWORD = 'demo1234';
+
+type Row = { id: string } & Record<string, any>;
+type Tables = Record<TableName, Row[]>;
+
+const TABLES: TableName[] = ['products', 'product_prices', 'category_stock_levels', 'category_field_schemas', 'vendors', 'warehouses', 'bin_locations', 'product_stock', 'stock_lots', 'serial_numbers', 'requests', 'stock_reservations', 'purchase_orders', 'stock_adjustments', 'stock_movements', 'stocktakes', 'stocktake_lines', 'users', 'audit_logs', 'cost_layers', 'applied_mutations', 'company_settings'];
+
+const newId = (): string => crypto.randomUUID();
+const now = (): string => new Date().toISOString();
+const roundCost = (value: number): number => Math.round(value * 10000) / 10000;
+
+// The roles each workflow is open to, as checked by 0021_workflow_roles.sql.
+const SUPERVISOR_ROLES: UserRole[] = ['Supervisor', 'Manager', 'Super Admin'];
+const STAFF_ROLES: UserRole[] = ['Staff', ...SUPERVISOR_ROLES];
+
+const createSeedData = (): { tables: Tables; credentials: Record<string, string> } => {
+  const timestamp = now();
+  const users: User[] = [
+    { id: newId(), username: 'admin@stockerz.local', role: 'Super Admin' },
+    { id: newId(), username: 'manager@stockerz.local', role: 'Manager' },
+    { id: newId(), username: 'supervisor@stockerz.local', role: 'Supervisor' },
+    { id: newId(), username: 'staff@stockerz.local', role: 'Staff' },
+    { id: newId(), username: 'viewer@stockerz.local', role: 'Viewer' },
+  ];
+  const warehouses: Warehouse[] = [
+    { id: newId(), code: 'MAIN', name: 'Main Warehouse', address: 'Jl. Industri Raya No. 1, Jakarta', isDefault: true, lastUpdated: timestamp, lastModifiedBy: 'system' },
+    { id: newId(), code: 'WH2', name: 'Second Warehouse', address: 'Jl. Gudang Timur No. 8, Bekasi', isDefault: false, lastUpdated: timestamp, lastModifiedBy: 'system' },
+  ];
+  const bin = (zone: string, aisle: string, rack: string, capacity: number): BinLocation => ({
+    id: newId(), warehouseId: warehouses[0].id, zone, aisle, rack, code: `${zone}-${aisle}-${rack}`, capacity, lastUpdated: timestamp, lastModifiedBy: 'system',
+  });
+  const binLocations: BinLocation[] = [bin('A', '01', '01', 200), bin('A', '01', '02', 100), bin('B', '02', '01', 50), bin('B', '02', '02', 50)];
+  const vendors: Vendor[] = [
+    { id: newId(), name: 'PT Sinar Office Supply', category: 'Office Supplies', contactPerson: 'Budi Santoso', email: 'sales@sinaroffice.co.id', phone: '021-5550101', lastUpdated: timestamp, lastModifiedBy: 'system' },
+    { id: newId(), name: 'CV Teknologi Nusantara', category: 'IT Equipment', contactPerson: 'Rina Wijaya', email: 'order@teknusa.co.id', phone: '021-5550202', lastUpdated: timestamp, lastModifiedBy: 'system' },
+  ];
+  const products: Product[] = [
+    { id: newId(), name: 'A4 Paper 80gsm (Ream)', sku: 'OFF-A4-80', category: 'Office Supplies', quantity: 120, price: 55000, location: 'A-01-01', locationId: binLocations[0].id, supplierId: vendors[0].id, baseUnit: 'Ream', unitConversions: [{ unit: 'Box', factor: 5 }], lastUpdated: timestamp, lastModifiedBy: 'system' },
+    { id: newId(), name: 'Ballpoint Pen Blue (Box)', sku: 'OFF-PEN-BL', category: 'Office Supplies', quantity: 40, price: 30000, location: 'A-01-02', locationId: binLocations[1].id, supplierId: vendors[0].id, baseUnit: 'Box', unitConversions: [{ unit: 'Carton', factor: 12 }], lastUpdated: timestamp, lastModifiedBy: 'system' },
+    { id: newId(), name: 'Wireless Mouse', sku: 'IT-MSE-01', category: 'IT Equipment', quantity: 15, price: 150000, location: 'B-02-01', locationId: binLocations[2].id, supplierId: vendors[1].id, baseUnit: 'pcs', customFields: { brand: 'Logitech', model: 'M185', warranty_months: 12 }, lastUpdated: timestamp, lastModifiedBy: 'system' },
+    { id: newId(), name: 'USB-C Headset', sku: 'IT-HST-02', category: 'IT Equipment', quantity: 3, price: 450000, location: 'B-02-02', locationId: binLocations[3].id, supplierId: vendors[1].id, baseUnit: 'pcs', customFields: { brand: 'Jabra', model: 'Evolve2 30', warranty_months: 24 }, lastUpdated: timestamp, lastModifiedBy: 'system' },
+    { id: newId(), name: 'Laptop Bag', sku: 'IT-BAG-01', category: 'IT Equipment', quantity: 8, price: 250000, location: 'B-02-01', locationId: binLocations[2].id, supplierId: vendors[1].id, baseUnit: 'pcs', customFields: { brand: 'Targus' }, lastUpdated: timestamp, lastModifiedBy: 'system' },
+  ];
+  products.push({
+    id: newId(), name: 'Onboarding Pack', sku: 'KIT-ONB-01', category: 'IT Equipment', quantity: 0, price: 850000, location: 'B-02-02', locationId: binLocations[3].id, supplierId: vendors[1].id, baseUnit: 'pcs',
+    isKit: true, kitComponents: [products[4], products[2], products[3]].map(p => ({ productId: p.id, quantity: 1 })), lastUpdated: timestamp, lastModifiedBy: 'system',
+  });
+  const categoryStockLevels: CategoryStockLevels[] = [
+    { id: newId(), category: 'Office Supplies', reorderPoint: 20, reorderQuantity: 50, minStock: 10, maxStock: 200, lastUpdated: timestamp, lastModifiedBy: 'system' },
+    { id: newId(), category: 'IT Equipment', reorderPoint: 5, reorderQuantity: 10, minStock: 2, maxStock: 30, lastUpdated: timestamp, lastModifiedBy: 'system' },
+  ];
+  const categoryFieldSchemas: CategoryFieldSchema[] = [
+    {
+      id: newId(), category: 'IT Equipment', lastUpdated: timestamp, lastModifiedBy: 'system', fields: [
+        { key: 'brand', label: 'Brand', type: 'text', required: true },
+        { key: 'model', label: 'Model', type: 'text', required: false },
+        { key: 'warranty_months', label: 'Warranty (months)', type: 'number', required: false },
+      ],
+    },
+    {
+      id: newId(), category: 'Office Supplies', lastUpdated: timestamp, lastModifiedBy: 'system', fields: [
+        { key: 'pack_size', label: 'Pack Size', type: 'select', required: false, options: ['Single', 'Pack of 10', 'Pack of 50'] },
+      ],
+    },
+  ];
+  const productStock: ProductStock[] = products.map(p => ({ id: newId(), productId: p.id, warehouseId: warehouses[0].id, quantity: p.quantity, stockValue: p.quantity * p.price }));
+  const costLayers: CostLayer[] = products.filter(p => p.quantity > 0).map(p => ({
+    id: newId(), productId: p.id, warehouseId: warehouses[0].id, quantity: p.quantity, remainingQuantity: p.quantity, unitCost: p.price,
+    receivedDate: timestamp, referenceType: 'product', referenceId: p.id,
+  }));
+  const movements: StockMovement[] = products.map(p => ({
+    id: newId(), productId: p.id, productName: p.name, warehouseId: warehouses[0].id, type: 'Opening', quantityChange: p.quantity,
+    balanceBefore: 0, balanceAfter: p.quantity, referenceType: 'product', referenceId: p.id, user: 'system', date: timestamp,
+    unitCost: p.price, valueChange: p.quantity * p.price,
+  }));
+  const productPrices: ProductPrice[] = products.map(p => ({ id: newId(), productId: p.id, price: p.price, effectiveDate: timestamp, changedBy: 'system' }));
+  const companySettings: CompanySettings[] = [{ id: 'company', valuationMethod: 'FIFO', lastUpdated: timestamp, lastModifiedBy: 'system' }];
+
+  return {
+    tables: {
+      products, product_prices: productPrices, category_stock_levels: categoryStockLevels, category_field_schemas: categoryFieldSchemas, vendors, warehouses, bin_locations: binLocations, product_stock: productStock, users, stock_movements: movements,
+      stock_lots: [], serial_numbers: [], requests: [], stock_reservations: [], purchase_orders: [], stock_adjustments: [], stocktakes: [], stocktake_lines: [], audit_logs: [],
+      cost_layers: costLayers, applied_mutations: [], company_settings: companySettings,
+    },
+    credentials: Object.fromEntries(users.map(u => [u.username, DEMO_PASSWORD])),
+  };
+};
+
+// Mirrors the SQL migrations for data stored by an earlier version of the local backend.
+const upgradeTables = (tables: Tables) => {
+  // 0003_warehouses: stock held before warehouses existed belongs to the default warehouse.
+  if (tables.warehouses.length === 0) {
+    tables.warehouses = [{ id: newId(), code: 'MAIN', name: 'Main Warehouse', isDefault: true, lastUpdated: now(), lastModifiedBy: 'system' }];
+  }
+  const defaultWarehouseId = (tables.warehouses.find(w => w.isDefault) || tables.warehouses[0]).id;
+  (['stock_movements', 'requests', 'purchase_orders', 'stock_adjustments'] as TableName[]).forEach(table => {
+    tables[table] = tables[table].map(row => row.warehouseId ? row : { ...row, warehouseId: defaultWarehouseId });
+  });
+  tables.products.forEach(product => {
+    if (!tables.product_stock.some(s => s.productId === product.id)) {
+      tables.product_stock.push({ id: newId(), productId: product.id, warehouseId: defaultWarehouseId, quantity: product.quantity });
+    }
+  });
+  // 0004_bin_locations: free-text locations become zone-only bins in the product's home warehouse.
+  tables.products = tables.products.map(product => {
+    const code = (product.location || '').trim().toUpperCase();
+    if (product.locationId || !code) return product;
+    const warehouseId = product.homeWarehouseId || defaultWarehouseId;
+    let bin = tables.bin_locations.find(b => b.warehouseId === warehouseId && b.code === code);
+    if (!bin) {
+      bin = { id: newId(), warehouseId, zone: code, code, lastUpdated: now(), lastModifiedBy: 'system' };
+      tables.bin_locations.push(bin);
+    }
+    return { ...product, locationId: bin.id };
+  });
+  // 0009_units_of_measure: existing products are counted in pieces.
+  tables.products = tables.products.map(product => product.baseUnit ? product : { ...product, baseUnit: DEFAULT_BASE_UNIT, unitConversions: [] });
+  // 0013_inventory_valuation: stock on hand is valued at the product price.
+  if (tables.company_settings.length === 0) {
+    tables.company_settings = [{ id: 'company', valuationMethod: 'FIFO', lastUpdated: now(), lastModifiedBy: 'system' }];
+  }
+  tables.product_stock = tables.product_stock.map(stock => {
+    if (stock.stockValue !== undefined) return stock;
+    const product = tables.products.find(p => p.id === stock.productId);
+    if (!product || stock.quantity <= 0) return { ...stock, stockValue: 0 };
+    tables.cost_layers.push({
+      id: newId(), productId: stock.productId, warehouseId: stock.warehouseId, quantity: stock.quantity, remainingQuantity: stock.quantity,
+      unitCost: product.price, receivedDate: now(), referenceType: 'product', referenceId: stock.productId,
+    });
+    tables.stock_movements.push({
+      id: newId(), productId: stock.productId, productName: product.name, warehouseId: stock.warehouseId, type: 'Revaluation', quantityChange: 0,
+      balanceBefore: stock.quantity, balanceAfter: stock.quantity, referenceType: 'product', referenceId: stock.productId, user: 'system', date: now(),
+      notes: 'Opening valuation at the product price', unitCost: product.price, valueChange: stock.quantity * product.price,
+    });
+    return { ...stock, stockValue: stock.quantity * product.price };
+  });
+  // 0014_product_price_history: the current price is in force from the product's first movement.
+  tables.products.forEach(product => {
+    if (tables.product_prices.some(p => p.productId === product.id)) return;
+    const firstMovement = tables.stock_movements.filter(m => m.productId === product.id).map(m => m.date).sort()[0];
+    tables.product_prices.push({
+      id: newId(), productId: product.id, price: product.price, effectiveDate: firstMovement || product.lastUpdated || now(), changedBy: product.lastModifiedBy || 'system',
+    });
+  });
+  // 0015_custom_fields: existing products have no custom field values.
+  tables.products = tables.products.map(product => product.customFields ? product : { ...product, customFields: {} });
+};
+
+interface RepositoryHooks<T> {
+  beforeUpdate?: (existing: T, changes: Partial<T>) => void;
+  beforeDelete?: (row: T) => void;
+  afterInsert?: (row: T) => Promise<void>;
+  afterUpdate?: (row: T, previous: T) => Promise<void>;
+}
+
+const sortRows = (rows: Row[], column: string, ascending: boolean): Row[] => [...rows].sort((a, b) => {
+  const aValue = a[column] ?? '';
+  const bValue = b[column] ?? '';
+  if (aValue < bValue) return ascending ? -1 : 1;
+  if (aValue > bValue) return ascending ? 1 : -1;
+  return 0;
+});
+
+export const createLocalBackend = (options: { persist?: boolean } = {}): DataBackend => {
+  const persist = options.persist ?? true;
+  let tables: Tables = Object.fromEntries(TABLES.map(t => [t, []])) as unknown as Tables;
+  let credentials: Record<string, string> = {};
+  let idb: KeyValueStore | null = null;
+
+  const listeners = new Map<TableName, Set<(change: ChangeEvent<any>) => void>>();
+  const authListeners = new Set<(userId: string | null) => void>();
+
+  const save = async (table: TableName | 'credentials') => {
+    if (!idb) return;
+    try {
+      await idb.put(table, table === 'credentials' ? credentials : tables[table]);
+    } catch (error) {
+      console.error(`Failed to persist local table ${table}`, error);
+    }
+  };
+
+  const ready = (async () => {
+    idb = persist ? await openKeyValueStore(IDB_NAME, IDB_STORE) : null;
+    const stored = idb ? await Promise.all(TABLES.map(t => idb!.get<Row[]>(t))) : [];
+    if (idb && stored.some(Boolean)) {
+      TABLES.forEach((t, i) => { tables[t] = stored[i] || []; });
+      credentials = (await idb.get<Record<string, string>>('credentials')) || {};
+      upgradeTables(tables);
+      await Promise.all(TABLES.map(save));
+    } else {
+      const seed = createSeedData();
+      tables = seed.tables;
+      credentials = seed.credentials;
+      await Promise.all([...TABLES.map(save), save('credentials')]);
+    }
+  })();
+
+  const emit = <T extends Row>(table: TableName, change: ChangeEvent<T>) => {
+    listeners.get(table)?.forEach(listener => listener(change));
+  };
+
+  const insertRow = <T extends Row>(table: TableName, item: Omit<T, 'id'> & { id?: string }): T => {
+    const row = { ...item, id: item.id || newId() } as T;
+    tables[table] = [...tables[table], row];
+    emit(table, { eventType: 'INSERT', new: row, old: {} });
+    return row;
+  };
+
+  const updateRow = <T extends Row>(table: TableName, id: string, changes: Partial<T>): T => {
+    const existing = tables[table].find(r => r.id === id);
+    if (!existing) throw new Error(`Row ${id} not found in ${table}`);
+    const row = { ...existing, ...changes, id } as T;
+    tables[table] = tables[table].map(r => r.id === id ? row : r);
+    emit<T>(table, { eventType: 'UPDATE', new: row, old: existing as T });
+    return row;
+  };
+
+  const deleteRows = (table: TableName, predicate: (row: Row) => boolean) => {
+    const removed = tables[table].filter(predicate);
+    tables[table] = tables[table].filter(row => !predicate(row));
+    removed.forEach(row => emit(table, { eventType: 'DELETE', new: {} as Row, old: row }));
+  };
+
+  const createRepository = <T extends Row>(
+    table: TableName,
+    order: { column: string; ascending: boolean },
+    hooks: RepositoryHooks<T> = {}
+  ): Repository<T> => ({
+    list: async () => {
+      await ready;
+      return sortRows(tables[table], order.column, order.ascending) as T[];
+    },
+    get: async (id) => {
+      await ready;
+      return (tables[table].find(r => r.id === id) as T) || null;
+    },
+    insert: async (item) => {
+      await ready;
+      const row = insertRow<T>(table, item);
+      await save(table);
+      await hooks.afterInsert?.(row);
+      return row;
+    },
+    update: async (id, changes) => {
+      await ready;
+      const existing = tables[table].find(r => r.id === id) as T | undefined;
+      if (existing) hooks.beforeUpdate?.(existing, changes as Partial<T>);
+      const row = updateRow<T>(table, id, changes as Partial<T>);
+      await save(table);
+      if (existing) await hooks.afterUpdate?.(row, existing);
+      return row;
+    },
+    remove: async (ids) => {
+      await ready;
+      const removed = tables[table].filter(r => ids.includes(r.id));
+      removed.forEach(row => hooks.beforeDelete?.(row as T));
+      tables[table] = tables[table].filter(r => !ids.includes(r.id));
+      removed.forEach(row => emit(table, { eventType: 'DELETE', new: {} as T, old: row as T }));
+      await save(table);
+    },
+    clear: async () => {
+      await ready;
+      const removed = tables[table];
+      removed.forEach(row => hooks.beforeDelete?.(row as T));
+      tables[table] = [];
+      removed.forEach(row => emit(table, { eventType: 'DELETE', new: {} as T, old: row as T }));
+      await save(table);
+    },
+  });
+
+  const getDefaultWarehouseId = (): string => {
+    const warehouse = (tables.warehouses as Warehouse[]).find(w => w.isDefault) || (tables.warehouses[0] as Warehouse | undefined);
+    if (!warehouse) throw new Error('WAREHOUSE_NOT_FOUND');
+    return warehouse.id;
+  };
+
+  const getSessionUser = () => (tables.users as User[]).find(u => u.id === window.localStorage.getItem(SESSION_KEY));
+
+  // Mirrors public.require_role() for the signed-in user.
+  const requireRole = (...roles: UserRole[]) => {
+    const user = getSessionUser();
+    if (!user || !roles.includes(user.role)) throw new Error('NOT_AUTHORIZED');
+  };
+
+  // Mirrors public.guard_record_delete(): products and vendors are only deleted by purging or by
+  // clearing all data, which delete their rows directly.
+  const guardRecordDelete = () => {
+    throw new Error('NOT_AUTHORIZED');
+  };
+
+  // Mirrors public.acting_username(): workflows record the signed-in user, not the name passed in.
+  const getActingUsername = (username: string): string => getSessionUser()?.username || username;
+
+  const getValuationMethod = () => (tables.company_settings[0] as CompanySettings | undefined)?.valuationMethod || 'FIFO';
+
+  // Mirrors public.current_unit_cost().
+  const getCurrentUnitCost = (productId: string, warehouseId: string): number => {
+    const stock = (tables.product_stock as ProductStock[]).find(s => s.productId === productId && s.warehouseId === warehouseId);
+    if (stock && stock.quantity > 0) return roundCost(stock.stockValue / stock.quantity);
+    const layers = (tables.cost_layers as CostLayer[]).filter(l => l.productId === productId && l.warehouseId === warehouseId);
+    if (layers.length > 0) return layers[layers.length - 1].unitCost;
+    return (tables.products.find(p => p.id === productId) as Product | undefined)?.price || 0;
+  };
+
+  // Mirrors public.post_stock_movement(): updates the warehouse and total quantities and values, the
+  // cost layers, and appends the ledger entry.
+  const postStockMovement = (
+    productId: string,
+    warehouseId: string | undefined,
+    quantityChange: number,
+    type: StockMovementType,
+    referenceType: StockMovementReferenceType,
+    referenceId: string,
+    username: string,
+    notes?: string,
+    unitCost?: number
+  ): Product => {
+    const targetWarehouseId = warehouseId || getDefaultWarehouseId();
+    if (!tables.warehouses.some(w => w.id === targetWarehouseId)) throw new Error('WAREHOUSE_NOT_FOUND');
+    const product = tables.products.find(p => p.id === productId) as Product | undefined;
+    if (!product) throw new Error('PRODUCT_NOT_FOUND');
+
+    const stock = (tables.product_stock as ProductStock[]).find(s => s.productId === productId && s.warehouseId === targetWarehouseId)
+      || insertRow<ProductStock>('product_stock', { productId, warehouseId: targetWarehouseId, quantity: 0, stockValue: 0 });
+    if (stock.quantity + quantityChange < 0) throw new Error('INSUFFICIENT_STOCK');
+
+    let movementUnitCost: number | undefined;
+    let valueChange = 0;
+    if (quantityChange > 0) {
+      movementUnitCost = roundCost(unitCost ?? getCurrentUnitCost(productId, targetWarehouseId));
+      valueChange = quantityChange * movementUnitCost;
+      insertRow<CostLayer>('cost_layers', {
+        productId, warehouseId: targetWarehouseId, quantity: quantityChange, remainingQuantity: quantityChange, unitCost: movementUnitCost,
+        receivedDate: now(), referenceType, referenceId,
+      });
+    } else if (quantityChange < 0) {
+      let toConsume = -quantityChange;
+      let layerValue = 0;
+      (tables.cost_layers as CostLayer[])
+        .filter(l => l.productId === productId && l.warehouseId === targetWarehouseId && l.remainingQuantity > 0)
+        .forEach(layer => {
+          const take = Math.min(layer.remainingQuantity, toConsume);
+          if (take === 0) return;
+          updateRow<CostLayer>('cost_layers', layer.id, { remainingQuantity: layer.remainingQuantity - take });
+          layerValue += take * layer.unitCost;
+          toConsume -= take;
+        });
+      if (stock.quantity + quantityChange <= 0) valueChange = -stock.stockValue;
+      else if (getValuationMethod() === 'FIFO') valueChange = -roundCost(layerValue + toConsume * getCurrentUnitCost(productId, targetWarehouseId));
+      else valueChange = -roundCost(-quantityChange * stock.stockValue / stock.quantity);
+      movementUnitCost = roundCost(valueChange / quantityChange);
+    }
+
+    updateRow<ProductStock>('product_stock', stock.id, { quantity: stock.quantity + quantityChange, stockValue: stock.stockValue + valueChange });
+    const updated = updateRow<Product>('products', productId, {
+      quantity: product.quantity + quantityChange,
+      lastUpdated: now(),
+      lastModifiedBy: username,
+    });
+    insertRow<StockMovement>('stock_movements', {
+      productId, productName: product.name, warehouseId: targetWarehouseId, type, quantityChange,
+      balanceBefore: stock.quantity, balanceAfter: stock.quantity + quantityChange,
+      referenceType, referenceId, user: username, date: now(), notes, unitCost: movementUnitCost, valueChange,
+    });
+    return updated;
+  };
+
+  // Mirrors public.consume_stock_lots(): takes up to the quantity out of the lots, first-expiry-first-out.
+  const consumeStockLots = (productId: string, warehouseId: string, quantity: number, includeExpired = true): LotAllocation[] => {
+    const lots = (tables.stock_lots as StockLot[])
+      .filter(l => l.productId === productId && l.warehouseId === warehouseId && (includeExpired || !isExpired(l.expiryDate)));
+    const allocations = allocateLotsFefo(lots, quantity);
+    allocations.forEach(a => {
+      const lot = lots.find(l => l.id === a.lotId)!;
+      updateRow<StockLot>('stock_lots', lot.id, { quantity: lot.quantity - a.quantity });
+    });
+    return allocations;
+  };
+
+  // Mirrors public.trim_stock_lots(): keeps the lots within the warehouse quantity.
+  const trimStockLots = (productId: string, warehouseId: string) => {
+    const lotTotal = (tables.stock_lots as StockLot[])
+      .filter(l => l.productId === productId && l.warehouseId === warehouseId)
+      .reduce((sum, l) => sum + l.quantity, 0);
+    const stock = (tables.product_stock as ProductStock[]).find(s => s.productId === productId && s.warehouseId === warehouseId);
+    const excess = lotTotal - (stock?.quantity || 0);
+    if (excess > 0) consumeStockLots(productId, warehouseId, excess);
+  };
+
+  // Mirrors public.reserved_stock() and public.available_stock().
+  const getReservedQuantity = (productId: string, warehouseId: string): number =>
+    (tables.stock_reservations as StockReservation[])
+      .filter(r => r.productId === productId && r.warehouseId === warehouseId)
+      .reduce((sum, r) => sum + r.quantity, 0);
+
+  const getAvailableQuantity = (productId: string, warehouseId: string): number =>
+    ((tables.product_stock as ProductStock[]).find(s => s.productId === productId && s.warehouseId === warehouseId)?.quantity || 0)
+      - getReservedQuantity(productId, warehouseId);
+
+  const getUnreservedUnexpiredQuantity = (product: Product, warehouseId: string): number =>
+    getUnexpiredQuantity(product, tables.product_stock as ProductStock[], tables.stock_lots as StockLot[], warehouseId) - getReservedQuantity(product.id, warehouseId);
+
+  const reserveStock = (requestId: string, productId: string, warehouseId: string, quantity: number) =>
+    insertRow<StockReservation>('stock_reservations', { requestId, productId, warehouseId, quantity, createdDate: now() });
+
+  // Mirrors public.release_request(): ends an approved request without issuing its stock.
+  const releaseRequest = (request: Request, status: 'Cancelled' | 'Expired', username: string): Request => {
+    if (!request.reservedUntil) throw new Error('STOCK_ALREADY_ISSUED');
+    releaseReservations(request.id);
+    (tables.serial_numbers as SerialNumber[])
+      .filter(s => s.requestId === request.id && s.status === 'Reserved')
+      .forEach(s => updateRow<SerialNumber>('serial_numbers', s.id, { status: 'In Stock', requestId: undefined }));
+    return updateRow<Request>('requests', request.id, { status, releasedBy: username, releasedDate: now() });
+  };
+
+  const releaseReservations = (requestId: string) => {
+    const released = (tables.stock_reservations as StockReservation[]).filter(r => r.requestId === requestId);
+    tables.stock_reservations = tables.stock_reservations.filter(r => r.requestId !== requestId);
+    released.forEach(row => emit('stock_reservations', { eventType: 'DELETE', new: {} as StockReservation, old: row }));
+  };
+
+  // Mirrors public.consume_kit_components(): takes the components of the kits out of the warehouse.
+  const consumeKitComponents = (
+    kit: Product,
+    warehouseId: string,
+    kits: number,
+    type: StockMovementType,
+    referenceType: StockMovementReferenceType,
+    referenceId: string,
+    username: string,
+    notes: string
+  ) => {
+    const components = kit.isKit ? kit.kitComponents || [] : [];
+    if (components.length === 0) throw new Error('NOT_A_KIT');
+    components.forEach(component => {
+      const needed = component.quantity * kits;
+      const product = tables.products.find(p => p.id === component.productId) as Product | undefined;
+      if (!product) throw new Error('PRODUCT_NOT_FOUND');
+      if (getAvailableQuantity(product.id, warehouseId) < needed) throw new Error('KIT_COMPONENTS_SHORT');
+      if (getUnreservedUnexpiredQuantity(product, warehouseId) < needed) throw new Error('EXPIRED_STOCK');
+    });
+    components.forEach(component => {
+      const needed = component.quantity * kits;
+      postStockMovement(component.productId, warehouseId, -needed, type, referenceType, referenceId, username, notes);
+      consumeStockLots(component.productId, warehouseId, needed, false);
+    });
+  };
+
+  // The value of the stock issued for a request; undefined when it was issued before stock was valued.
+  const getCostOfGoods = (requestId: string): number | undefined => {
+    const issued = (tables.stock_movements as StockMovement[]).filter(m => m.referenceType === 'request' && m.referenceId === requestId && m.valueChange !== undefined);
+    return issued.length > 0 ? -issued.reduce((sum, m) => sum + (m.valueChange || 0), 0) : undefined;
+  };
+
+  const getLedgerBalance = (productId: string, warehouseId?: string): number =>
+    (tables.stock_movements as StockMovement[])
+      .filter(m => m.productId === productId && (warehouseId === undefined || m.warehouseId === warehouseId))
+      .reduce((sum, m) => sum + m.quantityChange, 0);
+
+  // Mirrors public.apply_stock_adjustment(). Callers save the stock tables.
+  const adjustStock = (adjustmentData: Omit<StockAdjustment, 'id' | 'date' | 'adjustedBy' | 'productName'>, username: string) => {
+    if (adjustmentData.quantityChange === 0) throw new Error('INVALID_QUANTITY');
+    const existing = tables.products.find(p => p.id === adjustmentData.productId) as Product | undefined;
+    if (!existing) throw new Error('PRODUCT_NOT_FOUND');
+    const warehouseId = adjustmentData.warehouseId || getDefaultWarehouseId();
+    const lot = adjustmentData.lotId
+      ? (tables.stock_lots as StockLot[]).find(l => l.id === adjustmentData.lotId && l.productId === existing.id && l.warehouseId === warehouseId)
+      : undefined;
+    if (adjustmentData.lotId && !lot) throw new Error('LOT_NOT_FOUND');
+    if (lot && lot.quantity + adjustmentData.quantityChange < 0) throw new Error('NEGATIVE_STOCK');
+    const stock = (tables.product_stock as ProductStock[]).find(s => s.productId === existing.id && s.warehouseId === warehouseId);
+    if ((stock?.quantity || 0) + adjustmentData.quantityChange < 0) throw new Error('NEGATIVE_STOCK');
+
+    const adjustment = insertRow<StockAdjustment>('stock_adjustments', {
+      ...adjustmentData, warehouseId, productName: existing.name, date: now(), adjustedBy: username, lotNumber: lot?.lotNumber,
+    });
+    const product = postStockMovement(
+      existing.id, warehouseId, adjustmentData.quantityChange, adjustmentData.reason === 'Return' ? 'Return' : 'Adjustment',
+      'stock_adjustment', adjustment.id, username, lot ? `${adjustmentData.reason} (Lot: ${lot.lotNumber})` : adjustmentData.reason
+    );
+    if (lot) updateRow<StockLot>('stock_lots', lot.id, { quantity: lot.quantity + adjustmentData.quantityChange });
+    else if (adjustmentData.quantityChange < 0) trimStockLots(existing.id, warehouseId);
+    return { product, adjustment };
+  };
+
+  const saveStockTables = (...extra: TableName[]) =>
+    Promise.all([save('products'), save('product_stock'), save('cost_layers'), save('stock_lots'), save('serial_numbers'), save('stock_movements'), ...extra.map(save)]);
+
+  // Mirrors the client mutation id overloads in 0018_offline_replay.sql.
+  // The three replayed workflows are all open to Staff and above, and check it before returning a
+  // recorded result.
+  const applyOnce = async <T>(clientMutationId: string | undefined, kind: QueuedMutationKind, apply: () => Promise<T>): Promise<T> => {
+    await ready;
+    requireRole(...STAFF_ROLES);
+    if (!clientMutationId) return apply();
+    const applied = tables.applied_mutations.find(m => m.id === clientMutationId);
+    if (applied) return applied.result as T;
+    const result = await apply();
+    insertRow('applied_mutations', { id: clientMutationId, kind, result, appliedAt: now() });
+    await save('applied_mutations');
+    return result;
+  };
+
+  const backend: DataBackend = {
+    kind: 'local',
+    products: createRepository<Product>('products', { column: 'name', ascending: true }, {
+      // Mirrors the products_guard_quantity, products_guard_record_delete, products_opening_balance and
+      // products_record_price triggers.
+      beforeUpdate: (existing, changes) => {
+        if (changes.quantity !== undefined && changes.quantity !== existing.quantity) throw new Error('QUANTITY_MANAGED_BY_LEDGER');
+      },
+      beforeDelete: guardRecordDelete,
+      afterInsert: async (product) => {
+        const warehouseId = product.homeWarehouseId || getDefaultWarehouseId();
+        insertRow<ProductStock>('product_stock', { productId: product.id, warehouseId, quantity: product.quantity, stockValue: product.quantity * product.price });
+        if (product.quantity > 0) {
+          insertRow<CostLayer>('cost_layers', {
+            productId: product.id, warehouseId, quantity: product.quantity, remainingQuantity: product.quantity, unitCost: product.price,
+            receivedDate: now(), referenceType: 'product', referenceId: product.id,
+          });
+        }
+        insertRow<StockMovement>('stock_movements', {
+          productId: product.id, productName: product.name, warehouseId, type: 'Opening', quantityChange: product.quantity,
+          balanceBefore: 0, balanceAfter: product.quantity, referenceType: 'product', referenceId: product.id,
+          user: product.lastModifiedBy || 'system', date: now(), unitCost: product.price, valueChange: product.quantity * product.price,
+        });
+        insertRow<ProductPrice>('product_prices', { productId: product.id, price: product.price, effectiveDate: now(), changedBy: product.lastModifiedBy || 'system' });
+        await Promise.all([save('product_stock'), save('cost_layers'), save('stock_movements'), save('product_prices')]);
+      },
+      afterUpdate: async (product, previous) => {
+        if (product.price === previous.price) return;
+        insertRow<ProductPrice>('product_prices', { productId: product.id, price: product.price, effectiveDate: now(), changedBy: product.lastModifiedBy || 'system' });
+        await save('product_prices');
+      },
+    }),
+    productPrices: createRepository('product_prices', { column: 'effectiveDate', ascending: true }),
+    categoryStockLevels: createRepository('category_stock_levels', { column: 'category', ascending: true }),
+    categoryFieldSchemas: createRepository('category_field_schemas', { column: 'category', ascending: true }),
+    // Mirrors the vendors_guard_record_delete trigger.
+    vendors: createRepository('vendors', { column: 'name', ascending: true }, { beforeDelete: guardRecordDelete }),
+    warehouses: createRepository('warehouses', { column: 'name', ascending: true }),
+    binLocations: createRepository<BinLocation>('bin_locations', { column: 'code', ascending: true }, {
+      // Mirrors the bin_locations_sync_product_location trigger.
+      afterUpdate: async (bin, previous) => {
+        if (bin.code === previous.code) return;
+        (tables.products as Product[]).filter(p => p.locationId === bin.id).forEach(p => updateRow<Product>('products', p.id, { location: bin.code }));
+        await save('products');
+      },
+    }),
+    productStock: createRepository<ProductStock>('product_stock', { column: 'productId', ascending: true }, {
+      // Mirrors the product_stock_guard_quantity trigger.
+      beforeUpdate: (existing, changes) => {
+        if ((changes.quantity !== undefined && changes.quantity !== existing.quantity)
+          || (changes.stockValue !== undefined && changes.stockValue !== existing.stockValue)) throw new Error('QUANTITY_MANAGED_BY_LEDGER');
+      },
+    }),
+    costLayers: createRepository<CostLayer>('cost_layers', { column: 'receivedDate', ascending: true }, {
+      // Mirrors the cost_layers_guard_quantity trigger.
+      beforeUpdate: (existing, changes) => {
+        if (changes.remainingQuantity !== undefined && changes.remainingQuantity !== existing.remainingQuantity) throw new Error('QUANTITY_MANAGED_BY_LEDGER');
+      },
+    }),
+    stockLots: createRepository<StockLot>('stock_lots', { column: 'expiryDate', ascending: true }, {
+      // Mirrors the stock_lots_guard_quantity trigger.
+      beforeUpdate: (existing, changes) => {
+        if (changes.quantity !== undefined && changes.quantity !== existing.quantity) throw new Error('QUANTITY_MANAGED_BY_LEDGER');
+      },
+    }),
+    serialNumbers: createRepository<SerialNumber>('serial_numbers', { column: 'serialNumber', ascending: true }, {
+      // Mirrors the serial_numbers_guard trigger.
+      beforeUpdate: (existing, changes) => {
+        if ((changes.status !== undefined && changes.status !== existing.status)
+          || (changes.warehouseId !== undefined && changes.warehouseId !== existing.warehouseId)) throw new Error('QUANTITY_MANAGED_BY_LEDGER');
+      },
+    }),
+    requests: createRepository('requests', { column: 'requestDate', ascending: false }),
+    stockReservations: createRepository('stock_reservations', { column: 'createdDate', ascending: true }),
+    purchaseOrders: createRepository('purchase_orders', { column: 'requestDate', ascending: false }),
+    stockAdjustments: createRepository('stock_adjustments', { column: 'date', ascending: false }),
+    stockMovements: createRepository('stock_movements', { column: 'date', ascending: false }),
+    stocktakes: createRepository('stocktakes', { column: 'createdDate', ascending: false }),
+    stocktakeLines: createRepository('stocktake_lines', { column: 'location', ascending: true }),
+    users: createRepository('users', { column: 'username', ascending: true }),
+    auditLogs: createRepository('audit_logs', { column: 'timestamp', ascending: false }),
+    companySettings: createRepository('company_settings', { column: 'id', ascending: true }),
+
+    stock: {
+      approveRequest: async (requestId, username, reservedUntil, serialNumbers) => {
+        await ready;
+        requireRole(...SUPERVISOR_ROLES);
+        username = getActingUsername(username);
+        const request = tables.requests.find(r => r.id === requestId) as Request | undefined;
+        if (!request) throw new Error('REQUEST_NOT_FOUND');
+        if (request.status !== 'Pending Approval') throw new Error('INVALID_STATUS');
+
+        const warehouseId = request.warehouseId || getDefaultWarehouseId();
+        const product = tables.products.find(p => p.id === request.productId) as Product | undefined;
+        if (!product) throw new Error('PRODUCT_NOT_FOUND');
+
+        // Kits: reserve the assembled kits available, and the components to build the rest.
+        if (product.isKit) {
+          const fromStock = Math.min(Math.max(getAvailableQuantity(product.id, warehouseId), 0), request.quantity);
+          const toBuild = request.quantity - fromStock;
+          const components = toBuild > 0 ? product.kitComponents || [] : [];
+          if (toBuild > 0 && components.length === 0) throw new Error('NOT_A_KIT');
+          components.forEach(component => {
+            const needed = component.quantity * toBuild;
+            const componentProduct = tables.products.find(p => p.id === component.productId) as Product | undefined;
+            if (!componentProduct) throw new Error('PRODUCT_NOT_FOUND');
+            if (getAvailableQuantity(component.productId, warehouseId) < needed) throw new Error('KIT_COMPONENTS_SHORT');
+            if (getUnreservedUnexpiredQuantity(componentProduct, warehouseId) < needed) throw new Error('EXPIRED_STOCK');
+          });
+          components.forEach(component => reserveStock(request.id, component.productId, warehouseId, component.quantity * toBuild));
+          if (fromStock > 0) reserveStock(request.id, product.id, warehouseId, fromStock);
+          const updatedRequest = updateRow<Request>('requests', request.id, { status: 'Approved', approvedBy: username, actionDate: now(), reservedUntil, serialNumbers: undefined });
+          await Promise.all([save('requests'), save('stock_reservations')]);
+          return { product, request: updatedRequest };
+        }
+
+        if (getAvailableQuantity(product.id, warehouseId) < request.quantity) throw new Error('INSUFFICIENT_STOCK');
+        if (getUnreservedUnexpiredQuantity(product, warehouseId) < request.quantity) throw new Error('EXPIRED_STOCK');
+        const serials = product.isSerialized ? normalizeSerialNumbers(serialNumbers) : undefined;
+        const reservedUnits = serials
+          ? (tables.serial_numbers as SerialNumber[]).filter(s => s.productId === request.productId && serials.includes(s.serialNumber))
+          : [];
+        if (serials) {
+          if (serials.length !== request.quantity || serialNumbers?.length !== request.quantity) throw new Error('SERIAL_COUNT_MISMATCH');
+          if (reservedUnits.filter(s => s.status === 'In Stock' && s.warehouseId === warehouseId).length !== request.quantity) throw new Error('SERIAL_NOT_AVAILABLE');
+        }
+
+        reservedUnits.forEach(s => updateRow<SerialNumber>('serial_numbers', s.id, { status: 'Reserved', requestId: request.id }));
+        reserveStock(request.id, product.id, warehouseId, request.quantity);
+        const updatedRequest = updateRow<Request>('requests', request.id, { status: 'Approved', approvedBy: username, actionDate: now(), reservedUntil, serialNumbers: serials });
+        await Promise.all([save('requests'), save('stock_reservations'), save('serial_numbers')]);
+        return { product, request: updatedRequest };
+      },
+      collectRequest: (requestId, username, collectionDate, clientMutationId) => applyOnce(clientMutationId, 'collect_request', async () => {
+        username = getActingUsername(username);
+        const request = tables.requests.find(r => r.id === requestId) as Request | undefined;
+        if (!request) throw new Error('REQUEST_NOT_FOUND');
+        if (request.status !== 'Approved') throw new Error('INVALID_STATUS');
+        const collectedAt = collectionDate || now();
+
+        // Approved before reservations existed: the stock was issued on approval.
+        if (!request.reservedUntil) {
+          const updatedRequest = updateRow<Request>('requests', request.id, {
+            status: 'Collected', collectedBy: username, collectionDate: collectedAt, costOfGoods: getCostOfGoods(request.id),
+          });
+          await save('requests');
+          return { product: tables.products.find(p => p.id === request.productId) as Product, request: updatedRequest };
+        }
+
+        const warehouseId = request.warehouseId || getDefaultWarehouseId();
+        const requested = tables.products.find(p => p.id === request.productId) as Product | undefined;
+        if (!requested) throw new Error('PRODUCT_NOT_FOUND');
+        // Checked against the stock as it would be without this request's reservation, so that a
+        // failure leaves the reservation in place.
+        const ownReservations = (tables.stock_reservations as StockReservation[]).filter(r => r.requestId === request.id);
+        const ownReserved = (productId: string) => ownReservations.filter(r => r.productId === productId).reduce((sum, r) => sum + r.quantity, 0);
+        const available = (productId: string) => getAvailableQuantity(productId, warehouseId) + ownReserved(productId);
+        const fromStock = requested.isKit ? Math.min(Math.max(available(requested.id), 0), request.quantity) : request.quantity;
+        if (requested.isKit && fromStock < request.quantity) {
+          const components = requested.kitComponents || [];
+          if (components.length === 0) throw new Error('NOT_A_KIT');
+          components.forEach(component => {
+            const needed = component.quantity * (request.quantity - fromStock);
+            const componentProduct = tables.products.find(p => p.id === component.productId) as Product | undefined;
+            if (!componentProduct) throw new Error('PRODUCT_NOT_FOUND');
+            if (available(component.productId) < needed) throw new Error('KIT_COMPONENTS_SHORT');
+            if (getUnreservedUnexpiredQuantity(componentProduct, warehouseId) + ownReserved(component.productId) < needed) throw new Error('EXPIRED_STOCK');
+          });
+        }
+        if (!requested.isKit && available(requested.id) >= request.quantity
+          && getUnreservedUnexpiredQuantity(requested, warehouseId) + ownReserved(requested.id) < request.quantity) {
+          throw new Error('EXPIRED_STOCK');
+        }
+        if (fromStock > 0 && available(requested.id) < fromStock) throw new Error('INSUFFICIENT_STOCK');
+
+        releaseReservations(request.id);
+        if (requested.isKit && fromStock < request.quantity) {
+          consumeKitComponents(
+            requested, warehouseId, request.quantity - fromStock, 'Issue', 'request', request.id, username,
+            `To: ${request.requestingDivision} (kit: ${requested.name})`
+          );
+        }
+        const product = fromStock > 0
+          ? postStockMovement(request.productId, warehouseId, -fromStock, 'Issue', 'request', request.id, username, `To: ${request.requestingDivision}`)
+          : tables.products.find(p => p.id === request.productId) as Product;
+        const lotAllocations = fromStock > 0 ? consumeStockLots(request.productId, warehouseId, fromStock, false) : [];
+        (tables.serial_numbers as SerialNumber[])
+          .filter(s => s.requestId === request.id && s.status === 'Reserved')
+          .forEach(s => updateRow<SerialNumber>('serial_numbers', s.id, { status: 'Issued', issuedTo: request.requestingDivision, issuedDate: collectedAt }));
+        const updatedRequest = updateRow<Request>('requests', request.id, {
+          status: 'Collected', collectedBy: username, collectionDate: collectedAt, lotAllocations, costOfGoods: getCostOfGoods(request.id),
+        });
+        await saveStockTables('requests', 'stock_reservations');
+        return { product, request: updatedRequest };
+      }),
+      cancelRequest: async (requestId, username) => {
+        await ready;
+        requireRole(...SUPERVISOR_ROLES);
+        username = getActingUsername(username);
+        const request = tables.requests.find(r => r.id === requestId) as Request | undefined;
+        if (!request) throw new Error('REQUEST_NOT_FOUND');
+        if (request.status !== 'Approved') throw new Error('INVALID_STATUS');
+        const updatedRequest = releaseRequest(request, 'Cancelled', username);
+        await Promise.all([save('requests'), save('stock_reservations'), save('serial_numbers')]);
+        return { request: updatedRequest };
+      },
+      expireReservations: async (username) => {
+        await ready;
+        requireRole(...STAFF_ROLES);
+        username = getActingUsername(username);
+        const overdue = (tables.requests as Request[]).filter(r => r.status === 'Approved' && r.reservedUntil && new Date(r.reservedUntil).getTime() < Date.now());
+        if (overdue.length === 0) return [];
+        const expired = overdue.map(request => releaseRequest(request, 'Expired', username));
+        await Promise.all([save('requests'), save('stock_reservations'), save('serial_numbers')]);
+        return expired;
+      },
+      receivePurchaseOrder: (poId, username, lot, serialNumbers, unitCost, clientMutationId) => applyOnce(clientMutationId, 'receive_purchase_order', async () => {
+        username = getActingUsername(username);
+        const po = tables.purchase_orders.find(p => p.id === poId) as PurchaseOrder | undefined;
+        if (!po) throw new Error('PURCHASE_ORDER_NOT_FOUND');
+        if (po.status !== 'Approved') throw new Error('INVALID_STATUS');
+        const lotNumber = lot?.lotNumber.trim() || undefined;
+        const expiryDate = lot?.expiryDate || undefined;
+        if (expiryDate && !lotNumber) throw new Error('LOT_NUMBER_REQUIRED');
+        if (unitCost !== undefined && !(unitCost >= 0)) throw new Error('INVALID_UNIT_COST');
+        const warehouseId = po.warehouseId || getDefaultWarehouseId();
+        const existingLot = lotNumber
+          ? (tables.stock_lots as StockLot[]).find(l => l.productId === po.productId && l.warehouseId === warehouseId && l.lotNumber === lotNumber)
+          : undefined;
+        if (existingLot?.expiryDate && expiryDate && existingLot.expiryDate !== expiryDate) throw new Error('LOT_EXPIRY_MISMATCH');
+        const serialized = (tables.products.find(p => p.id === po.productId) as Product | undefined)?.isSerialized;
+        const serials = serialized ? normalizeSerialNumbers(serialNumbers) : undefined;
+        if (serials) {
+          if (serials.length !== po.quantity || serialNumbers?.length !== po.quantity) throw new Error('SERIAL_COUNT_MISMATCH');
+          if ((tables.serial_numbers as SerialNumber[]).some(s => s.productId === po.productId && serials.includes(s.serialNumber))) throw new Error('SERIAL_DUPLICATE');
+        }
+
+        const receivedUnitCost = roundCost(unitCost ?? po.unitCost ?? getCurrentUnitCost(po.productId, warehouseId));
+        const product = postStockMovement(
+          po.productId, warehouseId, po.quantity, 'Receipt', 'purchase_order', po.id, username, lotNumber && `Lot: ${lotNumber}`, receivedUnitCost
+        );
+        if (existingLot) {
+          updateRow<StockLot>('stock_lots', existingLot.id, { quantity: existingLot.quantity + po.quantity, expiryDate: existingLot.expiryDate || expiryDate });
+        } else if (lotNumber) {
+          insertRow<StockLot>('stock_lots', { productId: po.productId, warehouseId, lotNumber, expiryDate, quantity: po.quantity, receivedDate: now(), purchaseOrderId: po.id });
+        }
+        serials?.forEach(serialNumber => insertRow<SerialNumber>('serial_numbers', {
+          productId: po.productId, serialNumber, status: 'In Stock', warehouseId, purchaseOrderId: po.id, receivedDate: now(),
+        }));
+        const purchaseOrder = updateRow<PurchaseOrder>('purchase_orders', po.id, {
+          status: 'Received', receivedBy: username, receivedDate: now(), lotNumber, expiryDate, serialNumbers: serials, unitCost: receivedUnitCost,
+        });
+        await saveStockTables('purchase_orders');
+        return { product, purchaseOrder };
+      }),
+      assembleKit: async (kitId, warehouseId, quantity, username) => {
+        await ready;
+        requireRole(...SUPERVISOR_ROLES);
+        username = getActingUsername(username);
+        if (!Number.isInteger(quantity) || quantity <= 0) throw new Error('INVALID_QUANTITY');
+        const kit = tables.products.find(p => p.id === kitId) as Product | undefined;
+        if (!kit) throw new Error('PRODUCT_NOT_FOUND');
+        const referenceId = newId();
+        consumeKitComponents(kit, warehouseId, quantity, 'Assembly', 'kit_assembly', referenceId, username, `Into: ${kit.name}`);
+        const componentsValue = -(tables.stock_movements as StockMovement[])
+          .filter(m => m.referenceType === 'kit_assembly' && m.referenceId === referenceId)
+          .reduce((sum, m) => sum + (m.valueChange || 0), 0);
+        const product = postStockMovement(
+          kitId, warehouseId, quantity, 'Assembly', 'kit_assembly', referenceId, username, 'Assembled from components', componentsValue / quantity
+        );
+        await saveStockTables();
+        return { product };
+      },
+      disassembleKit: async (kitId, warehouseId, quantity, username) => {
+        await ready;
+        requireRole(...SUPERVISOR_ROLES);
+        username = getActingUsername(username);
+        if (!Number.isInteger(quantity) || quantity <= 0) throw new Error('INVALID_QUANTITY');
+        const kit = tables.products.find(p => p.id === kitId) as Product | undefined;
+        if (!kit) throw new Error('PRODUCT_NOT_FOUND');
+        if (!kit.isKit || !kit.kitComponents?.length) throw new Error('NOT_A_KIT');
+        const referenceId = newId();
+        const product = postStockMovement(kitId, warehouseId, -quantity, 'Disassembly', 'kit_assembly', referenceId, username, 'Taken apart into components');
+        trimStockLots(kitId, warehouseId);
+        kit.kitComponents.forEach(component => postStockMovement(
+          component.productId, warehouseId, component.quantity * quantity, 'Disassembly', 'kit_assembly', referenceId, username, `From: ${kit.name}`
+        ));
+        await saveStockTables();
+        return { product };
+      },
+      applyStockAdjustment: (adjustmentData, username, clientMutationId) => applyOnce(clientMutationId, 'stock_adjustment', async () => {
+        username = getActingUsername(username);
+        const result = adjustStock(adjustmentData, username);
+        await saveStockTables('stock_adjustments');
+        return result;
+      }),
+      transferStock: async (transfer, username) => {
+        await ready;
+        requireRole(...SUPERVISOR_ROLES);
+        username = getActingUsername(username);
+        if (!Number.isInteger(transfer.quantity) || transfer.quantity <= 0) throw new Error('INVALID_QUANTITY');
+        if (transfer.fromWarehouseId === transfer.toWarehouseId) throw new Error('SAME_WAREHOUSE');
+        const from = (tables.warehouses as Warehouse[]).find(w => w.id === transfer.fromWarehouseId);
+        const to = (tables.warehouses as Warehouse[]).find(w => w.id === transfer.toWarehouseId);
+        if (!from || !to) throw new Error('WAREHOUSE_NOT_FOUND');
+        const existing = tables.products.find(p => p.id === transfer.productId) as Product | undefined;
+        if (!existing) throw new Error('PRODUCT_NOT_FOUND');
+        if (getAvailableQuantity(existing.id, from.id) < transfer.quantity) throw new Error('INSUFFICIENT_STOCK');
+        const serials = existing.isSerialized ? normalizeSerialNumbers(transfer.serialNumbers) : undefined;
+        const units = serials
+          ? (tables.serial_numbers as SerialNumber[]).filter(s => s.productId === existing.id && serials.includes(s.serialNumber))
+          : [];
+        if (serials) {
+          if (serials.length !== transfer.quantity || transfer.serialNumbers?.length !== transfer.quantity) throw new Error('SERIAL_COUNT_MISMATCH');
+          if (units.filter(s => s.status === 'In Stock' && s.warehouseId === from.id).length !== transfer.quantity) throw new Error('SERIAL_NOT_AVAILABLE');
+        }
+
+        const transferId = newId();
+        const notes = transfer.notes?.trim() ? ` - ${transfer.notes.trim()}` : '';
+        postStockMovement(existing.id, from.id, -transfer.quantity, 'Transfer', 'transfer', transferId, username, `To: ${to.name}${notes}`);
+        const value = -((tables.stock_movements as StockMovement[])
+          .find(m => m.referenceType === 'transfer' && m.referenceId === transferId && m.warehouseId === from.id)?.valueChange || 0);
+        const product = postStockMovement(
+          existing.id, to.id, transfer.quantity, 'Transfer', 'transfer', transferId, username, `From: ${from.name}${notes}`, value / transfer.quantity
+        );
+        consumeStockLots(existing.id, from.id, transfer.quantity).forEach(allocation => {
+          const lot = (tables.stock_lots as StockLot[]).find(l => l.productId === existing.id && l.warehouseId === to.id && l.lotNumber === allocation.lotNumber);
+          if (lot) updateRow<StockLot>('stock_lots', lot.id, { quantity: lot.quantity + allocation.quantity, expiryDate: lot.expiryDate || allocation.expiryDate });
+          else insertRow<StockLot>('stock_lots', { productId: existing.id, warehouseId: to.id, lotNumber: allocation.lotNumber, expiryDate: allocation.expiryDate, quantity: allocation.quantity, receivedDate: now() });
+        });
+        units.forEach(s => updateRow<SerialNumber>('serial_numbers', s.id, { warehouseId: to.id }));
+        await saveStockTables();
+        return { product, transferId };
+      },
+      startStocktake: async (scope, username) => {
+        await ready;
+        requireRole(...SUPERVISOR_ROLES);
+        username = getActingUsername(username);
+        if (!tables.warehouses.some(w => w.id === scope.warehouseId)) throw new Error('WAREHOUSE_NOT_FOUND');
+        const productStock = tables.product_stock as ProductStock[];
+        const products = getStocktakeProducts(tables.products as Product[], productStock, tables.bin_locations as BinLocation[], scope);
+        if (products.length === 0) throw new Error('STOCKTAKE_EMPTY');
+        const openIds = new Set((tables.stocktakes as Stocktake[]).filter(st => st.warehouseId === scope.warehouseId && isStocktakeOpen(st)).map(st => st.id));
+        const productIds = new Set(products.map(p => p.id));
+        if ((tables.stocktake_lines as StocktakeLine[]).some(l => openIds.has(l.stocktakeId) && productIds.has(l.productId))) throw new Error('STOCKTAKE_OVERLAP');
+
+        const stocktake = insertRow<Stocktake>('stocktakes', { ...scope, status: 'Counting', createdBy: username, createdDate: now() });
+        const lines = products.map(p => insertRow<StocktakeLine>('stocktake_lines', {
+          stocktakeId: stocktake.id, productId: p.id, productName: p.name, sku: p.sku, location: p.location || '', baseUnit: p.baseUnit,
+          systemQuantity: productStock.find(st => st.productId === p.id && st.warehouseId === scope.warehouseId)?.quantity || 0,
+          unitPrice: p.price,
+        }));
+        await Promise.all([save('stocktakes'), save('stocktake_lines')]);
+        return { stocktake, lines };
+      },
+      postStocktake: async (stocktakeId, username) => {
+        await ready;
+        requireRole(...SUPERVISOR_ROLES);
+        username = getActingUsername(username);
+        const stocktake = tables.stocktakes.find(st => st.id === stocktakeId) as Stocktake | undefined;
+        if (!stocktake) throw new Error('STOCKTAKE_NOT_FOUND');
+        if (stocktake.status !== 'Review') throw new Error('INVALID_STATUS');
+        // Mirrors 0020_stocktake_post_current_quantity.sql: each counted product is set to its count,
+        // whatever moved while it was being counted.
+        const getCurrentQuantity = (productId: string) =>
+          (tables.product_stock as ProductStock[]).find(s => s.productId === productId && s.warehouseId === stocktake.warehouseId)?.quantity || 0;
+        const variances = (tables.stocktake_lines as StocktakeLine[])
+          .filter(l => l.stocktakeId === stocktakeId && getFinalCount(l) !== null)
+          .map(line => ({ line, change: getFinalCount(line)! - getCurrentQuantity(line.productId) }))
+          .filter(({ change }) => change !== 0);
+
+        const adjustments = variances.map(({ line, change }) => {
+          const { adjustment } = adjustStock({
+            productId: line.productId, warehouseId: stocktake.warehouseId, quantityChange: change, reason: 'Stocktake',
+            notes: getStocktakeReference(stocktake),
+          }, username);
+          updateRow<StocktakeLine>('stocktake_lines', line.id, { adjustmentId: adjustment.id });
+          return adjustment;
+        });
+        const posted = updateRow<Stocktake>('stocktakes', stocktakeId, { status: 'Posted', closedBy: username, closedDate: now() });
+        await saveStockTables('stock_adjustments', 'stocktakes', 'stocktake_lines');
+        return { stocktake: posted, adjustments };
+      },
+      verifyStockLedger: async () => {
+        await ready;
+        const products = tables.products as Product[];
+        const movements = tables.stock_movements as StockMovement[];
+        const stock = tables.product_stock as ProductStock[];
+        const pairs = new Map<string, { productId: string; warehouseId: string }>();
+        [...stock, ...movements].forEach(row => pairs.set(`${row.productId}|${row.warehouseId}`, { productId: row.productId, warehouseId: row.warehouseId }));
+
+        const warehouseDiscrepancies = Array.from(pairs.values()).flatMap(({ productId, warehouseId }) => {
+          const product = products.find(p => p.id === productId);
+          if (!product) return [];
+          const cachedQuantity = stock.find(s => s.productId === productId && s.warehouseId === warehouseId)?.quantity || 0;
+          const ledgerQuantity = getLedgerBalance(productId, warehouseId);
+          return cachedQuantity === ledgerQuantity ? [] : [{ productId, productName: product.name, warehouseId, cachedQuantity, ledgerQuantity }];
+        });
+        const totalDiscrepancies = products
+          .map(p => ({ productId: p.id, productName: p.name, cachedQuantity: p.quantity, ledgerQuantity: getLedgerBalance(p.id) }))
+          .filter(d => d.cachedQuantity !== d.ledgerQuantity);
+        return [...warehouseDiscrepancies, ...totalDiscrepancies];
+      },
+      rebuildProductQuantities: async () => {
+        await ready;
+        requireRole('Manager', 'Super Admin');
+        const discrepancies = await backend.stock.verifyStockLedger();
+        discrepancies.forEach(d => {
+          if (d.warehouseId) {
+            const stock = (tables.product_stock as ProductStock[]).find(s => s.productId === d.productId && s.warehouseId === d.warehouseId);
+            if (stock) updateRow<ProductStock>('product_stock', stock.id, { quantity: d.ledgerQuantity });
+            else insertRow<ProductStock>('product_stock', { productId: d.productId, warehouseId: d.warehouseId, quantity: d.ledgerQuantity, stockValue: 0 });
+          } else {
+            updateRow<Product>('products', d.productId, { quantity: d.ledgerQuantity, lastUpdated: now() });
+          }
+        });
+        await Promise.all([save('products'), save('product_stock')]);
+        return discrepancies.filter(d => !d.warehouseId).length;
+      },
+    },
+
+    // Mirrors purge_product(), purge_vendor() and clear_all_data().
+    recycleBin: {
+      purgeProduct: async (productId) => {
+        await ready;
+        requireRole('Super Admin');
+        const product = tables.products.find(p => p.id === productId) as Product | undefined;
+        if (!product) throw new Error('PRODUCT_NOT_FOUND');
+        if (!product.archivedAt) throw new Error('NOT_ARCHIVED');
+        if (product.quantity !== 0) throw new Error('PRODUCT_HAS_STOCK');
+        const isOpeningEntry = (m: StockMovement) => m.referenceType === 'product' && m.referenceId === productId;
+        if (
+          (['requests', 'purchase_orders', 'stock_adjustments', 'stocktake_lines'] as TableName[]).some(table => tables[table].some(r => r.productId === productId))
+          || (tables.stock_movements as StockMovement[]).some(m => m.productId === productId && !isOpeningEntry(m))
+          || (tables.products as Product[]).some(p => p.id !== productId && (p.kitComponents || []).some(c => c.productId === productId))
+        ) throw new Error('RECORD_IN_USE');
+        const ownRows = (row: Row) => row.productId === productId;
+        deleteRows('stock_lots', ownRows);
+        deleteRows('cost_layers', ownRows);
+        deleteRows('product_stock', ownRows);
+        deleteRows('products', row => row.id === productId);
+        await Promise.all([save('stock_lots'), save('cost_layers'), save('product_stock'), save('products')]);
+      },
+      purgeVendor: async (vendorId) => {
+        await ready;
+        requireRole('Super Admin');
+        const vendor = tables.vendors.find(v => v.id === vendorId) as Vendor | undefined;
+        if (!vendor) throw new Error('VENDOR_NOT_FOUND');
+        if (!vendor.archivedAt) throw new Error('NOT_ARCHIVED');
+        if (tables.products.some(p => p.supplierId === vendorId) || tables.purchase_orders.some(po => po.vendorId === vendorId)) throw new Error('RECORD_IN_USE');
+        deleteRows('vendors', row => row.id === vendorId);
+        await save('vendors');
+      },
+      clearAllData: async () => {
+        await ready;
+        requireRole('Super Admin');
+        const cleared: TableName[] = [
+          'stock_reservations', 'stocktake_lines', 'stocktakes', 'serial_numbers', 'stock_lots', 'cost_layers', 'product_stock',
+          'requests', 'purchase_orders', 'stock_adjustments', 'products', 'bin_locations', 'vendors',
+        ];
+        cleared.forEach(table => deleteRows(table, () => true));
+        await Promise.all(cleared.map(table => save(table)));
+      },
+    },
+
+    auth: {
+      getSessionUserId: async () => {
+        await ready;
+        const userId = window.localStorage.getItem(SESSION_KEY);
+        return userId && tables.users.some(u => u.id === userId) ? userId : null;
+      },
+      onAuthStateChange: (callback) => {
+        authListeners.add(callback);
+        return () => { authListeners.delete(callback); };
+      },
+      signIn: async (username, password) => {
+        await ready;
+        const user = tables.users.find(u => u.username.toLowerCase() === username.toLowerCase());
+        if (!user || credentials[user.username] !== password) throw new Error('Invalid login credentials');
+        window.localStorage.setItem(SESSION_KEY, user.id);
+        authListeners.forEach(listener => listener(user.id));
+      },
+      signOut: async () => {
+        window.localStorage.removeItem(SESSION_KEY);
+        authListeners.forEach(listener => listener(null));
+      },
+      createCredentials: async (username, password) => {
+        await ready;
+        if (credentials[username]) throw new Error('User already registered');
+        credentials[username] = password;
+        await save('credentials');
+        return newId();
+      },
+      verifyPassword: async (username, password) => {
+        await ready;
+        return credentials[username] === password;
+      },
+      updatePassword: async (newPassword) => {
+        await ready;
+        const user = tables.users.find(u => u.id === window.localStorage.getItem(SESSION_KEY));
+        if (!user) throw new Error('User not authenticated');
+        credentials[user.username] = newPassword;
+        await save('credentials');
+      },
+      sendPasswordReset: async (username) => {
+        // There is no mail server in local mode; the password is reset to the demo password instead.
+        await ready;
+        credentials[username] = DEMO_PASSWORD;
+        await save('credentials');
+      },
+    },
+
+    subscribe: <T extends { id: string }>(table: TableName, onChange: (change: ChangeEvent<T>) => void) => {
+      if (!listeners.has(table)) listeners.set(table, new Set());
+      listeners.get(table)!.add(onChange);
+      return () => { listeners.get(table)?.delete(onChange); };
+    },
+  };
+
+  return backend;
+};
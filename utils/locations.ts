@@ -0,0 +1,49 @@
+import { BinLocation, Product, ProductStock, Warehouse } from '../types';
+import { escapeHtml, openPrintWindow, renderBarcodeSvg } from './labels';
+import { getWarehouseQuantity } from './warehouses';
+
+// Bin codes read from the top of the hierarchy down, e.g. zone A, aisle 01, rack 03, shelf 2 -> "A-01-03-2".
+export const formatBinCode = (parts: { zone: string; aisle?: string; rack?: string; shelf?: string }): string =>
+  [parts.zone, parts.aisle, parts.rack, parts.shelf]
+    .map(part => (part || '').trim().toUpperCase())
+    .filter(Boolean)
+    .join('-');
+
+export const getBinLabel = (bin: BinLocation, warehouses: Warehouse[]): string => {
+  const warehouse = warehouses.find(w => w.id === bin.warehouseId);
+  return warehouse ? `${warehouse.code} · ${bin.code}` : bin.code;
+};
+
+// Units currently stored in a bin: the quantity each product assigned to it holds in the bin's warehouse.
+export const getBinUsage = (bin: BinLocation, products: Product[], productStock: ProductStock[]): number =>
+  products
+    .filter(p => p.locationId === bin.id)
+    .reduce((total, p) => total + getWarehouseQuantity(productStock, p.id, bin.warehouseId), 0);
+
+// Opens a print-ready sheet with one shelf label per bin. The barcode encodes the bin code.
+export const printBinLabels = (bins: BinLocation[], warehouses: Warehouse[]): void => {
+  if (bins.length === 0) return;
+  if (!window.JsBarcode) throw new Error('The barcode library could not be loaded. Check your connection and try again.');
+
+  const labels = bins.map(bin => {
+    const warehouse = warehouses.find(w => w.id === bin.warehouseId);
+    return `
+      <div class="label">
+        <div class="code">${escapeHtml(bin.code)}</div>
+        ${renderBarcodeSvg(bin.code)}
+        <div class="meta">${escapeHtml(warehouse?.name || '')}${bin.capacity ? ` · Capacity ${bin.capacity}` : ''}</div>
+      </div>`;
+  }).join('');
+
+  openPrintWindow(
+    'Bin Location Labels',
+    `body { font-family: sans-serif; margin: 0; padding: 8mm; }
+     .sheet { display: grid; grid-template-columns: repeat(3, 1fr); gap: 4mm; }
+     .label { border: 1px dashed #94a3b8; padding: 3mm; text-align: center; break-inside: avoid; }
+     .label svg { width: 100%; height: 14mm; }
+     .code { font-size: 16pt; font-weight: bold; letter-spacing: 1px; margin-bottom: 2mm; }
+     .meta { font-size: 8pt; color: #475569; margin-top: 1mm; }
+     @media print { .label { border-color: #e2e8f0; } }`,
+    `<div class="sheet">${labels}</div>`
+  );
+};
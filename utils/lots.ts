@@ -0,0 +1,28 @@
+import { LotAllocation, StockLot } from '../types';
+
+// First-expiry-first-out: earliest expiry first, then lots without an expiry in the order they were received.
+export const sortLotsFefo = (lots: StockLot[]): StockLot[] => [...lots].sort((a, b) => {
+  if (a.expiryDate && b.expiryDate && a.expiryDate !== b.expiryDate) return a.expiryDate < b.expiryDate ? -1 : 1;
+  if (a.expiryDate && !b.expiryDate) return -1;
+  if (!a.expiryDate && b.expiryDate) return 1;
+  return a.receivedDate.localeCompare(b.receivedDate);
+});
+
+export const getProductLots = (lots: StockLot[], productId: string, warehouseId?: string): StockLot[] =>
+  lots.filter(l => l.productId === productId && (!warehouseId || l.warehouseId === warehouseId) && l.quantity > 0);
+
+// Lots that an issue of the given quantity takes stock from; any remainder comes from untracked stock.
+export const allocateLotsFefo = (lots: StockLot[], quantity: number): LotAllocation[] => {
+  let remaining = quantity;
+  const allocations: LotAllocation[] = [];
+  for (const lot of sortLotsFefo(lots.filter(l => l.quantity > 0))) {
+    if (remaining <= 0) break;
+    const take = Math.min(lot.quantity, remaining);
+    allocations.push({ lotId: lot.id, lotNumber: lot.lotNumber, expiryDate: lot.expiryDate, quantity: take });
+    remaining -= take;
+  }
+  return allocations;
+};
+
+export const formatLotAllocations = (allocations: LotAllocation[]): string =>
+  allocations.map(a => `${a.lotNumber} × ${a.quantity}`).join(', ');
@@ -0,0 +1,149 @@
+import { QueuedMutation, SyncConflict } from '../types';
+import type { DataBackend, Repository } from './db';
+import { openKeyValueStore, KeyValueStore } from './idbStore';
+import { getStockErrorMessage } from './stockOperations';
+
+// Offline support: the last successful read of every table is cached in IndexedDB and served
+// when the network is unreachable, and stock-changing actions taken offline are kept in a
+// durable outbox that is replayed, in order, once the connection returns.
+
+const IDB_NAME = 'stockerz_offline_v1';
+const IDB_STORE = 'entries';
+const OUTBOX_KEY = 'outbox';
+const CONFLICTS_KEY = 'conflicts';
+
+type RepositoryKey = 'products' | 'productPrices' | 'categoryStockLevels' | 'categoryFieldSchemas' | 'vendors' | 'warehouses' | 'binLocations' | 'productStock' | 'costLayers' | 'stockLots' | 'serialNumbers' | 'requests' | 'stockReservations' | 'purchaseOrders' | 'stockAdjustments' | 'stockMovements' | 'stocktakes' | 'stocktakeLines' | 'users' | 'auditLogs' | 'companySettings';
+
+const CACHED_REPOSITORIES: RepositoryKey[] = ['products', 'productPrices', 'categoryStockLevels', 'categoryFieldSchemas', 'vendors', 'warehouses', 'binLocations', 'productStock', 'costLayers', 'stockLots', 'serialNumbers', 'requests', 'stockReservations', 'purchaseOrders', 'stockAdjustments', 'stockMovements', 'stocktakes', 'stocktakeLines', 'users', 'auditLogs', 'companySettings'];
+
+let storePromise: Promise<KeyValueStore | null> | null = null;
+const getStore = () => {
+  if (!storePromise) storePromise = openKeyValueStore(IDB_NAME, IDB_STORE);
+  return storePromise;
+};
+
+// Outbox reads and writes are chained so an enqueue during a replay cannot overwrite it.
+let outboxLock: Promise<unknown> = Promise.resolve();
+const withOutboxLock = <T>(task: () => Promise<T>): Promise<T> => {
+  const result = outboxLock.then(task);
+  outboxLock = result.catch(() => undefined);
+  return result;
+};
+
+const readEntry = async <T>(key: string, fallback: T): Promise<T> => {
+  const store = await getStore();
+  if (!store) return fallback;
+  return (await store.get<T>(key)) ?? fallback;
+};
+
+const writeEntry = async (key: string, value: unknown): Promise<void> => {
+  const store = await getStore();
+  if (store) await store.put(key, value);
+};
+
+export const isNetworkError = (error: unknown): boolean => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  const message = (error as { message?: string } | null)?.message || '';
+  return /Failed to fetch|NetworkError|Load failed|network request failed/i.test(message);
+};
+
+const withReadCache = <T extends { id: string }>(key: RepositoryKey, repository: Repository<T>): Repository<T> => ({
+  ...repository,
+  list: async () => {
+    try {
+      const rows = await repository.list();
+      writeEntry(`cache:${key}`, rows).catch(error => console.warn(`Could not cache ${key} for offline use`, error));
+      return rows;
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+      const cached = await readEntry<T[] | null>(`cache:${key}`, null);
+      if (!cached) throw error;
+      return cached;
+    }
+  },
+  get: async (id) => {
+    try {
+      return await repository.get(id);
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+      const cached = await readEntry<T[]>(`cache:${key}`, []);
+      return cached.find(row => row.id === id) || null;
+    }
+  },
+});
+
+type RepositoryRow<K extends RepositoryKey> = DataBackend[K] extends Repository<infer T> ? T : never;
+type CachedRepositories<Keys extends RepositoryKey = RepositoryKey> = { [K in Keys]: Repository<RepositoryRow<K>> };
+
+export const withOfflineCache = (backend: DataBackend): DataBackend => {
+  const cached: CachedRepositories = { ...backend };
+  const cacheRepository = <K extends RepositoryKey>(key: K) => {
+    const repositories: CachedRepositories<K> = cached;
+    repositories[key] = withReadCache<RepositoryRow<K>>(key, repositories[key]);
+  };
+  CACHED_REPOSITORIES.forEach(cacheRepository);
+  return { ...backend, ...cached };
+};
+
+export const getOutbox = (): Promise<QueuedMutation[]> => readEntry<QueuedMutation[]>(OUTBOX_KEY, []);
+
+export const getSyncConflicts = (): Promise<SyncConflict[]> => readEntry<SyncConflict[]>(CONFLICTS_KEY, []);
+
+// The id is created before the first attempt and sent with it, so a change that reached the server
+// before the connection dropped is not applied again when the queued copy is replayed.
+export const newMutationId = (): string => crypto.randomUUID();
+
+export const enqueueMutation = (mutation: Omit<QueuedMutation, 'queuedAt'>): Promise<QueuedMutation> =>
+  withOutboxLock(async () => {
+    const queued = { ...mutation, queuedAt: new Date().toISOString() } as QueuedMutation;
+    await writeEntry(OUTBOX_KEY, [...(await getOutbox()), queued]);
+    return queued;
+  });
+
+export const dismissSyncConflict = (conflictId: string): Promise<SyncConflict[]> =>
+  withOutboxLock(async () => {
+    const remaining = (await getSyncConflicts()).filter(conflict => conflict.id !== conflictId);
+    await writeEntry(CONFLICTS_KEY, remaining);
+    return remaining;
+  });
+
+export interface ReplayResult {
+  applied: number;
+  conflicts: SyncConflict[];
+  remaining: QueuedMutation[];
+}
+
+// Replays queued mutations in the order they were recorded. A mutation that the backend rejects
+// (e.g. the stock went negative in the meantime) is moved to the conflict report; a network
+// failure stops the replay and leaves the rest of the outbox for the next attempt.
+export const replayOutbox = (execute: (mutation: QueuedMutation) => Promise<void>): Promise<ReplayResult> =>
+  withOutboxLock(async () => {
+    const outbox = await getOutbox();
+    const newConflicts: SyncConflict[] = [];
+    let applied = 0;
+    let index = 0;
+
+    for (; index < outbox.length; index++) {
+      const mutation = outbox[index];
+      try {
+        await execute(mutation);
+        applied++;
+      } catch (error) {
+        if (isNetworkError(error)) break;
+        console.error("Queued change could not be applied:", error);
+        newConflicts.push({
+          id: crypto.randomUUID(),
+          mutation,
+          reason: getStockErrorMessage(error, (error as { message?: string } | null)?.message || 'The change was rejected.'),
+          date: new Date().toISOString(),
+        });
+      }
+    }
+
+    const remaining = outbox.slice(index);
+    await writeEntry(OUTBOX_KEY, remaining);
+    if (newConflicts.length > 0) {
+      await writeEntry(CONFLICTS_KEY, [...(await getSyncConflicts()), ...newConflicts]);
+    }
+    return { applied, conflicts: newConflicts, remaining };
+  });
@@ -0,0 +1,24 @@
+import { ProductPrice } from '../types';
+
+const byEffectiveDate = (a: ProductPrice, b: ProductPrice) => new Date(a.effectiveDate).getTime() - new Date(b.effectiveDate).getTime();
+
+// Price history by product id, oldest first.
+export const groupPriceHistory = (prices: ProductPrice[]): Map<string, ProductPrice[]> => {
+  const history = new Map<string, ProductPrice[]>();
+  prices.forEach(p => history.set(p.productId, [...(history.get(p.productId) || []), p]));
+  history.forEach(entries => entries.sort(byEffectiveDate));
+  return history;
+};
+
+// The price in force on the date: the latest one effective on or before it. Dates before the
+// history starts get the earliest known price, as earlier prices were not recorded.
+export const getPriceAt = (history: ProductPrice[] | undefined, date: string): number | undefined => {
+  if (!history || history.length === 0) return undefined;
+  const time = new Date(date).getTime();
+  let price = history[0].price;
+  for (const entry of history) {
+    if (new Date(entry.effectiveDate).getTime() > time) break;
+    price = entry.price;
+  }
+  return price;
+};
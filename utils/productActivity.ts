@@ -0,0 +1,50 @@
+import { AuditLog, Product, RequestStatus, StockMovement } from '../types';
+import { ALL_WAREHOUSES } from './warehouses';
+
+export const OPEN_REQUEST_STATUSES: RequestStatus[] = ['Pending Approval', 'Approved'];
+
+// The product page is deep-linked as #/products/<id>.
+export const getProductPageHash = (productId: string): string => `#/products/${encodeURIComponent(productId)}`;
+
+export const parseProductPageHash = (hash: string): string | null => {
+  const match = /^#\/products\/([^/]+)$/.exec(hash);
+  return match ? decodeURIComponent(match[1]) : null;
+};
+
+export interface StockCardLine {
+  movement: StockMovement;
+  balance: number; // Quantity on hand after the movement, in one warehouse or across all of them
+}
+
+// The product's movements oldest first, each with the running balance it leaves.
+export const getStockCard = (movements: StockMovement[], productId: string, warehouseId: string): StockCardLine[] => {
+  let balance = 0;
+  return movements
+    .filter(m => m.productId === productId && (warehouseId === ALL_WAREHOUSES || m.warehouseId === warehouseId))
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    .map(movement => {
+      balance += movement.quantityChange;
+      return { movement, balance };
+    });
+};
+
+// True when "Label: value" appears in the details as a whole field, not as the start of a longer value.
+const hasField = (details: string, label: string, value: string): boolean => {
+  const field = `${label}: ${value}`;
+  let index = details.indexOf(field);
+  while (index !== -1) {
+    const next = details.charAt(index + field.length);
+    if (next === '' || next === ',' || next === ' ' || next === ')') return true;
+    index = details.indexOf(field, index + 1);
+  }
+  return false;
+};
+
+// Audit entries only describe what they touched, so an entry is the product's when its details name
+// the product's SKU or current name, or the id of one of its requests or purchase orders.
+export const isProductAuditEntry = (log: AuditLog, product: Pick<Product, 'sku' | 'name'>, documentIds: Set<string>): boolean => {
+  if (hasField(log.details, 'SKU', product.sku)) return true;
+  if (hasField(log.details, 'Product', product.name)) return true;
+  const id = /\bID: ([^,\s]+)/.exec(log.details)?.[1];
+  return !!id && documentIds.has(id);
+};
@@ -0,0 +1,325 @@
+import { BinLocation, CategoryFieldSchema, Product, StockLevels, Vendor, Warehouse } from '../types';
+import { findFieldByLabel, fromCustomFieldsFormState, getCategoryFields, toCustomFieldsFormState, validateCustomFields } from './customFields';
+import { ProductFormField, ProductFormState, initialProductFormState, validateProductForm } from './productValidation';
+import { fromStockLevelsFormState, toStockLevelsFormState, validateStockLevels, StockLevelsFormState } from './stockLevels';
+import { getBaseUnit } from './units';
+import { getDefaultWarehouse } from './warehouses';
+
+declare global {
+  interface Window {
+    XLSX: any;
+  }
+}
+
+export type ImportField =
+  | 'sku' | 'name' | 'category' | 'quantity' | 'price' | 'supplier' | 'warehouse' | 'location'
+  | 'baseUnit' | 'expiryDate' | 'reorderPoint' | 'reorderQuantity' | 'minStock' | 'maxStock';
+
+// Product fields a column can be mapped to. Aliases are matched against the file's headers to suggest a mapping.
+export const IMPORT_FIELDS: Record<ImportField, { label: string; aliases: string[] }> = {
+  sku: { label: 'SKU', aliases: ['sku', 'barcode', 'code', 'item code', 'product code'] },
+  name: { label: 'Name', aliases: ['name', 'product', 'product name', 'item', 'description'] },
+  category: { label: 'Category', aliases: ['category', 'group'] },
+  quantity: { label: 'Opening Quantity', aliases: ['quantity', 'qty', 'stock', 'opening quantity', 'opening stock'] },
+  price: { label: 'Price', aliases: ['price', 'unit price', 'cost'] },
+  supplier: { label: 'Vendor', aliases: ['vendor', 'supplier', 'vendor name', 'supplier name'] },
+  warehouse: { label: 'Warehouse', aliases: ['warehouse', 'warehouse code', 'site'] },
+  location: { label: 'Bin Location', aliases: ['location', 'bin', 'bin location', 'bin code'] },
+  baseUnit: { label: 'Base Unit', aliases: ['unit', 'base unit', 'uom'] },
+  expiryDate: { label: 'Expiry Date', aliases: ['expiry', 'expiry date', 'expiration date', 'best before'] },
+  reorderPoint: { label: 'Reorder Point', aliases: ['reorder point', 'rop'] },
+  reorderQuantity: { label: 'Reorder Quantity', aliases: ['reorder quantity', 'reorder qty'] },
+  minStock: { label: 'Minimum Stock', aliases: ['minimum', 'min stock', 'minimum stock', 'safety stock'] },
+  maxStock: { label: 'Maximum Stock', aliases: ['maximum', 'max stock', 'maximum stock'] },
+};
+
+// Column index of each mapped field. Custom category fields are mapped by their label.
+export type ColumnMapping = Partial<Record<ImportField, number>> & { custom?: Record<string, number> };
+
+export interface ImportSheet {
+  headers: string[];
+  rows: string[][];
+}
+
+export const MAX_IMPORT_ROWS = 5000;
+
+// Parses CSV text as written by spreadsheets: quoted fields may hold separators, quotes ("") and line breaks.
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const delimiter = (text.split('\n')[0].match(/;/g) || []).length > (text.split('\n')[0].match(/,/g) || []).length ? ';' : ',';
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') inQuotes = false;
+      else field += char;
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+// Reads the first sheet of an XLSX workbook, or a CSV file, into a header row and data rows. Blank rows are dropped.
+export const readImportFile = async (file: File): Promise<ImportSheet> => {
+  let table: string[][];
+  if (/\.(xlsx|xls)$/i.test(file.name)) {
+    if (!window.XLSX) throw new Error('The spreadsheet library could not be loaded. Check your connection and try again.');
+    const workbook = window.XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: true });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    table = window.XLSX.utils.sheet_to_json(sheet, { header: 1, raw: false, dateNF: 'yyyy-mm-dd', defval: '' });
+  } else if (/\.csv$/i.test(file.name)) {
+    table = parseCsv((await file.text()).replace(/^\uFEFF/, ''));
+  } else {
+    throw new Error('Choose a .csv or .xlsx file.');
+  }
+
+  const [headerRow, ...dataRows] = table.filter(row => row.some(cell => String(cell).trim() !== ''));
+  if (!headerRow) throw new Error('The file is empty.');
+  if (dataRows.length > MAX_IMPORT_ROWS) throw new Error(`The file has ${dataRows.length} rows. Import at most ${MAX_IMPORT_ROWS} at a time.`);
+  return {
+    headers: headerRow.map(cell => String(cell).trim()),
+    rows: dataRows.map(row => row.map(cell => String(cell))),
+  };
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[_\-.]+/g, ' ').replace(/\s+/g, ' ').trim();
+
+export const guessColumnMapping = (headers: string[], customLabels: string[] = []): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const used: number[] = [];
+  const normalized = headers.map(normalizeHeader);
+  (Object.keys(IMPORT_FIELDS) as ImportField[]).forEach(field => {
+    const index = normalized.findIndex((header, i) => IMPORT_FIELDS[field].aliases.includes(header) && !used.includes(i));
+    if (index !== -1) { mapping[field] = index; used.push(index); }
+  });
+  customLabels.forEach(label => {
+    const index = normalized.findIndex((header, i) => header === normalizeHeader(label) && !used.includes(i));
+    if (index !== -1) { mapping.custom = { ...mapping.custom, [label]: index }; used.push(index); }
+  });
+  return mapping;
+};
+
+// What importing a row does. Rows with errors are never imported.
+export type ImportAction = 'create' | 'update' | 'skip' | 'error';
+
+export type ExistingSkuHandling = 'update' | 'skip';
+
+export interface ProductImportRow {
+  rowNumber: number; // Line in the file, counting the header as line 1
+  sku: string;
+  name: string;
+  action: ImportAction;
+  errors: string[];
+  notes: string[];
+  existing?: Product;
+  data?: Omit<Product, 'id' | 'lastModifiedBy'>;
+}
+
+export interface ProductImportSummary {
+  created: number;
+  updated: number;
+  skipped: number;
+  invalid: number; // Rows left out because of errors
+  failed: { rowNumber: number; sku: string; message: string }[];
+}
+
+interface ImportContext {
+  products: Product[]; // Deleted products included, so their SKUs are not reused
+  vendors: Vendor[];
+  warehouses: Warehouse[];
+  binLocations: BinLocation[];
+  categoryFieldSchemas: CategoryFieldSchema[];
+  existingSkus: ExistingSkuHandling;
+}
+
+const STOCK_LEVEL_IMPORT_FIELDS: (keyof StockLevels & ImportField)[] = ['reorderPoint', 'reorderQuantity', 'minStock', 'maxStock'];
+
+// Imported products are plain stock items; serial tracking, kits and pack sizes are set up on the product form.
+const NEW_PRODUCT_DEFAULTS: Partial<Product> = { isSerialized: false, isKit: false, kitComponents: [], unitConversions: [] };
+
+const isWholeNumber = (value: string) => /^\d+$/.test(value);
+
+const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const toProductFormState = (product: Product): ProductFormState => ({
+  name: product.name,
+  sku: product.sku,
+  category: product.category,
+  quantity: String(product.quantity),
+  price: String(product.price),
+  locationId: product.locationId || '',
+  supplierId: product.supplierId,
+  imageUrl: product.imageUrl || '',
+  expiryDate: product.expiryDate ? product.expiryDate.split('T')[0] : '',
+  homeWarehouseId: product.homeWarehouseId || '',
+  baseUnit: getBaseUnit(product),
+});
+
+/**
+ * Checks every row of an import against the same rules as the product form and works out whether it
+ * creates a product or updates the one with its SKU. On updates, blank or unmapped cells keep the product's
+ * current value, the quantity is left to the stock ledger and the base unit cannot change. Custom field
+ * columns are checked against the fields of the row's category.
+ */
+export const buildImportPreview = (sheet: ImportSheet, mapping: ColumnMapping, context: ImportContext): ProductImportRow[] => {
+  const { products, vendors, warehouses, binLocations, categoryFieldSchemas, existingSkus } = context;
+  const defaultWarehouse = getDefaultWarehouse(warehouses);
+  const cell = (row: string[], field: ImportField) => mapping[field] !== undefined ? (row[mapping[field] as number] || '').trim() : '';
+
+  const rowsBySku = new Map<string, number[]>();
+  sheet.rows.forEach((row, index) => {
+    const sku = cell(row, 'sku').toLowerCase();
+    if (sku) rowsBySku.set(sku, [...(rowsBySku.get(sku) || []), index + 2]);
+  });
+
+  return sheet.rows.map((row, index): ProductImportRow => {
+    const rowNumber = index + 2;
+    const sku = cell(row, 'sku');
+    const errors: string[] = [];
+    const notes: string[] = [];
+    const existing = sku ? products.find(p => !p.archivedAt && sameText(p.sku, sku)) : undefined;
+    const result = { rowNumber, sku, name: cell(row, 'name') || existing?.name || '', errors, notes, existing };
+
+    if (!existing && sku && products.some(p => p.archivedAt && sameText(p.sku, sku))) {
+      errors.push('A deleted product has this SKU. Restore it from the Recycle Bin to update it.');
+      return { ...result, action: 'error' };
+    }
+
+    const duplicateRows = rowsBySku.get(sku.toLowerCase()) || [];
+    if (duplicateRows.length > 1) {
+      errors.push(`SKU appears more than once in the file (rows ${duplicateRows.join(', ')}).`);
+      return { ...result, action: 'error' };
+    }
+    if (existing && existingSkus === 'skip') {
+      notes.push('A product with this SKU already exists.');
+      return { ...result, action: 'skip' };
+    }
+
+    const formState: ProductFormState = existing
+      ? toProductFormState(existing)
+      : { ...initialProductFormState, homeWarehouseId: defaultWarehouse?.id || '' };
+    (['name', 'sku', 'category', 'baseUnit'] as const).forEach(field => {
+      const value = cell(row, field);
+      if (value) formState[field] = value;
+    });
+
+    const baseUnit = cell(row, 'baseUnit');
+    if (existing && baseUnit) {
+      if (!sameText(baseUnit, getBaseUnit(existing))) {
+        errors.push(`Base unit cannot be changed from "${getBaseUnit(existing)}" on an existing product; stock is counted in it.`);
+      }
+      // The same unit in another case keeps the product's own spelling.
+      formState.baseUnit = getBaseUnit(existing);
+    }
+
+    const quantity = cell(row, 'quantity');
+    if (existing) {
+      if (quantity && Number(quantity) !== existing.quantity) notes.push('Quantity is not changed for existing products; use a stock adjustment.');
+    } else if (quantity && !isWholeNumber(quantity)) {
+      errors.push('Quantity must be a whole number.');
+    } else {
+      formState.quantity = quantity || '0';
+    }
+
+    const price = cell(row, 'price');
+    if (price && !isWholeNumber(price)) errors.push('Price must be a whole number without separators.');
+    else if (price) formState.price = price;
+
+    const vendorName = cell(row, 'supplier');
+    if (vendorName) {
+      const vendor = vendors.find(v => sameText(v.name, vendorName));
+      if (vendor) formState.supplierId = vendor.id;
+      else errors.push(`No vendor is named "${vendorName}".`);
+    }
+
+    const warehouseName = cell(row, 'warehouse');
+    const warehouse = warehouseName ? warehouses.find(w => sameText(w.code, warehouseName) || sameText(w.name, warehouseName)) : undefined;
+    if (warehouseName && !warehouse) errors.push(`No warehouse has the code or name "${warehouseName}".`);
+    if (warehouse && !existing) formState.homeWarehouseId = warehouse.id;
+
+    // Bin codes are unique within a warehouse: the row's warehouse, else where the product is shelved now, else the opening stock warehouse.
+    const binCode = cell(row, 'location');
+    if (binCode) {
+      const binWarehouseId = warehouse?.id || binLocations.find(b => b.id === existing?.locationId)?.warehouseId || formState.homeWarehouseId;
+      const bin = binLocations.find(b => b.warehouseId === binWarehouseId && sameText(b.code, binCode));
+      if (bin) formState.locationId = bin.id;
+      else errors.push(`No bin "${binCode}" in warehouse ${warehouses.find(w => w.id === binWarehouseId)?.code || 'selected for this row'}.`);
+    }
+
+    const expiryDate = cell(row, 'expiryDate');
+    if (expiryDate && (!/^\d{4}-\d{2}-\d{2}$/.test(expiryDate) || isNaN(new Date(expiryDate).getTime()))) {
+      errors.push('Expiry date must be written as YYYY-MM-DD.');
+    } else if (expiryDate) {
+      formState.expiryDate = expiryDate;
+    }
+
+    const stockLevels: StockLevelsFormState = toStockLevelsFormState(existing);
+    STOCK_LEVEL_IMPORT_FIELDS.forEach(field => {
+      const value = cell(row, field);
+      if (value && !isWholeNumber(value)) errors.push(`${IMPORT_FIELDS[field].label} must be a whole number.`);
+      else if (value) stockLevels[field] = value;
+    });
+    const levels = fromStockLevelsFormState(stockLevels);
+
+    const customFields = getCategoryFields(categoryFieldSchemas, formState.category);
+    const customValues = toCustomFieldsFormState(customFields, existing?.customFields);
+    Object.entries(mapping.custom || {}).forEach(([label, column]) => {
+      const value = (row[column] || '').trim();
+      if (!value) return;
+      const field = findFieldByLabel(customFields, label);
+      if (field) customValues[field.key] = value;
+      else notes.push(`${label} is not a field of ${formState.category.trim() || 'this category'} and was not imported.`);
+    });
+    Object.values(validateCustomFields(customFields, customValues)).forEach(error => errors.push(error));
+
+    const formErrors = validateProductForm(formState, products, existing);
+    (Object.keys(formErrors) as ProductFormField[]).forEach(field => errors.push(formErrors[field] as string));
+    const levelErrors = validateStockLevels(levels);
+    STOCK_LEVEL_IMPORT_FIELDS.forEach(field => { if (levelErrors[field]) errors.push(`${IMPORT_FIELDS[field].label}: ${levelErrors[field]}`); });
+
+    if (errors.length > 0) return { ...result, action: 'error' };
+
+    const current: Partial<Product> = existing ? { ...existing } : { ...NEW_PRODUCT_DEFAULTS };
+    delete current.id;
+    delete current.lastModifiedBy;
+    const bin = binLocations.find(b => b.id === formState.locationId);
+    const data: Omit<Product, 'id' | 'lastModifiedBy'> = {
+      ...current,
+      ...levels,
+      name: formState.name.trim(),
+      sku: formState.sku.trim(),
+      category: formState.category.trim(),
+      quantity: Number(formState.quantity),
+      price: Number(formState.price),
+      locationId: formState.locationId,
+      location: bin?.code || '',
+      supplierId: formState.supplierId,
+      expiryDate: formState.expiryDate ? new Date(formState.expiryDate).toISOString() : undefined,
+      homeWarehouseId: formState.homeWarehouseId || undefined,
+      baseUnit: formState.baseUnit.trim(),
+      customFields: fromCustomFieldsFormState(customFields, customValues),
+      lastUpdated: new Date().toISOString(),
+    };
+    return { ...result, name: data.name, action: existing ? 'update' : 'create', data };
+  });
+};
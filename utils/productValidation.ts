@@ -0,0 +1,93 @@
+import { Product } from '../types';
+import { DEFAULT_BASE_UNIT } from './units';
+
+// Product fields as entered on the product form; every value is kept as a string until saved.
+export interface ProductFormState {
+  name: string;
+  sku: string;
+  category: string;
+  quantity: string;
+  price: string;
+  locationId: string;
+  supplierId: string;
+  imageUrl: string;
+  expiryDate: string;
+  homeWarehouseId: string;
+  baseUnit: string;
+}
+
+export type ProductFormField = keyof ProductFormState;
+
+export const initialProductFormState: ProductFormState = {
+  name: '',
+  sku: '',
+  category: '',
+  quantity: '',
+  price: '',
+  locationId: '',
+  supplierId: '',
+  imageUrl: '',
+  expiryDate: '',
+  homeWarehouseId: '',
+  baseUnit: DEFAULT_BASE_UNIT,
+};
+
+// Validates one product form field. `product` is the product being edited, undefined for a new one.
+export const validateProductField = (name: ProductFormField, value: string, allProducts: Product[], product?: Product): string | undefined => {
+  switch (name) {
+      case 'name':
+          if (!value.trim()) return "Product name cannot be empty.";
+          break;
+      case 'sku': {
+          if (!value.trim()) return "SKU cannot be empty.";
+          const owner = allProducts.find(p => p.sku.toLowerCase() === value.toLowerCase() && p.id !== product?.id);
+          if (owner?.archivedAt) return "SKU is used by a deleted product. Restore it from the Recycle Bin instead.";
+          if (owner) return "SKU is already used by another product.";
+          break;
+      }
+      case 'category':
+          if (!value.trim()) return "Category cannot be empty.";
+          break;
+      case 'baseUnit':
+          if (!value.trim()) return "Base unit cannot be empty.";
+          break;
+      case 'homeWarehouseId':
+          // Only new products post an opening balance, so only they need a warehouse.
+          if (!product && !value) return "Opening stock warehouse must be selected.";
+          break;
+      case 'quantity': {
+          const rawValue = value.replace(/\D/g, '');
+          if (rawValue.trim() === '') return "Quantity cannot be empty.";
+          const numQuantity = Number(rawValue);
+          if (isNaN(numQuantity) || !Number.isInteger(numQuantity)) return "Quantity must be a whole number.";
+          if (numQuantity < 0) return "Stock quantity cannot be negative.";
+          break;
+      }
+      case 'price': {
+          const rawValue = value.replace(/\D/g, '');
+          if (rawValue.trim() === '') return "Price cannot be empty.";
+          const numPrice = Number(rawValue);
+          if (isNaN(numPrice)) return "Price must be a number.";
+          if (numPrice < 0) return "Price cannot be negative.";
+          break;
+      }
+      case 'locationId':
+          if (!value) return "Bin location must be selected.";
+          break;
+      case 'supplierId':
+          if (!value) return "Supplier must be selected.";
+          break;
+      default:
+          return undefined;
+  }
+  return undefined;
+};
+
+export const validateProductForm = (formState: ProductFormState, allProducts: Product[], product?: Product): Partial<Record<ProductFormField, string>> => {
+  const errors: Partial<Record<ProductFormField, string>> = {};
+  (Object.keys(formState) as ProductFormField[]).forEach(field => {
+      const error = validateProductField(field, formState[field], allProducts, product);
+      if (error) errors[field] = error;
+  });
+  return errors;
+};
@@ -0,0 +1,114 @@
+import { Product, PurchaseOrder, Request, StockAdjustment, StockMovement, StocktakeLine, Vendor } from '../types';
+import { formatNumber } from './helpers';
+import { OPEN_REQUEST_STATUSES } from './productActivity';
+import { OPEN_PURCHASE_ORDER_STATUSES } from './stockLevels';
+import { getBaseUnit } from './units';
+
+// Everything that can refer to a product or vendor. `products` includes archived products.
+export interface RecordReferences {
+  products: Product[];
+  requests: Request[];
+  purchaseOrders: PurchaseOrder[];
+  stockMovements: StockMovement[];
+  stockAdjustments: StockAdjustment[];
+  stocktakeLines: StocktakeLine[];
+}
+
+// Blockers stop the action; warnings are shown for the user to confirm.
+export interface ReferenceCheck {
+  blockers: string[];
+  warnings: string[];
+}
+
+export const isArchived = (record: Product | Vendor): boolean => !!record.archivedAt;
+
+const plural = (count: number, noun: string) => `${formatNumber(count)} ${noun}${count === 1 ? '' : 's'}`;
+
+const quoteNames = (records: { name: string }[]) => records.map(r => `"${r.name}"`).join(', ');
+
+// Runs a check on each record and prefixes its findings with the record's name.
+export const combineChecks = <T extends { name: string }>(records: T[], check: (record: T) => ReferenceCheck): ReferenceCheck => {
+  const combined: ReferenceCheck = { blockers: [], warnings: [] };
+  records.forEach(record => {
+    const { blockers, warnings } = check(record);
+    combined.blockers.push(...blockers.map(b => `${record.name}: ${b}`));
+    combined.warnings.push(...warnings.map(w => `${record.name}: ${w}`));
+  });
+  return combined;
+};
+
+/**
+ * A product cannot be archived while a request or purchase order for it is still open, or while an active kit
+ * uses it, unless that kit is archived along with it (`archivingIds`).
+ */
+export const checkProductArchive = (product: Product, refs: RecordReferences, archivingIds: Set<string> = new Set()): ReferenceCheck => {
+  const blockers: string[] = [];
+  const openRequests = refs.requests.filter(r => r.productId === product.id && OPEN_REQUEST_STATUSES.includes(r.status)).length;
+  if (openRequests > 0) blockers.push(`It has ${plural(openRequests, 'open request')}. Collect, reject or cancel them first.`);
+  const openOrders = refs.purchaseOrders.filter(po => po.productId === product.id && OPEN_PURCHASE_ORDER_STATUSES.includes(po.status)).length;
+  if (openOrders > 0) blockers.push(`It has ${plural(openOrders, 'open purchase order')}. Receive or reject them first.`);
+  const kits = refs.products.filter(p => p.isKit && !isArchived(p) && !archivingIds.has(p.id) && (p.kitComponents || []).some(c => c.productId === product.id));
+  if (kits.length > 0) blockers.push(`It is a component of ${quoteNames(kits)}.`);
+
+  const warnings = product.quantity > 0
+    ? [`${formatNumber(product.quantity)} ${getBaseUnit(product)} are still in stock. The stock stays in the ledger but is hidden with the product until it is restored.`]
+    : [];
+  return { blockers, warnings };
+};
+
+// A vendor cannot be archived while it supplies active products or has open purchase orders.
+export const checkVendorArchive = (vendor: Vendor, refs: RecordReferences, archivingProductIds: Set<string> = new Set()): ReferenceCheck => {
+  const blockers: string[] = [];
+  const supplied = refs.products.filter(p => p.supplierId === vendor.id && !isArchived(p) && !archivingProductIds.has(p.id)).length;
+  if (supplied > 0) blockers.push(`It supplies ${plural(supplied, 'product')}. Choose another supplier for them or delete them first.`);
+  const openOrders = refs.purchaseOrders.filter(po => po.vendorId === vendor.id && OPEN_PURCHASE_ORDER_STATUSES.includes(po.status)).length;
+  if (openOrders > 0) blockers.push(`It has ${plural(openOrders, 'open purchase order')}. Receive or reject them first.`);
+  return { blockers, warnings: [] };
+};
+
+// A restored product must not clash with an active product's SKU, and its supplier and kit components must be active.
+export const checkProductRestore = (product: Product, refs: RecordReferences, vendors: Vendor[]): ReferenceCheck => {
+  const blockers: string[] = [];
+  const skuOwner = refs.products.find(p => p.id !== product.id && !isArchived(p) && p.sku.toLowerCase() === product.sku.toLowerCase());
+  if (skuOwner) blockers.push(`Its SKU ${product.sku} is now used by "${skuOwner.name}".`);
+  const supplier = vendors.find(v => v.id === product.supplierId);
+  if (supplier && isArchived(supplier)) blockers.push(`Its supplier "${supplier.name}" is in the recycle bin. Restore the vendor first.`);
+  const archivedComponents = (product.kitComponents || [])
+    .map(c => refs.products.find(p => p.id === c.productId))
+    .filter((p): p is Product => !!p && isArchived(p));
+  if (archivedComponents.length > 0) blockers.push(`Its components ${quoteNames(archivedComponents)} are in the recycle bin. Restore them first.`);
+  return { blockers, warnings: [] };
+};
+
+// The Opening movement and opening valuation reference the product itself. They stay in the ledger when it is purged.
+const isOpeningEntry = (movement: StockMovement, product: Product) =>
+  movement.referenceType === 'product' && movement.referenceId === product.id;
+
+/**
+ * Only records nothing refers to can be purged, so that requests, orders and the stock ledger never point at a missing
+ * record. Mirrors purge_product() and purge_vendor(), which make the same checks in the database.
+ */
+export const checkProductPurge = (product: Product, refs: RecordReferences): ReferenceCheck => {
+  const blockers: string[] = [];
+  if (product.quantity !== 0) blockers.push(`${formatNumber(product.quantity)} ${getBaseUnit(product)} are still in stock.`);
+  const counts: [number, string][] = [
+    [refs.requests.filter(r => r.productId === product.id).length, 'request'],
+    [refs.purchaseOrders.filter(po => po.productId === product.id).length, 'purchase order'],
+    [refs.stockMovements.filter(m => m.productId === product.id && !isOpeningEntry(m, product)).length, 'stock movement'],
+    [refs.stockAdjustments.filter(a => a.productId === product.id).length, 'stock adjustment'],
+    [refs.stocktakeLines.filter(l => l.productId === product.id).length, 'stocktake line'],
+  ];
+  counts.filter(([count]) => count > 0).forEach(([count, noun]) => blockers.push(`${plural(count, noun)} refer${count === 1 ? 's' : ''} to it.`));
+  const kits = refs.products.filter(p => p.id !== product.id && (p.kitComponents || []).some(c => c.productId === product.id));
+  if (kits.length > 0) blockers.push(`It is a component of ${quoteNames(kits)}.`);
+  return { blockers, warnings: [] };
+};
+
+export const checkVendorPurge = (vendor: Vendor, refs: RecordReferences): ReferenceCheck => {
+  const blockers: string[] = [];
+  const products = refs.products.filter(p => p.supplierId === vendor.id).length;
+  if (products > 0) blockers.push(`${plural(products, 'product')}, active or archived, name it as supplier.`);
+  const orders = refs.purchaseOrders.filter(po => po.vendorId === vendor.id).length;
+  if (orders > 0) blockers.push(`${plural(orders, 'purchase order')} refer${orders === 1 ? 's' : ''} to it.`);
+  return { blockers, warnings: [] };
+};
@@ -0,0 +1,44 @@
+import { ProductStock, Request, StockReservation } from '../types';
+import { ALL_WAREHOUSES } from './warehouses';
+
+// Approved requests hold their stock this long before the reservation is released.
+export const RESERVATION_HOLD_DAYS = 7;
+// How often the app releases overdue reservations while it is open.
+export const RESERVATION_EXPIRY_CHECK_MS = 5 * 60 * 1000;
+
+export const getReservationExpiry = (approvedAt: Date = new Date()): string =>
+  new Date(approvedAt.getTime() + RESERVATION_HOLD_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+// Requests approved before reservations existed had their stock issued on approval and hold nothing.
+export const holdsReservation = (request: Pick<Request, 'status' | 'reservedUntil'>): boolean =>
+  request.status === 'Approved' && !!request.reservedUntil;
+
+export const isReservationOverdue = (request: Pick<Request, 'status' | 'reservedUntil'>, now: number = Date.now()): boolean =>
+  holdsReservation(request) && new Date(request.reservedUntil!).getTime() < now;
+
+const stockKey = (productId: string, warehouseId: string) => `${productId}|${warehouseId}`;
+
+// Reserved quantity by product, in one warehouse or summed across all of them.
+export const getReservedQuantities = (reservations: StockReservation[], warehouseId: string): Map<string, number> => {
+  const totals = new Map<string, number>();
+  reservations
+    .filter(r => warehouseId === ALL_WAREHOUSES || r.warehouseId === warehouseId)
+    .forEach(r => totals.set(r.productId, (totals.get(r.productId) || 0) + r.quantity));
+  return totals;
+};
+
+export const getReservedQuantity = (reservations: StockReservation[], productId: string, warehouseId: string): number =>
+  reservations
+    .filter(r => r.productId === productId && r.warehouseId === warehouseId)
+    .reduce((sum, r) => sum + r.quantity, 0);
+
+// Warehouse stock less what is reserved: what can still be requested, issued or built into kits.
+export const getAvailableStock = (productStock: ProductStock[], reservations: StockReservation[]): ProductStock[] => {
+  if (reservations.length === 0) return productStock;
+  const reserved = new Map<string, number>();
+  reservations.forEach(r => reserved.set(stockKey(r.productId, r.warehouseId), (reserved.get(stockKey(r.productId, r.warehouseId)) || 0) + r.quantity));
+  return productStock.map(s => {
+    const quantity = reserved.get(stockKey(s.productId, s.warehouseId));
+    return quantity ? { ...s, quantity: Math.max(s.quantity - quantity, 0) } : s;
+  });
+};
@@ -0,0 +1,74 @@
+import { Product, PurchaseOrder, SerialNumber } from '../types';
+import { escapeHtml, openPrintWindow, renderQrCodeSvg, toEan13 } from './labels';
+import { formatDocumentQuantity } from './units';
+
+// QR codes printed on purchase orders carry this prefix followed by the purchase order id.
+const PURCHASE_ORDER_CODE_PREFIX = 'stockerz:po:';
+
+export const getPurchaseOrderScanCode = (purchaseOrder: PurchaseOrder): string => `${PURCHASE_ORDER_CODE_PREFIX}${purchaseOrder.id}`;
+
+// Opens a print-ready slip with the purchase order's QR code, to go with the delivery paperwork.
+export const printPurchaseOrderQr = (purchaseOrder: PurchaseOrder): void => {
+  const qr = renderQrCodeSvg(getPurchaseOrderScanCode(purchaseOrder));
+  openPrintWindow(
+    'Purchase Order QR Code',
+    `body { font-family: sans-serif; margin: 0; padding: 12mm; }
+     .slip { width: 70mm; border: 1px dashed #94a3b8; padding: 5mm; text-align: center; }
+     .slip svg { width: 50mm; height: 50mm; }
+     .title { font-size: 12pt; font-weight: bold; margin-top: 3mm; }
+     .meta { font-size: 9pt; color: #475569; margin-top: 1mm; }`,
+    `<div class="slip">
+       ${qr}
+       <div class="title">${escapeHtml(purchaseOrder.productName)}</div>
+       <div class="meta">${escapeHtml(formatDocumentQuantity(purchaseOrder))} · PO ${escapeHtml(purchaseOrder.id.slice(0, 8))}</div>
+       <div class="meta">Scan to receive</div>
+     </div>`
+  );
+};
+
+export type ScanMatch =
+  | { kind: 'product'; product: Product; serialNumber?: string }
+  | { kind: 'purchase_order'; purchaseOrder: PurchaseOrder }
+  | { kind: 'unknown'; code: string };
+
+// What a scanned code refers to: a purchase order QR, a product SKU (also as printed on EAN-13 labels) or the serial number of a unit.
+export const resolveScanCode = (
+  code: string,
+  products: Product[],
+  serialNumbers: SerialNumber[],
+  purchaseOrders: PurchaseOrder[]
+): ScanMatch => {
+  const value = code.trim();
+  if (value.toLowerCase().startsWith(PURCHASE_ORDER_CODE_PREFIX)) {
+    const purchaseOrder = purchaseOrders.find(po => po.id === value.slice(PURCHASE_ORDER_CODE_PREFIX.length));
+    return purchaseOrder ? { kind: 'purchase_order', purchaseOrder } : { kind: 'unknown', code: value };
+  }
+
+  const lowerValue = value.toLowerCase();
+  const product = products.find(p => p.sku.trim().toLowerCase() === lowerValue) || products.find(p => toEan13(p.sku.trim()) === value);
+  if (product) return { kind: 'product', product };
+
+  const serial = serialNumbers.find(s => s.serialNumber === value);
+  const serialProduct = serial && products.find(p => p.id === serial.productId);
+  if (serial && serialProduct) return { kind: 'product', product: serialProduct, serialNumber: serial.serialNumber };
+
+  return { kind: 'unknown', code: value };
+};
+
+// Units scanned of one product. Serialized products count each serial number once.
+export interface ScanTallyLine {
+  productId: string;
+  quantity: number;
+  serialNumbers: string[];
+}
+
+// Adds a scanned unit to the tally. Returns the tally unchanged when the same serial number is scanned twice.
+export const addToScanTally = (tally: ScanTallyLine[], productId: string, serialNumber?: string): ScanTallyLine[] => {
+  const line = tally.find(l => l.productId === productId);
+  if (serialNumber && line?.serialNumbers.includes(serialNumber)) return tally;
+  const serials = serialNumber ? [serialNumber] : [];
+  if (!line) return [...tally, { productId, quantity: 1, serialNumbers: serials }];
+  return tally.map(l => l === line ? { ...l, quantity: l.quantity + 1, serialNumbers: [...l.serialNumbers, ...serials] } : l);
+};
+
+export const getScanTallyTotal = (tally: ScanTallyLine[]): number => tally.reduce((total, line) => total + line.quantity, 0);
@@ -0,0 +1,36 @@
+import { PurchaseOrder, Request, SerialNumber, StockMovement } from '../types';
+
+// Serial numbers typed or scanned one per line, or separated by commas.
+export const parseSerialNumbers = (text: string): string[] =>
+  text.split(/[\n,]/).map(s => s.trim()).filter(Boolean);
+
+export const findDuplicateSerials = (serialNumbers: string[]): string[] =>
+  [...new Set(serialNumbers.filter((s, i) => serialNumbers.indexOf(s) !== i))];
+
+// Mirrors public.normalize_serial_numbers().
+export const normalizeSerialNumbers = (serialNumbers: string[] = []): string[] =>
+  [...new Set(serialNumbers.map(s => s.trim()).filter(Boolean))].sort();
+
+export const getAvailableSerials = (serials: SerialNumber[], productId: string, warehouseId: string): SerialNumber[] =>
+  serials
+    .filter(s => s.productId === productId && s.warehouseId === warehouseId && s.status === 'In Stock')
+    .sort((a, b) => a.serialNumber.localeCompare(b.serialNumber));
+
+// Movements of the documents the unit was received and issued on, oldest first.
+export const getSerialHistory = (
+  serial: SerialNumber,
+  purchaseOrders: PurchaseOrder[],
+  requests: Request[],
+  stockMovements: StockMovement[]
+): StockMovement[] => {
+  const carries = (doc: { productId: string; serialNumbers?: string[] }) =>
+    doc.productId === serial.productId && !!doc.serialNumbers?.includes(serial.serialNumber);
+  const poIds = new Set(purchaseOrders.filter(carries).map(po => po.id));
+  const requestIds = new Set(requests.filter(carries).map(r => r.id));
+  return stockMovements
+    .filter(m => m.productId === serial.productId && m.referenceId && (
+      (m.referenceType === 'purchase_order' && poIds.has(m.referenceId)) ||
+      (m.referenceType === 'request' && requestIds.has(m.referenceId))
+    ))
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
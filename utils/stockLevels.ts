@@ -0,0 +1,113 @@
+import { CategoryStockLevels, Product, PurchaseOrder, PurchaseOrderStatus, StockLevels, StockStatus } from '../types';
+import { DEFAULT_REORDER_POINT, DEFAULT_REORDER_QUANTITY } from '../constants';
+
+export interface ResolvedStockLevels {
+  reorderPoint: number;
+  reorderQuantity: number;
+  minStock: number;
+  maxStock?: number;
+}
+
+export const STOCK_LEVEL_FIELDS: { key: keyof StockLevels; label: string }[] = [
+  { key: 'reorderPoint', label: 'Reorder Point' },
+  { key: 'reorderQuantity', label: 'Reorder Quantity' },
+  { key: 'minStock', label: 'Minimum (Safety)' },
+  { key: 'maxStock', label: 'Maximum' },
+];
+
+const STOCK_LEVEL_KEYS = STOCK_LEVEL_FIELDS.map(field => field.key);
+
+// Form inputs hold levels as strings; an empty input means "use the default".
+export type StockLevelsFormState = Record<keyof StockLevels, string>;
+
+export const toStockLevelsFormState = (levels?: StockLevels): StockLevelsFormState => ({
+  reorderPoint: levels?.reorderPoint != null ? String(levels.reorderPoint) : '',
+  reorderQuantity: levels?.reorderQuantity != null ? String(levels.reorderQuantity) : '',
+  minStock: levels?.minStock != null ? String(levels.minStock) : '',
+  maxStock: levels?.maxStock != null ? String(levels.maxStock) : '',
+});
+
+export const fromStockLevelsFormState = (form: StockLevelsFormState): StockLevels => ({
+  reorderPoint: form.reorderPoint === '' ? null : Number(form.reorderPoint),
+  reorderQuantity: form.reorderQuantity === '' ? null : Number(form.reorderQuantity),
+  minStock: form.minStock === '' ? null : Number(form.minStock),
+  maxStock: form.maxStock === '' ? null : Number(form.maxStock),
+});
+
+export const getCategoryDefaults = (category: string, categoryLevels: CategoryStockLevels[]): ResolvedStockLevels => {
+  const levels = categoryLevels.find(c => c.category === category);
+  return {
+    reorderPoint: levels?.reorderPoint ?? DEFAULT_REORDER_POINT,
+    reorderQuantity: levels?.reorderQuantity ?? DEFAULT_REORDER_QUANTITY,
+    minStock: levels?.minStock ?? 0,
+    maxStock: levels?.maxStock ?? undefined,
+  };
+};
+
+// Each level is taken from the product when set, else from its category, else from the app defaults.
+export const resolveStockLevels = (product: Product, categoryLevels: CategoryStockLevels[]): ResolvedStockLevels => {
+  const defaults = getCategoryDefaults(product.category, categoryLevels);
+  return {
+    reorderPoint: product.reorderPoint ?? defaults.reorderPoint,
+    reorderQuantity: product.reorderQuantity ?? defaults.reorderQuantity,
+    minStock: product.minStock ?? defaults.minStock,
+    maxStock: product.maxStock ?? defaults.maxStock,
+  };
+};
+
+export const getStockStatus = (quantity: number, levels: ResolvedStockLevels): StockStatus => {
+  if (quantity <= 0) return 'out';
+  if (quantity < levels.minStock) return 'belowMin';
+  if (quantity <= levels.reorderPoint) return 'reorder';
+  if (levels.maxStock !== undefined && quantity > levels.maxStock) return 'overMax';
+  return 'ok';
+};
+
+export const needsReorder = (status: StockStatus): boolean => status === 'out' || status === 'belowMin' || status === 'reorder';
+
+export const STOCK_STATUS_LABELS: Record<StockStatus, string> = {
+  out: 'Out of Stock',
+  belowMin: 'Below Minimum',
+  reorder: 'Reorder',
+  ok: 'In Stock',
+  overMax: 'Over Maximum',
+};
+
+export const STOCK_STATUS_BADGES: Record<StockStatus, string> = {
+  out: 'bg-red-100 text-red-800',
+  belowMin: 'bg-red-100 text-red-800',
+  reorder: 'bg-amber-100 text-amber-800',
+  ok: 'bg-green-100 text-green-800',
+  overMax: 'bg-sky-100 text-sky-800',
+};
+
+// Cross-field rules shared by the product form and the category defaults form.
+export const validateStockLevels = (levels: StockLevels): Partial<Record<keyof StockLevels, string>> => {
+  const errors: Partial<Record<keyof StockLevels, string>> = {};
+  STOCK_LEVEL_KEYS.forEach(key => {
+    const value = levels[key];
+    if (value != null && (!Number.isInteger(value) || value < 0)) errors[key] = "Must be a whole number of zero or more.";
+  });
+  if (levels.reorderQuantity === 0) errors.reorderQuantity = "Reorder quantity must be greater than zero.";
+  if (levels.minStock != null && levels.reorderPoint != null && levels.minStock > levels.reorderPoint) {
+    errors.minStock = "Minimum cannot be above the reorder point.";
+  }
+  if (levels.maxStock != null && levels.reorderPoint != null && levels.maxStock <= levels.reorderPoint) {
+    errors.maxStock = "Maximum must be above the reorder point.";
+  }
+  return errors;
+};
+
+// Purchase orders that have been raised but not yet received.
+export const OPEN_PURCHASE_ORDER_STATUSES: PurchaseOrderStatus[] = ['Pending Approval', 'Approved'];
+
+export const getOpenOrderQuantity = (purchaseOrders: PurchaseOrder[], productId: string): number =>
+  purchaseOrders
+    .filter(po => po.productId === productId && OPEN_PURCHASE_ORDER_STATUSES.includes(po.status))
+    .reduce((sum, po) => sum + po.quantity, 0);
+
+// Orders up to the maximum when one is set, otherwise the reorder quantity, less whatever is already on order.
+export const suggestOrderQuantity = (quantity: number, levels: ResolvedStockLevels, openOrderQuantity: number): number => {
+  const target = levels.maxStock !== undefined ? levels.maxStock - Math.max(quantity, 0) : levels.reorderQuantity;
+  return Math.max(0, target - openOrderQuantity);
+};
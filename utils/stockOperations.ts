@@ -0,0 +1,76 @@
+// Stock-changing workflows are executed atomically by the data backend (see utils/db.ts and
+// supabase/migrations). Failures are reported with one of these codes as the error message.
+
+export type StockErrorCode =
+  | 'INSUFFICIENT_STOCK'
+  | 'NEGATIVE_STOCK'
+  | 'INVALID_STATUS'
+  | 'INVALID_QUANTITY'
+  | 'INVALID_UNIT_COST'
+  | 'PRODUCT_NOT_FOUND'
+  | 'REQUEST_NOT_FOUND'
+  | 'PURCHASE_ORDER_NOT_FOUND'
+  | 'WAREHOUSE_NOT_FOUND'
+  | 'LOT_NUMBER_REQUIRED'
+  | 'LOT_EXPIRY_MISMATCH'
+  | 'LOT_NOT_FOUND'
+  | 'SERIAL_COUNT_MISMATCH'
+  | 'SERIAL_DUPLICATE'
+  | 'SERIAL_NOT_AVAILABLE'
+  | 'EXPIRED_STOCK'
+  | 'NOT_A_KIT'
+  | 'KIT_COMPONENTS_SHORT'
+  | 'QUANTITY_MANAGED_BY_LEDGER'
+  | 'STOCKTAKE_NOT_FOUND'
+  | 'STOCKTAKE_EMPTY'
+  | 'STOCKTAKE_OVERLAP'
+  | 'STOCK_ALREADY_ISSUED'
+  | 'SAME_WAREHOUSE'
+  | 'NOT_AUTHORIZED'
+  | 'VENDOR_NOT_FOUND'
+  | 'NOT_ARCHIVED'
+  | 'PRODUCT_HAS_STOCK'
+  | 'RECORD_IN_USE';
+
+const STOCK_ERROR_MESSAGES: Record<StockErrorCode, string> = {
+  INSUFFICIENT_STOCK: 'There is not enough available stock to complete this action.',
+  NEGATIVE_STOCK: 'Adjustment cannot result in negative stock.',
+  INVALID_STATUS: 'This document has already been processed by someone else.',
+  INVALID_QUANTITY: 'The quantity is not valid.',
+  INVALID_UNIT_COST: 'The unit cost cannot be negative.',
+  PRODUCT_NOT_FOUND: 'The product could not be found.',
+  REQUEST_NOT_FOUND: 'The request could not be found.',
+  PURCHASE_ORDER_NOT_FOUND: 'The purchase order could not be found.',
+  WAREHOUSE_NOT_FOUND: 'The warehouse could not be found.',
+  LOT_NUMBER_REQUIRED: 'Enter a lot number to record an expiry date.',
+  LOT_EXPIRY_MISMATCH: 'This lot was already received with a different expiry date.',
+  LOT_NOT_FOUND: 'The lot could not be found.',
+  SERIAL_COUNT_MISMATCH: 'Enter exactly one serial number per unit.',
+  SERIAL_DUPLICATE: 'One or more of these serial numbers are already recorded for this product.',
+  SERIAL_NOT_AVAILABLE: 'One or more of the selected units are no longer in stock in this warehouse.',
+  EXPIRED_STOCK: 'Only expired stock is left to issue. Write off the expired stock and reorder.',
+  NOT_A_KIT: 'This product is not a kit with components.',
+  KIT_COMPONENTS_SHORT: 'There are not enough components in stock to assemble the kits.',
+  QUANTITY_MANAGED_BY_LEDGER: 'Quantities can only be changed through a stock adjustment.',
+  STOCKTAKE_NOT_FOUND: 'The stocktake could not be found.',
+  STOCKTAKE_EMPTY: 'No products in this warehouse match the selected category and location.',
+  STOCKTAKE_OVERLAP: 'Some of these products are already being counted in another open stocktake of this warehouse.',
+  STOCK_ALREADY_ISSUED: 'This request was approved before stock was reserved, so its stock has already been issued.',
+  SAME_WAREHOUSE: 'Stock can only be transferred to a different warehouse.',
+  NOT_AUTHORIZED: 'You do not have permission to do this.',
+  VENDOR_NOT_FOUND: 'The vendor could not be found.',
+  NOT_ARCHIVED: 'Only records in the recycle bin can be deleted permanently.',
+  PRODUCT_HAS_STOCK: 'A product with stock left cannot be deleted permanently.',
+  RECORD_IN_USE: 'Other records still refer to this one, so it cannot be deleted permanently.',
+};
+
+export const getStockErrorCode = (error: unknown): StockErrorCode | null => {
+  const message = (error as { message?: string } | null)?.message || '';
+  const code = (Object.keys(STOCK_ERROR_MESSAGES) as StockErrorCode[]).find(key => message.includes(key));
+  return code || null;
+};
+
+export const getStockErrorMessage = (error: unknown, fallback: string): string => {
+  const code = getStockErrorCode(error);
+  return code ? STOCK_ERROR_MESSAGES[code] : fallback;
+};
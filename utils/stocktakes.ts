@@ -0,0 +1,154 @@
+import { BinLocation, Product, ProductStock, Stocktake, StocktakeFormErrors, StocktakeLine, StocktakeStatus, User, Warehouse } from '../types';
+import { formatDate } from './helpers';
+import { escapeHtml, openPrintWindow } from './labels';
+import { getWarehouseName } from './warehouses';
+
+export const DEFAULT_VARIANCE_TOLERANCE = 5; // Percent
+export const VARIANCE_TOLERANCE_LIMITS = { min: 0, max: 100 };
+
+export const STOCKTAKE_STATUS_STYLES: Record<StocktakeStatus, string> = {
+  Counting: 'bg-blue-100 text-blue-800',
+  Recount: 'bg-amber-100 text-amber-800',
+  Review: 'bg-purple-100 text-purple-800',
+  Posted: 'bg-green-100 text-green-800',
+  Cancelled: 'bg-gray-200 text-gray-700',
+};
+
+// Supervisors and above start, review, post and cancel stocktakes; everyone else who can adjust stock counts.
+export const canManageStocktakes = (user: Pick<User, 'role'>): boolean => ['Supervisor', 'Manager', 'Super Admin'].includes(user.role);
+
+export type StocktakeScope = Pick<Stocktake, 'warehouseId' | 'category' | 'zone' | 'binLocationId'>;
+
+export const isStocktakeOpen = (stocktake: Pick<Stocktake, 'status'>): boolean =>
+  stocktake.status === 'Counting' || stocktake.status === 'Recount' || stocktake.status === 'Review';
+
+export const getStocktakeReference = (stocktake: Pick<Stocktake, 'id'>): string => `ST-${stocktake.id.slice(0, 8).toUpperCase()}`;
+
+// Products counted by a stocktake: those of the category in the zone or bin, or, without a location,
+// those held in the warehouse or assigned to one of its bins. Mirrors public.stocktake_products().
+export const getStocktakeProducts = (products: Product[], productStock: ProductStock[], binLocations: BinLocation[], scope: StocktakeScope): Product[] => {
+  const binIds = new Set(binLocations
+    .filter(b => b.warehouseId === scope.warehouseId)
+    .filter(b => scope.binLocationId ? b.id === scope.binLocationId : !scope.zone || b.zone === scope.zone)
+    .map(b => b.id));
+  const heldIds = new Set(productStock.filter(s => s.warehouseId === scope.warehouseId).map(s => s.productId));
+  return products.filter(p => {
+    if (scope.category && p.category !== scope.category) return false;
+    const inBin = !!p.locationId && binIds.has(p.locationId);
+    return scope.binLocationId || scope.zone ? inBin : inBin || heldIds.has(p.id);
+  });
+};
+
+export const describeStocktakeScope = (stocktake: StocktakeScope, binLocations: BinLocation[]): string => {
+  const bin = stocktake.binLocationId ? binLocations.find(b => b.id === stocktake.binLocationId) : undefined;
+  const parts = [
+    stocktake.category && `Category: ${stocktake.category}`,
+    stocktake.binLocationId ? `Bin: ${bin?.code || 'N/A'}` : stocktake.zone && `Zone: ${stocktake.zone}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : 'All products';
+};
+
+export const validateStocktake = (stocktake: Pick<Stocktake, 'warehouseId' | 'varianceTolerance'>): StocktakeFormErrors => {
+  const errors: StocktakeFormErrors = {};
+  if (!stocktake.warehouseId) errors.warehouseId = 'Warehouse is required.';
+  if (!Number.isFinite(stocktake.varianceTolerance)
+    || stocktake.varianceTolerance < VARIANCE_TOLERANCE_LIMITS.min
+    || stocktake.varianceTolerance > VARIANCE_TOLERANCE_LIMITS.max) {
+    errors.varianceTolerance = `Enter a percentage from ${VARIANCE_TOLERANCE_LIMITS.min} to ${VARIANCE_TOLERANCE_LIMITS.max}.`;
+  }
+  return errors;
+};
+
+// Lines are counted in the order they are laid out on the shelves.
+export const sortStocktakeLines = (lines: StocktakeLine[]): StocktakeLine[] =>
+  [...lines].sort((a, b) => a.location.localeCompare(b.location) || a.productName.localeCompare(b.productName));
+
+// During a recount only the lines outside the tolerance are counted again.
+export const getLinesToCount = (stocktake: Pick<Stocktake, 'status'>, lines: StocktakeLine[]): StocktakeLine[] =>
+  stocktake.status === 'Recount' ? lines.filter(line => line.needsRecount) : lines;
+
+// The count being entered at this stage of the stocktake.
+export const getEnteredCount = (stocktake: Pick<Stocktake, 'status'>, line: StocktakeLine): number | null =>
+  (stocktake.status === 'Recount' ? line.recountQuantity : line.countedQuantity) ?? null;
+
+// A line is posted at its recount when it was recounted, otherwise at its first count.
+export const getFinalCount = (line: StocktakeLine): number | null =>
+  (line.needsRecount ? line.recountQuantity : line.countedQuantity) ?? null;
+
+export const getLineVariance = (line: StocktakeLine): number => {
+  const counted = getFinalCount(line);
+  return counted === null ? 0 : counted - line.systemQuantity;
+};
+
+// Posting sets each counted product to its count, so the adjustment is taken from the warehouse quantity at that
+// moment rather than from the quantity when the count started. Mirrors public.post_stocktake().
+export const getLineAdjustment = (line: StocktakeLine, currentQuantity: number): number => {
+  const counted = getFinalCount(line);
+  return counted === null ? 0 : counted - currentQuantity;
+};
+
+export const isOutsideTolerance = (line: StocktakeLine, tolerancePercent: number): boolean =>
+  Math.abs((line.countedQuantity ?? 0) - line.systemQuantity) > line.systemQuantity * tolerancePercent / 100;
+
+export interface StocktakeSummary {
+  lineCount: number;
+  countedCount: number; // Lines with a count at the current stage
+  varianceCount: number; // Lines whose final count differs from the system quantity, or that posting will adjust
+  netVarianceValue: number;
+  absoluteVarianceValue: number;
+}
+
+// With the current warehouse quantities, the variances are the adjustments that posting will make.
+export const summarizeStocktake = (
+  stocktake: Pick<Stocktake, 'status'>,
+  lines: StocktakeLine[],
+  getCurrentQuantity?: (line: StocktakeLine) => number
+): StocktakeSummary => {
+  const toCount = getLinesToCount(stocktake, lines);
+  const changes = lines.map(line => getCurrentQuantity ? getLineAdjustment(line, getCurrentQuantity(line)) : getLineVariance(line));
+  const variances = lines.map((line, index) => changes[index] * line.unitPrice);
+  return {
+    lineCount: toCount.length,
+    countedCount: toCount.filter(line => getEnteredCount(stocktake, line) !== null).length,
+    varianceCount: changes.filter(change => change !== 0).length,
+    netVarianceValue: variances.reduce((sum, value) => sum + value, 0),
+    absoluteVarianceValue: variances.reduce((sum, value) => sum + Math.abs(value), 0),
+  };
+};
+
+// Opens a print-ready blind count sheet: the lines still to count, without system quantities.
+export const printCountSheet = (stocktake: Stocktake, lines: StocktakeLine[], warehouses: Warehouse[], binLocations: BinLocation[]): void => {
+  const rows = sortStocktakeLines(getLinesToCount(stocktake, lines)).map((line, index) => `
+    <tr>
+      <td class="num">${index + 1}</td>
+      <td class="mono">${escapeHtml(line.location || '-')}</td>
+      <td class="mono">${escapeHtml(line.sku)}</td>
+      <td>${escapeHtml(line.productName)}</td>
+      <td>${escapeHtml(line.baseUnit || '')}</td>
+      <td class="count"></td>
+    </tr>`).join('');
+
+  openPrintWindow(
+    `Count Sheet ${getStocktakeReference(stocktake)}`,
+    `body { font-family: sans-serif; margin: 0; padding: 10mm; font-size: 10pt; }
+     h1 { font-size: 14pt; margin: 0 0 2mm; }
+     .meta { color: #475569; font-size: 9pt; margin-bottom: 4mm; }
+     table { width: 100%; border-collapse: collapse; }
+     th, td { border: 1px solid #94a3b8; padding: 2mm; text-align: left; }
+     th { background: #f1f5f9; font-size: 9pt; }
+     tr { break-inside: avoid; }
+     .num { width: 8mm; text-align: right; }
+     .mono { font-family: monospace; }
+     .count { width: 30mm; height: 8mm; }
+     .sign { margin-top: 8mm; display: flex; gap: 20mm; font-size: 9pt; }`,
+    `<h1>${stocktake.status === 'Recount' ? 'Recount' : 'Count'} Sheet ${escapeHtml(getStocktakeReference(stocktake))}</h1>
+     <div class="meta">
+       ${escapeHtml(getWarehouseName(warehouses, stocktake.warehouseId))} · ${escapeHtml(describeStocktakeScope(stocktake, binLocations))} · Started ${escapeHtml(formatDate(stocktake.createdDate))}
+     </div>
+     <table>
+       <thead><tr><th class="num">#</th><th>Location</th><th>SKU</th><th>Product</th><th>Unit</th><th>Counted</th></tr></thead>
+       <tbody>${rows}</tbody>
+     </table>
+     <div class="sign"><span>Counted by: ____________________</span><span>Date: ______________</span></div>`
+  );
+};
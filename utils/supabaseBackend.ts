@@ -0,0 +1,215 @@
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import type { Request, StockLedgerDiscrepancy } from '../types';
+import type { DataBackend, Repository, TableName, ChangeEvent } from './db';
+
+// A table row as the untyped client reads and writes it.
+type Row = { id: string } & Record<string, unknown>;
+
+const createSupabaseRepository = <T extends { id: string }>(
+  table: TableName,
+  order: { column: string; ascending: boolean }
+): Repository<T> => ({
+  list: async () => {
+    const { data, error } = await supabase.from(table).select('*').order(order.column, { ascending: order.ascending });
+    if (error) throw error;
+    return data || [];
+  },
+  get: async (id) => {
+    const { data, error } = await supabase.from(table).select('*').eq('id', id).maybeSingle();
+    if (error) throw error;
+    return data;
+  },
+  insert: async (item) => {
+    const { data, error } = await supabase.from(table).insert(item).select().single();
+    if (error) throw error;
+    return data;
+  },
+  update: async (id, changes) => {
+    const patch: Partial<Row> = changes;
+    const { data, error } = await supabase.from(table).update(patch).eq('id', id).select().single();
+    if (error) throw error;
+    return data;
+  },
+  remove: async (ids) => {
+    const { error } = await supabase.from(table).delete().in('id', ids);
+    if (error) throw error;
+  },
+  clear: async () => {
+    const { error } = await supabase.from(table).delete().not('id', 'is', null);
+    if (error) throw error;
+  },
+});
+
+const rpc = async <T>(fn: string, params?: Record<string, unknown>): Promise<T> => {
+  const { data, error } = await supabase.rpc(fn, params);
+  if (error) throw error;
+  return data;
+};
+
+// The client mutation id selects the overloads in 0018_offline_replay.sql, so it is only sent when set.
+const withClientMutationId = (clientMutationId?: string) =>
+  clientMutationId ? { p_client_mutation_id: clientMutationId } : {};
+
+export const createSupabaseBackend = (): DataBackend => ({
+  kind: 'supabase',
+  products: createSupabaseRepository('products', { column: 'name', ascending: true }),
+  productPrices: createSupabaseRepository('product_prices', { column: 'effectiveDate', ascending: true }),
+  categoryStockLevels: createSupabaseRepository('category_stock_levels', { column: 'category', ascending: true }),
+  categoryFieldSchemas: createSupabaseRepository('category_field_schemas', { column: 'category', ascending: true }),
+  vendors: createSupabaseRepository('vendors', { column: 'name', ascending: true }),
+  warehouses: createSupabaseRepository('warehouses', { column: 'name', ascending: true }),
+  binLocations: createSupabaseRepository('bin_locations', { column: 'code', ascending: true }),
+  productStock: createSupabaseRepository('product_stock', { column: 'productId', ascending: true }),
+  costLayers: createSupabaseRepository('cost_layers', { column: 'receivedDate', ascending: true }),
+  stockLots: createSupabaseRepository('stock_lots', { column: 'expiryDate', ascending: true }),
+  serialNumbers: createSupabaseRepository('serial_numbers', { column: 'serialNumber', ascending: true }),
+  requests: createSupabaseRepository('requests', { column: 'requestDate', ascending: false }),
+  stockReservations: createSupabaseRepository('stock_reservations', { column: 'createdDate', ascending: true }),
+  purchaseOrders: createSupabaseRepository('purchase_orders', { column: 'requestDate', ascending: false }),
+  stockAdjustments: createSupabaseRepository('stock_adjustments', { column: 'date', ascending: false }),
+  stockMovements: createSupabaseRepository('stock_movements', { column: 'date', ascending: false }),
+  stocktakes: createSupabaseRepository('stocktakes', { column: 'createdDate', ascending: false }),
+  stocktakeLines: createSupabaseRepository('stocktake_lines', { column: 'location', ascending: true }),
+  users: createSupabaseRepository('users', { column: 'username', ascending: true }),
+  auditLogs: createSupabaseRepository('audit_logs', { column: 'timestamp', ascending: false }),
+  companySettings: createSupabaseRepository('company_settings', { column: 'id', ascending: true }),
+
+  stock: {
+    approveRequest: (requestId, username, reservedUntil, serialNumbers) =>
+      rpc('approve_request', { p_request_id: requestId, p_username: username, p_reserved_until: reservedUntil, p_serial_numbers: serialNumbers || null }),
+    collectRequest: (requestId, username, collectionDate, clientMutationId) =>
+      rpc('collect_request', {
+        p_request_id: requestId,
+        p_username: username,
+        p_collection_date: collectionDate || new Date().toISOString(),
+        ...withClientMutationId(clientMutationId),
+      }),
+    cancelRequest: (requestId, username) => rpc('cancel_request', { p_request_id: requestId, p_username: username }),
+    expireReservations: async (username) => (await rpc<Request[]>('expire_reservations', { p_username: username })) || [],
+    receivePurchaseOrder: (poId, username, lot, serialNumbers, unitCost, clientMutationId) =>
+      rpc('receive_purchase_order', {
+        p_po_id: poId,
+        p_username: username,
+        p_lot_number: lot?.lotNumber || null,
+        p_expiry_date: lot?.expiryDate || null,
+        p_serial_numbers: serialNumbers || null,
+        p_unit_cost: unitCost ?? null,
+        ...withClientMutationId(clientMutationId),
+      }),
+    assembleKit: (kitId, warehouseId, quantity, username) =>
+      rpc('assemble_kit', { p_kit_id: kitId, p_warehouse_id: warehouseId, p_quantity: quantity, p_username: username }),
+    disassembleKit: (kitId, warehouseId, quantity, username) =>
+      rpc('disassemble_kit', { p_kit_id: kitId, p_warehouse_id: warehouseId, p_quantity: quantity, p_username: username }),
+    applyStockAdjustment: (adjustment, username, clientMutationId) =>
+      rpc('apply_stock_adjustment', {
+        p_product_id: adjustment.productId,
+        p_warehouse_id: adjustment.warehouseId,
+        p_quantity_change: adjustment.quantityChange,
+        p_reason: adjustment.reason,
+        p_notes: adjustment.notes || null,
+        p_username: username,
+        p_lot_id: adjustment.lotId || null,
+        ...withClientMutationId(clientMutationId),
+      }),
+    transferStock: (transfer, username) =>
+      rpc('transfer_stock', {
+        p_product_id: transfer.productId,
+        p_from_warehouse_id: transfer.fromWarehouseId,
+        p_to_warehouse_id: transfer.toWarehouseId,
+        p_quantity: transfer.quantity,
+        p_username: username,
+        p_notes: transfer.notes || null,
+        p_serial_numbers: transfer.serialNumbers || null,
+      }),
+    startStocktake: (stocktake, username) =>
+      rpc('start_stocktake', {
+        p_warehouse_id: stocktake.warehouseId,
+        p_category: stocktake.category || null,
+        p_zone: stocktake.zone || null,
+        p_bin_location_id: stocktake.binLocationId || null,
+        p_variance_tolerance: stocktake.varianceTolerance,
+        p_notes: stocktake.notes || null,
+        p_username: username,
+      }),
+    postStocktake: (stocktakeId, username) => rpc('post_stocktake', { p_stocktake_id: stocktakeId, p_username: username }),
+    verifyStockLedger: async () => (await rpc<StockLedgerDiscrepancy[]>('verify_stock_ledger')) || [],
+    rebuildProductQuantities: () => rpc('rebuild_product_quantities'),
+  },
+
+  recycleBin: {
+    purgeProduct: (productId) => rpc('purge_product', { p_product_id: productId }),
+    purgeVendor: (vendorId) => rpc('purge_vendor', { p_vendor_id: vendorId }),
+    clearAllData: () => rpc('clear_all_data'),
+  },
+
+  auth: {
+    getSessionUserId: async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      return session?.user.id || null;
+    },
+    onAuthStateChange: (callback) => {
+      const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+        callback(session?.user.id || null);
+      });
+      return () => subscription.unsubscribe();
+    },
+    signIn: async (username, password) => {
+      // Supabase Auth uses email for login. Usernames are the users' email addresses.
+      const { error } = await supabase.auth.signInWithPassword({ email: username, password });
+      if (error) throw error;
+    },
+    signOut: async () => {
+      const { error } = await supabase.auth.signOut();
+      if (error) throw error;
+    },
+    createCredentials: async (username, password) => {
+      // 1. Get the current admin session to restore it later
+      const { data: { session: adminSession }, error: sessionError } = await supabase.auth.getSession();
+      if (sessionError || !adminSession) {
+        throw new Error("Could not verify your session. Please log in again.");
+      }
+
+      // 2. Sign up the new user. This action will change the active session.
+      const { data: authData, error: signUpError } = await supabase.auth.signUp({ email: username, password });
+      if (signUpError) throw signUpError;
+      if (!authData.user) throw new Error("User not created in Auth.");
+
+      // 3. Immediately restore the admin's session to prevent the admin from being logged out.
+      const { error: restoreError } = await supabase.auth.setSession({
+        access_token: adminSession.access_token,
+        refresh_token: adminSession.refresh_token,
+      });
+      if (restoreError) {
+        await supabase.auth.signOut(); // Log out everyone to be safe.
+        throw new Error("Critical session error. Please refresh and log in again.");
+      }
+      return authData.user.id;
+    },
+    verifyPassword: async (username, password) => {
+      // The client SDK has no "verify password" method, so we attempt a sign in instead.
+      const { error } = await supabase.auth.signInWithPassword({ email: username, password });
+      return !error;
+    },
+    updatePassword: async (newPassword) => {
+      const { error } = await supabase.auth.updateUser({ password: newPassword });
+      if (error) throw error;
+    },
+    sendPasswordReset: async (username) => {
+      const { error } = await supabase.auth.resetPasswordForEmail(username, { redirectTo: window.location.origin });
+      if (error) throw error;
+    },
+  },
+
+  subscribe: <T extends { id: string }>(table: TableName, onChange: (change: ChangeEvent<T>) => void) => {
+    const channel = supabase.channel(`realtime-${table}`);
+    channel
+      .on('postgres_changes', { event: '*', schema: 'public', table }, (payload: RealtimePostgresChangesPayload<T>) => {
+        onChange({ eventType: payload.eventType, new: payload.new as T, old: payload.old });
+      })
+      .subscribe();
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  },
+});
@@ -0,0 +1,49 @@
+import { DocumentUnits, Product, QuantityEntry, UnitConversion } from '../types';
+import { formatNumber } from './helpers';
+
+// Base unit of products created before units of measure existed (see 0009_units_of_measure.sql).
+export const DEFAULT_BASE_UNIT = 'pcs';
+
+export const getBaseUnit = (product?: Pick<Product, 'baseUnit'>): string => product?.baseUnit || DEFAULT_BASE_UNIT;
+
+// The base unit first, then the product's alternate units.
+export const getProductUnits = (product: Product): UnitConversion[] =>
+  [{ unit: getBaseUnit(product), factor: 1 }, ...(product.unitConversions || [])];
+
+export const getUnitFactor = (product: Product, unit: string): number | undefined =>
+  getProductUnits(product).find(u => u.unit === unit)?.factor;
+
+export const toBaseQuantity = (product: Product, quantity: number, unit: string): number => {
+  const factor = getUnitFactor(product, unit);
+  if (factor === undefined) throw new Error(`"${unit}" is not a unit of ${product.name}.`);
+  return quantity * factor;
+};
+
+// Quantity and unit fields of a new document for a quantity entered in one of the product's units.
+export const toDocumentQuantity = (product: Product, entry: QuantityEntry): Required<DocumentUnits> & { quantity: number } => ({
+  quantity: toBaseQuantity(product, entry.unitQuantity, entry.unit),
+  unit: entry.unit,
+  unitQuantity: entry.unitQuantity,
+  baseUnit: getBaseUnit(product),
+});
+
+export const formatQuantity = (quantity: number, unit: string): string => `${formatNumber(quantity)} ${unit}`;
+
+// "2 Box (10 Ream)" when entered in an alternate unit, otherwise "10 Ream".
+export const formatDocumentQuantity = (doc: DocumentUnits & { quantity: number }): string => {
+  const base = formatQuantity(doc.quantity, doc.baseUnit || 'units');
+  return doc.unit && doc.unitQuantity !== undefined && doc.unit !== doc.baseUnit
+    ? `${formatQuantity(doc.unitQuantity, doc.unit)} (${base})`
+    : base;
+};
+
+export const validateUnitConversions = (baseUnit: string, conversions: UnitConversion[]): string | undefined => {
+  const seen = new Set([baseUnit.trim().toLowerCase()]);
+  for (const { unit, factor } of conversions) {
+    if (!unit.trim()) return "Every alternate unit needs a name.";
+    if (seen.has(unit.trim().toLowerCase())) return `"${unit.trim()}" is used more than once.`;
+    seen.add(unit.trim().toLowerCase());
+    if (!Number.isInteger(factor) || factor < 2) return `Each ${unit.trim()} must hold a whole number of at least 2 ${baseUnit.trim() || 'base units'}.`;
+  }
+  return undefined;
+};
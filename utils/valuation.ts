@@ -0,0 +1,53 @@
+import { ProductStock, StockMovement, User, ValuationMethod } from '../types';
+import { ALL_WAREHOUSES } from './warehouses';
+
+export const VALUATION_METHODS: ValuationMethod[] = ['FIFO', 'Moving Average'];
+
+export const VALUATION_METHOD_DESCRIPTIONS: Record<ValuationMethod, string> = {
+  FIFO: 'Issues are costed at the oldest receipts still in stock.',
+  'Moving Average': 'Issues are costed at the average cost of the stock on hand, which each receipt updates.',
+};
+
+// The valuation method applies to the whole company, so only managers change it.
+export const canManageValuation = (user: Pick<User, 'role'>): boolean => ['Manager', 'Super Admin'].includes(user.role);
+
+// Stock value by product, in one warehouse or summed across all of them.
+export const getStockValues = (productStock: ProductStock[], warehouseId: string): Map<string, number> => {
+  const totals = new Map<string, number>();
+  productStock
+    .filter(s => warehouseId === ALL_WAREHOUSES || s.warehouseId === warehouseId)
+    .forEach(s => totals.set(s.productId, (totals.get(s.productId) || 0) + (s.stockValue || 0)));
+  return totals;
+};
+
+export interface ValuationLine {
+  productId: string;
+  productName: string;
+  warehouseId: string;
+  quantity: number;
+  value: number;
+}
+
+// Quantity and value of each product in each warehouse at the end of the given day (YYYY-MM-DD),
+// summed from the ledger. Products with neither stock nor value on that day are left out, as are
+// products that no longer exist: clearing all data deletes products but keeps their movements.
+export const getValuationAsOf = (movements: StockMovement[], asOf: string, productIds: Set<string>): ValuationLine[] => {
+  const end = new Date(`${asOf}T23:59:59.999`).getTime();
+  const lines = new Map<string, ValuationLine & { lastDate: number }>();
+  movements.forEach(m => {
+    const date = new Date(m.date).getTime();
+    if (date > end || !productIds.has(m.productId)) return;
+    const key = `${m.productId}|${m.warehouseId}`;
+    const line = lines.get(key) || { productId: m.productId, productName: m.productName, warehouseId: m.warehouseId, quantity: 0, value: 0, lastDate: 0 };
+    line.quantity += m.quantityChange;
+    line.value += m.valueChange || 0;
+    if (date >= line.lastDate) {
+      line.productName = m.productName;
+      line.lastDate = date;
+    }
+    lines.set(key, line);
+  });
+  return Array.from(lines.values())
+    .filter(line => line.quantity !== 0 || Math.abs(line.value) >= 0.005)
+    .map(({ lastDate, ...line }) => line);
+};
@@ -0,0 +1,22 @@
+import { Product, ProductStock, Warehouse } from '../types';
+
+// Value of the header warehouse switcher when stock is aggregated across every warehouse.
+export const ALL_WAREHOUSES = 'all';
+
+export const getWarehouseQuantity = (productStock: ProductStock[], productId: string, warehouseId: string): number =>
+  productStock.find(s => s.productId === productId && s.warehouseId === warehouseId)?.quantity || 0;
+
+// Replaces each product's total quantity with its quantity in the given warehouse.
+export const scopeProductsToWarehouse = (products: Product[], productStock: ProductStock[], warehouseId: string): Product[] => {
+  if (warehouseId === ALL_WAREHOUSES) return products;
+  return products.map(p => ({ ...p, quantity: getWarehouseQuantity(productStock, p.id, warehouseId) }));
+};
+
+export const filterByWarehouse = <T extends { warehouseId?: string }>(rows: T[], warehouseId: string): T[] =>
+  warehouseId === ALL_WAREHOUSES ? rows : rows.filter(row => row.warehouseId === warehouseId);
+
+export const getWarehouseName = (warehouses: Warehouse[], warehouseId?: string): string =>
+  warehouses.find(w => w.id === warehouseId)?.name || 'N/A';
+
+export const getDefaultWarehouse = (warehouses: Warehouse[]): Warehouse | undefined =>
+  warehouses.find(w => w.isDefault) || warehouses[0];